@@ -1,11 +1,14 @@
 import { Link } from '@tanstack/react-router'
-import { X, ShoppingBag, Plus, Minus, Trash2 } from 'lucide-react'
-import { useCartStore } from '../hooks/useCartStore'
+import { X, ShoppingBag, Plus, Minus, Trash2, Heart } from 'lucide-react'
+import { useCartStore, type CartItem } from '../hooks/useCartStore'
+import { useWishlist } from '../hooks/useWishlist'
+import type { WishlistItemDetails } from '../server/wishlist-utils'
 import './CartPopup.css'
 import { useEffect, useState } from 'react'
 
 export function CartPopup() {
-    const { items, isOpen, toggleCart, removeItem, updateQuantity } = useCartStore()
+    const { items, isOpen, toggleCart, addItem, removeItem, updateQuantity } = useCartStore()
+    const wishlist = useWishlist()
     const [mounted, setMounted] = useState(false)
 
     // Handle hydration mismatch
@@ -17,6 +20,31 @@ export function CartPopup() {
 
     const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0)
 
+    const handleSaveForLater = async (item: CartItem) => {
+        try {
+            await wishlist.save({ productId: item.productId, variantId: item.variantId })
+            removeItem(item.id)
+        } catch (error) {
+            console.error('Failed to save for later:', error)
+        }
+    }
+
+    const handleMoveToCart = async (item: WishlistItemDetails) => {
+        addItem({
+            productId: item.productId,
+            variantId: item.variantId,
+            variantLabel: item.variantLabel,
+            name: item.name,
+            price: item.price,
+            image: item.image,
+        })
+        try {
+            await wishlist.remove({ productId: item.productId, variantId: item.variantId })
+        } catch (error) {
+            console.error('Failed to remove from wishlist:', error)
+        }
+    }
+
     return (
         <>
             <div 
@@ -61,6 +89,7 @@ export function CartPopup() {
                                 <div className="cart-item-details">
                                     <div>
                                         <h3 className="cart-item-name">{item.name}</h3>
+                                        {item.variantLabel && <p className="cart-item-variant">{item.variantLabel}</p>}
                                         <p className="cart-item-price">${item.price.toFixed(2)}</p>
                                     </div>
                                     <div className="cart-item-controls">
@@ -82,6 +111,14 @@ export function CartPopup() {
                                                 <Plus size={14} />
                                             </button>
                                         </div>
+                                        <button
+                                            onClick={() => handleSaveForLater(item)}
+                                            disabled={wishlist.isUpdating}
+                                            className="save-for-later-btn"
+                                        >
+                                            <Heart size={14} />
+                                            Save for later
+                                        </button>
                                         <button 
                                             onClick={() => removeItem(item.id)} 
                                             className="remove-btn"
@@ -94,6 +131,40 @@ export function CartPopup() {
                             </div>
                         ))
                     )}
+
+                    {wishlist.items.length > 0 && (
+                        <div className="cart-saved">
+                            <h3 className="cart-saved-title">Saved for later ({wishlist.items.length})</h3>
+                            {wishlist.items.map((item) => (
+                                <div key={`${item.productId}:${item.variantId ?? ''}`} className="cart-saved-item">
+                                    {item.image && <img src={item.image} alt={item.name} className="cart-saved-image" />}
+                                    <div className="cart-saved-details">
+                                        <p className="cart-item-name">{item.name}</p>
+                                        {item.variantLabel && <p className="cart-item-variant">{item.variantLabel}</p>}
+                                        <p className="cart-item-price">${item.price.toFixed(2)}</p>
+                                    </div>
+                                    {item.needsVariant ? (
+                                        <Link
+                                            to="/product/$productId"
+                                            params={{ productId: item.productId }}
+                                            className="move-to-cart-btn"
+                                            onClick={toggleCart}
+                                        >
+                                            Choose options
+                                        </Link>
+                                    ) : (
+                                        <button
+                                            onClick={() => handleMoveToCart(item)}
+                                            disabled={!item.inStock || wishlist.isUpdating}
+                                            className="move-to-cart-btn"
+                                        >
+                                            {item.inStock ? 'Move to cart' : 'Out of stock'}
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
 
                 {items.length > 0 && (
@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query'
+import { getCategoriesFn } from '../server/category'
+import { flattenCategoryTree } from '../server/category-tree'
+
+interface CategorySelectProps {
+    value: string
+    onChange: (categoryId: string) => void
+    className?: string
+    // Label of the empty choice, e.g. "Uncategorised" or "All categories"
+    placeholder?: string
+    // Option values are category slugs instead of IDs, for storefront URLs
+    useSlugs?: boolean
+}
+
+/**
+ * Category picker listing the taxonomy in tree order, subcategories indented below their parent
+ */
+export function CategorySelect({ value, onChange, className, placeholder = 'Uncategorised', useSlugs = false }: CategorySelectProps) {
+    const { data } = useQuery({
+        queryKey: ['categories'],
+        queryFn: () => getCategoriesFn(),
+        staleTime: 5 * 60 * 1000,
+    })
+
+    return (
+        <select value={value} onChange={e => onChange(e.target.value)} className={className}>
+            <option value="">{placeholder}</option>
+            {flattenCategoryTree(data?.categories || []).map(({ category, depth }) => (
+                <option key={category._id} value={useSlugs ? category.slug : category._id}>
+                    {'\u00a0\u00a0'.repeat(depth)}{category.name}
+                </option>
+            ))}
+        </select>
+    )
+}
@@ -1,44 +1,103 @@
 import { useNavigate } from '@tanstack/react-router'
+import { useQuery } from '@tanstack/react-query'
 import { useState, useEffect, useCallback } from 'react'
-import type { ProductStatus } from '../server/product-utils'
+import type { ProductFacets, ProductSort, ProductStatus } from '../server/product-utils'
+import { getCategoriesFn } from '../server/category'
+import { getSubtreeIds } from '../server/category-tree'
+import { CategorySelect } from './CategorySelect'
 
 interface FilterBarProps {
     currentSearch?: string
     currentStatus?: ProductStatus | ''
+    currentCategory?: string
+    currentSupplier?: string
+    currentSort?: ProductSort
+    currentMinPrice?: number
+    currentMaxPrice?: number
+    currentInStock?: boolean
+    // Counts of the listed products, shown as refinements below the filters
+    facets?: ProductFacets
 }
 
-export function FilterBar({ currentSearch = '', currentStatus = '' }: FilterBarProps) {
+// Filters to change; empty strings, false and undefined remove a filter
+interface FilterUpdates {
+    search?: string
+    status?: ProductStatus | ''
+    category?: string
+    supplier?: string
+    sort?: ProductSort | ''
+    minPrice?: number
+    maxPrice?: number
+    inStock?: boolean
+}
+
+const SORT_LABELS: Record<ProductSort, string> = {
+    relevance: 'Best Match',
+    newest: 'Newest',
+    price_asc: 'Price: Low to High',
+    price_desc: 'Price: High to Low',
+    best_selling: 'Best Selling',
+    name: 'Name: A to Z',
+}
+
+export function FilterBar({
+    currentSearch = '',
+    currentStatus = '',
+    currentCategory = '',
+    currentSupplier = '',
+    currentSort,
+    currentMinPrice,
+    currentMaxPrice,
+    currentInStock = false,
+    facets
+}: FilterBarProps) {
     const navigate = useNavigate()
     const [search, setSearch] = useState(currentSearch)
+    const [minPrice, setMinPrice] = useState(currentMinPrice?.toString() ?? '')
+    const [maxPrice, setMaxPrice] = useState(currentMaxPrice?.toString() ?? '')
+
+    // Keep the price inputs in step with the URL, e.g. after a price band is chosen
+    useEffect(() => {
+        setMinPrice(currentMinPrice?.toString() ?? '')
+        setMaxPrice(currentMaxPrice?.toString() ?? '')
+    }, [currentMinPrice, currentMaxPrice])
 
     // Debounce search input
     useEffect(() => {
         const timer = setTimeout(() => {
             if (search !== currentSearch) {
-                updateFilters({ search: search || undefined })
+                updateFilters({ search })
             }
         }, 300)
         return () => clearTimeout(timer)
     }, [search, currentSearch])
 
-    const updateFilters = useCallback((updates: { search?: string; status?: ProductStatus | '' }) => {
+    const updateFilters = useCallback((updates: FilterUpdates) => {
+        const changes = Object.fromEntries(
+            Object.entries(updates).map(([key, value]) => [key, value === '' || value === false ? undefined : value])
+        ) as Omit<FilterUpdates, 'status' | 'sort'> & { status?: ProductStatus; sort?: ProductSort }
+
         navigate({
             to: '/products',
             search: (prev) => ({
                 ...prev,
-                search: updates.search !== undefined ? updates.search : prev.search,
-                status: updates.status !== undefined 
-                    ? (updates.status as ProductStatus | undefined) 
-                    : prev.status,
-                page: 1, // Reset to page 1 when filters change
+                ...changes,
+                // Start from the top when filters change
+                cursor: undefined,
+                direction: undefined,
             }),
             replace: true,
         })
     }, [navigate])
 
     const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        const value = e.target.value as ProductStatus | ''
-        updateFilters({ status: value || undefined })
+        updateFilters({ status: e.target.value as ProductStatus | '' })
+    }
+
+    // Apply typed prices once the shopper leaves the field or presses Enter
+    const applyPrices = () => {
+        const parse = (value: string) => value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Math.max(0, Number(value))
+        updateFilters({ minPrice: parse(minPrice), maxPrice: parse(maxPrice) })
     }
 
     const clearFilters = () => {
@@ -50,7 +109,8 @@ export function FilterBar({ currentSearch = '', currentStatus = '' }: FilterBarP
         })
     }
 
-    const hasFilters = currentSearch || currentStatus
+    const hasFilters = currentSearch || currentStatus || currentCategory || currentSupplier
+        || currentMinPrice !== undefined || currentMaxPrice !== undefined || currentInStock
 
     return (
         <div className="filter-bar">
@@ -65,6 +125,13 @@ export function FilterBar({ currentSearch = '', currentStatus = '' }: FilterBarP
                     />
                     <span className="filter-search-icon">🔍</span>
                 </div>
+                <CategorySelect
+                    value={currentCategory}
+                    onChange={(category) => updateFilters({ category })}
+                    className="filter-select"
+                    placeholder="All Categories"
+                    useSlugs
+                />
                 <select
                     value={currentStatus}
                     onChange={handleStatusChange}
@@ -75,12 +142,176 @@ export function FilterBar({ currentSearch = '', currentStatus = '' }: FilterBarP
                     <option value="draft">Draft</option>
                     <option value="archived">Archived</option>
                 </select>
+                <select
+                    value={currentSort ?? (currentSearch ? 'relevance' : 'newest')}
+                    onChange={(e) => updateFilters({ sort: e.target.value as ProductSort })}
+                    className="filter-select"
+                    aria-label="Sort products"
+                >
+                    {(Object.keys(SORT_LABELS) as ProductSort[])
+                        .filter(sort => sort !== 'relevance' || currentSearch)
+                        .map(sort => (
+                            <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+                        ))}
+                </select>
+            </div>
+            <div className="filter-bar-inputs">
+                <div className="filter-price">
+                    <input
+                        type="number"
+                        min="0"
+                        placeholder="Min $"
+                        value={minPrice}
+                        onChange={(e) => setMinPrice(e.target.value)}
+                        onBlur={applyPrices}
+                        onKeyDown={(e) => e.key === 'Enter' && applyPrices()}
+                        className="filter-price-input"
+                        aria-label="Minimum price"
+                    />
+                    <span>to</span>
+                    <input
+                        type="number"
+                        min="0"
+                        placeholder="Max $"
+                        value={maxPrice}
+                        onChange={(e) => setMaxPrice(e.target.value)}
+                        onBlur={applyPrices}
+                        onKeyDown={(e) => e.key === 'Enter' && applyPrices()}
+                        className="filter-price-input"
+                        aria-label="Maximum price"
+                    />
+                </div>
+                <label className="filter-checkbox">
+                    <input
+                        type="checkbox"
+                        checked={currentInStock}
+                        onChange={(e) => updateFilters({ inStock: e.target.checked })}
+                    />
+                    In stock only
+                </label>
             </div>
             {hasFilters && (
                 <button onClick={clearFilters} className="filter-clear">
                     Clear Filters
                 </button>
             )}
+            {facets && (
+                <FacetList
+                    facets={facets}
+                    currentCategory={currentCategory}
+                    currentSupplier={currentSupplier}
+                    currentMinPrice={currentMinPrice}
+                    currentInStock={currentInStock}
+                    onCategory={(category) => updateFilters({ category })}
+                    onSupplier={(supplier) => updateFilters({ supplier })}
+                    onPriceBand={(min, max) => updateFilters({ minPrice: min, maxPrice: max })}
+                    onInStock={(inStock) => updateFilters({ inStock })}
+                />
+            )}
+        </div>
+    )
+}
+
+interface FacetListProps {
+    facets: ProductFacets
+    currentCategory: string
+    currentSupplier: string
+    currentMinPrice?: number
+    currentInStock: boolean
+    onCategory: (slug: string) => void
+    onSupplier: (supplierId: string) => void
+    onPriceBand: (min: number | undefined, max: number | undefined) => void
+    onInStock: (inStock: boolean) => void
+}
+
+/**
+ * Refinements of the current listing, each with the number of products it would leave
+ */
+function FacetList({
+    facets,
+    currentCategory,
+    currentSupplier,
+    currentMinPrice,
+    currentInStock,
+    onCategory,
+    onSupplier,
+    onPriceBand,
+    onInStock
+}: FacetListProps) {
+    const { data } = useQuery({
+        queryKey: ['categories'],
+        queryFn: () => getCategoriesFn(),
+        staleTime: 5 * 60 * 1000,
+    })
+    const categories = data?.categories || []
+
+    // Subcategories of the chosen category, or the top level, counting everything below each
+    const parent = categories.find(category => category.slug === currentCategory)
+    const categoryCounts = new Map(facets.categories.map(facet => [facet.value, facet.count]))
+    const categoryFacets = categories
+        .filter(category => category.parentId === (parent?._id ?? null))
+        .map(category => ({
+            category,
+            count: getSubtreeIds(categories, category._id)
+                .reduce((sum, id) => sum + (categoryCounts.get(id) || 0), 0)
+        }))
+        .filter(facet => facet.count > 0)
+
+    return (
+        <div className="filter-facets">
+            {categoryFacets.length > 0 && (
+                <div className="filter-facet-group">
+                    <span className="filter-facet-label">Category</span>
+                    {categoryFacets.map(({ category, count }) => (
+                        <button key={category._id} className="filter-facet" onClick={() => onCategory(category.slug)}>
+                            {category.name} <span className="filter-facet-count">{count}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+            {facets.suppliers.length > 1 || currentSupplier ? (
+                <div className="filter-facet-group">
+                    <span className="filter-facet-label">Maker</span>
+                    {facets.suppliers.map(supplier => (
+                        <button
+                            key={supplier.value}
+                            className={`filter-facet ${supplier.value === currentSupplier ? 'active' : ''}`}
+                            onClick={() => onSupplier(supplier.value === currentSupplier ? '' : supplier.value)}
+                        >
+                            {supplier.label || 'Independent maker'} <span className="filter-facet-count">{supplier.count}</span>
+                        </button>
+                    ))}
+                </div>
+            ) : null}
+            {facets.priceBands.length > 0 && (
+                <div className="filter-facet-group">
+                    <span className="filter-facet-label">Price</span>
+                    {facets.priceBands.map(band => {
+                        const isActive = band.min === currentMinPrice
+                        return (
+                            <button
+                                key={band.min}
+                                className={`filter-facet ${isActive ? 'active' : ''}`}
+                                onClick={() => isActive
+                                    ? onPriceBand(undefined, undefined)
+                                    : onPriceBand(band.min, band.max ?? undefined)}
+                            >
+                                {band.max === null ? `$${band.min}+` : `$${band.min}–$${band.max}`}{' '}
+                                <span className="filter-facet-count">{band.count}</span>
+                            </button>
+                        )
+                    })}
+                </div>
+            )}
+            <div className="filter-facet-group">
+                <span className="filter-facet-label">Availability</span>
+                <button
+                    className={`filter-facet ${currentInStock ? 'active' : ''}`}
+                    onClick={() => onInStock(!currentInStock)}
+                >
+                    In stock <span className="filter-facet-count">{facets.inStock}</span>
+                </button>
+            </div>
         </div>
     )
 }
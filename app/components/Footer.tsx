@@ -24,6 +24,13 @@ export default function Footer() {
                         </ul>
                     </div>
 
+                    <div className="footer-section">
+                        <h4>Sell</h4>
+                        <ul>
+                            <li><Link to="/become-a-maker">Become a maker</Link></li>
+                        </ul>
+                    </div>
+
                     <div className="footer-section">
                         <h4>Support</h4>
                         <ul>
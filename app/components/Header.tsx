@@ -3,7 +3,9 @@ import { useEffect, useState } from 'react'
 import { getSession, signOut } from '../server/auth'
 import { ShoppingBag } from 'lucide-react'
 import { useCartStore } from '../hooks/useCartStore'
+import { useCartSync } from '../hooks/useCartSync'
 import { CartPopup } from './CartPopup'
+import { NotificationBell } from './NotificationBell'
 
 import './Header.css'
 
@@ -12,6 +14,7 @@ interface UserSession {
         id: string
         name: string
         email: string
+        isAnonymous?: boolean
     }
 }
 
@@ -20,9 +23,11 @@ export default function Header() {
     const [session, setSession] = useState<UserSession | null>(null)
     const [isLoading, setIsLoading] = useState(true)
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
-    const { items, toggleCart } = useCartStore()
+    const { items, toggleCart, reset: resetCart } = useCartStore()
     const cartItemCount = items.reduce((acc, item) => acc + item.quantity, 0)
 
+    useCartSync()
+
     useEffect(() => {
         const fetchSession = async () => {
             try {
@@ -31,7 +36,9 @@ export default function Header() {
                 if (result instanceof Response) {
                     data = await result.json()
                 }
-                setSession(data as UserSession | null)
+                const userSession = data as UserSession | null
+                // Guests get an anonymous session for their cart - treat them as signed out
+                setSession(userSession?.user?.isAnonymous ? null : userSession)
             } catch {
                 setSession(null)
             } finally {
@@ -50,6 +57,7 @@ export default function Header() {
         try {
             await signOut()
             setSession(null)
+            resetCart()
             router.navigate({ to: '/' })
         } catch (error) {
             console.error('Sign out failed:', error)
@@ -93,6 +101,8 @@ export default function Header() {
                         </button>
                     </div>
 
+                    {session?.user && <NotificationBell className="header-notifications" />}
+
                     {isLoading ? (
                         <span className="header-link">Loading...</span>
                     ) : session?.user ? (
@@ -0,0 +1,103 @@
+import { useQuery } from '@tanstack/react-query'
+import { getProductMovementsFn } from '../server/inventory'
+import type { InventoryMovementType } from '../server/inventory-utils'
+import { describeVariant } from '../server/product-variants'
+import { Loader2, X } from 'lucide-react'
+
+interface InventoryHistoryDrawerProps {
+    product: {
+        _id: string
+        name: string
+        inventory: { onHand: number }
+        variants?: Array<{ id: string; options: Record<string, string> }>
+    } | null
+    isOpen: boolean
+    onClose: () => void
+}
+
+const movementLabels: Record<InventoryMovementType, string> = {
+    restock: 'Restock',
+    sale: 'Sale',
+    cancel_restock: 'Cancellation restock',
+    adjustment: 'Manual adjustment',
+    return: 'Return',
+}
+
+/**
+ * Stock movement history of a product, shared by the supplier and admin inventory pages
+ */
+export function InventoryHistoryDrawer({ product, isOpen, onClose }: InventoryHistoryDrawerProps) {
+    const { data, isLoading, isError, error } = useQuery({
+        queryKey: ['inventory', 'movements', product?._id],
+        queryFn: () => getProductMovementsFn({ data: { productId: product!._id } }),
+        enabled: isOpen && !!product,
+    })
+
+    if (!isOpen || !product) return null
+
+    const variantLabels = new Map(product.variants?.map(variant => [variant.id, describeVariant(variant.options)]))
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-hidden" aria-labelledby="inventory-history-title" role="dialog" aria-modal="true">
+            {/* Backdrop */}
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+            <div className="fixed inset-y-0 right-0 flex max-w-full pl-10">
+                <div className="w-screen max-w-md flex flex-col bg-white shadow-xl">
+
+                    {/* Header */}
+                    <div className="px-6 py-5 border-b border-gray-100">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-xl font-semibold leading-6 text-gray-900" id="inventory-history-title">
+                                Stock History
+                            </h3>
+                            <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+                                <X className="h-6 w-6" />
+                            </button>
+                        </div>
+                        <p className="mt-1 text-sm text-gray-500">
+                            {product.name} &middot; {product.inventory.onHand} units on hand
+                        </p>
+                    </div>
+
+                    {/* Body */}
+                    <div className="flex-1 overflow-y-auto px-6 py-5">
+                        {isLoading ? (
+                            <div className="flex justify-center py-12">
+                                <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+                            </div>
+                        ) : isError ? (
+                            <p className="text-sm text-red-600">{(error as Error).message}</p>
+                        ) : !data?.movements.length ? (
+                            <p className="text-sm text-gray-500">No stock movements recorded for this product.</p>
+                        ) : (
+                            <ul className="divide-y divide-gray-100 text-sm">
+                                {data.movements.map((movement) => (
+                                    <li key={movement._id} className="py-3">
+                                        <div className="flex justify-between">
+                                            <span className="font-medium text-gray-900">{movementLabels[movement.type]}</span>
+                                            <span className={`font-mono ${movement.delta > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                                                {movement.delta > 0 ? '+' : ''}{movement.delta}
+                                            </span>
+                                        </div>
+                                        {movement.variantId && (
+                                            <p className="text-xs text-gray-700 mt-0.5">
+                                                {variantLabels.get(movement.variantId) ?? 'Removed variant'}
+                                            </p>
+                                        )}
+                                        <p className="text-xs text-gray-500 mt-0.5">
+                                            {new Date(movement.createdAt).toLocaleString()} by {movement.actorRole}
+                                            {movement.orderId && <> &middot; Order #{movement.orderId.substring(0, 8)}</>}
+                                            {movement.returnId && <> &middot; Return #{movement.returnId.substring(0, 8)}</>}
+                                        </p>
+                                        {movement.note && <p className="text-xs text-gray-600 mt-1">{movement.note}</p>}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
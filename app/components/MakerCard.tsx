@@ -0,0 +1,35 @@
+import { Link } from '@tanstack/react-router'
+import type { MakerSummary } from '../server/supplier-utils'
+import './MakerCard.css'
+
+interface MakerCardProps {
+    maker: MakerSummary
+}
+
+export function MakerAvatar({ maker, size = 48 }: { maker: Pick<MakerSummary, 'displayName' | 'logoUrl'>; size?: number }) {
+    return maker.logoUrl ? (
+        <img src={maker.logoUrl} alt="" className="maker-avatar" style={{ width: size, height: size }} />
+    ) : (
+        <span className="maker-avatar maker-avatar-initial" style={{ width: size, height: size }} aria-hidden="true">
+            {maker.displayName.charAt(0).toUpperCase()}
+        </span>
+    )
+}
+
+export function MakerCard({ maker }: MakerCardProps) {
+    return (
+        <Link
+            to="/makers/$supplierId"
+            params={{ supplierId: maker.supplierId }}
+            className="maker-card"
+        >
+            <MakerAvatar maker={maker} />
+            <div className="maker-card-text">
+                <span className="maker-card-label">Made by</span>
+                <span className="maker-card-name">{maker.displayName}</span>
+                {maker.location && <span className="maker-card-location">{maker.location}</span>}
+            </div>
+            <span className="maker-card-cta">Visit shop →</span>
+        </Link>
+    )
+}
@@ -0,0 +1,119 @@
+import { Link } from '@tanstack/react-router'
+import { useEffect, useRef, useState } from 'react'
+import { Bell } from 'lucide-react'
+import { useNotifications } from '../hooks/useNotifications'
+import type { NotificationSerializable } from '../server/notification-utils'
+import './NotificationBell.css'
+
+interface NotificationBellProps {
+    align?: 'left' | 'right'   // Which edge of the bell the dropdown lines up with
+    className?: string
+}
+
+/**
+ * Bell with an unread badge that opens the user's recent notifications
+ */
+export function NotificationBell({ align = 'right', className = '' }: NotificationBellProps) {
+    const { notifications, unreadCount, isLoading, isUpdating, markRead, markAllRead } = useNotifications()
+    const [isOpen, setIsOpen] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+
+    // Close when clicking anywhere outside the dropdown
+    useEffect(() => {
+        if (!isOpen) return
+
+        const handleClick = (event: MouseEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) {
+                setIsOpen(false)
+            }
+        }
+        document.addEventListener('mousedown', handleClick)
+        return () => document.removeEventListener('mousedown', handleClick)
+    }, [isOpen])
+
+    const handleOpen = (notification: NotificationSerializable) => {
+        setIsOpen(false)
+        if (!notification.readAt) {
+            markRead([notification._id]).catch(error => console.error('Failed to mark notification read:', error))
+        }
+    }
+
+    const handleMarkAllRead = async () => {
+        try {
+            await markAllRead()
+        } catch (error) {
+            console.error('Failed to mark notifications read:', error)
+        }
+    }
+
+    return (
+        <div className={`notification-bell ${className}`} ref={containerRef}>
+            <button
+                type="button"
+                className="notification-bell-button"
+                onClick={() => setIsOpen(!isOpen)}
+                aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+                aria-expanded={isOpen}
+            >
+                <Bell size={20} />
+                {unreadCount > 0 && (
+                    <span className="notification-badge">{unreadCount > 9 ? '9+' : unreadCount}</span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className={`notification-dropdown align-${align}`}>
+                    <div className="notification-dropdown-header">
+                        <span>Notifications</span>
+                        {unreadCount > 0 && (
+                            <button type="button" onClick={handleMarkAllRead} disabled={isUpdating}>
+                                Mark all as read
+                            </button>
+                        )}
+                    </div>
+
+                    {isLoading ? (
+                        <p className="notification-empty">Loading...</p>
+                    ) : notifications.length === 0 ? (
+                        <p className="notification-empty">You're all caught up</p>
+                    ) : (
+                        <ul className="notification-list">
+                            {notifications.map((notification) => (
+                                <li key={notification._id} className={notification.readAt ? '' : 'unread'}>
+                                    <NotificationContent
+                                        notification={notification}
+                                        onOpen={() => handleOpen(notification)}
+                                    />
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+
+function NotificationContent({ notification, onOpen }: { notification: NotificationSerializable; onOpen: () => void }) {
+    const content = (
+        <>
+            <span className={`notification-title type-${notification.type}`}>{notification.title}</span>
+            <span className="notification-message">{notification.message}</span>
+            <span className="notification-time">{new Date(notification.createdAt).toLocaleString()}</span>
+        </>
+    )
+
+    if (notification.link) {
+        return (
+            <Link to={notification.link} className="notification-item" onClick={onOpen}>
+                {content}
+            </Link>
+        )
+    }
+
+    return (
+        <button type="button" className="notification-item" onClick={onOpen}>
+            {content}
+        </button>
+    )
+}
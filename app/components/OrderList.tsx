@@ -1,11 +1,19 @@
+import { useState } from 'react'
+import { useRouter } from '@tanstack/react-router'
 import type { OrderSerializable } from '../server/order-utils'
+import type { ReturnRequestSerializable } from '../server/return-utils'
+import { cancelMyOrderFn } from '../server/order'
+import { getLineKey } from '../server/product-variants'
+import { OrderTimeline } from './OrderTimeline'
+import { ReturnRequestForm } from './ReturnRequestForm'
 import './OrderList.css'
 
 interface OrderListProps {
     orders: OrderSerializable[]
+    returns?: ReturnRequestSerializable[]
 }
 
-export function OrderList({ orders }: OrderListProps) {
+export function OrderList({ orders, returns = [] }: OrderListProps) {
     if (!orders.length) {
         return (
             <div className="empty-orders">
@@ -17,47 +25,177 @@ export function OrderList({ orders }: OrderListProps) {
     return (
         <div className="order-list">
             {orders.map((order) => (
-                <div key={order._id} className="order-card">
-                    <div className="order-header">
-                        <div className="order-meta">
-                            <h3>Order #{order._id.slice(-6).toUpperCase()}</h3>
-                            <div className="order-date">
-                                {new Date(order.createdAt).toLocaleDateString(undefined, {
-                                    year: 'numeric',
-                                    month: 'long',
-                                    day: 'numeric'
-                                })}
-                            </div>
-                        </div>
-                        <span className={`order-status ${order.status}`}>
-                            {order.status}
-                        </span>
+                <OrderCard
+                    key={order._id}
+                    order={order}
+                    returns={returns.filter((returnRequest) => returnRequest.orderId === order._id)}
+                />
+            ))}
+        </div>
+    )
+}
+
+function OrderCard({ order, returns }: { order: OrderSerializable, returns: ReturnRequestSerializable[] }) {
+    const router = useRouter()
+    const [showReturnForm, setShowReturnForm] = useState(false)
+    const [cancelling, setCancelling] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    // Delivered items that have not already been fully returned
+    const deliveredSuppliers = new Set(
+        order.shipments
+            .filter((shipment) => shipment.status === 'delivered')
+            .map((shipment) => shipment.supplierId)
+    )
+    const returnableItems = order.items
+        .filter((item) => deliveredSuppliers.has(item.supplierId))
+        .map((item) => {
+            const returned = returns
+                .filter((returnRequest) => returnRequest.status !== 'rejected')
+                .flatMap((returnRequest) => returnRequest.items)
+                .filter((returnItem) => getLineKey(returnItem.productId, returnItem.variantId) === getLineKey(item.productId, item.variantId))
+                .reduce((sum, returnItem) => sum + returnItem.quantity, 0)
+            return { ...item, returnableQuantity: item.quantity - returned }
+        })
+        .filter((item) => item.returnableQuantity > 0)
+
+    const handleCancel = async () => {
+        if (!confirm('Cancel this order?')) return
+
+        setCancelling(true)
+        setError(null)
+        try {
+            await cancelMyOrderFn({ data: { orderId: order._id } })
+            router.invalidate()
+        } catch (err) {
+            console.error('Failed to cancel order:', err)
+            setError(err instanceof Error ? err.message : 'Failed to cancel order')
+        } finally {
+            setCancelling(false)
+        }
+    }
+
+    return (
+        <div key={order._id} className="order-card">
+            <div className="order-header">
+                <div className="order-meta">
+                    <h3>Order #{order._id.slice(-6).toUpperCase()}</h3>
+                    <div className="order-date">
+                        {new Date(order.createdAt).toLocaleDateString(undefined, {
+                            year: 'numeric',
+                            month: 'long',
+                            day: 'numeric'
+                        })}
                     </div>
+                </div>
+                <span className={`order-status ${order.status}`}>
+                    {order.status}
+                </span>
+            </div>
 
+            {order.shipments.map((shipment, shipmentIndex) => (
+                <div key={shipment.supplierId} className="order-shipment">
+                    {/* Each supplier ships their items separately */}
+                    {order.shipments.length > 1 && (
+                        <div className="shipment-header">
+                            <span className="shipment-label">
+                                Shipment {shipmentIndex + 1} of {order.shipments.length}
+                            </span>
+                            <span className={`order-status ${shipment.status}`}>
+                                {shipment.status}
+                            </span>
+                        </div>
+                    )}
+                    {shipment.trackingNumber && (
+                        <div className="shipment-tracking">
+                            Tracking number: <span>{shipment.trackingNumber}</span>
+                        </div>
+                    )}
                     <div className="order-items">
-                        {order.items.map((item, index) => (
-                            <div key={index} className="order-item">
-                                <div className="item-name">
-                                    <span className="item-quantity">{item.quantity}x</span>
-                                    {item.productName}
+                        {order.items
+                            .filter((item) => item.supplierId === shipment.supplierId)
+                            .map((item, index) => (
+                                <div key={index} className="order-item">
+                                    <div className="item-name">
+                                        <span className="item-quantity">{item.quantity}x</span>
+                                        {item.productName}
+                                        {item.variantLabel && <span className="item-variant">{item.variantLabel}</span>}
+                                    </div>
+                                    <div className="item-price">
+                                        ${(item.unitPrice * item.quantity).toFixed(2)}
+                                    </div>
                                 </div>
-                                <div className="item-price">
-                                    ${(item.unitPrice * item.quantity).toFixed(2)}
-                                </div>
-                            </div>
-                        ))}
+                            ))}
                     </div>
+                </div>
+            ))}
+
+            <details className="order-history">
+                <summary>Order history</summary>
+                <OrderTimeline entries={order.statusHistory} />
+            </details>
 
-                    <div className="order-totals">
-                        <div className="total-row">
-                            <span className="total-label">Total</span>
-                            <span className="total-amount">
-                                ${order.totals.total.toFixed(2)}
+            {returns.length > 0 && (
+                <div className="order-returns">
+                    <div className="shipment-label">Returns</div>
+                    {returns.map((returnRequest) => (
+                        <div key={returnRequest._id} className="order-return">
+                            <span>
+                                {returnRequest.items
+                                    .map((item) => `${item.quantity}x ${item.productName}${item.variantLabel ? ` (${item.variantLabel})` : ''}`)
+                                    .join(', ')}
+                            </span>
+                            <span className={`return-status ${returnRequest.status}`}>
+                                {returnRequest.status.replace('_', ' ')}
                             </span>
                         </div>
-                    </div>
+                    ))}
                 </div>
-            ))}
+            )}
+
+            {showReturnForm && (
+                <ReturnRequestForm
+                    orderId={order._id}
+                    items={returnableItems}
+                    onSubmitted={() => {
+                        setShowReturnForm(false)
+                        router.invalidate()
+                    }}
+                    onCancel={() => setShowReturnForm(false)}
+                />
+            )}
+
+            {error && <p className="order-error">{error}</p>}
+
+            <div className="order-totals">
+                <div className="order-actions">
+                    {order.status === 'pending' && (
+                        <button className="order-action" onClick={handleCancel} disabled={cancelling}>
+                            {cancelling ? 'Cancelling...' : 'Cancel Order'}
+                        </button>
+                    )}
+                    {returnableItems.length > 0 && !showReturnForm && (
+                        <button className="order-action" onClick={() => setShowReturnForm(true)}>
+                            Request Return
+                        </button>
+                    )}
+                </div>
+                <div className="total-row">
+                    <span className="total-label">Total</span>
+                    <span className="total-amount">
+                        ${order.totals.total.toFixed(2)}
+                    </span>
+                </div>
+            </div>
+
+            {order.payment && order.payment.refundedAmount > 0 && (
+                <p className="order-payment-note">
+                    ${order.payment.refundedAmount.toFixed(2)} refunded to your payment method
+                </p>
+            )}
+            {order.payment?.failureReason && (
+                <p className="order-payment-note">Payment failed: {order.payment.failureReason}</p>
+            )}
         </div>
     )
 }
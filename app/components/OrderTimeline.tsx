@@ -0,0 +1,59 @@
+import type { StatusActorRole, StatusHistoryEntrySerializable } from '../server/order-utils'
+import './OrderTimeline.css'
+
+interface OrderTimelineProps {
+    entries: StatusHistoryEntrySerializable[]
+    showActor?: boolean   // Show actor ids, for admin views only
+}
+
+const roleLabels: Record<StatusActorRole, string> = {
+    customer: 'Customer',
+    supplier: 'Supplier',
+    admin: 'Admin',
+    system: 'System',
+}
+
+function describeEntry(entry: StatusHistoryEntrySerializable) {
+    if (!entry.previousStatus) {
+        return 'Order placed'
+    }
+    const subject = entry.supplierId ? 'Shipment' : 'Order'
+    return `${subject} ${entry.previousStatus} → ${entry.nextStatus}`
+}
+
+export function OrderTimeline({ entries, showActor = false }: OrderTimelineProps) {
+    if (!entries.length) {
+        return <p className="timeline-empty">No status changes recorded yet.</p>
+    }
+
+    // Newest first
+    const sorted = [...entries].sort(
+        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )
+
+    return (
+        <ol className="order-timeline">
+            {sorted.map((entry, index) => (
+                <li key={index} className="timeline-entry">
+                    <span className={`timeline-dot ${entry.nextStatus}`} />
+                    <div className="timeline-content">
+                        <div className="timeline-title">
+                            {describeEntry(entry)}
+                            {entry.override && <span className="timeline-override">Override</span>}
+                        </div>
+                        <div className="timeline-meta">
+                            {new Date(entry.createdAt).toLocaleString()} · {roleLabels[entry.actorRole]}
+                            {showActor && entry.actorRole !== 'system' && (
+                                <span className="timeline-actor"> ({entry.actorId})</span>
+                            )}
+                            {showActor && entry.supplierId && (
+                                <span className="timeline-actor"> · supplier {entry.supplierId}</span>
+                            )}
+                        </div>
+                        {entry.note && <p className="timeline-note">{entry.note}</p>}
+                    </div>
+                </li>
+            ))}
+        </ol>
+    )
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { Link } from '@tanstack/react-router'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Bell, BellOff, TrendingDown } from 'lucide-react'
+import {
+    getMyProductAlertsFn,
+    subscribeProductAlertFn,
+    unsubscribeProductAlertFn
+} from '../server/product-alert'
+import type { ProductAlertKind } from '../server/product-alert-utils'
+import './ProductAlerts.css'
+
+interface ProductAlertsProps {
+    productId: string
+    variantId?: string
+    soldOut: boolean
+}
+
+/**
+ * Back-in-stock and price-drop subscriptions for the product, or the chosen variant of it
+ */
+export function ProductAlerts({ productId, variantId, soldOut }: ProductAlertsProps) {
+    const queryClient = useQueryClient()
+    const [pending, setPending] = useState<ProductAlertKind | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const { data } = useQuery({
+        queryKey: ['product-alerts', productId],
+        queryFn: () => getMyProductAlertsFn({ data: { productId } }),
+    })
+
+    if (!data) return null
+
+    if (!data.signedIn) {
+        return (
+            <p className="product-alerts-note">
+                <Link to="/login">Sign in</Link> to hear when this piece is back in stock or cheaper.
+            </p>
+        )
+    }
+
+    const findAlert = (kind: ProductAlertKind) =>
+        data.alerts.find(alert => alert.kind === kind && alert.variantId === variantId)
+
+    const toggle = async (kind: ProductAlertKind) => {
+        const existing = findAlert(kind)
+        setPending(kind)
+        setError(null)
+        try {
+            if (existing) {
+                await unsubscribeProductAlertFn({ data: { alertId: existing._id } })
+            } else {
+                await subscribeProductAlertFn({ data: { productId, variantId, kind } })
+            }
+            await queryClient.invalidateQueries({ queryKey: ['product-alerts', productId] })
+        } catch (err) {
+            console.error('Failed to update alert:', err)
+            setError(err instanceof Error ? err.message : 'Failed to update alert')
+        } finally {
+            setPending(null)
+        }
+    }
+
+    const stockAlert = findAlert('back_in_stock')
+    const priceAlert = findAlert('price_drop')
+
+    return (
+        <div className="product-alerts">
+            {soldOut && (
+                <button
+                    type="button"
+                    className={`product-alert-btn primary ${stockAlert ? 'active' : ''}`}
+                    disabled={pending !== null}
+                    onClick={() => toggle('back_in_stock')}
+                >
+                    {stockAlert ? <BellOff size={18} /> : <Bell size={18} />}
+                    {stockAlert ? "We'll email you when it's back" : 'Notify me when back in stock'}
+                </button>
+            )}
+            <button
+                type="button"
+                className={`product-alert-btn ${priceAlert ? 'active' : ''}`}
+                disabled={pending !== null}
+                onClick={() => toggle('price_drop')}
+            >
+                <TrendingDown size={16} />
+                {priceAlert ? 'Watching for a price drop' : 'Notify me on price drop'}
+            </button>
+            {error && <p className="product-alerts-error">{error}</p>}
+        </div>
+    )
+}
@@ -1,38 +1,82 @@
 import { Link } from '@tanstack/react-router'
 import type { ProductPublicSerializable } from '../server/product-utils'
+import type { ProductHighlight } from '../server/search/product-index'
+import type { MakerSummary } from '../server/supplier-utils'
+import { MakerAvatar } from './MakerCard'
+import { RatingSummary } from './StarRating'
+import { WishlistButton } from './WishlistButton'
+import type { HighlightSegment } from '../server/search/text'
 import './ProductCard.css'
 
 interface ProductCardProps {
     product: ProductPublicSerializable
+    // Words matched by a search, emphasised in the name and description
+    highlight?: ProductHighlight
+    maker?: MakerSummary
 }
 
-export function ProductCard({ product }: ProductCardProps) {
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+    return (
+        <>
+            {segments.map((segment, index) =>
+                segment.match ? <mark key={index}>{segment.text}</mark> : segment.text
+            )}
+        </>
+    )
+}
+
+export function ProductCard({ product, highlight, maker }: ProductCardProps) {
     // Use enhanced image if available, fallback to original
     const imageUrl = product.images.enhanced[0] || product.images.original[0]
+    // Variants priced differently start from the product's lowest price
+    const hasPriceRange = new Set(product.variants?.map(variant => variant.pricing.selling)).size > 1
     
     return (
-        <Link 
-            to="/product/$productId"
-            params={{ productId: product._id }} 
-            className="product-card"
-            aria-label={`View ${product.name}`}
-        >
-            <div className="product-card-image">
-                {imageUrl ? (
-                    <img src={imageUrl} alt={product.name} loading="lazy" />
-                ) : (
-                    <div className="product-card-placeholder">
-                        <span>No Image</span>
-                    </div>
-                )}
-            </div>
-            <div className="product-card-content">
-                <h3 className="product-card-title">{product.name}</h3>
-                <p className="product-card-description">{product.description}</p>
-                <p className="product-card-price">
-                    ${product.pricing.selling.toFixed(2)}
-                </p>
-            </div>
-        </Link>
+        <div className="product-card">
+            <Link 
+                to="/product/$productId"
+                params={{ productId: product._id }} 
+                className="product-card-link"
+                aria-label={`View ${product.name}`}
+            >
+                <div className="product-card-image">
+                    {imageUrl ? (
+                        <img src={imageUrl} alt={product.name} loading="lazy" />
+                    ) : (
+                        <div className="product-card-placeholder">
+                            <span>No Image</span>
+                        </div>
+                    )}
+                </div>
+                <div className="product-card-content">
+                    <h3 className="product-card-title">
+                        {highlight ? <Highlighted segments={highlight.name} /> : product.name}
+                    </h3>
+                    <p className="product-card-description">
+                        {highlight?.snippet ? <Highlighted segments={highlight.snippet} /> : product.description}
+                    </p>
+                    {product.rating && (
+                        <div className="product-card-rating">
+                            <RatingSummary rating={product.rating} size={14} />
+                        </div>
+                    )}
+                    <p className="product-card-price">
+                        {hasPriceRange && 'From '}${product.pricing.selling.toFixed(2)}
+                    </p>
+                </div>
+            </Link>
+            {/* Outside the product link, since links cannot nest */}
+            <WishlistButton productId={product._id} className="product-card-wishlist" />
+            {maker && (
+                <Link
+                    to="/makers/$supplierId"
+                    params={{ supplierId: maker.supplierId }}
+                    className="product-card-maker"
+                >
+                    <MakerAvatar maker={maker} size={24} />
+                    <span>{maker.displayName}</span>
+                </Link>
+            )}
+        </div>
     )
 }
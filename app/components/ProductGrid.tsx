@@ -1,12 +1,18 @@
 import { ProductCard } from './ProductCard'
 import type { ProductPublicSerializable } from '../server/product-utils'
+import type { ProductHighlight } from '../server/search/product-index'
+import type { MakerSummary } from '../server/supplier-utils'
 
 interface ProductGridProps {
     products: ProductPublicSerializable[]
     isLoading?: boolean
+    // Matched words of searched products, by product ID
+    highlights?: Record<string, ProductHighlight>
+    // Makers of the products, by supplier ID
+    makers?: Record<string, MakerSummary>
 }
 
-export function ProductGrid({ products, isLoading }: ProductGridProps) {
+export function ProductGrid({ products, isLoading, highlights, makers }: ProductGridProps) {
     if (isLoading) {
         return (
             <div className="product-grid">
@@ -37,7 +43,12 @@ export function ProductGrid({ products, isLoading }: ProductGridProps) {
     return (
         <div className="product-grid">
             {products.map((product) => (
-                <ProductCard key={product._id} product={product} />
+                <ProductCard
+                    key={product._id}
+                    product={product}
+                    highlight={highlights?.[product._id]}
+                    maker={makers?.[product.supplierId]}
+                />
             ))}
         </div>
     )
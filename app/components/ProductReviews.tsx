@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Link } from '@tanstack/react-router'
+import { BadgeCheck, ImagePlus, X } from 'lucide-react'
+import {
+    createCustomerReviewFn,
+    getMyProductReviewFn,
+    getProductReviewsFn,
+    uploadReviewPhotoFn
+} from '../server/customer-review'
+import { MAX_REVIEW_PHOTOS, REVIEW_LIMITS } from '../server/customer-review-state'
+import type { CustomerReviewPublicSerializable } from '../server/customer-review-utils'
+import type { ProductRating } from '../server/product-utils'
+import { useCursorPagination } from '../hooks/useCursorPagination'
+import { RatingSummary, StarRating, StarRatingInput } from './StarRating'
+import './ProductReviews.css'
+
+interface ProductReviewsProps {
+    productId: string
+    rating?: ProductRating
+    makerName?: string
+}
+
+export function ProductReviews({ productId, rating, makerName }: ProductReviewsProps) {
+    const pager = useCursorPagination(5)
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['product-reviews', productId, pager.cursor, pager.direction],
+        queryFn: () => getProductReviewsFn({
+            data: { productId, cursor: pager.cursor, direction: pager.direction, limit: pager.pageSize }
+        }),
+    })
+
+    const { data: mine } = useQuery({
+        queryKey: ['product-reviews', productId, 'mine'],
+        queryFn: () => getMyProductReviewFn({ data: { productId } }),
+    })
+
+    const reviews = data?.reviews || []
+
+    return (
+        <section className="product-reviews" id="reviews">
+            <h2 className="section-title">Customer Reviews</h2>
+
+            <div className="product-reviews-summary">
+                {rating ? (
+                    <RatingSummary rating={rating} size={20} />
+                ) : (
+                    <p>No reviews yet.</p>
+                )}
+                <p className="product-reviews-note">
+                    Only customers who have received this piece can review it.
+                </p>
+            </div>
+
+            {mine?.canReview && <ReviewForm productId={productId} />}
+            {mine?.review?.status === 'hidden' && (
+                <p className="product-reviews-note">Your review has been hidden by our moderators.</p>
+            )}
+            {mine && !mine.signedIn && (
+                <p className="product-reviews-note">
+                    <Link to="/login">Sign in</Link> to review a piece you have bought.
+                </p>
+            )}
+
+            {isLoading ? (
+                <p className="product-reviews-note">Loading reviews...</p>
+            ) : (
+                <div className="product-reviews-list">
+                    {reviews.map(review => (
+                        <ReviewItem key={review._id} review={review} makerName={makerName} />
+                    ))}
+                </div>
+            )}
+
+            {(pager.canPreviousPage(data) || pager.canNextPage(data)) && (
+                <div className="product-reviews-pager">
+                    <button type="button" disabled={!pager.canPreviousPage(data)} onClick={() => pager.previousPage(data)}>
+                        Newer
+                    </button>
+                    <button type="button" disabled={!pager.canNextPage(data)} onClick={() => pager.nextPage(data)}>
+                        Older
+                    </button>
+                </div>
+            )}
+        </section>
+    )
+}
+
+function ReviewItem({ review, makerName }: { review: CustomerReviewPublicSerializable; makerName?: string }) {
+    return (
+        <article className="review-item">
+            <header className="review-item-header">
+                <StarRating value={review.rating} />
+                {review.title && <h3>{review.title}</h3>}
+            </header>
+            <p className="review-item-meta">
+                {review.authorName} · {new Date(review.createdAt).toLocaleDateString()}
+                <span className="review-item-verified">
+                    <BadgeCheck size={14} /> Verified purchase
+                </span>
+            </p>
+            <p className="review-item-body">{review.body}</p>
+
+            {review.photos.length > 0 && (
+                <div className="review-item-photos">
+                    {review.photos.map(url => (
+                        <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt="Customer photo" loading="lazy" />
+                        </a>
+                    ))}
+                </div>
+            )}
+
+            {review.reply && (
+                <div className="review-item-reply">
+                    <span className="review-item-reply-label">Reply from {makerName || 'the maker'}</span>
+                    <p>{review.reply.body}</p>
+                </div>
+            )}
+        </article>
+    )
+}
+
+function ReviewForm({ productId }: { productId: string }) {
+    const queryClient = useQueryClient()
+
+    const [rating, setRating] = useState(0)
+    const [title, setTitle] = useState('')
+    const [body, setBody] = useState('')
+    const [photos, setPhotos] = useState<string[]>([])
+    const [uploading, setUploading] = useState(false)
+    const [submitting, setSubmitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []).slice(0, MAX_REVIEW_PHOTOS - photos.length)
+        if (!files.length) return
+
+        setUploading(true)
+        setError(null)
+        try {
+            for (const file of files) {
+                // Convert to base64
+                const content = await new Promise<string>((resolve, reject) => {
+                    const reader = new FileReader()
+                    reader.onload = () => resolve((reader.result as string).split(',')[1])
+                    reader.onerror = reject
+                    reader.readAsDataURL(file)
+                })
+                const result = await uploadReviewPhotoFn({
+                    data: { filename: file.name, contentType: file.type, content }
+                })
+                setPhotos((current) => [...current, result.url])
+            }
+        } catch (err) {
+            console.error('Failed to upload photo:', err)
+            setError(err instanceof Error ? err.message : 'Failed to upload photo')
+        } finally {
+            setUploading(false)
+            e.target.value = ''
+        }
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!rating) {
+            setError('Choose a star rating')
+            return
+        }
+
+        setSubmitting(true)
+        setError(null)
+        try {
+            await createCustomerReviewFn({
+                data: { productId, rating, title: title || undefined, body, photos }
+            })
+            // The product's rating changed along with its reviews
+            await Promise.all([
+                queryClient.invalidateQueries({ queryKey: ['product-reviews', productId] }),
+                queryClient.invalidateQueries({ queryKey: ['product', productId] })
+            ])
+        } catch (err) {
+            console.error('Failed to submit review:', err)
+            setError(err instanceof Error ? err.message : 'Failed to submit review')
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    return (
+        <form className="review-form" onSubmit={handleSubmit}>
+            <h3>Write a review</h3>
+
+            <StarRatingInput value={rating} onChange={setRating} />
+
+            <label className="form-group">
+                <span>Title (optional)</span>
+                <input value={title} maxLength={REVIEW_LIMITS.title} onChange={(e) => setTitle(e.target.value)} />
+            </label>
+            <label className="form-group">
+                <span>Your review</span>
+                <textarea
+                    rows={4}
+                    value={body}
+                    required
+                    maxLength={REVIEW_LIMITS.body}
+                    onChange={(e) => setBody(e.target.value)}
+                />
+            </label>
+
+            <div className="review-form-photos">
+                {photos.map((url) => (
+                    <div key={url} className="review-form-photo">
+                        <img src={url} alt="Your photo" />
+                        <button
+                            type="button"
+                            aria-label="Remove photo"
+                            onClick={() => setPhotos((current) => current.filter((photo) => photo !== url))}
+                        >
+                            <X size={14} />
+                        </button>
+                    </div>
+                ))}
+                {photos.length < MAX_REVIEW_PHOTOS && (
+                    <label className="review-form-upload">
+                        <ImagePlus size={20} />
+                        <span>{uploading ? 'Uploading...' : 'Add photos'}</span>
+                        <input type="file" accept="image/*" multiple hidden disabled={uploading} onChange={handlePhotoUpload} />
+                    </label>
+                )}
+            </div>
+
+            {error && <p className="review-form-error">{error}</p>}
+
+            <button type="submit" className="review-form-submit" disabled={submitting || uploading}>
+                {submitting ? 'Posting...' : 'Post review'}
+            </button>
+        </form>
+    )
+}
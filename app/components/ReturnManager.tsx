@@ -0,0 +1,157 @@
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { updateReturnStatusFn } from '../server/return'
+import type { ReturnRequestSerializable, ReturnStatus } from '../server/return-utils'
+import { Loader2 } from 'lucide-react'
+
+interface ReturnManagerProps {
+    returns: ReturnRequestSerializable[]
+    onUpdated: () => void
+}
+
+const statusStyles: Record<ReturnStatus, string> = {
+    requested: 'bg-yellow-100 text-yellow-800',
+    approved: 'bg-blue-100 text-blue-800',
+    rejected: 'bg-gray-100 text-gray-700',
+    received: 'bg-indigo-100 text-indigo-800',
+    refund_pending: 'bg-amber-100 text-amber-800',
+    refunded: 'bg-green-100 text-green-800',
+}
+
+/**
+ * Return requests for an order with the actions available to suppliers and admins
+ */
+export function ReturnManager({ returns, onUpdated }: ReturnManagerProps) {
+    if (!returns.length) {
+        return <p className="text-sm text-gray-500">No return requests for this order.</p>
+    }
+
+    return (
+        <div className="space-y-4">
+            {returns.map((returnRequest) => (
+                <ReturnRequestCard key={returnRequest._id} returnRequest={returnRequest} onUpdated={onUpdated} />
+            ))}
+        </div>
+    )
+}
+
+function ReturnRequestCard({ returnRequest, onUpdated }: { returnRequest: ReturnRequestSerializable, onUpdated: () => void }) {
+    const [note, setNote] = useState('')
+    const [restock, setRestock] = useState(true)
+
+    const updateMutation = useMutation({
+        mutationFn: async (status: ReturnStatus) => {
+            return await updateReturnStatusFn({
+                data: { returnId: returnRequest._id, status, note, restock }
+            })
+        },
+        onSuccess: () => {
+            setNote('')
+            onUpdated()
+        },
+    })
+
+    const actionButton = (status: ReturnStatus, label: string, className: string) => (
+        <button
+            onClick={() => updateMutation.mutate(status)}
+            disabled={updateMutation.isPending}
+            className={`inline-flex items-center rounded-md px-3 py-1.5 text-sm font-medium text-white disabled:opacity-50 ${className}`}
+        >
+            {updateMutation.isPending && updateMutation.variables === status && (
+                <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+            )}
+            {label}
+        </button>
+    )
+
+    const actions = (() => {
+        switch (returnRequest.status) {
+            case 'requested':
+                return (
+                    <>
+                        {actionButton('approved', 'Approve', 'bg-blue-600 hover:bg-blue-700')}
+                        {actionButton('rejected', 'Reject', 'bg-gray-600 hover:bg-gray-700')}
+                    </>
+                )
+            case 'approved':
+                return (
+                    <>
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={restock}
+                                onChange={(e) => setRestock(e.target.checked)}
+                            />
+                            Return items to stock
+                        </label>
+                        {actionButton('received', 'Mark as Received', 'bg-indigo-600 hover:bg-indigo-700')}
+                    </>
+                )
+            case 'received':
+                return actionButton('refunded', `Refund $${returnRequest.refundAmount.toFixed(2)}`, 'bg-green-600 hover:bg-green-700')
+            case 'refund_pending':
+                return actionButton('refunded', `Retry refund of $${returnRequest.refundAmount.toFixed(2)}`, 'bg-amber-600 hover:bg-amber-700')
+            default:
+                return null
+        }
+    })()
+
+    return (
+        <div className="rounded-lg border border-gray-100 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="text-sm text-gray-500">
+                    Requested {new Date(returnRequest.createdAt).toLocaleDateString()}
+                </div>
+                <span className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium capitalize ${statusStyles[returnRequest.status]}`}>
+                    {returnRequest.status.replace('_', ' ')}
+                </span>
+            </div>
+
+            <ul className="text-sm text-gray-900 space-y-1">
+                {returnRequest.items.map((item) => (
+                    <li key={`${item.productId}:${item.variantId}`} className="flex justify-between">
+                        <span>
+                            {item.quantity}x {item.productName}
+                            {item.variantLabel && <span className="text-gray-500"> ({item.variantLabel})</span>}
+                        </span>
+                        <span className="font-mono">${(item.unitPrice * item.quantity).toFixed(2)}</span>
+                    </li>
+                ))}
+            </ul>
+
+            <p className="text-sm text-gray-700">
+                <span className="font-medium">Reason:</span> {returnRequest.reason}
+            </p>
+
+            {returnRequest.photos.length > 0 && (
+                <div className="flex gap-2 flex-wrap">
+                    {returnRequest.photos.map((url) => (
+                        <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt="Return photo" className="h-16 w-16 rounded object-cover border border-gray-200" />
+                        </a>
+                    ))}
+                </div>
+            )}
+
+            {returnRequest.restocked && (
+                <p className="text-xs text-gray-500">Items were returned to stock.</p>
+            )}
+
+            {actions && (
+                <div className="space-y-2 pt-2 border-t border-gray-100">
+                    <textarea
+                        rows={2}
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Note for this update (optional)"
+                        className="w-full border border-gray-200 rounded-md px-3 py-2 text-sm"
+                    />
+                    <div className="flex flex-wrap items-center gap-2">{actions}</div>
+                    {updateMutation.isError && (
+                        <p className="text-sm text-red-600">{(updateMutation.error as Error).message}</p>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
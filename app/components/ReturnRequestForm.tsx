@@ -0,0 +1,155 @@
+import { useState } from 'react'
+import { createReturnFn, uploadReturnPhotoFn } from '../server/return'
+import type { OrderItem } from '../server/order-utils'
+import { getLineKey } from '../server/product-variants'
+import { MAX_RETURN_PHOTOS } from '../server/return-state'
+import './ReturnRequestForm.css'
+
+interface ReturnRequestFormProps {
+    orderId: string
+    // Delivered items with the quantity still eligible for return
+    items: Array<OrderItem & { returnableQuantity: number }>
+    onSubmitted: () => void
+    onCancel: () => void
+}
+
+export function ReturnRequestForm({ orderId, items, onSubmitted, onCancel }: ReturnRequestFormProps) {
+    // Quantities to return, keyed by order line
+    const [quantities, setQuantities] = useState<Record<string, number>>({})
+    const [reason, setReason] = useState('')
+    const [photos, setPhotos] = useState<string[]>([])
+    const [uploading, setUploading] = useState(false)
+    const [submitting, setSubmitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const selectedItems = items
+        .filter((item) => (quantities[getLineKey(item.productId, item.variantId)] || 0) > 0)
+        .map((item) => ({
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: quantities[getLineKey(item.productId, item.variantId)]
+        }))
+
+    const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []).slice(0, MAX_RETURN_PHOTOS - photos.length)
+        if (!files.length) return
+
+        setUploading(true)
+        setError(null)
+        try {
+            for (const file of files) {
+                // Convert to base64
+                const content = await new Promise<string>((resolve, reject) => {
+                    const reader = new FileReader()
+                    reader.onload = () => resolve((reader.result as string).split(',')[1])
+                    reader.onerror = reject
+                    reader.readAsDataURL(file)
+                })
+                const result = await uploadReturnPhotoFn({
+                    data: { filename: file.name, contentType: file.type, content }
+                })
+                setPhotos((current) => [...current, result.url])
+            }
+        } catch (err) {
+            console.error('Failed to upload photo:', err)
+            setError(err instanceof Error ? err.message : 'Failed to upload photo')
+        } finally {
+            setUploading(false)
+            e.target.value = ''
+        }
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSubmitting(true)
+        setError(null)
+        try {
+            await createReturnFn({
+                data: { orderId, items: selectedItems, reason, photos }
+            })
+            onSubmitted()
+        } catch (err) {
+            console.error('Failed to request return:', err)
+            setError(err instanceof Error ? err.message : 'Failed to request return')
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    return (
+        <form className="return-form" onSubmit={handleSubmit}>
+            <h4>Request a return</h4>
+
+            <div className="return-items">
+                {items.map((item) => {
+                    const key = getLineKey(item.productId, item.variantId)
+                    return (
+                        <label key={key} className="return-item">
+                            <span>{item.productName}{item.variantLabel && ` (${item.variantLabel})`}</span>
+                            <select
+                                value={quantities[key] || 0}
+                                onChange={(e) => setQuantities((current) => ({
+                                    ...current,
+                                    [key]: Number(e.target.value)
+                                }))}
+                            >
+                                {Array.from({ length: item.returnableQuantity + 1 }, (_, quantity) => (
+                                    <option key={quantity} value={quantity}>
+                                        {quantity === 0 ? "Don't return" : `Return ${quantity}`}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    )
+                })}
+            </div>
+
+            <div className="form-group">
+                <label htmlFor={`return-reason-${orderId}`}>Reason</label>
+                <textarea
+                    id={`return-reason-${orderId}`}
+                    rows={3}
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Tell us what went wrong"
+                />
+            </div>
+
+            <div className="form-group">
+                <label htmlFor={`return-photos-${orderId}`}>
+                    Photos ({photos.length}/{MAX_RETURN_PHOTOS})
+                </label>
+                <input
+                    id={`return-photos-${orderId}`}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    disabled={uploading || photos.length >= MAX_RETURN_PHOTOS}
+                    onChange={handlePhotoUpload}
+                />
+                {photos.length > 0 && (
+                    <div className="return-photos">
+                        {photos.map((url) => (
+                            <img key={url} src={url} alt="Return photo" />
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {error && <p className="return-error">{error}</p>}
+
+            <div className="return-actions">
+                <button type="button" className="return-secondary" onClick={onCancel}>
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    className="return-primary"
+                    disabled={!selectedItems.length || !reason.trim() || uploading || submitting}
+                >
+                    {submitting ? 'Submitting...' : 'Submit Return'}
+                </button>
+            </div>
+        </form>
+    )
+}
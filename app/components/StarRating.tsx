@@ -0,0 +1,61 @@
+import { Star } from 'lucide-react'
+import type { ProductRating } from '../server/product-utils'
+import { formatRating } from '../server/customer-review-state'
+import './StarRating.css'
+
+interface StarRatingProps {
+    value: number            // 0-5; rounded to the nearest whole star
+    size?: number
+}
+
+export function StarRating({ value, size = 16 }: StarRatingProps) {
+    const filled = Math.round(value)
+    return (
+        <span className="star-rating" role="img" aria-label={`${formatRating(value)} out of 5 stars`}>
+            {[1, 2, 3, 4, 5].map(star => (
+                <Star
+                    key={star}
+                    size={size}
+                    className={star <= filled ? 'star-rating-star filled' : 'star-rating-star'}
+                    aria-hidden="true"
+                />
+            ))}
+        </span>
+    )
+}
+
+// Stars with the average and number of reviews, e.g. on product cards
+export function RatingSummary({ rating, size }: { rating: ProductRating; size?: number }) {
+    return (
+        <span className="rating-summary">
+            <StarRating value={rating.average} size={size} />
+            <span className="rating-summary-text">
+                {formatRating(rating.average)} ({rating.count})
+            </span>
+        </span>
+    )
+}
+
+interface StarRatingInputProps {
+    value: number            // 0 until a rating is chosen
+    onChange: (value: number) => void
+}
+
+export function StarRatingInput({ value, onChange }: StarRatingInputProps) {
+    return (
+        <div className="star-rating star-rating-input" role="radiogroup" aria-label="Rating">
+            {[1, 2, 3, 4, 5].map(star => (
+                <button
+                    key={star}
+                    type="button"
+                    role="radio"
+                    aria-checked={value === star}
+                    aria-label={`${star} star${star === 1 ? '' : 's'}`}
+                    onClick={() => onChange(star)}
+                >
+                    <Star size={24} className={star <= value ? 'star-rating-star filled' : 'star-rating-star'} />
+                </button>
+            ))}
+        </div>
+    )
+}
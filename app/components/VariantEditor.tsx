@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react'
+import type { ProductOption, ProductVariantInput } from '../server/product-utils'
+import { MAX_PRODUCT_OPTIONS, combineOptions, describeVariant, findVariant, validateVariants } from '../server/product-variants'
+import { Plus, RefreshCw, X } from 'lucide-react'
+
+interface VariantEditorProps {
+    options: ProductOption[]
+    variants: ProductVariantInput[]
+    onChange: (options: ProductOption[], variants: ProductVariantInput[]) => void
+    // Prices given to newly generated variants
+    defaults: { costPrice: number; sellingPrice: number }
+    // Suppliers only set a cost; the selling price is decided at review
+    showSellingPrice?: boolean
+}
+
+/**
+ * Comma-separated option values, kept as typed until the field loses focus
+ */
+function OptionValuesInput({ values, onChange }: { values: string[]; onChange: (values: string[]) => void }) {
+    const [text, setText] = useState(values.join(', '))
+
+    useEffect(() => {
+        setText(values.join(', '))
+    }, [values])
+
+    return (
+        <input
+            type="text"
+            value={text}
+            placeholder="Small, Medium, Large"
+            onChange={e => setText(e.target.value)}
+            onBlur={() => onChange(text.split(',').map(value => value.trim()).filter(Boolean))}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+        />
+    )
+}
+
+/**
+ * Option axes and the variants built from them, shared by the product wizard and edit dialog
+ */
+export function VariantEditor({ options, variants, onChange, defaults, showSellingPrice = true }: VariantEditorProps) {
+    const error = variants.length > 0 ? validateVariants(options, variants) : null
+
+    const updateOption = (index: number, option: ProductOption) => {
+        onChange(options.map((o, i) => i === index ? option : o), variants)
+    }
+
+    const removeOption = (index: number) => {
+        const nextOptions = options.filter((_, i) => i !== index)
+        onChange(nextOptions, nextOptions.length === 0 ? [] : variants)
+    }
+
+    const updateVariant = (index: number, changes: Partial<ProductVariantInput>) => {
+        onChange(options, variants.map((v, i) => i === index ? { ...v, ...changes } : v))
+    }
+
+    // One variant per combination of values, keeping the details of ones that already exist
+    const generateVariants = () => {
+        onChange(options, combineOptions(options).map(combination =>
+            findVariant(variants, combination) ?? {
+                sku: Object.values(combination).join('-').toUpperCase().replace(/\s+/g, '-'),
+                options: combination,
+                costPrice: defaults.costPrice,
+                sellingPrice: defaults.sellingPrice,
+                quantity: 0
+            }
+        ))
+    }
+
+    const numberInput = 'block w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-1.5'
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Options</label>
+                    <p className="text-xs text-gray-500">Sizes, colours or materials this product comes in, each variant with its own price and stock</p>
+                </div>
+                {options.length < MAX_PRODUCT_OPTIONS && (
+                    <button
+                        type="button"
+                        onClick={() => onChange([...options, { name: '', values: [] }], variants)}
+                        className="text-indigo-600 hover:text-indigo-500 text-sm font-medium flex items-center gap-1"
+                    >
+                        <Plus className="h-4 w-4" /> Add Option
+                    </button>
+                )}
+            </div>
+
+            {options.map((option, index) => (
+                <div key={index} className="grid grid-cols-3 gap-3 items-center">
+                    <input
+                        type="text"
+                        value={option.name}
+                        placeholder="Size"
+                        onChange={e => updateOption(index, { ...option, name: e.target.value })}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                    />
+                    <div className="col-span-2 flex items-center gap-2">
+                        <OptionValuesInput
+                            values={option.values}
+                            onChange={values => updateOption(index, { ...option, values })}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => removeOption(index)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Remove option"
+                        >
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {options.length > 0 && (
+                <button
+                    type="button"
+                    onClick={generateVariants}
+                    className="inline-flex items-center gap-1 rounded-md bg-white px-3 py-1.5 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                >
+                    <RefreshCw className="h-4 w-4" /> Generate Variants
+                </button>
+            )}
+
+            {variants.length > 0 && (
+                <div className="overflow-x-auto rounded-md border border-gray-200">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                            <tr>
+                                <th className="px-3 py-2">Variant</th>
+                                <th className="px-3 py-2">SKU</th>
+                                <th className="px-3 py-2">Cost</th>
+                                {showSellingPrice && <th className="px-3 py-2">Price</th>}
+                                <th className="px-3 py-2">Stock</th>
+                                <th className="px-3 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {variants.map((variant, index) => (
+                                <tr key={variant.id ?? index}>
+                                    <td className="px-3 py-2 text-gray-900 whitespace-nowrap">{describeVariant(variant.options)}</td>
+                                    <td className="px-3 py-2">
+                                        <input
+                                            type="text"
+                                            value={variant.sku}
+                                            onChange={e => updateVariant(index, { sku: e.target.value })}
+                                            className="block w-32 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-1.5"
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={variant.costPrice}
+                                            onChange={e => updateVariant(index, { costPrice: Number(e.target.value) })}
+                                            className={numberInput}
+                                        />
+                                    </td>
+                                    {showSellingPrice && (
+                                        <td className="px-3 py-2">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                value={variant.sellingPrice}
+                                                onChange={e => updateVariant(index, { sellingPrice: Number(e.target.value) })}
+                                                className={numberInput}
+                                            />
+                                        </td>
+                                    )}
+                                    <td className="px-3 py-2">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={variant.quantity}
+                                            onChange={e => updateVariant(index, { quantity: Math.max(0, Number(e.target.value)) })}
+                                            className={numberInput}
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2 text-right">
+                                        <button
+                                            type="button"
+                                            onClick={() => onChange(options, variants.filter((_, i) => i !== index))}
+                                            className="text-gray-400 hover:text-red-600"
+                                            title="Remove variant"
+                                        >
+                                            <X className="h-4 w-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+    )
+}
@@ -0,0 +1,42 @@
+import { Heart } from 'lucide-react'
+import { useWishlist } from '../hooks/useWishlist'
+import './WishlistButton.css'
+
+interface WishlistButtonProps {
+    productId: string
+    variantId?: string
+    className?: string
+}
+
+/**
+ * Heart toggle that saves a product, or the chosen variant of it, to the wishlist
+ */
+export function WishlistButton({ productId, variantId, className = '' }: WishlistButtonProps) {
+    const { findSaved, save, remove, isUpdating } = useWishlist()
+    const saved = findSaved(productId, variantId)
+
+    const handleClick = async () => {
+        try {
+            if (saved) {
+                await remove({ productId: saved.productId, variantId: saved.variantId })
+            } else {
+                await save({ productId, variantId })
+            }
+        } catch (error) {
+            console.error('Failed to update wishlist:', error)
+        }
+    }
+
+    return (
+        <button
+            type="button"
+            onClick={handleClick}
+            disabled={isUpdating}
+            className={`wishlist-button ${saved ? 'saved' : ''} ${className}`}
+            aria-pressed={!!saved}
+            aria-label={saved ? 'Remove from wishlist' : 'Save to wishlist'}
+        >
+            <Heart size={20} />
+        </button>
+    )
+}
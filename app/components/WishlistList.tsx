@@ -0,0 +1,88 @@
+import { Link } from '@tanstack/react-router'
+import { Heart, X } from 'lucide-react'
+import { useCartStore } from '../hooks/useCartStore'
+import { useWishlist } from '../hooks/useWishlist'
+import type { WishlistItemDetails } from '../server/wishlist-utils'
+import './WishlistList.css'
+
+export function WishlistList() {
+    const { items, isLoading, isUpdating, remove } = useWishlist()
+    const { addItem } = useCartStore()
+
+    const handleRemove = async (item: WishlistItemDetails) => {
+        try {
+            await remove({ productId: item.productId, variantId: item.variantId })
+        } catch (error) {
+            console.error('Failed to remove from wishlist:', error)
+        }
+    }
+
+    const handleMoveToCart = async (item: WishlistItemDetails) => {
+        addItem({
+            productId: item.productId,
+            variantId: item.variantId,
+            variantLabel: item.variantLabel,
+            name: item.name,
+            price: item.price,
+            image: item.image,
+        })
+        await handleRemove(item)
+    }
+
+    if (isLoading) {
+        return <p className="wishlist-empty">Loading your wishlist...</p>
+    }
+
+    if (items.length === 0) {
+        return (
+            <div className="wishlist-empty">
+                <Heart size={32} />
+                <p>Nothing saved yet. Tap the heart on a piece you love to keep it here.</p>
+            </div>
+        )
+    }
+
+    return (
+        <div className="wishlist-list">
+            {items.map((item) => (
+                <div key={`${item.productId}:${item.variantId ?? ''}`} className="wishlist-item">
+                    <button
+                        className="wishlist-item-remove"
+                        onClick={() => handleRemove(item)}
+                        disabled={isUpdating}
+                        aria-label="Remove from wishlist"
+                    >
+                        <X size={16} />
+                    </button>
+                    <Link to="/product/$productId" params={{ productId: item.productId }} className="wishlist-item-link">
+                        {item.image ? (
+                            <img src={item.image} alt={item.name} loading="lazy" />
+                        ) : (
+                            <div className="wishlist-item-placeholder">No Image</div>
+                        )}
+                        <h3>{item.name}</h3>
+                    </Link>
+                    {item.variantLabel && <p className="wishlist-item-variant">{item.variantLabel}</p>}
+                    <p className="wishlist-item-price">${item.price.toFixed(2)}</p>
+                    {item.needsVariant ? (
+                        <Link
+                            to="/product/$productId"
+                            params={{ productId: item.productId }}
+                            className="wishlist-item-action"
+                        >
+                            Choose options
+                        </Link>
+                    ) : (
+                        <button
+                            className="wishlist-item-action"
+                            onClick={() => handleMoveToCart(item)}
+                            disabled={!item.inStock || isUpdating}
+                        >
+                            {item.inStock ? 'Move to cart' : 'Out of stock'}
+                        </button>
+                    )}
+                </div>
+            ))}
+        </div>
+    )
+}
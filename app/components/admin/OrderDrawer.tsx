@@ -0,0 +1,191 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { updateOrderStatusFn } from '../../server/order'
+import { getOrderReturnsFn } from '../../server/return'
+import type { OrderSerializable, OrderStatus } from '../../server/order-utils'
+import { getNextStatuses } from '../../server/order-state'
+import { OrderTimeline } from '../OrderTimeline'
+import { ReturnManager } from '../ReturnManager'
+import { Loader2, X } from 'lucide-react'
+
+const ORDER_STATUSES: OrderStatus[] = ['pending', 'processing', 'shipped', 'delivered', 'cancelled']
+
+interface OrderDrawerProps {
+    order: OrderSerializable | null
+    isOpen: boolean
+    onClose: () => void
+}
+
+export function OrderDrawer({ order, isOpen, onClose }: OrderDrawerProps) {
+    const queryClient = useQueryClient()
+    const [status, setStatus] = useState<OrderStatus | ''>('')
+    const [note, setNote] = useState('')
+    const [override, setOverride] = useState(false)
+
+    const { data: returnsData } = useQuery({
+        queryKey: ['admin', 'returns', order?._id],
+        queryFn: () => getOrderReturnsFn({ data: { orderId: order!._id } }),
+        enabled: isOpen && !!order,
+    })
+
+    const updateStatusMutation = useMutation({
+        mutationFn: async () => {
+            if (!order || !status) return
+            const result = await updateOrderStatusFn({ data: { orderId: order._id, status, note, override } })
+            if (!result.success) throw new Error('Failed to update status')
+            return result
+        },
+        onSuccess: () => {
+            setStatus('')
+            setNote('')
+            setOverride(false)
+            queryClient.invalidateQueries({ queryKey: ['admin', 'orders'] })
+        },
+    })
+
+    if (!isOpen || !order) return null
+
+    // With an override any status can be chosen; the server still blocks
+    // changes that would corrupt inventory, e.g. cancelling after shipping
+    const statusOptions = override
+        ? ORDER_STATUSES.filter((s) => s !== order.status)
+        : getNextStatuses(order.status)
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-hidden" aria-labelledby="drawer-title" role="dialog" aria-modal="true">
+            {/* Backdrop */}
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+            <div className="fixed inset-y-0 right-0 flex max-w-full pl-10">
+                <div className="w-screen max-w-md flex flex-col bg-white shadow-xl">
+
+                    {/* Header */}
+                    <div className="px-6 py-5 border-b border-gray-100">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-xl font-semibold leading-6 text-gray-900" id="drawer-title">
+                                Order #{order._id.substring(0, 8)}
+                            </h3>
+                            <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+                                <X className="h-6 w-6" />
+                            </button>
+                        </div>
+                        <p className="mt-1 text-sm text-gray-500">
+                            Placed {new Date(order.createdAt).toLocaleString()} by <span className="font-mono">{order.userId}</span>
+                        </p>
+                    </div>
+
+                    {/* Body */}
+                    <div className="flex-1 overflow-y-auto px-6 py-5 space-y-6">
+                        <section>
+                            <h4 className="text-sm font-semibold text-gray-900 mb-2">Items</h4>
+                            <ul className="divide-y divide-gray-100 text-sm">
+                                {order.items.map((item, index) => (
+                                    <li key={index} className="flex justify-between py-2">
+                                        <span className="text-gray-700">
+                                            {item.quantity}x {item.productName}
+                                            {item.variantLabel && <span className="text-gray-500"> ({item.variantLabel})</span>}
+                                        </span>
+                                        <span className="font-mono text-gray-900">${(item.unitPrice * item.quantity).toFixed(2)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+
+                        {order.payment && (
+                            <section>
+                                <h4 className="text-sm font-semibold text-gray-900 mb-2">Payment</h4>
+                                <dl className="grid grid-cols-2 gap-y-1 text-sm">
+                                    <dt className="text-gray-500">State</dt>
+                                    <dd className="text-gray-900 capitalize">{order.payment.state}</dd>
+                                    <dt className="text-gray-500">Amount</dt>
+                                    <dd className="font-mono text-gray-900">${order.payment.amount.toFixed(2)} {order.payment.currency}</dd>
+                                    {order.payment.refundedAmount > 0 && (
+                                        <>
+                                            <dt className="text-gray-500">Refunded</dt>
+                                            <dd className="font-mono text-gray-900">${order.payment.refundedAmount.toFixed(2)}</dd>
+                                        </>
+                                    )}
+                                    <dt className="text-gray-500">Provider</dt>
+                                    <dd className="text-gray-900">{order.payment.provider}</dd>
+                                    {order.payment.intentId && (
+                                        <>
+                                            <dt className="text-gray-500">Intent</dt>
+                                            <dd className="font-mono text-xs text-gray-900 break-all">{order.payment.intentId}</dd>
+                                        </>
+                                    )}
+                                    {order.payment.failureReason && (
+                                        <>
+                                            <dt className="text-gray-500">Failure</dt>
+                                            <dd className="text-red-600">{order.payment.failureReason}</dd>
+                                        </>
+                                    )}
+                                </dl>
+                            </section>
+                        )}
+
+                        <section>
+                            <h4 className="text-sm font-semibold text-gray-900 mb-2">Update Status</h4>
+                            <div className="space-y-2">
+                                <select
+                                    value={status}
+                                    onChange={(e) => setStatus(e.target.value as OrderStatus | '')}
+                                    className="block w-full rounded-lg border-0 py-2 px-3 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm"
+                                >
+                                    <option value="">Select a status</option>
+                                    {statusOptions.map((s) => (
+                                        <option key={s} value={s}>
+                                            {s.charAt(0).toUpperCase() + s.slice(1)}
+                                        </option>
+                                    ))}
+                                </select>
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={override}
+                                        onChange={(e) => {
+                                            setOverride(e.target.checked)
+                                            setStatus('')
+                                        }}
+                                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-600"
+                                    />
+                                    Override the normal order flow
+                                </label>
+                                <textarea
+                                    rows={2}
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                    placeholder={override ? 'Reason for the override' : 'Reason for the change (optional)'}
+                                    className="block w-full rounded-lg border-0 py-2 px-3 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm"
+                                />
+                                <button
+                                    onClick={() => updateStatusMutation.mutate()}
+                                    disabled={!status || (override && !note.trim()) || updateStatusMutation.isPending}
+                                    className="inline-flex items-center rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                                >
+                                    {updateStatusMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                    Update Status
+                                </button>
+                                {updateStatusMutation.isError && (
+                                    <p className="text-sm text-red-600">{(updateStatusMutation.error as Error).message}</p>
+                                )}
+                            </div>
+                        </section>
+
+                        <section>
+                            <h4 className="text-sm font-semibold text-gray-900 mb-2">Returns</h4>
+                            <ReturnManager
+                                returns={returnsData?.returns || []}
+                                onUpdated={() => queryClient.invalidateQueries({ queryKey: ['admin', 'returns', order._id] })}
+                            />
+                        </section>
+
+                        <section>
+                            <h4 className="text-sm font-semibold text-gray-900 mb-2">Status History</h4>
+                            <OrderTimeline entries={order.statusHistory} showActor />
+                        </section>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -1,12 +1,16 @@
 import { useState, useEffect } from 'react'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { updateProductFn, uploadProductImageFn, refineImageFn } from '../../server/product'
+import type { ProductOption, ProductVariantInput } from '../../server/product-utils'
+import { VariantEditor } from '../VariantEditor'
+import { CategorySelect } from '../CategorySelect'
 import { Loader2, X, Upload, Image as ImageIcon, Sparkles } from 'lucide-react'
 
 type Product = {
     _id: string
     name: string
     description: string
+    categoryId?: string
     supplierId: string
     pricing: {
         cost?: number
@@ -14,28 +18,44 @@ type Product = {
     }
     inventory: {
         onHand: number
+        reorderThreshold: number
     }
+    options?: ProductOption[]
+    variants?: Array<{
+        id: string
+        sku: string
+        options: Record<string, string>
+        pricing: { cost?: number; selling: number }
+        inventory: { onHand: number }
+        images: string[]
+    }>
     images: {
         original: string[]
         enhanced: string[]
     }
-    status: 'active' | 'draft' | 'archived' | 'pending_review' | 'rejected'
+    status: 'active' | 'draft' | 'archived' | 'pending_review' | 'rejected' | 'changes_requested'
 }
 
 interface ProductEditDialogProps {
     product: Product | null
     isOpen: boolean
     onClose: () => void
+    // Catalogue reviewers edit the listing only; stock and prices stay as they are
+    canEditStockAndPrices?: boolean
 }
 
-export function ProductEditDialog({ product, isOpen, onClose }: ProductEditDialogProps) {
+export function ProductEditDialog({ product, isOpen, onClose, canEditStockAndPrices = true }: ProductEditDialogProps) {
     const queryClient = useQueryClient()
     const [formData, setFormData] = useState({
         name: '',
         description: '',
+        categoryId: '',
         costPrice: 0,
         sellingPrice: 0,
         quantity: 0,
+        reorderThreshold: 0,
+        options: [] as ProductOption[],
+        variants: [] as ProductVariantInput[],
         // Helper state for new uploads
         // We will manage images slightly differently: 
         // We display what's in the product + what's newly uploaded?
@@ -56,9 +76,21 @@ export function ProductEditDialog({ product, isOpen, onClose }: ProductEditDialo
             setFormData({
                 name: product.name,
                 description: product.description,
+                categoryId: product.categoryId || '',
                 costPrice: product.pricing.cost || 0,
                 sellingPrice: product.pricing.selling,
                 quantity: product.inventory.onHand,
+                reorderThreshold: product.inventory.reorderThreshold,
+                options: product.options || [],
+                variants: (product.variants || []).map(variant => ({
+                    id: variant.id,
+                    sku: variant.sku,
+                    options: variant.options,
+                    costPrice: variant.pricing.cost || 0,
+                    sellingPrice: variant.pricing.selling,
+                    quantity: variant.inventory.onHand,
+                    images: variant.images
+                })),
                 images: {
                     original: product.images.original || [],
                     enhanced: product.images.enhanced || []
@@ -71,14 +103,27 @@ export function ProductEditDialog({ product, isOpen, onClose }: ProductEditDialo
         mutationFn: async (data: typeof formData) => {
             if (!product) return
             
+            // Variant products take their prices and stock from the variants;
+            // sending no variants for one that had them turns it back into a single product
+            const hasVariants = data.variants.length > 0
+            const hadVariants = !!product.variants?.length
+            
             await updateProductFn({ 
                 data: {
                     productId: product._id,
                     name: data.name,
                     description: data.description,
-                    costPrice: data.costPrice,
-                    sellingPrice: data.sellingPrice,
-                    quantity: data.quantity,
+                    categoryId: data.categoryId || null,
+                    ...(!canEditStockAndPrices ? {} : hasVariants ? {
+                        options: data.options,
+                        variants: data.variants
+                    } : {
+                        costPrice: data.costPrice,
+                        sellingPrice: data.sellingPrice,
+                        quantity: data.quantity,
+                        ...(hadVariants && { options: [], variants: [] })
+                    }),
+                    reorderThreshold: data.reorderThreshold,
                     images: data.images.original,
                     enhancedImages: data.images.enhanced
                 } 
@@ -86,9 +131,15 @@ export function ProductEditDialog({ product, isOpen, onClose }: ProductEditDialo
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['admin', 'products'] })
+            queryClient.invalidateQueries({ queryKey: ['inventory', 'movements', product?._id] })
             onClose()
+        },
+        onError: (error) => {
+            alert(error.message)
         }
     })
+    
+    const hasVariants = formData.variants.length > 0
 
     const handleRefineClick = (imageUrl: string) => {
         setRefiningImage(imageUrl)
@@ -301,7 +352,15 @@ export function ProductEditDialog({ product, isOpen, onClose }: ProductEditDialo
                                     className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
                                 />
                             </div>
-                            <div className="grid grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Category</label>
+                                <CategorySelect
+                                    value={formData.categoryId}
+                                    onChange={categoryId => setFormData({...formData, categoryId})}
+                                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                                />
+                            </div>
+                            <div className="grid grid-cols-4 gap-4">
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700">Cost Price</label>
                                     <div className="relative mt-1 rounded-md shadow-sm">
@@ -311,6 +370,7 @@ export function ProductEditDialog({ product, isOpen, onClose }: ProductEditDialo
                                         <input
                                             type="number"
                                             value={formData.costPrice}
+                                            disabled={hasVariants || !canEditStockAndPrices}
                                             onChange={e => setFormData({...formData, costPrice: Number(e.target.value)})}
                                             className="block w-full rounded-md border-gray-300 pl-7 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
                                         />
@@ -325,6 +385,7 @@ export function ProductEditDialog({ product, isOpen, onClose }: ProductEditDialo
                                         <input
                                             type="number"
                                             value={formData.sellingPrice}
+                                            disabled={hasVariants || !canEditStockAndPrices}
                                             onChange={e => setFormData({...formData, sellingPrice: Number(e.target.value)})}
                                             className="block w-full rounded-md border-gray-300 pl-7 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
                                         />
@@ -335,12 +396,40 @@ export function ProductEditDialog({ product, isOpen, onClose }: ProductEditDialo
                                     <input
                                         type="number"
                                         value={formData.quantity}
+                                        disabled={hasVariants || !canEditStockAndPrices}
                                         onChange={e => setFormData({...formData, quantity: Number(e.target.value)})}
                                         className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
                                     />
                                 </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Reorder At</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={formData.reorderThreshold}
+                                        onChange={e => setFormData({...formData, reorderThreshold: Math.max(0, Number(e.target.value))})}
+                                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                                    />
+                                </div>
                             </div>
 
+                            {!canEditStockAndPrices ? (
+                                <p className="text-xs text-gray-500">Prices, stock and options are managed by the maker and admins.</p>
+                            ) : (
+                                <>
+                                    {hasVariants && (
+                                        <p className="text-xs text-gray-500">Prices and stock above are worked out from the variants below.</p>
+                                    )}
+
+                                    <VariantEditor
+                                        options={formData.options}
+                                        variants={formData.variants}
+                                        onChange={(options, variants) => setFormData({...formData, options, variants})}
+                                        defaults={{ costPrice: formData.costPrice, sellingPrice: formData.sellingPrice }}
+                                    />
+                                </>
+                            )}
+
                             <div>
                                 <label className="block text-sm font-medium text-gray-700">Description</label>
                                 <textarea
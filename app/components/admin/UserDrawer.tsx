@@ -0,0 +1,266 @@
+import { useState } from 'react'
+import { useLoaderData } from '@tanstack/react-router'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { changeUserRoleFn, getUserDetailsFn, revokeUserSessionsFn, setUserSuspendedFn } from '../../server/user'
+import type { AccountActionType } from '../../server/user-utils'
+import type { UserRole } from '../../utils/auth'
+import { can, ROLE_LABELS } from '../../utils/rbac'
+import { Loader2, X } from 'lucide-react'
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[]
+
+const actionLabels: Record<AccountActionType, string> = {
+    role_changed: 'Role changed',
+    suspended: 'Suspended',
+    reinstated: 'Reinstated',
+    sessions_revoked: 'Signed out everywhere',
+}
+
+interface UserDrawerProps {
+    userId: string | null
+    isOpen: boolean
+    onClose: () => void
+}
+
+/**
+ * A user's account, orders and cart, with the admin actions that can be taken on them
+ */
+export function UserDrawer({ userId, isOpen, onClose }: UserDrawerProps) {
+    const queryClient = useQueryClient()
+    const { user: viewer } = useLoaderData({ from: '/admin' })
+    const canManage = can(viewer, 'user:manage')
+    const [role, setRole] = useState<UserRole | ''>('')
+    const [reason, setReason] = useState('')
+
+    const { data, isLoading, isError, error } = useQuery({
+        queryKey: ['admin', 'users', 'details', userId],
+        queryFn: () => getUserDetailsFn({ data: { userId: userId! } }),
+        enabled: isOpen && !!userId,
+    })
+
+    const onSuccess = () => {
+        setRole('')
+        setReason('')
+        queryClient.invalidateQueries({ queryKey: ['admin', 'users'] })
+    }
+
+    const roleMutation = useMutation({
+        mutationFn: async () => {
+            if (!userId || !role) return
+            await changeUserRoleFn({ data: { userId, role } })
+        },
+        onSuccess,
+    })
+
+    const suspendMutation = useMutation({
+        mutationFn: async (suspended: boolean) => {
+            if (!userId) return
+            await setUserSuspendedFn({ data: { userId, suspended, reason } })
+        },
+        onSuccess,
+    })
+
+    const revokeMutation = useMutation({
+        mutationFn: async () => {
+            if (!userId) return
+            await revokeUserSessionsFn({ data: { userId } })
+        },
+        onSuccess,
+    })
+
+    if (!isOpen || !userId) return null
+
+    const user = data?.user
+    const mutationError = [roleMutation, suspendMutation, revokeMutation].find((mutation) => mutation.isError)?.error
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-hidden" aria-labelledby="user-drawer-title" role="dialog" aria-modal="true">
+            {/* Backdrop */}
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+            <div className="fixed inset-y-0 right-0 flex max-w-full pl-10">
+                <div className="w-screen max-w-md flex flex-col bg-white shadow-xl">
+
+                    {/* Header */}
+                    <div className="px-6 py-5 border-b border-gray-100">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-xl font-semibold leading-6 text-gray-900" id="user-drawer-title">
+                                {user?.name || user?.email || 'User'}
+                            </h3>
+                            <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+                                <X className="h-6 w-6" />
+                            </button>
+                        </div>
+                        {user && (
+                            <p className="mt-1 text-sm text-gray-500">
+                                {user.email} &middot; Joined {new Date(user.createdAt).toLocaleDateString()}
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Body */}
+                    <div className="flex-1 overflow-y-auto px-6 py-5 space-y-6">
+                        {isLoading ? (
+                            <div className="flex justify-center py-12">
+                                <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+                            </div>
+                        ) : isError ? (
+                            <p className="text-sm text-red-600">{(error as Error).message}</p>
+                        ) : data && user && (
+                            <>
+                                {user.banned && (
+                                    <div className="rounded-lg bg-red-50 p-3 border border-red-200 text-sm text-red-700">
+                                        Suspended{user.banReason && `: ${user.banReason}`}
+                                    </div>
+                                )}
+
+                                {canManage ? (
+                                    <>
+                                        <section>
+                                            <h4 className="text-sm font-semibold text-gray-900 mb-2">Role</h4>
+                                            <div className="flex gap-2">
+                                                <select
+                                                    value={role || user.role}
+                                                    onChange={(e) => setRole(e.target.value as UserRole)}
+                                                    className="block w-full rounded-lg border-0 py-2 px-3 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm"
+                                                >
+                                                    {ROLES.map((r) => (
+                                                        <option key={r} value={r}>
+                                                            {ROLE_LABELS[r]}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <button
+                                                    onClick={() => roleMutation.mutate()}
+                                                    disabled={!role || role === user.role || roleMutation.isPending}
+                                                    className="inline-flex items-center rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                                                >
+                                                    {roleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                                    Save
+                                                </button>
+                                            </div>
+                                        </section>
+
+                                        <section>
+                                            <h4 className="text-sm font-semibold text-gray-900 mb-2">Access</h4>
+                                            <div className="space-y-2">
+                                                {!user.banned && (
+                                                    <textarea
+                                                        rows={2}
+                                                        value={reason}
+                                                        onChange={(e) => setReason(e.target.value)}
+                                                        placeholder="Reason for suspending"
+                                                        className="block w-full rounded-lg border-0 py-2 px-3 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm"
+                                                    />
+                                                )}
+                                                <div className="flex flex-wrap gap-2">
+                                                    {user.banned ? (
+                                                        <button
+                                                            onClick={() => suspendMutation.mutate(false)}
+                                                            disabled={suspendMutation.isPending}
+                                                            className="inline-flex items-center rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                                                        >
+                                                            {suspendMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                                            Reinstate
+                                                        </button>
+                                                ) : (
+                                                        <button
+                                                            onClick={() => suspendMutation.mutate(true)}
+                                                            disabled={!reason.trim() || suspendMutation.isPending}
+                                                            className="inline-flex items-center rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-500 disabled:opacity-50"
+                                                        >
+                                                            {suspendMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                                            Suspend
+                                                        </button>
+                                                    )}
+                                                    <button
+                                                        onClick={() => revokeMutation.mutate()}
+                                                        disabled={revokeMutation.isPending}
+                                                        className="inline-flex items-center rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-700 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                                                    >
+                                                        {revokeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                                        Sign out everywhere
+                                                    </button>
+                                                </div>
+                                                {!!mutationError && (
+                                                    <p className="text-sm text-red-600">{(mutationError as Error).message}</p>
+                                                )}
+                                            </div>
+                                        </section>
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-gray-700">
+                                        <span className="font-semibold text-gray-900">Role:</span> {ROLE_LABELS[user.role]}
+                                    </p>
+                                )}
+
+                                <section>
+                                    <h4 className="text-sm font-semibold text-gray-900 mb-2">Recent Orders</h4>
+                                    {data.orders.length === 0 ? (
+                                        <p className="text-sm text-gray-500">No orders yet.</p>
+                                    ) : (
+                                        <ul className="divide-y divide-gray-100 text-sm">
+                                            {data.orders.map((order) => (
+                                                <li key={order._id} className="flex justify-between py-2">
+                                                    <span className="text-gray-700">
+                                                        <span className="font-mono text-xs text-gray-500">#{order._id.substring(0, 8)}</span>{' '}
+                                                        {new Date(order.createdAt).toLocaleDateString()} &middot; <span className="capitalize">{order.status}</span>
+                                                    </span>
+                                                    <span className="font-mono text-gray-900">${order.totals.total.toFixed(2)}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {data.hasMoreOrders && (
+                                        <p className="mt-1 text-xs text-gray-500">Showing the 10 most recent orders</p>
+                                    )}
+                                </section>
+
+                                <section>
+                                    <h4 className="text-sm font-semibold text-gray-900 mb-2">Cart</h4>
+                                    {data.cart.length === 0 ? (
+                                        <p className="text-sm text-gray-500">The cart is empty.</p>
+                                    ) : (
+                                        <ul className="divide-y divide-gray-100 text-sm">
+                                            {data.cart.map((item) => (
+                                                <li key={`${item.productId}:${item.variantId ?? ''}`} className="flex justify-between py-2">
+                                                    <span className="text-gray-700">
+                                                        {item.quantity}x {item.name}
+                                                        {item.variantLabel && <span className="text-gray-500"> ({item.variantLabel})</span>}
+                                                    </span>
+                                                    <span className="font-mono text-gray-900">${(item.price * item.quantity).toFixed(2)}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </section>
+
+                                <section>
+                                    <h4 className="text-sm font-semibold text-gray-900 mb-2">Account History</h4>
+                                    {data.actions.length === 0 ? (
+                                        <p className="text-sm text-gray-500">No admin actions recorded for this account.</p>
+                                    ) : (
+                                        <ul className="divide-y divide-gray-100 text-sm">
+                                            {data.actions.map((action) => (
+                                                <li key={action._id} className="py-2">
+                                                    <span className="font-medium text-gray-900">{actionLabels[action.type]}</span>
+                                                    {action.type === 'role_changed' && (
+                                                        <span className="text-gray-700"> from {action.previousRole} to {action.nextRole}</span>
+                                                    )}
+                                                    <p className="text-xs text-gray-500 mt-0.5">
+                                                        {new Date(action.createdAt).toLocaleString()} by {action.actorName ?? action.actorId}
+                                                    </p>
+                                                    {action.reason && <p className="text-xs text-gray-600 mt-1">{action.reason}</p>}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </section>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -2,6 +2,10 @@ import { useForm } from '@tanstack/react-form'
 import { useNavigate } from '@tanstack/react-router'
 import { useState } from 'react'
 import { createProductFn, uploadProductImageFn } from '../../server/product'
+import type { ProductOption, ProductVariantInput } from '../../server/product-utils'
+import { describeVariant, validateVariants } from '../../server/product-variants'
+import { VariantEditor } from '../VariantEditor'
+import { CategorySelect } from '../CategorySelect'
 import { Loader2, Upload, Check, ChevronRight, ChevronLeft } from 'lucide-react'
 import './AddProductWizard.css'
 
@@ -10,11 +14,15 @@ export default function AddProductWizard() {
     const [step, setStep] = useState(1)
     const [uploading, setUploading] = useState(false)
     const [submitting, setSubmitting] = useState(false)
+    const [options, setOptions] = useState<ProductOption[]>([])
+    const [variants, setVariants] = useState<ProductVariantInput[]>([])
+    const variantError = variants.length > 0 ? validateVariants(options, variants) : null
 
     const form = useForm({
         defaultValues: {
             name: '',
             description: '',
+            categoryId: '',
             costPrice: 0,
             sellingPrice: 0,
             quantity: 1,
@@ -27,8 +35,13 @@ export default function AddProductWizard() {
                 await createProductFn({
                     data: {
                         ...value,
+                        categoryId: value.categoryId || undefined,
                         // Selling price defaults to 0 as it is set by admin review
                         sellingPrice: 0,
+                        ...(variants.length > 0 && {
+                            options,
+                            variants: variants.map(variant => ({ ...variant, sellingPrice: 0 }))
+                        }),
                         status: 'pending_review',
                         images: value.images
                     }
@@ -142,6 +155,18 @@ export default function AddProductWizard() {
                                 </div>
                             )}
                         </form.Field>
+                        <form.Field name="categoryId">
+                            {(field) => (
+                                <div className="form-group">
+                                    <label className="form-label">Category</label>
+                                    <CategorySelect
+                                        className="form-input"
+                                        value={field.state.value}
+                                        onChange={field.handleChange}
+                                    />
+                                </div>
+                            )}
+                        </form.Field>
                     </div>
                 )}
 
@@ -167,20 +192,32 @@ export default function AddProductWizard() {
                                 )}
                             </form.Field>
                         </div>
-                        <form.Field name="quantity">
-                            {(field) => (
-                                <div className="form-group">
-                                    <label className="form-label">Available Quantity</label>
-                                    <input
-                                        type="number"
-                                        className="form-input"
-                                        value={field.state.value}
-                                        onChange={(e) => field.handleChange(Number(e.target.value))}
-                                        min="1"
-                                    />
-                                </div>
-                            )}
-                        </form.Field>
+                        {variants.length === 0 && (
+                            <form.Field name="quantity">
+                                {(field) => (
+                                    <div className="form-group">
+                                        <label className="form-label">Available Quantity</label>
+                                        <input
+                                            type="number"
+                                            className="form-input"
+                                            value={field.state.value}
+                                            onChange={(e) => field.handleChange(Number(e.target.value))}
+                                            min="1"
+                                        />
+                                    </div>
+                                )}
+                            </form.Field>
+                        )}
+                        <VariantEditor
+                            options={options}
+                            variants={variants}
+                            onChange={(nextOptions, nextVariants) => {
+                                setOptions(nextOptions)
+                                setVariants(nextVariants)
+                            }}
+                            defaults={{ costPrice: form.state.values.costPrice, sellingPrice: 0 }}
+                            showSellingPrice={false}
+                        />
                     </div>
                 )}
 
@@ -271,8 +308,22 @@ export default function AddProductWizard() {
                             </div>
                             <div className="summary-item">
                                 <label>Stock</label>
-                                <p>{form.state.values.quantity} units</p>
+                                <p>
+                                    {variants.length > 0
+                                        ? variants.reduce((sum, variant) => sum + variant.quantity, 0)
+                                        : form.state.values.quantity} units
+                                </p>
                             </div>
+                            {variants.length > 0 && (
+                                <div className="summary-item" style={{ gridColumn: 'span 2' }}>
+                                    <label>Variants</label>
+                                    {variants.map((variant) => (
+                                        <p key={variant.sku}>
+                                            {describeVariant(variant.options)} &middot; {variant.sku} &middot; ${variant.costPrice} &middot; {variant.quantity} units
+                                        </p>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                         
                         {form.state.values.images.length > 0 && (
@@ -307,6 +358,7 @@ export default function AddProductWizard() {
                                 onClick={nextStep}
                                 disabled={
                                     (step === 1 && !name) ||
+                                    (step === 2 && !!variantError) ||
                                     (step === 3 && (!images || images.length === 0))
                                 }
                             >
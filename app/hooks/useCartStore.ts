@@ -1,8 +1,15 @@
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
+import { syncCart } from '../server/cart'
+import type { CartItemDetails, CartOperation } from '../server/cart-utils'
+import { getCartOperationError } from '../server/cart-state'
+import { getLineKey } from '../server/product-variants'
 
 export interface CartItem {
-    id: string
+    id: string              // Line key: the product ID, plus the variant ID for variant products
+    productId: string
+    variantId?: string
+    variantLabel?: string
     name: string
     price: number
     image?: string
@@ -12,52 +19,191 @@ export interface CartItem {
 interface CartState {
     items: CartItem[]
     isOpen: boolean
-    addItem: (item: Omit<CartItem, 'quantity'>) => void
+    // Edits not yet acknowledged by the server, replayed in order on the next sync
+    pendingOperations: CartOperation[]
+    isSyncing: boolean
+    addItem: (item: Omit<CartItem, 'id' | 'quantity'>) => void
     removeItem: (id: string) => void
     updateQuantity: (id: string, quantity: number) => void
     toggleCart: () => void
     clearCart: () => void
+    sync: () => Promise<void>
+    reset: () => void
+}
+
+// Operations that rebuild these lines in an empty cart
+function toAddOperations(items: CartItem[]): CartOperation[] {
+    return items.map((item) => ({
+        type: 'add' as const,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+    }))
+}
+
+function hasSameLines(a: CartItem[], b: CartItem[]): boolean {
+    return a.length === b.length && a.every((item) =>
+        b.some((other) => other.id === item.id && other.quantity === item.quantity)
+    )
+}
+
+function fromServerItems(items: CartItemDetails[]): CartItem[] {
+    return items.map((item) => ({
+        id: getLineKey(item.productId, item.variantId),
+        productId: item.productId,
+        variantId: item.variantId,
+        variantLabel: item.variantLabel,
+        name: item.name,
+        price: item.price,
+        image: item.image,
+        quantity: item.quantity,
+    }))
 }
 
 export const useCartStore = create<CartState>()(
     persist(
-        (set) => ({
+        (set, get) => ({
             items: [],
             isOpen: false,
-            addItem: (newItem) => 
+            pendingOperations: [],
+            isSyncing: false,
+            addItem: (newItem) => {
+                const id = getLineKey(newItem.productId, newItem.variantId)
                 set((state) => {
-                    const existingItem = state.items.find((item) => item.id === newItem.id)
+                    const existingItem = state.items.find((item) => item.id === id)
+                    const pendingOperations: CartOperation[] = [
+                        ...state.pendingOperations,
+                        { type: 'add', productId: newItem.productId, variantId: newItem.variantId, quantity: 1 },
+                    ]
                     if (existingItem) {
                         return {
                             items: state.items.map((item) =>
-                                item.id === newItem.id
+                                item.id === id
                                     ? { ...item, quantity: item.quantity + 1 }
                                     : item
                             ),
+                            pendingOperations,
                             isOpen: true, // Open cart when adding item
                         }
                     }
                     return {
-                        items: [...state.items, { ...newItem, quantity: 1 }],
+                        items: [...state.items, { ...newItem, id, quantity: 1 }],
+                        pendingOperations,
                         isOpen: true, // Open cart when adding item
                     }
-                }),
-            removeItem: (id) =>
+                })
+                get().sync()
+            },
+            removeItem: (id) => {
+                const line = get().items.find((item) => item.id === id)
+                if (!line) return
                 set((state) => ({
                     items: state.items.filter((item) => item.id !== id),
-                })),
-            updateQuantity: (id, quantity) =>
+                    pendingOperations: [
+                        ...state.pendingOperations,
+                        { type: 'remove', productId: line.productId, variantId: line.variantId },
+                    ],
+                }))
+                get().sync()
+            },
+            updateQuantity: (id, quantity) => {
+                const line = get().items.find((item) => item.id === id)
+                if (!line) return
+                const nextQuantity = Math.max(1, quantity)
                 set((state) => ({
                     items: state.items.map((item) =>
-                        item.id === id ? { ...item, quantity: Math.max(1, quantity) } : item
+                        item.id === id ? { ...item, quantity: nextQuantity } : item
                     ),
-                })),
+                    pendingOperations: [
+                        ...state.pendingOperations,
+                        { type: 'update', productId: line.productId, variantId: line.variantId, quantity: nextQuantity },
+                    ],
+                }))
+                get().sync()
+            },
             toggleCart: () => set((state) => ({ isOpen: !state.isOpen })),
-            clearCart: () => set({ items: [] }),
+            clearCart: () => {
+                set((state) => ({
+                    items: [],
+                    pendingOperations: [...state.pendingOperations, { type: 'clear' }],
+                }))
+                get().sync()
+            },
+            /**
+             * Flush queued operations to the server and adopt the server cart.
+             * With nothing queued this simply hydrates from the server, which is
+             * how a cart edited on another device shows up here.
+             * Edits the server would refuse are dropped, and the server cart then
+             * replaces the local lines they made. Other failures leave the queue
+             * intact so it is retried on reconnect.
+             */
+            sync: async () => {
+                if (get().isSyncing) return
+                set({ isSyncing: true })
+                let rebuilt = false
+                try {
+                    while (true) {
+                        const queued = get().pendingOperations
+                        const operations = queued.filter((operation) => {
+                            const error = getCartOperationError(operation)
+                            if (error) console.warn('Dropping cart edit the server would refuse:', error, operation)
+                            return !error
+                        })
+                        const cart = await syncCart({ data: { operations } })
+
+                        // The server had no session for this browser (e.g. its cookie was lost), so
+                        // its cart only holds this batch. Rebuild it from the local lines, which
+                        // already include every queued edit, instead of adopting it
+                        const serverItems = fromServerItems(cart.items)
+                        if (cart.isNewSession && !rebuilt && !hasSameLines(get().items, serverItems)) {
+                            rebuilt = true
+                            set((state) => ({
+                                pendingOperations: [{ type: 'clear' }, ...toAddOperations(state.items)],
+                            }))
+                            continue
+                        }
+
+                        const remaining = get().pendingOperations.slice(queued.length)
+
+                        if (remaining.length === 0) {
+                            set({ items: serverItems, pendingOperations: [] })
+                            break
+                        }
+                        // More edits arrived while the request was in flight - keep
+                        // the optimistic items and flush those too
+                        set({ pendingOperations: remaining })
+                    }
+                } catch (error) {
+                    console.warn('Cart sync failed, will retry when back online:', error)
+                } finally {
+                    set({ isSyncing: false })
+                }
+            },
+            // Local-only reset, e.g. on sign out, so the next session starts clean
+            reset: () => set({ items: [], pendingOperations: [], isOpen: false }),
         }),
         {
             name: 'makerskind-cart',
             storage: createJSONStorage(() => localStorage),
+            partialize: (state) => ({
+                items: state.items,
+                pendingOperations: state.pendingOperations,
+            }),
+            // Version 0 carts were keyed by product ID alone, before variants
+            version: 1,
+            migrate: (persisted, version) => {
+                const state = persisted as Pick<CartState, 'items' | 'pendingOperations'>
+                if (version === 0) {
+                    state.items = state.items.map((item) => ({ ...item, productId: item.productId ?? item.id }))
+                }
+                // Carts saved before the server cart existed only lived here. Queue their
+                // lines as adds so the first sync pushes them up instead of replacing
+                // them with the empty server cart
+                if (!state.pendingOperations) {
+                    state.pendingOperations = toAddOperations(state.items ?? [])
+                }
+                return state as CartState
+            },
         }
     )
 )
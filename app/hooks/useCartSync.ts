@@ -0,0 +1,31 @@
+import { useEffect } from 'react'
+import { useCartStore } from './useCartStore'
+
+/**
+ * Keep the persisted cart store in step with the server cart
+ * Hydrates on mount, flushes queued offline edits when the browser reconnects,
+ * and refreshes when the tab becomes visible again (e.g. after editing on another device)
+ */
+export function useCartSync() {
+    const sync = useCartStore((state) => state.sync)
+
+    useEffect(() => {
+        sync()
+
+        const handleOnline = () => {
+            sync()
+        }
+        const handleVisibilityChange = () => {
+            if (document.visibilityState === 'visible') {
+                sync()
+            }
+        }
+
+        window.addEventListener('online', handleOnline)
+        document.addEventListener('visibilitychange', handleVisibilityChange)
+        return () => {
+            window.removeEventListener('online', handleOnline)
+            document.removeEventListener('visibilitychange', handleVisibilityChange)
+        }
+    }, [sync])
+}
@@ -0,0 +1,37 @@
+import { useState } from 'react'
+import type { CursorDirection, CursorPageInfo } from '../server/cursor'
+
+interface CursorPosition {
+    cursor?: string             // Unset on the first page
+    direction?: CursorDirection
+    pageIndex: number
+}
+
+/**
+ * Previous/next paging for tables over a listing paged with cursors
+ * Cursor pages are not counted, so the page number is only tracked for display
+ */
+export function useCursorPagination(pageSize: number) {
+    const [position, setPosition] = useState<CursorPosition>({ pageIndex: 0 })
+
+    return {
+        pageSize,
+        pageIndex: position.pageIndex,
+        cursor: position.cursor,
+        direction: position.direction,
+        canNextPage: (page?: CursorPageInfo) => !!page?.nextCursor,
+        canPreviousPage: (page?: CursorPageInfo) => !!page?.prevCursor,
+        nextPage: (page?: CursorPageInfo) => {
+            if (page?.nextCursor) {
+                setPosition({ cursor: page.nextCursor, direction: 'next', pageIndex: position.pageIndex + 1 })
+            }
+        },
+        previousPage: (page?: CursorPageInfo) => {
+            if (page?.prevCursor) {
+                setPosition({ cursor: page.prevCursor, direction: 'prev', pageIndex: Math.max(0, position.pageIndex - 1) })
+            }
+        },
+        // Back to the first page, e.g. when the filters change
+        reset: () => setPosition({ pageIndex: 0 })
+    }
+}
@@ -0,0 +1,34 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getMyNotificationsFn, markNotificationsReadFn } from '../server/notification'
+
+export const notificationsQueryKey = ['notifications']
+
+// New orders and review requests should show up without a reload
+const POLL_INTERVAL_MS = 60_000
+
+/**
+ * The signed-in user's recent notifications and unread count, refreshed in the background
+ */
+export function useNotifications() {
+    const queryClient = useQueryClient()
+
+    const { data, isLoading } = useQuery({
+        queryKey: notificationsQueryKey,
+        queryFn: () => getMyNotificationsFn({ data: {} }),
+        refetchInterval: POLL_INTERVAL_MS,
+    })
+
+    const markReadMutation = useMutation({
+        mutationFn: (notificationIds?: string[]) => markNotificationsReadFn({ data: { notificationIds } }),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: notificationsQueryKey }),
+    })
+
+    return {
+        notifications: data?.notifications ?? [],
+        unreadCount: data?.unreadCount ?? 0,
+        isLoading,
+        isUpdating: markReadMutation.isPending,
+        markRead: (notificationIds: string[]) => markReadMutation.mutateAsync(notificationIds),
+        markAllRead: () => markReadMutation.mutateAsync(undefined),
+    }
+}
@@ -0,0 +1,53 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { addToWishlist, getWishlist, removeFromWishlist } from '../server/wishlist'
+
+interface WishlistItemKey {
+    productId: string
+    variantId?: string
+}
+
+export const wishlistQueryKey = ['wishlist']
+
+/**
+ * The current user's wishlist, shared by every heart toggle on the page
+ * Edits replace the cached wishlist with the one the server returns
+ */
+export function useWishlist() {
+    const queryClient = useQueryClient()
+
+    const { data, isLoading } = useQuery({
+        queryKey: wishlistQueryKey,
+        queryFn: () => getWishlist(),
+    })
+
+    const onSuccess = (wishlist: Awaited<ReturnType<typeof getWishlist>>) => {
+        queryClient.setQueryData(wishlistQueryKey, wishlist)
+    }
+
+    const addMutation = useMutation({
+        mutationFn: (item: WishlistItemKey) => addToWishlist({ data: item }),
+        onSuccess,
+    })
+
+    const removeMutation = useMutation({
+        mutationFn: (item: WishlistItemKey) => removeFromWishlist({ data: item }),
+        onSuccess,
+    })
+
+    const items = data?.items ?? []
+
+    // Without a variant any saved variant of the product counts; a variant matches
+    // its own entry or the product saved without one
+    const findSaved = (productId: string, variantId?: string) =>
+        items.find(item => item.productId === productId
+            && (!variantId || !item.variantId || item.variantId === variantId))
+
+    return {
+        items,
+        isLoading,
+        findSaved,
+        isUpdating: addMutation.isPending || removeMutation.isPending,
+        save: (item: WishlistItemKey) => addMutation.mutateAsync(item),
+        remove: (item: WishlistItemKey) => removeMutation.mutateAsync(item),
+    }
+}
@@ -15,19 +15,30 @@ import { Route as PublicRouteImport } from './routes/_public'
 import { Route as SupplierIndexRouteImport } from './routes/supplier/index'
 import { Route as AdminIndexRouteImport } from './routes/admin/index'
 import { Route as PublicIndexRouteImport } from './routes/_public.index'
+import { Route as SupplierReviewsRouteImport } from './routes/supplier/reviews'
+import { Route as SupplierProfileRouteImport } from './routes/supplier/profile'
 import { Route as SupplierProductsRouteImport } from './routes/supplier/products'
+import { Route as AdminUsersRouteImport } from './routes/admin/users'
+import { Route as AdminReviewsRouteImport } from './routes/admin/reviews'
 import { Route as AdminOrdersRouteImport } from './routes/admin/orders'
 import { Route as AdminInventoryRouteImport } from './routes/admin/inventory'
+import { Route as AdminCustomerReviewsRouteImport } from './routes/admin/customer-reviews'
+import { Route as AdminCategoriesRouteImport } from './routes/admin/categories'
+import { Route as AdminAuditRouteImport } from './routes/admin/audit'
+import { Route as AdminApplicationsRouteImport } from './routes/admin/applications'
 import { Route as PublicRegisterRouteImport } from './routes/_public.register'
 import { Route as PublicProfileRouteImport } from './routes/_public.profile'
 import { Route as PublicProductsRouteImport } from './routes/_public.products'
 import { Route as PublicLoginRouteImport } from './routes/_public.login'
 import { Route as PublicCheckoutRouteImport } from './routes/_public.checkout'
+import { Route as PublicBecomeAMakerRouteImport } from './routes/_public.become-a-maker'
 import { Route as SupplierProductsIndexRouteImport } from './routes/supplier/products/index'
 import { Route as SupplierOrdersIndexRouteImport } from './routes/supplier/orders/index'
 import { Route as SupplierProductsNewRouteImport } from './routes/supplier/products/new'
 import { Route as SupplierOrdersOrderIdRouteImport } from './routes/supplier/orders/$orderId'
+import { Route as ApiPaymentsWebhookRouteImport } from './routes/api.payments.webhook'
 import { Route as PublicProductProductIdRouteImport } from './routes/_public.product.$productId'
+import { Route as PublicMakersSupplierIdRouteImport } from './routes/_public.makers.$supplierId'
 
 const SupplierRoute = SupplierRouteImport.update({
   id: '/supplier',
@@ -58,11 +69,31 @@ const PublicIndexRoute = PublicIndexRouteImport.update({
   path: '/',
   getParentRoute: () => PublicRoute,
 } as any)
+const SupplierReviewsRoute = SupplierReviewsRouteImport.update({
+  id: '/reviews',
+  path: '/reviews',
+  getParentRoute: () => SupplierRoute,
+} as any)
+const SupplierProfileRoute = SupplierProfileRouteImport.update({
+  id: '/profile',
+  path: '/profile',
+  getParentRoute: () => SupplierRoute,
+} as any)
 const SupplierProductsRoute = SupplierProductsRouteImport.update({
   id: '/products',
   path: '/products',
   getParentRoute: () => SupplierRoute,
 } as any)
+const AdminUsersRoute = AdminUsersRouteImport.update({
+  id: '/users',
+  path: '/users',
+  getParentRoute: () => AdminRoute,
+} as any)
+const AdminReviewsRoute = AdminReviewsRouteImport.update({
+  id: '/reviews',
+  path: '/reviews',
+  getParentRoute: () => AdminRoute,
+} as any)
 const AdminOrdersRoute = AdminOrdersRouteImport.update({
   id: '/orders',
   path: '/orders',
@@ -73,6 +104,26 @@ const AdminInventoryRoute = AdminInventoryRouteImport.update({
   path: '/inventory',
   getParentRoute: () => AdminRoute,
 } as any)
+const AdminCustomerReviewsRoute = AdminCustomerReviewsRouteImport.update({
+  id: '/customer-reviews',
+  path: '/customer-reviews',
+  getParentRoute: () => AdminRoute,
+} as any)
+const AdminCategoriesRoute = AdminCategoriesRouteImport.update({
+  id: '/categories',
+  path: '/categories',
+  getParentRoute: () => AdminRoute,
+} as any)
+const AdminAuditRoute = AdminAuditRouteImport.update({
+  id: '/audit',
+  path: '/audit',
+  getParentRoute: () => AdminRoute,
+} as any)
+const AdminApplicationsRoute = AdminApplicationsRouteImport.update({
+  id: '/applications',
+  path: '/applications',
+  getParentRoute: () => AdminRoute,
+} as any)
 const PublicRegisterRoute = PublicRegisterRouteImport.update({
   id: '/register',
   path: '/register',
@@ -98,6 +149,11 @@ const PublicCheckoutRoute = PublicCheckoutRouteImport.update({
   path: '/checkout',
   getParentRoute: () => PublicRoute,
 } as any)
+const PublicBecomeAMakerRoute = PublicBecomeAMakerRouteImport.update({
+  id: '/become-a-maker',
+  path: '/become-a-maker',
+  getParentRoute: () => PublicRoute,
+} as any)
 const SupplierProductsIndexRoute = SupplierProductsIndexRouteImport.update({
   id: '/',
   path: '/',
@@ -118,44 +174,76 @@ const SupplierOrdersOrderIdRoute = SupplierOrdersOrderIdRouteImport.update({
   path: '/orders/$orderId',
   getParentRoute: () => SupplierRoute,
 } as any)
+const ApiPaymentsWebhookRoute = ApiPaymentsWebhookRouteImport.update({
+  id: '/api/payments/webhook',
+  path: '/api/payments/webhook',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const PublicProductProductIdRoute = PublicProductProductIdRouteImport.update({
   id: '/product/$productId',
   path: '/product/$productId',
   getParentRoute: () => PublicRoute,
 } as any)
+const PublicMakersSupplierIdRoute = PublicMakersSupplierIdRouteImport.update({
+  id: '/makers/$supplierId',
+  path: '/makers/$supplierId',
+  getParentRoute: () => PublicRoute,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/admin': typeof AdminRouteWithChildren
   '/supplier': typeof SupplierRouteWithChildren
+  '/become-a-maker': typeof PublicBecomeAMakerRoute
   '/checkout': typeof PublicCheckoutRoute
   '/login': typeof PublicLoginRoute
   '/products': typeof PublicProductsRoute
   '/profile': typeof PublicProfileRoute
   '/register': typeof PublicRegisterRoute
+  '/admin/applications': typeof AdminApplicationsRoute
+  '/admin/audit': typeof AdminAuditRoute
+  '/admin/categories': typeof AdminCategoriesRoute
+  '/admin/customer-reviews': typeof AdminCustomerReviewsRoute
   '/admin/inventory': typeof AdminInventoryRoute
   '/admin/orders': typeof AdminOrdersRoute
+  '/admin/reviews': typeof AdminReviewsRoute
+  '/admin/users': typeof AdminUsersRoute
   '/supplier/products': typeof SupplierProductsRouteWithChildren
+  '/supplier/profile': typeof SupplierProfileRoute
+  '/supplier/reviews': typeof SupplierReviewsRoute
   '/': typeof PublicIndexRoute
   '/admin/': typeof AdminIndexRoute
   '/supplier/': typeof SupplierIndexRoute
+  '/makers/$supplierId': typeof PublicMakersSupplierIdRoute
   '/product/$productId': typeof PublicProductProductIdRoute
+  '/api/payments/webhook': typeof ApiPaymentsWebhookRoute
   '/supplier/orders/$orderId': typeof SupplierOrdersOrderIdRoute
   '/supplier/products/new': typeof SupplierProductsNewRoute
   '/supplier/orders': typeof SupplierOrdersIndexRoute
   '/supplier/products/': typeof SupplierProductsIndexRoute
 }
 export interface FileRoutesByTo {
+  '/become-a-maker': typeof PublicBecomeAMakerRoute
   '/checkout': typeof PublicCheckoutRoute
   '/login': typeof PublicLoginRoute
   '/products': typeof PublicProductsRoute
   '/profile': typeof PublicProfileRoute
   '/register': typeof PublicRegisterRoute
+  '/admin/applications': typeof AdminApplicationsRoute
+  '/admin/audit': typeof AdminAuditRoute
+  '/admin/categories': typeof AdminCategoriesRoute
+  '/admin/customer-reviews': typeof AdminCustomerReviewsRoute
   '/admin/inventory': typeof AdminInventoryRoute
   '/admin/orders': typeof AdminOrdersRoute
+  '/admin/reviews': typeof AdminReviewsRoute
+  '/admin/users': typeof AdminUsersRoute
+  '/supplier/profile': typeof SupplierProfileRoute
+  '/supplier/reviews': typeof SupplierReviewsRoute
   '/': typeof PublicIndexRoute
   '/admin': typeof AdminIndexRoute
   '/supplier': typeof SupplierIndexRoute
+  '/makers/$supplierId': typeof PublicMakersSupplierIdRoute
   '/product/$productId': typeof PublicProductProductIdRoute
+  '/api/payments/webhook': typeof ApiPaymentsWebhookRoute
   '/supplier/orders/$orderId': typeof SupplierOrdersOrderIdRoute
   '/supplier/products/new': typeof SupplierProductsNewRoute
   '/supplier/orders': typeof SupplierOrdersIndexRoute
@@ -166,18 +254,29 @@ export interface FileRoutesById {
   '/_public': typeof PublicRouteWithChildren
   '/admin': typeof AdminRouteWithChildren
   '/supplier': typeof SupplierRouteWithChildren
+  '/_public/become-a-maker': typeof PublicBecomeAMakerRoute
   '/_public/checkout': typeof PublicCheckoutRoute
   '/_public/login': typeof PublicLoginRoute
   '/_public/products': typeof PublicProductsRoute
   '/_public/profile': typeof PublicProfileRoute
   '/_public/register': typeof PublicRegisterRoute
+  '/admin/applications': typeof AdminApplicationsRoute
+  '/admin/audit': typeof AdminAuditRoute
+  '/admin/categories': typeof AdminCategoriesRoute
+  '/admin/customer-reviews': typeof AdminCustomerReviewsRoute
   '/admin/inventory': typeof AdminInventoryRoute
   '/admin/orders': typeof AdminOrdersRoute
+  '/admin/reviews': typeof AdminReviewsRoute
+  '/admin/users': typeof AdminUsersRoute
   '/supplier/products': typeof SupplierProductsRouteWithChildren
+  '/supplier/profile': typeof SupplierProfileRoute
+  '/supplier/reviews': typeof SupplierReviewsRoute
   '/_public/': typeof PublicIndexRoute
   '/admin/': typeof AdminIndexRoute
   '/supplier/': typeof SupplierIndexRoute
+  '/_public/makers/$supplierId': typeof PublicMakersSupplierIdRoute
   '/_public/product/$productId': typeof PublicProductProductIdRoute
+  '/api/payments/webhook': typeof ApiPaymentsWebhookRoute
   '/supplier/orders/$orderId': typeof SupplierOrdersOrderIdRoute
   '/supplier/products/new': typeof SupplierProductsNewRoute
   '/supplier/orders/': typeof SupplierOrdersIndexRoute
@@ -188,35 +287,57 @@ export interface FileRouteTypes {
   fullPaths:
     | '/admin'
     | '/supplier'
+    | '/become-a-maker'
     | '/checkout'
     | '/login'
     | '/products'
     | '/profile'
     | '/register'
+    | '/admin/applications'
+    | '/admin/audit'
+    | '/admin/categories'
+    | '/admin/customer-reviews'
     | '/admin/inventory'
     | '/admin/orders'
+    | '/admin/reviews'
+    | '/admin/users'
     | '/supplier/products'
+    | '/supplier/profile'
+    | '/supplier/reviews'
     | '/'
     | '/admin/'
     | '/supplier/'
+    | '/makers/$supplierId'
     | '/product/$productId'
+    | '/api/payments/webhook'
     | '/supplier/orders/$orderId'
     | '/supplier/products/new'
     | '/supplier/orders'
     | '/supplier/products/'
   fileRoutesByTo: FileRoutesByTo
   to:
+    | '/become-a-maker'
     | '/checkout'
     | '/login'
     | '/products'
     | '/profile'
     | '/register'
+    | '/admin/applications'
+    | '/admin/audit'
+    | '/admin/categories'
+    | '/admin/customer-reviews'
     | '/admin/inventory'
     | '/admin/orders'
+    | '/admin/reviews'
+    | '/admin/users'
+    | '/supplier/profile'
+    | '/supplier/reviews'
     | '/'
     | '/admin'
     | '/supplier'
+    | '/makers/$supplierId'
     | '/product/$productId'
+    | '/api/payments/webhook'
     | '/supplier/orders/$orderId'
     | '/supplier/products/new'
     | '/supplier/orders'
@@ -226,18 +347,29 @@ export interface FileRouteTypes {
     | '/_public'
     | '/admin'
     | '/supplier'
+    | '/_public/become-a-maker'
     | '/_public/checkout'
     | '/_public/login'
     | '/_public/products'
     | '/_public/profile'
     | '/_public/register'
+    | '/admin/applications'
+    | '/admin/audit'
+    | '/admin/categories'
+    | '/admin/customer-reviews'
     | '/admin/inventory'
     | '/admin/orders'
+    | '/admin/reviews'
+    | '/admin/users'
     | '/supplier/products'
+    | '/supplier/profile'
+    | '/supplier/reviews'
     | '/_public/'
     | '/admin/'
     | '/supplier/'
+    | '/_public/makers/$supplierId'
     | '/_public/product/$productId'
+    | '/api/payments/webhook'
     | '/supplier/orders/$orderId'
     | '/supplier/products/new'
     | '/supplier/orders/'
@@ -248,6 +380,7 @@ export interface RootRouteChildren {
   PublicRoute: typeof PublicRouteWithChildren
   AdminRoute: typeof AdminRouteWithChildren
   SupplierRoute: typeof SupplierRouteWithChildren
+  ApiPaymentsWebhookRoute: typeof ApiPaymentsWebhookRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -294,6 +427,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PublicIndexRouteImport
       parentRoute: typeof PublicRoute
     }
+    '/supplier/reviews': {
+      id: '/supplier/reviews'
+      path: '/reviews'
+      fullPath: '/supplier/reviews'
+      preLoaderRoute: typeof SupplierReviewsRouteImport
+      parentRoute: typeof SupplierRoute
+    }
+    '/supplier/profile': {
+      id: '/supplier/profile'
+      path: '/profile'
+      fullPath: '/supplier/profile'
+      preLoaderRoute: typeof SupplierProfileRouteImport
+      parentRoute: typeof SupplierRoute
+    }
     '/supplier/products': {
       id: '/supplier/products'
       path: '/products'
@@ -301,6 +448,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SupplierProductsRouteImport
       parentRoute: typeof SupplierRoute
     }
+    '/admin/users': {
+      id: '/admin/users'
+      path: '/users'
+      fullPath: '/admin/users'
+      preLoaderRoute: typeof AdminUsersRouteImport
+      parentRoute: typeof AdminRoute
+    }
+    '/admin/reviews': {
+      id: '/admin/reviews'
+      path: '/reviews'
+      fullPath: '/admin/reviews'
+      preLoaderRoute: typeof AdminReviewsRouteImport
+      parentRoute: typeof AdminRoute
+    }
     '/admin/orders': {
       id: '/admin/orders'
       path: '/orders'
@@ -315,6 +476,34 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminInventoryRouteImport
       parentRoute: typeof AdminRoute
     }
+    '/admin/customer-reviews': {
+      id: '/admin/customer-reviews'
+      path: '/customer-reviews'
+      fullPath: '/admin/customer-reviews'
+      preLoaderRoute: typeof AdminCustomerReviewsRouteImport
+      parentRoute: typeof AdminRoute
+    }
+    '/admin/categories': {
+      id: '/admin/categories'
+      path: '/categories'
+      fullPath: '/admin/categories'
+      preLoaderRoute: typeof AdminCategoriesRouteImport
+      parentRoute: typeof AdminRoute
+    }
+    '/admin/audit': {
+      id: '/admin/audit'
+      path: '/audit'
+      fullPath: '/admin/audit'
+      preLoaderRoute: typeof AdminAuditRouteImport
+      parentRoute: typeof AdminRoute
+    }
+    '/admin/applications': {
+      id: '/admin/applications'
+      path: '/applications'
+      fullPath: '/admin/applications'
+      preLoaderRoute: typeof AdminApplicationsRouteImport
+      parentRoute: typeof AdminRoute
+    }
     '/_public/register': {
       id: '/_public/register'
       path: '/register'
@@ -350,6 +539,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PublicCheckoutRouteImport
       parentRoute: typeof PublicRoute
     }
+    '/_public/become-a-maker': {
+      id: '/_public/become-a-maker'
+      path: '/become-a-maker'
+      fullPath: '/become-a-maker'
+      preLoaderRoute: typeof PublicBecomeAMakerRouteImport
+      parentRoute: typeof PublicRoute
+    }
     '/supplier/products/': {
       id: '/supplier/products/'
       path: '/'
@@ -378,6 +574,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SupplierOrdersOrderIdRouteImport
       parentRoute: typeof SupplierRoute
     }
+    '/api/payments/webhook': {
+      id: '/api/payments/webhook'
+      path: '/api/payments/webhook'
+      fullPath: '/api/payments/webhook'
+      preLoaderRoute: typeof ApiPaymentsWebhookRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/_public/product/$productId': {
       id: '/_public/product/$productId'
       path: '/product/$productId'
@@ -385,26 +588,37 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PublicProductProductIdRouteImport
       parentRoute: typeof PublicRoute
     }
+    '/_public/makers/$supplierId': {
+      id: '/_public/makers/$supplierId'
+      path: '/makers/$supplierId'
+      fullPath: '/makers/$supplierId'
+      preLoaderRoute: typeof PublicMakersSupplierIdRouteImport
+      parentRoute: typeof PublicRoute
+    }
   }
 }
 
 interface PublicRouteChildren {
+  PublicBecomeAMakerRoute: typeof PublicBecomeAMakerRoute
   PublicCheckoutRoute: typeof PublicCheckoutRoute
   PublicLoginRoute: typeof PublicLoginRoute
   PublicProductsRoute: typeof PublicProductsRoute
   PublicProfileRoute: typeof PublicProfileRoute
   PublicRegisterRoute: typeof PublicRegisterRoute
   PublicIndexRoute: typeof PublicIndexRoute
+  PublicMakersSupplierIdRoute: typeof PublicMakersSupplierIdRoute
   PublicProductProductIdRoute: typeof PublicProductProductIdRoute
 }
 
 const PublicRouteChildren: PublicRouteChildren = {
+  PublicBecomeAMakerRoute: PublicBecomeAMakerRoute,
   PublicCheckoutRoute: PublicCheckoutRoute,
   PublicLoginRoute: PublicLoginRoute,
   PublicProductsRoute: PublicProductsRoute,
   PublicProfileRoute: PublicProfileRoute,
   PublicRegisterRoute: PublicRegisterRoute,
   PublicIndexRoute: PublicIndexRoute,
+  PublicMakersSupplierIdRoute: PublicMakersSupplierIdRoute,
   PublicProductProductIdRoute: PublicProductProductIdRoute,
 }
 
@@ -412,14 +626,26 @@ const PublicRouteWithChildren =
   PublicRoute._addFileChildren(PublicRouteChildren)
 
 interface AdminRouteChildren {
+  AdminApplicationsRoute: typeof AdminApplicationsRoute
+  AdminAuditRoute: typeof AdminAuditRoute
+  AdminCategoriesRoute: typeof AdminCategoriesRoute
+  AdminCustomerReviewsRoute: typeof AdminCustomerReviewsRoute
   AdminInventoryRoute: typeof AdminInventoryRoute
   AdminOrdersRoute: typeof AdminOrdersRoute
+  AdminReviewsRoute: typeof AdminReviewsRoute
+  AdminUsersRoute: typeof AdminUsersRoute
   AdminIndexRoute: typeof AdminIndexRoute
 }
 
 const AdminRouteChildren: AdminRouteChildren = {
+  AdminApplicationsRoute: AdminApplicationsRoute,
+  AdminAuditRoute: AdminAuditRoute,
+  AdminCategoriesRoute: AdminCategoriesRoute,
+  AdminCustomerReviewsRoute: AdminCustomerReviewsRoute,
   AdminInventoryRoute: AdminInventoryRoute,
   AdminOrdersRoute: AdminOrdersRoute,
+  AdminReviewsRoute: AdminReviewsRoute,
+  AdminUsersRoute: AdminUsersRoute,
   AdminIndexRoute: AdminIndexRoute,
 }
 
@@ -440,6 +666,8 @@ const SupplierProductsRouteWithChildren =
 
 interface SupplierRouteChildren {
   SupplierProductsRoute: typeof SupplierProductsRouteWithChildren
+  SupplierProfileRoute: typeof SupplierProfileRoute
+  SupplierReviewsRoute: typeof SupplierReviewsRoute
   SupplierIndexRoute: typeof SupplierIndexRoute
   SupplierOrdersOrderIdRoute: typeof SupplierOrdersOrderIdRoute
   SupplierOrdersIndexRoute: typeof SupplierOrdersIndexRoute
@@ -447,6 +675,8 @@ interface SupplierRouteChildren {
 
 const SupplierRouteChildren: SupplierRouteChildren = {
   SupplierProductsRoute: SupplierProductsRouteWithChildren,
+  SupplierProfileRoute: SupplierProfileRoute,
+  SupplierReviewsRoute: SupplierReviewsRoute,
   SupplierIndexRoute: SupplierIndexRoute,
   SupplierOrdersOrderIdRoute: SupplierOrdersOrderIdRoute,
   SupplierOrdersIndexRoute: SupplierOrdersIndexRoute,
@@ -460,6 +690,7 @@ const rootRouteChildren: RootRouteChildren = {
   PublicRoute: PublicRouteWithChildren,
   AdminRoute: AdminRouteWithChildren,
   SupplierRoute: SupplierRouteWithChildren,
+  ApiPaymentsWebhookRoute: ApiPaymentsWebhookRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -0,0 +1,299 @@
+import { createFileRoute, Link, useRouter } from '@tanstack/react-router'
+import { useState } from 'react'
+import { getCurrentUser } from '../server/auth'
+import {
+    getMySupplierApplicationFn,
+    submitSupplierApplicationFn,
+    uploadSamplePhotoFn
+} from '../server/supplier-application'
+import type { SupplierApplicationSerializable } from '../server/supplier-application-utils'
+import { APPLICATION_LIMITS, MAX_SAMPLE_PHOTOS, REJECTION_REASONS } from '../server/supplier-application-state'
+import './_public.BecomeMaker.css'
+
+export const Route = createFileRoute('/_public/become-a-maker')({
+    loader: async () => {
+        const user = await getCurrentUser()
+        if (!user || user.isAnonymous) {
+            return { signedIn: false as const }
+        }
+        return { signedIn: true as const, ...(await getMySupplierApplicationFn()) }
+    },
+    component: BecomeMakerPage,
+})
+
+function BecomeMakerPage() {
+    const data = Route.useLoaderData()
+
+    return (
+        <div className="become-maker-page">
+            <header className="become-maker-header">
+                <h1>Become a maker</h1>
+                <p>
+                    Sell your handmade work to people who care how things are made.
+                    Tell us about your craft and our team will review your application.
+                </p>
+            </header>
+
+            {!data.signedIn ? (
+                <div className="become-maker-card">
+                    <h2>Create an account to apply</h2>
+                    <p>You need a Makerskind account before you can apply to sell.</p>
+                    <div className="become-maker-actions">
+                        <Link to="/register" className="become-maker-primary">Create an account</Link>
+                        <Link to="/login" search={{ redirect: '/become-a-maker' }} className="become-maker-secondary">
+                            Sign in
+                        </Link>
+                    </div>
+                </div>
+            ) : data.role === 'supplier' ? (
+                <div className="become-maker-card">
+                    <h2>You're already selling on Makerskind</h2>
+                    <div className="become-maker-actions">
+                        <Link to="/supplier" className="become-maker-primary">Go to your dashboard</Link>
+                    </div>
+                </div>
+            ) : data.role !== 'user' ? (
+                <div className="become-maker-card">
+                    <h2>Staff accounts can't sell on Makerskind</h2>
+                    <p>Apply from a separate customer account if you also make things to sell.</p>
+                    <div className="become-maker-actions">
+                        <Link to="/admin" className="become-maker-primary">Go to the admin console</Link>
+                    </div>
+                </div>
+            ) : data.application?.status === 'pending' ? (
+                <ApplicationUnderReview application={data.application} />
+            ) : (
+                <>
+                    {data.application?.status === 'rejected' && (
+                        <RejectionNotice application={data.application} />
+                    )}
+                    <ApplicationForm previous={data.application} />
+                </>
+            )}
+        </div>
+    )
+}
+
+function ApplicationUnderReview({ application }: { application: SupplierApplicationSerializable }) {
+    return (
+        <div className="become-maker-card">
+            <h2>Your application is under review</h2>
+            <p>
+                We received your application for <strong>{application.businessName}</strong> on{' '}
+                {new Date(application.createdAt).toLocaleDateString()}. We'll let you know once it has been reviewed.
+            </p>
+            {application.samplePhotos.length > 0 && (
+                <div className="become-maker-photos">
+                    {application.samplePhotos.map((url) => (
+                        <img key={url} src={url} alt="Sample of your work" />
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
+function RejectionNotice({ application }: { application: SupplierApplicationSerializable }) {
+    return (
+        <div className="become-maker-card become-maker-rejected">
+            <h2>Your last application was not approved</h2>
+            <ul>
+                {application.rejectionReasons.map((reason) => (
+                    <li key={reason}>{REJECTION_REASONS[reason]}</li>
+                ))}
+            </ul>
+            {application.reviewNote && <p className="become-maker-note">{application.reviewNote}</p>}
+            <p>You're welcome to update your details and apply again.</p>
+        </div>
+    )
+}
+
+function ApplicationForm({ previous }: { previous: SupplierApplicationSerializable | null }) {
+    const router = useRouter()
+
+    // Reapplying starts from the details of the last application
+    const [form, setForm] = useState({
+        businessName: previous?.businessName ?? '',
+        craft: previous?.craft ?? '',
+        location: previous?.location ?? '',
+        website: previous?.website ?? '',
+        description: previous?.description ?? '',
+        accountHolder: previous?.payout.accountHolder ?? '',
+        country: previous?.payout.country ?? '',
+    })
+    const [photos, setPhotos] = useState<string[]>([])
+    const [uploading, setUploading] = useState(false)
+    const [submitting, setSubmitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const update = (changes: Partial<typeof form>) => setForm((current) => ({ ...current, ...changes }))
+
+    const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []).slice(0, MAX_SAMPLE_PHOTOS - photos.length)
+        if (!files.length) return
+
+        setUploading(true)
+        setError(null)
+        try {
+            for (const file of files) {
+                // Convert to base64
+                const content = await new Promise<string>((resolve, reject) => {
+                    const reader = new FileReader()
+                    reader.onload = () => resolve((reader.result as string).split(',')[1])
+                    reader.onerror = reject
+                    reader.readAsDataURL(file)
+                })
+                const result = await uploadSamplePhotoFn({
+                    data: { filename: file.name, contentType: file.type, content }
+                })
+                setPhotos((current) => [...current, result.url])
+            }
+        } catch (err) {
+            console.error('Failed to upload photo:', err)
+            setError(err instanceof Error ? err.message : 'Failed to upload photo')
+        } finally {
+            setUploading(false)
+            e.target.value = ''
+        }
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSubmitting(true)
+        setError(null)
+        try {
+            const { accountHolder, country, website, ...details } = form
+            await submitSupplierApplicationFn({
+                data: {
+                    ...details,
+                    website: website || undefined,
+                    samplePhotos: photos,
+                    payout: { accountHolder, country }
+                }
+            })
+            router.invalidate()
+        } catch (err) {
+            console.error('Failed to submit application:', err)
+            setError(err instanceof Error ? err.message : 'Failed to submit application')
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    return (
+        <form className="become-maker-card become-maker-form" onSubmit={handleSubmit}>
+            <h2>About your business</h2>
+
+            <div className="become-maker-grid">
+                <label className="form-group">
+                    <span>Business name</span>
+                    <input
+                        value={form.businessName}
+                        maxLength={APPLICATION_LIMITS.businessName}
+                        required
+                        onChange={(e) => update({ businessName: e.target.value })}
+                    />
+                </label>
+                <label className="form-group">
+                    <span>What do you make?</span>
+                    <input
+                        value={form.craft}
+                        maxLength={APPLICATION_LIMITS.craft}
+                        placeholder="e.g. Ceramics, woodwork, textiles"
+                        required
+                        onChange={(e) => update({ craft: e.target.value })}
+                    />
+                </label>
+                <label className="form-group">
+                    <span>Location</span>
+                    <input
+                        value={form.location}
+                        maxLength={APPLICATION_LIMITS.location}
+                        required
+                        onChange={(e) => update({ location: e.target.value })}
+                    />
+                </label>
+                <label className="form-group">
+                    <span>Website or social page (optional)</span>
+                    <input
+                        type="url"
+                        value={form.website}
+                        maxLength={APPLICATION_LIMITS.website}
+                        placeholder="https://"
+                        onChange={(e) => update({ website: e.target.value })}
+                    />
+                </label>
+            </div>
+
+            <label className="form-group">
+                <span>Tell us about your work</span>
+                <textarea
+                    rows={5}
+                    value={form.description}
+                    maxLength={APPLICATION_LIMITS.description}
+                    placeholder="How you make your pieces, the materials you use and what you'd like to sell"
+                    required
+                    onChange={(e) => update({ description: e.target.value })}
+                />
+            </label>
+
+            <div className="form-group">
+                <label htmlFor="sample-photos">
+                    Photos of your work ({photos.length}/{MAX_SAMPLE_PHOTOS})
+                </label>
+                <input
+                    id="sample-photos"
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    disabled={uploading || photos.length >= MAX_SAMPLE_PHOTOS}
+                    onChange={handlePhotoUpload}
+                />
+                {photos.length > 0 && (
+                    <div className="become-maker-photos">
+                        {photos.map((url) => (
+                            <img key={url} src={url} alt="Sample of your work" />
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <h2>Payouts</h2>
+            <p className="become-maker-hint">
+                We'll collect bank details once you're approved. For now, tell us who payouts should go to.
+            </p>
+            <div className="become-maker-grid">
+                <label className="form-group">
+                    <span>Account holder name</span>
+                    <input
+                        value={form.accountHolder}
+                        maxLength={APPLICATION_LIMITS.accountHolder}
+                        required
+                        onChange={(e) => update({ accountHolder: e.target.value })}
+                    />
+                </label>
+                <label className="form-group">
+                    <span>Country</span>
+                    <input
+                        value={form.country}
+                        maxLength={APPLICATION_LIMITS.country}
+                        required
+                        onChange={(e) => update({ country: e.target.value })}
+                    />
+                </label>
+            </div>
+
+            {error && <p className="become-maker-error">{error}</p>}
+
+            <div className="become-maker-actions">
+                <button
+                    type="submit"
+                    className="become-maker-primary"
+                    disabled={!photos.length || uploading || submitting}
+                >
+                    {submitting ? 'Submitting...' : 'Submit application'}
+                </button>
+            </div>
+        </form>
+    )
+}
@@ -1,9 +1,11 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useForm } from '@tanstack/react-form'
 import { useMutation } from '@tanstack/react-query'
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { createOrderFn } from '../server/order'
 import { getCurrentUser } from '../server/auth'
+import { reserveCartFn } from '../server/cart'
+import { getPaymentMethodsFn } from '../server/payment'
 import { useCartStore } from '../hooks/useCartStore'
 import type { ShippingAddress } from '../server/order-utils'
 import './_public.checkout.css'
@@ -11,13 +13,16 @@ import './_public.checkout.css'
 export const Route = createFileRoute('/_public/checkout')({
   component: CheckoutPage,
   loader: async () => {
-    const user = await getCurrentUser()
-    return { user }
+    const [user, payment] = await Promise.all([
+      getCurrentUser(),
+      getPaymentMethodsFn()
+    ])
+    return { user, paymentMethods: payment.methods }
   },
 })
 
 function CheckoutPage() {
-  const { user } = Route.useLoaderData()
+  const { user, paymentMethods } = Route.useLoaderData()
   const { items, clearCart } = useCartStore()
   const navigate = useNavigate()
   const [submitError, setSubmitError] = useState<string | null>(null)
@@ -45,14 +50,30 @@ function CheckoutPage() {
   const shippingCost = cartTotal >= 50 ? 0 : 5.99
   const total = cartTotal + shippingCost
 
+  // Hold the stock while the customer fills in the form; re-held whenever the cart changes
+  const reserveMutation = useMutation({ mutationFn: reserveCartFn })
+  const reservationKey = items.map(item => `${item.id}:${item.quantity}`).join(',')
+
+  useEffect(() => {
+    if (items.length === 0) return
+    reserveMutation.mutate({
+      data: {
+        items: items.map(item => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity
+        }))
+      }
+    })
+  }, [reservationKey])
+
   const createOrderMutation = useMutation({
     mutationFn: createOrderFn,
     onSuccess: (data) => {
       if (data.success) {
         clearCart()
-        // Improve: Show accessible toast/alert before redirecting
-        alert('Order placed successfully!')
-        navigate({ to: '/' })
+        // The order history on the profile shows the new order and its payment
+        navigate({ to: '/profile' })
       }
     },
     onError: (error) => {
@@ -66,6 +87,7 @@ function CheckoutPage() {
       city: defaultAddress.city,
       zip: defaultAddress.zip,
       country: defaultAddress.country,
+      paymentMethod: paymentMethods[0]?.id ?? '',
     },
     onSubmit: async ({ value }) => {
       if (items.length === 0) {
@@ -83,10 +105,12 @@ function CheckoutPage() {
       await createOrderMutation.mutateAsync({
         data: {
           items: items.map(item => ({
-            productId: item.id,
+            productId: item.productId,
+            variantId: item.variantId,
             quantity: item.quantity
           })),
-          shippingAddress
+          shippingAddress,
+          paymentMethod: value.paymentMethod
         }
       })
     },
@@ -216,6 +240,46 @@ function CheckoutPage() {
               )}
             </form.Field>
 
+            <h2 className="checkout-payment-title">Payment</h2>
+
+            <form.Field
+              name="paymentMethod"
+              validators={{
+                onChange: ({ value }) => !value ? 'Payment method is required' : undefined
+              }}
+            >
+              {(field) => (
+                <div className="payment-methods">
+                  {paymentMethods.map((method) => (
+                    <label key={method.id} className="payment-method">
+                      <input
+                        type="radio"
+                        name={field.name}
+                        value={method.id}
+                        checked={field.state.value === method.id}
+                        onChange={() => field.handleChange(method.id)}
+                      />
+                      <span>{method.label}</span>
+                    </label>
+                  ))}
+                  {field.state.meta.errors ? (
+                    <span className="error-message">{field.state.meta.errors.join(', ')}</span>
+                  ) : null}
+                </div>
+              )}
+            </form.Field>
+
+            {reserveMutation.isError && (
+              <div className="form-error-banner">
+                {reserveMutation.error.message}. Please update your cart.
+              </div>
+            )}
+            {reserveMutation.data && (
+              <p className="checkout-reservation-note">
+                Your items are held until {new Date(reserveMutation.data.reservation.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </p>
+            )}
+
             {submitError && <div className="form-error-banner">{submitError}</div>}
 
             <button 
@@ -235,6 +299,7 @@ function CheckoutPage() {
               <div key={item.id} className="summary-item">
                 <div className="summary-item-info">
                   <span className="summary-item-name">{item.name}</span>
+                  {item.variantLabel && <span className="summary-item-variant">{item.variantLabel}</span>}
                   <span className="summary-item-qty">x{item.quantity}</span>
                 </div>
                 <span className="summary-item-price">${(item.price * item.quantity).toFixed(2)}</span>
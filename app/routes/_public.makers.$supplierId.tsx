@@ -0,0 +1,130 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useSuspenseQuery } from '@tanstack/react-query'
+import type { QueryClient } from '@tanstack/react-query'
+import { getMakerFn } from '../server/supplier'
+import { ProductGrid } from '../components/ProductGrid'
+import { MakerAvatar } from '../components/MakerCard'
+import { MapPin } from 'lucide-react'
+import './_public.Products.css'
+import './_public.Maker.css'
+
+interface MakerSearch {
+    page?: number
+}
+
+// --- Query Options ---
+const makerQueryOptions = (supplierId: string, page: number) => ({
+    queryKey: ['maker', supplierId, page],
+    queryFn: () => getMakerFn({ data: { supplierId, page } }),
+    staleTime: 60 * 1000,
+})
+
+export const Route = createFileRoute('/_public/makers/$supplierId')({
+    validateSearch: (search): MakerSearch => ({
+        page: typeof search.page === 'number' && search.page > 1 ? search.page : undefined,
+    }),
+    loaderDeps: ({ search }) => ({ page: search.page || 1 }),
+    loader: async ({ context, params, deps }) => {
+        const queryClient = context.queryClient as QueryClient
+        return await queryClient.ensureQueryData(makerQueryOptions(params.supplierId, deps.page))
+    },
+    component: MakerPage,
+    errorComponent: MakerNotFound,
+    head: ({ loaderData }) => {
+        const maker = loaderData?.maker
+        const title = maker ? `${maker.displayName} | Makerskind` : 'Maker | Makerskind'
+        return {
+            meta: [
+                { title },
+                {
+                    name: 'description',
+                    content: maker?.bio || `Handcrafted pieces by ${maker?.displayName ?? 'our makers'}`
+                },
+                ...(maker?.bannerUrl ? [{ property: 'og:image', content: maker.bannerUrl }] : [])
+            ]
+        }
+    },
+})
+
+function MakerPage() {
+    const params = Route.useParams()
+    const search = Route.useSearch()
+    const page = search.page || 1
+    const { data } = useSuspenseQuery(makerQueryOptions(params.supplierId, page))
+    const { maker } = data
+
+    return (
+        <div className="maker-page">
+            <div
+                className="maker-banner"
+                style={maker.bannerUrl ? { backgroundImage: `url(${maker.bannerUrl})` } : undefined}
+            />
+
+            <header className="maker-header">
+                <MakerAvatar maker={maker} size={96} />
+                <div>
+                    <h1 className="maker-name">{maker.displayName}</h1>
+                    {maker.location && (
+                        <p className="maker-location">
+                            <MapPin size={14} /> {maker.location}
+                        </p>
+                    )}
+                    {maker.bio && <p className="maker-bio">{maker.bio}</p>}
+                </div>
+            </header>
+
+            {maker.story && (
+                <section className="maker-story">
+                    <h2>Our Story</h2>
+                    {maker.story.split(/\n{2,}/).map((paragraph, index) => (
+                        <p key={index}>{paragraph}</p>
+                    ))}
+                </section>
+            )}
+
+            <section className="maker-products">
+                <h2>
+                    Pieces by {maker.displayName}
+                    <span className="products-count"> · {data.total} {data.total === 1 ? 'product' : 'products'}</span>
+                </h2>
+
+                <ProductGrid products={data.products} />
+
+                {data.totalPages > 1 && (
+                    <nav className="pagination" aria-label="Maker products pagination">
+                        <Link
+                            to="/makers/$supplierId"
+                            params={{ supplierId: maker.supplierId }}
+                            search={{ page: page - 1 }}
+                            className={`pagination-btn pagination-prev ${page <= 1 ? 'disabled' : ''}`}
+                            disabled={page <= 1}
+                        >
+                            ← Previous
+                        </Link>
+                        <Link
+                            to="/makers/$supplierId"
+                            params={{ supplierId: maker.supplierId }}
+                            search={{ page: page + 1 }}
+                            className={`pagination-btn pagination-next ${page >= data.totalPages ? 'disabled' : ''}`}
+                            disabled={page >= data.totalPages}
+                        >
+                            Next →
+                        </Link>
+                    </nav>
+                )}
+            </section>
+        </div>
+    )
+}
+
+function MakerNotFound() {
+    return (
+        <div className="maker-page">
+            <div className="maker-not-found">
+                <h1 className="maker-name">Maker Not Found</h1>
+                <p>The maker you are looking for does not have a shop here.</p>
+                <Link to="/products" className="pagination-btn">Browse all products</Link>
+            </div>
+        </div>
+    )
+}
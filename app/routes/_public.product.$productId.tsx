@@ -3,7 +3,15 @@ import { createFileRoute } from '@tanstack/react-router'
 import { useSuspenseQuery } from '@tanstack/react-query'
 import type { QueryClient } from '@tanstack/react-query'
 import { getProductByIdFn } from '../server/product'
+import { getCategoriesFn } from '../server/category'
+import { getCategoryTrail } from '../server/category-tree'
 import { useCartStore } from '../hooks/useCartStore'
+import { describeVariant, findVariant } from '../server/product-variants'
+import { MakerCard } from '../components/MakerCard'
+import { ProductReviews } from '../components/ProductReviews'
+import { RatingSummary } from '../components/StarRating'
+import { WishlistButton } from '../components/WishlistButton'
+import { ProductAlerts } from '../components/ProductAlerts'
 import { useState } from 'react'
 
 // --- Types ---
@@ -16,11 +24,21 @@ const productQueryOptions = (productId: string) => ({
     staleTime: 60 * 1000, 
 })
 
+const categoriesQueryOptions = {
+    queryKey: ['categories'],
+    queryFn: () => getCategoriesFn(),
+    staleTime: 5 * 60 * 1000,
+}
+
 
 export const Route = createFileRoute('/_public/product/$productId')({
     loader: async ({ context, params }) => {
         const queryClient = context.queryClient as QueryClient
-        return await queryClient.ensureQueryData(productQueryOptions(params.productId))
+        const [product] = await Promise.all([
+            queryClient.ensureQueryData(productQueryOptions(params.productId)),
+            queryClient.ensureQueryData(categoriesQueryOptions)
+        ])
+        return product
     },
     component: ProductDetailPage,
     head: ({ loaderData }) => {
@@ -61,13 +79,19 @@ function ProductDetailPage() {
     const params = Route.useParams()
     const { data } = useSuspenseQuery(productQueryOptions(params.productId))
     const product = data.product
+    const { data: categoryData } = useSuspenseQuery(categoriesQueryOptions)
     
-    // Server Function Hook
-    // const addToCartFn = useServerFn(addToCart)
+    // Cart store writes through to the server cart
     const { addItem } = useCartStore()
     
     const [isAdding, setIsAdding] = useState(false)
     const [added, setAdded] = useState(false)
+    
+    // Option values chosen for products with variants, starting from the first one in stock
+    const [selection, setSelection] = useState<Record<string, string>>(() => {
+        const variants = product?.variants || []
+        return (variants.find(v => v.inventory.available > 0) || variants[0])?.options || {}
+    })
 
     if (!product) {
         return (
@@ -83,17 +107,29 @@ function ProductDetailPage() {
         )
     }
 
+    const categoryTrail = product.categoryId
+        ? getCategoryTrail(categoryData.categories, product.categoryId)
+        : []
+
+    const hasVariants = !!product.variants?.length
+    const variant = hasVariants ? findVariant(product.variants!, selection) : undefined
+    
+    // The chosen variant's price and stock stand in for the product's
+    const price = variant ? variant.pricing.selling : product.pricing.selling
+    const available = hasVariants ? (variant?.inventory.available ?? 0) : product.inventory.available
+
     const handleAddToCart = async () => {
         setIsAdding(true)
         try {
-            // await addToCartFn({ data: { productId: product._id } })
             // Determine main image for cart
-            const cartImage = product.images.enhanced?.[0] || product.images.original?.[0]
+            const cartImage = variant?.images[0] || product.images.enhanced?.[0] || product.images.original?.[0]
             
             addItem({
-                id: product._id,
+                productId: product._id,
+                variantId: variant?.id,
+                variantLabel: variant && describeVariant(variant.options),
                 name: product.name,
-                price: product.pricing.selling,
+                price,
                 image: cartImage,
             })
 
@@ -108,11 +144,14 @@ function ProductDetailPage() {
     }
 
     // Determine all available images
-    // If enhanced images exist, show ONLY those. Otherwise, show original images.
+    // A variant with its own photos shows those. If enhanced images exist, show ONLY those.
+    // Otherwise, show original images.
     const hasEnhanced = product.images.enhanced && product.images.enhanced.length > 0
-    const allImages = hasEnhanced 
-        ? product.images.enhanced 
-        : (product.images.original || [])
+    const allImages = variant?.images.length
+        ? variant.images
+        : hasEnhanced 
+            ? product.images.enhanced 
+            : (product.images.original || [])
 
     const [selectedImage, setSelectedImage] = useState<string | null>(null)
 
@@ -128,6 +167,12 @@ function ProductDetailPage() {
                     <span className="breadcrumb-separator">/</span>
                     <a href="/products">Products</a>
                     <span className="breadcrumb-separator">/</span>
+                    {categoryTrail.map(category => (
+                        <span key={category._id}>
+                            <a href={`/products?category=${category.slug}`}>{category.name}</a>
+                            <span className="breadcrumb-separator">/</span>
+                        </span>
+                    ))}
                     <span className="breadcrumb-current">{product.name}</span>
                 </nav>
 
@@ -163,13 +208,18 @@ function ProductDetailPage() {
                         <h1 className="product-title">
                             {product.name}
                         </h1>
+                        {product.rating && (
+                            <a href="#reviews" className="product-rating-link">
+                                <RatingSummary rating={product.rating} />
+                            </a>
+                        )}
                         <div className="price-container">
                             <span className="product-price">
-                                ${product.pricing.selling.toFixed(2)}
+                                ${price.toFixed(2)}
                             </span>
-                            {product.inventory.onHand <= 5 && product.inventory.onHand > 0 && (
+                            {available <= 5 && available > 0 && (
                                 <span className="stock-warning">
-                                    Only {product.inventory.onHand} left
+                                    Only {available} left
                                 </span>
                             )}
                         </div>
@@ -178,36 +228,84 @@ function ProductDetailPage() {
                             <p>{product.description}</p>
                         </div>
 
+                        {/* Option Selectors */}
+                        {hasVariants && (
+                            <div className="variant-options">
+                                {product.options?.map((option) => (
+                                    <div key={option.name}>
+                                        <span className="variant-option-label">{option.name}</span>
+                                        <div className="variant-values">
+                                            {option.values.map((value) => {
+                                                const candidate = findVariant(product.variants!, { ...selection, [option.name]: value })
+                                                return (
+                                                    <button
+                                                        key={value}
+                                                        type="button"
+                                                        onClick={() => {
+                                                            setSelection({ ...selection, [option.name]: value })
+                                                            setSelectedImage(null)
+                                                        }}
+                                                        className={`variant-value-btn ${selection[option.name] === value ? 'active' : ''} ${!candidate || candidate.inventory.available <= 0 ? 'unavailable' : ''}`}
+                                                    >
+                                                        {value}
+                                                    </button>
+                                                )
+                                            })}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
                         <div className="action-section">
                             {/* Stock Status Indicator */}
-                            <div className={`stock-status ${product.inventory.onHand > 0 ? 'in-stock' : 'out-of-stock'}`}>
+                            <div className={`stock-status ${available > 0 ? 'in-stock' : 'out-of-stock'}`}>
                                 <span className="status-dot"></span>
                                 <span>
-                                    {product.inventory.onHand > 0 ? 'In Stock & Ready to Ship' : 'Currently Out of Stock'}
+                                    {hasVariants && !variant
+                                        ? 'Not available in this combination'
+                                        : available > 0 ? 'In Stock & Ready to Ship' : 'Currently Out of Stock'}
                                 </span>
                             </div>
 
-                            <button
-                                onClick={handleAddToCart}
-                                disabled={isAdding || product.inventory.onHand <= 0}
-                                className={`add-to-cart-btn ${added ? 'success' : 'primary'}`}
-                            >
-                                {isAdding ? (
-                                    <span>Adding to Cart...</span>
-                                ) : added ? (
-                                    <>
-                                        <Truck className="w-5 h-5" />
-                                        Added to Cart
-                                    </>
-                                ) : (
-                                    <>
-                                        <ShoppingBag className="w-5 h-5" />
-                                        Add to Cart
-                                    </>
-                                )}
-                            </button>
+                            <div className="purchase-buttons">
+                                <button
+                                    onClick={handleAddToCart}
+                                    disabled={isAdding || available <= 0}
+                                    className={`add-to-cart-btn ${added ? 'success' : 'primary'}`}
+                                >
+                                    {isAdding ? (
+                                        <span>Adding to Cart...</span>
+                                    ) : added ? (
+                                        <>
+                                            <Truck className="w-5 h-5" />
+                                            Added to Cart
+                                        </>
+                                    ) : (
+                                        <>
+                                            <ShoppingBag className="w-5 h-5" />
+                                            Add to Cart
+                                        </>
+                                    )}
+                                </button>
+                                <WishlistButton
+                                    productId={product._id}
+                                    variantId={variant?.id}
+                                    className="product-detail-wishlist"
+                                />
+                            </div>
+
+                            {(!hasVariants || variant) && (
+                                <ProductAlerts
+                                    productId={product._id}
+                                    variantId={variant?.id}
+                                    soldOut={available <= 0}
+                                />
+                            )}
                         </div>
 
+                        {data.maker && <MakerCard maker={data.maker} />}
+
                         {/* Value Props */}
                         <div className="value-props">
                             <div className="value-prop-item">
@@ -249,6 +347,12 @@ function ProductDetailPage() {
                         </div>
                     </div>
                 </div>
+
+                <ProductReviews
+                    productId={product._id}
+                    rating={product.rating}
+                    makerName={data.maker?.displayName}
+                />
             </div>
         </div>
     )
@@ -1,46 +1,111 @@
-import { createFileRoute } from '@tanstack/react-router'
-import { useSuspenseQuery } from '@tanstack/react-query'
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useEffect, useRef } from 'react'
+import { infiniteQueryOptions, useSuspenseInfiniteQuery, useSuspenseQuery } from '@tanstack/react-query'
 import { getProductsFn } from '../server/product'
+import { getCategoriesFn } from '../server/category'
+import { getCategoryTrail } from '../server/category-tree'
 import { ProductGrid } from '../components/ProductGrid'
 import { FilterBar } from '../components/FilterBar'
 import { Pagination } from '../components/Pagination'
-import type { ProductStatus } from '../server/product-utils'
+import type { ProductSort, ProductStatus } from '../server/product-utils'
+import type { ProductHighlight } from '../server/search/product-index'
+import type { MakerSummary } from '../server/supplier-utils'
 import './_public.Products.css'
 
 // Search params type
 interface ProductsSearch {
-    page?: number
+    cursor?: string          // Where the listing starts; pages after it load as the shopper scrolls
+    direction?: 'prev'
     search?: string
     status?: ProductStatus
+    category?: string        // Category slug
+    supplier?: string
+    sort?: ProductSort
+    minPrice?: number
+    maxPrice?: number
+    inStock?: boolean
 }
 
+// Prices in the URL must be non-negative numbers
+const parsePrice = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined
+
+// Position a page of products is read from; facets are only needed once per listing
+interface ProductsPageParam {
+    cursor?: string
+    direction?: 'next' | 'prev'
+    facets?: boolean
+}
+
+type ProductsPage = Awaited<ReturnType<typeof getProductsFn>>
+
+// Cursors of a page; the listing always asks for cursor pages
+const cursorsOf = (page: ProductsPage) =>
+    'nextCursor' in page ? page : { nextCursor: null, prevCursor: null }
+
 // Query options factory for reuse
-const productsQueryOptions = (params: ProductsSearch) => ({
+const productsQueryOptions = (params: ProductsSearch) => infiniteQueryOptions({
     queryKey: ['products', params] as const,
-    queryFn: () => getProductsFn({
+    queryFn: ({ pageParam }) => getProductsFn({
         data: {
-            page: params.page || 1,
+            pagination: 'cursor',
+            cursor: pageParam.cursor,
+            direction: pageParam.direction,
             limit: 12,
             search: params.search,
             status: params.status,
+            category: params.category,
+            supplierId: params.supplier,
+            sort: params.sort,
+            minPrice: params.minPrice,
+            maxPrice: params.maxPrice,
+            inStock: params.inStock,
+            facets: pageParam.facets,
         }
     }),
+    initialPageParam: { cursor: params.cursor, direction: params.direction, facets: true } as ProductsPageParam,
+    getNextPageParam: (lastPage): ProductsPageParam | undefined => {
+        const { nextCursor } = cursorsOf(lastPage)
+        return nextCursor ? { cursor: nextCursor } : undefined
+    },
+    getPreviousPageParam: (firstPage): ProductsPageParam | undefined => {
+        const { prevCursor } = cursorsOf(firstPage)
+        return prevCursor ? { cursor: prevCursor, direction: 'prev' } : undefined
+    },
     staleTime: 60 * 1000, // 1 minute
 })
 
+const categoriesQueryOptions = {
+    queryKey: ['categories'],
+    queryFn: () => getCategoriesFn(),
+    staleTime: 5 * 60 * 1000,
+}
+
 export const Route = createFileRoute('/_public/products')({
     validateSearch: (search): ProductsSearch => ({
-        page: typeof search.page === 'number' ? search.page : undefined,
+        cursor: typeof search.cursor === 'string' ? search.cursor : undefined,
+        direction: search.direction === 'prev' ? 'prev' : undefined,
         search: typeof search.search === 'string' ? search.search : undefined,
         status: ['active', 'draft', 'archived'].includes(search.status as string)
             ? (search.status as ProductStatus)
             : undefined,
+        category: typeof search.category === 'string' ? search.category : undefined,
+        supplier: typeof search.supplier === 'string' ? search.supplier : undefined,
+        sort: ['relevance', 'newest', 'price_asc', 'price_desc', 'best_selling', 'name'].includes(search.sort as string)
+            ? (search.sort as ProductSort)
+            : undefined,
+        minPrice: parsePrice(search.minPrice),
+        maxPrice: parsePrice(search.maxPrice),
+        inStock: search.inStock === true ? true : undefined,
     }),
     loaderDeps: ({ search }) => ({ search }),
     loader: async ({ context, deps }) => {
         const queryClient = context.queryClient
         // Prefetch on the server for SSR
-        await queryClient.ensureQueryData(productsQueryOptions(deps.search))
+        await Promise.all([
+            queryClient.ensureInfiniteQueryData(productsQueryOptions(deps.search)),
+            queryClient.ensureQueryData(categoriesQueryOptions)
+        ])
     },
     component: ProductsPage,
     head: () => ({
@@ -59,35 +124,107 @@ export const Route = createFileRoute('/_public/products')({
 function ProductsPage() {
     const search = Route.useSearch()
     
-    const { data } = useSuspenseQuery(productsQueryOptions(search))
+    const {
+        data,
+        hasNextPage,
+        hasPreviousPage,
+        fetchNextPage,
+        fetchPreviousPage,
+        isFetchingNextPage,
+        isFetchingPreviousPage,
+    } = useSuspenseInfiniteQuery(productsQueryOptions(search))
+    const { data: categoryData } = useSuspenseQuery(categoriesQueryOptions)
+    
+    const products = data.pages.flatMap(page => page.products)
+    const highlights: Record<string, ProductHighlight> = Object.assign({}, ...data.pages.map(page => page.highlights))
+    const makers: Record<string, MakerSummary> = Object.assign({}, ...data.pages.map(page => page.makers))
+    const facets = data.pages.find(page => page.facets)?.facets
+    const total = facets?.total ?? products.length
+    
+    // Load the next page as the end of the grid scrolls into view
+    const sentinelRef = useRef<HTMLDivElement>(null)
+    useEffect(() => {
+        const sentinel = sentinelRef.current
+        if (!sentinel || !hasNextPage) return
+        
+        const observer = new IntersectionObserver(entries => {
+            if (entries[0].isIntersecting && !isFetchingNextPage) {
+                fetchNextPage()
+            }
+        }, { rootMargin: '400px' })
+        observer.observe(sentinel)
+        return () => observer.disconnect()
+    }, [hasNextPage, isFetchingNextPage, fetchNextPage])
+    
+    const category = categoryData.categories.find(c => c.slug === search.category)
+    const trail = category ? getCategoryTrail(categoryData.categories, category._id) : []
 
     return (
         <div className="products-page">
+            {category && (
+                <nav className="breadcrumb">
+                    <Link to="/products">Products</Link>
+                    {trail.map(ancestor => (
+                        <span key={ancestor._id}>
+                            <span className="breadcrumb-separator">/</span>
+                            {ancestor === category ? (
+                                <span className="breadcrumb-current">{ancestor.name}</span>
+                            ) : (
+                                <Link to="/products" search={{ category: ancestor.slug }}>{ancestor.name}</Link>
+                            )}
+                        </span>
+                    ))}
+                </nav>
+            )}
+
             <header className="products-header">
-                <h1 className="products-title">Our Collection</h1>
+                <h1 className="products-title">{category ? category.name : 'Our Collection'}</h1>
                 <p className="products-subtitle">
-                    Handpicked treasures from talented artisans around the world
+                    {category
+                        ? category.description || `Handpicked ${category.name.toLowerCase()} from talented artisans`
+                        : 'Handpicked treasures from talented artisans around the world'}
                 </p>
             </header>
 
             <FilterBar
                 currentSearch={search.search}
                 currentStatus={search.status || ''}
+                currentCategory={search.category || ''}
+                currentSupplier={search.supplier || ''}
+                currentSort={search.sort}
+                currentMinPrice={search.minPrice}
+                currentMaxPrice={search.maxPrice}
+                currentInStock={search.inStock}
+                facets={facets}
             />
 
             <div className="products-meta">
                 <span className="products-count">
-                    {data.total} {data.total === 1 ? 'product' : 'products'} found
+                    {total} {total === 1 ? 'product' : 'products'} found
                 </span>
             </div>
 
-            <ProductGrid products={data.products} />
+            {hasPreviousPage && (
+                <button
+                    type="button"
+                    className="products-load-previous"
+                    onClick={() => fetchPreviousPage()}
+                    disabled={isFetchingPreviousPage}
+                >
+                    {isFetchingPreviousPage ? 'Loading…' : 'Show earlier products'}
+                </button>
+            )}
+
+            <ProductGrid products={products} highlights={highlights} makers={makers} />
+
+            <div ref={sentinelRef} className="products-sentinel">
+                {isFetchingNextPage && 'Loading more products…'}
+            </div>
 
+            {/* Plain links for browsing without scripts */}
             <Pagination
-                currentPage={data.page}
-                totalPages={data.totalPages}
-                search={search.search}
-                status={search.status}
+                prevCursor={cursorsOf(data.pages[0]).prevCursor}
+                nextCursor={cursorsOf(data.pages[data.pages.length - 1]).nextCursor}
             />
         </div>
     )
@@ -1,18 +1,21 @@
 import { createFileRoute, redirect } from '@tanstack/react-router'
 import { getUserProfileFn } from '../server/user'
 import { getMyOrdersFn } from '../server/order'
+import { getMyReturnsFn } from '../server/return'
 import { AddressForm } from '../components/AddressForm'
 import { OrderList } from '../components/OrderList'
+import { WishlistList } from '../components/WishlistList'
 import './_public.profile.css'
 
 export const Route = createFileRoute('/_public/profile')({
     loader: async () => {
         try {
-            const [user, ordersData] = await Promise.all([
+            const [user, ordersData, returnsData] = await Promise.all([
                 getUserProfileFn(),
-                getMyOrdersFn({ data: { page: 1, limit: 10 } })
+                getMyOrdersFn({ data: { page: 1, limit: 10 } }),
+                getMyReturnsFn()
             ])
-            return { user, orders: ordersData.orders }
+            return { user, orders: ordersData.orders, returns: returnsData.returns }
         } catch (error) {
             // If authentication fails, redirect to login
             throw redirect({
@@ -27,7 +30,7 @@ export const Route = createFileRoute('/_public/profile')({
 })
 
 function ProfilePage() {
-    const { user, orders } = Route.useLoaderData()
+    const { user, orders, returns } = Route.useLoaderData()
 
     return (
         <div className="profile-page">
@@ -46,7 +49,12 @@ function ProfilePage() {
 
                 <section className="profile-section">
                     <h2>Order History</h2>
-                    <OrderList orders={orders} />
+                    <OrderList orders={orders} returns={returns} />
+                </section>
+
+                <section className="profile-section profile-section-wide">
+                    <h2>Wishlist</h2>
+                    <WishlistList />
                 </section>
             </div>
         </div>
@@ -1,9 +1,17 @@
 import { createFileRoute, Outlet, Link, redirect } from '@tanstack/react-router'
 import { requireAdminAccess } from '../server/auth'
+import { can, ROLE_LABELS } from '../utils/rbac'
+import { NotificationBell } from '../components/NotificationBell'
 import { 
   LayoutDashboard, 
   Package, 
+  ClipboardCheck,
   ShoppingCart, 
+  FolderTree,
+  Store,
+  Users,
+  MessageSquareText,
+  ScrollText,
   BarChart3, 
   LogOut,
   User,
@@ -13,7 +21,7 @@ import {
 export const Route = createFileRoute('/admin')({
   loader: async ({ location }) => {
     try {
-      await requireAdminAccess()
+      return { user: await requireAdminAccess() }
     } catch (error) {
       throw redirect({
         to: '/login',
@@ -27,6 +35,8 @@ export const Route = createFileRoute('/admin')({
 })
 
 function AdminLayout() {
+  const { user } = Route.useLoaderData()
+
   return (
     <div className="flex min-h-screen bg-gray-50">
       {/* Sidebar */}
@@ -48,13 +58,53 @@ function AdminLayout() {
               Dashboard
             </AdminNavLink>
             
-            <AdminNavLink to="/admin/inventory" icon={<Package className="h-5 w-5" />}>
-              Inventory
-            </AdminNavLink>
+            {can(user, 'product:viewUnpublished') && (
+              <AdminNavLink to="/admin/inventory" icon={<Package className="h-5 w-5" />}>
+                Inventory
+              </AdminNavLink>
+            )}
             
-            <AdminNavLink to="/admin/orders" icon={<ShoppingCart className="h-5 w-5" />}>
-              Orders
-            </AdminNavLink>
+            {can(user, 'product:activate') && (
+              <AdminNavLink to="/admin/reviews" icon={<ClipboardCheck className="h-5 w-5" />}>
+                Reviews
+              </AdminNavLink>
+            )}
+            
+            {can(user, 'order:viewAll') && (
+              <AdminNavLink to="/admin/orders" icon={<ShoppingCart className="h-5 w-5" />}>
+                Orders
+              </AdminNavLink>
+            )}
+            
+            {can(user, 'category:manage') && (
+              <AdminNavLink to="/admin/categories" icon={<FolderTree className="h-5 w-5" />}>
+                Categories
+              </AdminNavLink>
+            )}
+            
+            {can(user, 'supplierApplication:review') && (
+              <AdminNavLink to="/admin/applications" icon={<Store className="h-5 w-5" />}>
+                Applications
+              </AdminNavLink>
+            )}
+            
+            {can(user, 'review:moderate') && (
+              <AdminNavLink to="/admin/customer-reviews" icon={<MessageSquareText className="h-5 w-5" />}>
+                Customer Reviews
+              </AdminNavLink>
+            )}
+            
+            {can(user, 'user:view') && (
+              <AdminNavLink to="/admin/users" icon={<Users className="h-5 w-5" />}>
+                Users
+              </AdminNavLink>
+            )}
+            
+            {can(user, 'audit:view') && (
+              <AdminNavLink to="/admin/audit" icon={<ScrollText className="h-5 w-5" />}>
+                Audit Log
+              </AdminNavLink>
+            )}
             
             <AdminNavLink to="/admin" icon={<BarChart3 className="h-5 w-5" />}>
               Analytics
@@ -78,8 +128,8 @@ function AdminLayout() {
                 AD
               </div>
               <div className="flex-1 overflow-hidden">
-                <p className="truncate text-sm font-medium text-white">Admin User</p>
-                <p className="truncate text-xs text-slate-400">admin@makerskind.com</p>
+                <p className="truncate text-sm font-medium text-white">{user.name || ROLE_LABELS[user.role]}</p>
+                <p className="truncate text-xs text-slate-400">{user.email}</p>
               </div>
               <button className="text-slate-400 hover:text-white transition-colors">
                 <LogOut className="h-5 w-5" />
@@ -97,6 +147,7 @@ function AdminLayout() {
              <span className="text-sm font-medium text-gray-900">Admin Portal</span>
           </div>
           <div className="flex items-center gap-4">
+            <NotificationBell className="text-gray-500" />
             <Link 
                 to="/" 
                 className="text-sm font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
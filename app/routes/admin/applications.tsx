@@ -0,0 +1,285 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { getSupplierApplicationsFn, reviewSupplierApplicationFn } from '../../server/supplier-application'
+import { REJECTION_REASONS } from '../../server/supplier-application-state'
+import type {
+  RejectionReason,
+  SupplierApplicationSerializable,
+  SupplierApplicationStatus
+} from '../../server/supplier-application-utils'
+import {
+  Loader2,
+  AlertCircle,
+  Store,
+  Check,
+  X
+} from 'lucide-react'
+
+export const Route = createFileRoute('/admin/applications')({
+  component: ApplicationsPage,
+})
+
+const STATUS_TABS: { value: SupplierApplicationStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+]
+
+function ApplicationsPage() {
+  // --- State ---
+  const [status, setStatus] = useState<SupplierApplicationStatus>('pending')
+
+  // --- Data Fetching ---
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['supplier-applications', status],
+    queryFn: () => getSupplierApplicationsFn({ data: { status } }),
+  })
+
+  const applications = data?.applications || []
+
+  // --- Render ---
+
+  if (isError) {
+    return (
+      <div className="p-6">
+        <div className="rounded-lg bg-red-50 p-4 border border-red-200 shadow-sm">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <AlertCircle className="h-5 w-5 text-red-400" aria-hidden="true" />
+            </div>
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error loading applications</h3>
+              <div className="mt-2 text-sm text-red-700">
+                <p>{(error as Error).message}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 border-b border-gray-200 pb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">Maker Applications</h1>
+          <p className="mt-2 text-sm text-gray-500 max-w-2xl">
+            Review customers who have applied to sell. Approving an application turns the account into a supplier.
+          </p>
+        </div>
+        <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1 shadow-sm">
+          {STATUS_TABS.map(tab => (
+            <button
+              key={tab.value}
+              onClick={() => setStatus(tab.value)}
+              className={`rounded-md px-4 py-1.5 text-sm font-medium transition-colors ${
+                status === tab.value ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Applications */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : applications.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-gray-500 rounded-xl border border-gray-200 bg-white shadow-sm">
+          <Store className="h-10 w-10 text-gray-300 mb-3" />
+          <p className="text-sm">No {status} applications</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {applications.map(application => (
+            <ApplicationCard key={application._id} application={application} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ApplicationCard({ application }: { application: SupplierApplicationSerializable }) {
+  const queryClient = useQueryClient()
+
+  // --- State ---
+  const [rejecting, setRejecting] = useState(false)
+  const [reasons, setReasons] = useState<RejectionReason[]>([])
+  const [note, setNote] = useState('')
+
+  // --- Mutations ---
+  const reviewMutation = useMutation({
+    mutationFn: async (decision: 'approve' | 'reject') => {
+      await reviewSupplierApplicationFn({
+        data: {
+          applicationId: application._id,
+          decision,
+          reasons: decision === 'reject' ? reasons : undefined,
+          note: note || undefined
+        }
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['supplier-applications'] })
+    }
+  })
+
+  const toggleReason = (reason: RejectionReason) => {
+    setReasons(current => current.includes(reason)
+      ? current.filter(r => r !== reason)
+      : [...current, reason])
+  }
+
+  const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2'
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white shadow-sm p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{application.businessName}</h2>
+          <p className="text-sm text-gray-500">
+            {application.craft} · {application.location}
+            {application.website && (
+              <>
+                {' · '}
+                <a href={application.website} target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline">
+                  {application.website}
+                </a>
+              </>
+            )}
+          </p>
+        </div>
+        <div className="text-sm text-gray-500 sm:text-right">
+          <p className="font-medium text-gray-900">{application.applicantName || 'Unnamed applicant'}</p>
+          <p>{application.applicantEmail}</p>
+          <p>Applied {new Date(application.createdAt).toLocaleDateString()}</p>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-700 whitespace-pre-line">{application.description}</p>
+
+      {application.samplePhotos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {application.samplePhotos.map(url => (
+            <a key={url} href={url} target="_blank" rel="noreferrer">
+              <img src={url} alt="Sample work" className="h-24 w-24 rounded-md border border-gray-200 object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Payouts to {application.payout.accountHolder} ({application.payout.country})
+      </p>
+
+      {/* Review outcome */}
+      {application.status === 'rejected' && (
+        <div className="rounded-lg bg-red-50 p-4 border border-red-200 text-sm text-red-700">
+          <ul className="list-disc pl-5">
+            {application.rejectionReasons.map(reason => (
+              <li key={reason}>{REJECTION_REASONS[reason]}</li>
+            ))}
+          </ul>
+          {application.reviewNote && <p className="mt-2 italic">{application.reviewNote}</p>}
+        </div>
+      )}
+      {application.status !== 'pending' && application.reviewedAt && (
+        <p className="text-xs text-gray-500">
+          {application.status === 'approved' ? 'Approved' : 'Rejected'} {new Date(application.reviewedAt).toLocaleString()}
+        </p>
+      )}
+
+      {/* Review actions */}
+      {application.status === 'pending' && (
+        <div className="space-y-4 border-t border-gray-100 pt-4">
+          {rejecting && (
+            <div className="space-y-3">
+              <p className="text-sm font-medium text-gray-700">Reasons for rejecting</p>
+              <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                {(Object.keys(REJECTION_REASONS) as RejectionReason[]).map(reason => (
+                  <label key={reason} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={reasons.includes(reason)}
+                      onChange={() => toggleReason(reason)}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {REJECTION_REASONS[reason]}
+                  </label>
+                ))}
+              </div>
+              <textarea
+                rows={2}
+                value={note}
+                placeholder="Note for the applicant (optional)"
+                onChange={e => setNote(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {reviewMutation.isError && (
+            <p className="text-sm text-red-600">{(reviewMutation.error as Error).message}</p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            {rejecting ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setRejecting(false)}
+                  className="rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  disabled={!reasons.length || reviewMutation.isPending}
+                  onClick={() => reviewMutation.mutate('reject')}
+                  className="inline-flex items-center rounded-md bg-red-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-red-700 disabled:opacity-50"
+                >
+                  {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Reject Application
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setRejecting(true)}
+                  className="inline-flex items-center rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                >
+                  <X className="mr-2 h-4 w-4" />
+                  Reject
+                </button>
+                <button
+                  type="button"
+                  disabled={reviewMutation.isPending}
+                  onClick={() => {
+                    if (confirm(`Approve ${application.businessName} as a maker?`)) {
+                      reviewMutation.mutate('approve')
+                    }
+                  }}
+                  className="inline-flex items-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {reviewMutation.isPending
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    : <Check className="mr-2 h-4 w-4" />}
+                  Approve
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,352 @@
+import { createFileRoute } from '@tanstack/react-router'
+import {
+  createColumnHelper,
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+} from '@tanstack/react-table'
+import { useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useCursorPagination } from '../../hooks/useCursorPagination'
+import { getAuditLogFn } from '../../server/audit'
+import type { AuditAction, AuditEntrySerializable, AuditTargetType, AuditValue } from '../../server/audit-utils'
+import { ROLE_LABELS } from '../../utils/rbac'
+import {
+  Loader2,
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  Filter,
+  Search,
+  ScrollText
+} from 'lucide-react'
+
+type AuditRow = AuditEntrySerializable & { actorName: string | null }
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'product.status_changed': 'Product status changed',
+  'product.price_changed': 'Product price changed',
+  'product.stock_changed': 'Product stock changed',
+  'product.deleted': 'Product deleted',
+  'order.status_changed': 'Order status changed',
+  'order.status_overridden': 'Order status overridden',
+  'shipment.status_changed': 'Shipment status changed',
+  'shipment.status_overridden': 'Shipment status overridden',
+  'user.role_changed': 'User role changed',
+  'user.suspended': 'User suspended',
+  'user.reinstated': 'User reinstated',
+  'review.status_changed': 'Customer review hidden or restored',
+}
+
+const formatValue = (value?: AuditValue) => value === undefined || value === null ? '—' : String(value)
+
+export const Route = createFileRoute('/admin/audit')({
+  component: AuditLogPage,
+})
+
+function AuditLogPage() {
+  // --- State ---
+  const pager = useCursorPagination(25)
+  const [actionFilter, setActionFilter] = useState<AuditAction | ''>('')
+  const [targetTypeFilter, setTargetTypeFilter] = useState<AuditTargetType | ''>('')
+  const [targetInput, setTargetInput] = useState('')
+  const [debouncedTarget, setDebouncedTarget] = useState('')
+
+  // Handle Target Input Change with Debounce
+  const handleTargetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setTargetInput(e.target.value)
+    setTimeout(() => {
+      setDebouncedTarget(e.target.value)
+      pager.reset()
+    }, 500)
+  }
+
+  // --- Data Fetching ---
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['admin', 'audit', pager.cursor, pager.direction, pager.pageSize, actionFilter, targetTypeFilter, debouncedTarget],
+    queryFn: () => getAuditLogFn({
+      data: {
+        cursor: pager.cursor,
+        direction: pager.direction,
+        limit: pager.pageSize,
+        action: actionFilter || undefined,
+        targetType: targetTypeFilter || undefined,
+        targetId: debouncedTarget || undefined
+      }
+    }),
+  })
+
+  // --- Table Configuration ---
+  const columnHelper = createColumnHelper<AuditRow>()
+
+  const columns = [
+    columnHelper.accessor('createdAt', {
+      header: 'When',
+      cell: info => (
+        <span className="text-sm text-gray-900">{new Date(info.getValue()).toLocaleString()}</span>
+      ),
+    }),
+    columnHelper.accessor('actorId', {
+      header: 'Actor',
+      cell: info => (
+        <div className="flex flex-col">
+          <span className="text-sm font-medium text-gray-900">{info.row.original.actorName || info.getValue()}</span>
+          <span className="text-xs text-gray-500">{ROLE_LABELS[info.row.original.actorRole]}</span>
+        </div>
+      ),
+    }),
+    columnHelper.accessor('action', {
+      header: 'Action',
+      cell: info => (
+        <span className="text-sm text-gray-900">{ACTION_LABELS[info.getValue()]}</span>
+      ),
+    }),
+    columnHelper.accessor('targetId', {
+      header: 'Target',
+      cell: info => (
+        <div className="flex flex-col">
+          <span className="text-xs uppercase tracking-wide text-gray-500">{info.row.original.targetType}</span>
+          <button
+            onClick={() => {
+              setTargetInput(info.getValue())
+              setDebouncedTarget(info.getValue())
+              pager.reset()
+            }}
+            className="text-left text-xs font-mono text-indigo-600 hover:text-indigo-500"
+            title="Show every change to this target"
+          >
+            {info.getValue()}
+          </button>
+        </div>
+      ),
+    }),
+    columnHelper.accessor('changes', {
+      header: 'Changes',
+      cell: info => (
+        <ul className="space-y-0.5 text-xs whitespace-normal">
+          {info.getValue().map(change => (
+            <li key={change.field}>
+              <span className="font-mono text-gray-500">{change.field}</span>{' '}
+              <span className="text-gray-700">{formatValue(change.before)} &rarr; {formatValue(change.after)}</span>
+            </li>
+          ))}
+        </ul>
+      ),
+    }),
+    columnHelper.accessor('request', {
+      header: 'From',
+      cell: info => (
+        <span className="text-xs text-gray-500" title={info.getValue().userAgent}>
+          {info.getValue().ip || 'Unknown'}
+        </span>
+      ),
+    }),
+  ]
+
+  const table = useReactTable({
+    data: data?.entries || [],
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+  })
+
+  // --- Render ---
+
+  if (isError) {
+    return (
+      <div className="p-6">
+        <div className="rounded-lg bg-red-50 p-4 border border-red-200 shadow-sm">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <AlertCircle className="h-5 w-5 text-red-400" aria-hidden="true" />
+            </div>
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error loading the audit log</h3>
+              <div className="mt-2 text-sm text-red-700">
+                <p>{(error as Error).message}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 border-b border-gray-200 pb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">Audit Log</h1>
+          <p className="mt-2 text-sm text-gray-500 max-w-2xl">
+            Who changed product statuses and prices, overrode orders, deleted products or changed roles, and when.
+          </p>
+        </div>
+      </div>
+
+      {/* Controls Container */}
+      <div className="bg-white/80 backdrop-blur-sm p-4 rounded-xl border border-gray-200 shadow-sm sticky top-0 z-10 transition-all">
+        <div className="flex flex-col sm:flex-row gap-4 justify-between">
+          {/* Target Search */}
+          <div className="relative flex-1 max-w-md">
+            <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+              <Search className="h-4 w-4 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              placeholder="Product, order or user ID..."
+              value={targetInput}
+              onChange={handleTargetChange}
+              className="block w-full rounded-lg border-0 py-2.5 pl-10 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6 bg-gray-50 focus:bg-white transition-all"
+            />
+          </div>
+
+          {/* Filters */}
+          <div className="flex items-center space-x-3">
+            <div className="relative">
+              <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                <Filter className="h-3.5 w-3.5 text-gray-500" />
+              </div>
+              <select
+                value={actionFilter}
+                onChange={(e) => {
+                  setActionFilter(e.target.value as AuditAction | '')
+                  pager.reset()
+                }}
+                className="block w-full rounded-lg border-0 py-2.5 pl-9 pr-8 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6 bg-white cursor-pointer hover:bg-gray-50"
+              >
+                <option value="">All Actions</option>
+                {(Object.keys(ACTION_LABELS) as AuditAction[]).map(action => (
+                  <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="relative">
+              <select
+                value={targetTypeFilter}
+                onChange={(e) => {
+                  setTargetTypeFilter(e.target.value as AuditTargetType | '')
+                  pager.reset()
+                }}
+                className="block w-full rounded-lg border-0 py-2.5 pl-3 pr-8 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6 bg-white cursor-pointer hover:bg-gray-50"
+              >
+                <option value="">All Targets</option>
+                <option value="product">Products</option>
+                <option value="order">Orders</option>
+                <option value="user">Users</option>
+                <option value="review">Customer Reviews</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Table Card */}
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-[0_2px_10px_-3px_rgba(6,81,237,0.1)]">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50/80">
+              {table.getHeaderGroups().map(headerGroup => (
+                <tr key={headerGroup.id}>
+                  {headerGroup.headers.map(header => (
+                    <th
+                      key={header.id}
+                      scope="col"
+                      className="px-6 py-4 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                    >
+                      {header.isPlaceholder
+                        ? null
+                        : flexRender(
+                            header.column.columnDef.header,
+                            header.getContext()
+                          )}
+                    </th>
+                  ))}
+                </tr>
+              ))}
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={columns.length} className="px-6 py-24 text-center">
+                    <div className="flex flex-col items-center justify-center">
+                      <Loader2 className="h-10 w-10 animate-spin text-indigo-600 mb-4" />
+                      <h3 className="text-lg font-medium text-gray-900">Loading Audit Log</h3>
+                    </div>
+                  </td>
+                </tr>
+              ) : data?.entries.length === 0 ? (
+                <tr>
+                  <td colSpan={columns.length} className="px-6 py-24 text-center">
+                    <div className="flex flex-col items-center justify-center max-w-sm mx-auto">
+                      <div className="h-12 w-12 rounded-full bg-gray-100 flex items-center justify-center mb-4">
+                        <ScrollText className="h-6 w-6 text-gray-400" />
+                      </div>
+                      <h3 className="text-lg font-medium text-gray-900">No entries found</h3>
+                      <p className="text-gray-500 mt-1 text-center">
+                        Nothing in the audit log matches your criteria.
+                      </p>
+                      <button
+                        onClick={() => {
+                          setTargetInput('')
+                          setDebouncedTarget('')
+                          setActionFilter('')
+                          setTargetTypeFilter('')
+                          pager.reset()
+                        }}
+                        className="mt-6 text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                      >
+                        Clear filters
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ) : (
+                table.getRowModel().rows.map(row => (
+                  <tr key={row.id} className="align-top hover:bg-gray-50/80 transition-all duration-150">
+                    {row.getVisibleCells().map(cell => (
+                      <td key={cell.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                      </td>
+                    ))}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {data && (
+          <div className="flex items-center justify-between border-t border-gray-200 bg-white px-4 py-4 sm:px-6">
+            <p className="text-sm text-gray-500">
+              Showing <span className="font-semibold text-gray-900">{data.entries.length === 0 ? 0 : (pager.pageIndex * pager.pageSize) + 1}</span> to{' '}
+              <span className="font-semibold text-gray-900">{(pager.pageIndex * pager.pageSize) + data.entries.length}</span> results
+            </p>
+            <nav className="isolate inline-flex -space-x-px rounded-md shadow-sm" aria-label="Pagination">
+              <button
+                onClick={() => pager.previousPage(data)}
+                disabled={!pager.canPreviousPage(data)}
+                className="relative inline-flex items-center rounded-l-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 transition-colors"
+              >
+                <span className="sr-only">Previous</span>
+                <ChevronLeft className="h-5 w-5" aria-hidden="true" />
+              </button>
+              <span className="relative inline-flex items-center px-4 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 focus:outline-offset-0 bg-white">
+                Page {pager.pageIndex + 1}
+              </span>
+              <button
+                onClick={() => pager.nextPage(data)}
+                disabled={!pager.canNextPage(data)}
+                className="relative inline-flex items-center rounded-r-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 transition-colors"
+              >
+                <span className="sr-only">Next</span>
+                <ChevronRight className="h-5 w-5" aria-hidden="true" />
+              </button>
+            </nav>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
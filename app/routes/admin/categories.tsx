@@ -0,0 +1,289 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import {
+  getCategoriesFn,
+  createCategoryFn,
+  updateCategoryFn,
+  deleteCategoryFn
+} from '../../server/category'
+import { flattenCategoryTree, getSubtreeIds, slugify } from '../../server/category-tree'
+import type { CategorySerializable } from '../../server/category-utils'
+import {
+  Loader2,
+  AlertCircle,
+  FolderTree,
+  Plus,
+  Edit,
+  Trash2,
+  X
+} from 'lucide-react'
+
+export const Route = createFileRoute('/admin/categories')({
+  component: CategoriesPage,
+})
+
+type CategoryForm = {
+  name: string
+  slug: string
+  description: string
+  parentId: string
+}
+
+const emptyForm: CategoryForm = { name: '', slug: '', description: '', parentId: '' }
+
+function CategoriesPage() {
+  const queryClient = useQueryClient()
+
+  // --- State ---
+  // null while closed, 'new' when creating, otherwise the category being edited
+  const [editing, setEditing] = useState<CategorySerializable | 'new' | null>(null)
+  const [form, setForm] = useState<CategoryForm>(emptyForm)
+
+  // --- Data Fetching ---
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['categories'],
+    queryFn: () => getCategoriesFn(),
+  })
+
+  const categories = data?.categories || []
+  const tree = flattenCategoryTree(categories)
+
+  // --- Mutations ---
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const input = {
+        name: form.name,
+        slug: form.slug || undefined,
+        description: form.description,
+        parentId: form.parentId || null
+      }
+      if (editing && editing !== 'new') {
+        await updateCategoryFn({ data: { categoryId: editing._id, ...input } })
+      } else {
+        await createCategoryFn({ data: input })
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] })
+      setEditing(null)
+    }
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (categoryId: string) => {
+      await deleteCategoryFn({ data: { categoryId } })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] })
+    }
+  })
+
+  const openForm = (category: CategorySerializable | 'new') => {
+    saveMutation.reset()
+    setEditing(category)
+    setForm(category === 'new' ? emptyForm : {
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      parentId: category.parentId || ''
+    })
+  }
+
+  // A category cannot be moved below itself or its own subcategories
+  const excludedParents = editing && editing !== 'new'
+    ? getSubtreeIds(categories, editing._id)
+    : []
+
+  // --- Render ---
+
+  if (isError) {
+    return (
+      <div className="p-6">
+        <div className="rounded-lg bg-red-50 p-4 border border-red-200 shadow-sm">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <AlertCircle className="h-5 w-5 text-red-400" aria-hidden="true" />
+            </div>
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error loading categories</h3>
+              <div className="mt-2 text-sm text-red-700">
+                <p>{(error as Error).message}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2'
+
+  return (
+    <div className="space-y-8 animate-fade-in max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 border-b border-gray-200 pb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">Categories</h1>
+          <p className="mt-2 text-sm text-gray-500 max-w-2xl">
+            Organise the catalogue into a hierarchy. Customers browse a category together with everything below it.
+          </p>
+        </div>
+        <div className="flex-shrink-0">
+          <button
+            onClick={() => openForm('new')}
+            className="inline-flex items-center justify-center rounded-lg text-sm font-semibold transition-all h-10 px-5 py-2 bg-indigo-600 text-white hover:bg-indigo-700 shadow-md hover:shadow-lg active:scale-[0.98]"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Category
+          </button>
+        </div>
+      </div>
+
+      {deleteMutation.isError && (
+        <div className="rounded-lg bg-red-50 p-4 border border-red-200 text-sm text-red-700">
+          {(deleteMutation.error as Error).message}
+        </div>
+      )}
+
+      {/* Create / Edit Form */}
+      {editing && (
+        <form
+          onSubmit={e => {
+            e.preventDefault()
+            saveMutation.mutate()
+          }}
+          className="rounded-xl border border-gray-200 bg-white shadow-sm p-6 space-y-4"
+        >
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">
+              {editing === 'new' ? 'New Category' : `Edit ${editing.name}`}
+            </h2>
+            <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+                className={`mt-1 ${inputClass}`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Slug</label>
+              <input
+                type="text"
+                value={form.slug}
+                placeholder={slugify(form.name)}
+                onChange={e => setForm({ ...form, slug: e.target.value })}
+                className={`mt-1 ${inputClass}`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Parent</label>
+              <select
+                value={form.parentId}
+                onChange={e => setForm({ ...form, parentId: e.target.value })}
+                className={`mt-1 ${inputClass}`}
+              >
+                <option value="">None (top level)</option>
+                {tree
+                  .filter(({ category }) => !excludedParents.includes(category._id))
+                  .map(({ category, depth }) => (
+                    <option key={category._id} value={category._id}>
+                      {'\u00a0\u00a0'.repeat(depth)}{category.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Description</label>
+              <textarea
+                rows={3}
+                value={form.description}
+                onChange={e => setForm({ ...form, description: e.target.value })}
+                className={`mt-1 ${inputClass}`}
+              />
+            </div>
+          </div>
+
+          {saveMutation.isError && (
+            <p className="text-sm text-red-600">{(saveMutation.error as Error).message}</p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saveMutation.isPending}
+              className="inline-flex items-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Category
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Category Tree */}
+      <div className="rounded-xl border border-gray-200 bg-white shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16 text-gray-500">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : tree.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+            <FolderTree className="h-10 w-10 text-gray-300 mb-3" />
+            <p className="text-sm">No categories yet</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {tree.map(({ category, depth }) => (
+              <li key={category._id} className="flex items-center justify-between gap-4 px-6 py-3 hover:bg-gray-50">
+                <div style={{ paddingLeft: `${depth * 1.5}rem` }} className="min-w-0">
+                  <p className="font-medium text-gray-900">{category.name}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    /{category.slug}{category.description && ` · ${category.description}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => openForm(category)}
+                    className="p-2 text-gray-400 hover:text-indigo-600 rounded-md hover:bg-indigo-50"
+                    title="Edit category"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete the category "${category.name}"?`)) {
+                        deleteMutation.mutate(category._id)
+                      }
+                    }}
+                    className="p-2 text-gray-400 hover:text-red-600 rounded-md hover:bg-red-50"
+                    title="Delete category"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,273 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { getReviewsForModerationFn, setReviewStatusFn } from '../../server/customer-review'
+import { REVIEW_LIMITS } from '../../server/customer-review-state'
+import type { CustomerReviewStatus } from '../../server/customer-review-utils'
+import { useCursorPagination } from '../../hooks/useCursorPagination'
+import { StarRating } from '../../components/StarRating'
+import {
+  Loader2,
+  AlertCircle,
+  MessageSquareText,
+  EyeOff,
+  Eye,
+  ChevronLeft,
+  ChevronRight
+} from 'lucide-react'
+
+export const Route = createFileRoute('/admin/customer-reviews')({
+  component: CustomerReviewsPage,
+})
+
+type ModeratedReview = Awaited<ReturnType<typeof getReviewsForModerationFn>>['reviews'][number]
+
+const STATUS_TABS: { value: CustomerReviewStatus; label: string }[] = [
+  { value: 'published', label: 'Published' },
+  { value: 'hidden', label: 'Hidden' },
+]
+
+function CustomerReviewsPage() {
+  // --- State ---
+  const pager = useCursorPagination(20)
+  const [status, setStatus] = useState<CustomerReviewStatus>('published')
+
+  // --- Data Fetching ---
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['admin', 'customer-reviews', status, pager.cursor, pager.direction],
+    queryFn: () => getReviewsForModerationFn({
+      data: { status, cursor: pager.cursor, direction: pager.direction, limit: pager.pageSize }
+    }),
+  })
+
+  const reviews = data?.reviews || []
+
+  // --- Render ---
+
+  if (isError) {
+    return (
+      <div className="p-6">
+        <div className="rounded-lg bg-red-50 p-4 border border-red-200 shadow-sm">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <AlertCircle className="h-5 w-5 text-red-400" aria-hidden="true" />
+            </div>
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error loading reviews</h3>
+              <div className="mt-2 text-sm text-red-700">
+                <p>{(error as Error).message}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 border-b border-gray-200 pb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">Customer Reviews</h1>
+          <p className="mt-2 text-sm text-gray-500 max-w-2xl">
+            Hide reviews that are abusive or off-topic. Hidden reviews no longer count towards the product's rating.
+          </p>
+        </div>
+        <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1 shadow-sm">
+          {STATUS_TABS.map(tab => (
+            <button
+              key={tab.value}
+              onClick={() => {
+                setStatus(tab.value)
+                pager.reset()
+              }}
+              className={`rounded-md px-4 py-1.5 text-sm font-medium transition-colors ${
+                status === tab.value ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Reviews */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : reviews.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-gray-500 rounded-xl border border-gray-200 bg-white shadow-sm">
+          <MessageSquareText className="h-10 w-10 text-gray-300 mb-3" />
+          <p className="text-sm">No {status} reviews</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map(review => (
+            <ReviewCard key={review._id} review={review} />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {(pager.canPreviousPage(data) || pager.canNextPage(data)) && (
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => pager.previousPage(data)}
+            disabled={!pager.canPreviousPage(data)}
+            className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </button>
+          <button
+            onClick={() => pager.nextPage(data)}
+            disabled={!pager.canNextPage(data)}
+            className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ReviewCard({ review }: { review: ModeratedReview }) {
+  const queryClient = useQueryClient()
+
+  // --- State ---
+  const [hiding, setHiding] = useState(false)
+  const [reason, setReason] = useState('')
+
+  // --- Mutations ---
+  const statusMutation = useMutation({
+    mutationFn: async (status: CustomerReviewStatus) => {
+      await setReviewStatusFn({
+        data: { reviewId: review._id, status, reason: reason || undefined }
+      })
+    },
+    onSuccess: () => {
+      setHiding(false)
+      queryClient.invalidateQueries({ queryKey: ['admin', 'customer-reviews'] })
+    }
+  })
+
+  const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2'
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white shadow-sm p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+        <div>
+          <Link
+            to="/product/$productId"
+            params={{ productId: review.productId }}
+            className="text-sm font-medium text-indigo-600 hover:underline"
+          >
+            {review.productName || 'Removed product'}
+          </Link>
+          <div className="mt-1 flex items-center gap-2">
+            <StarRating value={review.rating} />
+            {review.title && <span className="font-semibold text-gray-900">{review.title}</span>}
+          </div>
+        </div>
+        <div className="text-sm text-gray-500 sm:text-right">
+          <p className="font-medium text-gray-900">{review.authorName}</p>
+          <p className="font-mono text-xs">Order {review.orderId.slice(-6).toUpperCase()}</p>
+          <p>{new Date(review.createdAt).toLocaleString()}</p>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-700 whitespace-pre-line">{review.body}</p>
+
+      {review.photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {review.photos.map(url => (
+            <a key={url} href={url} target="_blank" rel="noreferrer">
+              <img src={url} alt="Customer photo" className="h-24 w-24 rounded-md border border-gray-200 object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {review.reply && (
+        <div className="rounded-lg bg-gray-50 p-4 text-sm text-gray-700">
+          <p className="text-xs font-medium text-gray-500 mb-1">Maker's reply</p>
+          <p className="whitespace-pre-line">{review.reply.body}</p>
+        </div>
+      )}
+
+      {review.moderation && (
+        <p className="text-xs text-gray-500">
+          Hidden {new Date(review.moderation.hiddenAt).toLocaleString()}
+          {review.moderation.reason && <>: <span className="italic">{review.moderation.reason}</span></>}
+        </p>
+      )}
+
+      {/* Moderation actions */}
+      <div className="space-y-4 border-t border-gray-100 pt-4">
+        {hiding && (
+          <textarea
+            rows={2}
+            value={reason}
+            maxLength={REVIEW_LIMITS.moderationReason}
+            placeholder="Why is this review being hidden? (staff only, optional)"
+            onChange={e => setReason(e.target.value)}
+            className={inputClass}
+          />
+        )}
+
+        {statusMutation.isError && (
+          <p className="text-sm text-red-600">{(statusMutation.error as Error).message}</p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          {review.status === 'hidden' ? (
+            <button
+              type="button"
+              disabled={statusMutation.isPending}
+              onClick={() => statusMutation.mutate('published')}
+              className="inline-flex items-center rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {statusMutation.isPending
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <Eye className="mr-2 h-4 w-4" />}
+              Publish Again
+            </button>
+          ) : hiding ? (
+            <>
+              <button
+                type="button"
+                onClick={() => setHiding(false)}
+                className="rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={statusMutation.isPending}
+                onClick={() => statusMutation.mutate('hidden')}
+                className="inline-flex items-center rounded-md bg-red-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-red-700 disabled:opacity-50"
+              >
+                {statusMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Hide Review
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setHiding(true)}
+              className="inline-flex items-center rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            >
+              <EyeOff className="mr-2 h-4 w-4" />
+              Hide
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
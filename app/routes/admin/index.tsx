@@ -1,6 +1,7 @@
-import { createFileRoute, Link } from '@tanstack/react-router'
+import { createFileRoute, Link, useLoaderData } from '@tanstack/react-router'
 import { useQuery } from '@tanstack/react-query'
 import { getFinancialStatsFn } from '../../server/admin-stats'
+import { can, ROLE_LABELS } from '../../utils/rbac'
 import { Loader2, DollarSign, TrendingUp, ShoppingBag, CreditCard, User, BarChart3, ClipboardList } from 'lucide-react'
 
 export const Route = createFileRoute('/admin/')({
@@ -8,9 +9,13 @@ export const Route = createFileRoute('/admin/')({
 })
 
 function RouteComponent() {
+  const { user } = useLoaderData({ from: '/admin' })
+  const canViewFinancials = can(user, 'pricing:viewCost')
+
   const { data: stats, isLoading, error } = useQuery({
     queryKey: ['admin', 'stats'],
     queryFn: () => getFinancialStatsFn(),
+    enabled: canViewFinancials,
   })
 
   // Mock recent activity for visual completeness
@@ -21,6 +26,18 @@ function RouteComponent() {
     { id: 4, user: 'Charlie', action: 'reviewed "Wooden Vase"', time: '5 hours ago' },
   ]
 
+  // Staff roles without access to costs get the console without the financial overview
+  if (!canViewFinancials) {
+    return (
+      <div className="p-8 space-y-8 max-w-7xl mx-auto">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Welcome back{user.name ? `, ${user.name}` : ''}</h1>
+          <p className="text-gray-500">You are signed in as a {ROLE_LABELS[user.role].toLowerCase()}. Use the menu to get to your work.</p>
+        </div>
+      </div>
+    )
+  }
+
   if (isLoading) {
     return (
       <div className="flex h-96 items-center justify-center">
@@ -80,7 +97,7 @@ function RouteComponent() {
             gradient="from-violet-500 to-violet-600"
             />
         </Link>
-        <Link to="/admin/inventory" search={{ status: 'pending_review' }} className="block transition-transform hover:scale-[1.02] active:scale-[0.98]">
+        <Link to="/admin/reviews" className="block transition-transform hover:scale-[1.02] active:scale-[0.98]">
             <StatsCard
             title="Pending Reviews"
             value={stats?.pendingReviewCount?.toString() || '0'}
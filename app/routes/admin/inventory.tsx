@@ -1,4 +1,4 @@
-import { createFileRoute } from '@tanstack/react-router'
+import { createFileRoute, useLoaderData } from '@tanstack/react-router'
 import {
   createColumnHelper,
   flexRender,
@@ -7,7 +7,10 @@ import {
 } from '@tanstack/react-table'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useState } from 'react'
-import { getProductsFn, updateProductFn, deleteProductFn } from '../../server/product'
+import { useCursorPagination } from '../../hooks/useCursorPagination'
+import { getProductsFn, deleteProductFn } from '../../server/product'
+import { reconcileInventoryFn } from '../../server/inventory'
+import { can } from '../../utils/rbac'
 import { 
   Loader2, 
   Search, 
@@ -20,17 +23,20 @@ import {
   Trash2,
   Lock,
   Filter,
-  Check,
-  X
+  ClipboardCheck,
+  History,
+  Scale
 } from 'lucide-react'
 import { Link } from '@tanstack/react-router'
 import { ProductEditDialog } from '../../components/admin/ProductEditDialog'
+import { InventoryHistoryDrawer } from '../../components/InventoryHistoryDrawer'
 
 // --- Types ---
 type Product = {
   _id: string
   name: string
   description: string
+  categoryId?: string
   supplierId: string
   pricing: {
     cost?: number
@@ -38,45 +44,61 @@ type Product = {
   }
   inventory: {
     onHand: number
+    reorderThreshold: number
+    stockLevel: 'in_stock' | 'low_stock' | 'out_of_stock'
   }
+  options?: Array<{ name: string; values: string[] }>
+  variants?: Array<{
+    id: string
+    sku: string
+    options: Record<string, string>
+    pricing: { cost?: number; selling: number }
+    inventory: { onHand: number }
+    images: string[]
+  }>
   images: {
     original: string[]
     enhanced: string[]
   }
-  status: 'active' | 'draft' | 'archived' | 'pending_review' | 'rejected'
+  status: 'active' | 'draft' | 'archived' | 'pending_review' | 'rejected' | 'changes_requested'
   createdAt: string
   updatedAt: string
 }
 
 type InventorySearch = {
   status?: Product['status']
+  stock?: Product['inventory']['stockLevel']
 }
 
 export const Route = createFileRoute('/admin/inventory')({
   component: InventoryPage,
   validateSearch: (search: Record<string, unknown>): InventorySearch => {
-    const validStatuses = ['active', 'draft', 'pending_review', 'rejected', 'archived']
+    const validStatuses = ['active', 'draft', 'pending_review', 'changes_requested', 'rejected', 'archived']
+    const validStockLevels = ['in_stock', 'low_stock', 'out_of_stock']
     return {
       status: validStatuses.includes(search.status as string)
         ? (search.status as Product['status'])
         : undefined,
+      stock: validStockLevels.includes(search.stock as string)
+        ? (search.stock as Product['inventory']['stockLevel'])
+        : undefined,
     }
   },
 })
 
 function InventoryPage() {
   const search = Route.useSearch()
+  const { user } = useLoaderData({ from: '/admin' })
   
   // --- State ---
-  const [pagination, setPagination] = useState({
-    pageIndex: 0,
-    pageSize: 10,
-  })
+  const pager = useCursorPagination(10)
   const [globalFilter, setGlobalFilter] = useState('')
-  const [statusFilter, setStatusFilter] = useState<'active' | 'draft' | 'archived' | 'pending_review' | 'rejected' | ''>(search.status || '')
+  const [statusFilter, setStatusFilter] = useState<'active' | 'draft' | 'archived' | 'pending_review' | 'rejected' | 'changes_requested' | ''>(search.status || '')
+  const [stockFilter, setStockFilter] = useState<Product['inventory']['stockLevel'] | ''>(search.stock || '')
   
   // Edit State
   const [editingProduct, setEditingProduct] = useState<Product | null>(null)
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null)
   
   // Debounce search (simplified for this implementation, ideally use a hook)
   const [debouncedSearch, setDebouncedSearch] = useState('')
@@ -87,17 +109,21 @@ function InventoryPage() {
     // Simple debounce logic
     setTimeout(() => {
       setDebouncedSearch(e.target.value)
+      pager.reset()
     }, 500)
   }
 
   // --- Data Fetching ---
   const { data, isLoading, isError, error } = useQuery({
-    queryKey: ['admin', 'products', pagination.pageIndex, pagination.pageSize, statusFilter, debouncedSearch],
+    queryKey: ['admin', 'products', pager.cursor, pager.direction, pager.pageSize, statusFilter, stockFilter, debouncedSearch],
     queryFn: () => getProductsFn({
       data: {
-        page: pagination.pageIndex + 1, // API is 1-indexed
-        limit: pagination.pageSize,
+        pagination: 'cursor',
+        cursor: pager.cursor,
+        direction: pager.direction,
+        limit: pager.pageSize,
         status: statusFilter || undefined,
+        stockLevel: stockFilter || undefined,
         search: debouncedSearch || undefined
       }
     }),
@@ -105,13 +131,8 @@ function InventoryPage() {
 
   // --- Mutations ---
   const queryClient = useQueryClient()
-  const updateStatusMutation = useMutation({
-    mutationFn: async ({ productId, status }: { productId: string, status: 'active' | 'rejected' }) => {
-        await updateProductFn({ data: { productId, status } })
-    },
-    onSuccess: () => {
-        queryClient.invalidateQueries({ queryKey: ['admin', 'products'] })
-    }
+  const reconcileMutation = useMutation({
+    mutationFn: () => reconcileInventoryFn(),
   })
 
   const deleteProductMutation = useMutation({
@@ -174,6 +195,7 @@ function InventoryPage() {
                 draft: 'bg-amber-100 text-amber-700 ring-amber-600/20',
                 archived: 'bg-slate-100 text-slate-700 ring-slate-600/20',
                 pending_review: 'bg-blue-100 text-blue-700 ring-blue-600/20',
+                changes_requested: 'bg-orange-100 text-orange-700 ring-orange-600/20',
                 rejected: 'bg-red-100 text-red-700 ring-red-600/20',
             }
             // @ts-ignore
@@ -188,11 +210,21 @@ function InventoryPage() {
     }),
     columnHelper.accessor('inventory.onHand', {
       header: 'Inventory',
-      cell: info => (
-        <span className={`font-medium ${info.getValue() < 10 ? 'text-amber-600' : 'text-gray-700'}`}>
-            {info.getValue()} units
-        </span>
-      ),
+      cell: info => {
+        const { stockLevel, reorderThreshold } = info.row.original.inventory
+        const style = stockLevel === 'out_of_stock' ? 'text-red-600' : stockLevel === 'low_stock' ? 'text-amber-600' : 'text-gray-700'
+        return (
+          <div className="flex flex-col">
+            <span className={`font-medium ${style}`}>
+                {info.getValue()} units
+            </span>
+            <span className="text-xs text-gray-400">Reorder at {reorderThreshold}</span>
+            {!!info.row.original.variants?.length && (
+              <span className="text-xs text-gray-400">Across {info.row.original.variants.length} variants</span>
+            )}
+          </div>
+        )
+      },
     }),
     columnHelper.accessor('pricing.cost', {
       header: () => (
@@ -235,31 +267,28 @@ function InventoryPage() {
         const product = info.row.original
         return (
             <div className="flex justify-end items-center gap-2">
-                {product.status === 'pending_review' && (
-                    <div className="flex items-center gap-1 mr-2">
-                        <button
-                            onClick={() => updateStatusMutation.mutate({ productId: product._id, status: 'active' })}
-                            className="bg-emerald-50 text-emerald-600 hover:bg-emerald-100 hover:text-emerald-700 p-1.5 rounded-md transition-colors"
-                            title="Approve"
-                            disabled={updateStatusMutation.isPending}
-                        >
-                            {updateStatusMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
-                        </button>
-                        <button
-                            onClick={() => updateStatusMutation.mutate({ productId: product._id, status: 'rejected' })}
-                            className="bg-red-50 text-red-600 hover:bg-red-100 hover:text-red-700 p-1.5 rounded-md transition-colors"
-                            title="Reject"
-                            disabled={updateStatusMutation.isPending}
-                        >
-                            {updateStatusMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
-                        </button>
-                    </div>
+                {product.status === 'pending_review' && can(user, 'product:activate') && (
+                    <Link
+                        to="/admin/reviews"
+                        className="mr-2 inline-flex items-center gap-1 rounded-md bg-blue-50 px-2 py-1.5 text-xs font-medium text-blue-700 hover:bg-blue-100 transition-colors"
+                        title="Review"
+                    >
+                        <ClipboardCheck className="h-4 w-4" />
+                        Review
+                    </Link>
                 )}
                 
                 <div className={`flex space-x-3 transition-opacity duration-200 ${product.status === 'pending_review' ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
                     <button className="text-slate-400 hover:text-indigo-600 transition-colors p-1 hover:bg-indigo-50 rounded" title="View Details">
                         <Eye className="h-4 w-4" />
                     </button>
+                    <button 
+                        onClick={() => setHistoryProduct(product)}
+                        className="text-slate-400 hover:text-indigo-600 transition-colors p-1 hover:bg-indigo-50 rounded" 
+                        title="Stock History"
+                    >
+                        <History className="h-4 w-4" />
+                    </button>
                     <button 
                         onClick={() => setEditingProduct(product)}
                         className="text-slate-400 hover:text-amber-600 transition-colors p-1 hover:bg-amber-50 rounded" 
@@ -267,18 +296,20 @@ function InventoryPage() {
                     >
                         <Edit className="h-4 w-4" />
                     </button>
-                    <button 
-                        onClick={() => {
-                            if (confirm('Are you sure you want to delete this product? This action cannot be undone.')) {
-                                deleteProductMutation.mutate(product._id)
-                            }
-                        }}
-                        className="text-slate-400 hover:text-red-600 transition-colors p-1 hover:bg-red-50 rounded" 
-                        title="Delete"
-                        disabled={deleteProductMutation.isPending}
-                    >
-                        {deleteProductMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
-                    </button>
+                    {can(user, 'product:delete') && (
+                        <button 
+                            onClick={() => {
+                                if (confirm('Are you sure you want to delete this product? This action cannot be undone.')) {
+                                    deleteProductMutation.mutate(product._id)
+                                }
+                            }}
+                            className="text-slate-400 hover:text-red-600 transition-colors p-1 hover:bg-red-50 rounded" 
+                            title="Delete"
+                            disabled={deleteProductMutation.isPending}
+                        >
+                            {deleteProductMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                        </button>
+                    )}
                 </div>
             </div>
         )
@@ -289,15 +320,16 @@ function InventoryPage() {
   const table = useReactTable({
     data: data?.products || [],
     columns,
-    getCoreRowModel: getCoreRowModel(),
-    manualPagination: true,
-    pageCount: data?.totalPages || -1,
     state: {
-      pagination,
+      // Costs are only sent to users who may see them
+      columnVisibility: { pricing_cost: can(user, 'pricing:viewCost') },
     },
-    onPaginationChange: setPagination,
+    getCoreRowModel: getCoreRowModel(),
   })
 
+  // Listings are paged with cursors, so there are no page counts or totals
+  const cursors = data && 'nextCursor' in data ? data : undefined
+
   // --- Render ---
 
   if (isError) {
@@ -331,7 +363,17 @@ function InventoryPage() {
                 Comprehensive overview of all platform products. Monitor stock levels, track costs, and manage supplier inventory from a centralized dashboard.
             </p>
         </div>
-        <div className="flex-shrink-0">
+        <div className="flex-shrink-0 flex items-center gap-3">
+            {can(user, 'inventory:reconcile') && (
+                <button
+                    onClick={() => reconcileMutation.mutate()}
+                    disabled={reconcileMutation.isPending}
+                    className="inline-flex items-center justify-center rounded-lg text-sm font-semibold transition-all h-10 px-5 py-2 bg-white text-gray-700 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                >
+                    {reconcileMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Scale className="mr-2 h-4 w-4" />}
+                    Reconcile Stock
+                </button>
+            )}
             <Link 
                 to="/admin" 
                 className="inline-flex items-center justify-center rounded-lg text-sm font-semibold transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 h-10 px-5 py-2 bg-indigo-600 text-white hover:bg-indigo-700 shadow-md hover:shadow-lg active:scale-[0.98]"
@@ -342,6 +384,36 @@ function InventoryPage() {
         </div>
       </div>
 
+      {/* Reconciliation Result */}
+      {reconcileMutation.isError && (
+        <div className="rounded-lg bg-red-50 p-4 border border-red-200 text-sm text-red-700">
+            {(reconcileMutation.error as Error).message}
+        </div>
+      )}
+      {reconcileMutation.data && (
+        reconcileMutation.data.discrepancies.length === 0 ? (
+            <div className="rounded-lg bg-emerald-50 p-4 border border-emerald-200 text-sm text-emerald-700">
+                Every product's stock matches its inventory ledger.
+            </div>
+        ) : (
+            <div className="rounded-lg bg-amber-50 p-4 border border-amber-200">
+                <h3 className="text-sm font-medium text-amber-800">
+                    {reconcileMutation.data.discrepancies.length} product(s) differ from the inventory ledger
+                </h3>
+                <ul className="mt-2 divide-y divide-amber-100 text-sm">
+                    {reconcileMutation.data.discrepancies.map(entry => (
+                        <li key={entry.productId} className="flex justify-between py-1.5">
+                            <span className="text-amber-900">{entry.productName}</span>
+                            <span className="font-mono text-amber-800">
+                                {entry.onHand} on hand, ledger {entry.ledgerOnHand} ({entry.onHand - entry.ledgerOnHand > 0 ? '+' : ''}{entry.onHand - entry.ledgerOnHand})
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )
+      )}
+
       {/* Controls Container */}
       <div className="bg-white/80 backdrop-blur-sm p-4 rounded-xl border border-gray-200 shadow-sm sticky top-0 z-10 transition-all">
         <div className="flex flex-col sm:flex-row gap-4 justify-between">
@@ -369,7 +441,7 @@ function InventoryPage() {
                         value={statusFilter}
                         onChange={(e) => {
                             setStatusFilter(e.target.value as any)
-                            setPagination(p => ({ ...p, pageIndex: 0 }))
+                            pager.reset()
                         }}
                         className="block w-full rounded-lg border-0 py-2.5 pl-9 pr-8 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6 bg-white cursor-pointer hover:bg-gray-50"
                     >
@@ -377,10 +449,26 @@ function InventoryPage() {
                         <option value="active">Active</option>
                         <option value="draft">Draft</option>
                         <option value="pending_review">Pending Review</option>
+                        <option value="changes_requested">Changes Requested</option>
                         <option value="rejected">Rejected</option>
                         <option value="archived">Archived</option>
                     </select>
                 </div>
+                <div className="relative">
+                    <select
+                        value={stockFilter}
+                        onChange={(e) => {
+                            setStockFilter(e.target.value as any)
+                            pager.reset()
+                        }}
+                        className="block w-full rounded-lg border-0 py-2.5 pl-3 pr-8 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6 bg-white cursor-pointer hover:bg-gray-50"
+                    >
+                        <option value="">All Stock Levels</option>
+                        <option value="in_stock">In Stock</option>
+                        <option value="low_stock">Low Stock</option>
+                        <option value="out_of_stock">Out of Stock</option>
+                    </select>
+                </div>
             </div>
         </div>
       </div>
@@ -436,6 +524,7 @@ function InventoryPage() {
                                 setGlobalFilter('')
                                 setDebouncedSearch('')
                                 setStatusFilter('')
+                                setStockFilter('')
                             }}
                             className="mt-6 text-sm font-medium text-indigo-600 hover:text-indigo-500"
                         >
@@ -464,15 +553,15 @@ function InventoryPage() {
             <div className="flex items-center justify-between border-t border-gray-200 bg-white px-4 py-4 sm:px-6">
                 <div className="flex flex-1 justify-between sm:hidden">
                     <button
-                        onClick={() => table.previousPage()}
-                        disabled={!table.getCanPreviousPage()}
+                        onClick={() => pager.previousPage(cursors)}
+                        disabled={!pager.canPreviousPage(cursors)}
                         className="relative inline-flex items-center rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
                     >
                         Previous
                     </button>
                     <button
-                        onClick={() => table.nextPage()}
-                        disabled={!table.getCanNextPage()}
+                        onClick={() => pager.nextPage(cursors)}
+                        disabled={!pager.canNextPage(cursors)}
                         className="relative ml-3 inline-flex items-center rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
                     >
                         Next
@@ -481,16 +570,15 @@ function InventoryPage() {
                 <div className="hidden sm:flex sm:flex-1 sm:items-center sm:justify-between">
                     <div>
                         <p className="text-sm text-gray-500">
-                            Showing <span className="font-semibold text-gray-900">{Math.min(data.total, (pagination.pageIndex * pagination.pageSize) + 1)}</span> to{' '}
-                            <span className="font-semibold text-gray-900">{Math.min(data.total, (pagination.pageIndex + 1) * pagination.pageSize)}</span> of{' '}
-                            <span className="font-semibold text-gray-900">{data.total}</span> results
+                            Showing <span className="font-semibold text-gray-900">{data.products.length === 0 ? 0 : (pager.pageIndex * pager.pageSize) + 1}</span> to{' '}
+                            <span className="font-semibold text-gray-900">{(pager.pageIndex * pager.pageSize) + data.products.length}</span> results
                         </p>
                     </div>
                     <div>
                         <nav className="isolate inline-flex -space-x-px rounded-md shadow-sm" aria-label="Pagination">
                             <button
-                                onClick={() => table.previousPage()}
-                                disabled={!table.getCanPreviousPage()}
+                                onClick={() => pager.previousPage(cursors)}
+                                disabled={!pager.canPreviousPage(cursors)}
                                 className="relative inline-flex items-center rounded-l-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 transition-colors"
                             >
                                 <span className="sr-only">Previous</span>
@@ -498,11 +586,11 @@ function InventoryPage() {
                             </button>
                             {/* Current Page Indicator */}
                             <span className="relative inline-flex items-center px-4 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 focus:outline-offset-0 bg-white">
-                                Page {pagination.pageIndex + 1} of {table.getPageCount()}
+                                Page {pager.pageIndex + 1}
                             </span>
                             <button
-                                onClick={() => table.nextPage()}
-                                disabled={!table.getCanNextPage()}
+                                onClick={() => pager.nextPage(cursors)}
+                                disabled={!pager.canNextPage(cursors)}
                                 className="relative inline-flex items-center rounded-r-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 transition-colors"
                             >
                                 <span className="sr-only">Next</span>
@@ -519,6 +607,13 @@ function InventoryPage() {
         product={editingProduct} 
         isOpen={!!editingProduct} 
         onClose={() => setEditingProduct(null)} 
+        canEditStockAndPrices={can(user, 'inventory:adjust') && can(user, 'pricing:update')}
+      />
+
+      <InventoryHistoryDrawer
+        product={historyProduct}
+        isOpen={!!historyProduct}
+        onClose={() => setHistoryProduct(null)}
       />
     </div>
   )
@@ -7,7 +7,8 @@ import {
 } from '@tanstack/react-table'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useState } from 'react'
-import { getOrdersFn, updateOrderStatusFn } from '../../server/order'
+import { useCursorPagination } from '../../hooks/useCursorPagination'
+import { getOrdersFn, updateOrderStatusFn, updateShipmentStatusFn } from '../../server/order'
 import { 
   Loader2, 
   AlertCircle, 
@@ -23,16 +24,27 @@ import {
   MoreHorizontal
 } from 'lucide-react'
 import { useRouter } from '@tanstack/react-router'
+import { OrderDrawer } from '../../components/admin/OrderDrawer'
+import { getNextStatuses } from '../../server/order-state'
 
 // --- Types ---
 type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
 
+type Shipment = {
+  supplierId: string
+  status: OrderStatus
+  trackingNumber?: string
+  createdAt: string
+  updatedAt: string
+}
+
 type Order = {
   _id: string
   userId: string
   items: Array<{
     productId: string
     productName: string
+    variantLabel?: string
     quantity: number
     unitPrice: number
     supplierId: string
@@ -49,10 +61,31 @@ type Order = {
     total: number
   }
   status: OrderStatus
+  shipments: Shipment[]
   createdAt: string
   updatedAt: string
 }
 
+const getStatusColor = (status: OrderStatus) => {
+    switch(status) {
+        case 'pending': return 'bg-amber-100 text-amber-700 ring-amber-600/20'
+        case 'processing': return 'bg-blue-100 text-blue-700 ring-blue-600/20'
+        case 'shipped': return 'bg-indigo-100 text-indigo-700 ring-indigo-600/20'
+        case 'delivered': return 'bg-emerald-100 text-emerald-700 ring-emerald-600/20'
+        case 'cancelled': return 'bg-slate-100 text-slate-700 ring-slate-600/20'
+    }
+}
+
+const getStatusIcon = (status: OrderStatus) => {
+    switch(status) {
+        case 'pending': return <Clock className="mr-1.5 h-3.5 w-3.5" />
+        case 'processing': return <PackageCheck className="mr-1.5 h-3.5 w-3.5" />
+        case 'shipped': return <Truck className="mr-1.5 h-3.5 w-3.5" />
+        case 'delivered': return <CheckCircle2 className="mr-1.5 h-3.5 w-3.5" />
+        case 'cancelled': return <XCircle className="mr-1.5 h-3.5 w-3.5" />
+    }
+}
+
 export const Route = createFileRoute('/admin/orders')({
   component: OrdersPage,
 })
@@ -62,19 +95,19 @@ function OrdersPage() {
   const queryClient = useQueryClient()
   
   // --- State ---
-  const [pagination, setPagination] = useState({
-    pageIndex: 0,
-    pageSize: 10,
-  })
+  const pager = useCursorPagination(10)
   const [statusFilter, setStatusFilter] = useState<OrderStatus | ''>('')
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null)
   
   // --- Data Fetching ---
   const { data, isLoading, isError, error } = useQuery({
-    queryKey: ['admin', 'orders', pagination.pageIndex, pagination.pageSize, statusFilter],
+    queryKey: ['admin', 'orders', pager.cursor, pager.direction, pager.pageSize, statusFilter],
     queryFn: () => getOrdersFn({
       data: {
-        page: pagination.pageIndex + 1, // API is 1-indexed
-        limit: pagination.pageSize,
+        pagination: 'cursor',
+        cursor: pager.cursor,
+        direction: pager.direction,
+        limit: pager.pageSize,
         status: statusFilter || undefined
       }
     }),
@@ -91,6 +124,24 @@ function OrdersPage() {
       queryClient.invalidateQueries({ queryKey: ['admin', 'orders'] })
       router.invalidate()
     },
+    onError: (error) => {
+      alert((error as Error).message)
+    },
+  })
+
+  const updateShipmentMutation = useMutation({
+    mutationFn: async ({ orderId, supplierId, status }: { orderId: string, supplierId: string, status: OrderStatus }) => {
+      const result = await updateShipmentStatusFn({ data: { orderId, supplierId, status } })
+      if (!result.success) throw new Error('Failed to update shipment status')
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'orders'] })
+      router.invalidate()
+    },
+    onError: (error) => {
+      alert((error as Error).message)
+    },
   })
 
   // --- Table Configuration ---
@@ -128,7 +179,7 @@ function OrdersPage() {
                 {items.length} {items.length === 1 ? 'item' : 'items'}
             </span>
             <div className="text-xs text-gray-500 line-clamp-1">
-                {items.map(i => i.productName).join(', ')}
+                {items.map(i => i.variantLabel ? `${i.productName} (${i.variantLabel})` : i.productName).join(', ')}
             </div>
           </div>
         )
@@ -149,26 +200,6 @@ function OrdersPage() {
         const currentStatus = info.getValue()
         const isUpdating = updateStatusMutation.isPending && updateStatusMutation.variables?.orderId === orderId
 
-        const getStatusColor = (status: OrderStatus) => {
-            switch(status) {
-                case 'pending': return 'bg-amber-100 text-amber-700 ring-amber-600/20'
-                case 'processing': return 'bg-blue-100 text-blue-700 ring-blue-600/20'
-                case 'shipped': return 'bg-indigo-100 text-indigo-700 ring-indigo-600/20'
-                case 'delivered': return 'bg-emerald-100 text-emerald-700 ring-emerald-600/20'
-                case 'cancelled': return 'bg-slate-100 text-slate-700 ring-slate-600/20'
-            }
-        }
-
-        const getStatusIcon = (status: OrderStatus) => {
-            switch(status) {
-                case 'pending': return <Clock className="mr-1.5 h-3.5 w-3.5" />
-                case 'processing': return <PackageCheck className="mr-1.5 h-3.5 w-3.5" />
-                case 'shipped': return <Truck className="mr-1.5 h-3.5 w-3.5" />
-                case 'delivered': return <CheckCircle2 className="mr-1.5 h-3.5 w-3.5" />
-                case 'cancelled': return <XCircle className="mr-1.5 h-3.5 w-3.5" />
-            }
-        }
-
         return (
           <div className="relative inline-block text-left group/status">
              {isUpdating ? (
@@ -184,29 +215,93 @@ function OrdersPage() {
                     </span>
                     
                     {/* Simplified Status Dropdown on Hover/Focus - Ideally use a real Dropdown component */}
-                    <div className="absolute left-0 z-10 mt-1 w-32 origin-top-left rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none opacity-0 invisible group-hover/status:opacity-100 group-hover/status:visible transition-all duration-100">
-                        <div className="py-1">
-                            {['pending', 'processing', 'shipped', 'delivered', 'cancelled'].map((s) => (
-                                <button
-                                    key={s}
-                                    onClick={() => updateStatusMutation.mutate({ orderId, status: s as OrderStatus })}
-                                    className={`block w-full px-4 py-2 text-left text-xs ${s === currentStatus ? 'bg-gray-100 text-gray-900 font-semibold' : 'text-gray-700 hover:bg-gray-50'}`}
-                                >
-                                    {s.charAt(0).toUpperCase() + s.slice(1)}
-                                </button>
-                            ))}
+                    {/* Only valid next statuses are offered; overrides go through the order drawer */}
+                    {getNextStatuses(currentStatus).length > 0 && (
+                        <div className="absolute left-0 z-10 mt-1 w-32 origin-top-left rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none opacity-0 invisible group-hover/status:opacity-100 group-hover/status:visible transition-all duration-100">
+                            <div className="py-1">
+                                {getNextStatuses(currentStatus).map((s) => (
+                                    <button
+                                        key={s}
+                                        onClick={() => updateStatusMutation.mutate({ orderId, status: s })}
+                                        className="block w-full px-4 py-2 text-left text-xs text-gray-700 hover:bg-gray-50"
+                                    >
+                                        {s.charAt(0).toUpperCase() + s.slice(1)}
+                                    </button>
+                                ))}
+                            </div>
                         </div>
-                    </div>
+                    )}
                 </div>
              )}
           </div>
         )
       }
     }),
+    columnHelper.accessor('shipments', {
+      header: 'Shipments',
+      cell: info => {
+        const orderId = info.row.original._id
+        const shipments = info.getValue()
+
+        return (
+          <div className="flex flex-col gap-1.5">
+            {shipments.map((shipment) => {
+              const isUpdating = updateShipmentMutation.isPending
+                && updateShipmentMutation.variables?.orderId === orderId
+                && updateShipmentMutation.variables?.supplierId === shipment.supplierId
+
+              return (
+                <div key={shipment.supplierId} className="relative inline-block text-left group/shipment">
+                  {isUpdating ? (
+                    <div className="flex items-center space-x-2">
+                        <Loader2 className="h-4 w-4 animate-spin text-indigo-600" />
+                        <span className="text-xs text-gray-500">Updating...</span>
+                    </div>
+                  ) : (
+                    <div className="relative flex items-center gap-2">
+                        <span className="font-mono text-xs text-gray-500" title={shipment.supplierId}>
+                            {shipment.supplierId.slice(-6)}
+                        </span>
+                        <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ring-1 ring-inset ${getStatusColor(shipment.status)} cursor-pointer`}>
+                            {getStatusIcon(shipment.status)}
+                            {shipment.status.charAt(0).toUpperCase() + shipment.status.slice(1)}
+                        </span>
+                        {shipment.trackingNumber && (
+                            <span className="font-mono text-xs text-gray-400">{shipment.trackingNumber}</span>
+                        )}
+
+                        {getNextStatuses(shipment.status).length > 0 && (
+                            <div className="absolute left-0 top-full z-10 mt-1 w-32 origin-top-left rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none opacity-0 invisible group-hover/shipment:opacity-100 group-hover/shipment:visible transition-all duration-100">
+                                <div className="py-1">
+                                    {getNextStatuses(shipment.status).map((s) => (
+                                        <button
+                                            key={s}
+                                            onClick={() => updateShipmentMutation.mutate({ orderId, supplierId: shipment.supplierId, status: s })}
+                                            className="block w-full px-4 py-2 text-left text-xs text-gray-700 hover:bg-gray-50"
+                                        >
+                                            {s.charAt(0).toUpperCase() + s.slice(1)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )
+      }
+    }),
     columnHelper.display({
       id: 'actions',
-      cell: () => (
-        <button className="text-gray-400 hover:text-gray-600 p-1">
+      cell: info => (
+        <button
+            onClick={() => setSelectedOrderId(info.row.original._id)}
+            className="text-gray-400 hover:text-gray-600 p-1"
+            title="View order details"
+        >
             <MoreHorizontal className="h-4 w-4" />
         </button>
       )
@@ -217,14 +312,11 @@ function OrdersPage() {
     data: data?.orders || [],
     columns,
     getCoreRowModel: getCoreRowModel(),
-    manualPagination: true,
-    pageCount: data?.totalPages || -1,
-    state: {
-      pagination,
-    },
-    onPaginationChange: setPagination,
   })
 
+  // Listings are paged with cursors, so there are no page counts or totals
+  const cursors = data && 'nextCursor' in data ? data : undefined
+
   // --- Render ---
 
   if (isError) {
@@ -273,7 +365,7 @@ function OrdersPage() {
                         value={statusFilter}
                         onChange={(e) => {
                             setStatusFilter(e.target.value as any)
-                            setPagination(p => ({ ...p, pageIndex: 0 }))
+                            pager.reset()
                         }}
                         className="block w-full rounded-lg border-0 py-2.5 pl-9 pr-8 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6 bg-white cursor-pointer hover:bg-gray-50"
                     >
@@ -366,15 +458,15 @@ function OrdersPage() {
             <div className="flex items-center justify-between border-t border-gray-200 bg-white px-4 py-4 sm:px-6">
                 <div className="flex flex-1 justify-between sm:hidden">
                     <button
-                        onClick={() => table.previousPage()}
-                        disabled={!table.getCanPreviousPage()}
+                        onClick={() => pager.previousPage(cursors)}
+                        disabled={!pager.canPreviousPage(cursors)}
                         className="relative inline-flex items-center rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
                     >
                         Previous
                     </button>
                     <button
-                        onClick={() => table.nextPage()}
-                        disabled={!table.getCanNextPage()}
+                        onClick={() => pager.nextPage(cursors)}
+                        disabled={!pager.canNextPage(cursors)}
                         className="relative ml-3 inline-flex items-center rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
                     >
                         Next
@@ -383,16 +475,15 @@ function OrdersPage() {
                 <div className="hidden sm:flex sm:flex-1 sm:items-center sm:justify-between">
                     <div>
                         <p className="text-sm text-gray-500">
-                            Showing <span className="font-semibold text-gray-900">{Math.min(data.total, (pagination.pageIndex * pagination.pageSize) + 1)}</span> to{' '}
-                            <span className="font-semibold text-gray-900">{Math.min(data.total, (pagination.pageIndex + 1) * pagination.pageSize)}</span> of{' '}
-                            <span className="font-semibold text-gray-900">{data.total}</span> results
+                            Showing <span className="font-semibold text-gray-900">{data.orders.length === 0 ? 0 : (pager.pageIndex * pager.pageSize) + 1}</span> to{' '}
+                            <span className="font-semibold text-gray-900">{(pager.pageIndex * pager.pageSize) + data.orders.length}</span> results
                         </p>
                     </div>
                     <div>
                         <nav className="isolate inline-flex -space-x-px rounded-md shadow-sm" aria-label="Pagination">
                             <button
-                                onClick={() => table.previousPage()}
-                                disabled={!table.getCanPreviousPage()}
+                                onClick={() => pager.previousPage(cursors)}
+                                disabled={!pager.canPreviousPage(cursors)}
                                 className="relative inline-flex items-center rounded-l-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 transition-colors"
                             >
                                 <span className="sr-only">Previous</span>
@@ -400,11 +491,11 @@ function OrdersPage() {
                             </button>
                             {/* Current Page Indicator */}
                             <span className="relative inline-flex items-center px-4 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 focus:outline-offset-0 bg-white">
-                                Page {pagination.pageIndex + 1} of {table.getPageCount()}
+                                Page {pager.pageIndex + 1}
                             </span>
                             <button
-                                onClick={() => table.nextPage()}
-                                disabled={!table.getCanNextPage()}
+                                onClick={() => pager.nextPage(cursors)}
+                                disabled={!pager.canNextPage(cursors)}
                                 className="relative inline-flex items-center rounded-r-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 transition-colors"
                             >
                                 <span className="sr-only">Next</span>
@@ -416,6 +507,12 @@ function OrdersPage() {
             </div>
         )}
       </div>
+
+      <OrderDrawer
+        order={data?.orders.find(order => order._id === selectedOrderId) ?? null}
+        isOpen={!!selectedOrderId}
+        onClose={() => setSelectedOrderId(null)}
+      />
     </div>
   )
 }
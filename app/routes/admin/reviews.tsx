@@ -0,0 +1,272 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { getReviewQueueFn, reviewProductFn } from '../../server/product'
+import { MAX_REVIEW_NOTE_LENGTH, PRODUCT_REJECTION_REASONS } from '../../server/product-review-state'
+import type { ProductReviewDecision } from '../../server/product-review-utils'
+import type { ProductRejectionReason } from '../../server/product-utils'
+import type { MakerSummary } from '../../server/supplier-utils'
+import {
+  Loader2,
+  AlertCircle,
+  ClipboardCheck,
+  Check,
+  X,
+  MessageSquare
+} from 'lucide-react'
+
+export const Route = createFileRoute('/admin/reviews')({
+  component: ReviewsPage,
+})
+
+type QueuedProduct = Awaited<ReturnType<typeof getReviewQueueFn>>['products'][number]
+
+function ReviewsPage() {
+  // --- Data Fetching ---
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['admin', 'review-queue'],
+    queryFn: () => getReviewQueueFn(),
+  })
+
+  const products = data?.products || []
+
+  // --- Render ---
+
+  if (isError) {
+    return (
+      <div className="p-6">
+        <div className="rounded-lg bg-red-50 p-4 border border-red-200 shadow-sm">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <AlertCircle className="h-5 w-5 text-red-400" aria-hidden="true" />
+            </div>
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error loading the review queue</h3>
+              <div className="mt-2 text-sm text-red-700">
+                <p>{(error as Error).message}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+
+      {/* Header */}
+      <div className="border-b border-gray-200 pb-6">
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">Product Reviews</h1>
+        <p className="mt-2 text-sm text-gray-500 max-w-2xl">
+          Products waiting to go live, longest waiting first. Rejections and change requests are shown to the maker,
+          who can fix the listing and send it back to this queue.
+        </p>
+      </div>
+
+      {/* Queue */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : products.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-gray-500 rounded-xl border border-gray-200 bg-white shadow-sm">
+          <ClipboardCheck className="h-10 w-10 text-gray-300 mb-3" />
+          <p className="text-sm">No products waiting for review</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {products.map(product => (
+            <ReviewCard key={product._id} product={product} maker={data?.makers[product.supplierId]} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ReviewCard({ product, maker }: { product: QueuedProduct; maker?: MakerSummary }) {
+  const queryClient = useQueryClient()
+
+  // --- State ---
+  const [mode, setMode] = useState<'reject' | 'request_changes' | null>(null)
+  const [reasons, setReasons] = useState<ProductRejectionReason[]>([])
+  const [note, setNote] = useState('')
+
+  // --- Mutations ---
+  const reviewMutation = useMutation({
+    mutationFn: async (decision: ProductReviewDecision) => {
+      await reviewProductFn({
+        data: {
+          productId: product._id,
+          decision,
+          reasons: decision === 'approve' ? undefined : reasons,
+          note: note || undefined
+        }
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'review-queue'] })
+      queryClient.invalidateQueries({ queryKey: ['admin', 'products'] })
+    }
+  })
+
+  const toggleReason = (reason: ProductRejectionReason) => {
+    setReasons(current => current.includes(reason)
+      ? current.filter(r => r !== reason)
+      : [...current, reason])
+  }
+
+  const images = product.images.enhanced.length > 0 ? product.images.enhanced : product.images.original
+  const lastReview = product.review
+  const cost = 'cost' in product.pricing ? product.pricing.cost : undefined
+  const canSubmit = mode === 'reject' ? reasons.length > 0 : note.trim().length > 0
+
+  const inputClass = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2'
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white shadow-sm p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{product.name}</h2>
+          <p className="text-sm text-gray-500">
+            {maker?.displayName || 'Unknown maker'} · {formatCurrency(product.pricing.selling)}
+            {cost !== undefined && <> · cost {formatCurrency(cost)}</>}
+          </p>
+        </div>
+        <div className="text-sm text-gray-500 sm:text-right">
+          <p>Submitted {new Date(product.submittedForReviewAt || product.createdAt).toLocaleString()}</p>
+          {lastReview && <p className="text-xs">Resubmitted after review</p>}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-700 whitespace-pre-line">{product.description}</p>
+
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map(url => (
+            <a key={url} href={url} target="_blank" rel="noreferrer">
+              <img src={url} alt={product.name} className="h-24 w-24 rounded-md border border-gray-200 object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {/* Previous feedback, so the reviewer can check it was addressed */}
+      {lastReview && lastReview.decision !== 'approved' && (
+        <div className="rounded-lg bg-amber-50 p-4 border border-amber-200 text-sm text-amber-800">
+          <p className="font-medium">
+            {lastReview.decision === 'rejected' ? 'Previously rejected' : 'Changes previously requested'}
+            {' '}on {new Date(lastReview.reviewedAt).toLocaleDateString()}
+          </p>
+          {lastReview.reasons.length > 0 && (
+            <ul className="mt-1 list-disc pl-5">
+              {lastReview.reasons.map(reason => (
+                <li key={reason}>{PRODUCT_REJECTION_REASONS[reason]}</li>
+              ))}
+            </ul>
+          )}
+          {lastReview.note && <p className="mt-2 italic">{lastReview.note}</p>}
+        </div>
+      )}
+
+      {/* Review actions */}
+      <div className="space-y-4 border-t border-gray-100 pt-4">
+        {mode && (
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-gray-700">
+              {mode === 'reject' ? 'Reasons for rejecting' : 'Reasons (optional)'}
+            </p>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {(Object.keys(PRODUCT_REJECTION_REASONS) as ProductRejectionReason[]).map(reason => (
+                <label key={reason} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={reasons.includes(reason)}
+                    onChange={() => toggleReason(reason)}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {PRODUCT_REJECTION_REASONS[reason]}
+                </label>
+              ))}
+            </div>
+            <textarea
+              rows={3}
+              value={note}
+              maxLength={MAX_REVIEW_NOTE_LENGTH}
+              placeholder={mode === 'reject' ? 'Note for the maker (optional)' : 'What needs to change before this can go live?'}
+              onChange={e => setNote(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {reviewMutation.isError && (
+          <p className="text-sm text-red-600">{(reviewMutation.error as Error).message}</p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          {mode ? (
+            <>
+              <button
+                type="button"
+                onClick={() => setMode(null)}
+                className="rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={!canSubmit || reviewMutation.isPending}
+                onClick={() => reviewMutation.mutate(mode)}
+                className={`inline-flex items-center rounded-md px-4 py-2 text-sm font-medium text-white shadow-sm disabled:opacity-50 ${
+                  mode === 'reject' ? 'bg-red-600 hover:bg-red-700' : 'bg-amber-600 hover:bg-amber-700'
+                }`}
+              >
+                {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {mode === 'reject' ? 'Reject Product' : 'Send to Maker'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={() => setMode('reject')}
+                className="inline-flex items-center rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+              >
+                <X className="mr-2 h-4 w-4" />
+                Reject
+              </button>
+              <button
+                type="button"
+                onClick={() => setMode('request_changes')}
+                className="inline-flex items-center rounded-md bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+              >
+                <MessageSquare className="mr-2 h-4 w-4" />
+                Request Changes
+              </button>
+              <button
+                type="button"
+                disabled={reviewMutation.isPending}
+                onClick={() => reviewMutation.mutate('approve')}
+                className="inline-flex items-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {reviewMutation.isPending
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <Check className="mr-2 h-4 w-4" />}
+                Approve
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount)
+}
@@ -0,0 +1,345 @@
+import { createFileRoute } from '@tanstack/react-router'
+import {
+  createColumnHelper,
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+} from '@tanstack/react-table'
+import { useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useCursorPagination } from '../../hooks/useCursorPagination'
+import { getUsersFn } from '../../server/user'
+import type { UserAccountSerializable } from '../../server/user-utils'
+import type { UserRole } from '../../utils/auth'
+import { ROLE_LABELS } from '../../utils/rbac'
+import { UserDrawer } from '../../components/admin/UserDrawer'
+import {
+  Loader2,
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  Filter,
+  Search,
+  Users,
+  MoreHorizontal
+} from 'lucide-react'
+
+const getRoleColor = (role: UserRole) => {
+  switch (role) {
+    case 'admin': return 'bg-purple-100 text-purple-700 ring-purple-600/20'
+    case 'supplier': return 'bg-indigo-100 text-indigo-700 ring-indigo-600/20'
+    case 'support': return 'bg-amber-100 text-amber-700 ring-amber-600/20'
+    case 'catalogue_reviewer': return 'bg-teal-100 text-teal-700 ring-teal-600/20'
+    case 'user': return 'bg-slate-100 text-slate-700 ring-slate-600/20'
+  }
+}
+
+export const Route = createFileRoute('/admin/users')({
+  component: UsersPage,
+})
+
+function UsersPage() {
+  // --- State ---
+  const pager = useCursorPagination(20)
+  const [searchInput, setSearchInput] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('')
+  const [statusFilter, setStatusFilter] = useState<'active' | 'suspended' | ''>('')
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null)
+
+  // Handle Search Input Change with Debounce
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchInput(e.target.value)
+    setTimeout(() => {
+      setDebouncedSearch(e.target.value)
+      pager.reset()
+    }, 500)
+  }
+
+  // --- Data Fetching ---
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['admin', 'users', pager.cursor, pager.direction, pager.pageSize, roleFilter, statusFilter, debouncedSearch],
+    queryFn: () => getUsersFn({
+      data: {
+        cursor: pager.cursor,
+        direction: pager.direction,
+        limit: pager.pageSize,
+        role: roleFilter || undefined,
+        banned: statusFilter ? statusFilter === 'suspended' : undefined,
+        search: debouncedSearch || undefined
+      }
+    }),
+  })
+
+  // --- Table Configuration ---
+  const columnHelper = createColumnHelper<UserAccountSerializable>()
+
+  const columns = [
+    columnHelper.accessor('name', {
+      header: 'User',
+      cell: info => (
+        <div className="flex flex-col">
+          <span className="text-sm font-medium text-gray-900">{info.getValue() || 'Unnamed'}</span>
+          <span className="text-xs text-gray-500">{info.row.original.email}</span>
+        </div>
+      ),
+    }),
+    columnHelper.accessor('role', {
+      header: 'Role',
+      cell: info => (
+        <span className={`inline-flex items-center rounded-full px-2.5 py-1 text-xs font-medium ring-1 ring-inset ${getRoleColor(info.getValue())}`}>
+          {ROLE_LABELS[info.getValue()]}
+        </span>
+      ),
+    }),
+    columnHelper.accessor('banned', {
+      header: 'Status',
+      cell: info => info.getValue() ? (
+        <span className="inline-flex items-center rounded-full px-2.5 py-1 text-xs font-medium ring-1 ring-inset bg-red-100 text-red-700 ring-red-600/20" title={info.row.original.banReason ?? undefined}>
+          Suspended
+        </span>
+      ) : (
+        <span className="inline-flex items-center rounded-full px-2.5 py-1 text-xs font-medium ring-1 ring-inset bg-emerald-100 text-emerald-700 ring-emerald-600/20">
+          Active
+        </span>
+      ),
+    }),
+    columnHelper.accessor('emailVerified', {
+      header: 'Email',
+      cell: info => (
+        <span className="text-xs text-gray-500">{info.getValue() ? 'Verified' : 'Unverified'}</span>
+      ),
+    }),
+    columnHelper.accessor('createdAt', {
+      header: 'Joined',
+      cell: info => (
+        <span className="text-sm text-gray-900">{new Date(info.getValue()).toLocaleDateString()}</span>
+      ),
+    }),
+    columnHelper.display({
+      id: 'actions',
+      cell: info => (
+        <button
+          onClick={() => setSelectedUserId(info.row.original.id)}
+          className="text-gray-400 hover:text-gray-600 p-1"
+          title="Manage user"
+        >
+          <MoreHorizontal className="h-4 w-4" />
+        </button>
+      )
+    })
+  ]
+
+  const table = useReactTable({
+    data: data?.users || [],
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+  })
+
+  // --- Render ---
+
+  if (isError) {
+    return (
+      <div className="p-6">
+        <div className="rounded-lg bg-red-50 p-4 border border-red-200 shadow-sm">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <AlertCircle className="h-5 w-5 text-red-400" aria-hidden="true" />
+            </div>
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error loading users</h3>
+              <div className="mt-2 text-sm text-red-700">
+                <p>{(error as Error).message}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 border-b border-gray-200 pb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">Users</h1>
+          <p className="mt-2 text-sm text-gray-500 max-w-2xl">
+            Find customer, maker and admin accounts. Change roles, suspend accounts and sign users out of every device.
+          </p>
+        </div>
+      </div>
+
+      {/* Controls Container */}
+      <div className="bg-white/80 backdrop-blur-sm p-4 rounded-xl border border-gray-200 shadow-sm sticky top-0 z-10 transition-all">
+        <div className="flex flex-col sm:flex-row gap-4 justify-between">
+          {/* Search */}
+          <div className="relative flex-1 max-w-md">
+            <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+              <Search className="h-4 w-4 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search by name or email..."
+              value={searchInput}
+              onChange={handleSearchChange}
+              className="block w-full rounded-lg border-0 py-2.5 pl-10 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6 bg-gray-50 focus:bg-white transition-all"
+            />
+          </div>
+
+          {/* Filters */}
+          <div className="flex items-center space-x-3">
+            <div className="relative">
+              <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                <Filter className="h-3.5 w-3.5 text-gray-500" />
+              </div>
+              <select
+                value={roleFilter}
+                onChange={(e) => {
+                  setRoleFilter(e.target.value as UserRole | '')
+                  pager.reset()
+                }}
+                className="block w-full rounded-lg border-0 py-2.5 pl-9 pr-8 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6 bg-white cursor-pointer hover:bg-gray-50"
+              >
+                <option value="">All Roles</option>
+                <option value="user">Customers</option>
+                <option value="supplier">Suppliers</option>
+                <option value="support">Support agents</option>
+                <option value="catalogue_reviewer">Catalogue reviewers</option>
+                <option value="admin">Admins</option>
+              </select>
+            </div>
+            <div className="relative">
+              <select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value as 'active' | 'suspended' | '')
+                  pager.reset()
+                }}
+                className="block w-full rounded-lg border-0 py-2.5 pl-3 pr-8 text-gray-700 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6 bg-white cursor-pointer hover:bg-gray-50"
+              >
+                <option value="">All Statuses</option>
+                <option value="active">Active</option>
+                <option value="suspended">Suspended</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Table Card */}
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-[0_2px_10px_-3px_rgba(6,81,237,0.1)]">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50/80">
+              {table.getHeaderGroups().map(headerGroup => (
+                <tr key={headerGroup.id}>
+                  {headerGroup.headers.map(header => (
+                    <th
+                      key={header.id}
+                      scope="col"
+                      className="px-6 py-4 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                    >
+                      {header.isPlaceholder
+                        ? null
+                        : flexRender(
+                            header.column.columnDef.header,
+                            header.getContext()
+                          )}
+                    </th>
+                  ))}
+                </tr>
+              ))}
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={columns.length} className="px-6 py-24 text-center">
+                    <div className="flex flex-col items-center justify-center">
+                      <Loader2 className="h-10 w-10 animate-spin text-indigo-600 mb-4" />
+                      <h3 className="text-lg font-medium text-gray-900">Loading Users</h3>
+                    </div>
+                  </td>
+                </tr>
+              ) : data?.users.length === 0 ? (
+                <tr>
+                  <td colSpan={columns.length} className="px-6 py-24 text-center">
+                    <div className="flex flex-col items-center justify-center max-w-sm mx-auto">
+                      <div className="h-12 w-12 rounded-full bg-gray-100 flex items-center justify-center mb-4">
+                        <Users className="h-6 w-6 text-gray-400" />
+                      </div>
+                      <h3 className="text-lg font-medium text-gray-900">No users found</h3>
+                      <p className="text-gray-500 mt-1 text-center">
+                        We couldn't find any users matching your criteria.
+                      </p>
+                      <button
+                        onClick={() => {
+                          setSearchInput('')
+                          setDebouncedSearch('')
+                          setRoleFilter('')
+                          setStatusFilter('')
+                          pager.reset()
+                        }}
+                        className="mt-6 text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                      >
+                        Clear filters
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ) : (
+                table.getRowModel().rows.map(row => (
+                  <tr key={row.id} className="group hover:bg-gray-50/80 transition-all duration-150">
+                    {row.getVisibleCells().map(cell => (
+                      <td key={cell.id} className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                      </td>
+                    ))}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {data && (
+          <div className="flex items-center justify-between border-t border-gray-200 bg-white px-4 py-4 sm:px-6">
+            <p className="text-sm text-gray-500">
+              Showing <span className="font-semibold text-gray-900">{data.users.length === 0 ? 0 : (pager.pageIndex * pager.pageSize) + 1}</span> to{' '}
+              <span className="font-semibold text-gray-900">{(pager.pageIndex * pager.pageSize) + data.users.length}</span> results
+            </p>
+            <nav className="isolate inline-flex -space-x-px rounded-md shadow-sm" aria-label="Pagination">
+              <button
+                onClick={() => pager.previousPage(data)}
+                disabled={!pager.canPreviousPage(data)}
+                className="relative inline-flex items-center rounded-l-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 transition-colors"
+              >
+                <span className="sr-only">Previous</span>
+                <ChevronLeft className="h-5 w-5" aria-hidden="true" />
+              </button>
+              <span className="relative inline-flex items-center px-4 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 focus:outline-offset-0 bg-white">
+                Page {pager.pageIndex + 1}
+              </span>
+              <button
+                onClick={() => pager.nextPage(data)}
+                disabled={!pager.canNextPage(data)}
+                className="relative inline-flex items-center rounded-r-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 disabled:opacity-50 transition-colors"
+              >
+                <span className="sr-only">Next</span>
+                <ChevronRight className="h-5 w-5" aria-hidden="true" />
+              </button>
+            </nav>
+          </div>
+        )}
+      </div>
+
+      <UserDrawer
+        userId={selectedUserId}
+        isOpen={!!selectedUserId}
+        onClose={() => setSelectedUserId(null)}
+      />
+    </div>
+  )
+}
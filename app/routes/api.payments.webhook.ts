@@ -0,0 +1,27 @@
+import { createFileRoute } from '@tanstack/react-router'
+import type { PaymentWebhookEvent } from '../server/payments/provider'
+
+// Payment provider webhooks; the body is read raw because the signature covers it byte for byte
+export const Route = createFileRoute('/api/payments/webhook')({
+  server: {
+    handlers: {
+      POST: async ({ request }) => {
+        const { getPaymentProvider } = await import('../server/payments')
+        const { handlePaymentWebhook } = await import('../server/payment-utils')
+
+        let event: PaymentWebhookEvent
+        try {
+          event = getPaymentProvider().verifyWebhook(await request.text(), request.headers.get('x-payment-signature'))
+        } catch (error) {
+          console.error('Rejected payment webhook:', error)
+          return new Response('Invalid webhook', { status: 400 })
+        }
+
+        // Other failures surface as a 500 so the provider retries the delivery
+        await handlePaymentWebhook(event)
+
+        return new Response(null, { status: 204 })
+      },
+    },
+  },
+})
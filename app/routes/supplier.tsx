@@ -1,12 +1,13 @@
 import { createFileRoute, Outlet, redirect, Link, useLocation } from '@tanstack/react-router'
-import { requireSupplierAccess } from '../server/auth'
+import { getCurrentUser } from '../server/auth'
+import { can } from '../utils/rbac'
+import { NotificationBell } from '../components/NotificationBell'
 import './supplier/supplier.css'
 
 export const Route = createFileRoute('/supplier')({
     loader: async ({ location }) => {
-        try {
-            await requireSupplierAccess()
-        } catch (error) {
+        const user = await getCurrentUser()
+        if (!user || user.isAnonymous) {
             throw redirect({
                 to: '/login',
                 search: {
@@ -14,6 +15,11 @@ export const Route = createFileRoute('/supplier')({
                 },
             })
         }
+
+        // Staff are sent to the admin console; customers who have not been approved as makers to apply instead
+        if (!can(user, 'supplier:portal')) {
+            throw redirect({ to: can(user, 'admin:console') ? '/admin' : '/become-a-maker' })
+        }
     },
     component: SupplierLayout,
 })
@@ -33,6 +39,7 @@ function SupplierLayout() {
                     <Link to="/supplier" className="sidebar-brand">
                         Makerskind
                     </Link>
+                    <NotificationBell align="left" className="sidebar-notifications" />
                 </div>
                 
                 <nav className="sidebar-nav">
@@ -51,6 +58,16 @@ function SupplierLayout() {
                         Orders
                     </Link>
 
+                    <Link to="/supplier/reviews" className={`nav-item ${isActive('/supplier/reviews') ? 'active' : ''}`}>
+                        <StarIcon />
+                        Reviews
+                    </Link>
+
+                    <Link to="/supplier/profile" className={`nav-item ${isActive('/supplier/profile') ? 'active' : ''}`}>
+                        <StorefrontIcon />
+                        Storefront
+                    </Link>
+
                     <div className="mt-auto border-t border-gray-100 pt-4">
                         <Link to="/" className="nav-item">
                             <HomeIcon /> 
@@ -81,6 +98,14 @@ function ShoppingBagIcon() {
      return <svg className="nav-icon" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z" /></svg>
 }
 
+function StorefrontIcon() {
+    return <svg className="nav-icon" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9l1.5-5h15L21 9M3 9h18M3 9a3 3 0 006 0 3 3 0 006 0 3 3 0 006 0M5 12v8h14v-8M10 20v-5h4v5" /></svg>
+}
+
+function StarIcon() {
+    return <svg className="nav-icon" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.48 3.5a.56.56 0 011.04 0l2.13 5.11 5.52.44c.5.04.7.66.32.99l-4.2 3.6 1.28 5.38a.56.56 0 01-.84.61L12 16.77l-4.73 2.86a.56.56 0 01-.84-.61l1.28-5.38-4.2-3.6a.56.56 0 01.32-.99l5.52-.44 2.13-5.11z" /></svg>
+}
+
 function HomeIcon() {
     return <svg className="nav-icon" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" /></svg>
 }
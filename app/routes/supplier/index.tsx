@@ -1,15 +1,35 @@
-import { createFileRoute, Link } from '@tanstack/react-router'
+import { createFileRoute, Link, useRouter } from '@tanstack/react-router'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { getSupplierStatsFn } from '../../server/supplier'
+import { getMyNotificationsFn, markNotificationsReadFn } from '../../server/notification'
+import { notificationsQueryKey } from '../../hooks/useNotifications'
 
 export const Route = createFileRoute('/supplier/')({
     loader: async () => {
-        return await getSupplierStatsFn()
+        const [stats, { notifications }] = await Promise.all([
+            getSupplierStatsFn(),
+            getMyNotificationsFn({ data: { unreadOnly: true, types: ['low_stock', 'out_of_stock'] } })
+        ])
+        return { stats, notifications }
     },
     component: SupplierDashboard,
 })
 
 function SupplierDashboard() {
-    const stats = Route.useLoaderData()
+    const { stats, notifications } = Route.useLoaderData()
+    const router = useRouter()
+    const queryClient = useQueryClient()
+
+    // Keep the bell's unread count in step with the alerts dismissed here
+    const dismissMutation = useMutation({
+        mutationFn: (notificationIds: string[]) => markNotificationsReadFn({ data: { notificationIds } }),
+        onSuccess: () => {
+            router.invalidate()
+            queryClient.invalidateQueries({ queryKey: notificationsQueryKey })
+        },
+    })
+
+    const outOfStockCount = stats.lowStock.filter(p => p.inventory.stockLevel === 'out_of_stock').length
 
     return (
         <div className="supplier-dashboard space-y-6">
@@ -50,11 +70,93 @@ function SupplierDashboard() {
                     </div>
                 </div>
 
-                {/* Quick Actions (Future placeholder) */}
-                <div className="stat-card placeholder-card">
-                    <p className="placeholder-text">More stats coming soon...</p>
+                {/* Low Stock Card */}
+                <div className="stat-card">
+                    <div className="card-header">
+                        <div>
+                            <p className="stat-label">Needs Restock</p>
+                            <p className="stat-value">
+                                {stats.lowStock.length}
+                            </p>
+                            {outOfStockCount > 0 && (
+                                <p className="text-sm text-red-600 mt-1">{outOfStockCount} out of stock</p>
+                            )}
+                        </div>
+                        <div className="icon-wrapper indigo">
+                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                            </svg>
+                        </div>
+                    </div>
                 </div>
             </div>
+
+            {notifications.length > 0 && (
+                <div className="card p-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-lg font-semibold text-gray-900">Stock Alerts</h3>
+                        <button
+                            onClick={() => dismissMutation.mutate(notifications.map(notification => notification._id))}
+                            disabled={dismissMutation.isPending}
+                            className="text-sm font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                        >
+                            Dismiss all
+                        </button>
+                    </div>
+                    <ul className="divide-y divide-gray-100">
+                        {notifications.map((notification) => (
+                            <li key={notification._id} className="flex items-start justify-between gap-4 py-3">
+                                <div>
+                                    <p className={`text-sm font-medium ${notification.type === 'out_of_stock' ? 'text-red-700' : 'text-amber-700'}`}>
+                                        {notification.title}
+                                    </p>
+                                    <p className="text-sm text-gray-500">{notification.message}</p>
+                                    <p className="text-xs text-gray-400 mt-0.5">{new Date(notification.createdAt).toLocaleString()}</p>
+                                </div>
+                                <button
+                                    onClick={() => dismissMutation.mutate([notification._id])}
+                                    disabled={dismissMutation.isPending}
+                                    className="text-xs text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                                >
+                                    Dismiss
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {stats.lowStock.length > 0 && (
+                <div className="card p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">Low and Out of Stock</h3>
+                    <table className="min-w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                <th className="pb-2">Product</th>
+                                <th className="pb-2">On Hand</th>
+                                <th className="pb-2">Reorder At</th>
+                                <th className="pb-2">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {stats.lowStock.map((product) => (
+                                <tr key={product._id}>
+                                    <td className="py-2 text-gray-900">{product.name}</td>
+                                    <td className="py-2 text-gray-700">{product.inventory.onHand}</td>
+                                    <td className="py-2 text-gray-500">{product.inventory.reorderThreshold}</td>
+                                    <td className="py-2">
+                                        {product.inventory.stockLevel === 'out_of_stock' ? (
+                                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Out of stock</span>
+                                        ) : (
+                                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">Low stock</span>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
             
             <div className="quick-links-section">
                 <h3 className="section-title">Quick Links</h3>
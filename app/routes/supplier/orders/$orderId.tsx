@@ -1,9 +1,13 @@
+import { useState } from 'react'
 import { createFileRoute, Link, useRouter } from '@tanstack/react-router'
 import { getSupplierOrderByIdFn, updateSupplierOrderStatusFn } from '../../../server/order'
 import { z } from 'zod'
 import { ChevronLeft, Package, Truck, CheckCircle, XCircle, Clock } from 'lucide-react'
 import { useMutation } from '@tanstack/react-query'
 import type { OrderStatus } from '../../../server/order-utils'
+import { OrderTimeline } from '../../../components/OrderTimeline'
+import { ReturnManager } from '../../../components/ReturnManager'
+import { getOrderReturnsFn } from '../../../server/return'
 
 const orderIdSchema = z.object({
     orderId: z.string(),
@@ -11,20 +15,35 @@ const orderIdSchema = z.object({
 
 export const Route = createFileRoute('/supplier/orders/$orderId')({
     loader: async ({ params }) => {
-        return await getSupplierOrderByIdFn({ data: { orderId: params.orderId } })
+        const [{ order }, { returns }] = await Promise.all([
+            getSupplierOrderByIdFn({ data: { orderId: params.orderId } }),
+            getOrderReturnsFn({ data: { orderId: params.orderId } })
+        ])
+        return { order, returns }
     },
     component: SupplierOrderDetailsPage,
 })
 
 function SupplierOrderDetailsPage() {
-    const { order } = Route.useLoaderData()
+    const { order, returns } = Route.useLoaderData()
     const router = useRouter()
+    const [trackingNumber, setTrackingNumber] = useState('')
+    const [note, setNote] = useState('')
 
     const updateStatusMutation = useMutation({
         mutationFn: async (status: OrderStatus) => {
-            return await updateSupplierOrderStatusFn({ data: { orderId: order._id, status } })
+            return await updateSupplierOrderStatusFn({
+                data: {
+                    orderId: order._id,
+                    status,
+                    trackingNumber: status === 'shipped' ? trackingNumber : undefined,
+                    note
+                }
+            })
         },
         onSuccess: () => {
+            setTrackingNumber('')
+            setNote('')
             router.invalidate()
         },
         onError: (error) => {
@@ -50,6 +69,13 @@ function SupplierOrderDetailsPage() {
             case 'processing':
                 return (
                     <div className="flex gap-2">
+                        <input
+                            type="text"
+                            className="border border-gray-200 rounded-md px-3 py-2 text-sm"
+                            placeholder="Tracking number (optional)"
+                            value={trackingNumber}
+                            onChange={(e) => setTrackingNumber(e.target.value)}
+                        />
                         <button 
                             className="btn btn-primary bg-indigo-600 hover:bg-indigo-700 hover:text-white"
                             onClick={() => updateStatusMutation.mutate('shipped')}
@@ -113,7 +139,8 @@ function SupplierOrderDetailsPage() {
                                         <tr key={index}>
                                             <td className="py-4">
                                                 <span className="font-medium text-gray-900">{item.productName}</span>
-                                                <div className="text-xs text-gray-400 font-mono mt-1">{item.productId}</div>
+                                                {item.variantLabel && <div className="text-sm text-gray-500">{item.variantLabel}</div>}
+                                                <div className="text-xs text-gray-400 font-mono mt-1">{item.sku || item.productId}</div>
                                             </td>
                                             <td className="py-4 text-right font-mono text-gray-600">
                                                 ${(item.costPrice || 0).toFixed(2)}
@@ -146,9 +173,35 @@ function SupplierOrderDetailsPage() {
                             <div>
                                 <p className="text-sm font-medium text-gray-900">Current Status</p>
                                 <p className="text-sm text-gray-500 capitalize">{order.status}</p>
+                                {order.shipment?.trackingNumber && (
+                                    <p className="text-sm text-gray-500 mt-1">
+                                        Tracking: <span className="font-mono text-gray-900">{order.shipment.trackingNumber}</span>
+                                    </p>
+                                )}
                             </div>
                             {getStatusActions()}
                         </div>
+                        {getStatusActions() && (
+                            <textarea
+                                className="mt-3 w-full border border-gray-200 rounded-md px-3 py-2 text-sm"
+                                rows={2}
+                                placeholder="Add a note to this update (optional)"
+                                value={note}
+                                onChange={(e) => setNote(e.target.value)}
+                            />
+                        )}
+                    </div>
+
+                    {/* Returns */}
+                    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">Returns</h2>
+                        <ReturnManager returns={returns} onUpdated={() => router.invalidate()} />
+                    </div>
+
+                    {/* Status History */}
+                    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">Status History</h2>
+                        <OrderTimeline entries={order.statusHistory} />
                     </div>
                 </div>
 
@@ -2,18 +2,21 @@ import { createFileRoute, Link } from '@tanstack/react-router'
 import { getSupplierOrdersFn } from '../../../server/order'
 import { z } from 'zod'
 
-// Define search parameters for pagination
+// Define search parameters for pagination; orders are paged with cursors, newest first
 const searchSchema = z.object({
-    page: z.number().optional().default(1),
+    cursor: z.string().optional(),
+    direction: z.enum(['next', 'prev']).optional(),
 })
 
 export const Route = createFileRoute('/supplier/orders/')({
     validateSearch: searchSchema,
-    loaderDeps: ({ search }) => ({ page: search.page }),
+    loaderDeps: ({ search }) => ({ cursor: search.cursor, direction: search.direction }),
     loader: async ({ deps }) => {
         return await getSupplierOrdersFn({
             data: {
-                page: deps.page,
+                pagination: 'cursor',
+                cursor: deps.cursor,
+                direction: deps.direction,
                 limit: 20
             }
         })
@@ -22,7 +25,9 @@ export const Route = createFileRoute('/supplier/orders/')({
 })
 
 function SupplierOrdersPage() {
-    const { orders, page, totalPages, total } = Route.useLoaderData()
+    const data = Route.useLoaderData()
+    const { orders } = data
+    const { nextCursor, prevCursor } = 'nextCursor' in data ? data : { nextCursor: null, prevCursor: null }
     
     return (
         <div className="space-y-6">
@@ -79,24 +84,21 @@ function SupplierOrdersPage() {
             </div>
             
             {/* Simple Pagination */}
-            {totalPages > 1 && (
+            {(prevCursor || nextCursor) && (
                 <div className="flex justify-center gap-2 mt-4">
                     <Link
-                        disabled={page <= 1}
+                        disabled={!prevCursor}
                         to="/supplier/orders"
-                        search={{ page: page - 1 }}
-                        className={`btn btn-secondary ${page <= 1 ? 'opacity-50 pointer-events-none' : ''}`}
+                        search={{ cursor: prevCursor ?? undefined, direction: 'prev' }}
+                        className={`btn btn-secondary ${!prevCursor ? 'opacity-50 pointer-events-none' : ''}`}
                     >
                         Previous
                     </Link>
-                     <span className="flex items-center px-4 text-sm text-gray-600">
-                        Page {page} of {totalPages}
-                    </span>
                     <Link
-                        disabled={page >= totalPages}
+                        disabled={!nextCursor}
                         to="/supplier/orders"
-                        search={{ page: page + 1 }}
-                         className={`btn btn-secondary ${page >= totalPages ? 'opacity-50 pointer-events-none' : ''}`}
+                        search={{ cursor: nextCursor ?? undefined }}
+                         className={`btn btn-secondary ${!nextCursor ? 'opacity-50 pointer-events-none' : ''}`}
                     >
                         Next
                     </Link>
@@ -1,7 +1,7 @@
 import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
-import { getMyProductsFn } from '../../../server/product'
+import { getMyProductsFn, resubmitProductFn, updateProductFn } from '../../../server/product'
 import { updateProductStockFn } from '../../../server/supplier'
-import { Plus, Package, Edit, Loader2 } from 'lucide-react'
+import { Plus, Package, Edit, Loader2, History, Send } from 'lucide-react'
 import { z } from 'zod'
 import {
     useReactTable,
@@ -11,7 +11,9 @@ import {
 } from '@tanstack/react-table'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { useState, useEffect } from 'react'
-import type { ProductPublicSerializable } from '../../../server/product-utils'
+import type { ProductSerializable } from '../../../server/product-utils'
+import { PRODUCT_REJECTION_REASONS, RESUBMITTABLE_STATUSES } from '../../../server/product-review-state'
+import { InventoryHistoryDrawer } from '../../../components/InventoryHistoryDrawer'
 
 const productSearchSchema = z.object({
   page: z.number().optional(),
@@ -32,11 +34,12 @@ function ProductsIndex() {
     const { products, total, page, totalPages } = Route.useLoaderData()
     const navigate = useNavigate({ from: Route.fullPath })
     const queryClient = useQueryClient()
+    const [historyProduct, setHistoryProduct] = useState<ProductSerializable | null>(null)
 
     // Mutation for updating stock
     const updateStockMutation = useMutation({
-        mutationFn: async ({ productId, quantity }: { productId: string; quantity: number }) => {
-            await updateProductStockFn({ data: { productId, quantity } })
+        mutationFn: async ({ productId, quantity, variantId }: { productId: string; quantity: number; variantId?: string }) => {
+            await updateProductStockFn({ data: { productId, quantity, variantId } })
         },
         onMutate: async () => {
             // Cancel any outgoing refetches
@@ -53,14 +56,35 @@ function ProductsIndex() {
                 queryClient.setQueryData(['products'], context.previousProducts)
             }
         },
-        onSuccess: () => {
+        onSuccess: (_data, { productId }) => {
+            queryClient.invalidateQueries({ queryKey: ['inventory', 'movements', productId] })
             // Invalidate and refetch
             // Using navigate to refresh loader data which manages the state here
              navigate({ search: { page }, replace: true })
         },
     })
 
-    const columnHelper = createColumnHelper<ProductPublicSerializable>()
+    // Mutation for updating the low-stock alert threshold
+    const updateThresholdMutation = useMutation({
+        mutationFn: async ({ productId, reorderThreshold }: { productId: string; reorderThreshold: number }) => {
+            await updateProductFn({ data: { productId, reorderThreshold } })
+        },
+        onSuccess: () => {
+            navigate({ search: { page }, replace: true })
+        },
+    })
+
+    // Mutation for sending a product (back) to the review queue
+    const resubmitMutation = useMutation({
+        mutationFn: async (productId: string) => {
+            await resubmitProductFn({ data: { productId } })
+        },
+        onSuccess: () => {
+            navigate({ search: { page }, replace: true })
+        },
+    })
+
+    const columnHelper = createColumnHelper<ProductSerializable>()
 
     const columns = [
         columnHelper.accessor('name', {
@@ -102,23 +126,77 @@ function ProductsIndex() {
                     archived: 'bg-slate-100 text-slate-800',
                     pending_review: 'bg-blue-100 text-blue-800',
                     rejected: 'bg-red-100 text-red-800',
+                    changes_requested: 'bg-orange-100 text-orange-800',
                 }
                 const style = styles[status] || styles.draft
+                const review = info.row.original.review
                 
                 return (
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${style}`}>
-                        {status.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}
-                    </span>
+                    <div>
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${style}`}>
+                            {status.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}
+                        </span>
+                        {/* Reviewer feedback, until the product is resubmitted */}
+                        {(status === 'rejected' || status === 'changes_requested') && review && (
+                            <div className="mt-2 max-w-xs whitespace-normal text-xs text-gray-600">
+                                {review.reasons.length > 0 && (
+                                    <ul className="list-disc pl-4">
+                                        {review.reasons.map(reason => (
+                                            <li key={reason}>{PRODUCT_REJECTION_REASONS[reason]}</li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {review.note && <p className="mt-1 italic">{review.note}</p>}
+                            </div>
+                        )}
+                    </div>
                 )
             },
         }),
         columnHelper.accessor('inventory.onHand', {
             header: 'Inventory',
+            cell: (info) => {
+                const product = info.row.original
+                const isUpdating = (variantId?: string) => updateStockMutation.isPending
+                    && updateStockMutation.variables?.productId === product._id
+                    && updateStockMutation.variables?.variantId === variantId
+                
+                // Products with variants keep stock per variant
+                if (product.variants?.length) {
+                    return (
+                        <div className="space-y-1">
+                            {product.variants.map((variant) => (
+                                <div key={variant.id} className="flex items-center gap-2">
+                                    <span className="text-xs text-gray-400 w-24 truncate" title={variant.sku}>
+                                        {Object.values(variant.options).join(' / ')}
+                                    </span>
+                                    <InventoryCell 
+                                        initialStock={variant.inventory.onHand} 
+                                        onUpdate={(quantity) => updateStockMutation.mutate({ productId: product._id, quantity, variantId: variant.id })}
+                                        isPending={isUpdating(variant.id)}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )
+                }
+                
+                return (
+                    <InventoryCell 
+                        initialStock={info.getValue()} 
+                        onUpdate={(quantity) => updateStockMutation.mutate({ productId: product._id, quantity })}
+                        isPending={isUpdating()}
+                    />
+                )
+            },
+        }),
+        columnHelper.accessor('inventory.reorderThreshold', {
+            header: 'Reorder At',
             cell: (info) => (
                 <InventoryCell 
                     initialStock={info.getValue()} 
-                    onUpdate={(quantity) => updateStockMutation.mutate({ productId: info.row.original._id, quantity })}
-                    isPending={updateStockMutation.isPending && updateStockMutation.variables?.productId === info.row.original._id}
+                    onUpdate={(reorderThreshold) => updateThresholdMutation.mutate({ productId: info.row.original._id, reorderThreshold })}
+                    isPending={updateThresholdMutation.isPending && updateThresholdMutation.variables?.productId === info.row.original._id}
                 />
             ),
         }),
@@ -132,8 +210,27 @@ function ProductsIndex() {
         }),
         columnHelper.display({
             id: 'actions',
-            cell: () => (
+            cell: (info) => (
                 <div className="text-right">
+                    {(RESUBMITTABLE_STATUSES as readonly string[]).includes(info.row.original.status) && (
+                        <button
+                            onClick={() => resubmitMutation.mutate(info.row.original._id)}
+                            disabled={resubmitMutation.isPending}
+                            className="text-indigo-600 hover:text-indigo-900 transition-colors p-1"
+                            title="Submit for review"
+                        >
+                            {resubmitMutation.isPending && resubmitMutation.variables === info.row.original._id
+                                ? <Loader2 size={18} className="animate-spin" />
+                                : <Send size={18} />}
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setHistoryProduct(info.row.original)}
+                        className="text-indigo-600 hover:text-indigo-900 transition-colors p-1"
+                        title="Stock history"
+                    >
+                        <History size={18} />
+                    </button>
                      <button className="text-indigo-600 hover:text-indigo-900 transition-colors p-1" title="Edit">
                         <Edit size={18} />
                     </button>
@@ -143,7 +240,7 @@ function ProductsIndex() {
     ]
 
     const table = useReactTable({
-        data: products as ProductPublicSerializable[],
+        data: products as ProductSerializable[],
         columns,
         getCoreRowModel: getCoreRowModel(),
         manualPagination: true,
@@ -160,6 +257,7 @@ function ProductsIndex() {
                 <div>
                     <h2 className="text-2xl font-bold text-gray-900">My Products</h2>
                     <p className="text-sm text-gray-500 mt-1">Manage your inventory ({total} items)</p>
+                    <p className="text-xs text-gray-400 mt-1">Changing the name, description or photos of a live product sends it back for review.</p>
                 </div>
                 <Link to="/supplier/products/new" className="btn btn-primary flex items-center gap-2">
                     <Plus size={18} />
@@ -167,6 +265,12 @@ function ProductsIndex() {
                 </Link>
             </div>
 
+            {resubmitMutation.isError && (
+                <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700 border border-red-200">
+                    {(resubmitMutation.error as Error).message}
+                </div>
+            )}
+
             {products.length === 0 ? (
                 <div className="bg-white p-12 rounded-lg shadow-sm text-center border border-gray-200">
                     <div className="mx-auto w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
@@ -243,6 +347,12 @@ function ProductsIndex() {
                     )}
                 </div>
             )}
+
+            <InventoryHistoryDrawer
+                product={historyProduct}
+                isOpen={!!historyProduct}
+                onClose={() => setHistoryProduct(null)}
+            />
         </div>
     )
 }
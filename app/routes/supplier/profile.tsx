@@ -0,0 +1,189 @@
+import { createFileRoute, Link, useRouter } from '@tanstack/react-router'
+import { useState } from 'react'
+import { getMySupplierProfileFn, updateMySupplierProfileFn, uploadSupplierImageFn } from '../../server/supplier'
+import { MakerAvatar } from '../../components/MakerCard'
+
+export const Route = createFileRoute('/supplier/profile')({
+    loader: async () => await getMySupplierProfileFn(),
+    component: SupplierProfilePage,
+})
+
+const inputClass = 'block w-full rounded-lg border-0 py-2 px-3 text-gray-900 ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm'
+
+/**
+ * Read a file as base64 for upload
+ */
+function readAsBase64(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve((reader.result as string).split(',')[1])
+        reader.onerror = reject
+        reader.readAsDataURL(file)
+    })
+}
+
+function SupplierProfilePage() {
+    const { profile } = Route.useLoaderData()
+    const router = useRouter()
+
+    const [form, setForm] = useState({
+        displayName: profile.displayName,
+        location: profile.location,
+        bio: profile.bio,
+        story: profile.story,
+        logoUrl: profile.logoUrl,
+        bannerUrl: profile.bannerUrl,
+    })
+    const [uploading, setUploading] = useState<'logo' | 'banner' | null>(null)
+    const [saving, setSaving] = useState(false)
+    const [saved, setSaved] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const update = (changes: Partial<typeof form>) => {
+        setForm((current) => ({ ...current, ...changes }))
+        setSaved(false)
+    }
+
+    const handleImage = async (kind: 'logo' | 'banner', e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        if (!file) return
+        setUploading(kind)
+        setError(null)
+        try {
+            const content = await readAsBase64(file)
+            const result = await uploadSupplierImageFn({
+                data: { kind, filename: file.name, contentType: file.type, content }
+            })
+            update(kind === 'logo' ? { logoUrl: result.url } : { bannerUrl: result.url })
+        } catch (err) {
+            console.error('Failed to upload image:', err)
+            setError(err instanceof Error ? err.message : 'Failed to upload image')
+        } finally {
+            setUploading(null)
+            e.target.value = ''
+        }
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSaving(true)
+        setError(null)
+        try {
+            await updateMySupplierProfileFn({ data: form })
+            setSaved(true)
+            router.invalidate()
+        } catch (err) {
+            console.error('Failed to save profile:', err)
+            setError(err instanceof Error ? err.message : 'Failed to save profile')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            <header className="supplier-header flex justify-between items-end">
+                <div>
+                    <h1 className="supplier-title">Storefront</h1>
+                    <p className="supplier-subtitle">How customers see you and your shop</p>
+                </div>
+                <Link
+                    to="/makers/$supplierId"
+                    params={{ supplierId: profile.supplierId }}
+                    className="btn btn-secondary"
+                >
+                    View storefront
+                </Link>
+            </header>
+
+            <form onSubmit={handleSubmit} className="card space-y-6">
+                {/* Banner & Logo */}
+                <div>
+                    <div
+                        className="h-40 rounded-lg bg-gray-100 bg-cover bg-center"
+                        style={form.bannerUrl ? { backgroundImage: `url(${form.bannerUrl})` } : undefined}
+                    />
+                    <div className="mt-4 flex flex-wrap items-center gap-4">
+                        <MakerAvatar maker={{ displayName: form.displayName || '?', logoUrl: form.logoUrl }} size={64} />
+                        <label className="btn btn-secondary cursor-pointer">
+                            {uploading === 'logo' ? 'Uploading…' : 'Upload logo'}
+                            <input type="file" accept="image/*" className="hidden" disabled={!!uploading} onChange={(e) => handleImage('logo', e)} />
+                        </label>
+                        <label className="btn btn-secondary cursor-pointer">
+                            {uploading === 'banner' ? 'Uploading…' : 'Upload banner'}
+                            <input type="file" accept="image/*" className="hidden" disabled={!!uploading} onChange={(e) => handleImage('banner', e)} />
+                        </label>
+                        {(form.logoUrl || form.bannerUrl) && (
+                            <button
+                                type="button"
+                                className="text-sm text-gray-500 hover:text-gray-900"
+                                onClick={() => update({ logoUrl: null, bannerUrl: null })}
+                            >
+                                Remove images
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                    <label className="block">
+                        <span className="text-sm font-medium text-gray-700">Display name</span>
+                        <input
+                            className={`${inputClass} mt-1`}
+                            value={form.displayName}
+                            maxLength={80}
+                            required
+                            onChange={(e) => update({ displayName: e.target.value })}
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="text-sm font-medium text-gray-700">Location</span>
+                        <input
+                            className={`${inputClass} mt-1`}
+                            value={form.location}
+                            maxLength={80}
+                            placeholder="e.g. Asheville, North Carolina"
+                            onChange={(e) => update({ location: e.target.value })}
+                        />
+                    </label>
+                </div>
+
+                <label className="block">
+                    <span className="text-sm font-medium text-gray-700">Bio</span>
+                    <textarea
+                        className={`${inputClass} mt-1`}
+                        rows={2}
+                        value={form.bio}
+                        maxLength={280}
+                        placeholder="A sentence or two about you and what you make"
+                        onChange={(e) => update({ bio: e.target.value })}
+                    />
+                    <span className="mt-1 block text-xs text-gray-400">{form.bio.length}/280</span>
+                </label>
+
+                <label className="block">
+                    <span className="text-sm font-medium text-gray-700">Your story</span>
+                    <textarea
+                        className={`${inputClass} mt-1`}
+                        rows={8}
+                        value={form.story}
+                        maxLength={5000}
+                        placeholder="How you started, your materials and techniques, what makes your work yours"
+                        onChange={(e) => update({ story: e.target.value })}
+                    />
+                </label>
+
+                {error && (
+                    <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                )}
+
+                <div className="flex items-center gap-3">
+                    <button type="submit" className="btn btn-primary" disabled={saving || !!uploading}>
+                        {saving ? 'Saving…' : 'Save storefront'}
+                    </button>
+                    {saved && <span className="text-sm text-green-700">Saved</span>}
+                </div>
+            </form>
+        </div>
+    )
+}
@@ -0,0 +1,173 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Loader2, MessageSquare } from 'lucide-react'
+import { getSupplierReviewsFn, replyToReviewFn } from '../../server/customer-review'
+import { REVIEW_LIMITS } from '../../server/customer-review-state'
+import { useCursorPagination } from '../../hooks/useCursorPagination'
+import { StarRating } from '../../components/StarRating'
+
+export const Route = createFileRoute('/supplier/reviews')({
+    component: SupplierReviewsPage,
+})
+
+type SupplierReview = Awaited<ReturnType<typeof getSupplierReviewsFn>>['reviews'][number]
+
+function SupplierReviewsPage() {
+    const pager = useCursorPagination(20)
+
+    const { data, isLoading, isError, error } = useQuery({
+        queryKey: ['supplier', 'reviews', pager.cursor, pager.direction],
+        queryFn: () => getSupplierReviewsFn({
+            data: { cursor: pager.cursor, direction: pager.direction, limit: pager.pageSize }
+        }),
+    })
+
+    const reviews = data?.reviews || []
+
+    return (
+        <div className="space-y-6">
+            <header className="supplier-header">
+                <h1 className="supplier-title">Reviews</h1>
+                <p className="supplier-subtitle">What customers say about your products. Replies are shown under the review.</p>
+            </header>
+
+            {isError ? (
+                <div className="rounded-md bg-red-50 p-4 text-sm text-red-700 border border-red-200">
+                    {(error as Error).message}
+                </div>
+            ) : isLoading ? (
+                <div className="flex justify-center py-12 text-gray-500">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                </div>
+            ) : reviews.length === 0 ? (
+                <div className="bg-white p-12 rounded-lg shadow-sm text-center border border-gray-200 text-gray-500">
+                    No reviews yet. Customers can review a product once their order has been delivered.
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {reviews.map(review => (
+                        <ReviewCard key={review._id} review={review} />
+                    ))}
+                </div>
+            )}
+
+            {(pager.canPreviousPage(data) || pager.canNextPage(data)) && (
+                <div className="flex justify-center gap-2">
+                    <button
+                        onClick={() => pager.previousPage(data)}
+                        disabled={!pager.canPreviousPage(data)}
+                        className="btn btn-secondary disabled:opacity-50"
+                    >
+                        Previous
+                    </button>
+                    <button
+                        onClick={() => pager.nextPage(data)}
+                        disabled={!pager.canNextPage(data)}
+                        className="btn btn-secondary disabled:opacity-50"
+                    >
+                        Next
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
+
+function ReviewCard({ review }: { review: SupplierReview }) {
+    const queryClient = useQueryClient()
+    const [replying, setReplying] = useState(false)
+    const [reply, setReply] = useState(review.reply?.body ?? '')
+
+    const replyMutation = useMutation({
+        mutationFn: async () => {
+            await replyToReviewFn({ data: { reviewId: review._id, body: reply } })
+        },
+        onSuccess: () => {
+            setReplying(false)
+            queryClient.invalidateQueries({ queryKey: ['supplier', 'reviews'] })
+        },
+    })
+
+    return (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5 space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                <div>
+                    <Link
+                        to="/product/$productId"
+                        params={{ productId: review.productId }}
+                        className="text-sm font-medium text-indigo-600 hover:text-indigo-900"
+                    >
+                        {review.productName || 'Removed product'}
+                    </Link>
+                    <div className="mt-1 flex items-center gap-2">
+                        <StarRating value={review.rating} />
+                        {review.title && <span className="text-sm font-semibold text-gray-900">{review.title}</span>}
+                    </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                    {review.authorName} · {new Date(review.createdAt).toLocaleDateString()}
+                </p>
+            </div>
+
+            <p className="text-sm text-gray-700 whitespace-pre-line">{review.body}</p>
+
+            {review.photos.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {review.photos.map(url => (
+                        <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt="Customer photo" className="h-16 w-16 rounded-md border border-gray-200 object-cover" />
+                        </a>
+                    ))}
+                </div>
+            )}
+
+            {replying ? (
+                <div className="space-y-2 border-t border-gray-100 pt-3">
+                    <textarea
+                        rows={3}
+                        value={reply}
+                        maxLength={REVIEW_LIMITS.reply}
+                        placeholder="Thank the customer or answer their question"
+                        onChange={e => setReply(e.target.value)}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border p-2"
+                    />
+                    {replyMutation.isError && (
+                        <p className="text-sm text-red-600">{(replyMutation.error as Error).message}</p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setReplying(false)} className="btn btn-secondary">
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            disabled={!reply.trim() || replyMutation.isPending}
+                            onClick={() => replyMutation.mutate()}
+                            className="btn btn-primary flex items-center gap-2"
+                        >
+                            {replyMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                            Post Reply
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="border-t border-gray-100 pt-3">
+                    {review.reply && (
+                        <div className="mb-2 rounded-md bg-gray-50 p-3 text-sm text-gray-700">
+                            <span className="block text-xs font-medium text-gray-500 mb-1">Your reply</span>
+                            <p className="whitespace-pre-line">{review.reply.body}</p>
+                        </div>
+                    )}
+                    <button
+                        type="button"
+                        onClick={() => setReplying(true)}
+                        className="inline-flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-900"
+                    >
+                        <MessageSquare size={16} />
+                        {review.reply ? 'Edit Reply' : 'Reply'}
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
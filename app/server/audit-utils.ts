@@ -0,0 +1,214 @@
+import clientPromise from './db/mongo'
+import { getRequest } from '@tanstack/react-start/server'
+import type { ObjectId, Collection, Db, WithId } from 'mongodb'
+import type { UserRole } from '../utils/auth'
+import type { Product } from './product-utils'
+import { keysetFilter, NEWEST_FIRST, readOrder, toCursorPage, type CursorOptions, type CursorPageInfo } from './cursor'
+
+// --- Audit Log Types ---
+
+export type AuditAction =
+    | 'product.status_changed'      // Includes activation and rejection after review
+    | 'product.price_changed'
+    | 'product.stock_changed'
+    | 'product.deleted'
+    | 'order.status_changed'
+    | 'order.status_overridden'     // Forced outside the normal order flow
+    | 'shipment.status_changed'
+    | 'shipment.status_overridden'
+    | 'user.role_changed'
+    | 'user.suspended'              // Also logged when the reason of a suspended account changes
+    | 'user.reinstated'
+    | 'review.status_changed'       // A customer review hidden or published again by a moderator
+
+export type AuditTargetType = 'product' | 'order' | 'user' | 'review'
+
+export type AuditValue = string | number | boolean | null
+
+// One field that changed, by its path in the target, e.g. "pricing.selling"
+// before is missing for fields that were added, after for fields that were removed
+export interface AuditChange {
+    field: string
+    before?: AuditValue
+    after?: AuditValue
+}
+
+// A target's audited fields, keyed by field path
+export type AuditSnapshot = Record<string, AuditValue | undefined>
+
+// Where a change was made from, as far as the request tells
+export interface AuditRequestMetadata {
+    ip?: string
+    userAgent?: string
+}
+
+// A sensitive change made through the console or the supplier portal; never updated or deleted
+export interface AuditEntry {
+    _id?: ObjectId
+    actorId: string
+    actorRole: UserRole
+    action: AuditAction
+    targetType: AuditTargetType
+    targetId: string
+    changes: AuditChange[]
+    request: AuditRequestMetadata
+    createdAt: Date
+}
+
+export interface AuditEntrySerializable extends Omit<AuditEntry, '_id' | 'createdAt'> {
+    _id: string
+    createdAt: string
+}
+
+export interface AuditEvent {
+    actor: { id: string; role: UserRole }
+    action: AuditAction
+    targetType: AuditTargetType
+    targetId: string
+    changes?: AuditChange[]
+}
+
+export interface AuditLogOptions extends Omit<CursorOptions, 'pagination'> {
+    action?: AuditAction
+    targetType?: AuditTargetType
+    targetId?: string
+    actorId?: string
+    limit?: number
+}
+
+export interface CursorPaginatedAuditEntries<T> extends CursorPageInfo {
+    entries: T[]
+    limit: number
+}
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getAuditLogCollection(): Promise<Collection<AuditEntry>> {
+    const db = await getDb()
+    return db.collection<AuditEntry>('audit_log')
+}
+
+// --- Utility Functions ---
+
+/**
+ * Convert a MongoDB audit entry to a serializable format
+ */
+export function toSerializable(entry: WithId<AuditEntry>): AuditEntrySerializable {
+    return {
+        ...entry,
+        _id: entry._id.toHexString(),
+        createdAt: entry.createdAt.toISOString()
+    }
+}
+
+/**
+ * List the fields that differ between two snapshots of a target
+ * Snapshots are flat, keyed by field path; fields missing on one side count as undefined
+ */
+export function diffSnapshots(before: AuditSnapshot, after: AuditSnapshot): AuditChange[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+    return [...fields]
+        .filter(field => before[field] !== after[field])
+        .map(field => ({ field, before: before[field], after: after[field] }))
+}
+
+/**
+ * The prices of a product and its variants, keyed by field path
+ */
+export function productPriceSnapshot(product: Pick<Product, 'pricing' | 'variants'>): Record<string, number> {
+    const snapshot: Record<string, number> = {
+        'pricing.selling': product.pricing.selling,
+        'pricing.cost': product.pricing.cost
+    }
+    for (const variant of product.variants ?? []) {
+        snapshot[`variants.${variant.sku}.pricing.selling`] = variant.pricing.selling
+        snapshot[`variants.${variant.sku}.pricing.cost`] = variant.pricing.cost
+    }
+    return snapshot
+}
+
+/**
+ * The stock on hand of a product and its variants, keyed by field path
+ */
+export function productStockSnapshot(product: Pick<Product, 'inventory' | 'variants'>): Record<string, number> {
+    const snapshot: Record<string, number> = { 'inventory.onHand': product.inventory.onHand }
+    for (const variant of product.variants ?? []) {
+        snapshot[`variants.${variant.sku}.inventory.onHand`] = variant.inventory.onHand
+    }
+    return snapshot
+}
+
+/**
+ * Read the caller's address and browser from the current request
+ * Empty outside a request, e.g. in scripts
+ */
+function getRequestMetadata(): AuditRequestMetadata {
+    try {
+        const headers = getRequest().headers
+        const forwardedFor = headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+        return {
+            ip: forwardedFor || headers.get('x-real-ip') || undefined,
+            userAgent: headers.get('user-agent') || undefined
+        }
+    } catch {
+        return {}
+    }
+}
+
+/**
+ * Record a sensitive change in the audit log
+ * Called once the change has been made; a failure to record it is logged rather
+ * than reported to the user, whose change has already gone through
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+    try {
+        const collection = await getAuditLogCollection()
+        await collection.insertOne({
+            actorId: event.actor.id,
+            actorRole: event.actor.role,
+            action: event.action,
+            targetType: event.targetType,
+            targetId: event.targetId,
+            changes: event.changes ?? [],
+            request: getRequestMetadata(),
+            createdAt: new Date()
+        })
+    } catch (error) {
+        console.error(`Failed to record audit event ${event.action} on ${event.targetType} ${event.targetId}:`, error)
+    }
+}
+
+/**
+ * Get audit log entries, newest first, paged with cursors
+ */
+export async function getAuditLog(options: AuditLogOptions = {}): Promise<CursorPaginatedAuditEntries<WithId<AuditEntry>>> {
+    const collection = await getAuditLogCollection()
+
+    const limit = Math.min(100, Math.max(1, options.limit || 25))
+    const direction = options.direction || 'next'
+
+    const filter: Record<string, unknown> = {}
+    if (options.action) filter.action = options.action
+    if (options.targetType) filter.targetType = options.targetType
+    if (options.targetId?.trim()) filter.targetId = options.targetId.trim()
+    if (options.actorId?.trim()) filter.actorId = options.actorId.trim()
+
+    const rows = await collection
+        .find(options.cursor ? { $and: [filter, keysetFilter(NEWEST_FIRST, options.cursor, direction)] } : filter)
+        .sort(readOrder(NEWEST_FIRST, direction))
+        .limit(limit + 1)
+        .toArray()
+
+    const { items, ...cursors } = toCursorPage(rows, NEWEST_FIRST, { ...options, limit })
+    return { entries: items, limit, ...cursors }
+}
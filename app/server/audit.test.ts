@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// --- Mock Imports for Testing ---
+
+// Mock for MongoDB collections
+const mockAuditCollection = {
+    find: vi.fn(),
+    insertOne: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn(() => mockAuditCollection),
+}
+
+const mockClient = {
+    db: () => mockDb,
+}
+
+const mockClientPromise = Promise.resolve(mockClient)
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Mock the current request
+const mockGetRequest = vi.fn()
+
+vi.mock('@tanstack/react-start/server', () => ({
+    getRequest: () => mockGetRequest(),
+}))
+
+// Server functions run their handler directly
+vi.mock('@tanstack/react-start', () => {
+    const builder = {
+        inputValidator: () => builder,
+        handler: (handler: unknown) => handler,
+    }
+    return { createServerFn: () => builder }
+})
+
+// Mocks for the modules the audited server functions depend on
+const mockRequirePermission = vi.fn()
+const mockGetUserAccount = vi.fn()
+const mockSetUserSuspended = vi.fn()
+const mockGetOrderById = vi.fn()
+const mockUpdateShipmentStatus = vi.fn()
+
+vi.mock('./auth-utils', () => ({
+    requirePermission: (...args: unknown[]) => mockRequirePermission(...args),
+}))
+
+vi.mock('./auth-config', () => ({
+    auth: { api: { revokeUserSessions: vi.fn() } },
+}))
+
+vi.mock('./user-utils', () => ({
+    getUserAccount: (...args: unknown[]) => mockGetUserAccount(...args),
+    setUserSuspended: (...args: unknown[]) => mockSetUserSuspended(...args),
+    toAccountSerializable: (user: unknown) => user,
+}))
+
+vi.mock('./order-utils', () => ({
+    getOrderById: (...args: unknown[]) => mockGetOrderById(...args),
+    updateShipmentStatus: (...args: unknown[]) => mockUpdateShipmentStatus(...args),
+    getSupplierShipment: (order: { shipments: { supplierId: string }[] }, supplierId: string) =>
+        order.shipments.find(shipment => shipment.supplierId === supplierId),
+    toSupplierSerializable: (order: unknown) => order,
+}))
+
+vi.mock('./email-utils', () => ({
+    sendShipmentStatusEmails: vi.fn(),
+}))
+
+vi.mock('./notification-utils', () => ({
+    notifyShipmentStatusChanges: vi.fn(),
+}))
+
+const admin = { id: 'admin-1', role: 'admin' as const }
+
+// --- Unit Tests ---
+
+describe('diffSnapshots', () => {
+    it('should list only the fields that changed', async () => {
+        const { diffSnapshots, productPriceSnapshot } = await import('./audit-utils')
+
+        const before = productPriceSnapshot({ pricing: { cost: 10, selling: 25 } })
+        const after = productPriceSnapshot({ pricing: { cost: 10, selling: 30 } })
+
+        expect(diffSnapshots(before, after)).toEqual([
+            { field: 'pricing.selling', before: 25, after: 30 },
+        ])
+    })
+
+    it('should include variant prices and fields present on one side only', async () => {
+        const { diffSnapshots, productPriceSnapshot } = await import('./audit-utils')
+
+        const variant = { id: 'v1', sku: 'MUG-L', options: {}, inventory: { onHand: 1 }, images: [] }
+        const before = productPriceSnapshot({ pricing: { cost: 10, selling: 25 } })
+        const after = productPriceSnapshot({
+            pricing: { cost: 10, selling: 25 },
+            variants: [{ ...variant, pricing: { cost: 12, selling: 28 } }],
+        })
+
+        expect(diffSnapshots(before, after)).toEqual([
+            { field: 'variants.MUG-L.pricing.selling', before: undefined, after: 28 },
+            { field: 'variants.MUG-L.pricing.cost', before: undefined, after: 12 },
+        ])
+    })
+})
+
+describe('recordAuditEvent', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should store the actor, change and request metadata', async () => {
+        const { recordAuditEvent } = await import('./audit-utils')
+        mockGetRequest.mockReturnValue({
+            headers: new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Test Browser' }),
+        })
+        mockAuditCollection.insertOne.mockResolvedValue({ insertedId: 'entry-1' })
+
+        await recordAuditEvent({
+            actor: admin,
+            action: 'product.status_changed',
+            targetType: 'product',
+            targetId: 'product-1',
+            changes: [{ field: 'status', before: 'pending_review', after: 'active' }],
+        })
+
+        const [stored] = mockAuditCollection.insertOne.mock.calls[0]
+        expect(stored).toMatchObject({
+            actorId: 'admin-1',
+            actorRole: 'admin',
+            action: 'product.status_changed',
+            targetType: 'product',
+            targetId: 'product-1',
+            changes: [{ field: 'status', before: 'pending_review', after: 'active' }],
+            request: { ip: '203.0.113.7', userAgent: 'Test Browser' },
+        })
+        expect(stored.createdAt).toBeInstanceOf(Date)
+    })
+
+    it('should not fail the change when the entry cannot be stored', async () => {
+        const { recordAuditEvent } = await import('./audit-utils')
+        mockGetRequest.mockImplementation(() => {
+            throw new Error('No request in context')
+        })
+        mockAuditCollection.insertOne.mockRejectedValue(new Error('Write failed'))
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        await expect(recordAuditEvent({
+            actor: admin,
+            action: 'product.deleted',
+            targetType: 'product',
+            targetId: 'product-1',
+        })).resolves.toBeUndefined()
+
+        expect(mockAuditCollection.insertOne.mock.calls[0][0].request).toEqual({})
+        expect(consoleError).toHaveBeenCalled()
+        consoleError.mockRestore()
+    })
+})
+
+describe('getAuditLog', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should filter by action, target and actor, newest first', async () => {
+        const { getAuditLog } = await import('./audit-utils')
+        const cursor = {
+            sort: vi.fn().mockReturnThis(),
+            limit: vi.fn().mockReturnThis(),
+            toArray: vi.fn().mockResolvedValue([]),
+        }
+        mockAuditCollection.find.mockReturnValue(cursor)
+
+        const result = await getAuditLog({
+            action: 'order.status_overridden',
+            targetType: 'order',
+            targetId: ' order-1 ',
+            actorId: 'admin-1',
+            limit: 10,
+        })
+
+        expect(mockAuditCollection.find).toHaveBeenCalledWith({
+            action: 'order.status_overridden',
+            targetType: 'order',
+            targetId: 'order-1',
+            actorId: 'admin-1',
+        })
+        expect(cursor.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 })
+        expect(cursor.limit).toHaveBeenCalledWith(11)
+        expect(result).toMatchObject({ entries: [], limit: 10, nextCursor: null, prevCursor: null })
+    })
+})
+
+describe('Audited Server Functions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+        mockGetRequest.mockReturnValue({ headers: new Headers() })
+        mockAuditCollection.insertOne.mockResolvedValue({ insertedId: 'entry-1' })
+    })
+
+    it('should record suspending a user', async () => {
+        const { setUserSuspendedFn } = await import('./user')
+        mockRequirePermission.mockResolvedValue(admin)
+        mockGetUserAccount.mockResolvedValue({ name: 'Jo Potter', banned: false })
+        mockSetUserSuspended.mockResolvedValue({ name: 'Jo Potter', banned: true, banReason: 'Chargeback fraud' })
+
+        await setUserSuspendedFn({ data: { userId: 'user-1', suspended: true, reason: 'Chargeback fraud' } })
+
+        expect(mockAuditCollection.insertOne).toHaveBeenCalledWith(expect.objectContaining({
+            actorId: 'admin-1',
+            action: 'user.suspended',
+            targetType: 'user',
+            targetId: 'user-1',
+            changes: [
+                { field: 'banned', before: false, after: true },
+                { field: 'banReason', before: null, after: 'Chargeback fraud' },
+            ],
+        }))
+    })
+
+    it('should record reinstating a user', async () => {
+        const { setUserSuspendedFn } = await import('./user')
+        mockRequirePermission.mockResolvedValue(admin)
+        mockGetUserAccount.mockResolvedValue({ banned: true, banReason: 'Chargeback fraud' })
+        mockSetUserSuspended.mockResolvedValue({ banned: false, banReason: null })
+
+        await setUserSuspendedFn({ data: { userId: 'user-1', suspended: false } })
+
+        const [stored] = mockAuditCollection.insertOne.mock.calls[0]
+        expect(stored).toMatchObject({ action: 'user.reinstated', targetId: 'user-1' })
+        expect(stored.changes).toContainEqual({ field: 'banned', before: true, after: false })
+    })
+
+    it('should record a supplier updating their own shipment', async () => {
+        const { updateSupplierOrderStatusFn } = await import('./order')
+        const supplier = { id: 'supplier-1', role: 'supplier' as const }
+        const order = {
+            status: 'processing',
+            shipments: [{ supplierId: 'supplier-1', status: 'processing' }],
+        }
+        mockRequirePermission.mockResolvedValue(supplier)
+        mockGetOrderById.mockResolvedValue(order)
+        mockUpdateShipmentStatus.mockResolvedValue({
+            status: 'shipped',
+            shipments: [{ supplierId: 'supplier-1', status: 'shipped', trackingNumber: 'TRK-1' }],
+        })
+
+        await updateSupplierOrderStatusFn({ data: { orderId: 'order-1', status: 'shipped', trackingNumber: 'TRK-1' } })
+
+        expect(mockAuditCollection.insertOne).toHaveBeenCalledWith(expect.objectContaining({
+            actorId: 'supplier-1',
+            actorRole: 'supplier',
+            action: 'shipment.status_changed',
+            targetType: 'order',
+            targetId: 'order-1',
+            changes: [
+                { field: 'shipments.supplier-1.status', before: 'processing', after: 'shipped' },
+                { field: 'shipments.supplier-1.trackingNumber', before: undefined, after: 'TRK-1' },
+                { field: 'status', before: 'processing', after: 'shipped' },
+            ],
+        }))
+    })
+})
@@ -0,0 +1,29 @@
+import { createServerFn } from '@tanstack/react-start'
+
+import type { AuditLogOptions } from './audit-utils'
+
+// --- Server Functions ---
+
+/**
+ * Get the audit log, newest first, with the names of the users who acted (Admin only)
+ */
+export const getAuditLogFn = createServerFn({ method: "GET" })
+    .inputValidator((data: AuditLogOptions) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { getAuditLog, toSerializable } = await import('./audit-utils')
+        const { getUserNames } = await import('./user-utils')
+
+        await requirePermission('audit:view')
+
+        const result = await getAuditLog(data)
+        const actorNames = await getUserNames([...new Set(result.entries.map(entry => entry.actorId))])
+
+        return {
+            ...result,
+            entries: result.entries.map(entry => ({
+                ...toSerializable(entry),
+                actorName: actorNames.get(entry.actorId) ?? null
+            }))
+        }
+    })
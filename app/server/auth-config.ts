@@ -2,8 +2,12 @@
 import { betterAuth } from "better-auth";
 import { mongodbAdapter } from "better-auth/adapters/mongodb";
 import { anonymous } from "better-auth/plugins";
+import { tanstackStartCookies } from "better-auth/tanstack-start";
+import { APIError } from "better-auth/api";
 import clientPromise from "./db/mongo";
 import { mergeGuestCart } from "./cart-utils";
+import { mergeGuestWishlist } from "./wishlist-utils";
+import { sendWelcomeEmail } from "./email-utils";
 
 // --- Better Auth Configuration (Server Side Only) ---
 
@@ -22,7 +26,7 @@ async function createAuth() {
         user: {
             additionalFields: {
                 role: {
-                    type: ["user", "admin", "supplier"] as const,
+                    type: ["user", "admin", "supplier", "support", "catalogue_reviewer"] as const,
                     required: false,
                     defaultValue: "user",
                     input: false,
@@ -31,16 +35,56 @@ async function createAuth() {
                     type: "string", 
                     required: false,
                 },
+                // Suspended by an admin; suspended users cannot sign in
+                banned: {
+                    type: "boolean",
+                    required: false,
+                    defaultValue: false,
+                    input: false,
+                },
+                banReason: {
+                    type: "string",
+                    required: false,
+                    input: false,
+                },
+            },
+        },
+        databaseHooks: {
+            user: {
+                create: {
+                    after: async (user) => {
+                        // Guests get a placeholder address; they are welcomed if they register
+                        if ((user as { isAnonymous?: boolean }).isAnonymous) return;
+                        await sendWelcomeEmail(user);
+                    },
+                },
+            },
+            session: {
+                create: {
+                    before: async (session, ctx) => {
+                        if (!ctx) return;
+                        const user = await ctx.context.internalAdapter.findUserById(session.userId);
+                        if ((user as { banned?: boolean } | null)?.banned) {
+                            throw new APIError("FORBIDDEN", {
+                                message: "This account has been suspended",
+                            });
+                        }
+                    },
+                },
             },
         },
         plugins: [
             anonymous({
                 emailDomainName: "guest.makerskind.com",
                 onLinkAccount: async ({ anonymousUser, newUser }) => {
-                    // Merge guest cart into the new user's cart
+                    // Merge guest cart and wishlist into the new user's
                     await mergeGuestCart(anonymousUser.user.id, newUser.user.id);
+                    await mergeGuestWishlist(anonymousUser.user.id, newUser.user.id);
                 },
             }),
+            // Must come last: sets the cookies of auth calls made from server functions,
+            // e.g. the guest session getOrCreateSession signs in
+            tanstackStartCookies(),
         ],
     });
 }
@@ -81,5 +125,11 @@ export const auth = {
             // @ts-expect-error - anonymous plugin adds this method
             return authInstance.api.deleteAnonymousUser(opts);
         },
+        // Sign a user out everywhere by deleting all of their sessions
+        revokeUserSessions: async (userId: string) => {
+            const authInstance = await getAuth();
+            const context = await authInstance.$context;
+            await context.internalAdapter.deleteSessions(userId);
+        },
     },
 };
@@ -1,6 +1,7 @@
 import { getRequest } from '@tanstack/react-start/server'
 import { auth } from './auth-config'
 import type { UserRole } from "../utils/auth";
+import { can, type OwnedResource, type Permission } from "../utils/rbac";
 
 export interface AuthenticatedUser {
     id: string;
@@ -10,6 +11,7 @@ export interface AuthenticatedUser {
     shippingAddress: string | null;
     emailVerified: boolean;
     isAnonymous?: boolean;
+    banned?: boolean;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -38,9 +40,54 @@ export async function requireAuth(): Promise<AuthenticatedUser> {
         throw new Error('Authentication required')
     }
     
+    // Suspended users are signed out when suspended; this covers any session still cached
+    if (session.user.banned) {
+        throw new Error('Account suspended')
+    }
+    
     return session.user
 }
 
+/**
+ * Get the current user, signing in anonymously if there is no session
+ * so guests get a server-side cart and wishlist as well
+ */
+export async function getOrCreateSession(): Promise<AuthenticatedUser> {
+    const { user } = await getOrCreateSessionStatus()
+    return user
+}
+
+/**
+ * Like getOrCreateSession, but also says whether the guest session was created
+ * by this request, in which case nothing has been stored for it yet
+ */
+export async function getOrCreateSessionStatus(): Promise<{ user: AuthenticatedUser; isNew: boolean }> {
+    const request = getRequest()
+    
+    let session = await getAuthSession()
+    let isNew = false
+    
+    if (!session?.user) {
+        const newSession = await auth.api.signInAnonymous({ headers: request.headers })
+        if (newSession) {
+            isNew = true
+            session = { 
+                session: newSession.session, 
+                user: { 
+                    ...newSession.user,
+                    role: newSession.user.role as any
+                } 
+            }
+        }
+    }
+    
+    if (!session?.user) {
+        throw new Error('Failed to create session')
+    }
+    
+    return { user: session.user, isNew }
+}
+
 export async function requireRole(allowedRoles: UserRole[]): Promise<AuthenticatedUser> {
     const user = await requireAuth()
     
@@ -50,3 +97,35 @@ export async function requireRole(allowedRoles: UserRole[]): Promise<Authenticat
     
     return user
 }
+
+/**
+ * Throw unless the user has a permission, on the given resource if there is one
+ */
+export function assertPermission(
+    user: AuthenticatedUser,
+    permission: Permission,
+    resource?: OwnedResource,
+    message = `Access denied. Missing permission: ${permission}`
+): void {
+    if (!can(user, permission, resource)) {
+        throw new Error(message)
+    }
+}
+
+/**
+ * Require a signed-in user with a permission (see ROLE_PERMISSIONS in utils/rbac)
+ * Checks against a resource the user must own belong in assertPermission once it is loaded
+ */
+export async function requirePermission(permission: Permission, resource?: OwnedResource): Promise<AuthenticatedUser> {
+    const user = await requireAuth()
+    assertPermission(user, permission, resource)
+    return user
+}
+
+/**
+ * How a user is recorded in order, return and stock histories
+ * Staff roles act with admin authority there; the actor ID tells them apart
+ */
+export function actorRole(user: AuthenticatedUser): 'admin' | 'supplier' {
+    return user.role === 'supplier' ? 'supplier' : 'admin'
+}
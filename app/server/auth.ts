@@ -72,14 +72,14 @@ export const getCurrentUser = createServerFn({ method: "GET" })
 
 export const requireAdminAccess = createServerFn({ method: "GET" })
     .handler(async () => {
-        const { requireRole } = await import('./auth-utils')
-        return await requireRole(['admin'])
+        const { requirePermission } = await import('./auth-utils')
+        return await requirePermission('admin:console')
     })
 
 export const requireSupplierAccess = createServerFn({ method: "GET" })
     .handler(async () => {
-        const { requireRole } = await import('./auth-utils')
-        return await requireRole(['admin', 'supplier'])
+        const { requirePermission } = await import('./auth-utils')
+        return await requirePermission('supplier:portal')
     })
 
 export const signInAnonymous = createServerFn({ method: "POST" })
@@ -0,0 +1,36 @@
+import type { CartOperation } from './cart-utils'
+
+// --- Cart Operation Rules ---
+// Kept free of database imports so the cart store can drop edits the server would refuse
+
+// A product ID as the products collection issues them
+const PRODUCT_ID_PATTERN = /^[0-9a-f]{24}$/i
+
+/**
+ * Why the server would refuse a queued cart operation, or null if it can be applied
+ * Adds need a positive whole quantity; updates may also use 0 to remove the line
+ */
+export function getCartOperationError(operation: CartOperation): string | null {
+    if (operation?.type === 'clear') {
+        return null
+    }
+    if (operation?.type !== 'add' && operation?.type !== 'update' && operation?.type !== 'remove') {
+        return 'Invalid cart operation'
+    }
+
+    if (typeof operation.productId !== 'string' || !PRODUCT_ID_PATTERN.test(operation.productId)) {
+        return 'Invalid product ID'
+    }
+    if (operation.variantId !== undefined && typeof operation.variantId !== 'string') {
+        return 'Invalid variant ID'
+    }
+
+    if (operation.type !== 'remove') {
+        const minimum = operation.type === 'add' ? 1 : 0
+        if (!Number.isInteger(operation.quantity) || operation.quantity < minimum) {
+            return 'Cart quantities must be positive whole numbers'
+        }
+    }
+
+    return null
+}
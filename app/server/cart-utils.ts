@@ -1,10 +1,14 @@
 import clientPromise from './db/mongo'
 import type { ObjectId, Collection, Db } from 'mongodb'
+import type { Product } from './product-utils'
+import { describeVariant } from './product-variants'
+import { getCartOperationError } from './cart-state'
 
 // --- Cart Types ---
 
 export interface CartItem {
     productId: string
+    variantId?: string       // The chosen variant, for products with variants
     quantity: number
     addedAt: Date
 }
@@ -17,6 +21,24 @@ export interface Cart {
     updatedAt: Date
 }
 
+// Cart line enriched with the product data the storefront needs to render it
+export interface CartItemDetails {
+    productId: string
+    variantId?: string
+    variantLabel?: string
+    name: string
+    price: number
+    image?: string
+    quantity: number
+}
+
+// Client-side cart edits queued while offline and replayed against the server cart
+export type CartOperation =
+    | { type: 'add'; productId: string; variantId?: string; quantity: number }
+    | { type: 'update'; productId: string; variantId?: string; quantity: number }
+    | { type: 'remove'; productId: string; variantId?: string }
+    | { type: 'clear' }
+
 // --- Cart Collection Access ---
 
 let _db: Db | null = null
@@ -36,6 +58,13 @@ export async function getCartCollection(): Promise<Collection<Cart>> {
 
 // --- Cart Utility Functions ---
 
+/**
+ * Whether a cart item is the line for a product, or for one variant of it
+ */
+function isSameLine(item: CartItem, productId: string, variantId?: string): boolean {
+    return item.productId === productId && item.variantId === variantId
+}
+
 /**
  * Get a user's cart, creating one if it doesn't exist
  */
@@ -64,13 +93,14 @@ export async function getUserCart(userId: string): Promise<Cart> {
 export async function addItemToCart(
     userId: string, 
     productId: string, 
-    quantity: number = 1
+    quantity: number = 1,
+    variantId?: string
 ): Promise<Cart> {
     const collection = await getCartCollection()
     const cart = await getUserCart(userId)
     
     const existingItemIndex = cart.items.findIndex(
-        item => item.productId === productId
+        item => isSameLine(item, productId, variantId)
     )
     
     if (existingItemIndex >= 0) {
@@ -80,6 +110,7 @@ export async function addItemToCart(
         // Add new item
         cart.items.push({
             productId,
+            ...(variantId && { variantId }),
             quantity,
             addedAt: new Date()
         })
@@ -104,13 +135,14 @@ export async function addItemToCart(
 export async function updateCartItemQuantity(
     userId: string,
     productId: string,
-    quantity: number
+    quantity: number,
+    variantId?: string
 ): Promise<Cart> {
     const collection = await getCartCollection()
     const cart = await getUserCart(userId)
     
     const itemIndex = cart.items.findIndex(
-        item => item.productId === productId
+        item => isSameLine(item, productId, variantId)
     )
     
     if (itemIndex >= 0) {
@@ -140,12 +172,13 @@ export async function updateCartItemQuantity(
  */
 export async function removeItemFromCart(
     userId: string,
-    productId: string
+    productId: string,
+    variantId?: string
 ): Promise<Cart> {
     const collection = await getCartCollection()
     const cart = await getUserCart(userId)
     
-    cart.items = cart.items.filter(item => item.productId !== productId)
+    cart.items = cart.items.filter(item => !isSameLine(item, productId, variantId))
     
     await collection.updateOne(
         { userId },
@@ -185,6 +218,135 @@ export async function deleteUserCart(userId: string): Promise<void> {
     await collection.deleteOne({ userId })
 }
 
+/**
+ * Check a batch of operations sent by the client before any of it is applied
+ * The rules live in cart-state so the cart store drops what would be refused here
+ */
+export async function validateCartOperations(operations: CartOperation[]): Promise<void> {
+    if (!Array.isArray(operations)) {
+        throw new Error('Invalid cart operations')
+    }
+    
+    for (const operation of operations) {
+        const error = getCartOperationError(operation)
+        if (error) {
+            throw new Error(error)
+        }
+    }
+}
+
+/**
+ * Apply a batch of queued cart operations in order and persist the result
+ * Used to reconcile edits made on the client while it was offline
+ */
+export async function applyCartOperations(
+    userId: string,
+    operations: CartOperation[]
+): Promise<Cart> {
+    const collection = await getCartCollection()
+    const cart = await getUserCart(userId)
+    let items = [...cart.items]
+    
+    for (const operation of operations) {
+        switch (operation.type) {
+            case 'add': {
+                const existing = items.find(item => isSameLine(item, operation.productId, operation.variantId))
+                if (existing) {
+                    existing.quantity += operation.quantity
+                } else {
+                    items.push({
+                        productId: operation.productId,
+                        ...(operation.variantId && { variantId: operation.variantId }),
+                        quantity: operation.quantity,
+                        addedAt: new Date()
+                    })
+                }
+                break
+            }
+            case 'update': {
+                if (operation.quantity <= 0) {
+                    items = items.filter(item => !isSameLine(item, operation.productId, operation.variantId))
+                } else {
+                    const existing = items.find(item => isSameLine(item, operation.productId, operation.variantId))
+                    if (existing) {
+                        existing.quantity = operation.quantity
+                    }
+                }
+                break
+            }
+            case 'remove':
+                items = items.filter(item => !isSameLine(item, operation.productId, operation.variantId))
+                break
+            case 'clear':
+                items = []
+                break
+        }
+    }
+    
+    await collection.updateOne(
+        { userId },
+        { 
+            $set: { 
+                items,
+                updatedAt: new Date()
+            } 
+        }
+    )
+    
+    return (await collection.findOne({ userId }))!
+}
+
+/**
+ * Resolve cart items against the product catalogue
+ * Items whose product or variant no longer exists or is not active are dropped
+ */
+export async function getCartItemDetails(items: CartItem[]): Promise<CartItemDetails[]> {
+    if (items.length === 0) {
+        return []
+    }
+    
+    const { ObjectId } = await import('mongodb')
+    const db = await getDb()
+    
+    const productIds = items
+        .filter(item => ObjectId.isValid(item.productId))
+        .map(item => new ObjectId(item.productId))
+    
+    const products = await db.collection<Product>('products').find(
+        { _id: { $in: productIds }, status: 'active' },
+        { projection: { name: 1, 'pricing.selling': 1, images: 1, variants: 1 } }
+    ).toArray()
+    
+    const productMap = new Map(
+        products.map(p => [p._id.toHexString(), p])
+    )
+    
+    return items.flatMap(item => {
+        const product = productMap.get(item.productId)
+        if (!product) {
+            return []
+        }
+        
+        // Variant products can only be bought as one of their variants
+        const variant = product.variants?.find(v => v.id === item.variantId)
+        if (product.variants?.length ? !variant : item.variantId) {
+            return []
+        }
+        
+        return [{
+            productId: item.productId,
+            ...(variant && {
+                variantId: variant.id,
+                variantLabel: describeVariant(variant.options)
+            }),
+            name: product.name,
+            price: variant ? variant.pricing.selling : product.pricing.selling,
+            image: variant?.images[0] || product.images?.enhanced?.[0] || product.images?.original?.[0],
+            quantity: item.quantity
+        }]
+    })
+}
+
 /**
  * Merge a guest user's cart into a registered user's cart
  * Called when an anonymous user links their account
@@ -209,7 +371,7 @@ export async function mergeGuestCart(
     // Merge items - combine quantities for same products
     for (const guestItem of guestCart.items) {
         const existingIndex = newUserCart.items.findIndex(
-            item => item.productId === guestItem.productId
+            item => isSameLine(item, guestItem.productId, guestItem.variantId)
         )
         
         if (existingIndex >= 0) {
@@ -8,6 +8,7 @@ const mockCartCollection = {
     insertOne: vi.fn(),
     updateOne: vi.fn(),
     deleteOne: vi.fn(),
+    find: vi.fn(),
 }
 
 const mockDb = {
@@ -197,6 +198,187 @@ describe('Cart Utilities', () => {
         })
     })
 
+    describe('applyCartOperations', () => {
+        it('should replay queued operations in order and persist the result', async () => {
+            const existingCart = {
+                userId: 'user-123',
+                items: [
+                    { productId: 'prod-1', quantity: 1, addedAt: new Date() },
+                    { productId: 'prod-2', quantity: 4, addedAt: new Date() },
+                ],
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            }
+            
+            mockCartCollection.findOne
+                .mockResolvedValueOnce(existingCart) // getUserCart call
+                .mockResolvedValueOnce(existingCart) // Return after update
+            mockCartCollection.updateOne.mockResolvedValueOnce({ modifiedCount: 1 })
+            
+            const { applyCartOperations } = await import('./cart-utils')
+            await applyCartOperations('user-123', [
+                { type: 'add', productId: 'prod-1', quantity: 2 },
+                { type: 'add', productId: 'prod-3', quantity: 1 },
+                { type: 'remove', productId: 'prod-2' },
+                { type: 'update', productId: 'prod-3', quantity: 5 },
+            ])
+            
+            expect(mockCartCollection.updateOne).toHaveBeenCalledWith(
+                { userId: 'user-123' },
+                expect.objectContaining({
+                    $set: expect.objectContaining({
+                        items: [
+                            expect.objectContaining({ productId: 'prod-1', quantity: 3 }),
+                            expect.objectContaining({ productId: 'prod-3', quantity: 5 }),
+                        ],
+                    }),
+                })
+            )
+        })
+
+        it('should drop items updated to zero and empty the cart on clear', async () => {
+            const existingCart = {
+                userId: 'user-123',
+                items: [{ productId: 'prod-1', quantity: 2, addedAt: new Date() }],
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            }
+            
+            mockCartCollection.findOne
+                .mockResolvedValueOnce(existingCart)
+                .mockResolvedValueOnce({ ...existingCart, items: [] })
+            mockCartCollection.updateOne.mockResolvedValueOnce({ modifiedCount: 1 })
+            
+            const { applyCartOperations } = await import('./cart-utils')
+            const result = await applyCartOperations('user-123', [
+                { type: 'update', productId: 'prod-1', quantity: 0 },
+                { type: 'add', productId: 'prod-2', quantity: 1 },
+                { type: 'clear' },
+            ])
+            
+            expect(mockCartCollection.updateOne).toHaveBeenCalledWith(
+                { userId: 'user-123' },
+                expect.objectContaining({
+                    $set: expect.objectContaining({ items: [] }),
+                })
+            )
+            expect(result.items).toEqual([])
+        })
+    })
+
+    describe('validateCartOperations', () => {
+        const productId = '507f1f77bcf86cd799439011'
+        
+        it('should accept well-formed operations', async () => {
+            const { validateCartOperations } = await import('./cart-utils')
+            
+            await expect(validateCartOperations([
+                { type: 'add', productId, quantity: 2 },
+                { type: 'add', productId, variantId: 'v-blue', quantity: 1 },
+                { type: 'update', productId, quantity: 0 },
+                { type: 'remove', productId },
+                { type: 'clear' },
+            ])).resolves.toBeUndefined()
+        })
+        
+        it.each([-1, 0, 1.5, NaN])('should reject adding a quantity of %s', async (quantity) => {
+            const { validateCartOperations } = await import('./cart-utils')
+            
+            await expect(validateCartOperations([
+                { type: 'add', productId, quantity: 1 },
+                { type: 'add', productId, quantity },
+            ])).rejects.toThrow('Cart quantities must be positive whole numbers')
+        })
+        
+        it('should reject fractional and negative updates', async () => {
+            const { validateCartOperations } = await import('./cart-utils')
+            
+            await expect(validateCartOperations([{ type: 'update', productId, quantity: 2.5 }]))
+                .rejects.toThrow('Cart quantities must be positive whole numbers')
+            await expect(validateCartOperations([{ type: 'update', productId, quantity: -3 }]))
+                .rejects.toThrow('Cart quantities must be positive whole numbers')
+        })
+        
+        it('should reject invalid product IDs', async () => {
+            const { validateCartOperations } = await import('./cart-utils')
+            
+            await expect(validateCartOperations([{ type: 'remove', productId: 'not-an-id' }]))
+                .rejects.toThrow('Invalid product ID')
+            await expect(validateCartOperations([{ type: 'add', productId: { $ne: null } as any, quantity: 1 }]))
+                .rejects.toThrow('Invalid product ID')
+        })
+        
+        it('should let the cart store pick out just the edits the server would refuse', async () => {
+            const { getCartOperationError } = await import('./cart-state')
+            const queue = [
+                { type: 'add' as const, productId, quantity: 1 },
+                { type: 'update' as const, productId, quantity: NaN },
+                { type: 'remove' as const, productId: 'legacy-id' },
+                { type: 'clear' as const },
+            ]
+            
+            expect(queue.map(getCartOperationError)).toEqual([
+                null,
+                'Cart quantities must be positive whole numbers',
+                'Invalid product ID',
+                null,
+            ])
+        })
+    })
+    
+    describe('getCartItemDetails', () => {
+        it('should enrich items with product name, price and image', async () => {
+            const { ObjectId } = await import('mongodb')
+            const productId = new ObjectId()
+            
+            mockCartCollection.find.mockReturnValueOnce({
+                toArray: vi.fn().mockResolvedValueOnce([{
+                    _id: productId,
+                    name: 'Ceramic Vase',
+                    pricing: { selling: 55 },
+                    images: { original: ['original.jpg'], enhanced: ['enhanced.jpg'] },
+                }]),
+            })
+            
+            const { getCartItemDetails } = await import('./cart-utils')
+            const result = await getCartItemDetails([
+                { productId: productId.toHexString(), quantity: 2, addedAt: new Date() },
+            ])
+            
+            expect(result).toEqual([{
+                productId: productId.toHexString(),
+                name: 'Ceramic Vase',
+                price: 55,
+                image: 'enhanced.jpg',
+                quantity: 2,
+            }])
+        })
+
+        it('should drop items whose product is missing or inactive', async () => {
+            const { ObjectId } = await import('mongodb')
+            
+            mockCartCollection.find.mockReturnValueOnce({
+                toArray: vi.fn().mockResolvedValueOnce([]),
+            })
+            
+            const { getCartItemDetails } = await import('./cart-utils')
+            const result = await getCartItemDetails([
+                { productId: new ObjectId().toHexString(), quantity: 1, addedAt: new Date() },
+                { productId: 'not-an-object-id', quantity: 1, addedAt: new Date() },
+            ])
+            
+            expect(result).toEqual([])
+        })
+
+        it('should not query products for an empty cart', async () => {
+            const { getCartItemDetails } = await import('./cart-utils')
+            const result = await getCartItemDetails([])
+            
+            expect(result).toEqual([])
+            expect(mockCartCollection.find).not.toHaveBeenCalled()
+        })
+    })
+
     describe('mergeGuestCart', () => {
         it('should merge guest cart items into new user cart', async () => {
             const guestCart = {
@@ -1,20 +1,34 @@
 import { createServerFn } from '@tanstack/react-start'
 import { getRequest } from '@tanstack/react-start/server'
 
+import type { CartOperation } from './cart-utils'
+import type { ReservationItem } from './reservation-utils'
+
 // --- Cart Types ---
 
 interface AddToCartInput {
     productId: string
+    variantId?: string
     quantity?: number
 }
 
 interface UpdateCartItemInput {
     productId: string
+    variantId?: string
     quantity: number
 }
 
 interface RemoveFromCartInput {
     productId: string
+    variantId?: string
+}
+
+interface SyncCartInput {
+    operations: CartOperation[]
+}
+
+interface ReserveCartInput {
+    items: ReservationItem[]
 }
 
 // --- Server Functions ---
@@ -24,36 +38,16 @@ interface RemoveFromCartInput {
  */
 export const getCart = createServerFn({ method: "GET" })
     .handler(async () => {
-        const { getAuthSession } = await import('./auth-utils')
-        const { getUserCart } = await import('./cart-utils')
-        const { auth } = await import('./auth-config')
-        const request = getRequest()
-        
-        let session = await getAuthSession()
-        
-        // If no session, sign in anonymously
-        if (!session?.user) {
-            const newSession = await auth.api.signInAnonymous({ headers: request.headers })
-            if (newSession) {
-                session = { 
-                    session: newSession.session, 
-                    user: { 
-                        ...newSession.user,
-                        role: newSession.user.role as any
-                    } 
-                }
-            }
-        }
+        const { getOrCreateSession } = await import('./auth-utils')
+        const { getUserCart, getCartItemDetails } = await import('./cart-utils')
         
-        if (!session?.user) {
-            throw new Error('Failed to create session')
-        }
+        const user = await getOrCreateSession()
         
-        const cart = await getUserCart(session.user.id)
+        const cart = await getUserCart(user.id)
         return {
-            items: cart.items,
-            userId: session.user.id,
-            isAnonymous: session.user.isAnonymous ?? false
+            items: await getCartItemDetails(cart.items),
+            userId: user.id,
+            isAnonymous: user.isAnonymous ?? false
         }
     })
 
@@ -63,41 +57,22 @@ export const getCart = createServerFn({ method: "GET" })
 export const addToCart = createServerFn({ method: "POST" })
     .inputValidator((data: AddToCartInput) => data)
     .handler(async ({ data }) => {
-        const { getAuthSession } = await import('./auth-utils')
-        const { addItemToCart } = await import('./cart-utils')
-        const { auth } = await import('./auth-config')
-        const request = getRequest()
-        
-        let session = await getAuthSession()
-        
-        // If no session, sign in anonymously
-        if (!session?.user) {
-            const newSession = await auth.api.signInAnonymous({ headers: request.headers })
-            if (newSession) {
-                session = { 
-                    session: newSession.session, 
-                    user: { 
-                        ...newSession.user,
-                        role: newSession.user.role as any
-                    } 
-                }
-            }
-        }
+        const { getOrCreateSession } = await import('./auth-utils')
+        const { addItemToCart, getCartItemDetails } = await import('./cart-utils')
         
-        if (!session?.user) {
-            throw new Error('Failed to create session')
-        }
+        const user = await getOrCreateSession()
         
         const cart = await addItemToCart(
-            session.user.id, 
+            user.id, 
             data.productId, 
-            data.quantity ?? 1
+            data.quantity ?? 1,
+            data.variantId
         )
         
         return {
-            items: cart.items,
-            userId: session.user.id,
-            isAnonymous: session.user.isAnonymous ?? false
+            items: await getCartItemDetails(cart.items),
+            userId: user.id,
+            isAnonymous: user.isAnonymous ?? false
         }
     })
 
@@ -108,7 +83,7 @@ export const updateCartItem = createServerFn({ method: "POST" })
     .inputValidator((data: UpdateCartItemInput) => data)
     .handler(async ({ data }) => {
         const { getAuthSession } = await import('./auth-utils')
-        const { updateCartItemQuantity } = await import('./cart-utils')
+        const { updateCartItemQuantity, getCartItemDetails } = await import('./cart-utils')
         
         const session = await getAuthSession()
         
@@ -119,11 +94,12 @@ export const updateCartItem = createServerFn({ method: "POST" })
         const cart = await updateCartItemQuantity(
             session.user.id,
             data.productId,
-            data.quantity
+            data.quantity,
+            data.variantId
         )
         
         return {
-            items: cart.items,
+            items: await getCartItemDetails(cart.items),
             userId: session.user.id,
             isAnonymous: session.user.isAnonymous ?? false
         }
@@ -136,7 +112,7 @@ export const removeFromCart = createServerFn({ method: "POST" })
     .inputValidator((data: RemoveFromCartInput) => data)
     .handler(async ({ data }) => {
         const { getAuthSession } = await import('./auth-utils')
-        const { removeItemFromCart } = await import('./cart-utils')
+        const { removeItemFromCart, getCartItemDetails } = await import('./cart-utils')
         
         const session = await getAuthSession()
         
@@ -146,11 +122,12 @@ export const removeFromCart = createServerFn({ method: "POST" })
         
         const cart = await removeItemFromCart(
             session.user.id,
-            data.productId
+            data.productId,
+            data.variantId
         )
         
         return {
-            items: cart.items,
+            items: await getCartItemDetails(cart.items),
             userId: session.user.id,
             isAnonymous: session.user.isAnonymous ?? false
         }
@@ -179,6 +156,34 @@ export const clearCart = createServerFn({ method: "POST" })
         }
     })
 
+/**
+ * Replay cart operations queued on the client (e.g. while offline)
+ * and return the reconciled server cart
+ */
+export const syncCart = createServerFn({ method: "POST" })
+    .inputValidator((data: SyncCartInput) => data)
+    .handler(async ({ data }) => {
+        const { getOrCreateSessionStatus } = await import('./auth-utils')
+        const { getUserCart, applyCartOperations, validateCartOperations, getCartItemDetails } = await import('./cart-utils')
+        
+        // Reject the whole batch rather than store a bad line
+        await validateCartOperations(data.operations)
+        
+        const { user, isNew } = await getOrCreateSessionStatus()
+        
+        const cart = data.operations.length > 0
+            ? await applyCartOperations(user.id, data.operations)
+            : await getUserCart(user.id)
+        
+        return {
+            items: await getCartItemDetails(cart.items),
+            userId: user.id,
+            isAnonymous: user.isAnonymous ?? false,
+            // The cart only holds this batch; the client should not take it as the whole cart
+            isNewSession: isNew
+        }
+    })
+
 /**
  * Sign in anonymously as a guest user
  */
@@ -192,3 +197,23 @@ export const signInAsGuest = createServerFn({ method: "POST" })
             asResponse: true
         })
     })
+
+/**
+ * Hold stock for the items being checked out
+ * Replaces any earlier hold for this cart; the hold expires on its own if no order is placed
+ */
+export const reserveCartFn = createServerFn({ method: "POST" })
+    .inputValidator((data: ReserveCartInput) => data)
+    .handler(async ({ data }) => {
+        const { getOrCreateSession } = await import('./auth-utils')
+        const { releaseExpiredReservations, reserveItems, toSerializable } = await import('./reservation-utils')
+        
+        const user = await getOrCreateSession()
+        
+        // Put stock from abandoned checkouts back on sale before holding more
+        await releaseExpiredReservations()
+        
+        const reservation = await reserveItems(user.id, data.items)
+        
+        return { reservation: toSerializable(reservation) }
+    })
@@ -0,0 +1,75 @@
+// Category hierarchy helpers shared by the server and the UI, with no database access
+// so client components can import them. They work on the full category list, which
+// stays small enough to load in one go
+
+interface CategoryNode {
+    _id: string
+    parentId: string | null
+}
+
+/**
+ * URL-safe slug for a category name, e.g. "Home & Kitchen" -> "home-kitchen"
+ */
+export function slugify(name: string): string {
+    return name
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * A category followed by all of its descendants
+ */
+export function getSubtreeIds(categories: CategoryNode[], categoryId: string): string[] {
+    const ids = [categoryId]
+    // Breadth-first; ids grows as children are found
+    for (let i = 0; i < ids.length; i++) {
+        for (const category of categories) {
+            if (category.parentId === ids[i] && !ids.includes(category._id)) {
+                ids.push(category._id)
+            }
+        }
+    }
+    return ids
+}
+
+/**
+ * A category's ancestors from the root down to the category itself, for breadcrumbs
+ * Empty when the category does not exist
+ */
+export function getCategoryTrail<T extends CategoryNode>(categories: T[], categoryId: string): T[] {
+    const byId = new Map(categories.map(category => [category._id, category]))
+    const trail: T[] = []
+
+    let current = byId.get(categoryId)
+    while (current && !trail.includes(current)) {
+        trail.unshift(current)
+        current = current.parentId ? byId.get(current.parentId) : undefined
+    }
+    return trail
+}
+
+/**
+ * Categories in tree order with their depth, for indented lists and selects
+ * Children follow their parent; siblings keep the order they are given in
+ */
+export function flattenCategoryTree<T extends CategoryNode>(categories: T[]): Array<{ category: T; depth: number }> {
+    const ids = new Set(categories.map(category => category._id))
+    const flattened: Array<{ category: T; depth: number }> = []
+
+    const visit = (parentId: string | null, depth: number) => {
+        for (const category of categories) {
+            // Categories whose parent is missing are shown at the top level
+            const effectiveParent = category.parentId && ids.has(category.parentId) ? category.parentId : null
+            if (effectiveParent === parentId) {
+                flattened.push({ category, depth })
+                visit(category._id, depth + 1)
+            }
+        }
+    }
+
+    visit(null, 0)
+    return flattened
+}
@@ -0,0 +1,252 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, Collection, Db, WithId } from 'mongodb'
+import { getSubtreeIds, slugify } from './category-tree'
+import { invalidateProductSearchIndex } from './search'
+
+// --- Category Types ---
+
+// A node in the product taxonomy; top-level categories have no parent
+export interface Category {
+    _id?: ObjectId
+    name: string
+    slug: string             // Unique, used in storefront URLs
+    description: string
+    parentId: string | null
+    createdAt: Date
+    updatedAt: Date
+}
+
+// --- Serializable Types ---
+
+export interface CategorySerializable {
+    _id: string
+    name: string
+    slug: string
+    description: string
+    parentId: string | null
+    createdAt: string
+    updatedAt: string
+}
+
+// --- Input Types ---
+
+export interface CreateCategoryInput {
+    name: string
+    slug?: string            // Derived from the name when not given
+    description?: string
+    parentId?: string | null
+}
+
+export type UpdateCategoryInput = Partial<CreateCategoryInput>
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getCategoryCollection(): Promise<Collection<Category>> {
+    const db = await getDb()
+    return db.collection<Category>('categories')
+}
+
+// --- Utility Functions ---
+
+/**
+ * Convert a MongoDB category document to a serializable format
+ */
+export function toSerializable(category: WithId<Category>): CategorySerializable {
+    return {
+        _id: category._id.toHexString(),
+        name: category.name,
+        slug: category.slug,
+        description: category.description,
+        parentId: category.parentId,
+        createdAt: category.createdAt.toISOString(),
+        updatedAt: category.updatedAt.toISOString()
+    }
+}
+
+/**
+ * Get every category, alphabetically
+ */
+export async function getAllCategories(): Promise<WithId<Category>[]> {
+    const collection = await getCategoryCollection()
+    return await collection.find({}).sort({ name: 1 }).toArray()
+}
+
+/**
+ * Get a category by its ID
+ */
+export async function getCategoryById(categoryId: string): Promise<WithId<Category> | null> {
+    const collection = await getCategoryCollection()
+    const { ObjectId } = await import('mongodb')
+
+    try {
+        return await collection.findOne({ _id: new ObjectId(categoryId) })
+    } catch {
+        // Invalid ObjectId format
+        return null
+    }
+}
+
+/**
+ * Get a category by its slug
+ */
+export async function getCategoryBySlug(slug: string): Promise<WithId<Category> | null> {
+    const collection = await getCategoryCollection()
+    return await collection.findOne({ slug })
+}
+
+/**
+ * IDs of a category and every category below it
+ */
+export async function getCategorySubtreeIds(categoryId: string): Promise<string[]> {
+    const categories = await getAllCategories()
+    return getSubtreeIds(
+        categories.map(category => ({ _id: category._id.toHexString(), parentId: category.parentId })),
+        categoryId
+    )
+}
+
+/**
+ * Check a slug is well formed and not taken by another category
+ */
+async function assertSlugAvailable(slug: string, excludeId?: ObjectId): Promise<void> {
+    if (!slug) {
+        throw new Error('Category slug is required')
+    }
+
+    const collection = await getCategoryCollection()
+    const existing = await collection.findOne({ slug })
+    if (existing && !(excludeId && existing._id.equals(excludeId))) {
+        throw new Error(`A category with the slug "${slug}" already exists`)
+    }
+}
+
+/**
+ * Create a category, optionally below an existing one
+ */
+export async function createCategory(input: CreateCategoryInput): Promise<WithId<Category>> {
+    const collection = await getCategoryCollection()
+
+    const name = input.name?.trim()
+    if (!name) {
+        throw new Error('Category name is required')
+    }
+
+    const slug = slugify(input.slug || name)
+    await assertSlugAvailable(slug)
+
+    const parentId = input.parentId || null
+    if (parentId && !await getCategoryById(parentId)) {
+        throw new Error('Parent category not found')
+    }
+
+    const now = new Date()
+    const category: Category = {
+        name,
+        slug,
+        description: input.description?.trim() || '',
+        parentId,
+        createdAt: now,
+        updatedAt: now
+    }
+
+    const result = await collection.insertOne(category)
+    return { ...category, _id: result.insertedId }
+}
+
+/**
+ * Update a category
+ * A category cannot be moved below itself or one of its own descendants
+ */
+export async function updateCategory(
+    categoryId: string,
+    input: UpdateCategoryInput
+): Promise<WithId<Category> | null> {
+    const collection = await getCategoryCollection()
+
+    const category = await getCategoryById(categoryId)
+    if (!category) {
+        return null
+    }
+
+    const updateFields: Partial<Category> = {
+        updatedAt: new Date()
+    }
+
+    if (input.name !== undefined) {
+        const name = input.name.trim()
+        if (!name) {
+            throw new Error('Category name is required')
+        }
+        updateFields.name = name
+    }
+
+    if (input.slug !== undefined) {
+        const slug = slugify(input.slug)
+        await assertSlugAvailable(slug, category._id)
+        updateFields.slug = slug
+    }
+
+    if (input.description !== undefined) {
+        updateFields.description = input.description.trim()
+    }
+
+    if (input.parentId !== undefined) {
+        const parentId = input.parentId || null
+        if (parentId) {
+            if (!await getCategoryById(parentId)) {
+                throw new Error('Parent category not found')
+            }
+            const subtree = await getCategorySubtreeIds(categoryId)
+            if (subtree.includes(parentId)) {
+                throw new Error('A category cannot be moved below itself or one of its subcategories')
+            }
+        }
+        updateFields.parentId = parentId
+    }
+
+    const updated = await collection.findOneAndUpdate(
+        { _id: category._id },
+        { $set: updateFields },
+        { returnDocument: 'after' }
+    )
+
+    // Products are found by the names of their categories too
+    invalidateProductSearchIndex()
+    return updated
+}
+
+/**
+ * Delete a category that has no subcategories and no products
+ * Returns false when the category does not exist
+ */
+export async function deleteCategory(categoryId: string): Promise<boolean> {
+    const collection = await getCategoryCollection()
+    const db = await getDb()
+
+    const category = await getCategoryById(categoryId)
+    if (!category) {
+        return false
+    }
+
+    if (await collection.countDocuments({ parentId: categoryId }) > 0) {
+        throw new Error('Move or delete its subcategories first')
+    }
+
+    const productCount = await db.collection('products').countDocuments({ categoryId })
+    if (productCount > 0) {
+        throw new Error(`${productCount} ${productCount === 1 ? 'product is' : 'products are'} still in this category`)
+    }
+
+    const result = await collection.deleteOne({ _id: category._id })
+    return result.deletedCount > 0
+}
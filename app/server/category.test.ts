@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ObjectId } from 'mongodb'
+
+// --- Mock Imports for Testing ---
+
+// Mock for MongoDB collections
+const mockCategoryCollection = {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    insertOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    countDocuments: vi.fn(),
+    deleteOne: vi.fn(),
+}
+
+const mockProductCollection = {
+    find: vi.fn(),
+    countDocuments: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'products') return mockProductCollection
+        return mockCategoryCollection
+    }),
+}
+
+const mockClient = {
+    db: () => mockDb,
+}
+
+const mockClientPromise = Promise.resolve(mockClient)
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Helper to make find().sort().toArray() return the given categories
+function mockFindResult(categories: unknown[]) {
+    mockCategoryCollection.find.mockReturnValue({
+        sort: vi.fn().mockReturnValue({
+            toArray: vi.fn().mockResolvedValue(categories),
+        }),
+    })
+}
+
+const rootId = new ObjectId()
+const childId = new ObjectId()
+const grandchildId = new ObjectId()
+
+const categories = [
+    { _id: rootId, name: 'Home', slug: 'home', description: '', parentId: null },
+    { _id: childId, name: 'Kitchen', slug: 'kitchen', description: '', parentId: rootId.toHexString() },
+    { _id: grandchildId, name: 'Mugs', slug: 'mugs', description: '', parentId: childId.toHexString() },
+]
+
+// --- Unit Tests ---
+
+describe('category-tree', () => {
+    const nodes = [
+        { _id: 'home', parentId: null },
+        { _id: 'garden', parentId: null },
+        { _id: 'kitchen', parentId: 'home' },
+        { _id: 'mugs', parentId: 'kitchen' },
+        { _id: 'lost', parentId: 'missing' },
+    ]
+
+    it('should slugify category names', async () => {
+        const { slugify } = await import('./category-tree')
+
+        expect(slugify('Home & Kitchen')).toBe('home-kitchen')
+        expect(slugify('  Café Décor ')).toBe('cafe-decor')
+    })
+
+    it('should collect a category and all of its descendants', async () => {
+        const { getSubtreeIds } = await import('./category-tree')
+
+        expect(getSubtreeIds(nodes, 'home')).toEqual(['home', 'kitchen', 'mugs'])
+        expect(getSubtreeIds(nodes, 'mugs')).toEqual(['mugs'])
+    })
+
+    it('should build the breadcrumb trail from the root', async () => {
+        const { getCategoryTrail } = await import('./category-tree')
+
+        expect(getCategoryTrail(nodes, 'mugs').map(node => node._id)).toEqual(['home', 'kitchen', 'mugs'])
+        expect(getCategoryTrail(nodes, 'unknown')).toEqual([])
+    })
+
+    it('should flatten the tree with depths, showing orphans at the top level', async () => {
+        const { flattenCategoryTree } = await import('./category-tree')
+
+        const flattened = flattenCategoryTree(nodes).map(({ category, depth }) => [category._id, depth])
+        expect(flattened).toEqual([
+            ['home', 0],
+            ['kitchen', 1],
+            ['mugs', 2],
+            ['garden', 0],
+            ['lost', 0],
+        ])
+    })
+})
+
+describe('createCategory', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should create a category with a slug derived from its name', async () => {
+        const { createCategory } = await import('./category-utils')
+        const insertedId = new ObjectId()
+        mockCategoryCollection.findOne
+            .mockResolvedValueOnce(null)         // Slug is free
+            .mockResolvedValueOnce(categories[0]) // Parent exists
+        mockCategoryCollection.insertOne.mockResolvedValue({ insertedId })
+
+        const category = await createCategory({
+            name: ' Table Linen ',
+            parentId: rootId.toHexString()
+        })
+
+        expect(category).toMatchObject({
+            _id: insertedId,
+            name: 'Table Linen',
+            slug: 'table-linen',
+            description: '',
+            parentId: rootId.toHexString()
+        })
+        expect(mockCategoryCollection.findOne).toHaveBeenCalledWith({ slug: 'table-linen' })
+    })
+
+    it('should reject a slug that is already taken', async () => {
+        const { createCategory } = await import('./category-utils')
+        mockCategoryCollection.findOne.mockResolvedValue(categories[1])
+
+        await expect(createCategory({ name: 'Kitchen' }))
+            .rejects.toThrow('A category with the slug "kitchen" already exists')
+        expect(mockCategoryCollection.insertOne).not.toHaveBeenCalled()
+    })
+
+    it('should reject a parent that does not exist', async () => {
+        const { createCategory } = await import('./category-utils')
+        mockCategoryCollection.findOne.mockResolvedValue(null)
+
+        await expect(createCategory({ name: 'Bowls', parentId: new ObjectId().toHexString() }))
+            .rejects.toThrow('Parent category not found')
+    })
+})
+
+describe('updateCategory', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should not move a category below one of its own subcategories', async () => {
+        const { updateCategory } = await import('./category-utils')
+        mockCategoryCollection.findOne
+            .mockResolvedValueOnce(categories[0]) // Category being moved
+            .mockResolvedValueOnce(categories[2]) // New parent
+        mockFindResult(categories)
+
+        await expect(updateCategory(rootId.toHexString(), { parentId: grandchildId.toHexString() }))
+            .rejects.toThrow('A category cannot be moved below itself or one of its subcategories')
+        expect(mockCategoryCollection.findOneAndUpdate).not.toHaveBeenCalled()
+    })
+})
+
+describe('deleteCategory', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should refuse to delete a category with subcategories', async () => {
+        const { deleteCategory } = await import('./category-utils')
+        mockCategoryCollection.findOne.mockResolvedValue(categories[1])
+        mockCategoryCollection.countDocuments.mockResolvedValue(1)
+
+        await expect(deleteCategory(childId.toHexString()))
+            .rejects.toThrow('Move or delete its subcategories first')
+        expect(mockCategoryCollection.deleteOne).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to delete a category that still has products', async () => {
+        const { deleteCategory } = await import('./category-utils')
+        mockCategoryCollection.findOne.mockResolvedValue(categories[2])
+        mockCategoryCollection.countDocuments.mockResolvedValue(0)
+        mockProductCollection.countDocuments.mockResolvedValue(3)
+
+        await expect(deleteCategory(grandchildId.toHexString()))
+            .rejects.toThrow('3 products are still in this category')
+        expect(mockProductCollection.countDocuments).toHaveBeenCalledWith({ categoryId: grandchildId.toHexString() })
+    })
+
+    it('should delete an empty category', async () => {
+        const { deleteCategory } = await import('./category-utils')
+        mockCategoryCollection.findOne.mockResolvedValue(categories[2])
+        mockCategoryCollection.countDocuments.mockResolvedValue(0)
+        mockProductCollection.countDocuments.mockResolvedValue(0)
+        mockCategoryCollection.deleteOne.mockResolvedValue({ deletedCount: 1 })
+
+        expect(await deleteCategory(grandchildId.toHexString())).toBe(true)
+        expect(mockCategoryCollection.deleteOne).toHaveBeenCalledWith({ _id: grandchildId })
+    })
+})
+
+describe('getProductList - Categories', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should filter by a category and its subcategories', async () => {
+        const { getProductList } = await import('./product-utils')
+        mockFindResult(categories)
+
+        const productQuery = {
+            sort: vi.fn().mockReturnThis(),
+            collation: vi.fn().mockReturnThis(),
+            skip: vi.fn().mockReturnThis(),
+            limit: vi.fn().mockReturnThis(),
+            toArray: vi.fn().mockResolvedValue([]),
+        }
+        mockProductCollection.find.mockReturnValue(productQuery)
+        mockProductCollection.countDocuments.mockResolvedValue(0)
+
+        await getProductList({ categoryId: childId.toHexString() })
+
+        expect(mockProductCollection.find).toHaveBeenCalledWith({
+            categoryId: { $in: [childId.toHexString(), grandchildId.toHexString()] }
+        })
+    })
+})
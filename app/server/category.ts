@@ -0,0 +1,85 @@
+import { createServerFn } from '@tanstack/react-start'
+
+import type { CreateCategoryInput, UpdateCategoryInput } from './category-utils'
+
+// --- Input Types for Server Functions ---
+
+interface UpdateCategoryServerInput extends UpdateCategoryInput {
+    categoryId: string
+}
+
+interface DeleteCategoryInput {
+    categoryId: string
+}
+
+// --- Server Functions ---
+
+/**
+ * Get the full category list (Public)
+ * Small enough to send whole; clients build the tree with category-tree helpers
+ */
+export const getCategoriesFn = createServerFn({ method: "GET" })
+    .handler(async () => {
+        const { getAllCategories, toSerializable } = await import('./category-utils')
+
+        const categories = await getAllCategories()
+
+        return { categories: categories.map(toSerializable) }
+    })
+
+/**
+ * Create a category (Admin/Catalogue reviewer only)
+ */
+export const createCategoryFn = createServerFn({ method: "POST" })
+    .inputValidator((data: CreateCategoryInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { createCategory, toSerializable } = await import('./category-utils')
+
+        await requirePermission('category:manage')
+
+        const category = await createCategory(data)
+
+        return { category: toSerializable(category), success: true }
+    })
+
+/**
+ * Update a category's details or move it within the tree (Admin/Catalogue reviewer only)
+ */
+export const updateCategoryFn = createServerFn({ method: "POST" })
+    .inputValidator((data: UpdateCategoryServerInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { updateCategory, toSerializable } = await import('./category-utils')
+
+        await requirePermission('category:manage')
+
+        const { categoryId, ...updateData } = data
+        const category = await updateCategory(categoryId, updateData)
+
+        if (!category) {
+            throw new Error('Category not found')
+        }
+
+        return { category: toSerializable(category), success: true }
+    })
+
+/**
+ * Delete an empty category (Admin/Catalogue reviewer only)
+ */
+export const deleteCategoryFn = createServerFn({ method: "POST" })
+    .inputValidator((data: DeleteCategoryInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { deleteCategory } = await import('./category-utils')
+
+        await requirePermission('category:manage')
+
+        const deleted = await deleteCategory(data.categoryId)
+
+        if (!deleted) {
+            throw new Error('Category not found')
+        }
+
+        return { success: true, message: 'Category deleted successfully' }
+    })
@@ -0,0 +1,141 @@
+import { ObjectId } from 'mongodb'
+
+// Keyset pagination shared by the product and order listings
+// A cursor records the sort values of the row at the edge of a page, so the next
+// page starts right after it however many rows were added or removed meanwhile
+
+// --- Cursor Types ---
+
+// Sort order of a cursor-paginated listing; must end with a unique field such as _id,
+// so every row has a position of its own
+export type CursorSort = Record<string, 1 | -1>
+
+export type CursorDirection = 'next' | 'prev'
+
+// Options switching a listing from page numbers to cursors
+export interface CursorOptions {
+    pagination?: 'offset' | 'cursor'
+    cursor?: string              // From nextCursor or prevCursor of an earlier page; omit for the first page
+    direction?: CursorDirection  // Which side of the cursor to read; defaults to next
+}
+
+export interface CursorPageInfo {
+    nextCursor: string | null    // null on the last page
+    prevCursor: string | null    // null on the first page
+}
+
+// The listing sorted newest first, for rows created in the same millisecond too
+export const NEWEST_FIRST: CursorSort = { createdAt: -1, _id: -1 }
+
+// --- Encoding ---
+
+type EncodedValue = string | number | boolean | null | { d: string } | { o: string }
+
+function encodeValue(value: unknown): EncodedValue {
+    if (value instanceof Date) return { d: value.toISOString() }
+    if (value instanceof ObjectId) return { o: value.toHexString() }
+    return value as EncodedValue
+}
+
+function decodeValue(value: EncodedValue): unknown {
+    if (value && typeof value === 'object') {
+        if ('d' in value) return new Date(value.d)
+        if ('o' in value) return new ObjectId(value.o)
+    }
+    return value
+}
+
+function getPath(document: object, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (value, key) => (value as Record<string, unknown> | undefined)?.[key],
+        document
+    )
+}
+
+/**
+ * Encode the position of a row in a listing sorted by the given fields
+ */
+export function encodeCursor(sort: CursorSort, document: object): string {
+    const payload = {
+        f: Object.keys(sort),
+        v: Object.keys(sort).map(field => encodeValue(getPath(document, field) ?? null))
+    }
+    return Buffer.from(JSON.stringify(payload)).toString('base64url')
+}
+
+/**
+ * Decode a cursor into the sort values it records
+ * Cursors only fit the sort order they were made for
+ */
+export function decodeCursor(sort: CursorSort, cursor: string): unknown[] {
+    try {
+        const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+        if (JSON.stringify(payload.f) !== JSON.stringify(Object.keys(sort))) {
+            throw new Error('Cursor is for another sort order')
+        }
+        return (payload.v as EncodedValue[]).map(decodeValue)
+    } catch {
+        throw new Error('Invalid pagination cursor')
+    }
+}
+
+// --- Queries ---
+
+/**
+ * Query condition for the rows after (or before) a cursor's position
+ */
+export function keysetFilter(sort: CursorSort, cursor: string, direction: CursorDirection): Record<string, unknown> {
+    const values = decodeCursor(sort, cursor)
+    const fields = Object.keys(sort)
+
+    // Rows that tie on every earlier field and move past the cursor on this one
+    return {
+        $or: fields.map((field, index) => {
+            const forwards = (sort[field] === 1) === (direction === 'next')
+            return {
+                ...Object.fromEntries(fields.slice(0, index).map((earlier, i) => [earlier, values[i]])),
+                [field]: { [forwards ? '$gt' : '$lt']: values[index] }
+            }
+        })
+    }
+}
+
+/**
+ * The sort order to read rows in: reversed when reading backwards from a cursor
+ */
+export function readOrder(sort: CursorSort, direction: CursorDirection): CursorSort {
+    if (direction === 'next') {
+        return sort
+    }
+    return Object.fromEntries(Object.entries(sort).map(([field, order]) => [field, order === 1 ? -1 : 1]))
+}
+
+/**
+ * Turn the rows read for a page into the page and its cursors
+ * Expects up to limit + 1 rows in read order; the extra row shows there is more to read
+ */
+export function toCursorPage<T extends object>(
+    rows: T[],
+    sort: CursorSort,
+    options: { cursor?: string; direction?: CursorDirection; limit: number }
+): { items: T[] } & CursorPageInfo {
+    const direction = options.direction || 'next'
+    const hasMore = rows.length > options.limit
+    const items = rows.slice(0, options.limit)
+    if (direction === 'prev') {
+        items.reverse()
+    }
+
+    const first = items[0]
+    const last = items[items.length - 1]
+
+    // Reading forwards from a cursor means there were rows before it, and backwards after it
+    const hasNext = direction === 'next' ? hasMore : !!options.cursor
+    const hasPrev = direction === 'prev' ? hasMore : !!options.cursor
+
+    return {
+        items,
+        nextCursor: hasNext && last ? encodeCursor(sort, last) : null,
+        prevCursor: hasPrev && first ? encodeCursor(sort, first) : null
+    }
+}
@@ -0,0 +1,19 @@
+// --- Customer Review Rules ---
+// Kept free of database imports so the review form, supplier replies and moderation can share them
+
+export const MAX_REVIEW_PHOTOS = 4
+
+// Longest text accepted for each review field
+export const REVIEW_LIMITS = {
+    title: 120,
+    body: 4000,
+    reply: 2000,
+    moderationReason: 500
+} as const
+
+/**
+ * Format an average rating for display, e.g. 4.5 -> "4.5", 4 -> "4.0"
+ */
+export function formatRating(average: number): string {
+    return average.toFixed(1)
+}
@@ -0,0 +1,424 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, Collection, Db, WithId } from 'mongodb'
+import { MAX_REVIEW_PHOTOS, REVIEW_LIMITS } from './customer-review-state'
+import { getOrderCollection } from './order-utils'
+import { getProductById, getProductCollection, type ProductRating } from './product-utils'
+import { keysetFilter, NEWEST_FIRST, readOrder, toCursorPage, type CursorOptions, type CursorPageInfo } from './cursor'
+
+// --- Customer Review Types ---
+
+// Published reviews count towards the product's rating; hidden ones were taken down by a moderator
+export type CustomerReviewStatus = 'published' | 'hidden'
+
+// The maker's public answer to a review
+export interface ReviewReply {
+    body: string
+    authorId: string
+    createdAt: Date
+    updatedAt: Date
+}
+
+export interface ReviewModeration {
+    hiddenBy: string
+    hiddenAt: Date
+    reason?: string          // Kept for staff; not shown to the customer or the maker
+}
+
+// A customer's rating of a product they bought, stored in the reviews collection
+export interface CustomerReview {
+    _id?: ObjectId
+    productId: string
+    supplierId: string
+    userId: string
+    authorName: string       // Shown with the review, as known when it was written
+    orderId: string          // The delivered order that verified the purchase
+    rating: number           // Whole stars, 1-5
+    title?: string
+    body: string
+    photos: string[]
+    reply?: ReviewReply
+    status: CustomerReviewStatus
+    moderation?: ReviewModeration
+    createdAt: Date
+    updatedAt: Date
+}
+
+// --- Serializable Types ---
+
+export interface ReviewReplySerializable extends Omit<ReviewReply, 'createdAt' | 'updatedAt'> {
+    createdAt: string
+    updatedAt: string
+}
+
+export interface ReviewModerationSerializable extends Omit<ReviewModeration, 'hiddenAt'> {
+    hiddenAt: string
+}
+
+export interface CustomerReviewSerializable extends Omit<CustomerReview, '_id' | 'reply' | 'moderation' | 'createdAt' | 'updatedAt'> {
+    _id: string
+    reply?: ReviewReplySerializable
+    moderation?: ReviewModerationSerializable
+    createdAt: string
+    updatedAt: string
+}
+
+// What shoppers see of a review: no account, order or moderation details
+export type CustomerReviewPublicSerializable = Omit<CustomerReviewSerializable, 'userId' | 'orderId' | 'moderation'>
+
+// --- Input Types ---
+
+export interface CreateCustomerReviewInput {
+    productId: string
+    rating: number
+    title?: string
+    body: string
+    photos?: string[]
+}
+
+export interface CustomerReviewListOptions extends Omit<CursorOptions, 'pagination'> {
+    productId?: string
+    supplierId?: string
+    status?: CustomerReviewStatus
+    limit?: number
+}
+
+export interface CursorPaginatedReviews<T> extends CursorPageInfo {
+    reviews: T[]
+    limit: number
+}
+
+// Who is writing a review, as known from their session
+export interface ReviewAuthor {
+    id: string
+    name: string | null
+    isAnonymous?: boolean | null
+}
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getCustomerReviewCollection(): Promise<Collection<CustomerReview>> {
+    const db = await getDb()
+    return db.collection<CustomerReview>('reviews')
+}
+
+// --- Utility Functions ---
+
+/**
+ * Convert a MongoDB review document to a serializable format, for staff
+ */
+export function toSerializable(review: WithId<CustomerReview>): CustomerReviewSerializable {
+    return {
+        ...review,
+        _id: review._id.toHexString(),
+        reply: review.reply && {
+            ...review.reply,
+            createdAt: review.reply.createdAt.toISOString(),
+            updatedAt: review.reply.updatedAt.toISOString()
+        },
+        moderation: review.moderation && {
+            ...review.moderation,
+            hiddenAt: review.moderation.hiddenAt.toISOString()
+        },
+        createdAt: review.createdAt.toISOString(),
+        updatedAt: review.updatedAt.toISOString()
+    }
+}
+
+/**
+ * Convert a review for shoppers and makers, leaving out who wrote it beyond their name
+ */
+export function toPublicSerializable(review: WithId<CustomerReview>): CustomerReviewPublicSerializable {
+    const { userId: _userId, orderId: _orderId, moderation: _moderation, ...rest } = toSerializable(review)
+    return rest
+}
+
+/**
+ * Trim a review text field and check it fits
+ */
+function cleanText(field: keyof typeof REVIEW_LIMITS, value: string | undefined, label: string, required = true): string {
+    const text = (value || '').trim()
+    if (required && !text) {
+        throw new Error(`${label} is required`)
+    }
+    if (text.length > REVIEW_LIMITS[field]) {
+        throw new Error(`${label} must be ${REVIEW_LIMITS[field]} characters or fewer`)
+    }
+    return text
+}
+
+async function toObjectId(id: string): Promise<ObjectId | null> {
+    const { ObjectId } = await import('mongodb')
+    try {
+        return new ObjectId(id)
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Find a delivered order in which the customer bought the product
+ * An order counts once the maker's shipment is delivered, even if other makers' parts are still on the way
+ */
+export async function findVerifiedPurchase(
+    userId: string,
+    product: { productId: string; supplierId: string }
+): Promise<string | null> {
+    const orders = await getOrderCollection()
+    const order = await orders.findOne(
+        {
+            userId,
+            'items.productId': product.productId,
+            $or: [
+                { status: 'delivered' },
+                { shipments: { $elemMatch: { supplierId: product.supplierId, status: 'delivered' } } }
+            ]
+        },
+        { sort: { createdAt: -1 }, projection: { _id: 1 } }
+    )
+    return order ? order._id.toHexString() : null
+}
+
+/**
+ * Get a customer's review of a product, whatever its status
+ */
+export async function getUserReview(userId: string, productId: string): Promise<WithId<CustomerReview> | null> {
+    const collection = await getCustomerReviewCollection()
+    return await collection.findOne({ userId, productId })
+}
+
+/**
+ * Get a review by its ID
+ */
+export async function getCustomerReviewById(reviewId: string): Promise<WithId<CustomerReview> | null> {
+    const objectId = await toObjectId(reviewId)
+    if (!objectId) {
+        return null
+    }
+    const collection = await getCustomerReviewCollection()
+    return await collection.findOne({ _id: objectId })
+}
+
+/**
+ * Recalculate a product's rating from its published reviews
+ * The rating is kept on the product so listings can show it without reading reviews
+ */
+export async function refreshProductRating(productId: string): Promise<ProductRating | null> {
+    const objectId = await toObjectId(productId)
+    if (!objectId) {
+        return null
+    }
+
+    const collection = await getCustomerReviewCollection()
+    const [summary] = await collection.aggregate<{ average: number; count: number }>([
+        { $match: { productId, status: 'published' } },
+        { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } }
+    ]).toArray()
+
+    const products = await getProductCollection()
+    if (!summary || summary.count === 0) {
+        await products.updateOne({ _id: objectId }, { $unset: { rating: '' } })
+        return null
+    }
+
+    const rating: ProductRating = {
+        average: Math.round(summary.average * 10) / 10,
+        count: summary.count
+    }
+    await products.updateOne({ _id: objectId }, { $set: { rating } })
+    return rating
+}
+
+/**
+ * Review a product
+ * Only customers with a delivered order containing the product can review it, once
+ */
+export async function createCustomerReview(
+    author: ReviewAuthor,
+    input: CreateCustomerReviewInput
+): Promise<WithId<CustomerReview>> {
+    if (author.isAnonymous) {
+        throw new Error('Sign in to review products')
+    }
+
+    if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+        throw new Error('Rating must be between 1 and 5 stars')
+    }
+    const title = cleanText('title', input.title, 'Title', false)
+    const body = cleanText('body', input.body, 'Review')
+
+    const photos = input.photos || []
+    if (photos.length > MAX_REVIEW_PHOTOS) {
+        throw new Error(`A review can include at most ${MAX_REVIEW_PHOTOS} photos`)
+    }
+
+    const product = await getProductById(input.productId)
+    if (!product || product.status !== 'active') {
+        throw new Error('Product not found')
+    }
+
+    const collection = await getCustomerReviewCollection()
+
+    const existing = await collection.findOne({ userId: author.id, productId: input.productId })
+    if (existing) {
+        throw new Error('You have already reviewed this product')
+    }
+
+    const orderId = await findVerifiedPurchase(author.id, {
+        productId: input.productId,
+        supplierId: product.supplierId
+    })
+    if (!orderId) {
+        throw new Error('You can review products once your order has been delivered')
+    }
+
+    const now = new Date()
+    const review: CustomerReview = {
+        productId: input.productId,
+        supplierId: product.supplierId,
+        userId: author.id,
+        authorName: author.name || 'Makerskind customer',
+        orderId,
+        rating: input.rating,
+        ...(title && { title }),
+        body,
+        photos,
+        status: 'published',
+        createdAt: now,
+        updatedAt: now
+    }
+
+    const result = await collection.insertOne(review)
+    await refreshProductRating(input.productId)
+
+    return { ...review, _id: result.insertedId }
+}
+
+/**
+ * List reviews newest first, paged with cursors
+ */
+export async function getCustomerReviews(
+    options: CustomerReviewListOptions = {}
+): Promise<CursorPaginatedReviews<WithId<CustomerReview>>> {
+    const collection = await getCustomerReviewCollection()
+
+    const limit = Math.min(50, Math.max(1, options.limit || 10))
+    const direction = options.direction || 'next'
+
+    const filter: Record<string, unknown> = {}
+    if (options.productId) filter.productId = options.productId
+    if (options.supplierId) filter.supplierId = options.supplierId
+    if (options.status) filter.status = options.status
+
+    const rows = await collection
+        .find(options.cursor ? { $and: [filter, keysetFilter(NEWEST_FIRST, options.cursor, direction)] } : filter)
+        .sort(readOrder(NEWEST_FIRST, direction))
+        .limit(limit + 1)
+        .toArray()
+
+    const { items, ...cursors } = toCursorPage(rows, NEWEST_FIRST, { ...options, limit })
+    return { reviews: items, limit, ...cursors }
+}
+
+/**
+ * Add or edit the maker's reply to a review
+ */
+export async function replyToReview(
+    reviewId: string,
+    authorId: string,
+    text: string
+): Promise<WithId<CustomerReview> | null> {
+    const body = cleanText('reply', text, 'Reply')
+
+    const objectId = await toObjectId(reviewId)
+    if (!objectId) {
+        return null
+    }
+
+    const collection = await getCustomerReviewCollection()
+    const review = await collection.findOne({ _id: objectId })
+    if (!review) {
+        return null
+    }
+
+    const now = new Date()
+    const reply: ReviewReply = {
+        body,
+        authorId,
+        createdAt: review.reply?.createdAt ?? now,
+        updatedAt: now
+    }
+
+    return await collection.findOneAndUpdate(
+        { _id: objectId },
+        { $set: { reply, updatedAt: now } },
+        { returnDocument: 'after' }
+    )
+}
+
+/**
+ * Hide an abusive review, or publish a hidden one again
+ * The product's rating only counts published reviews, so it is recalculated
+ */
+export async function setCustomerReviewStatus(
+    reviewId: string,
+    status: CustomerReviewStatus,
+    moderatorId: string,
+    reason?: string
+): Promise<WithId<CustomerReview> | null> {
+    if (status !== 'published' && status !== 'hidden') {
+        throw new Error('Invalid review status')
+    }
+    const cleanReason = cleanText('moderationReason', reason, 'Reason', false)
+
+    const objectId = await toObjectId(reviewId)
+    if (!objectId) {
+        return null
+    }
+
+    const now = new Date()
+    const collection = await getCustomerReviewCollection()
+    const updated = await collection.findOneAndUpdate(
+        { _id: objectId },
+        status === 'hidden'
+            ? {
+                $set: {
+                    status,
+                    moderation: { hiddenBy: moderatorId, hiddenAt: now, ...(cleanReason && { reason: cleanReason }) },
+                    updatedAt: now
+                }
+            }
+            : { $set: { status, updatedAt: now }, $unset: { moderation: '' } },
+        { returnDocument: 'after' }
+    )
+
+    if (updated) {
+        await refreshProductRating(updated.productId)
+    }
+    return updated
+}
+
+/**
+ * Get the names of reviewed products, keyed by product ID, for review listings
+ */
+export async function getReviewedProductNames(productIds: string[]): Promise<Map<string, string>> {
+    const { ObjectId } = await import('mongodb')
+
+    const ids = [...new Set(productIds)].filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id))
+    if (ids.length === 0) {
+        return new Map()
+    }
+
+    const products = await getProductCollection()
+    const found = await products.find({ _id: { $in: ids } }, { projection: { name: 1 } }).toArray()
+    return new Map(found.map(product => [product._id.toHexString(), product.name]))
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ObjectId } from 'mongodb'
+
+// --- Mock Imports for Testing ---
+
+// Mocks for MongoDB collections
+const mockReviewCollection = {
+    findOne: vi.fn(),
+    insertOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    aggregate: vi.fn(),
+}
+
+const mockProductCollection = {
+    findOne: vi.fn(),
+    updateOne: vi.fn(),
+}
+
+const mockOrderCollection = {
+    findOne: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'products') return mockProductCollection
+        if (name === 'orders') return mockOrderCollection
+        return mockReviewCollection
+    }),
+}
+
+const mockClientPromise = Promise.resolve({
+    db: () => mockDb,
+})
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+const productId = new ObjectId().toHexString()
+const customer = { id: 'customer-1', name: 'Ada' }
+
+const activeProduct = {
+    _id: new ObjectId(productId),
+    supplierId: 'supplier-1',
+    name: 'Stoneware Mug',
+    status: 'active',
+}
+
+function mockRatingSummary(summary: { average: number; count: number } | null) {
+    mockReviewCollection.aggregate.mockReturnValue({
+        toArray: vi.fn().mockResolvedValue(summary ? [summary] : []),
+    })
+}
+
+// --- Unit Tests ---
+
+describe('createCustomerReview', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        mockProductCollection.findOne.mockResolvedValue(activeProduct)
+        mockReviewCollection.findOne.mockResolvedValue(null)
+        mockRatingSummary({ average: 4.666, count: 3 })
+    })
+
+    it('should publish a review from a delivered order and update the product rating', async () => {
+        const { createCustomerReview } = await import('./customer-review-utils')
+        const orderId = new ObjectId()
+        mockOrderCollection.findOne.mockResolvedValue({ _id: orderId })
+        mockReviewCollection.insertOne.mockResolvedValue({ insertedId: new ObjectId() })
+
+        const review = await createCustomerReview(customer, {
+            productId,
+            rating: 5,
+            title: '  Lovely  ',
+            body: 'Holds a whole pot of tea',
+        })
+
+        expect(review).toMatchObject({
+            productId,
+            supplierId: 'supplier-1',
+            userId: 'customer-1',
+            authorName: 'Ada',
+            orderId: orderId.toHexString(),
+            rating: 5,
+            title: 'Lovely',
+            status: 'published',
+        })
+
+        // The maker's shipment counts as delivered even if the rest of the order is not
+        const [orderFilter] = mockOrderCollection.findOne.mock.calls[0]
+        expect(orderFilter).toMatchObject({ userId: 'customer-1', 'items.productId': productId })
+        expect(orderFilter.$or).toContainEqual({
+            shipments: { $elemMatch: { supplierId: 'supplier-1', status: 'delivered' } },
+        })
+
+        expect(mockProductCollection.updateOne).toHaveBeenCalledWith(
+            { _id: new ObjectId(productId) },
+            { $set: { rating: { average: 4.7, count: 3 } } }
+        )
+    })
+
+    it('should refuse customers without a delivered order for the product', async () => {
+        const { createCustomerReview } = await import('./customer-review-utils')
+        mockOrderCollection.findOne.mockResolvedValue(null)
+
+        await expect(createCustomerReview(customer, { productId, rating: 4, body: 'Nice' }))
+            .rejects.toThrow('You can review products once your order has been delivered')
+        expect(mockReviewCollection.insertOne).not.toHaveBeenCalled()
+    })
+
+    it('should allow one review per product', async () => {
+        const { createCustomerReview } = await import('./customer-review-utils')
+        mockReviewCollection.findOne.mockResolvedValue({ _id: new ObjectId() })
+
+        await expect(createCustomerReview(customer, { productId, rating: 4, body: 'Nice' }))
+            .rejects.toThrow('You have already reviewed this product')
+    })
+
+    it('should validate the rating and text', async () => {
+        const { createCustomerReview } = await import('./customer-review-utils')
+
+        await expect(createCustomerReview(customer, { productId, rating: 0, body: 'Nice' }))
+            .rejects.toThrow('Rating must be between 1 and 5 stars')
+        await expect(createCustomerReview(customer, { productId, rating: 3.5, body: 'Nice' }))
+            .rejects.toThrow('Rating must be between 1 and 5 stars')
+        await expect(createCustomerReview(customer, { productId, rating: 3, body: '   ' }))
+            .rejects.toThrow('Review is required')
+        await expect(createCustomerReview({ ...customer, isAnonymous: true }, { productId, rating: 3, body: 'Nice' }))
+            .rejects.toThrow('Sign in to review products')
+    })
+})
+
+describe('setCustomerReviewStatus', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should hide a review and drop it from the product rating', async () => {
+        const { setCustomerReviewStatus } = await import('./customer-review-utils')
+        const reviewId = new ObjectId()
+        mockReviewCollection.findOneAndUpdate.mockResolvedValue({ _id: reviewId, productId, status: 'hidden' })
+        mockRatingSummary(null)
+
+        await setCustomerReviewStatus(reviewId.toHexString(), 'hidden', 'admin-1', 'Abusive language')
+
+        const [, update] = mockReviewCollection.findOneAndUpdate.mock.calls[0]
+        expect(update.$set).toMatchObject({
+            status: 'hidden',
+            moderation: { hiddenBy: 'admin-1', reason: 'Abusive language' },
+        })
+        expect(mockProductCollection.updateOne).toHaveBeenCalledWith(
+            { _id: new ObjectId(productId) },
+            { $unset: { rating: '' } }
+        )
+    })
+})
+
+describe('replyToReview', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should keep when the reply was first written when it is edited', async () => {
+        const { replyToReview } = await import('./customer-review-utils')
+        const reviewId = new ObjectId()
+        const firstReplied = new Date('2026-01-01')
+        mockReviewCollection.findOne.mockResolvedValue({
+            _id: reviewId,
+            reply: { body: 'Thanks!', authorId: 'supplier-1', createdAt: firstReplied, updatedAt: firstReplied },
+        })
+        mockReviewCollection.findOneAndUpdate.mockResolvedValue({ _id: reviewId })
+
+        await replyToReview(reviewId.toHexString(), 'supplier-1', ' Thank you so much! ')
+
+        const [, update] = mockReviewCollection.findOneAndUpdate.mock.calls[0]
+        expect(update.$set.reply).toMatchObject({ body: 'Thank you so much!', createdAt: firstReplied })
+        expect(update.$set.reply.updatedAt).not.toEqual(firstReplied)
+    })
+
+    it('should not store an empty reply', async () => {
+        const { replyToReview } = await import('./customer-review-utils')
+
+        await expect(replyToReview(new ObjectId().toHexString(), 'supplier-1', '  '))
+            .rejects.toThrow('Reply is required')
+    })
+})
+
+describe('Review permissions', () => {
+    it('should let suppliers reply only to reviews of their own products', async () => {
+        const { can } = await import('../utils/rbac')
+        const supplier = { id: 'supplier-1', role: 'supplier' as const }
+
+        expect(can(supplier, 'review:reply', { ownerId: 'supplier-1' })).toBe(true)
+        expect(can(supplier, 'review:reply', { ownerId: 'supplier-2' })).toBe(false)
+        expect(can(supplier, 'review:moderate')).toBe(false)
+        expect(can({ id: 'agent-1', role: 'support' }, 'review:moderate')).toBe(true)
+    })
+})
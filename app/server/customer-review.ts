@@ -0,0 +1,270 @@
+import { createServerFn } from '@tanstack/react-start'
+
+import type { CursorOptions } from './cursor'
+import type { CreateCustomerReviewInput, CustomerReviewStatus } from './customer-review-utils'
+
+// --- Input Types for Server Functions ---
+
+interface GetProductReviewsInput extends Omit<CursorOptions, 'pagination'> {
+    productId: string
+    limit?: number
+}
+
+interface GetMyReviewInput {
+    productId: string
+}
+
+interface UploadReviewPhotoInput {
+    filename: string
+    contentType: string
+    content: string
+}
+
+interface GetReviewListInput extends Omit<CursorOptions, 'pagination'> {
+    status?: CustomerReviewStatus
+    limit?: number
+}
+
+interface ReplyToReviewInput {
+    reviewId: string
+    body: string
+}
+
+interface SetReviewStatusInput {
+    reviewId: string
+    status: CustomerReviewStatus
+    reason?: string
+}
+
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024
+
+// --- Server Functions ---
+
+/**
+ * Get the published reviews of a product, newest first (Public)
+ */
+export const getProductReviewsFn = createServerFn({ method: "GET" })
+    .inputValidator((data: GetProductReviewsInput) => data)
+    .handler(async ({ data }) => {
+        const { getCustomerReviews, toPublicSerializable } = await import('./customer-review-utils')
+
+        const result = await getCustomerReviews({
+            productId: data.productId,
+            status: 'published',
+            cursor: data.cursor,
+            direction: data.direction,
+            limit: data.limit
+        })
+
+        return { ...result, reviews: result.reviews.map(toPublicSerializable) }
+    })
+
+/**
+ * Whether the current customer can review a product, and their review if they have written one
+ */
+export const getMyProductReviewFn = createServerFn({ method: "GET" })
+    .inputValidator((data: GetMyReviewInput) => data)
+    .handler(async ({ data }) => {
+        const { getAuthSession } = await import('./auth-utils')
+        const { getProductById } = await import('./product-utils')
+        const { findVerifiedPurchase, getUserReview, toPublicSerializable } = await import('./customer-review-utils')
+
+        const session = await getAuthSession()
+        if (!session?.user || session.user.isAnonymous) {
+            return { signedIn: false, canReview: false, review: null }
+        }
+
+        const review = await getUserReview(session.user.id, data.productId)
+        if (review) {
+            return { signedIn: true, canReview: false, review: toPublicSerializable(review) }
+        }
+
+        const product = await getProductById(data.productId)
+        const orderId = product && await findVerifiedPurchase(session.user.id, {
+            productId: data.productId,
+            supplierId: product.supplierId
+        })
+
+        return { signedIn: true, canReview: !!orderId, review: null }
+    })
+
+/**
+ * Upload a photo for a review (Any signed-in customer)
+ * Photos are stored per user so a review can only reference the reviewer's own uploads
+ */
+export const uploadReviewPhotoFn = createServerFn({ method: "POST" })
+    .inputValidator((data: UploadReviewPhotoInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { bucket } = await import('./firebase/admin')
+
+        const user = await requireAuth()
+
+        if (!data.contentType.startsWith('image/')) {
+            throw new Error('Only images can be uploaded')
+        }
+
+        const buffer = Buffer.from(data.content, 'base64')
+        if (buffer.length > MAX_PHOTO_BYTES) {
+            throw new Error('Photos must be 5MB or smaller')
+        }
+
+        // Sanitize filename
+        const safeFilename = data.filename.replace(/[^a-zA-Z0-9.-]/g, '_')
+        const path = `reviews/${user.id}/${Date.now()}_${safeFilename}`
+        const file = bucket.file(path)
+
+        await file.save(buffer, {
+            metadata: {
+                contentType: data.contentType,
+            },
+        })
+
+        await file.makePublic()
+        const publicUrl = `https://storage.googleapis.com/${bucket.name}/${path}`
+
+        return { url: publicUrl, success: true }
+    })
+
+/**
+ * Review a product bought in a delivered order (Any signed-in customer)
+ */
+export const createCustomerReviewFn = createServerFn({ method: "POST" })
+    .inputValidator((data: CreateCustomerReviewInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { bucket } = await import('./firebase/admin')
+        const { createCustomerReview, toPublicSerializable } = await import('./customer-review-utils')
+
+        const user = await requireAuth()
+
+        // Only accept photos uploaded by this customer through uploadReviewPhotoFn
+        const photoPrefix = `https://storage.googleapis.com/${bucket.name}/reviews/${user.id}/`
+        if ((data.photos || []).some(url => !url.startsWith(photoPrefix))) {
+            throw new Error('Invalid review photo')
+        }
+
+        const review = await createCustomerReview(user, data)
+
+        return { review: toPublicSerializable(review), success: true }
+    })
+
+/**
+ * Get the published reviews of the current supplier's products, newest first (Supplier only)
+ */
+export const getSupplierReviewsFn = createServerFn({ method: "GET" })
+    .inputValidator((data: Omit<GetReviewListInput, 'status'>) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { getCustomerReviews, getReviewedProductNames, toPublicSerializable } = await import('./customer-review-utils')
+
+        const user = await requirePermission('supplier:portal')
+
+        const result = await getCustomerReviews({
+            supplierId: user.id,
+            status: 'published',
+            cursor: data.cursor,
+            direction: data.direction,
+            limit: data.limit
+        })
+        const productNames = await getReviewedProductNames(result.reviews.map(review => review.productId))
+
+        return {
+            ...result,
+            reviews: result.reviews.map(review => ({
+                ...toPublicSerializable(review),
+                productName: productNames.get(review.productId) ?? null
+            }))
+        }
+    })
+
+/**
+ * Reply to a review (Supplier can reply on own products, Admin on any)
+ */
+export const replyToReviewFn = createServerFn({ method: "POST" })
+    .inputValidator((data: ReplyToReviewInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission, assertPermission } = await import('./auth-utils')
+        const { getCustomerReviewById, replyToReview, toPublicSerializable } = await import('./customer-review-utils')
+
+        const user = await requirePermission('review:reply')
+
+        const review = await getCustomerReviewById(data.reviewId)
+        if (!review) {
+            throw new Error('Review not found')
+        }
+
+        // Suppliers can only answer reviews of their own products
+        assertPermission(user, 'review:reply', { ownerId: review.supplierId },
+            'Access denied: You can only reply to reviews of your own products')
+
+        const updated = await replyToReview(data.reviewId, user.id, data.body)
+        if (!updated) {
+            throw new Error('Review not found')
+        }
+
+        return { review: toPublicSerializable(updated), success: true }
+    })
+
+/**
+ * Get reviews for moderation, newest first, with product names (Staff only)
+ */
+export const getReviewsForModerationFn = createServerFn({ method: "GET" })
+    .inputValidator((data: GetReviewListInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { getCustomerReviews, getReviewedProductNames, toSerializable } = await import('./customer-review-utils')
+
+        await requirePermission('review:moderate')
+
+        const result = await getCustomerReviews({
+            status: data.status,
+            cursor: data.cursor,
+            direction: data.direction,
+            limit: data.limit
+        })
+        const productNames = await getReviewedProductNames(result.reviews.map(review => review.productId))
+
+        return {
+            ...result,
+            reviews: result.reviews.map(review => ({
+                ...toSerializable(review),
+                productName: productNames.get(review.productId) ?? null
+            }))
+        }
+    })
+
+/**
+ * Hide an abusive review or publish it again (Staff only)
+ */
+export const setReviewStatusFn = createServerFn({ method: "POST" })
+    .inputValidator((data: SetReviewStatusInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { getCustomerReviewById, setCustomerReviewStatus, toSerializable } = await import('./customer-review-utils')
+        const { recordAuditEvent } = await import('./audit-utils')
+
+        const user = await requirePermission('review:moderate')
+
+        const existing = await getCustomerReviewById(data.reviewId)
+        if (!existing) {
+            throw new Error('Review not found')
+        }
+
+        const review = await setCustomerReviewStatus(data.reviewId, data.status, user.id, data.reason)
+        if (!review) {
+            throw new Error('Review not found')
+        }
+
+        if (review.status !== existing.status) {
+            await recordAuditEvent({
+                actor: user,
+                action: 'review.status_changed',
+                targetType: 'review',
+                targetId: data.reviewId,
+                changes: [{ field: 'status', before: existing.status, after: review.status }]
+            })
+        }
+
+        return { review: toSerializable(review), success: true }
+    })
@@ -0,0 +1,374 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, Collection, Db, WithId } from 'mongodb'
+import type { EmailTemplateData, EmailTemplateName, OrderCancelledEmailData, OrderStatusEmailData } from './email/templates'
+import type { EmailLineItem } from './email/layout'
+import type { Order, OrderItem, OrderStatus } from './order-utils'
+import type { Product } from './product-utils'
+
+// --- Email Queue Types ---
+
+// pending -> sending -> sent, or back to pending to be retried until it is given up as failed
+export type EmailStatus = 'pending' | 'sending' | 'sent' | 'failed'
+
+// An email waiting in, or delivered from, the emails collection
+// The template is rendered when the email is sent, from the data captured when it was queued
+export interface QueuedEmail<K extends EmailTemplateName = EmailTemplateName> {
+    _id?: ObjectId
+    to: string
+    userId?: string          // The recipient's account, when they have one
+    template: K
+    data: EmailTemplateData[K]
+    status: EmailStatus
+    attempts: number
+    nextAttemptAt: Date      // Pending: when it may be tried again. Sending: when an abandoned attempt may be taken over
+    lastError?: string
+    messageId?: string       // Assigned by the transport once sent
+    createdAt: Date
+    updatedAt: Date
+    sentAt?: Date
+}
+
+export type NewEmail = {
+    [K in EmailTemplateName]: { to: string; userId?: string; template: K; data: EmailTemplateData[K] }
+}[EmailTemplateName]
+
+export interface EmailDeliveryResult {
+    sent: number
+    failed: number
+}
+
+// --- Constants ---
+
+export const MAX_EMAIL_ATTEMPTS = 5
+
+// Wait before each retry; the last delay repeats
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000]
+
+// Shipment changes the customer is emailed about
+const NOTIFIED_SHIPMENT_STATUSES: OrderStatus[] = ['shipped', 'delivered', 'cancelled']
+
+// How long a send may take before another delivery run takes the email over
+const SENDING_LEASE_MS = 2 * 60_000
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getEmailCollection(): Promise<Collection<QueuedEmail>> {
+    const db = await getDb()
+    return db.collection<QueuedEmail>('emails')
+}
+
+// --- Queue ---
+
+/**
+ * Add emails to the queue without sending them
+ */
+export async function queueEmails(emails: NewEmail[]): Promise<void> {
+    if (emails.length === 0) {
+        return
+    }
+
+    const collection = await getEmailCollection()
+    const now = new Date()
+
+    await collection.insertMany(emails.map(email => ({
+        ...email,
+        status: 'pending' as const,
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now
+    })))
+}
+
+/**
+ * When an email that failed its attempt-th try should be tried again
+ */
+export function nextRetryAt(attempt: number, from: Date = new Date()): Date {
+    const delay = RETRY_DELAYS_MS[Math.min(attempt, RETRY_DELAYS_MS.length) - 1]
+    return new Date(from.getTime() + delay)
+}
+
+/**
+ * Take the next email that is due, so no other delivery run sends it as well
+ */
+async function claimNextEmail(collection: Collection<QueuedEmail>): Promise<WithId<QueuedEmail> | null> {
+    const now = new Date()
+
+    return await collection.findOneAndUpdate(
+        { status: { $in: ['pending', 'sending'] }, nextAttemptAt: { $lte: now } },
+        {
+            $set: { status: 'sending', nextAttemptAt: new Date(now.getTime() + SENDING_LEASE_MS), updatedAt: now },
+            $inc: { attempts: 1 }
+        },
+        { sort: { nextAttemptAt: 1 }, returnDocument: 'after' }
+    )
+}
+
+/**
+ * Send the emails that are due, oldest first
+ * A failed email goes back in the queue with a growing delay, and is given up
+ * as failed after MAX_EMAIL_ATTEMPTS tries
+ */
+export async function deliverQueuedEmails(limit: number = 20): Promise<EmailDeliveryResult> {
+    const { getMailer } = await import('./email')
+    const { renderEmail } = await import('./email/templates')
+    const { serverEnv } = await import('./env')
+
+    const collection = await getEmailCollection()
+    const mailer = getMailer()
+    const result: EmailDeliveryResult = { sent: 0, failed: 0 }
+
+    for (let i = 0; i < limit; i++) {
+        const email = await claimNextEmail(collection)
+        if (!email) {
+            break
+        }
+
+        try {
+            const rendered = renderEmail(email.template, email.data, serverEnv.APP_URL)
+            const { messageId } = await mailer.send({ to: email.to, ...rendered })
+
+            await collection.updateOne(
+                { _id: email._id },
+                { $set: { status: 'sent', messageId, sentAt: new Date(), updatedAt: new Date() }, $unset: { lastError: '' } }
+            )
+            result.sent++
+        } catch (error) {
+            const giveUp = email.attempts >= MAX_EMAIL_ATTEMPTS
+            console.error(`Failed to send ${email.template} email ${email._id.toHexString()} (attempt ${email.attempts}):`, error)
+
+            await collection.updateOne(
+                { _id: email._id },
+                {
+                    $set: {
+                        status: giveUp ? 'failed' : 'pending',
+                        nextAttemptAt: giveUp ? email.nextAttemptAt : nextRetryAt(email.attempts),
+                        lastError: error instanceof Error ? error.message : String(error),
+                        updatedAt: new Date()
+                    }
+                }
+            )
+            if (!giveUp) {
+                deliverInBackground(nextRetryAt(email.attempts).getTime() - Date.now())
+            }
+            result.failed++
+        }
+    }
+
+    return result
+}
+
+/**
+ * Run a delivery in the background; the queue keeps anything it cannot send
+ */
+export function deliverInBackground(delayMs: number = 0): void {
+    const run = () => {
+        deliverQueuedEmails().catch(error => console.error('Email delivery failed:', error))
+    }
+
+    if (delayMs <= 0) {
+        run()
+        return
+    }
+    // Retries still pending when the server restarts go out with the next email
+    setTimeout(run, delayMs).unref()
+}
+
+/**
+ * Queue emails and start sending them without waiting
+ * Never throws: an email that cannot be queued must not fail what triggered it
+ */
+export async function sendEmails(emails: NewEmail[]): Promise<void> {
+    try {
+        await queueEmails(emails)
+    } catch (error) {
+        console.error('Failed to queue emails:', error)
+        return
+    }
+    deliverInBackground()
+}
+
+// --- Transactional Emails ---
+
+function toLineItems(items: OrderItem[]): EmailLineItem[] {
+    return items.map(item => ({
+        name: item.productName,
+        ...(item.variantLabel && { variantLabel: item.variantLabel }),
+        quantity: item.quantity,
+        unitPrice: item.unitPrice
+    }))
+}
+
+/**
+ * Welcome a newly registered customer
+ */
+export async function sendWelcomeEmail(user: { id: string; email: string; name?: string | null }): Promise<void> {
+    await sendEmails([{
+        to: user.email,
+        userId: user.id,
+        template: 'welcome',
+        data: { name: user.name || 'there' }
+    }])
+}
+
+/**
+ * Confirm a paid order to the customer and tell each maker what to ship
+ * Guests have no address to write to, so only the makers hear about their orders
+ */
+export async function sendOrderPlacedEmails(order: WithId<Order>): Promise<void> {
+    const { getUserContacts } = await import('./user-utils')
+
+    try {
+        const orderId = order._id.toHexString()
+        const supplierIds = [...new Set(order.items.map(item => item.supplierId))]
+        const contacts = await getUserContacts([order.userId, ...supplierIds])
+        const emails: NewEmail[] = []
+
+        const customer = contacts.get(order.userId)
+        if (customer) {
+            emails.push({
+                to: customer.email,
+                userId: order.userId,
+                template: 'order_placed',
+                data: {
+                    name: customer.name,
+                    orderId,
+                    items: toLineItems(order.items),
+                    totals: order.totals,
+                    shippingAddress: order.shippingAddress
+                }
+            })
+        }
+
+        for (const supplierId of supplierIds) {
+            const supplier = contacts.get(supplierId)
+            if (supplier) {
+                emails.push({
+                    to: supplier.email,
+                    userId: supplierId,
+                    template: 'supplier_new_order',
+                    data: {
+                        name: supplier.name,
+                        orderId,
+                        items: toLineItems(order.items.filter(item => item.supplierId === supplierId)),
+                        shippingAddress: order.shippingAddress
+                    }
+                })
+            }
+        }
+
+        await sendEmails(emails)
+    } catch (error) {
+        console.error('Failed to send order emails:', error)
+    }
+}
+
+/**
+ * Tell the customer about each maker's shipment that an update shipped, delivered or cancelled
+ */
+export async function sendShipmentStatusEmails(before: Order, after: WithId<Order>): Promise<void> {
+    const { getUserContacts } = await import('./user-utils')
+    const { getMakerSummaries } = await import('./supplier-utils')
+
+    try {
+        const changed = (after.shipments || []).filter(shipment =>
+            NOTIFIED_SHIPMENT_STATUSES.includes(shipment.status) &&
+            before.shipments?.find(s => s.supplierId === shipment.supplierId)?.status !== shipment.status
+        )
+        if (changed.length === 0) {
+            return
+        }
+
+        const customer = (await getUserContacts([after.userId])).get(after.userId)
+        if (!customer) {
+            return
+        }
+
+        const makers = await getMakerSummaries(changed.map(shipment => shipment.supplierId))
+
+        await sendEmails(changed.map(shipment => ({
+            to: customer.email,
+            userId: after.userId,
+            template: 'order_status' as const,
+            data: {
+                name: customer.name,
+                orderId: after._id.toHexString(),
+                status: shipment.status as OrderStatusEmailData['status'],
+                makerName: makers.get(shipment.supplierId)?.displayName || 'Your maker',
+                items: toLineItems(after.items.filter(item => item.supplierId === shipment.supplierId)),
+                ...(shipment.trackingNumber && { trackingNumber: shipment.trackingNumber })
+            }
+        })))
+    } catch (error) {
+        console.error('Failed to send shipment emails:', error)
+    }
+}
+
+/**
+ * Tell the customer their whole order was cancelled, by them or because payment never arrived
+ */
+export async function sendOrderCancelledEmail(order: WithId<Order>, reason: OrderCancelledEmailData['reason']): Promise<void> {
+    const { getUserContacts } = await import('./user-utils')
+
+    try {
+        const customer = (await getUserContacts([order.userId])).get(order.userId)
+        if (!customer) {
+            return
+        }
+
+        await sendEmails([{
+            to: customer.email,
+            userId: order.userId,
+            template: 'order_cancelled',
+            data: {
+                name: customer.name,
+                orderId: order._id.toHexString(),
+                reason,
+                items: toLineItems(order.items)
+            }
+        }])
+    } catch (error) {
+        console.error('Failed to send order cancellation email:', error)
+    }
+}
+
+/**
+ * Tell a maker how the review of their product went
+ */
+export async function sendProductReviewedEmail(product: WithId<Product>): Promise<void> {
+    const { getUserContacts } = await import('./user-utils')
+
+    try {
+        const review = product.reviews?.[product.reviews.length - 1]
+        const supplier = (await getUserContacts([product.supplierId])).get(product.supplierId)
+        if (!review || !supplier) {
+            return
+        }
+
+        await sendEmails([{
+            to: supplier.email,
+            userId: product.supplierId,
+            template: 'product_reviewed',
+            data: {
+                name: supplier.name,
+                productId: product._id.toHexString(),
+                productName: product.name,
+                decision: review.decision,
+                reasons: review.reasons,
+                ...(review.note && { note: review.note })
+            }
+        }])
+    } catch (error) {
+        console.error('Failed to send product review email:', error)
+    }
+}
@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ObjectId } from 'mongodb'
+import { mkdtemp, readdir, readFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+// --- Mock Imports for Testing ---
+
+// Mocks for MongoDB collections
+const mockEmailCollection = {
+    insertMany: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateOne: vi.fn(),
+}
+
+const mockUserCollection = {
+    find: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'user') return mockUserCollection
+        return mockEmailCollection
+    }),
+}
+
+const mockClientPromise = Promise.resolve({
+    db: () => mockDb,
+})
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Emails go to a fake mailer rather than the configured transport
+const mockMailer = {
+    name: 'test',
+    send: vi.fn(),
+}
+
+vi.mock('./email', () => ({
+    getMailer: () => mockMailer,
+}))
+
+vi.mock('./env', () => ({
+    serverEnv: { APP_URL: 'https://makerskind.test' },
+}))
+
+function queuedEmail(overrides: Record<string, unknown> = {}) {
+    return {
+        _id: new ObjectId(),
+        to: 'ada@example.com',
+        template: 'welcome',
+        data: { name: 'Ada' },
+        status: 'sending',
+        attempts: 1,
+        nextAttemptAt: new Date(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides,
+    }
+}
+
+// --- Unit Tests ---
+
+describe('renderEmail', () => {
+    it('should render the subject, HTML and a plain-text alternative', async () => {
+        const { renderEmail } = await import('./email/templates')
+        const orderId = new ObjectId().toHexString()
+
+        const email = renderEmail('order_status', {
+            name: 'Ada',
+            orderId,
+            status: 'shipped',
+            makerName: 'Clay & Co',
+            items: [{ name: 'Stoneware Mug', variantLabel: 'Blue', quantity: 2, unitPrice: 15 }],
+            trackingNumber: 'TRACK-1',
+        }, 'https://makerskind.test')
+
+        const orderNumber = `#${orderId.slice(-6).toUpperCase()}`
+        expect(email.subject).toBe(`Your order ${orderNumber} from Clay & Co is on its way`)
+        expect(email.html).toMatch(/^<!DOCTYPE html>/)
+        expect(email.html).toContain('href="https://makerskind.test/profile"')
+        expect(email.text).toContain('Hi Ada, Clay & Co has shipped these pieces from your order.')
+        expect(email.text).toContain('2 × Stoneware Mug (Blue) $30.00')
+        expect(email.text).toContain('Tracking number: TRACK-1')
+        expect(email.text).toContain('View your orders (https://makerskind.test/profile)')
+        expect(email.text).not.toContain('<')
+    })
+
+    it('should tell a customer whose payment expired that they were not charged', async () => {
+        const { renderEmail } = await import('./email/templates')
+        const orderId = new ObjectId().toHexString()
+
+        const email = renderEmail('order_cancelled', {
+            name: 'Ada',
+            orderId,
+            reason: 'payment_expired',
+            items: [{ name: 'Stoneware Mug', quantity: 1, unitPrice: 15 }],
+        }, 'https://makerskind.test')
+
+        expect(email.subject).toBe(`Your order #${orderId.slice(-6).toUpperCase()} has been cancelled`)
+        expect(email.text).toContain('so it has been cancelled and you have not been charged.')
+        expect(email.text).toContain('Order again (https://makerskind.test/products)')
+    })
+
+    it('should list the reasons a product was rejected', async () => {
+        const { renderEmail } = await import('./email/templates')
+
+        const email = renderEmail('product_reviewed', {
+            name: 'Grace',
+            productId: 'prod-1',
+            productName: 'Oak Bowl',
+            decision: 'rejected',
+            reasons: ['poor_photos'],
+            note: 'Please retake in daylight',
+        }, 'https://makerskind.test')
+
+        expect(email.subject).toBe('Oak Bowl was not approved')
+        expect(email.text).toContain('- Photos do not show the product clearly')
+        expect(email.text).toContain('Note from our team: Please retake in daylight')
+        expect(email.html).toContain('href="https://makerskind.test/supplier/products"')
+    })
+})
+
+describe('deliverQueuedEmails', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+    })
+
+    it('should send due emails and mark them sent', async () => {
+        const { deliverQueuedEmails } = await import('./email-utils')
+        const email = queuedEmail()
+        mockEmailCollection.findOneAndUpdate.mockResolvedValueOnce(email).mockResolvedValueOnce(null)
+        mockMailer.send.mockResolvedValue({ messageId: '<1@makerskind.test>' })
+
+        const result = await deliverQueuedEmails()
+
+        expect(result).toEqual({ sent: 1, failed: 0 })
+        expect(mockMailer.send).toHaveBeenCalledWith(expect.objectContaining({
+            to: 'ada@example.com',
+            subject: 'Welcome to Makerskind',
+        }))
+        const [filter, update] = mockEmailCollection.updateOne.mock.calls[0]
+        expect(filter).toEqual({ _id: email._id })
+        expect(update.$set).toMatchObject({ status: 'sent', messageId: '<1@makerskind.test>' })
+    })
+
+    it('should put a failed email back in the queue with a delay', async () => {
+        const { deliverQueuedEmails } = await import('./email-utils')
+        vi.useFakeTimers()
+        try {
+            mockEmailCollection.findOneAndUpdate.mockResolvedValueOnce(queuedEmail({ attempts: 2 })).mockResolvedValueOnce(null)
+            mockMailer.send.mockRejectedValue(new Error('Connection refused'))
+
+            const result = await deliverQueuedEmails()
+
+            expect(result).toEqual({ sent: 0, failed: 1 })
+            const [, update] = mockEmailCollection.updateOne.mock.calls[0]
+            expect(update.$set).toMatchObject({ status: 'pending', lastError: 'Connection refused' })
+            // Second retry waits five minutes
+            expect(update.$set.nextAttemptAt.getTime() - Date.now()).toBe(5 * 60_000)
+        } finally {
+            vi.clearAllTimers()
+            vi.useRealTimers()
+        }
+    })
+
+    it('should give up after the last attempt', async () => {
+        const { deliverQueuedEmails, MAX_EMAIL_ATTEMPTS } = await import('./email-utils')
+        mockEmailCollection.findOneAndUpdate
+            .mockResolvedValueOnce(queuedEmail({ attempts: MAX_EMAIL_ATTEMPTS }))
+            .mockResolvedValueOnce(null)
+        mockMailer.send.mockRejectedValue(new Error('Mailbox unavailable'))
+
+        await deliverQueuedEmails()
+
+        const [, update] = mockEmailCollection.updateOne.mock.calls[0]
+        expect(update.$set.status).toBe('failed')
+    })
+})
+
+describe('sendOrderPlacedEmails', () => {
+    // Users as BetterAuth's Mongo adapter stores them: the ID is the _id, with no id field
+    const customerId = new ObjectId()
+    const supplierIds = [new ObjectId(), new ObjectId()]
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+        mockEmailCollection.findOneAndUpdate.mockResolvedValue(null)
+    })
+
+    it('should confirm the order to the customer and give each maker their items', async () => {
+        const { sendOrderPlacedEmails } = await import('./email-utils')
+        mockUserCollection.find.mockReturnValue({
+            toArray: vi.fn().mockResolvedValue([
+                { _id: customerId, email: 'ada@example.com', name: 'Ada' },
+                { _id: supplierIds[0], email: 'clay@example.com', name: 'Clay & Co' },
+                { _id: supplierIds[1], email: 'oak@example.com', name: 'Oak Works' },
+            ]),
+        })
+        const item = { quantity: 1, unitPrice: 20, costPrice: 8 }
+        const order = {
+            _id: new ObjectId(),
+            userId: customerId.toHexString(),
+            items: [
+                { ...item, productId: 'p1', productName: 'Mug', supplierId: supplierIds[0].toHexString() },
+                { ...item, productId: 'p2', productName: 'Bowl', supplierId: supplierIds[1].toHexString() },
+            ],
+            shippingAddress: { street: '1 Lane', city: 'Leeds', zip: 'LS1', country: 'UK' },
+            totals: { subtotal: 40, shipping: 5, total: 45 },
+            status: 'processing' as const,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        }
+
+        await sendOrderPlacedEmails(order)
+
+        const [filter] = mockUserCollection.find.mock.calls[0]
+        expect(filter._id.$in).toEqual([customerId, ...supplierIds])
+        const [emails] = mockEmailCollection.insertMany.mock.calls[0]
+        expect(emails.map((email: { to: string; template: string }) => [email.to, email.template])).toEqual([
+            ['ada@example.com', 'order_placed'],
+            ['clay@example.com', 'supplier_new_order'],
+            ['oak@example.com', 'supplier_new_order'],
+        ])
+        expect(emails[1].data.items).toEqual([{ name: 'Mug', quantity: 1, unitPrice: 20 }])
+        expect(emails[0]).toMatchObject({ status: 'pending', attempts: 0 })
+    })
+
+    it('should not fail the order when the queue is unavailable', async () => {
+        const { sendOrderPlacedEmails } = await import('./email-utils')
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+        mockUserCollection.find.mockReturnValue({
+            toArray: vi.fn().mockResolvedValue([{ _id: customerId, email: 'ada@example.com', name: 'Ada' }]),
+        })
+        mockEmailCollection.insertMany.mockRejectedValue(new Error('Database unavailable'))
+
+        await expect(sendOrderPlacedEmails({
+            _id: new ObjectId(),
+            userId: customerId.toHexString(),
+            items: [],
+            shippingAddress: { street: '1 Lane', city: 'Leeds', zip: 'LS1', country: 'UK' },
+            totals: { subtotal: 0, shipping: 0, total: 0 },
+            status: 'processing',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        })).resolves.toBeUndefined()
+    })
+})
+
+describe('createOutboxMailer', () => {
+    it('should write each email to the outbox as an .eml file', async () => {
+        const { createOutboxMailer } = await import('./email/outbox-mailer')
+        const dir = await mkdtemp(join(tmpdir(), 'mail-outbox-'))
+        const mailer = createOutboxMailer({ dir, from: 'Makerskind <hello@makerskind.test>' })
+
+        const { messageId } = await mailer.send({
+            to: 'ada@example.com',
+            subject: 'Welcome to Makerskind',
+            html: '<p>Hello</p>',
+            text: 'Hello',
+        })
+
+        const files = await readdir(dir)
+        expect(files).toHaveLength(1)
+        const message = await readFile(join(dir, files[0]), 'utf8')
+        expect(message).toContain('To: ada@example.com')
+        expect(message).toContain('Subject: Welcome to Makerskind')
+        expect(message).toContain(`Message-ID: ${messageId}`)
+    })
+})
@@ -0,0 +1,24 @@
+import { serverEnv } from '../env'
+import { createOutboxMailer } from './outbox-mailer'
+import { createSmtpMailer } from './smtp-mailer'
+import type { Mailer } from './mailer'
+
+// Lazy-initialized mailer, selected by MAIL_TRANSPORT
+let _mailer: Mailer | null = null
+
+export function getMailer(): Mailer {
+    if (!_mailer) {
+        switch (serverEnv.MAIL_TRANSPORT) {
+            case 'outbox':
+                _mailer = createOutboxMailer({ dir: serverEnv.MAIL_OUTBOX_DIR, from: serverEnv.MAIL_FROM })
+                break
+            case 'smtp':
+                if (!serverEnv.SMTP_URL) {
+                    throw new Error('SMTP_URL must be set to send email over SMTP. Set it in your .env file.')
+                }
+                _mailer = createSmtpMailer({ url: serverEnv.SMTP_URL, from: serverEnv.MAIL_FROM })
+                break
+        }
+    }
+    return _mailer!
+}
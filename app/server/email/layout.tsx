@@ -0,0 +1,106 @@
+import type { ReactNode } from 'react'
+
+// --- Shared Email Building Blocks ---
+// Email clients ignore stylesheets, so every style is inline
+
+export interface EmailLineItem {
+    name: string
+    variantLabel?: string
+    quantity: number
+    unitPrice: number
+}
+
+const colors = {
+    text: '#3d3027',
+    muted: '#7a6b5d',
+    border: '#e8e0d6',
+    background: '#faf7f2',
+}
+
+export function formatMoney(amount: number): string {
+    return `$${amount.toFixed(2)}`
+}
+
+export function EmailLayout({ preview, children }: { preview: string; children: ReactNode }) {
+    return (
+        <html lang="en">
+            <head>
+                <meta charSet="utf-8" />
+                <meta name="viewport" content="width=device-width, initial-scale=1" />
+            </head>
+            <body style={{ margin: 0, padding: '24px 0', backgroundColor: colors.background, fontFamily: 'Georgia, serif', color: colors.text }}>
+                {/* Shown by mail clients next to the subject */}
+                <div style={{ display: 'none', maxHeight: 0, overflow: 'hidden' }}>{preview}</div>
+                <table role="presentation" width="100%" cellPadding={0} cellSpacing={0}>
+                    <tbody>
+                        <tr>
+                            <td align="center">
+                                <table role="presentation" width="560" cellPadding={0} cellSpacing={0} style={{ backgroundColor: '#ffffff', borderRadius: '12px', padding: '32px' }}>
+                                    <tbody>
+                                        <tr>
+                                            <td>
+                                                <p style={{ margin: '0 0 24px', fontSize: '20px', fontWeight: 'bold', letterSpacing: '0.05em' }}>MAKERSKIND</p>
+                                                {children}
+                                                <p style={{ margin: '32px 0 0', fontSize: '12px', color: colors.muted }}>
+                                                    Handmade goods from independent makers.
+                                                </p>
+                                            </td>
+                                        </tr>
+                                    </tbody>
+                                </table>
+                            </td>
+                        </tr>
+                    </tbody>
+                </table>
+            </body>
+        </html>
+    )
+}
+
+export function Heading({ children }: { children: ReactNode }) {
+    return <h1 style={{ margin: '0 0 16px', fontSize: '24px', fontWeight: 'normal' }}>{children}</h1>
+}
+
+export function Paragraph({ children }: { children: ReactNode }) {
+    return <p style={{ margin: '0 0 16px', fontSize: '15px', lineHeight: '1.6' }}>{children}</p>
+}
+
+export function Button({ href, children }: { href: string; children: ReactNode }) {
+    return (
+        <p style={{ margin: '24px 0' }}>
+            <a href={href} style={{ display: 'inline-block', padding: '12px 24px', backgroundColor: colors.text, color: '#ffffff', borderRadius: '4px', textDecoration: 'none', fontSize: '14px' }}>
+                {children}
+            </a>
+        </p>
+    )
+}
+
+export function ItemTable({ items }: { items: EmailLineItem[] }) {
+    return (
+        <table role="presentation" width="100%" cellPadding={0} cellSpacing={0} style={{ margin: '16px 0', borderTop: `1px solid ${colors.border}` }}>
+            <tbody>
+                {items.map((item, index) => (
+                    <tr key={index}>
+                        <td style={{ padding: '8px 0', borderBottom: `1px solid ${colors.border}`, fontSize: '14px' }}>
+                            {item.quantity} × {item.name}
+                            {item.variantLabel && <span style={{ color: colors.muted }}> ({item.variantLabel})</span>}
+                        </td>
+                        <td align="right" style={{ padding: '8px 0', borderBottom: `1px solid ${colors.border}`, fontSize: '14px' }}>
+                            {formatMoney(item.unitPrice * item.quantity)}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    )
+}
+
+export function AddressBlock({ address }: { address: { street: string; city: string; zip: string; country: string } }) {
+    return (
+        <p style={{ margin: '0 0 16px', fontSize: '14px', lineHeight: '1.6', color: colors.muted }}>
+            {address.street}<br />
+            {address.zip} {address.city}<br />
+            {address.country}
+        </p>
+    )
+}
@@ -0,0 +1,22 @@
+// --- Mailer Types ---
+
+// A rendered email ready to hand to a transport
+export interface OutgoingEmail {
+    to: string
+    subject: string
+    html: string
+    text: string
+}
+
+export interface SentEmail {
+    messageId: string
+}
+
+/**
+ * A way of delivering email, e.g. an SMTP server
+ * Throws when the email could not be handed over so the queue can try again later
+ */
+export interface Mailer {
+    readonly name: string
+    send(email: OutgoingEmail): Promise<SentEmail>
+}
@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import nodemailer from 'nodemailer'
+import type { Mailer } from './mailer'
+
+/**
+ * Mailer for development and tests that needs no network
+ * Each email is built exactly as SMTP would send it and written to the outbox
+ * directory as an .eml file, which any mail client can open
+ */
+export function createOutboxMailer(options: { dir: string; from: string }): Mailer {
+    const transport = nodemailer.createTransport({ streamTransport: true, buffer: true })
+
+    return {
+        name: 'outbox',
+
+        async send(email) {
+            const info = await transport.sendMail({ from: options.from, ...email })
+
+            // Message IDs look like <uuid@host>
+            const fileName = `${Date.now()}-${info.messageId.replace(/[^a-zA-Z0-9.-]/g, '_')}.eml`
+            await mkdir(options.dir, { recursive: true })
+            await writeFile(join(options.dir, fileName), info.message as Buffer)
+
+            return { messageId: info.messageId }
+        },
+    }
+}
@@ -0,0 +1,18 @@
+import nodemailer from 'nodemailer'
+import type { Mailer } from './mailer'
+
+/**
+ * Deliver through any SMTP server, configured by a connection URL
+ */
+export function createSmtpMailer(options: { url: string; from: string }): Mailer {
+    const transport = nodemailer.createTransport(options.url)
+
+    return {
+        name: 'smtp',
+
+        async send(email) {
+            const info = await transport.sendMail({ from: options.from, ...email })
+            return { messageId: info.messageId }
+        },
+    }
+}
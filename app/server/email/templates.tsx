@@ -0,0 +1,294 @@
+import { renderToStaticMarkup } from 'react-dom/server'
+import type { ReactElement } from 'react'
+import type { ShippingAddress } from '../order-utils'
+import type { ProductRejectionReason } from '../product-utils'
+import { PRODUCT_REJECTION_REASONS } from '../product-review-state'
+import {
+    AddressBlock,
+    Button,
+    EmailLayout,
+    Heading,
+    ItemTable,
+    Paragraph,
+    formatMoney,
+    type EmailLineItem
+} from './layout'
+
+// --- Template Data Types ---
+// Stored with each queued email, so everything here must survive a round trip through MongoDB
+
+export interface WelcomeEmailData {
+    name: string
+}
+
+export interface OrderPlacedEmailData {
+    name: string
+    orderId: string
+    items: EmailLineItem[]
+    totals: { subtotal: number; shipping: number; total: number }
+    shippingAddress: ShippingAddress
+}
+
+// One maker's part of an order moving on; each maker ships separately
+export interface OrderStatusEmailData {
+    name: string
+    orderId: string
+    status: 'shipped' | 'delivered' | 'cancelled'
+    makerName: string
+    items: EmailLineItem[]
+    trackingNumber?: string
+}
+
+// The whole order called off before any maker started on it
+export interface OrderCancelledEmailData {
+    name: string
+    orderId: string
+    reason: 'customer' | 'payment_expired'
+    items: EmailLineItem[]
+}
+
+export interface SupplierNewOrderEmailData {
+    name: string
+    orderId: string
+    items: EmailLineItem[]
+    shippingAddress: ShippingAddress
+}
+
+export interface ProductReviewedEmailData {
+    name: string
+    productId: string
+    productName: string
+    decision: 'approved' | 'rejected' | 'changes_requested'
+    reasons: ProductRejectionReason[]
+    note?: string
+}
+
+// A message from the notification channel, e.g. a back-in-stock alert
+export interface NotificationEmailData {
+    subject: string
+    body: string
+    link?: string
+}
+
+export interface EmailTemplateData {
+    welcome: WelcomeEmailData
+    order_placed: OrderPlacedEmailData
+    order_status: OrderStatusEmailData
+    order_cancelled: OrderCancelledEmailData
+    supplier_new_order: SupplierNewOrderEmailData
+    product_reviewed: ProductReviewedEmailData
+    notification: NotificationEmailData
+}
+
+export type EmailTemplateName = keyof EmailTemplateData
+
+export interface RenderedEmail {
+    subject: string
+    html: string
+    text: string
+}
+
+interface EmailTemplate<T> {
+    subject: (data: T) => string
+    render: (data: T, url: (path: string) => string) => ReactElement
+}
+
+// --- Templates ---
+
+function orderNumber(orderId: string): string {
+    return `#${orderId.slice(-6).toUpperCase()}`
+}
+
+const ORDER_STATUS_COPY: Record<OrderStatusEmailData['status'], { subject: string; intro: string }> = {
+    shipped: {
+        subject: 'is on its way',
+        intro: 'has shipped these pieces from your order'
+    },
+    delivered: {
+        subject: 'has been delivered',
+        intro: 'has delivered these pieces from your order'
+    },
+    cancelled: {
+        subject: 'has been cancelled',
+        intro: 'could not fulfil these pieces from your order, so they have been cancelled and refunded'
+    }
+}
+
+const ORDER_CANCELLED_COPY: Record<OrderCancelledEmailData['reason'], string> = {
+    customer: 'as you asked, we have cancelled your order. Any payment taken for it will be refunded to you',
+    payment_expired: 'we did not receive payment for your order in time, so it has been cancelled and you have not been charged'
+}
+
+const REVIEW_DECISION_COPY: Record<ProductReviewedEmailData['decision'], { subject: string; intro: string }> = {
+    approved: {
+        subject: 'is live',
+        intro: 'has been approved and is now for sale on Makerskind.'
+    },
+    rejected: {
+        subject: 'was not approved',
+        intro: 'was not approved for sale.'
+    },
+    changes_requested: {
+        subject: 'needs a few changes',
+        intro: 'needs a few changes before it can go on sale.'
+    }
+}
+
+const templates: { [K in EmailTemplateName]: EmailTemplate<EmailTemplateData[K]> } = {
+    welcome: {
+        subject: () => 'Welcome to Makerskind',
+        render: (data, url) => (
+            <EmailLayout preview="Thanks for joining Makerskind">
+                <Heading>Welcome, {data.name}</Heading>
+                <Paragraph>
+                    Thanks for joining Makerskind. Every piece here is made by hand by an independent maker,
+                    often in small batches.
+                </Paragraph>
+                <Button href={url('/products')}>Start browsing</Button>
+            </EmailLayout>
+        )
+    },
+
+    order_placed: {
+        subject: (data) => `Your order ${orderNumber(data.orderId)} is confirmed`,
+        render: (data, url) => (
+            <EmailLayout preview={`We have received your order ${orderNumber(data.orderId)}`}>
+                <Heading>Thank you for your order</Heading>
+                <Paragraph>
+                    Hi {data.name}, we have received your order {orderNumber(data.orderId)}. Each maker ships their
+                    pieces separately, and we will let you know as they go out.
+                </Paragraph>
+                <ItemTable items={data.items} />
+                <Paragraph>
+                    Subtotal {formatMoney(data.totals.subtotal)} · Shipping {formatMoney(data.totals.shipping)}<br />
+                    <strong>Total {formatMoney(data.totals.total)}</strong>
+                </Paragraph>
+                <Paragraph>Shipping to:</Paragraph>
+                <AddressBlock address={data.shippingAddress} />
+                <Button href={url('/profile')}>View your orders</Button>
+            </EmailLayout>
+        )
+    },
+
+    order_status: {
+        subject: (data) => `Your order ${orderNumber(data.orderId)} from ${data.makerName} ${ORDER_STATUS_COPY[data.status].subject}`,
+        render: (data, url) => (
+            <EmailLayout preview={`${data.makerName} ${ORDER_STATUS_COPY[data.status].intro}`}>
+                <Heading>Order {orderNumber(data.orderId)}</Heading>
+                <Paragraph>
+                    Hi {data.name}, {data.makerName} {ORDER_STATUS_COPY[data.status].intro}.
+                </Paragraph>
+                <ItemTable items={data.items} />
+                {data.trackingNumber && data.status === 'shipped' && (
+                    <Paragraph>Tracking number: <strong>{data.trackingNumber}</strong></Paragraph>
+                )}
+                <Button href={url('/profile')}>View your orders</Button>
+            </EmailLayout>
+        )
+    },
+
+    order_cancelled: {
+        subject: (data) => `Your order ${orderNumber(data.orderId)} has been cancelled`,
+        render: (data, url) => (
+            <EmailLayout preview={`Your order ${orderNumber(data.orderId)} has been cancelled`}>
+                <Heading>Order {orderNumber(data.orderId)} cancelled</Heading>
+                <Paragraph>
+                    Hi {data.name}, {ORDER_CANCELLED_COPY[data.reason]}.
+                </Paragraph>
+                <ItemTable items={data.items} />
+                {data.reason === 'payment_expired' ? (
+                    <Button href={url('/products')}>Order again</Button>
+                ) : (
+                    <Button href={url('/profile')}>View your orders</Button>
+                )}
+            </EmailLayout>
+        )
+    },
+
+    supplier_new_order: {
+        subject: (data) => `New order ${orderNumber(data.orderId)}`,
+        render: (data, url) => (
+            <EmailLayout preview="You have a new order to ship">
+                <Heading>You have a new order</Heading>
+                <Paragraph>Hi {data.name}, a customer has ordered these pieces from you:</Paragraph>
+                <ItemTable items={data.items} />
+                <Paragraph>Ship to:</Paragraph>
+                <AddressBlock address={data.shippingAddress} />
+                <Button href={url(`/supplier/orders/${data.orderId}`)}>Open the order</Button>
+            </EmailLayout>
+        )
+    },
+
+    product_reviewed: {
+        subject: (data) => `${data.productName} ${REVIEW_DECISION_COPY[data.decision].subject}`,
+        render: (data, url) => (
+            <EmailLayout preview={`${data.productName} ${REVIEW_DECISION_COPY[data.decision].intro}`}>
+                <Heading>{data.productName}</Heading>
+                <Paragraph>
+                    Hi {data.name}, your product {REVIEW_DECISION_COPY[data.decision].intro}
+                </Paragraph>
+                {data.reasons.length > 0 && (
+                    <ul style={{ margin: '0 0 16px', paddingLeft: '20px', fontSize: '15px', lineHeight: '1.6' }}>
+                        {data.reasons.map(reason => <li key={reason}>{PRODUCT_REJECTION_REASONS[reason]}</li>)}
+                    </ul>
+                )}
+                {data.note && <Paragraph>Note from our team: {data.note}</Paragraph>}
+                {data.decision === 'approved' ? (
+                    <Button href={url(`/product/${data.productId}`)}>See it in the shop</Button>
+                ) : (
+                    <Button href={url('/supplier/products')}>Update and resubmit</Button>
+                )}
+            </EmailLayout>
+        )
+    },
+
+    notification: {
+        subject: (data) => data.subject,
+        render: (data, url) => (
+            <EmailLayout preview={data.body}>
+                <Heading>{data.subject}</Heading>
+                <Paragraph>{data.body}</Paragraph>
+                {data.link && <Button href={url(data.link)}>Take a look</Button>}
+            </EmailLayout>
+        )
+    }
+}
+
+// --- Rendering ---
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' }
+
+/**
+ * Plain-text alternative of a rendered email, for clients that do not show HTML
+ */
+export function htmlToText(html: string): string {
+    return html
+        .replace(/<div style="display:none[^>]*>.*?<\/div>/s, '')
+        .replace(/<a [^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gs, '$2 ($1)')
+        .replace(/<br\s*\/?>/g, '\n')
+        .replace(/<li[^>]*>/g, '- ')
+        .replace(/<\/(p|h1|li|tr|ul)>/g, '\n')
+        .replace(/<\/td>/g, ' ')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity: string) => ENTITIES[entity])
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter((line, index, lines) => line || lines[index - 1])
+        .join('\n')
+        .trim()
+}
+
+/**
+ * Render a template with its data; links are made absolute against appUrl
+ */
+export function renderEmail<K extends EmailTemplateName>(
+    template: K,
+    data: EmailTemplateData[K],
+    appUrl: string
+): RenderedEmail {
+    const { subject, render } = templates[template] as EmailTemplate<EmailTemplateData[K]>
+    const url = (path: string) => new URL(path, appUrl).toString()
+    const html = '<!DOCTYPE html>' + renderToStaticMarkup(render(data, url))
+
+    return { subject: subject(data), html, text: htmlToText(html) }
+}
@@ -0,0 +1,184 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, ClientSession, Collection, Db, WithId } from 'mongodb'
+import type { StatusActor, StatusActorRole } from './order-utils'
+import type { Product } from './product-utils'
+
+// --- Inventory Movement Types ---
+
+// restock: stock received, including a new product's initial stock
+// sale: stock taken by an order
+// cancel_restock: stock put back when an order or shipment is cancelled
+// adjustment: stock count set by hand from the supplier or admin pages
+// return: returned items put back in stock when the return is received
+export type InventoryMovementType = 'restock' | 'sale' | 'cancel_restock' | 'adjustment' | 'return'
+
+// One change to a product's inventory.onHand. The ledger is append-only and written in
+// the same transaction as the change, so a product's deltas always add up to its onHand
+export interface InventoryMovement {
+    _id?: ObjectId
+    productId: string
+    variantId?: string       // Set for products with variants; the product's onHand changes too
+    type: InventoryMovementType
+    delta: number            // Signed change to onHand
+    actorId: string
+    actorRole: StatusActorRole
+    orderId?: string         // Set for sales and cancellations
+    returnId?: string        // Set for returns
+    note?: string
+    createdAt: Date
+}
+
+export interface NewInventoryMovement {
+    productId: string
+    variantId?: string
+    type: InventoryMovementType
+    delta: number
+    orderId?: string
+    returnId?: string
+}
+
+// A product whose onHand no longer matches what its ledger adds up to
+export interface InventoryDiscrepancy {
+    productId: string
+    productName: string
+    supplierId: string
+    onHand: number
+    ledgerOnHand: number
+}
+
+// --- Serializable Types ---
+
+export interface InventoryMovementSerializable {
+    _id: string
+    productId: string
+    variantId?: string
+    type: InventoryMovementType
+    delta: number
+    actorId: string
+    actorRole: StatusActorRole
+    orderId?: string
+    returnId?: string
+    note?: string
+    createdAt: string
+}
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getInventoryMovementCollection(): Promise<Collection<InventoryMovement>> {
+    const db = await getDb()
+    return db.collection<InventoryMovement>('inventory_movements')
+}
+
+// --- Utility Functions ---
+
+/**
+ * Convert a MongoDB inventory movement document to a serializable format
+ */
+export function toSerializable(movement: WithId<InventoryMovement>): InventoryMovementSerializable {
+    return {
+        _id: movement._id.toHexString(),
+        productId: movement.productId,
+        variantId: movement.variantId,
+        type: movement.type,
+        delta: movement.delta,
+        actorId: movement.actorId,
+        actorRole: movement.actorRole,
+        orderId: movement.orderId,
+        returnId: movement.returnId,
+        note: movement.note,
+        createdAt: movement.createdAt.toISOString()
+    }
+}
+
+/**
+ * Append stock changes to the ledger, within the caller's transaction
+ * Movements that do not change the stock are not recorded
+ */
+export async function recordMovements(
+    db: Db,
+    movements: NewInventoryMovement[],
+    actor: StatusActor,
+    session: ClientSession
+): Promise<void> {
+    const changes = movements.filter(movement => movement.delta !== 0)
+    if (changes.length === 0) {
+        return
+    }
+
+    const now = new Date()
+
+    await db.collection<InventoryMovement>('inventory_movements').insertMany(
+        changes.map(movement => ({
+            ...movement,
+            actorId: actor.id,
+            actorRole: actor.role,
+            ...(actor.note && { note: actor.note }),
+            createdAt: now
+        })),
+        { session }
+    )
+}
+
+/**
+ * Get a product's stock movements, most recent first
+ */
+export async function getProductMovements(productId: string, limit: number = 100): Promise<WithId<InventoryMovement>[]> {
+    const collection = await getInventoryMovementCollection()
+    return await collection
+        .find({ productId })
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit)
+        .toArray()
+}
+
+/**
+ * Recompute every product's onHand from the ledger and report the ones that differ
+ * Both are read in one transaction so stock changing meanwhile is not reported
+ */
+export async function reconcileInventory(): Promise<InventoryDiscrepancy[]> {
+    const client = await clientPromise
+    const session = client.startSession()
+
+    try {
+        let discrepancies: InventoryDiscrepancy[] = []
+
+        await session.withTransaction(async () => {
+            const db = client.db()
+
+            const products = await db.collection<Product>('products').find(
+                {},
+                { projection: { name: 1, supplierId: 1, inventory: 1 }, session }
+            ).toArray()
+            const totals = await db.collection<InventoryMovement>('inventory_movements').aggregate<{ _id: string; total: number }>(
+                [{ $group: { _id: '$productId', total: { $sum: '$delta' } } }],
+                { session }
+            ).toArray()
+
+            const ledger = new Map(totals.map(entry => [entry._id, entry.total]))
+
+            discrepancies = products
+                .map(product => ({
+                    productId: product._id.toHexString(),
+                    productName: product.name,
+                    supplierId: product.supplierId,
+                    onHand: product.inventory.onHand,
+                    ledgerOnHand: ledger.get(product._id.toHexString()) || 0
+                }))
+                .filter(entry => entry.onHand !== entry.ledgerOnHand)
+        })
+
+        return discrepancies
+    } finally {
+        await session.endSession()
+    }
+}
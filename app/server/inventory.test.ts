@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// --- Mock Imports for Testing ---
+
+// Mock for MongoDB collections
+const mockMovementCollection = {
+    insertMany: vi.fn(),
+    aggregate: vi.fn(),
+}
+
+const mockProductCollection = {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'products') return mockProductCollection
+        return mockMovementCollection
+    }),
+}
+
+const mockSession = {
+    withTransaction: vi.fn(async (callback: () => Promise<void>) => {
+        await callback()
+    }),
+    endSession: vi.fn(),
+}
+
+const mockClient = {
+    db: () => mockDb,
+    startSession: () => mockSession,
+}
+
+const mockClientPromise = Promise.resolve(mockClient)
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Product alerts are covered by their own suite; updateProduct only hands changes to them
+vi.mock('./product-alert-utils', () => ({
+    dispatchProductAlerts: vi.fn(),
+}))
+
+// Mock ObjectId
+vi.mock('mongodb', () => ({
+    ObjectId: class MockObjectId {
+        private id: string
+        constructor(id?: string) {
+            this.id = id || Math.random().toString(36).substring(7)
+        }
+        toHexString() {
+            return this.id
+        }
+        toString() {
+            return this.id
+        }
+    },
+}))
+
+// --- Unit Tests ---
+
+describe('recordMovements', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should stamp movements with the actor and skip ones that change nothing', async () => {
+        const { recordMovements } = await import('./inventory-utils')
+
+        await recordMovements(mockDb as any, [
+            { productId: 'prod-1', type: 'sale', delta: -2, orderId: 'order-1' },
+            { productId: 'prod-2', type: 'adjustment', delta: 0 },
+        ], { id: 'admin-1', role: 'admin', note: 'Recount' }, mockSession as any)
+
+        const [docs, options] = mockMovementCollection.insertMany.mock.calls[0]
+        expect(docs).toHaveLength(1)
+        expect(docs[0]).toMatchObject({
+            productId: 'prod-1',
+            type: 'sale',
+            delta: -2,
+            orderId: 'order-1',
+            actorId: 'admin-1',
+            actorRole: 'admin',
+            note: 'Recount',
+        })
+        expect(options.session).toBe(mockSession)
+    })
+
+    it('should not write anything without changes', async () => {
+        const { recordMovements } = await import('./inventory-utils')
+
+        await recordMovements(mockDb as any, [], { id: 'system', role: 'system' }, mockSession as any)
+
+        expect(mockMovementCollection.insertMany).not.toHaveBeenCalled()
+    })
+})
+
+describe('reconcileInventory', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should report products whose stock differs from the ledger', async () => {
+        const product = (id: string, onHand: number) => ({
+            _id: { toHexString: () => id },
+            name: `Product ${id}`,
+            supplierId: 'supplier-1',
+            inventory: { onHand },
+        })
+        mockProductCollection.find.mockReturnValueOnce({
+            toArray: vi.fn().mockResolvedValueOnce([
+                product('prod-1', 8),
+                product('prod-2', 5),
+                product('prod-3', 4),
+            ])
+        })
+        mockMovementCollection.aggregate.mockReturnValueOnce({
+            toArray: vi.fn().mockResolvedValueOnce([
+                { _id: 'prod-1', total: 8 },
+                { _id: 'prod-2', total: 7 },
+            ])
+        })
+
+        const { reconcileInventory } = await import('./inventory-utils')
+        const discrepancies = await reconcileInventory()
+
+        // prod-3 predates the ledger, so nothing accounts for its stock
+        expect(discrepancies).toEqual([
+            { productId: 'prod-2', productName: 'Product prod-2', supplierId: 'supplier-1', onHand: 5, ledgerOnHand: 7 },
+            { productId: 'prod-3', productName: 'Product prod-3', supplierId: 'supplier-1', onHand: 4, ledgerOnHand: 0 },
+        ])
+    })
+})
+
+describe('updateProduct stock changes', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should record setting the quantity as an adjustment by the difference', async () => {
+        mockProductCollection.findOneAndUpdate.mockResolvedValueOnce({ inventory: { onHand: 10 } })
+        mockProductCollection.findOne.mockResolvedValueOnce({ inventory: { onHand: 7 } })
+
+        const { updateProduct } = await import('./product-utils')
+        await updateProduct('prod-1', { quantity: 7 }, { id: 'supplier-1', role: 'supplier' })
+
+        const [filter, update, options] = mockProductCollection.findOneAndUpdate.mock.calls[0]
+        expect(filter._id.toHexString()).toBe('prod-1')
+        expect(update.$set['inventory.onHand']).toBe(7)
+        expect(options).toMatchObject({ returnDocument: 'before', session: mockSession })
+
+        const [docs] = mockMovementCollection.insertMany.mock.calls[0]
+        expect(docs).toEqual([expect.objectContaining({
+            productId: 'prod-1',
+            type: 'adjustment',
+            delta: -3,
+            actorId: 'supplier-1',
+            actorRole: 'supplier',
+        })])
+    })
+
+    it('should leave the ledger alone when the quantity is not changed', async () => {
+        mockProductCollection.findOneAndUpdate.mockResolvedValueOnce({ inventory: { onHand: 10 } })
+        mockProductCollection.findOne.mockResolvedValueOnce({ inventory: { onHand: 10 } })
+
+        const { updateProduct } = await import('./product-utils')
+        await updateProduct('prod-1', { name: 'Renamed' }, { id: 'admin-1', role: 'admin' })
+
+        expect(mockMovementCollection.insertMany).not.toHaveBeenCalled()
+    })
+
+    it('should set a variant\'s stock and move the product total with it', async () => {
+        const product = {
+            inventory: { onHand: 10 },
+            variants: [
+                { id: 'var-1', inventory: { onHand: 4 } },
+                { id: 'var-2', inventory: { onHand: 6 } },
+            ],
+        }
+        mockProductCollection.findOne
+            .mockResolvedValueOnce(product)
+            .mockResolvedValueOnce(product)
+        mockProductCollection.findOneAndUpdate.mockResolvedValueOnce(product)
+
+        const { updateProduct } = await import('./product-utils')
+        await updateProduct('prod-1', { quantity: 9, variantId: 'var-2' }, { id: 'supplier-1', role: 'supplier' })
+
+        const [, update, options] = mockProductCollection.findOneAndUpdate.mock.calls[0]
+        expect(update.$set['variants.$[variant].inventory.onHand']).toBe(9)
+        expect(update.$set['inventory.onHand']).toBeUndefined()
+        expect(update.$inc).toEqual({ 'inventory.onHand': 3 })
+        expect(options.arrayFilters).toEqual([{ 'variant.id': 'var-2' }])
+
+        const [docs] = mockMovementCollection.insertMany.mock.calls[0]
+        expect(docs).toEqual([expect.objectContaining({ productId: 'prod-1', variantId: 'var-2', type: 'adjustment', delta: 3 })])
+    })
+})
@@ -0,0 +1,47 @@
+import { createServerFn } from '@tanstack/react-start'
+
+// --- Input Types for Server Functions ---
+
+interface GetProductMovementsInput {
+    productId: string
+}
+
+// --- Server Functions ---
+
+/**
+ * Get the stock movement history of a product (Admin can see any, Supplier can see own)
+ */
+export const getProductMovementsFn = createServerFn({ method: "GET" })
+    .inputValidator((data: GetProductMovementsInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission, assertPermission } = await import('./auth-utils')
+        const { getProductById } = await import('./product-utils')
+        const { getProductMovements, toSerializable } = await import('./inventory-utils')
+
+        const user = await requirePermission('inventory:viewHistory')
+
+        const product = await getProductById(data.productId)
+        if (!product) {
+            throw new Error('Product not found')
+        }
+
+        assertPermission(user, 'inventory:viewHistory', { ownerId: product.supplierId },
+            'Access denied: You can only view your own products')
+
+        const movements = await getProductMovements(data.productId)
+
+        return { movements: movements.map(toSerializable) }
+    })
+
+/**
+ * Recompute stock levels from the inventory ledger and list products that differ (Admin only)
+ */
+export const reconcileInventoryFn = createServerFn({ method: "GET" })
+    .handler(async () => {
+        const { requirePermission } = await import('./auth-utils')
+        const { reconcileInventory } = await import('./inventory-utils')
+
+        await requirePermission('inventory:reconcile')
+
+        return { discrepancies: await reconcileInventory() }
+    })
@@ -0,0 +1,319 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, ClientSession, Collection, Db, WithId } from 'mongodb'
+import type { Order, OrderStatus } from './order-utils'
+import type { Product } from './product-utils'
+
+// --- Notification Types ---
+
+export type NotificationType =
+    | 'low_stock'
+    | 'out_of_stock'
+    | 'new_order'            // Supplier: a paid order includes their products
+    | 'order_status'         // Customer: a maker moved their shipment on. Supplier: their shipment was cancelled
+    | 'product_reviewed'     // Supplier: their product was approved, rejected or sent back for changes
+    | 'review_requested'     // Catalogue reviewers: a product is waiting for review
+
+// An in-app message for a single user; unread until readAt is set
+export interface Notification {
+    _id?: ObjectId
+    userId: string
+    type: NotificationType
+    title: string
+    message: string
+    link?: string            // In-app path the notification points to
+    productId?: string
+    orderId?: string
+    readAt?: Date
+    createdAt: Date
+}
+
+export type NewNotification = Omit<Notification, '_id' | 'readAt' | 'createdAt'>
+
+// --- Serializable Types ---
+
+export interface NotificationSerializable {
+    _id: string
+    type: NotificationType
+    title: string
+    message: string
+    link?: string
+    productId?: string
+    orderId?: string
+    readAt?: string
+    createdAt: string
+}
+
+export interface NotificationListOptions {
+    unreadOnly?: boolean
+    types?: NotificationType[]
+    limit?: number
+}
+
+// --- Constants ---
+
+// Shipment changes worth telling the customer about; pending is where every shipment starts
+const NOTIFIED_SHIPMENT_STATUSES: OrderStatus[] = ['processing', 'shipped', 'delivered', 'cancelled']
+
+const SHIPMENT_STATUS_COPY: Record<OrderStatus, string> = {
+    pending: 'is waiting to be prepared',
+    processing: 'is being prepared',
+    shipped: 'has shipped',
+    delivered: 'has been delivered',
+    cancelled: 'has been cancelled'
+}
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getNotificationCollection(): Promise<Collection<Notification>> {
+    const db = await getDb()
+    return db.collection<Notification>('notifications')
+}
+
+// --- Utility Functions ---
+
+/**
+ * Convert a MongoDB notification document to a serializable format
+ */
+export function toSerializable(notification: WithId<Notification>): NotificationSerializable {
+    return {
+        _id: notification._id.toHexString(),
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        link: notification.link,
+        productId: notification.productId,
+        orderId: notification.orderId,
+        readAt: notification.readAt?.toISOString(),
+        createdAt: notification.createdAt.toISOString()
+    }
+}
+
+/**
+ * Store notifications, within the caller's transaction so they only appear if it commits
+ */
+export async function createNotifications(
+    db: Db,
+    notifications: NewNotification[],
+    session: ClientSession
+): Promise<void> {
+    if (notifications.length === 0) {
+        return
+    }
+
+    const now = new Date()
+
+    await db.collection<Notification>('notifications').insertMany(
+        notifications.map(notification => ({ ...notification, createdAt: now })),
+        { session }
+    )
+}
+
+/**
+ * Store notifications outside any transaction, for events that have already happened
+ * Never throws: a notification that cannot be stored must not fail what triggered it
+ */
+export async function notifyUsers(notifications: NewNotification[]): Promise<void> {
+    if (notifications.length === 0) {
+        return
+    }
+
+    try {
+        const collection = await getNotificationCollection()
+        const now = new Date()
+
+        await collection.insertMany(notifications.map(notification => ({ ...notification, createdAt: now })))
+    } catch (error) {
+        console.error('Failed to store notifications:', error)
+    }
+}
+
+/**
+ * Get a user's notifications, most recent first
+ */
+export async function getUserNotifications(
+    userId: string,
+    options: NotificationListOptions = {}
+): Promise<WithId<Notification>[]> {
+    const collection = await getNotificationCollection()
+
+    const filter: Record<string, unknown> = { userId }
+    if (options.unreadOnly) {
+        filter.readAt = { $exists: false }
+    }
+    if (options.types) {
+        filter.type = { $in: options.types }
+    }
+
+    return await collection
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .limit(options.limit || 20)
+        .toArray()
+}
+
+/**
+ * Count a user's unread notifications, for the badge on the bell
+ */
+export async function getUnreadNotificationCount(userId: string): Promise<number> {
+    const collection = await getNotificationCollection()
+    return await collection.countDocuments({ userId, readAt: { $exists: false } })
+}
+
+/**
+ * Mark a user's notifications as read; all unread ones when no IDs are given
+ * Returns how many were marked
+ */
+export async function markNotificationsRead(userId: string, notificationIds?: string[]): Promise<number> {
+    const { ObjectId } = await import('mongodb')
+    const collection = await getNotificationCollection()
+
+    const filter: Record<string, unknown> = { userId, readAt: { $exists: false } }
+    if (notificationIds) {
+        try {
+            filter._id = { $in: notificationIds.map(id => new ObjectId(id)) }
+        } catch {
+            // Invalid ObjectId format
+            return 0
+        }
+    }
+
+    const result = await collection.updateMany(filter, { $set: { readAt: new Date() } })
+    return result.modifiedCount
+}
+
+// --- Notifications for Events ---
+
+function orderNumber(orderId: string): string {
+    return `#${orderId.slice(-6).toUpperCase()}`
+}
+
+/**
+ * Tell each maker in a paid order what they have to ship
+ */
+export async function notifyOrderPlaced(order: WithId<Order>): Promise<void> {
+    const orderId = order._id.toHexString()
+    const supplierIds = [...new Set(order.items.map(item => item.supplierId))]
+
+    await notifyUsers(supplierIds.map(supplierId => {
+        const items = order.items.filter(item => item.supplierId === supplierId)
+        const quantity = items.reduce((sum, item) => sum + item.quantity, 0)
+
+        return {
+            userId: supplierId,
+            type: 'new_order' as const,
+            title: `New order ${orderNumber(orderId)}`,
+            message: `${quantity} ${quantity === 1 ? 'piece' : 'pieces'} to ship: ${items.map(item => item.productName).join(', ')}`,
+            link: `/supplier/orders/${orderId}`,
+            orderId
+        }
+    }))
+}
+
+/**
+ * Tell the customer about each maker's shipment that an update moved on, and each maker
+ * whose shipment someone else cancelled. Nobody is told about their own change
+ */
+export async function notifyShipmentStatusChanges(before: Order, after: WithId<Order>, actorId: string): Promise<void> {
+    const { getMakerSummaries } = await import('./supplier-utils')
+
+    try {
+        const orderId = after._id.toHexString()
+        const changed = (after.shipments || []).filter(shipment =>
+            NOTIFIED_SHIPMENT_STATUSES.includes(shipment.status) &&
+            before.shipments?.find(s => s.supplierId === shipment.supplierId)?.status !== shipment.status
+        )
+        if (changed.length === 0) {
+            return
+        }
+
+        const makers = await getMakerSummaries(changed.map(shipment => shipment.supplierId))
+        const notifications: NewNotification[] = []
+
+        for (const shipment of changed) {
+            if (after.userId !== actorId) {
+                const makerName = makers.get(shipment.supplierId)?.displayName || 'your maker'
+                notifications.push({
+                    userId: after.userId,
+                    type: 'order_status',
+                    title: `Your order from ${makerName} ${SHIPMENT_STATUS_COPY[shipment.status]}`,
+                    message: shipment.status === 'shipped' && shipment.trackingNumber
+                        ? `Order ${orderNumber(orderId)} · Tracking number ${shipment.trackingNumber}`
+                        : `Order ${orderNumber(orderId)}`,
+                    link: '/profile',
+                    orderId
+                })
+            }
+            if (shipment.status === 'cancelled' && shipment.supplierId !== actorId) {
+                notifications.push({
+                    userId: shipment.supplierId,
+                    type: 'order_status',
+                    title: `Order ${orderNumber(orderId)} was cancelled`,
+                    message: 'You no longer need to ship these pieces.',
+                    link: `/supplier/orders/${orderId}`,
+                    orderId
+                })
+            }
+        }
+
+        await notifyUsers(notifications)
+    } catch (error) {
+        console.error('Failed to notify about shipment changes:', error)
+    }
+}
+
+/**
+ * Tell a maker how the review of their product went
+ */
+export async function notifyProductReviewed(product: WithId<Product>): Promise<void> {
+    const review = product.reviews?.[product.reviews.length - 1]
+    if (!review) {
+        return
+    }
+
+    const productId = product._id.toHexString()
+    const outcome = {
+        approved: { title: `${product.name} is live`, message: 'It has been approved and is now for sale.' },
+        rejected: { title: `${product.name} was not approved`, message: 'See the reasons on your product and resubmit it.' },
+        changes_requested: { title: `${product.name} needs a few changes`, message: review.note || 'Update it and resubmit it for review.' }
+    }[review.decision]
+
+    await notifyUsers([{
+        userId: product.supplierId,
+        type: 'product_reviewed',
+        ...outcome,
+        link: review.decision === 'approved' ? `/product/${productId}` : '/supplier/products',
+        productId
+    }])
+}
+
+/**
+ * Tell everyone who reviews products that one is waiting for them
+ */
+export async function notifyReviewRequested(product: WithId<Product>): Promise<void> {
+    const { getUserIdsWithPermission } = await import('./user-utils')
+
+    try {
+        const reviewerIds = await getUserIdsWithPermission('product:activate')
+
+        await notifyUsers(reviewerIds.map(userId => ({
+            userId,
+            type: 'review_requested' as const,
+            title: `${product.name} is waiting for review`,
+            message: 'A maker has submitted it for sale.',
+            link: '/admin/reviews',
+            productId: product._id.toHexString()
+        })))
+    } catch (error) {
+        console.error('Failed to notify reviewers:', error)
+    }
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ObjectId } from 'mongodb'
+
+// --- Mock Imports for Testing ---
+
+// Mocks for MongoDB collections
+const mockNotificationCollection = {
+    insertMany: vi.fn(),
+    countDocuments: vi.fn(),
+}
+
+const mockUserCollection = {
+    find: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'user') return mockUserCollection
+        return mockNotificationCollection
+    }),
+}
+
+const mockClientPromise = Promise.resolve({
+    db: () => mockDb,
+})
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+vi.mock('./supplier-utils', () => ({
+    getMakerSummaries: vi.fn(async () => new Map([['supplier-1', { displayName: 'Clay & Co' }]])),
+}))
+
+function orderWith(shipments: { supplierId: string; status: string; trackingNumber?: string }[]) {
+    const now = new Date()
+    return {
+        _id: new ObjectId(),
+        userId: 'customer-1',
+        items: [
+            { productId: 'p1', productName: 'Mug', quantity: 2, unitPrice: 20, costPrice: 8, supplierId: 'supplier-1' },
+            { productId: 'p2', productName: 'Plate', quantity: 1, unitPrice: 25, costPrice: 9, supplierId: 'supplier-1' },
+            { productId: 'p3', productName: 'Bowl', quantity: 1, unitPrice: 30, costPrice: 12, supplierId: 'supplier-2' },
+        ],
+        shipments: shipments.map(shipment => ({ ...shipment, createdAt: now, updatedAt: now })),
+        shippingAddress: { street: '1 Lane', city: 'Leeds', zip: 'LS1', country: 'UK' },
+        totals: { subtotal: 95, shipping: 0, total: 95 },
+        status: 'processing',
+        createdAt: now,
+        updatedAt: now,
+    } as any
+}
+
+function insertedNotifications() {
+    return mockNotificationCollection.insertMany.mock.calls[0]?.[0] ?? []
+}
+
+// --- Unit Tests ---
+
+describe('notifyOrderPlaced', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should tell each maker what they have to ship', async () => {
+        const { notifyOrderPlaced } = await import('./notification-utils')
+        const order = orderWith([])
+        const orderId = order._id.toHexString()
+
+        await notifyOrderPlaced(order)
+
+        expect(insertedNotifications()).toEqual([
+            expect.objectContaining({
+                userId: 'supplier-1',
+                type: 'new_order',
+                message: '3 pieces to ship: Mug, Plate',
+                link: `/supplier/orders/${orderId}`,
+                orderId,
+            }),
+            expect.objectContaining({ userId: 'supplier-2', message: '1 piece to ship: Bowl' }),
+        ])
+    })
+
+    it('should not fail the order when notifications cannot be stored', async () => {
+        const { notifyOrderPlaced } = await import('./notification-utils')
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+        mockNotificationCollection.insertMany.mockRejectedValueOnce(new Error('Database unavailable'))
+
+        await expect(notifyOrderPlaced(orderWith([]))).resolves.toBeUndefined()
+    })
+})
+
+describe('notifyShipmentStatusChanges', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should tell the customer when a maker ships their part of the order', async () => {
+        const { notifyShipmentStatusChanges } = await import('./notification-utils')
+        const before = orderWith([{ supplierId: 'supplier-1', status: 'processing' }, { supplierId: 'supplier-2', status: 'processing' }])
+        const after = { ...before, shipments: [
+            { ...before.shipments[0], status: 'shipped', trackingNumber: 'TRACK-1' },
+            before.shipments[1],
+        ] }
+
+        await notifyShipmentStatusChanges(before, after, 'supplier-1')
+
+        expect(insertedNotifications()).toEqual([
+            expect.objectContaining({
+                userId: 'customer-1',
+                type: 'order_status',
+                title: 'Your order from Clay & Co has shipped',
+                message: expect.stringContaining('Tracking number TRACK-1'),
+            }),
+        ])
+    })
+
+    it('should tell makers when the customer cancels, but not the customer', async () => {
+        const { notifyShipmentStatusChanges } = await import('./notification-utils')
+        const before = orderWith([{ supplierId: 'supplier-1', status: 'pending' }, { supplierId: 'supplier-2', status: 'pending' }])
+        const after = { ...before, shipments: before.shipments.map((shipment: object) => ({ ...shipment, status: 'cancelled' })) }
+
+        await notifyShipmentStatusChanges(before, after, 'customer-1')
+
+        expect(insertedNotifications().map((n: { userId: string }) => n.userId)).toEqual(['supplier-1', 'supplier-2'])
+    })
+
+    it('should skip shipments whose status did not change', async () => {
+        const { notifyShipmentStatusChanges } = await import('./notification-utils')
+        const order = orderWith([{ supplierId: 'supplier-1', status: 'shipped' }])
+
+        await notifyShipmentStatusChanges(order, order, 'admin-1')
+
+        expect(mockNotificationCollection.insertMany).not.toHaveBeenCalled()
+    })
+})
+
+describe('notifyProductReviewed', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should send the maker back to their products when changes are requested', async () => {
+        const { notifyProductReviewed } = await import('./notification-utils')
+        const product = {
+            _id: new ObjectId(),
+            supplierId: 'supplier-1',
+            name: 'Oak Bowl',
+            reviews: [
+                { decision: 'rejected', reasons: ['poor_photos'], reviewerId: 'reviewer-1', reviewedAt: new Date() },
+                { decision: 'changes_requested', reasons: [], note: 'Add the dimensions', reviewerId: 'reviewer-1', reviewedAt: new Date() },
+            ],
+        } as any
+
+        await notifyProductReviewed(product)
+
+        expect(insertedNotifications()).toEqual([expect.objectContaining({
+            userId: 'supplier-1',
+            type: 'product_reviewed',
+            title: 'Oak Bowl needs a few changes',
+            message: 'Add the dimensions',
+            link: '/supplier/products',
+        })])
+    })
+})
+
+describe('notifyReviewRequested', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should notify everyone whose role can approve products', async () => {
+        const { notifyReviewRequested } = await import('./notification-utils')
+        // Stored as BetterAuth's Mongo adapter writes users: the ID is the _id, with no id field
+        const reviewerId = new ObjectId()
+        const adminId = new ObjectId()
+        mockUserCollection.find.mockReturnValue({
+            toArray: vi.fn().mockResolvedValue([{ _id: reviewerId }, { _id: adminId }]),
+        })
+
+        await notifyReviewRequested({ _id: new ObjectId(), supplierId: 'supplier-1', name: 'Oak Bowl' } as any)
+
+        const [filter] = mockUserCollection.find.mock.calls[0]
+        expect(filter.role.$in).toEqual(['catalogue_reviewer', 'admin'])
+        expect(insertedNotifications().map((n: { userId: string; link: string }) => [n.userId, n.link])).toEqual([
+            [reviewerId.toHexString(), '/admin/reviews'],
+            [adminId.toHexString(), '/admin/reviews'],
+        ])
+    })
+})
+
+describe('getUnreadNotificationCount', () => {
+    it('should count only unread notifications', async () => {
+        const { getUnreadNotificationCount } = await import('./notification-utils')
+        mockNotificationCollection.countDocuments.mockResolvedValue(4)
+
+        expect(await getUnreadNotificationCount('user-1')).toBe(4)
+        expect(mockNotificationCollection.countDocuments).toHaveBeenCalledWith({ userId: 'user-1', readAt: { $exists: false } })
+    })
+})
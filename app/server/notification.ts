@@ -0,0 +1,48 @@
+import { createServerFn } from '@tanstack/react-start'
+import type { NotificationType } from './notification-utils'
+
+// --- Input Types for Server Functions ---
+
+interface GetNotificationsInput {
+    unreadOnly?: boolean
+    types?: NotificationType[]
+}
+
+interface MarkNotificationsReadInput {
+    notificationIds?: string[]
+}
+
+// --- Server Functions ---
+
+/**
+ * Get the current user's notifications and how many are unread (Any signed-in user)
+ */
+export const getMyNotificationsFn = createServerFn({ method: "GET" })
+    .inputValidator((data: GetNotificationsInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { getUserNotifications, getUnreadNotificationCount, toSerializable } = await import('./notification-utils')
+
+        const user = await requireAuth()
+        const [notifications, unreadCount] = await Promise.all([
+            getUserNotifications(user.id, { unreadOnly: data.unreadOnly, types: data.types }),
+            getUnreadNotificationCount(user.id)
+        ])
+
+        return { notifications: notifications.map(toSerializable), unreadCount }
+    })
+
+/**
+ * Mark the current user's notifications as read, or all of them without IDs (Any signed-in user)
+ */
+export const markNotificationsReadFn = createServerFn({ method: "POST" })
+    .inputValidator((data: MarkNotificationsReadInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { markNotificationsRead } = await import('./notification-utils')
+
+        const user = await requireAuth()
+        const marked = await markNotificationsRead(user.id, data.notificationIds)
+
+        return { marked, success: true }
+    })
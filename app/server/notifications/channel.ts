@@ -0,0 +1,25 @@
+// --- Notification Channel Types ---
+
+export interface NotificationRecipient {
+    userId: string
+    email: string
+    name?: string | null
+}
+
+// A message for one customer, independent of how it is delivered
+export interface NotificationMessage {
+    type: string             // What triggered it, e.g. back_in_stock
+    recipient: NotificationRecipient
+    subject: string
+    body: string
+    link?: string            // Storefront path the message points to
+}
+
+/**
+ * A way of reaching customers outside the app, e.g. email
+ * Delivery failures throw so the caller can keep the message for another attempt
+ */
+export interface NotificationChannel {
+    readonly name: string
+    send(message: NotificationMessage): Promise<void>
+}
@@ -0,0 +1,27 @@
+import type { NotificationChannel } from './channel'
+
+/**
+ * Deliver notifications as emails through the email queue
+ * The message counts as sent once it is queued; the queue retries the actual delivery
+ */
+export function createEmailNotificationChannel(): NotificationChannel {
+    return {
+        name: 'email',
+
+        async send(message) {
+            const { queueEmails, deliverInBackground } = await import('../email-utils')
+
+            await queueEmails([{
+                to: message.recipient.email,
+                userId: message.recipient.userId,
+                template: 'notification',
+                data: {
+                    subject: message.subject,
+                    body: message.body,
+                    ...(message.link && { link: message.link })
+                }
+            }])
+            deliverInBackground()
+        },
+    }
+}
@@ -0,0 +1,23 @@
+import { serverEnv } from '../env'
+import { createEmailNotificationChannel } from './email-channel'
+import { createLocalNotificationChannel } from './local-channel'
+import type { NotificationChannel } from './channel'
+
+// Lazy-initialized notification channel, selected by NOTIFICATION_CHANNEL
+let _channel: NotificationChannel | null = null
+
+export function getNotificationChannel(): NotificationChannel {
+    if (!_channel) {
+        switch (serverEnv.NOTIFICATION_CHANNEL) {
+            case 'local':
+                _channel = createLocalNotificationChannel({
+                    outboxFile: serverEnv.NOTIFICATION_OUTBOX_FILE
+                })
+                break
+            case 'email':
+                _channel = createEmailNotificationChannel()
+                break
+        }
+    }
+    return _channel!
+}
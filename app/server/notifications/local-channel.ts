@@ -0,0 +1,26 @@
+import { appendFile, mkdir } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { NotificationChannel } from './channel'
+
+/**
+ * Channel for development and tests that delivers nothing
+ * Messages are appended to a JSON lines file when one is given, and logged otherwise
+ */
+export function createLocalNotificationChannel(options: { outboxFile?: string } = {}): NotificationChannel {
+    return {
+        name: 'local',
+
+        async send(message) {
+            if (!options.outboxFile) {
+                console.info(`[notification] ${message.type} to ${message.recipient.email}: ${message.subject}`)
+                return
+            }
+
+            await mkdir(dirname(options.outboxFile), { recursive: true })
+            await appendFile(
+                options.outboxFile,
+                JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n'
+            )
+        },
+    }
+}
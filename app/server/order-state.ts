@@ -0,0 +1,69 @@
+import type { OrderStatus } from './order-utils'
+
+// --- Order State Machine ---
+// Shared by orders and shipments. Kept free of database imports so the UI
+// can use it to offer only valid next statuses.
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ['processing', 'cancelled'],
+    processing: ['shipped', 'cancelled'],
+    shipped: ['delivered'],
+    delivered: [],
+    cancelled: []
+}
+
+// Forward order of fulfilment, cancelled sits outside it
+export const ORDER_STATUS_FLOW: OrderStatus[] = ['pending', 'processing', 'shipped', 'delivered']
+
+export interface TransitionOptions {
+    override?: boolean   // Admin only: allow transitions outside the normal flow
+}
+
+/**
+ * Check whether a status change follows the normal flow
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Get the statuses reachable from the given status
+ */
+export function getNextStatuses(from: OrderStatus): OrderStatus[] {
+    return ORDER_STATUS_TRANSITIONS[from]
+}
+
+/**
+ * Validate a status change, throwing if it is not allowed
+ * Returns true when the change was only allowed because of the override flag.
+ * Some rules hold even with an override, since their inventory side-effects
+ * cannot be undone: goods that have shipped cannot be cancelled back into
+ * stock, and a cancelled order has already released its stock.
+ */
+export function assertTransition(
+    from: OrderStatus,
+    to: OrderStatus,
+    options: TransitionOptions = {}
+): boolean {
+    if (from === to) {
+        throw new Error(`Status is already ${to}`)
+    }
+
+    if (to === 'cancelled' && (from === 'shipped' || from === 'delivered')) {
+        throw new Error('Cannot cancel after shipping')
+    }
+
+    if (from === 'cancelled') {
+        throw new Error('Cancelled orders cannot be reopened')
+    }
+
+    if (canTransition(from, to)) {
+        return false
+    }
+
+    if (!options.override) {
+        throw new Error(`Invalid status transition from ${from} to ${to}`)
+    }
+
+    return true
+}
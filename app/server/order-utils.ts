@@ -1,11 +1,35 @@
 import clientPromise from './db/mongo'
-import type { ObjectId, Collection, Db, WithId } from 'mongodb'
+import type { ObjectId, ClientSession, Collection, Db, WithId } from 'mongodb'
+import { assertTransition, ORDER_STATUS_FLOW, type TransitionOptions } from './order-state'
+import { recordMovements } from './inventory-utils'
+import {
+    keysetFilter,
+    NEWEST_FIRST,
+    readOrder,
+    toCursorPage,
+    type CursorOptions,
+    type CursorPageInfo
+} from './cursor'
+import { createNotifications, type NewNotification } from './notification-utils'
+import {
+    DEFAULT_REORDER_THRESHOLD,
+    getStockLevel,
+    resolveVariant,
+    stockIncrements,
+    variantArrayFilters,
+    type Product
+} from './product-utils'
+import { describeVariant, getLineKey } from './product-variants'
+import { availableAtLeast, consumeReservation } from './reservation-utils'
 
 // --- Order Types ---
 
 export interface OrderItem {
     productId: string
     productName: string
+    variantId?: string     // Set for products with variants, with the label and SKU at time of order
+    variantLabel?: string
+    sku?: string
     quantity: number
     unitPrice: number      // Selling price at time of order
     costPrice: number      // Cost price at time of order (Snapshot)
@@ -27,10 +51,68 @@ export interface OrderTotals {
     total: number
 }
 
+// A shipment groups the items fulfilled by one supplier within an order
+// Each supplier moves their own shipment; the order status is derived from all of them
+export interface Shipment {
+    supplierId: string
+    status: OrderStatus
+    trackingNumber?: string
+    createdAt: Date
+    updatedAt: Date
+    shippedAt?: Date
+    deliveredAt?: Date
+    cancelledAt?: Date
+}
+
+// Who changed an order's status; 'system' covers automated changes
+export type StatusActorRole = 'customer' | 'supplier' | 'admin' | 'system'
+
+export interface StatusActor {
+    id: string
+    role: StatusActorRole
+    note?: string
+}
+
+export const SYSTEM_ACTOR: StatusActor = { id: 'system', role: 'system' }
+
+// An entry in the append-only status history, never edited once written
+export interface StatusHistoryEntry {
+    actorId: string
+    actorRole: StatusActorRole
+    supplierId?: string              // Set when the change applies to a single shipment
+    previousStatus: OrderStatus | null   // Null for the entry recorded at order creation
+    nextStatus: OrderStatus
+    note?: string
+    override?: boolean               // Set when an admin forced a transition outside the normal flow
+    createdAt: Date
+}
+
+// pending -> authorized -> captured, or failed/expired when authorization does not complete.
+// Authorized payments that are not captured get voided; captured ones are refunded,
+// possibly in parts, and become refunded once nothing is left
+export type PaymentState = 'pending' | 'authorized' | 'captured' | 'failed' | 'expired' | 'voided' | 'refunded'
+
+export interface OrderPayment {
+    provider: string
+    intentId?: string        // Provider's payment intent, set once authorization starts
+    amount: number
+    currency: string
+    state: PaymentState
+    refundedAmount: number
+    failureReason?: string
+    expiresAt: Date          // Reserved stock is released if the payment is not authorized by then
+    authorizedAt?: Date
+    capturedAt?: Date
+    updatedAt: Date
+}
+
 export interface Order {
     _id?: ObjectId
     userId: string
     items: OrderItem[]
+    shipments?: Shipment[]   // Absent on orders placed before shipments were introduced
+    statusHistory?: StatusHistoryEntry[]   // Absent on orders placed before history was recorded
+    payment?: OrderPayment   // Absent on orders placed before payments were introduced
     shippingAddress: ShippingAddress
     totals: OrderTotals
     status: OrderStatus
@@ -40,10 +122,35 @@ export interface Order {
 
 // --- Serializable Types ---
 
+export interface ShipmentSerializable {
+    supplierId: string
+    status: OrderStatus
+    trackingNumber?: string
+    createdAt: string
+    updatedAt: string
+    shippedAt?: string
+    deliveredAt?: string
+    cancelledAt?: string
+}
+
+export interface StatusHistoryEntrySerializable extends Omit<StatusHistoryEntry, 'createdAt'> {
+    createdAt: string
+}
+
+export interface OrderPaymentSerializable extends Omit<OrderPayment, 'expiresAt' | 'authorizedAt' | 'capturedAt' | 'updatedAt'> {
+    expiresAt: string
+    authorizedAt?: string
+    capturedAt?: string
+    updatedAt: string
+}
+
 export interface OrderSerializable {
     _id: string
     userId: string
     items: OrderItem[]
+    shipments: ShipmentSerializable[]
+    statusHistory: StatusHistoryEntrySerializable[]
+    payment?: OrderPaymentSerializable
     shippingAddress: ShippingAddress
     totals: OrderTotals
     status: OrderStatus
@@ -51,17 +158,32 @@ export interface OrderSerializable {
     updatedAt: string
 }
 
+// Supplier-facing view: only their items and shipment, totals at cost price
+export interface SupplierOrderSerializable extends OrderSerializable {
+    shipment: ShipmentSerializable | null
+}
+
 // --- Input Types ---
 
 export interface CreateOrderInput {
     items: Array<{
         productId: string
+        variantId?: string
         quantity: number
     }>
     shippingAddress: ShippingAddress
 }
 
-export interface OrderListOptions {
+// Payment details recorded with a new order before authorization starts
+export type NewOrderPayment = Pick<OrderPayment, 'provider' | 'currency' | 'expiresAt'>
+
+export interface UpdateShipmentInput {
+    status: OrderStatus
+    trackingNumber?: string
+}
+
+// Set pagination to 'cursor' to page with cursors instead of page numbers
+export interface OrderListOptions extends CursorOptions {
     page?: number
     limit?: number
     status?: OrderStatus
@@ -77,6 +199,15 @@ export interface PaginatedOrders<T> {
     totalPages: number
 }
 
+// Cursor-paginated orders, newest first; pages are not counted, so there are no totals
+export interface CursorPaginatedOrders<T> extends CursorPageInfo {
+    orders: T[]
+    limit: number
+}
+
+// Options for listing one user's or supplier's orders
+type ListOptions = Omit<OrderListOptions, 'userId' | 'supplierId'>
+
 // --- Database Access ---
 
 let _db: Db | null = null
@@ -96,6 +227,108 @@ export async function getOrderCollection(): Promise<Collection<Order>> {
 
 // --- Utility Functions ---
 
+/**
+ * Build one shipment per distinct supplier in the order items
+ */
+export function buildShipments(items: OrderItem[], status: OrderStatus = 'pending', now: Date = new Date()): Shipment[] {
+    const supplierIds = [...new Set(items.map(item => item.supplierId))]
+    return supplierIds.map(supplierId => ({
+        supplierId,
+        status,
+        createdAt: now,
+        updatedAt: now
+    }))
+}
+
+/**
+ * Get an order's shipments, synthesizing them from the items for legacy orders
+ */
+export function getOrderShipments(order: Order): Shipment[] {
+    if (order.shipments && order.shipments.length > 0) {
+        return order.shipments
+    }
+    return buildShipments(order.items, order.status, order.updatedAt)
+}
+
+/**
+ * Derive the order-level status from its shipments
+ * - cancelled only when every shipment is cancelled
+ * - otherwise the least advanced of the remaining shipments wins,
+ *   except that any started shipment moves the order out of pending
+ */
+export function deriveOrderStatus(shipments: Pick<Shipment, 'status'>[]): OrderStatus {
+    const active = shipments.filter(shipment => shipment.status !== 'cancelled')
+    
+    if (active.length === 0) {
+        return shipments.length > 0 ? 'cancelled' : 'pending'
+    }
+    
+    if (active.every(shipment => shipment.status === 'delivered')) {
+        return 'delivered'
+    }
+    
+    if (active.every(shipment => shipment.status === 'shipped' || shipment.status === 'delivered')) {
+        return 'shipped'
+    }
+    
+    if (active.some(shipment => shipment.status !== 'pending')) {
+        return 'processing'
+    }
+    
+    return 'pending'
+}
+
+function shipmentToSerializable(shipment: Shipment): ShipmentSerializable {
+    return {
+        supplierId: shipment.supplierId,
+        status: shipment.status,
+        trackingNumber: shipment.trackingNumber,
+        createdAt: shipment.createdAt.toISOString(),
+        updatedAt: shipment.updatedAt.toISOString(),
+        shippedAt: shipment.shippedAt?.toISOString(),
+        deliveredAt: shipment.deliveredAt?.toISOString(),
+        cancelledAt: shipment.cancelledAt?.toISOString()
+    }
+}
+
+/**
+ * Build a status history entry for the given actor
+ */
+export function buildStatusHistoryEntry(
+    actor: StatusActor,
+    previousStatus: OrderStatus | null,
+    nextStatus: OrderStatus,
+    supplierId?: string,
+    now: Date = new Date()
+): StatusHistoryEntry {
+    return {
+        actorId: actor.id,
+        actorRole: actor.role,
+        ...(supplierId && { supplierId }),
+        previousStatus,
+        nextStatus,
+        ...(actor.note && { note: actor.note }),
+        createdAt: now
+    }
+}
+
+function statusHistoryEntryToSerializable(entry: StatusHistoryEntry): StatusHistoryEntrySerializable {
+    return {
+        ...entry,
+        createdAt: entry.createdAt.toISOString()
+    }
+}
+
+function paymentToSerializable(payment: OrderPayment): OrderPaymentSerializable {
+    return {
+        ...payment,
+        expiresAt: payment.expiresAt.toISOString(),
+        authorizedAt: payment.authorizedAt?.toISOString(),
+        capturedAt: payment.capturedAt?.toISOString(),
+        updatedAt: payment.updatedAt.toISOString()
+    }
+}
+
 /**
  * Convert a MongoDB order document to a serializable format
  */
@@ -104,6 +337,9 @@ export function toSerializable(order: WithId<Order>): OrderSerializable {
         _id: order._id.toHexString(),
         userId: order.userId,
         items: order.items,
+        shipments: getOrderShipments(order).map(shipmentToSerializable),
+        statusHistory: (order.statusHistory || []).map(statusHistoryEntryToSerializable),
+        payment: order.payment && paymentToSerializable(order.payment),
         shippingAddress: order.shippingAddress,
         totals: order.totals,
         status: order.status,
@@ -112,13 +348,82 @@ export function toSerializable(order: WithId<Order>): OrderSerializable {
     }
 }
 
+/**
+ * Build the supplier's view of an order
+ * Filters items, shipments and status history to the supplier, reports their shipment status
+ * as the order status, and totals the items at COST price
+ */
+export function toSupplierSerializable(order: WithId<Order>, supplierId: string): SupplierOrderSerializable {
+    const supplierItems = order.items.filter(item => item.supplierId === supplierId)
+    const shipment = getSupplierShipment(order, supplierId)
+    
+    const supplierTotal = supplierItems.reduce((sum, item) => {
+        return sum + (item.quantity * (item.costPrice || 0))
+    }, 0)
+    
+    const serializable = toSerializable(order)
+    const serializableShipment = shipment ? shipmentToSerializable(shipment) : null
+    
+    return {
+        ...serializable,
+        items: supplierItems,
+        shipments: serializableShipment ? [serializableShipment] : [],
+        shipment: serializableShipment,
+        // Payment details are between the customer and the store
+        payment: undefined,
+        // Order-level changes plus changes to this supplier's shipment
+        statusHistory: serializable.statusHistory.filter(
+            entry => !entry.supplierId || entry.supplierId === supplierId
+        ),
+        status: shipment?.status ?? order.status,
+        totals: {
+            ...serializable.totals,
+            subtotal: supplierTotal,
+            total: supplierTotal
+        }
+    }
+}
+
+/**
+ * Build the supplier notification for a sale that takes a product's stock on hand
+ * across its reorder threshold or out of stock; null when no threshold is crossed
+ */
+function buildStockAlert(
+    product: Product,
+    productId: string,
+    quantity: number
+): NewNotification | null {
+    const threshold = product.inventory.reorderThreshold ?? DEFAULT_REORDER_THRESHOLD
+    const before = getStockLevel(product.inventory.onHand, threshold)
+    const after = getStockLevel(product.inventory.onHand - quantity, threshold)
+    
+    if (after === before || after === 'in_stock') {
+        return null
+    }
+    
+    const remaining = Math.max(0, product.inventory.onHand - quantity)
+    return {
+        userId: product.supplierId,
+        type: after,
+        title: after === 'out_of_stock' ? `${product.name} is out of stock` : `${product.name} is running low`,
+        message: after === 'out_of_stock'
+            ? 'The last units were just sold. Restock it to keep selling.'
+            : `Only ${remaining} left on hand, at or below your reorder threshold of ${threshold}.`,
+        link: '/supplier/products',
+        productId
+    }
+}
+
 /**
  * Create a new order with atomic stock validation and decrement
  * Uses MongoDB transaction for transactional integrity
+ * Consumes the customer's checkout reservation, if any. When a payment is given
+ * the decremented stock is held for it until it is authorized or expires
  */
 export async function createOrder(
     userId: string,
-    input: CreateOrderInput
+    input: CreateOrderInput,
+    payment?: NewOrderPayment
 ): Promise<WithId<Order>> {
     const { ObjectId } = await import('mongodb')
     const client = await clientPromise
@@ -129,19 +434,21 @@ export async function createOrder(
         
         await session.withTransaction(async () => {
             const db = client.db()
-            const productCollection = db.collection('products')
+            const productCollection = db.collection<Product>('products')
             const orderCollection = db.collection<Order>('orders')
             const cartCollection = db.collection('carts')
             
             // Fetch all products to validate they exist and get current prices
-            const productIds = input.items.map(item => new ObjectId(item.productId))
+            // Several lines can be variants of the same product
+            const uniqueProductIds = [...new Set(input.items.map(item => item.productId))]
+            const productIds = uniqueProductIds.map(productId => new ObjectId(productId))
             const products = await productCollection.find(
                 { _id: { $in: productIds }, status: 'active' },
                 { session }
             ).toArray()
             
             // Verify all products exist and are active
-            if (products.length !== input.items.length) {
+            if (products.length !== uniqueProductIds.length) {
                 throw new Error('One or more products not found or not available')
             }
             
@@ -150,9 +457,13 @@ export async function createOrder(
                 products.map(p => [p._id.toHexString(), p])
             )
             
+            // Stock held for this customer at checkout counts towards their order
+            const held = await consumeReservation(db, userId, input.items, session)
+            
             // Prepare order items with current prices
             const orderItems: OrderItem[] = []
             let subtotal = 0
+            const soldByProduct = new Map<string, number>()
             
             for (const item of input.items) {
                 const product = productMap.get(item.productId)
@@ -160,36 +471,65 @@ export async function createOrder(
                     throw new Error(`Product ${item.productId} not found`)
                 }
                 
-                // Check if sufficient stock
-                if (product.inventory.onHand < item.quantity) {
+                // Prices and stock come from the chosen variant for products that have them
+                const { variant, pricing, inventory } = resolveVariant(product, item.variantId)
+                
+                // Check if sufficient stock, not counting stock held for other customers
+                const available = inventory.onHand - (inventory.reserved || 0)
+                if (available + (held.get(getLineKey(item.productId, item.variantId)) || 0) < item.quantity) {
                     throw new Error(`Insufficient stock for product: ${product.name}`)
                 }
                 
                 orderItems.push({
                     productId: item.productId,
                     productName: product.name,
+                    ...(variant && {
+                        variantId: variant.id,
+                        variantLabel: describeVariant(variant.options),
+                        sku: variant.sku
+                    }),
                     quantity: item.quantity,
-                    unitPrice: product.pricing.selling,
-                    costPrice: product.pricing.cost, // Snapshot cost
+                    unitPrice: pricing.selling,
+                    costPrice: pricing.cost, // Snapshot cost
                     supplierId: product.supplierId
                 })
                 
-                subtotal += product.pricing.selling * item.quantity
+                subtotal += pricing.selling * item.quantity
+                soldByProduct.set(item.productId, (soldByProduct.get(item.productId) || 0) + item.quantity)
             }
             
-            // Atomic stock decrement using bulkWrite with $inc
-            const bulkOps = input.items.map(item => ({
-                updateOne: {
-                    filter: {
-                        _id: new ObjectId(item.productId),
-                        'inventory.onHand': { $gte: item.quantity }
-                    },
-                    update: {
-                        $inc: { 'inventory.onHand': -item.quantity },
-                        $set: { updatedAt: new Date() }
+            // Alert suppliers whose products this sale takes to their reorder threshold
+            const stockAlerts: NewNotification[] = []
+            for (const [productId, quantity] of soldByProduct) {
+                const stockAlert = buildStockAlert(productMap.get(productId)!, productId, quantity)
+                if (stockAlert) {
+                    stockAlerts.push(stockAlert)
+                }
+            }
+            
+            // Atomic stock decrement using bulkWrite with $inc, taking held stock out of the reserved count
+            const bulkOps = input.items.map(item => {
+                const heldQuantity = held.get(getLineKey(item.productId, item.variantId)) || 0
+                return {
+                    updateOne: {
+                        filter: {
+                            _id: new ObjectId(item.productId),
+                            ...(item.variantId
+                                ? { variants: { $elemMatch: { id: item.variantId, 'inventory.onHand': { $gte: item.quantity } } } }
+                                : { 'inventory.onHand': { $gte: item.quantity } }),
+                            ...availableAtLeast(item.quantity - heldQuantity, item.variantId)
+                        },
+                        update: {
+                            $inc: stockIncrements(item.variantId, {
+                                onHand: -item.quantity,
+                                ...(heldQuantity > 0 && { reserved: -heldQuantity })
+                            }),
+                            $set: { updatedAt: new Date() }
+                        },
+                        arrayFilters: variantArrayFilters(item.variantId)
                     }
                 }
-            }))
+            })
             
             const bulkResult = await productCollection.bulkWrite(bulkOps, { session })
             
@@ -202,10 +542,24 @@ export async function createOrder(
             const shipping = subtotal >= 50 ? 0 : 5.99 // Free shipping over $50
             const total = subtotal + shipping
             
-            // Create the order
+            // Create the order with one shipment per supplier
+            const now = new Date()
             const order: Order = {
                 userId,
                 items: orderItems,
+                shipments: buildShipments(orderItems, 'pending', now),
+                statusHistory: [
+                    buildStatusHistoryEntry({ id: userId, role: 'customer' }, null, 'pending', undefined, now)
+                ],
+                ...(payment && {
+                    payment: {
+                        ...payment,
+                        amount: total,
+                        state: 'pending' as const,
+                        refundedAmount: 0,
+                        updatedAt: now
+                    }
+                }),
                 shippingAddress: input.shippingAddress,
                 totals: {
                     subtotal,
@@ -213,13 +567,23 @@ export async function createOrder(
                     total
                 },
                 status: 'pending',
-                createdAt: new Date(),
-                updatedAt: new Date()
+                createdAt: now,
+                updatedAt: now
             }
             
             const result = await orderCollection.insertOne(order, { session })
             createdOrder = { ...order, _id: result.insertedId }
             
+            await recordMovements(db, orderItems.map(item => ({
+                productId: item.productId,
+                variantId: item.variantId,
+                type: 'sale' as const,
+                delta: -item.quantity,
+                orderId: result.insertedId.toHexString()
+            })), { id: userId, role: 'customer' }, session)
+            
+            await createNotifications(db, stockAlerts, session)
+            
             // Clear the user's cart after successful order
             await cartCollection.updateOne(
                 { userId },
@@ -253,22 +617,28 @@ export async function getOrderById(orderId: string): Promise<WithId<Order> | nul
 }
 
 /**
- * Get paginated orders for a specific user
+ * List the orders matching a filter, newest first, by page number or cursor
  */
-export async function getOrdersByUser(
-    userId: string,
-    options: Omit<OrderListOptions, 'userId' | 'supplierId'> = {}
-): Promise<PaginatedOrders<WithId<Order>>> {
+async function listOrders(
+    filter: Record<string, unknown>,
+    options: ListOptions
+): Promise<PaginatedOrders<WithId<Order>> | CursorPaginatedOrders<WithId<Order>>> {
     const collection = await getOrderCollection()
     
     const page = Math.max(1, options.page || 1)
     const limit = Math.min(100, Math.max(1, options.limit || 20))
     const skip = (page - 1) * limit
     
-    const filter: Record<string, unknown> = { userId }
-    
-    if (options.status) {
-        filter.status = options.status
+    if (options.pagination === 'cursor') {
+        const direction = options.direction || 'next'
+        const rows = await collection
+            .find(options.cursor ? { $and: [filter, keysetFilter(NEWEST_FIRST, options.cursor, direction)] } : filter)
+            .sort(readOrder(NEWEST_FIRST, direction))
+            .limit(limit + 1)
+            .toArray()
+        
+        const { items, ...cursors } = toCursorPage(rows, NEWEST_FIRST, { ...options, limit })
+        return { orders: items, limit, ...cursors }
     }
     
     const [orders, total] = await Promise.all([
@@ -290,44 +660,66 @@ export async function getOrdersByUser(
     }
 }
 
+/**
+ * Get paginated orders for a specific user
+ */
+export async function getOrdersByUser(
+    userId: string,
+    options: ListOptions & { pagination: 'cursor' }
+): Promise<CursorPaginatedOrders<WithId<Order>>>
+export async function getOrdersByUser(
+    userId: string,
+    options?: ListOptions & { pagination?: 'offset' }
+): Promise<PaginatedOrders<WithId<Order>>>
+export async function getOrdersByUser(
+    userId: string,
+    options?: ListOptions
+): Promise<PaginatedOrders<WithId<Order>> | CursorPaginatedOrders<WithId<Order>>>
+export async function getOrdersByUser(
+    userId: string,
+    options: ListOptions = {}
+): Promise<PaginatedOrders<WithId<Order>> | CursorPaginatedOrders<WithId<Order>>> {
+    const filter: Record<string, unknown> = { userId }
+    
+    if (options.status) {
+        filter.status = options.status
+    }
+    
+    return await listOrders(filter, options)
+}
+
 /**
  * Get paginated orders containing products from a specific supplier
  */
 export async function getOrdersBySupplier(
     supplierId: string,
-    options: Omit<OrderListOptions, 'userId' | 'supplierId'> = {}
-): Promise<PaginatedOrders<WithId<Order>>> {
-    const collection = await getOrderCollection()
-    
-    const page = Math.max(1, options.page || 1)
-    const limit = Math.min(100, Math.max(1, options.limit || 20))
-    const skip = (page - 1) * limit
-    
+    options: ListOptions & { pagination: 'cursor' }
+): Promise<CursorPaginatedOrders<WithId<Order>>>
+export async function getOrdersBySupplier(
+    supplierId: string,
+    options?: ListOptions & { pagination?: 'offset' }
+): Promise<PaginatedOrders<WithId<Order>>>
+export async function getOrdersBySupplier(
+    supplierId: string,
+    options?: ListOptions
+): Promise<PaginatedOrders<WithId<Order>> | CursorPaginatedOrders<WithId<Order>>>
+export async function getOrdersBySupplier(
+    supplierId: string,
+    options: ListOptions = {}
+): Promise<PaginatedOrders<WithId<Order>> | CursorPaginatedOrders<WithId<Order>>> {
     const filter: Record<string, unknown> = {
         'items.supplierId': supplierId
     }
     
+    // Suppliers filter on their own shipment's status, not the order-level status
     if (options.status) {
-        filter.status = options.status
+        filter.$or = [
+            { shipments: { $elemMatch: { supplierId, status: options.status } } },
+            { shipments: { $exists: false }, status: options.status }
+        ]
     }
     
-    const [orders, total] = await Promise.all([
-        collection
-            .find(filter)
-            .sort({ createdAt: -1 })
-            .skip(skip)
-            .limit(limit)
-            .toArray(),
-        collection.countDocuments(filter)
-    ])
-    
-    return {
-        orders,
-        total,
-        page,
-        limit,
-        totalPages: Math.ceil(total / limit)
-    }
+    return await listOrders(filter, options)
 }
 
 /**
@@ -339,11 +731,13 @@ export async function getSupplierTotalSales(supplierId: string): Promise<number>
     const collection = await getOrderCollection()
     
     const result = await collection.aggregate([
-        // Match orders that contain at least one item from this supplier and are not cancelled
+        // Match orders that contain at least one item from this supplier
+        // where neither the order nor the supplier's shipment is cancelled
         { 
             $match: { 
                 'items.supplierId': supplierId,
-                status: { $ne: 'cancelled' }
+                status: { $ne: 'cancelled' },
+                shipments: { $not: { $elemMatch: { supplierId, status: 'cancelled' } } }
             } 
         },
         // Unwind items array to process individual items
@@ -370,47 +764,120 @@ export async function getSupplierTotalSales(supplierId: string): Promise<number>
  * Get all orders (Admin only) with pagination
  */
 export async function getAllOrders(
-    options: Omit<OrderListOptions, 'userId' | 'supplierId'> = {}
-): Promise<PaginatedOrders<WithId<Order>>> {
-    const collection = await getOrderCollection()
-    
-    const page = Math.max(1, options.page || 1)
-    const limit = Math.min(100, Math.max(1, options.limit || 20))
-    const skip = (page - 1) * limit
-    
+    options: ListOptions & { pagination: 'cursor' }
+): Promise<CursorPaginatedOrders<WithId<Order>>>
+export async function getAllOrders(
+    options?: ListOptions & { pagination?: 'offset' }
+): Promise<PaginatedOrders<WithId<Order>>>
+export async function getAllOrders(
+    options?: ListOptions
+): Promise<PaginatedOrders<WithId<Order>> | CursorPaginatedOrders<WithId<Order>>>
+export async function getAllOrders(
+    options: ListOptions = {}
+): Promise<PaginatedOrders<WithId<Order>> | CursorPaginatedOrders<WithId<Order>>> {
     const filter: Record<string, unknown> = {}
     
     if (options.status) {
         filter.status = options.status
     }
     
-    const [orders, total] = await Promise.all([
-        collection
-            .find(filter)
-            .sort({ createdAt: -1 })
-            .skip(skip)
-            .limit(limit)
-            .toArray(),
-        collection.countDocuments(filter)
-    ])
-    
+    return await listOrders(filter, options)
+}
+
+/**
+ * Move a shipment to a new status, stamping the milestone timestamp
+ */
+function transitionShipment(shipment: Shipment, status: OrderStatus, now: Date, trackingNumber?: string): Shipment {
     return {
-        orders,
-        total,
-        page,
-        limit,
-        totalPages: Math.ceil(total / limit)
+        ...shipment,
+        status,
+        trackingNumber: trackingNumber ?? shipment.trackingNumber,
+        updatedAt: now,
+        ...(status === 'shipped' && { shippedAt: now }),
+        ...(status === 'delivered' && { deliveredAt: now }),
+        ...(status === 'cancelled' && { cancelledAt: now })
+    }
+}
+
+/**
+ * Put the stock of cancelled items back, within the caller's transaction
+ */
+async function restockItems(
+    db: Db,
+    orderId: string,
+    items: OrderItem[],
+    actor: StatusActor,
+    session: ClientSession
+): Promise<void> {
+    if (items.length === 0) {
+        return
+    }
+    
+    const { ObjectId } = await import('mongodb')
+    const now = new Date()
+    
+    await db.collection('products').bulkWrite(
+        items.map(item => ({
+            updateOne: {
+                filter: { _id: new ObjectId(item.productId) },
+                update: {
+                    $inc: stockIncrements(item.variantId, { onHand: item.quantity }),
+                    $set: { updatedAt: now }
+                },
+                arrayFilters: variantArrayFilters(item.variantId)
+            }
+        })),
+        { session }
+    )
+    
+    await recordMovements(db, items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        type: 'cancel_restock' as const,
+        delta: item.quantity,
+        orderId
+    })), actor, session)
+}
+
+/**
+ * Hold fulfilment until the order's payment has been captured
+ * Orders placed before payments were introduced are not gated
+ */
+function assertPaymentCaptured(order: Order, status: OrderStatus): void {
+    if (!order.payment || status === 'pending' || status === 'cancelled') {
+        return
+    }
+
+    if (order.payment.state !== 'captured') {
+        throw new Error('Payment has not been captured for this order')
     }
 }
 
 /**
- * Update order status
+ * Refund or void the payment for cancelled items once the cancellation has committed
+ * Without an amount everything not yet refunded is given back
+ */
+async function settleCancelledPayment(orderId: string, payment: OrderPayment | undefined, amount?: number): Promise<void> {
+    if (payment?.state !== 'captured' && payment?.state !== 'authorized') {
+        return
+    }
+
+    const { refundOrderPayment } = await import('./payment-utils')
+    await refundOrderPayment(orderId, amount)
+}
+
+/**
+ * Update the status of a whole order (Admin or system)
+ * Validates the change against the order state machine, cascades it to the
+ * shipments and restocks cancelled items in one transaction.
+ * Cancelling a paid order refunds it afterwards
  */
 export async function updateOrderStatus(
     orderId: string,
-    status: OrderStatus
+    status: OrderStatus,
+    actor: StatusActor = SYSTEM_ACTOR,
+    options: TransitionOptions = {}
 ): Promise<WithId<Order> | null> {
-    const collection = await getOrderCollection()
     const { ObjectId } = await import('mongodb')
     
     let objectId: ObjectId
@@ -420,19 +887,208 @@ export async function updateOrderStatus(
         return null
     }
     
-    await collection.updateOne(
-        { _id: objectId },
-        { 
-            $set: { 
-                status,
-                updatedAt: new Date()
+    const client = await clientPromise
+    const session = client.startSession()
+    
+    let cancelledPayment: OrderPayment | undefined
+    
+    try {
+        let found = false
+        
+        await session.withTransaction(async () => {
+            const db = client.db()
+            const collection = db.collection<Order>('orders')
+            
+            const order = await collection.findOne({ _id: objectId }, { session })
+            found = !!order
+            if (!order) {
+                return
             }
+            
+            const override = assertTransition(order.status, status, options)
+            assertPaymentCaptured(order, status)
+            cancelledPayment = status === 'cancelled' ? order.payment : undefined
+            const now = new Date()
+            const targetIndex = ORDER_STATUS_FLOW.indexOf(status)
+            
+            // Cascade to the shipments so the two stay consistent. Cancelled
+            // shipments are final, and without an override shipments that are
+            // already further along are not moved back.
+            const cancelledItems: OrderItem[] = []
+            const shipments = getOrderShipments(order).map(shipment => {
+                if (shipment.status === 'cancelled' || shipment.status === status) {
+                    return shipment
+                }
+                
+                if (status === 'cancelled') {
+                    assertTransition(shipment.status, status)
+                    cancelledItems.push(...order.items.filter(item => item.supplierId === shipment.supplierId))
+                    return transitionShipment(shipment, status, now)
+                }
+                
+                if (!options.override && ORDER_STATUS_FLOW.indexOf(shipment.status) > targetIndex) {
+                    return shipment
+                }
+                
+                return transitionShipment(shipment, status, now)
+            })
+            
+            await collection.updateOne(
+                { _id: objectId },
+                { 
+                    $set: { 
+                        status,
+                        shipments,
+                        updatedAt: now
+                    },
+                    $push: {
+                        statusHistory: {
+                            ...buildStatusHistoryEntry(actor, order.status, status, undefined, now),
+                            ...(override && { override: true })
+                        }
+                    }
+                },
+                { session }
+            )
+            
+            await restockItems(db, orderId, cancelledItems, actor, session)
+        })
+        
+        if (!found) {
+            return null
         }
-    )
+    } finally {
+        await session.endSession()
+    }
+    
+    await settleCancelledPayment(orderId, cancelledPayment)
     
+    const collection = await getOrderCollection()
     return await collection.findOne({ _id: objectId })
 }
 
+const MAX_SHIPMENT_UPDATE_ATTEMPTS = 3
+
+/**
+ * Update a single supplier's shipment and re-derive the order status
+ * Validates the change against the order state machine and restocks the
+ * supplier's items on cancellation in one transaction, refunding them afterwards.
+ * Legacy orders without shipments get them materialized on first update
+ */
+export async function updateShipmentStatus(
+    orderId: string,
+    supplierId: string,
+    input: UpdateShipmentInput,
+    actor: StatusActor = SYSTEM_ACTOR,
+    options: TransitionOptions = {}
+): Promise<WithId<Order> | null> {
+    const { ObjectId } = await import('mongodb')
+    
+    let objectId: ObjectId
+    try {
+        objectId = new ObjectId(orderId)
+    } catch {
+        return null
+    }
+    
+    const client = await clientPromise
+    const session = client.startSession()
+    
+    let cancelledPayment: OrderPayment | undefined
+    let refundAmount: number | undefined
+    
+    try {
+        // Optimistic concurrency: retry if another supplier updated the order in between
+        for (let attempt = 0; attempt < MAX_SHIPMENT_UPDATE_ATTEMPTS; attempt++) {
+            let outcome = 'missing' as 'missing' | 'conflict' | 'updated'
+            
+            await session.withTransaction(async () => {
+                const db = client.db()
+                const collection = db.collection<Order>('orders')
+                
+                const order = await collection.findOne({ _id: objectId }, { session })
+                if (!order) {
+                    outcome = 'missing'
+                    return
+                }
+                
+                const previousShipments = getOrderShipments(order)
+                const current = previousShipments.find(shipment => shipment.supplierId === supplierId)
+                if (!current) {
+                    throw new Error('Shipment not found for this supplier')
+                }
+                
+                const override = assertTransition(current.status, input.status, options)
+                assertPaymentCaptured(order, input.status)
+                const now = new Date()
+                const shipments = previousShipments.map(shipment =>
+                    shipment.supplierId === supplierId
+                        ? transitionShipment(shipment, input.status, now, input.trackingNumber)
+                        : shipment
+                )
+                
+                const result = await collection.updateOne(
+                    { _id: objectId, updatedAt: order.updatedAt },
+                    {
+                        $set: {
+                            shipments,
+                            status: deriveOrderStatus(shipments),
+                            updatedAt: now
+                        },
+                        $push: {
+                            statusHistory: {
+                                ...buildStatusHistoryEntry(actor, current.status, input.status, supplierId, now),
+                                ...(override && { override: true })
+                            }
+                        }
+                    },
+                    { session }
+                )
+                
+                if (result.matchedCount === 0) {
+                    outcome = 'conflict'
+                    return
+                }
+                
+                if (input.status === 'cancelled') {
+                    const supplierItems = order.items.filter(item => item.supplierId === supplierId)
+                    await restockItems(db, orderId, supplierItems, actor, session)
+                    
+                    // Refund the supplier's items, or everything left once the whole order is cancelled
+                    cancelledPayment = order.payment
+                    refundAmount = deriveOrderStatus(shipments) === 'cancelled'
+                        ? undefined
+                        : supplierItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0)
+                }
+                
+                outcome = 'updated'
+            })
+            
+            if (outcome === 'missing') {
+                return null
+            }
+            
+            if (outcome === 'updated') {
+                await settleCancelledPayment(orderId, cancelledPayment, refundAmount)
+                
+                const collection = await getOrderCollection()
+                return await collection.findOne({ _id: objectId })
+            }
+        }
+    } finally {
+        await session.endSession()
+    }
+    
+    throw new Error('Order was modified concurrently. Please try again.')
+}
+
+/**
+ * Get a supplier's shipment within an order
+ */
+export function getSupplierShipment(order: Order, supplierId: string): Shipment | undefined {
+    return getOrderShipments(order).find(shipment => shipment.supplierId === supplierId)
+}
+
 /**
  * Check if a user owns an order
  */
@@ -20,11 +20,26 @@ const mockCartCollection = {
     updateOne: vi.fn(),
 }
 
+const mockReservationCollection = {
+    findOneAndDelete: vi.fn(async (): Promise<unknown> => null),
+}
+
+const mockMovementCollection = {
+    insertMany: vi.fn(),
+}
+
+const mockNotificationCollection = {
+    insertMany: vi.fn(),
+}
+
 const mockDb = {
     collection: vi.fn((name: string) => {
         if (name === 'orders') return mockOrderCollection
         if (name === 'products') return mockProductCollection
         if (name === 'carts') return mockCartCollection
+        if (name === 'reservations') return mockReservationCollection
+        if (name === 'inventory_movements') return mockMovementCollection
+        if (name === 'notifications') return mockNotificationCollection
         return mockOrderCollection
     }),
 }
@@ -285,6 +300,17 @@ describe('Order Utilities', () => {
                 ]),
                 expect.objectContaining({ session: expect.anything() })
             )
+            
+            // The sale is recorded in the inventory ledger within the same transaction
+            const [movements, options] = mockMovementCollection.insertMany.mock.calls[0]
+            expect(movements).toEqual([expect.objectContaining({
+                productId: 'prod-123',
+                type: 'sale',
+                delta: -3,
+                actorId: 'user-123',
+                actorRole: 'customer',
+            })])
+            expect(options).toEqual(expect.objectContaining({ session: expect.anything() }))
         })
 
         it('should throw error if atomic decrement fails', async () => {
@@ -554,6 +580,272 @@ describe('Order Utilities', () => {
             )
         })
     })
+
+    describe('createOrder - Shipments and History', () => {
+        it('should create shipments and record the initial status', async () => {
+            const { ObjectId } = await import('mongodb')
+            
+            mockProductCollection.find.mockReturnValueOnce({
+                toArray: vi.fn().mockResolvedValueOnce([
+                    {
+                        _id: new ObjectId('prod-1'),
+                        name: 'Vase',
+                        pricing: { selling: 30, cost: 15 },
+                        inventory: { onHand: 10 },
+                        supplierId: 'supplier-1',
+                        status: 'active',
+                    },
+                    {
+                        _id: new ObjectId('prod-2'),
+                        name: 'Bowl',
+                        pricing: { selling: 25, cost: 10 },
+                        inventory: { onHand: 10 },
+                        supplierId: 'supplier-2',
+                        status: 'active',
+                    },
+                ])
+            })
+            
+            mockProductCollection.bulkWrite.mockResolvedValueOnce({ modifiedCount: 2 })
+            mockOrderCollection.insertOne.mockResolvedValueOnce({
+                insertedId: new ObjectId('order-123'),
+            })
+            mockCartCollection.updateOne.mockResolvedValueOnce({ modifiedCount: 1 })
+            
+            const { createOrder } = await import('./order-utils')
+            
+            const order = await createOrder('user-123', {
+                items: [
+                    { productId: 'prod-1', quantity: 1 },
+                    { productId: 'prod-2', quantity: 1 },
+                ],
+                shippingAddress: {
+                    street: '123 Main St',
+                    city: 'Portland',
+                    zip: '97201',
+                    country: 'USA',
+                },
+            })
+            
+            expect(order.shipments?.map(s => s.supplierId)).toEqual(['supplier-1', 'supplier-2'])
+            expect(order.statusHistory).toEqual([
+                expect.objectContaining({
+                    actorId: 'user-123',
+                    actorRole: 'customer',
+                    previousStatus: null,
+                    nextStatus: 'pending',
+                }),
+            ])
+        })
+    })
+
+    describe('createOrder - Reservations', () => {
+        const product = async (inventory: { onHand: number; reserved?: number }) => {
+            const { ObjectId } = await import('mongodb')
+            return {
+                _id: new ObjectId('prod-1'),
+                name: 'Vase',
+                pricing: { selling: 30, cost: 15 },
+                inventory,
+                supplierId: 'supplier-1',
+                status: 'active',
+            }
+        }
+        
+        const orderInput = {
+            items: [{ productId: 'prod-1', quantity: 3 }],
+            shippingAddress: {
+                street: '123 Main St',
+                city: 'Portland',
+                zip: '97201',
+                country: 'USA',
+            },
+        }
+        
+        it('should take held stock out of the reserved count', async () => {
+            const { ObjectId } = await import('mongodb')
+            
+            mockProductCollection.find.mockReturnValueOnce({
+                toArray: vi.fn().mockResolvedValueOnce([await product({ onHand: 3, reserved: 2 })])
+            })
+            mockReservationCollection.findOneAndDelete.mockResolvedValueOnce({
+                userId: 'user-123',
+                items: [{ productId: 'prod-1', quantity: 2 }],
+            })
+            mockProductCollection.bulkWrite.mockResolvedValueOnce({ modifiedCount: 1 })
+            mockOrderCollection.insertOne.mockResolvedValueOnce({
+                insertedId: new ObjectId('order-123'),
+            })
+            mockCartCollection.updateOne.mockResolvedValueOnce({ modifiedCount: 1 })
+            
+            const { createOrder } = await import('./order-utils')
+            await createOrder('user-123', orderInput)
+            
+            const [ops] = mockProductCollection.bulkWrite.mock.calls[0]
+            expect(ops[0].updateOne.update.$inc).toEqual({
+                'inventory.onHand': -3,
+                'inventory.reserved': -2,
+            })
+            // Only the quantity beyond the hold needs to be available
+            expect(ops[0].updateOne.filter.$expr.$gte[1]).toBe(1)
+        })
+        
+        it('should not sell stock held for other customers', async () => {
+            mockProductCollection.find.mockReturnValueOnce({
+                toArray: vi.fn().mockResolvedValueOnce([await product({ onHand: 4, reserved: 2 })])
+            })
+            
+            const { createOrder } = await import('./order-utils')
+            
+            await expect(createOrder('user-123', orderInput))
+                .rejects.toThrow('Insufficient stock for product: Vase')
+            expect(mockProductCollection.bulkWrite).not.toHaveBeenCalled()
+        })
+    })
+    
+    describe('createOrder - Stock Alerts', () => {
+        const placeOrder = async (inventory: { onHand: number; reorderThreshold?: number }, quantity: number) => {
+            const { ObjectId } = await import('mongodb')
+            
+            mockProductCollection.find.mockReturnValueOnce({
+                toArray: vi.fn().mockResolvedValueOnce([{
+                    _id: new ObjectId('prod-1'),
+                    name: 'Vase',
+                    pricing: { selling: 30, cost: 15 },
+                    inventory,
+                    supplierId: 'supplier-1',
+                    status: 'active',
+                }])
+            })
+            mockProductCollection.bulkWrite.mockResolvedValueOnce({ modifiedCount: 1 })
+            mockOrderCollection.insertOne.mockResolvedValueOnce({
+                insertedId: new ObjectId('order-123'),
+            })
+            mockCartCollection.updateOne.mockResolvedValueOnce({ modifiedCount: 1 })
+            
+            const { createOrder } = await import('./order-utils')
+            await createOrder('user-123', {
+                items: [{ productId: 'prod-1', quantity }],
+                shippingAddress: {
+                    street: '123 Main St',
+                    city: 'Portland',
+                    zip: '97201',
+                    country: 'USA',
+                },
+            })
+        }
+        
+        it('should alert the supplier when a sale reaches the reorder threshold', async () => {
+            await placeOrder({ onHand: 8 }, 3)
+            
+            const [notifications] = mockNotificationCollection.insertMany.mock.calls[0]
+            expect(notifications).toEqual([expect.objectContaining({
+                userId: 'supplier-1',
+                type: 'low_stock',
+                productId: 'prod-1',
+                link: '/supplier/products',
+            })])
+        })
+        
+        it('should alert the supplier when a sale empties the stock', async () => {
+            await placeOrder({ onHand: 2, reorderThreshold: 3 }, 2)
+            
+            const [notifications] = mockNotificationCollection.insertMany.mock.calls[0]
+            expect(notifications).toEqual([expect.objectContaining({ type: 'out_of_stock', title: 'Vase is out of stock' })])
+        })
+        
+        it('should not alert again for stock that was already low', async () => {
+            await placeOrder({ onHand: 20, reorderThreshold: 25 }, 1)
+            
+            expect(mockNotificationCollection.insertMany).not.toHaveBeenCalled()
+        })
+    })
+    
+    describe('createOrder - Variants', () => {
+        const mug = async () => {
+            const { ObjectId } = await import('mongodb')
+            const variant = (id: string, glaze: string, selling: number, onHand: number) => ({
+                id,
+                sku: `MUG-${glaze.toUpperCase()}`,
+                options: { Glaze: glaze },
+                pricing: { selling, cost: selling / 2 },
+                inventory: { onHand },
+                images: [],
+            })
+            return {
+                _id: new ObjectId('prod-1'),
+                name: 'Mug',
+                pricing: { selling: 20, cost: 10 },
+                inventory: { onHand: 30 },
+                options: [{ name: 'Glaze', values: ['Celadon', 'Shino'] }],
+                variants: [variant('var-1', 'Celadon', 20, 10), variant('var-2', 'Shino', 24, 20)],
+                supplierId: 'supplier-1',
+                status: 'active',
+            }
+        }
+        
+        const shippingAddress = {
+            street: '123 Main St',
+            city: 'Portland',
+            zip: '97201',
+            country: 'USA',
+        }
+        
+        it('should sell each variant at its own price and take stock from it', async () => {
+            const { ObjectId } = await import('mongodb')
+            
+            mockProductCollection.find.mockReturnValueOnce({
+                toArray: vi.fn().mockResolvedValueOnce([await mug()])
+            })
+            mockProductCollection.bulkWrite.mockResolvedValueOnce({ modifiedCount: 2 })
+            mockOrderCollection.insertOne.mockResolvedValueOnce({
+                insertedId: new ObjectId('order-123'),
+            })
+            mockCartCollection.updateOne.mockResolvedValueOnce({ modifiedCount: 1 })
+            
+            const { createOrder } = await import('./order-utils')
+            const order = await createOrder('user-123', {
+                items: [
+                    { productId: 'prod-1', variantId: 'var-1', quantity: 1 },
+                    { productId: 'prod-1', variantId: 'var-2', quantity: 2 },
+                ],
+                shippingAddress,
+            })
+            
+            expect(order.items[1]).toMatchObject({
+                variantId: 'var-2',
+                variantLabel: 'Glaze: Shino',
+                sku: 'MUG-SHINO',
+                unitPrice: 24,
+                costPrice: 12,
+            })
+            expect(order.totals.subtotal).toBe(68)
+            
+            const [ops] = mockProductCollection.bulkWrite.mock.calls[0]
+            expect(ops[1].updateOne.update.$inc).toEqual({
+                'inventory.onHand': -2,
+                'variants.$[variant].inventory.onHand': -2,
+            })
+            expect(ops[1].updateOne.arrayFilters).toEqual([{ 'variant.id': 'var-2' }])
+            
+            const [movements] = mockMovementCollection.insertMany.mock.calls[0]
+            expect(movements.map((m: { variantId: string }) => m.variantId)).toEqual(['var-1', 'var-2'])
+        })
+        
+        it('should require an option to be chosen', async () => {
+            mockProductCollection.find.mockReturnValueOnce({
+                toArray: vi.fn().mockResolvedValueOnce([await mug()])
+            })
+            
+            const { createOrder } = await import('./order-utils')
+            
+            await expect(createOrder('user-123', {
+                items: [{ productId: 'prod-1', quantity: 1 }],
+                shippingAddress,
+            })).rejects.toThrow('Choose an option for Mug')
+            expect(mockProductCollection.bulkWrite).not.toHaveBeenCalled()
+        })
+    })
 })
 
 describe('getOrderById', () => {
@@ -623,7 +915,9 @@ describe('updateOrderStatus', () => {
         }
         
         mockOrderCollection.updateOne.mockResolvedValueOnce({ modifiedCount: 1 })
-        mockOrderCollection.findOne.mockResolvedValueOnce(updatedOrder)
+        mockOrderCollection.findOne
+            .mockResolvedValueOnce({ ...updatedOrder, status: 'processing' })
+            .mockResolvedValueOnce(updatedOrder)
         
         const { updateOrderStatus } = await import('./order-utils')
         const result = await updateOrderStatus('order-123', 'shipped')
@@ -635,8 +929,344 @@ describe('updateOrderStatus', () => {
                 $set: expect.objectContaining({
                     status: 'shipped',
                 }),
-            })
+            }),
+            expect.objectContaining({ session: expect.anything() })
+        )
+    })
+
+    it('should append a status history entry for the actor', async () => {
+        const { ObjectId } = await import('mongodb')
+        const order = {
+            _id: new ObjectId('order-123'),
+            userId: 'user-123',
+            items: [],
+            status: 'pending',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        }
+        
+        mockOrderCollection.findOne.mockResolvedValueOnce(order).mockResolvedValueOnce(order)
+        
+        const { updateOrderStatus } = await import('./order-utils')
+        await updateOrderStatus('order-123', 'cancelled', { id: 'admin-1', role: 'admin', note: 'Customer request' })
+        
+        const [, update] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(update.$push.statusHistory).toMatchObject({
+            actorId: 'admin-1',
+            actorRole: 'admin',
+            previousStatus: 'pending',
+            nextStatus: 'cancelled',
+            note: 'Customer request',
+        })
+    })
+
+    it('should attribute changes to the system when no actor is given', async () => {
+        const { ObjectId } = await import('mongodb')
+        const order = {
+            _id: new ObjectId('order-123'),
+            userId: 'user-123',
+            items: [],
+            status: 'pending',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        }
+        
+        mockOrderCollection.findOne.mockResolvedValueOnce(order).mockResolvedValueOnce(order)
+        
+        const { updateOrderStatus } = await import('./order-utils')
+        await updateOrderStatus('order-123', 'cancelled')
+        
+        const [, update] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(update.$push.statusHistory).toMatchObject({ actorId: 'system', actorRole: 'system' })
+    })
+
+    it('should return null when the order does not exist', async () => {
+        mockOrderCollection.findOne.mockResolvedValueOnce(null)
+        
+        const { updateOrderStatus } = await import('./order-utils')
+        const result = await updateOrderStatus('order-123', 'shipped')
+        
+        expect(result).toBeNull()
+        expect(mockOrderCollection.updateOne).not.toHaveBeenCalled()
+    })
+})
+
+describe('Shipments', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    const items = [
+        { productId: 'prod-1', productName: 'Vase', quantity: 1, unitPrice: 20, costPrice: 10, supplierId: 'supplier-1' },
+        { productId: 'prod-2', productName: 'Bowl', quantity: 2, unitPrice: 15, costPrice: 8, supplierId: 'supplier-2' },
+        { productId: 'prod-3', productName: 'Mug', quantity: 1, unitPrice: 12, costPrice: 6, supplierId: 'supplier-1' },
+    ]
+
+    it('should build one shipment per supplier', async () => {
+        const { buildShipments } = await import('./order-utils')
+        
+        const shipments = buildShipments(items)
+        
+        expect(shipments).toHaveLength(2)
+        expect(shipments.map(s => s.supplierId)).toEqual(['supplier-1', 'supplier-2'])
+        expect(shipments.every(s => s.status === 'pending')).toBe(true)
+    })
+
+    it('should derive order status from shipments', async () => {
+        const { deriveOrderStatus } = await import('./order-utils')
+        const shipment = (status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled') => ({
+            supplierId: 'supplier-1',
+            status,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        })
+        
+        expect(deriveOrderStatus([shipment('pending'), shipment('pending')])).toBe('pending')
+        expect(deriveOrderStatus([shipment('shipped'), shipment('pending')])).toBe('processing')
+        expect(deriveOrderStatus([shipment('shipped'), shipment('delivered')])).toBe('shipped')
+        expect(deriveOrderStatus([shipment('delivered'), shipment('cancelled')])).toBe('delivered')
+        expect(deriveOrderStatus([shipment('cancelled'), shipment('cancelled')])).toBe('cancelled')
+    })
+
+    it('should only update the given supplier shipment', async () => {
+        const { ObjectId } = await import('mongodb')
+        const { buildShipments, updateShipmentStatus } = await import('./order-utils')
+        const order = {
+            _id: new ObjectId('order-123'),
+            userId: 'user-123',
+            items,
+            shipments: buildShipments(items).map(shipment =>
+                shipment.supplierId === 'supplier-1' ? { ...shipment, status: 'processing' as const } : shipment
+            ),
+            status: 'processing',
+            createdAt: new Date(),
+            updatedAt: new Date('2026-01-24T10:00:00Z'),
+        }
+        
+        mockOrderCollection.findOne.mockResolvedValueOnce(order).mockResolvedValueOnce(order)
+        mockOrderCollection.updateOne.mockResolvedValueOnce({ matchedCount: 1 })
+        
+        await updateShipmentStatus(
+            'order-123',
+            'supplier-1',
+            { status: 'shipped', trackingNumber: 'TRACK-1' },
+            { id: 'supplier-1', role: 'supplier' }
         )
+        
+        const [filter, update] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(filter.updatedAt).toBe(order.updatedAt)
+        expect(update.$push.statusHistory).toMatchObject({
+            actorId: 'supplier-1',
+            actorRole: 'supplier',
+            supplierId: 'supplier-1',
+            previousStatus: 'processing',
+            nextStatus: 'shipped',
+        })
+        expect(update.$set.status).toBe('processing')
+        expect(update.$set.shipments[0]).toMatchObject({ supplierId: 'supplier-1', status: 'shipped', trackingNumber: 'TRACK-1' })
+        expect(update.$set.shipments[1]).toMatchObject({ supplierId: 'supplier-2', status: 'pending' })
+    })
+
+    it('should retry when the order was modified concurrently', async () => {
+        const { ObjectId } = await import('mongodb')
+        const { buildShipments, updateShipmentStatus } = await import('./order-utils')
+        const order = {
+            _id: new ObjectId('order-123'),
+            userId: 'user-123',
+            items,
+            shipments: buildShipments(items),
+            status: 'pending',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        }
+        
+        mockOrderCollection.findOne.mockResolvedValue(order)
+        mockOrderCollection.updateOne
+            .mockResolvedValueOnce({ matchedCount: 0 })
+            .mockResolvedValueOnce({ matchedCount: 1 })
+        
+        const result = await updateShipmentStatus('order-123', 'supplier-2', { status: 'processing' })
+        
+        expect(result).toBeTruthy()
+        expect(mockOrderCollection.updateOne).toHaveBeenCalledTimes(2)
+        mockOrderCollection.findOne.mockReset()
+    })
+
+    it('should give up after repeated concurrent modifications', async () => {
+        const { ObjectId } = await import('mongodb')
+        const { buildShipments, updateShipmentStatus } = await import('./order-utils')
+        const order = {
+            _id: new ObjectId('order-123'),
+            userId: 'user-123',
+            items,
+            shipments: buildShipments(items),
+            status: 'pending',
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        }
+        
+        mockOrderCollection.findOne.mockResolvedValue(order)
+        mockOrderCollection.updateOne.mockResolvedValue({ matchedCount: 0 })
+        
+        await expect(
+            updateShipmentStatus('order-123', 'supplier-2', { status: 'processing' })
+        ).rejects.toThrow('Order was modified concurrently')
+        mockOrderCollection.findOne.mockReset()
+        mockOrderCollection.updateOne.mockReset()
+    })
+})
+
+describe('Order State Machine', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should allow transitions in the normal flow', async () => {
+        const { assertTransition, canTransition } = await import('./order-state')
+        
+        expect(canTransition('pending', 'processing')).toBe(true)
+        expect(canTransition('processing', 'shipped')).toBe(true)
+        expect(canTransition('shipped', 'delivered')).toBe(true)
+        expect(assertTransition('pending', 'cancelled')).toBe(false)
+    })
+
+    it('should reject illegal transitions without an override', async () => {
+        const { assertTransition } = await import('./order-state')
+        
+        expect(() => assertTransition('pending', 'delivered')).toThrow('Invalid status transition from pending to delivered')
+        expect(() => assertTransition('delivered', 'processing')).toThrow('Invalid status transition')
+        expect(() => assertTransition('pending', 'pending')).toThrow('Status is already pending')
+    })
+
+    it('should report when an override was needed', async () => {
+        const { assertTransition } = await import('./order-state')
+        
+        expect(assertTransition('pending', 'delivered', { override: true })).toBe(true)
+        expect(assertTransition('pending', 'processing', { override: true })).toBe(false)
+    })
+
+    it('should block cancelling after shipping even with an override', async () => {
+        const { assertTransition } = await import('./order-state')
+        
+        expect(() => assertTransition('shipped', 'cancelled', { override: true })).toThrow('Cannot cancel after shipping')
+        expect(() => assertTransition('delivered', 'cancelled', { override: true })).toThrow('Cannot cancel after shipping')
+        expect(() => assertTransition('cancelled', 'pending', { override: true })).toThrow('Cancelled orders cannot be reopened')
+    })
+})
+
+describe('Order Cancellation', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    const items = [
+        { productId: 'prod-1', productName: 'Vase', quantity: 2, unitPrice: 20, costPrice: 10, supplierId: 'supplier-1' },
+        { productId: 'prod-2', productName: 'Bowl', quantity: 3, unitPrice: 15, costPrice: 8, supplierId: 'supplier-2' },
+    ]
+
+    const makeOrder = async (shipmentStatuses: Record<string, 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled'>, status = 'pending') => {
+        const { ObjectId } = await import('mongodb')
+        const { buildShipments } = await import('./order-utils')
+        return {
+            _id: new ObjectId('order-123'),
+            userId: 'user-123',
+            items,
+            shipments: buildShipments(items).map(shipment => ({
+                ...shipment,
+                status: shipmentStatuses[shipment.supplierId],
+            })),
+            status,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        }
+    }
+
+    it('should restock every active shipment when the order is cancelled', async () => {
+        const order = await makeOrder({ 'supplier-1': 'pending', 'supplier-2': 'processing' }, 'processing')
+        mockOrderCollection.findOne.mockResolvedValueOnce(order).mockResolvedValueOnce(order)
+        
+        const { updateOrderStatus } = await import('./order-utils')
+        await updateOrderStatus('order-123', 'cancelled')
+        
+        const [ops, options] = mockProductCollection.bulkWrite.mock.calls[0]
+        expect(ops).toHaveLength(2)
+        expect(ops[0].updateOne.update.$inc).toEqual({ 'inventory.onHand': 2 })
+        expect(ops[1].updateOne.update.$inc).toEqual({ 'inventory.onHand': 3 })
+        expect(options).toEqual(expect.objectContaining({ session: expect.anything() }))
+        
+        const [, update] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(update.$set.shipments.every((s: { status: string }) => s.status === 'cancelled')).toBe(true)
+    })
+
+    it('should not restock shipments that were already cancelled', async () => {
+        const order = await makeOrder({ 'supplier-1': 'cancelled', 'supplier-2': 'pending' })
+        mockOrderCollection.findOne.mockResolvedValueOnce(order).mockResolvedValueOnce(order)
+        
+        const { updateOrderStatus } = await import('./order-utils')
+        await updateOrderStatus('order-123', 'cancelled')
+        
+        const [ops] = mockProductCollection.bulkWrite.mock.calls[0]
+        expect(ops).toHaveLength(1)
+        expect(ops[0].updateOne.update.$inc).toEqual({ 'inventory.onHand': 3 })
+    })
+
+    it('should block cancelling an order with a shipped shipment', async () => {
+        const order = await makeOrder({ 'supplier-1': 'shipped', 'supplier-2': 'pending' }, 'processing')
+        mockOrderCollection.findOne.mockResolvedValueOnce(order)
+        
+        const { updateOrderStatus } = await import('./order-utils')
+        
+        await expect(updateOrderStatus('order-123', 'cancelled')).rejects.toThrow('Cannot cancel after shipping')
+        expect(mockOrderCollection.updateOne).not.toHaveBeenCalled()
+        expect(mockProductCollection.bulkWrite).not.toHaveBeenCalled()
+    })
+
+    it('should restock only the cancelling supplier items', async () => {
+        const order = await makeOrder({ 'supplier-1': 'pending', 'supplier-2': 'processing' }, 'processing')
+        mockOrderCollection.findOne.mockResolvedValueOnce(order).mockResolvedValueOnce(order)
+        mockOrderCollection.updateOne.mockResolvedValueOnce({ matchedCount: 1 })
+        
+        const { updateShipmentStatus } = await import('./order-utils')
+        await updateShipmentStatus('order-123', 'supplier-2', { status: 'cancelled' }, { id: 'supplier-2', role: 'supplier' })
+        
+        const [ops] = mockProductCollection.bulkWrite.mock.calls[0]
+        expect(ops).toHaveLength(1)
+        expect(ops[0].updateOne.update.$inc).toEqual({ 'inventory.onHand': 3 })
+        
+        const [movements] = mockMovementCollection.insertMany.mock.calls[0]
+        expect(movements).toEqual([expect.objectContaining({
+            type: 'cancel_restock',
+            delta: 3,
+            orderId: 'order-123',
+            actorId: 'supplier-2',
+        })])
+        
+        const [, update] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(update.$set.status).toBe('pending')
+    })
+
+    it('should reject illegal admin transitions unless overridden', async () => {
+        const order = await makeOrder({ 'supplier-1': 'pending', 'supplier-2': 'pending' })
+        mockOrderCollection.findOne.mockResolvedValueOnce(order)
+        
+        const { updateOrderStatus } = await import('./order-utils')
+        const admin = { id: 'admin-1', role: 'admin' as const, note: 'Delivered by hand' }
+        
+        await expect(updateOrderStatus('order-123', 'delivered', admin)).rejects.toThrow('Invalid status transition')
+        
+        mockOrderCollection.findOne.mockResolvedValueOnce(order).mockResolvedValueOnce(order)
+        await updateOrderStatus('order-123', 'delivered', admin, { override: true })
+        
+        const [, update] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(update.$push.statusHistory).toMatchObject({
+            actorId: 'admin-1',
+            previousStatus: 'pending',
+            nextStatus: 'delivered',
+            override: true,
+        })
     })
 })
 
@@ -731,6 +1361,62 @@ describe('Pagination Utilities', () => {
             expect(result.total).toBe(50)
             expect(result.totalPages).toBe(3)
         })
+        
+        it('should page newest first with cursors', async () => {
+            const mockOrders = [3, 2, 1].map(day => ({
+                _id: `order-${day}`,
+                createdAt: new Date(2024, 0, day),
+            }))
+            
+            const mockCursor = {
+                sort: vi.fn().mockReturnThis(),
+                limit: vi.fn().mockReturnThis(),
+                toArray: vi.fn().mockResolvedValueOnce(mockOrders),
+            }
+            
+            mockOrderCollection.find.mockReturnValueOnce(mockCursor)
+            
+            const { getAllOrders } = await import('./order-utils')
+            const result = await getAllOrders({ pagination: 'cursor', limit: 2, status: 'pending' })
+            
+            expect(mockOrderCollection.find).toHaveBeenCalledWith({ status: 'pending' })
+            expect(mockCursor.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 })
+            expect(mockCursor.limit).toHaveBeenCalledWith(3)
+            expect(mockOrderCollection.countDocuments).not.toHaveBeenCalled()
+            expect(result.orders.map(order => order._id)).toEqual(['order-3', 'order-2'])
+            expect(result.nextCursor).toEqual(expect.any(String))
+            expect(result.prevCursor).toBeNull()
+        })
+        
+        it('should read backwards from a cursor and keep newest first', async () => {
+            const { encodeCursor } = await import('./cursor')
+            // Read oldest first when going back
+            const mockOrders = [4, 5].map(day => ({
+                _id: `order-${day}`,
+                createdAt: new Date(2024, 0, day),
+            }))
+            
+            const mockCursor = {
+                sort: vi.fn().mockReturnThis(),
+                limit: vi.fn().mockReturnThis(),
+                toArray: vi.fn().mockResolvedValueOnce(mockOrders),
+            }
+            
+            mockOrderCollection.find.mockReturnValueOnce(mockCursor)
+            
+            const { getAllOrders } = await import('./order-utils')
+            const result = await getAllOrders({
+                pagination: 'cursor',
+                limit: 2,
+                cursor: encodeCursor({ createdAt: -1, _id: -1 }, { createdAt: new Date(2024, 0, 3), _id: 'order-3' }),
+                direction: 'prev'
+            })
+            
+            expect(mockCursor.sort).toHaveBeenCalledWith({ createdAt: 1, _id: 1 })
+            expect(result.orders.map(order => order._id)).toEqual(['order-5', 'order-4'])
+            expect(result.nextCursor).toEqual(expect.any(String))
+            expect(result.prevCursor).toBeNull()
+        })
     })
 
     describe('getOrdersBySupplier', () => {
@@ -5,15 +5,20 @@ import type {
     CreateOrderInput,
     OrderStatus 
 } from './order-utils'
+import type { CursorOptions } from './cursor'
 
 // --- Input Types for Server Functions ---
 
-interface GetOrdersInput {
-    page?: number
+interface GetOrdersInput extends CursorOptions {
+    page?: number            // Ignored when paging with cursors
     limit?: number
     status?: OrderStatus
 }
 
+interface CreateOrderFnInput extends CreateOrderInput {
+    paymentMethod: string
+}
+
 interface GetOrderByIdInput {
     orderId: string
 }
@@ -21,20 +26,44 @@ interface GetOrderByIdInput {
 interface UpdateOrderStatusInput {
     orderId: string
     status: OrderStatus
+    note?: string
+    override?: boolean
+}
+
+interface CancelMyOrderInput {
+    orderId: string
+    reason?: string
+}
+
+interface UpdateSupplierShipmentInput {
+    orderId: string
+    status: OrderStatus
+    trackingNumber?: string
+    note?: string
+}
+
+interface UpdateShipmentStatusInput extends UpdateSupplierShipmentInput {
+    supplierId: string
+    override?: boolean
 }
 
 // --- Server Functions ---
 
 /**
- * Create a new order from cart items (Any user - guest or registered)
- * Validates stock and atomically decrements inventory
+ * Create a new order from cart items and pay for it (Any user - guest or registered)
+ * Validates stock and atomically decrements inventory, which stays reserved
+ * until the payment is captured or released
  */
 export const createOrderFn = createServerFn({ method: "POST" })
-    .inputValidator((data: CreateOrderInput) => data)
+    .inputValidator((data: CreateOrderFnInput) => data)
     .handler(async ({ data }) => {
         const { getAuthSession } = await import('./auth-utils')
         const { auth } = await import('./auth-config')
         const { createOrder, toSerializable } = await import('./order-utils')
+        const { buildOrderPayment, processOrderPayment, releaseExpiredPayments } = await import('./payment-utils')
+        const { releaseExpiredReservations } = await import('./reservation-utils')
+        const { sendOrderPlacedEmails } = await import('./email-utils')
+        const { notifyOrderPlaced } = await import('./notification-utils')
         const request = getRequest()
         
         let session = await getAuthSession()
@@ -64,22 +93,36 @@ export const createOrderFn = createServerFn({ method: "POST" })
             throw new Error('Shipping address is required')
         }
         
-        const order = await createOrder(session.user.id, data)
+        if (!data.paymentMethod) {
+            throw new Error('Payment method is required')
+        }
+        
+        // Free stock held by abandoned checkouts before reserving more
+        await releaseExpiredReservations()
+        await releaseExpiredPayments()
+        
+        const order = await createOrder(session.user.id, data, buildOrderPayment())
+        const paidOrder = await processOrderPayment(order, data.paymentMethod)
+        
+        // Queued outside the order's transactions; a mail failure never undoes the order
+        await sendOrderPlacedEmails(paidOrder)
+        await notifyOrderPlaced(paidOrder)
         
         return { 
-            order: toSerializable(order), 
+            order: toSerializable(paidOrder), 
             success: true 
         }
     })
 
 /**
  * Get a specific order by ID
- * Users can only view their own orders, admins can view any
+ * Users can only view their own orders, staff with order:viewAll can view any
  */
 export const getOrderByIdFn = createServerFn({ method: "GET" })
     .inputValidator((data: GetOrderByIdInput) => data)
     .handler(async ({ data }) => {
         const { getAuthSession } = await import('./auth-utils')
+        const { can } = await import('../utils/rbac')
         const { getOrderById, isOrderOwner, toSerializable } = await import('./order-utils')
         
         const session = await getAuthSession()
@@ -94,11 +137,11 @@ export const getOrderByIdFn = createServerFn({ method: "GET" })
             throw new Error('Order not found')
         }
         
-        // Check authorization: admin can view any, users only their own
-        const isAdmin = session.user.role === 'admin'
+        // Check authorization: staff who can view all orders, users only their own
+        const canViewAll = can(session.user, 'order:viewAll')
         const isOwner = await isOrderOwner(data.orderId, session.user.id)
         
-        if (!isAdmin && !isOwner) {
+        if (!canViewAll && !isOwner) {
             throw new Error('Access denied: You can only view your own orders')
         }
         
@@ -123,6 +166,9 @@ export const getMyOrdersFn = createServerFn({ method: "GET" })
         const result = await getOrdersByUser(session.user.id, {
             page: data.page,
             limit: data.limit,
+            pagination: data.pagination,
+            cursor: data.cursor,
+            direction: data.direction,
             status: data.status
         })
         
@@ -138,59 +184,85 @@ export const getMyOrdersFn = createServerFn({ method: "GET" })
 export const getSupplierOrdersFn = createServerFn({ method: "GET" })
     .inputValidator((data: GetOrdersInput) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
-        const { getOrdersBySupplier, toSerializable } = await import('./order-utils')
+        const { requirePermission } = await import('./auth-utils')
+        const { getOrdersBySupplier, toSupplierSerializable } = await import('./order-utils')
         
-        const user = await requireRole(['supplier'])
+        const user = await requirePermission('supplier:portal')
         
         const result = await getOrdersBySupplier(user.id, {
             page: data.page,
             limit: data.limit,
+            pagination: data.pagination,
+            cursor: data.cursor,
+            direction: data.direction,
             status: data.status
         })
         
-        const supplierOrders = result.orders.map(order => {
-             // Filter items for this supplier
-            const supplierItems = order.items.filter(item => item.supplierId === user.id)
-            
-            // Calculate totals for this supplier based on COST
-            const supplierTotal = supplierItems.reduce((sum, item) => {
-                return sum + (item.quantity * (item.costPrice || 0))
-            }, 0)
-
-            const serializable = toSerializable(order)
-
-            return {
-                ...serializable,
-                items: supplierItems,
-                totals: {
-                    ...serializable.totals,
-                    subtotal: supplierTotal,
-                    total: supplierTotal
-                }
-            }
-        })
-
         return {
             ...result,
-            orders: supplierOrders
+            orders: result.orders.map(order => toSupplierSerializable(order, user.id))
+        }
+    })
+
+/**
+ * Cancel one of the current user's orders
+ * Customers can only cancel while nothing has started fulfilment; stock is restored
+ */
+export const cancelMyOrderFn = createServerFn({ method: "POST" })
+    .inputValidator((data: CancelMyOrderInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { getOrderById, updateOrderStatus, toSerializable } = await import('./order-utils')
+        const { notifyShipmentStatusChanges } = await import('./notification-utils')
+        const { sendOrderCancelledEmail } = await import('./email-utils')
+        
+        const user = await requireAuth()
+        
+        const order = await getOrderById(data.orderId)
+        if (!order || order.userId !== user.id) {
+            throw new Error('Order not found')
+        }
+        
+        if (order.status !== 'pending') {
+            throw new Error('Only pending orders can be cancelled')
+        }
+        
+        const updatedOrder = await updateOrderStatus(data.orderId, 'cancelled', {
+            id: user.id,
+            role: 'customer',
+            note: data.reason?.trim() || undefined
+        })
+        
+        if (!updatedOrder) {
+            throw new Error('Failed to cancel order')
+        }
+        
+        await notifyShipmentStatusChanges(order, updatedOrder, user.id)
+        await sendOrderCancelledEmail(updatedOrder, 'customer')
+        
+        return { 
+            order: toSerializable(updatedOrder), 
+            success: true 
         }
     })
 
 /**
- * Get all orders with pagination (Admin only)
+ * Get all orders with pagination (Admin/Support only)
  */
 export const getOrdersFn = createServerFn({ method: "GET" })
     .inputValidator((data: GetOrdersInput) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
+        const { requirePermission } = await import('./auth-utils')
         const { getAllOrders, toSerializable } = await import('./order-utils')
         
-        await requireRole(['admin'])
+        await requirePermission('order:viewAll')
         
         const result = await getAllOrders({
             page: data.page,
             limit: data.limit,
+            pagination: data.pagination,
+            cursor: data.cursor,
+            direction: data.direction,
             status: data.status
         })
         
@@ -201,27 +273,118 @@ export const getOrdersFn = createServerFn({ method: "GET" })
     })
 
 /**
- * Update order status (Admin only)
+ * Update order status (Admin/Support only)
+ * Illegal transitions are rejected unless the override flag is set,
+ * in which case the override is recorded in the status history
  */
 export const updateOrderStatusFn = createServerFn({ method: "POST" })
     .inputValidator((data: UpdateOrderStatusInput) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
+        const { requirePermission, assertPermission, actorRole } = await import('./auth-utils')
         const { getOrderById, updateOrderStatus, toSerializable } = await import('./order-utils')
+        const { recordAuditEvent } = await import('./audit-utils')
+        const { sendShipmentStatusEmails } = await import('./email-utils')
+        const { notifyShipmentStatusChanges } = await import('./notification-utils')
         
-        await requireRole(['admin'])
+        const user = await requirePermission('order:updateStatus')
+        if (data.override) {
+            assertPermission(user, 'order:override')
+        }
         
         const existingOrder = await getOrderById(data.orderId)
         if (!existingOrder) {
             throw new Error('Order not found')
         }
         
-        const updatedOrder = await updateOrderStatus(data.orderId, data.status)
+        const updatedOrder = await updateOrderStatus(data.orderId, data.status, {
+            id: user.id,
+            role: actorRole(user),
+            note: data.note?.trim() || undefined
+        }, { override: data.override })
         
         if (!updatedOrder) {
             throw new Error('Failed to update order status')
         }
         
+        await sendShipmentStatusEmails(existingOrder, updatedOrder)
+        await notifyShipmentStatusChanges(existingOrder, updatedOrder, user.id)
+        
+        await recordAuditEvent({
+            actor: user,
+            action: data.override ? 'order.status_overridden' : 'order.status_changed',
+            targetType: 'order',
+            targetId: data.orderId,
+            changes: [{ field: 'status', before: existingOrder.status, after: updatedOrder.status }]
+        })
+        
+        return { 
+            order: toSerializable(updatedOrder), 
+            success: true 
+        }
+    })
+
+/**
+ * Update a single supplier's shipment within an order (Admin/Support only)
+ */
+export const updateShipmentStatusFn = createServerFn({ method: "POST" })
+    .inputValidator((data: UpdateShipmentStatusInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission, assertPermission, actorRole } = await import('./auth-utils')
+        const { getOrderById, getSupplierShipment, updateShipmentStatus, toSerializable } = await import('./order-utils')
+        const { recordAuditEvent, diffSnapshots } = await import('./audit-utils')
+        const { sendShipmentStatusEmails } = await import('./email-utils')
+        const { notifyShipmentStatusChanges } = await import('./notification-utils')
+        
+        // Staff only; suppliers update their own shipment through updateSupplierOrderStatusFn
+        const user = await requirePermission('order:viewAll')
+        assertPermission(user, 'shipment:update')
+        if (data.override) {
+            assertPermission(user, 'order:override')
+        }
+        
+        const order = await getOrderById(data.orderId)
+        if (!order) {
+            throw new Error('Order not found')
+        }
+        
+        const shipment = getSupplierShipment(order, data.supplierId)
+        if (!shipment) {
+            throw new Error('Shipment not found for this supplier')
+        }
+        
+        const updatedOrder = await updateShipmentStatus(data.orderId, data.supplierId, {
+            status: data.status,
+            trackingNumber: data.trackingNumber
+        }, {
+            id: user.id,
+            role: actorRole(user),
+            note: data.note?.trim() || undefined
+        }, { override: data.override })
+        
+        if (!updatedOrder) {
+            throw new Error('Failed to update shipment status')
+        }
+        
+        await sendShipmentStatusEmails(order, updatedOrder)
+        await notifyShipmentStatusChanges(order, updatedOrder, user.id)
+        
+        const updatedShipment = getSupplierShipment(updatedOrder, data.supplierId)
+        await recordAuditEvent({
+            actor: user,
+            action: data.override ? 'shipment.status_overridden' : 'shipment.status_changed',
+            targetType: 'order',
+            targetId: data.orderId,
+            changes: diffSnapshots({
+                [`shipments.${data.supplierId}.status`]: shipment.status,
+                [`shipments.${data.supplierId}.trackingNumber`]: shipment.trackingNumber,
+                status: order.status
+            }, {
+                [`shipments.${data.supplierId}.status`]: updatedShipment?.status,
+                [`shipments.${data.supplierId}.trackingNumber`]: updatedShipment?.trackingNumber,
+                status: updatedOrder.status
+            })
+        })
+        
         return { 
             order: toSerializable(updatedOrder), 
             success: true 
@@ -236,10 +399,10 @@ export const updateOrderStatusFn = createServerFn({ method: "POST" })
 export const getSupplierOrderByIdFn = createServerFn({ method: "GET" })
     .inputValidator((data: { orderId: string }) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
-        const { getOrderById, toSerializable } = await import('./order-utils')
+        const { requirePermission } = await import('./auth-utils')
+        const { getOrderById, toSupplierSerializable } = await import('./order-utils')
         
-        const user = await requireRole(['supplier'])
+        const user = await requirePermission('supplier:portal')
         
         const order = await getOrderById(data.orderId)
         
@@ -247,80 +410,79 @@ export const getSupplierOrderByIdFn = createServerFn({ method: "GET" })
             throw new Error('Order not found')
         }
         
-        // Filter items for this supplier
-        const supplierItems = order.items.filter(item => item.supplierId === user.id)
-        
-        if (supplierItems.length === 0) {
+        // Verify supplier has items in this order
+        if (!order.items.some(item => item.supplierId === user.id)) {
              throw new Error('Order not found or no items for this supplier')
         }
         
-        // Calculate totals for this supplier based on COST
-        const supplierTotal = supplierItems.reduce((sum, item) => {
-            return sum + (item.quantity * (item.costPrice || 0))
-        }, 0)
-
-        // Create a specialized view of the order for the supplier
-        const serializableOrder = toSerializable(order)
-        
         return {
-            order: {
-                ...serializableOrder,
-                items: supplierItems, // Only return their items
-                totals: {
-                    ...serializableOrder.totals,
-                    subtotal: supplierTotal, // Override with their cost total
-                    total: supplierTotal // Override with their cost total (ignoring shipping logic for now as it's B2C usually)
-                }
-            }
+            order: toSupplierSerializable(order, user.id)
         }
     })
 
 /**
- * Update order status by Supplier
- * Suppliers can only move status forward: Pending -> Processing -> Shipped -> Delivered
+ * Update the supplier's own shipment within an order
+ * Suppliers can only move their shipment forward: Pending -> Processing -> Shipped -> Delivered,
+ * or cancel it before it ships. Other suppliers' shipments in the same order are unaffected
  */
 export const updateSupplierOrderStatusFn = createServerFn({ method: "POST" })
-    .inputValidator((data: UpdateOrderStatusInput) => data)
+    .inputValidator((data: UpdateSupplierShipmentInput) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
-        const { getOrderById, updateOrderStatus, toSerializable } = await import('./order-utils')
+        const { requirePermission } = await import('./auth-utils')
+        const { getOrderById, getSupplierShipment, updateShipmentStatus, toSupplierSerializable } = await import('./order-utils')
+        const { sendShipmentStatusEmails } = await import('./email-utils')
+        const { notifyShipmentStatusChanges } = await import('./notification-utils')
+        const { recordAuditEvent, diffSnapshots } = await import('./audit-utils')
         
-        const user = await requireRole(['supplier'])
+        const user = await requirePermission('supplier:portal')
         
         const order = await getOrderById(data.orderId)
         if (!order) {
             throw new Error('Order not found')
         }
 
-        // Verify supplier has items in this order
-        const hasItems = order.items.some(item => item.supplierId === user.id)
-        if (!hasItems) {
+        // Verify supplier has a shipment in this order
+        const shipment = getSupplierShipment(order, user.id)
+        if (!shipment) {
             throw new Error('Access denied')
         }
         
-        // Validate Status Transition
-        const validTransitions: Record<string, OrderStatus[]> = {
-            'pending': ['processing', 'cancelled'],
-            'processing': ['shipped', 'cancelled'],
-            'shipped': ['delivered'],
-            'delivered': [],
-            'cancelled': []
-        }
-        
-        const allowed = validTransitions[order.status] || []
-        if (!allowed.includes(data.status)) {
-            throw new Error(`Invalid status transition from ${order.status} to ${data.status}`)
-        }
-        
-        // Update status
-        const updatedOrder = await updateOrderStatus(data.orderId, data.status)
+        // Update only this supplier's shipment, validated against the order state machine
+        const updatedOrder = await updateShipmentStatus(data.orderId, user.id, {
+            status: data.status,
+            trackingNumber: data.trackingNumber?.trim() || undefined
+        }, {
+            id: user.id,
+            role: 'supplier',
+            note: data.note?.trim() || undefined
+        })
         
         if (!updatedOrder) {
             throw new Error('Failed to update order status')
         }
         
+        await sendShipmentStatusEmails(order, updatedOrder)
+        await notifyShipmentStatusChanges(order, updatedOrder, user.id)
+        
+        const updatedShipment = getSupplierShipment(updatedOrder, user.id)
+        await recordAuditEvent({
+            actor: user,
+            action: 'shipment.status_changed',
+            targetType: 'order',
+            targetId: data.orderId,
+            changes: diffSnapshots({
+                [`shipments.${user.id}.status`]: shipment.status,
+                [`shipments.${user.id}.trackingNumber`]: shipment.trackingNumber,
+                status: order.status
+            }, {
+                [`shipments.${user.id}.status`]: updatedShipment?.status,
+                [`shipments.${user.id}.trackingNumber`]: updatedShipment?.trackingNumber,
+                status: updatedOrder.status
+            })
+        })
+        
         return { 
-            order: toSerializable(updatedOrder), 
+            order: toSupplierSerializable(updatedOrder, user.id), 
             success: true 
         }
     })
@@ -0,0 +1,324 @@
+import type { ObjectId, WithId } from 'mongodb'
+import {
+    getOrderById,
+    getOrderCollection,
+    updateOrderStatus,
+    SYSTEM_ACTOR,
+    type NewOrderPayment,
+    type Order,
+    type OrderPayment,
+    type PaymentState
+} from './order-utils'
+import { getPaymentProvider } from './payments'
+import type { AuthorizeResult, PaymentProvider, PaymentWebhookEvent } from './payments/provider'
+
+// --- Payment Settings ---
+
+export const PAYMENT_CURRENCY = 'USD'
+
+// How long stock stays reserved for an order whose payment has not been authorized
+export const PAYMENT_AUTHORIZATION_WINDOW_MS = 15 * 60 * 1000
+
+// How long checkout waits for the provider to answer an authorization
+export const PAYMENT_AUTHORIZATION_TIMEOUT_MS = 30 * 1000
+
+// --- Utility Functions ---
+
+/**
+ * Payment details for a new order, using the configured provider
+ */
+export function buildOrderPayment(now: Date = new Date()): NewOrderPayment {
+    return {
+        provider: getPaymentProvider().name,
+        currency: PAYMENT_CURRENCY,
+        expiresAt: new Date(now.getTime() + PAYMENT_AUTHORIZATION_WINDOW_MS)
+    }
+}
+
+/**
+ * Move an order's payment to a new state if it is still in one of the expected states
+ * Returns false when another request already moved it on
+ */
+async function setPaymentState(
+    orderId: ObjectId,
+    from: PaymentState[],
+    state: PaymentState,
+    fields: Partial<Omit<OrderPayment, 'state' | 'updatedAt'>> = {}
+): Promise<boolean> {
+    const collection = await getOrderCollection()
+    const now = new Date()
+
+    const update: Record<string, unknown> = {
+        'payment.state': state,
+        'payment.updatedAt': now,
+        updatedAt: now
+    }
+    for (const [key, value] of Object.entries(fields)) {
+        update[`payment.${key}`] = value
+    }
+
+    const result = await collection.updateOne(
+        { _id: orderId, 'payment.state': { $in: from } },
+        { $set: update }
+    )
+    return result.matchedCount > 0
+}
+
+/**
+ * Wait for an authorization, giving up after the timeout
+ * An authorization that still arrives after giving up is cancelled with the provider
+ */
+async function authorizeWithTimeout(
+    provider: PaymentProvider,
+    authorization: Promise<AuthorizeResult>
+): Promise<AuthorizeResult | null> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<null>(resolve => {
+        timer = setTimeout(() => resolve(null), PAYMENT_AUTHORIZATION_TIMEOUT_MS)
+    })
+
+    try {
+        const result = await Promise.race([authorization, timeout])
+        if (!result) {
+            authorization
+                .then(late => late.status === 'authorized' ? provider.cancel(late.intentId) : undefined)
+                .catch(error => console.error('Failed to cancel late payment authorization:', error))
+        }
+        return result
+    } finally {
+        clearTimeout(timer)
+    }
+}
+
+/**
+ * Authorize and capture the payment for a newly created order
+ * On failure the reserved stock is released, the order is cancelled and its
+ * items go back into the customer's cart before the error is rethrown
+ */
+export async function processOrderPayment(order: WithId<Order>, paymentMethod: string): Promise<WithId<Order>> {
+    const provider = getPaymentProvider()
+    const orderId = order._id.toHexString()
+    const payment = order.payment
+
+    if (!payment || payment.state !== 'pending') {
+        throw new Error('Order has no pending payment')
+    }
+
+    let authorization: AuthorizeResult | null
+    try {
+        authorization = await authorizeWithTimeout(provider, provider.authorize({
+            orderId,
+            amount: payment.amount,
+            currency: payment.currency,
+            paymentMethod
+        }))
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Payment authorization failed'
+        await releaseOrderPayment(orderId, 'failed', reason, { restoreCart: true })
+        throw new Error(reason)
+    }
+
+    if (!authorization) {
+        await releaseOrderPayment(orderId, 'expired', 'Payment authorization timed out', { restoreCart: true })
+        throw new Error('Payment authorization timed out. Please try again.')
+    }
+
+    if (authorization.status === 'declined') {
+        await releaseOrderPayment(orderId, 'failed', authorization.reason, { restoreCart: true })
+        throw new Error(authorization.reason)
+    }
+
+    const intentId = authorization.intentId
+    const authorized = await setPaymentState(order._id, ['pending'], 'authorized', {
+        intentId,
+        authorizedAt: new Date()
+    })
+    if (!authorized) {
+        // The reservation expired while the provider was answering
+        await provider.cancel(intentId)
+        throw new Error('Payment authorization timed out. Please try again.')
+    }
+
+    try {
+        await provider.capture(intentId, payment.amount)
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Payment capture failed'
+        await releaseOrderPayment(orderId, 'failed', reason, { restoreCart: true })
+        throw new Error(reason)
+    }
+
+    const captured = await setPaymentState(order._id, ['authorized'], 'captured', { capturedAt: new Date() })
+    if (!captured) {
+        await provider.refund(intentId, payment.amount)
+        throw new Error('Payment authorization timed out. Please try again.')
+    }
+
+    return (await getOrderById(orderId))!
+}
+
+/**
+ * Give up on an order's payment: release the stock it reserved by cancelling the order
+ * An authorization that was never captured is cancelled with the provider.
+ * Returns the order if this call cancelled it
+ */
+export async function releaseOrderPayment(
+    orderId: string,
+    state: 'failed' | 'expired',
+    reason: string,
+    options: { restoreCart?: boolean } = {}
+): Promise<WithId<Order> | null> {
+    const order = await getOrderById(orderId)
+    if (!order?.payment) {
+        return null
+    }
+
+    const released = await setPaymentState(order._id, ['pending', 'authorized'], state, { failureReason: reason })
+    if (!released && order.payment.state !== 'failed' && order.payment.state !== 'expired') {
+        return null
+    }
+
+    if (released && order.payment.state === 'authorized' && order.payment.intentId) {
+        await getPaymentProvider().cancel(order.payment.intentId)
+    }
+
+    const cancelledOrder = order.status === 'pending'
+        ? await updateOrderStatus(orderId, 'cancelled', { ...SYSTEM_ACTOR, note: reason })
+        : null
+
+    // The order emptied the cart; give the customer their items back to retry
+    if (options.restoreCart) {
+        const { applyCartOperations } = await import('./cart-utils')
+        await applyCartOperations(order.userId, order.items.map(item => ({
+            type: 'add' as const,
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity
+        })))
+    }
+
+    return cancelledOrder
+}
+
+/**
+ * Release the stock held by orders whose payment was not completed in time
+ * Also finishes releases that were interrupted before the order was cancelled.
+ * Customers whose payment expired are emailed; an interrupted release failed
+ * at checkout, where the customer already saw why
+ */
+export async function releaseExpiredPayments(now: Date = new Date()): Promise<number> {
+    const collection = await getOrderCollection()
+
+    const orders = await collection.find({
+        status: 'pending',
+        $or: [
+            { 'payment.state': { $in: ['pending', 'authorized'] }, 'payment.expiresAt': { $lt: now } },
+            { 'payment.state': { $in: ['failed', 'expired'] } }
+        ]
+    }).toArray()
+
+    const { sendOrderCancelledEmail } = await import('./email-utils')
+
+    for (const order of orders) {
+        const cancelledOrder = await releaseOrderPayment(order._id.toHexString(), 'expired', 'Payment was not completed in time')
+        if (cancelledOrder && (order.payment?.state === 'pending' || order.payment?.state === 'authorized')) {
+            await sendOrderCancelledEmail(cancelledOrder, 'payment_expired')
+        }
+    }
+
+    return orders.length
+}
+
+/**
+ * Refund part or all of an order's captured payment
+ * Without an amount everything not yet refunded is given back, and an
+ * authorization that was never captured is cancelled instead.
+ * Orders placed before payments were introduced are left alone.
+ * Returns the amount refunded, which is 0 when no money was moved
+ */
+export async function refundOrderPayment(orderId: string, amount?: number): Promise<number> {
+    const order = await getOrderById(orderId)
+    const payment = order?.payment
+    if (!order || !payment?.intentId) {
+        return 0
+    }
+
+    const provider = getPaymentProvider()
+
+    if (payment.state === 'authorized' && amount === undefined) {
+        if (await setPaymentState(order._id, ['authorized'], 'voided')) {
+            await provider.cancel(payment.intentId)
+        }
+        return 0
+    }
+
+    if (payment.state !== 'captured') {
+        return 0
+    }
+
+    const remaining = Math.round((payment.amount - payment.refundedAmount) * 100) / 100
+    const refund = Math.min(amount ?? remaining, remaining)
+    if (refund <= 0) {
+        return 0
+    }
+
+    // Claim the refund before calling the provider so concurrent requests cannot double refund
+    const collection = await getOrderCollection()
+    const refundedAmount = Math.round((payment.refundedAmount + refund) * 100) / 100
+    const now = new Date()
+    const claimed = await collection.updateOne(
+        { _id: order._id, 'payment.state': 'captured', 'payment.refundedAmount': payment.refundedAmount },
+        {
+            $set: {
+                'payment.refundedAmount': refundedAmount,
+                'payment.state': refundedAmount >= payment.amount ? 'refunded' : 'captured',
+                'payment.updatedAt': now,
+                updatedAt: now
+            }
+        }
+    )
+    if (claimed.matchedCount === 0) {
+        throw new Error('Payment was modified concurrently. Please try again.')
+    }
+
+    try {
+        await provider.refund(payment.intentId, refund)
+    } catch (error) {
+        // Give the claim back so the refund can be retried
+        await collection.updateOne(
+            { _id: order._id, 'payment.refundedAmount': refundedAmount },
+            { $set: { 'payment.refundedAmount': payment.refundedAmount, 'payment.state': 'captured' } }
+        )
+        throw error
+    }
+
+    return refund
+}
+
+/**
+ * Apply a verified webhook event from the payment provider
+ * Keeps our records in line with payments that settle outside of checkout
+ */
+export async function handlePaymentWebhook(event: PaymentWebhookEvent): Promise<void> {
+    const collection = await getOrderCollection()
+    const order = await collection.findOne({ 'payment.intentId': event.intentId })
+    if (!order?.payment) {
+        return
+    }
+
+    switch (event.type) {
+        case 'payment.captured':
+            await setPaymentState(order._id, ['authorized'], 'captured', { capturedAt: new Date() })
+            break
+        case 'payment.failed':
+            await releaseOrderPayment(order._id.toHexString(), 'failed', event.reason)
+            break
+        case 'payment.refunded':
+            await setPaymentState(
+                order._id,
+                ['captured'],
+                event.amount >= order.payment.amount ? 'refunded' : 'captured',
+                { refundedAmount: Math.max(order.payment.refundedAmount, event.amount) }
+            )
+            break
+    }
+}
@@ -0,0 +1,430 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { OrderPayment, OrderStatus } from './order-utils'
+
+// --- Mock Imports for Testing ---
+
+// Mock for MongoDB collections
+const mockOrderCollection = {
+    findOne: vi.fn(),
+    find: vi.fn(),
+    updateOne: vi.fn(),
+}
+
+const mockProductCollection = {
+    bulkWrite: vi.fn(),
+}
+
+const mockMovementCollection = {
+    insertMany: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'products') return mockProductCollection
+        if (name === 'inventory_movements') return mockMovementCollection
+        return mockOrderCollection
+    }),
+}
+
+const mockSession = {
+    withTransaction: vi.fn(async (callback: () => Promise<void>) => {
+        await callback()
+    }),
+    endSession: vi.fn(),
+}
+
+const mockClient = {
+    db: () => mockDb,
+    startSession: () => mockSession,
+}
+
+const mockClientPromise = Promise.resolve(mockClient)
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Mock ObjectId
+vi.mock('mongodb', () => ({
+    ObjectId: class MockObjectId {
+        private id: string
+        constructor(id?: string) {
+            this.id = id || Math.random().toString(36).substring(7)
+        }
+        toHexString() {
+            return this.id
+        }
+        toString() {
+            return this.id
+        }
+    },
+}))
+
+// Mock payment provider
+const mockProvider = {
+    name: 'test',
+    paymentMethods: [],
+    authorize: vi.fn(),
+    capture: vi.fn(),
+    cancel: vi.fn(),
+    refund: vi.fn(),
+    verifyWebhook: vi.fn(),
+}
+
+vi.mock('./payments', () => ({
+    getPaymentProvider: () => mockProvider,
+}))
+
+// Mock cart restore
+const mockApplyCartOperations = vi.fn()
+
+vi.mock('./cart-utils', () => ({
+    applyCartOperations: mockApplyCartOperations,
+}))
+
+// Mock customer emails
+const mockSendOrderCancelledEmail = vi.fn()
+
+vi.mock('./email-utils', () => ({
+    sendOrderCancelledEmail: mockSendOrderCancelledEmail,
+}))
+
+// --- Helpers ---
+
+async function makeOrder(payment: (Pick<OrderPayment, 'state'> & Partial<OrderPayment>) | undefined, status: OrderStatus = 'pending') {
+    const { ObjectId } = await import('mongodb')
+    const now = new Date()
+    return {
+        _id: new ObjectId('order-123'),
+        userId: 'user-123',
+        items: [
+            { productId: 'prod-1', productName: 'Vase', quantity: 2, unitPrice: 20, costPrice: 10, supplierId: 'supplier-1' },
+            { productId: 'prod-2', productName: 'Bowl', quantity: 1, unitPrice: 15, costPrice: 8, supplierId: 'supplier-2' },
+        ],
+        shipments: [
+            { supplierId: 'supplier-1', status, createdAt: now, updatedAt: now },
+            { supplierId: 'supplier-2', status, createdAt: now, updatedAt: now },
+        ],
+        statusHistory: [],
+        ...(payment && {
+            payment: {
+                provider: 'test',
+                amount: 55,
+                currency: 'USD',
+                refundedAmount: 0,
+                expiresAt: new Date(now.getTime() + 60000),
+                updatedAt: now,
+                ...payment,
+            },
+        }),
+        shippingAddress: { street: '123 Main St', city: 'Portland', zip: '97201', country: 'USA' },
+        totals: { subtotal: 55, shipping: 0, total: 55 },
+        status,
+        createdAt: now,
+        updatedAt: now,
+    }
+}
+
+// --- Unit Tests ---
+
+describe('Mock Payment Provider', () => {
+    const createProvider = async () => {
+        const { createMockPaymentProvider } = await import('./payments/mock-provider')
+        return createMockPaymentProvider({ webhookSecret: 'secret' })
+    }
+
+    const request = (paymentMethod: string) => ({ orderId: 'order-123', amount: 55, currency: 'USD', paymentMethod })
+
+    it('should authorize, capture and refund the approved test card', async () => {
+        const { MOCK_CARD_APPROVED } = await import('./payments/mock-provider')
+        const provider = await createProvider()
+
+        const authorization = await provider.authorize(request(MOCK_CARD_APPROVED))
+        expect(authorization.status).toBe('authorized')
+        if (authorization.status !== 'authorized') return
+
+        await expect(provider.capture(authorization.intentId, 55)).resolves.toEqual({ intentId: authorization.intentId, amount: 55 })
+        await expect(provider.refund(authorization.intentId, 20)).resolves.toMatchObject({ amount: 20 })
+        await expect(provider.refund(authorization.intentId, 40)).rejects.toThrow('Invalid refund amount')
+    })
+
+    it('should decline the declined test card', async () => {
+        const { MOCK_CARD_DECLINED } = await import('./payments/mock-provider')
+        const provider = await createProvider()
+
+        await expect(provider.authorize(request(MOCK_CARD_DECLINED)))
+            .resolves.toEqual({ status: 'declined', reason: 'Your card was declined' })
+    })
+
+    it('should fail to capture the capture-fails test card', async () => {
+        const { MOCK_CARD_CAPTURE_FAILS } = await import('./payments/mock-provider')
+        const provider = await createProvider()
+
+        const authorization = await provider.authorize(request(MOCK_CARD_CAPTURE_FAILS))
+        if (authorization.status !== 'authorized') throw new Error('Expected an authorization')
+
+        await expect(provider.capture(authorization.intentId, 55)).rejects.toThrow('The payment could not be captured')
+    })
+
+    it('should only accept webhooks signed with the secret', async () => {
+        const { signMockWebhook } = await import('./payments/mock-provider')
+        const provider = await createProvider()
+        const payload = JSON.stringify({ type: 'payment.failed', intentId: 'mock_pi_1', reason: 'Fraud' })
+
+        expect(provider.verifyWebhook(payload, signMockWebhook(payload, 'secret')))
+            .toEqual({ type: 'payment.failed', intentId: 'mock_pi_1', reason: 'Fraud' })
+        expect(() => provider.verifyWebhook(payload, signMockWebhook(payload, 'other'))).toThrow('Invalid webhook signature')
+        expect(() => provider.verifyWebhook(payload, null)).toThrow('Invalid webhook signature')
+    })
+})
+
+describe('processOrderPayment', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+        mockOrderCollection.findOne.mockReset()
+        mockOrderCollection.updateOne.mockReset()
+    })
+
+    it('should authorize then capture the order total', async () => {
+        const order = await makeOrder({ state: 'pending' })
+        mockProvider.authorize.mockResolvedValueOnce({ status: 'authorized', intentId: 'pi_1' })
+        mockProvider.capture.mockResolvedValueOnce({ intentId: 'pi_1', amount: 55 })
+        mockOrderCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockOrderCollection.findOne.mockResolvedValueOnce(await makeOrder({ state: 'captured', intentId: 'pi_1' }))
+
+        const { processOrderPayment } = await import('./payment-utils')
+        const result = await processOrderPayment(order, 'card')
+
+        expect(mockProvider.authorize).toHaveBeenCalledWith({ orderId: 'order-123', amount: 55, currency: 'USD', paymentMethod: 'card' })
+        expect(mockProvider.capture).toHaveBeenCalledWith('pi_1', 55)
+
+        const [authorizeFilter, authorizeUpdate] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(authorizeFilter['payment.state']).toEqual({ $in: ['pending'] })
+        expect(authorizeUpdate.$set).toMatchObject({ 'payment.state': 'authorized', 'payment.intentId': 'pi_1' })
+
+        const [, captureUpdate] = mockOrderCollection.updateOne.mock.calls[1]
+        expect(captureUpdate.$set['payment.state']).toBe('captured')
+
+        // Capturing does not start fulfilment by itself
+        expect(result.status).toBe('pending')
+    })
+
+    it('should release the reservation when the payment is declined', async () => {
+        const order = await makeOrder({ state: 'pending' })
+        mockProvider.authorize.mockResolvedValueOnce({ status: 'declined', reason: 'Your card was declined' })
+        mockOrderCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockOrderCollection.findOne
+            .mockResolvedValueOnce(order)
+            .mockResolvedValueOnce(await makeOrder({ state: 'failed' }))
+            .mockResolvedValueOnce(await makeOrder({ state: 'failed' }, 'cancelled'))
+
+        const { processOrderPayment } = await import('./payment-utils')
+
+        await expect(processOrderPayment(order, 'card')).rejects.toThrow('Your card was declined')
+
+        const [, releaseUpdate] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(releaseUpdate.$set).toMatchObject({ 'payment.state': 'failed', 'payment.failureReason': 'Your card was declined' })
+
+        const [, cancelUpdate] = mockOrderCollection.updateOne.mock.calls[1]
+        expect(cancelUpdate.$set.status).toBe('cancelled')
+        expect(cancelUpdate.$push.statusHistory).toMatchObject({ actorRole: 'system', note: 'Your card was declined' })
+
+        // Stock goes back and the items return to the cart
+        const [ops] = mockProductCollection.bulkWrite.mock.calls[0]
+        expect(ops).toHaveLength(2)
+        expect(mockApplyCartOperations).toHaveBeenCalledWith('user-123', [
+            { type: 'add', productId: 'prod-1', quantity: 2 },
+            { type: 'add', productId: 'prod-2', quantity: 1 },
+        ])
+        expect(mockProvider.cancel).not.toHaveBeenCalled()
+    })
+
+    it('should cancel the authorization when capture fails', async () => {
+        const order = await makeOrder({ state: 'pending' })
+        mockProvider.authorize.mockResolvedValueOnce({ status: 'authorized', intentId: 'pi_1' })
+        mockProvider.capture.mockRejectedValueOnce(new Error('The payment could not be captured'))
+        mockOrderCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockOrderCollection.findOne
+            .mockResolvedValueOnce(await makeOrder({ state: 'authorized', intentId: 'pi_1' }))
+            .mockResolvedValueOnce(await makeOrder({ state: 'failed', intentId: 'pi_1' }))
+            .mockResolvedValueOnce(await makeOrder({ state: 'failed', intentId: 'pi_1' }, 'cancelled'))
+
+        const { processOrderPayment } = await import('./payment-utils')
+
+        await expect(processOrderPayment(order, 'card')).rejects.toThrow('The payment could not be captured')
+        expect(mockProvider.cancel).toHaveBeenCalledWith('pi_1')
+        expect(mockProductCollection.bulkWrite).toHaveBeenCalled()
+    })
+})
+
+describe('releaseExpiredPayments', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+        mockOrderCollection.findOne.mockReset()
+        mockOrderCollection.updateOne.mockReset()
+    })
+
+    it('should expire pending payments past their reservation window', async () => {
+        const order = await makeOrder({ state: 'pending' })
+        mockOrderCollection.find.mockReturnValueOnce({ toArray: vi.fn().mockResolvedValueOnce([order]) })
+        mockOrderCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockOrderCollection.findOne
+            .mockResolvedValueOnce(order)
+            .mockResolvedValueOnce(await makeOrder({ state: 'expired' }))
+            .mockResolvedValueOnce(await makeOrder({ state: 'expired' }, 'cancelled'))
+
+        const { releaseExpiredPayments } = await import('./payment-utils')
+        const now = new Date()
+
+        await expect(releaseExpiredPayments(now)).resolves.toBe(1)
+
+        const [query] = mockOrderCollection.find.mock.calls[0]
+        expect(query.$or[0]).toEqual({ 'payment.state': { $in: ['pending', 'authorized'] }, 'payment.expiresAt': { $lt: now } })
+
+        const [, releaseUpdate] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(releaseUpdate.$set['payment.state']).toBe('expired')
+        expect(mockProductCollection.bulkWrite).toHaveBeenCalled()
+        expect(mockApplyCartOperations).not.toHaveBeenCalled()
+        expect(mockSendOrderCancelledEmail).toHaveBeenCalledWith(
+            expect.objectContaining({ status: 'cancelled' }),
+            'payment_expired'
+        )
+    })
+
+    it('should not email customers about a release interrupted at checkout', async () => {
+        const order = await makeOrder({ state: 'failed' })
+        mockOrderCollection.find.mockReturnValueOnce({ toArray: vi.fn().mockResolvedValueOnce([order]) })
+        mockOrderCollection.updateOne.mockResolvedValue({ matchedCount: 0 })
+        mockOrderCollection.findOne
+            .mockResolvedValueOnce(order)
+            .mockResolvedValueOnce(order)
+            .mockResolvedValueOnce(await makeOrder({ state: 'failed' }, 'cancelled'))
+
+        const { releaseExpiredPayments } = await import('./payment-utils')
+
+        await expect(releaseExpiredPayments()).resolves.toBe(1)
+        expect(mockProductCollection.bulkWrite).toHaveBeenCalled()
+        expect(mockSendOrderCancelledEmail).not.toHaveBeenCalled()
+    })
+})
+
+describe('refundOrderPayment', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+        mockOrderCollection.findOne.mockReset()
+        mockOrderCollection.updateOne.mockReset()
+    })
+
+    it('should refund part of a captured payment', async () => {
+        mockOrderCollection.findOne.mockResolvedValue(await makeOrder({ state: 'captured', intentId: 'pi_1' }))
+        mockOrderCollection.updateOne.mockResolvedValueOnce({ matchedCount: 1 })
+
+        const { refundOrderPayment } = await import('./payment-utils')
+        await expect(refundOrderPayment('order-123', 20)).resolves.toBe(20)
+
+        const [filter, update] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(filter).toMatchObject({ 'payment.state': 'captured', 'payment.refundedAmount': 0 })
+        expect(update.$set).toMatchObject({ 'payment.refundedAmount': 20, 'payment.state': 'captured' })
+        expect(mockProvider.refund).toHaveBeenCalledWith('pi_1', 20)
+    })
+
+    it('should refund everything left when no amount is given', async () => {
+        mockOrderCollection.findOne.mockResolvedValue(await makeOrder({ state: 'captured', intentId: 'pi_1', refundedAmount: 15 }))
+        mockOrderCollection.updateOne.mockResolvedValueOnce({ matchedCount: 1 })
+
+        const { refundOrderPayment } = await import('./payment-utils')
+        await expect(refundOrderPayment('order-123')).resolves.toBe(40)
+
+        const [, update] = mockOrderCollection.updateOne.mock.calls[0]
+        expect(update.$set).toMatchObject({ 'payment.refundedAmount': 55, 'payment.state': 'refunded' })
+        expect(mockProvider.refund).toHaveBeenCalledWith('pi_1', 40)
+    })
+
+    it('should give the claim back when the provider refund fails', async () => {
+        mockOrderCollection.findOne.mockResolvedValue(await makeOrder({ state: 'captured', intentId: 'pi_1' }))
+        mockOrderCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockProvider.refund.mockRejectedValueOnce(new Error('Gateway unavailable'))
+
+        const { refundOrderPayment } = await import('./payment-utils')
+
+        await expect(refundOrderPayment('order-123', 20)).rejects.toThrow('Gateway unavailable')
+        const [, rollback] = mockOrderCollection.updateOne.mock.calls[1]
+        expect(rollback.$set).toEqual({ 'payment.refundedAmount': 0, 'payment.state': 'captured' })
+    })
+
+    it('should leave orders without a payment alone', async () => {
+        mockOrderCollection.findOne.mockResolvedValue(await makeOrder(undefined))
+
+        const { refundOrderPayment } = await import('./payment-utils')
+        await expect(refundOrderPayment('order-123', 20)).resolves.toBe(0)
+
+        expect(mockOrderCollection.updateOne).not.toHaveBeenCalled()
+        expect(mockProvider.refund).not.toHaveBeenCalled()
+    })
+
+    it('should report nothing refunded when the payment was not captured', async () => {
+        mockOrderCollection.findOne.mockResolvedValue(await makeOrder({ state: 'authorized', intentId: 'pi_1' }))
+
+        const { refundOrderPayment } = await import('./payment-utils')
+        await expect(refundOrderPayment('order-123', 20)).resolves.toBe(0)
+
+        expect(mockProvider.refund).not.toHaveBeenCalled()
+    })
+
+    it('should report nothing refunded when the payment is already refunded', async () => {
+        mockOrderCollection.findOne.mockResolvedValue(await makeOrder({ state: 'captured', intentId: 'pi_1', refundedAmount: 55 }))
+
+        const { refundOrderPayment } = await import('./payment-utils')
+        await expect(refundOrderPayment('order-123', 20)).resolves.toBe(0)
+
+        expect(mockOrderCollection.updateOne).not.toHaveBeenCalled()
+        expect(mockProvider.refund).not.toHaveBeenCalled()
+    })
+})
+
+describe('Payment Gating', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+        mockOrderCollection.findOne.mockReset()
+        mockOrderCollection.updateOne.mockReset()
+    })
+
+    it('should not start fulfilment before the payment is captured', async () => {
+        mockOrderCollection.findOne.mockResolvedValue(await makeOrder({ state: 'authorized', intentId: 'pi_1' }))
+
+        const { updateShipmentStatus, updateOrderStatus } = await import('./order-utils')
+
+        await expect(updateShipmentStatus('order-123', 'supplier-1', { status: 'processing' }))
+            .rejects.toThrow('Payment has not been captured for this order')
+        await expect(updateOrderStatus('order-123', 'processing', undefined, { override: true }))
+            .rejects.toThrow('Payment has not been captured for this order')
+        expect(mockOrderCollection.updateOne).not.toHaveBeenCalled()
+    })
+
+    it('should refund the whole payment when a paid order is cancelled', async () => {
+        const paidOrder = await makeOrder({ state: 'captured', intentId: 'pi_1' })
+        mockOrderCollection.findOne.mockResolvedValue(paidOrder)
+        mockOrderCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+
+        const { updateOrderStatus } = await import('./order-utils')
+        await updateOrderStatus('order-123', 'cancelled')
+
+        expect(mockProvider.refund).toHaveBeenCalledWith('pi_1', 55)
+    })
+
+    it('should refund only the cancelled shipment while others continue', async () => {
+        const paidOrder = await makeOrder({ state: 'captured', intentId: 'pi_1' })
+        mockOrderCollection.findOne.mockResolvedValue(paidOrder)
+        mockOrderCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+
+        const { updateShipmentStatus } = await import('./order-utils')
+        await updateShipmentStatus('order-123', 'supplier-1', { status: 'cancelled' })
+
+        expect(mockProvider.refund).toHaveBeenCalledWith('pi_1', 40)
+    })
+})
@@ -0,0 +1,18 @@
+import { createServerFn } from '@tanstack/react-start'
+
+// --- Server Functions ---
+
+/**
+ * Get the payment methods the checkout can offer (Public)
+ */
+export const getPaymentMethodsFn = createServerFn({ method: "GET" })
+    .handler(async () => {
+        const { getPaymentProvider } = await import('./payments')
+
+        const provider = getPaymentProvider()
+
+        return {
+            provider: provider.name,
+            methods: provider.paymentMethods
+        }
+    })
@@ -0,0 +1,25 @@
+import { serverEnv } from '../env'
+import { createMockPaymentProvider } from './mock-provider'
+import type { PaymentProvider } from './provider'
+
+// Used when PAYMENT_WEBHOOK_SECRET is not set; only acceptable for the mock gateway
+const MOCK_WEBHOOK_SECRET = 'mock_webhook_secret'
+
+// Lazy-initialized payment provider, selected by PAYMENT_PROVIDER
+let _provider: PaymentProvider | null = null
+
+export function getPaymentProvider(): PaymentProvider {
+    if (!_provider) {
+        switch (serverEnv.PAYMENT_PROVIDER) {
+            case 'mock':
+                if (serverEnv.NODE_ENV === 'production') {
+                    throw new Error('The mock payment provider cannot be used in production. Set PAYMENT_PROVIDER in your .env file.')
+                }
+                _provider = createMockPaymentProvider({
+                    webhookSecret: serverEnv.PAYMENT_WEBHOOK_SECRET || MOCK_WEBHOOK_SECRET
+                })
+                break
+        }
+    }
+    return _provider!
+}
@@ -0,0 +1,118 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto'
+import type { PaymentProvider, PaymentWebhookEvent } from './provider'
+
+// Test tokens understood by the mock gateway
+export const MOCK_CARD_APPROVED = 'mock_card_approved'
+export const MOCK_CARD_DECLINED = 'mock_card_declined'
+export const MOCK_CARD_CAPTURE_FAILS = 'mock_card_capture_fails'
+
+interface MockIntent {
+    orderId: string
+    amount: number
+    paymentMethod: string
+    status: 'authorized' | 'captured' | 'cancelled'
+    refundedAmount: number
+}
+
+/**
+ * Sign a webhook payload the way the mock gateway does
+ */
+export function signMockWebhook(payload: string, secret: string): string {
+    return createHmac('sha256', secret).update(payload).digest('hex')
+}
+
+/**
+ * Offline payment gateway for development and tests
+ * Intents live in memory, so they do not survive a server restart
+ */
+export function createMockPaymentProvider(options: { webhookSecret: string }): PaymentProvider {
+    const intents = new Map<string, MockIntent>()
+
+    const getIntent = (intentId: string): MockIntent => {
+        const intent = intents.get(intentId)
+        if (!intent) {
+            throw new Error(`Unknown payment intent: ${intentId}`)
+        }
+        return intent
+    }
+
+    return {
+        name: 'mock',
+        paymentMethods: [
+            { id: MOCK_CARD_APPROVED, label: 'Test card (approved)' },
+            { id: MOCK_CARD_DECLINED, label: 'Test card (declined)' },
+            { id: MOCK_CARD_CAPTURE_FAILS, label: 'Test card (capture fails)' },
+        ],
+
+        async authorize(request) {
+            if (request.amount <= 0) {
+                return { status: 'declined', reason: 'Invalid payment amount' }
+            }
+
+            if (request.paymentMethod === MOCK_CARD_DECLINED) {
+                return { status: 'declined', reason: 'Your card was declined' }
+            }
+
+            if (request.paymentMethod !== MOCK_CARD_APPROVED && request.paymentMethod !== MOCK_CARD_CAPTURE_FAILS) {
+                return { status: 'declined', reason: 'Unsupported payment method' }
+            }
+
+            const intentId = `mock_pi_${randomUUID()}`
+            intents.set(intentId, {
+                orderId: request.orderId,
+                amount: request.amount,
+                paymentMethod: request.paymentMethod,
+                status: 'authorized',
+                refundedAmount: 0
+            })
+            return { status: 'authorized', intentId }
+        },
+
+        async capture(intentId, amount) {
+            const intent = getIntent(intentId)
+            if (intent.status !== 'authorized') {
+                throw new Error(`Cannot capture a ${intent.status} payment`)
+            }
+            if (intent.paymentMethod === MOCK_CARD_CAPTURE_FAILS) {
+                throw new Error('The payment could not be captured')
+            }
+            if (amount > intent.amount) {
+                throw new Error('Cannot capture more than was authorized')
+            }
+
+            intent.status = 'captured'
+            intent.amount = amount
+            return { intentId, amount }
+        },
+
+        async cancel(intentId) {
+            const intent = getIntent(intentId)
+            if (intent.status === 'captured') {
+                throw new Error('Cannot cancel a captured payment')
+            }
+            intent.status = 'cancelled'
+        },
+
+        async refund(intentId, amount) {
+            const intent = getIntent(intentId)
+            if (intent.status !== 'captured') {
+                throw new Error('Only captured payments can be refunded')
+            }
+            if (amount <= 0 || intent.refundedAmount + amount > intent.amount) {
+                throw new Error('Invalid refund amount')
+            }
+
+            intent.refundedAmount += amount
+            return { intentId, refundId: `mock_re_${randomUUID()}`, amount }
+        },
+
+        verifyWebhook(payload, signature) {
+            const expected = Buffer.from(signMockWebhook(payload, options.webhookSecret))
+            const received = Buffer.from(signature || '')
+            if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+                throw new Error('Invalid webhook signature')
+            }
+            return JSON.parse(payload) as PaymentWebhookEvent
+        },
+    }
+}
@@ -0,0 +1,52 @@
+// --- Payment Provider Types ---
+
+// A payment method the checkout can offer, e.g. a saved card or a test token
+export interface PaymentMethodOption {
+    id: string
+    label: string
+}
+
+export interface AuthorizeRequest {
+    orderId: string        // Also used as the idempotency key with the provider
+    amount: number
+    currency: string
+    paymentMethod: string
+}
+
+export type AuthorizeResult =
+    | { status: 'authorized'; intentId: string }
+    | { status: 'declined'; intentId?: string; reason: string }
+
+export interface CaptureResult {
+    intentId: string
+    amount: number
+}
+
+export interface RefundResult {
+    intentId: string
+    refundId: string
+    amount: number
+}
+
+// Provider-agnostic shape of the webhook events we act on
+export type PaymentWebhookEvent =
+    | { type: 'payment.captured'; intentId: string; amount: number }
+    | { type: 'payment.failed'; intentId: string; reason: string }
+    | { type: 'payment.refunded'; intentId: string; amount: number }
+
+/**
+ * A payment gateway integration
+ * Orders reserve stock first, then authorize and capture the total; the
+ * provider is only told about money, never about stock or order status
+ */
+export interface PaymentProvider {
+    readonly name: string
+    readonly paymentMethods: PaymentMethodOption[]
+    authorize(request: AuthorizeRequest): Promise<AuthorizeResult>
+    capture(intentId: string, amount: number): Promise<CaptureResult>
+    // Release an authorization that will not be captured
+    cancel(intentId: string): Promise<void>
+    refund(intentId: string, amount: number): Promise<RefundResult>
+    // Throws when the signature does not match the payload
+    verifyWebhook(payload: string, signature: string | null): PaymentWebhookEvent
+}
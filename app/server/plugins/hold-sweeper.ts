@@ -0,0 +1,8 @@
+import { definePlugin } from 'nitro'
+import { startHoldSweeper } from '../reservation-utils'
+
+// Puts stock held by abandoned checkouts and unpaid orders back on sale
+// while the server runs, not only when the next customer checks out
+export default definePlugin(() => {
+    startHoldSweeper()
+})
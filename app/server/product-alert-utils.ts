@@ -0,0 +1,273 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, Collection, Db, WithId } from 'mongodb'
+import { getInventoryLevels, type Product, type ProductInventory } from './product-utils'
+import { describeVariant } from './product-variants'
+import { getNotificationChannel } from './notifications'
+import type { NotificationMessage } from './notifications/channel'
+
+// --- Product Alert Types ---
+
+export type ProductAlertKind = 'back_in_stock' | 'price_drop'
+
+// A customer's request to hear about a product, or one variant of it, stored in product_alerts
+export interface ProductAlert {
+    _id?: ObjectId
+    productId: string
+    variantId?: string
+    kind: ProductAlertKind
+    userId: string
+    email: string
+    name?: string | null
+    price: number            // Price drops are measured from here; moves down with each one sent
+    createdAt: Date
+    notifiedAt?: Date        // Last price drop sent
+}
+
+export interface ProductAlertSerializable {
+    _id: string
+    productId: string
+    variantId?: string
+    kind: ProductAlertKind
+    price: number
+    createdAt: string
+}
+
+// Something customers may have asked to hear about, found by comparing a product before and after an update
+export interface ProductAlertEvent {
+    kind: ProductAlertKind
+    variantId?: string       // Unset for the product as a whole
+    price: number
+}
+
+export interface SubscribeProductAlertInput {
+    productId: string
+    variantId?: string
+    kind: ProductAlertKind
+}
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getProductAlertCollection(): Promise<Collection<ProductAlert>> {
+    const db = await getDb()
+    return db.collection<ProductAlert>('product_alerts')
+}
+
+// --- Utility Functions ---
+
+/**
+ * Convert a MongoDB alert document to a serializable format
+ */
+export function toSerializable(alert: WithId<ProductAlert>): ProductAlertSerializable {
+    return {
+        _id: alert._id.toHexString(),
+        productId: alert.productId,
+        variantId: alert.variantId,
+        kind: alert.kind,
+        price: alert.price,
+        createdAt: alert.createdAt.toISOString()
+    }
+}
+
+/**
+ * Match the alerts for a product, or one variant of it, but not those for its other variants
+ */
+function variantFilter(variantId: string | undefined) {
+    return variantId ? { variantId } : { variantId: { $exists: false } }
+}
+
+/**
+ * Subscribe a customer to an alert for a product, or one variant of it
+ * Subscribing again keeps the original subscription
+ */
+export async function subscribeProductAlert(
+    user: { id: string; email: string; name?: string | null; isAnonymous?: boolean },
+    input: SubscribeProductAlertInput
+): Promise<WithId<ProductAlert>> {
+    const { getProductById } = await import('./product-utils')
+
+    // Guest accounts have placeholder email addresses
+    if (user.isAnonymous) {
+        throw new Error('Sign in to get notified')
+    }
+
+    const product = await getProductById(input.productId)
+    if (!product || product.status !== 'active') {
+        throw new Error('Product not found')
+    }
+
+    const variant = input.variantId ? product.variants?.find(v => v.id === input.variantId) : undefined
+    if (input.variantId && !variant) {
+        throw new Error('Variant not found')
+    }
+
+    const collection = await getProductAlertCollection()
+    const filter = {
+        productId: input.productId,
+        ...variantFilter(input.variantId),
+        kind: input.kind,
+        userId: user.id
+    }
+
+    return (await collection.findOneAndUpdate(
+        filter,
+        {
+            $setOnInsert: {
+                productId: input.productId,
+                ...(input.variantId && { variantId: input.variantId }),
+                kind: input.kind,
+                userId: user.id,
+                email: user.email,
+                name: user.name,
+                price: variant ? variant.pricing.selling : product.pricing.selling,
+                createdAt: new Date()
+            }
+        },
+        { upsert: true, returnDocument: 'after' }
+    ))!
+}
+
+/**
+ * Cancel one of a customer's alerts
+ */
+export async function unsubscribeProductAlert(userId: string, alertId: string): Promise<boolean> {
+    const { ObjectId } = await import('mongodb')
+    const collection = await getProductAlertCollection()
+
+    try {
+        const result = await collection.deleteOne({ _id: new ObjectId(alertId), userId })
+        return result.deletedCount === 1
+    } catch {
+        // Invalid ObjectId format
+        return false
+    }
+}
+
+/**
+ * Get a customer's alerts for a product, including those for its variants
+ */
+export async function getUserProductAlerts(userId: string, productId: string): Promise<WithId<ProductAlert>[]> {
+    const collection = await getProductAlertCollection()
+    return await collection.find({ userId, productId }).toArray()
+}
+
+/**
+ * Whether stock that could be bought has run out
+ */
+function isSoldOut(inventory: ProductInventory): boolean {
+    return getInventoryLevels(inventory).available <= 0
+}
+
+/**
+ * Compare a product before and after an update for stock coming back and prices going down,
+ * on the product as a whole and on each of its variants
+ */
+export function findProductAlertEvents(before: Product, after: Product): ProductAlertEvent[] {
+    const events: ProductAlertEvent[] = []
+
+    const compare = (
+        previous: { pricing: { selling: number }; inventory: ProductInventory },
+        current: { pricing: { selling: number }; inventory: ProductInventory },
+        variantId?: string
+    ) => {
+        if (isSoldOut(previous.inventory) && !isSoldOut(current.inventory)) {
+            events.push({ kind: 'back_in_stock', ...(variantId && { variantId }), price: current.pricing.selling })
+        }
+        if (current.pricing.selling < previous.pricing.selling) {
+            events.push({ kind: 'price_drop', ...(variantId && { variantId }), price: current.pricing.selling })
+        }
+    }
+
+    compare(before, after)
+
+    const previousVariants = new Map(before.variants?.map(variant => [variant.id, variant]))
+    for (const variant of after.variants || []) {
+        const previous = previousVariants.get(variant.id)
+        if (previous) {
+            compare(previous, variant, variant.id)
+        }
+    }
+
+    return events
+}
+
+/**
+ * Write the message for an alert that has gone off
+ */
+function buildAlertMessage(alert: ProductAlert, product: WithId<Product>, event: ProductAlertEvent): NotificationMessage {
+    const variant = event.variantId ? product.variants?.find(v => v.id === event.variantId) : undefined
+    const name = variant ? `${product.name} (${describeVariant(variant.options)})` : product.name
+
+    return {
+        type: event.kind,
+        recipient: { userId: alert.userId, email: alert.email, name: alert.name },
+        subject: event.kind === 'back_in_stock'
+            ? `${name} is back in stock`
+            : `${name} is now $${event.price.toFixed(2)}`,
+        body: event.kind === 'back_in_stock'
+            ? `Good news: ${name} is available again. Pieces are made in small batches, so it may not last long.`
+            : `The price of ${name} dropped from $${alert.price.toFixed(2)} to $${event.price.toFixed(2)}.`,
+        link: `/product/${product._id.toHexString()}`
+    }
+}
+
+/**
+ * Tell subscribers when an update brought a product back into stock or lowered its price
+ * Back-in-stock alerts are used up once sent; price-drop alerts stay, measured from the new price.
+ * An alert whose message could not be sent is left for the next change. Returns how many were sent
+ */
+export async function dispatchProductAlerts(before: Product, after: WithId<Product>): Promise<number> {
+    if (after.status !== 'active') {
+        return 0
+    }
+
+    const events = findProductAlertEvents(before, after)
+    if (events.length === 0) {
+        return 0
+    }
+
+    const collection = await getProductAlertCollection()
+    const productId = after._id.toHexString()
+    const channel = getNotificationChannel()
+    let sent = 0
+
+    for (const event of events) {
+        const filter = {
+            productId,
+            ...variantFilter(event.variantId),
+            kind: event.kind,
+            ...(event.kind === 'price_drop' && { price: { $gt: event.price } })
+        }
+        const alerts = await collection.find(filter).toArray()
+
+        for (const alert of alerts) {
+            try {
+                await channel.send(buildAlertMessage(alert, after, event))
+            } catch (error) {
+                console.error(`Failed to send ${event.kind} alert ${alert._id.toHexString()}:`, error)
+                continue
+            }
+
+            if (event.kind === 'back_in_stock') {
+                await collection.deleteOne({ _id: alert._id })
+            } else {
+                await collection.updateOne(
+                    { _id: alert._id },
+                    { $set: { price: event.price, notifiedAt: new Date() } }
+                )
+            }
+            sent++
+        }
+    }
+
+    return sent
+}
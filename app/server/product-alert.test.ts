@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ObjectId } from 'mongodb'
+import { mkdtemp, readFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+// --- Mock Imports for Testing ---
+
+// Mock for the product_alerts collection
+const mockAlertCollection = {
+    find: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateOne: vi.fn(),
+    deleteOne: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn(() => mockAlertCollection),
+}
+
+const mockClientPromise = Promise.resolve({
+    db: () => mockDb,
+})
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Messages go to a fake channel rather than the configured one
+const mockChannel = {
+    name: 'test',
+    send: vi.fn(),
+}
+
+vi.mock('./notifications', () => ({
+    getNotificationChannel: () => mockChannel,
+}))
+
+function productWith(overrides: Record<string, unknown> = {}) {
+    return {
+        _id: new ObjectId(),
+        supplierId: 'supplier-1',
+        name: 'Stoneware Mug',
+        description: '',
+        pricing: { cost: 10, selling: 30 },
+        inventory: { onHand: 0 },
+        images: { original: [], enhanced: [] },
+        status: 'active' as const,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides,
+    }
+}
+
+function variantWith(id: string, onHand: number, selling: number) {
+    return {
+        id,
+        sku: `MUG-${id}`,
+        options: { Colour: id },
+        pricing: { cost: 10, selling },
+        inventory: { onHand },
+        images: [],
+    }
+}
+
+function mockAlerts(alerts: Record<string, unknown>[]) {
+    mockAlertCollection.find.mockReturnValue({
+        toArray: vi.fn().mockResolvedValue(alerts),
+    })
+}
+
+// --- Unit Tests ---
+
+describe('findProductAlertEvents', () => {
+    it('should spot stock coming back and prices going down', async () => {
+        const { findProductAlertEvents } = await import('./product-alert-utils')
+
+        const events = findProductAlertEvents(
+            productWith(),
+            productWith({ pricing: { cost: 10, selling: 25 }, inventory: { onHand: 4 } })
+        )
+
+        expect(events).toEqual([
+            { kind: 'back_in_stock', price: 25 },
+            { kind: 'price_drop', price: 25 },
+        ])
+    })
+
+    it('should treat stock held by checkouts as sold out', async () => {
+        const { findProductAlertEvents } = await import('./product-alert-utils')
+
+        const events = findProductAlertEvents(
+            productWith({ inventory: { onHand: 2, reserved: 2 } }),
+            productWith({ inventory: { onHand: 3, reserved: 2 } })
+        )
+
+        expect(events).toEqual([{ kind: 'back_in_stock', price: 30 }])
+    })
+
+    it('should compare each variant on its own', async () => {
+        const { findProductAlertEvents } = await import('./product-alert-utils')
+
+        const events = findProductAlertEvents(
+            productWith({ inventory: { onHand: 5 }, variants: [variantWith('blue', 0, 30), variantWith('red', 5, 30)] }),
+            productWith({ inventory: { onHand: 7 }, variants: [variantWith('blue', 2, 30), variantWith('red', 5, 30)] })
+        )
+
+        expect(events).toEqual([{ kind: 'back_in_stock', variantId: 'blue', price: 30 }])
+    })
+
+    it('should ignore stock going up when some was already available', async () => {
+        const { findProductAlertEvents } = await import('./product-alert-utils')
+
+        const events = findProductAlertEvents(
+            productWith({ inventory: { onHand: 1 } }),
+            productWith({ inventory: { onHand: 9 }, pricing: { cost: 10, selling: 35 } })
+        )
+
+        expect(events).toEqual([])
+    })
+})
+
+describe('dispatchProductAlerts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        mockChannel.send.mockResolvedValue(undefined)
+    })
+
+    it('should send back-in-stock alerts once and then remove them', async () => {
+        const { dispatchProductAlerts } = await import('./product-alert-utils')
+        const after = productWith({ inventory: { onHand: 3 } })
+        const alertId = new ObjectId()
+        mockAlerts([{ _id: alertId, kind: 'back_in_stock', userId: 'customer-1', email: 'ada@example.com', price: 30 }])
+
+        const sent = await dispatchProductAlerts(productWith({ _id: after._id }), after)
+
+        expect(sent).toBe(1)
+        expect(mockAlertCollection.find).toHaveBeenCalledWith({
+            productId: after._id.toHexString(),
+            variantId: { $exists: false },
+            kind: 'back_in_stock',
+        })
+        expect(mockChannel.send).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'back_in_stock',
+            recipient: expect.objectContaining({ email: 'ada@example.com' }),
+            subject: 'Stoneware Mug is back in stock',
+            link: `/product/${after._id.toHexString()}`,
+        }))
+        expect(mockAlertCollection.deleteOne).toHaveBeenCalledWith({ _id: alertId })
+    })
+
+    it('should only tell price watchers about a price below the one they last heard', async () => {
+        const { dispatchProductAlerts } = await import('./product-alert-utils')
+        const before = productWith({ inventory: { onHand: 3 } })
+        const after = { ...before, pricing: { cost: 10, selling: 24 } }
+        const alertId = new ObjectId()
+        mockAlerts([{ _id: alertId, kind: 'price_drop', userId: 'customer-1', email: 'ada@example.com', price: 30 }])
+
+        await dispatchProductAlerts(before, after)
+
+        const [filter] = mockAlertCollection.find.mock.calls[0]
+        expect(filter).toMatchObject({ kind: 'price_drop', price: { $gt: 24 } })
+        expect(mockChannel.send.mock.calls[0][0].body).toContain('from $30.00 to $24.00')
+        expect(mockAlertCollection.updateOne).toHaveBeenCalledWith(
+            { _id: alertId },
+            { $set: { price: 24, notifiedAt: expect.any(Date) } }
+        )
+    })
+
+    it('should keep alerts whose message could not be sent', async () => {
+        const { dispatchProductAlerts } = await import('./product-alert-utils')
+        const after = productWith({ inventory: { onHand: 3 } })
+        mockAlerts([{ _id: new ObjectId(), kind: 'back_in_stock', userId: 'customer-1', email: 'ada@example.com', price: 30 }])
+        mockChannel.send.mockRejectedValue(new Error('Mailbox unavailable'))
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        const sent = await dispatchProductAlerts(productWith({ _id: after._id }), after)
+
+        expect(sent).toBe(0)
+        expect(mockAlertCollection.deleteOne).not.toHaveBeenCalled()
+    })
+})
+
+describe('subscribeProductAlert', () => {
+    it('should refuse guest accounts', async () => {
+        const { subscribeProductAlert } = await import('./product-alert-utils')
+
+        await expect(subscribeProductAlert(
+            { id: 'guest-1', email: 'guest@guest.makerskind.com', isAnonymous: true },
+            { productId: new ObjectId().toHexString(), kind: 'back_in_stock' }
+        )).rejects.toThrow('Sign in to get notified')
+        expect(mockAlertCollection.findOneAndUpdate).not.toHaveBeenCalled()
+    })
+})
+
+describe('createLocalNotificationChannel', () => {
+    it('should append messages to the outbox file', async () => {
+        const { createLocalNotificationChannel } = await import('./notifications/local-channel')
+        const outboxFile = join(await mkdtemp(join(tmpdir(), 'outbox-')), 'notifications.jsonl')
+        const channel = createLocalNotificationChannel({ outboxFile })
+        const message = {
+            type: 'back_in_stock',
+            recipient: { userId: 'customer-1', email: 'ada@example.com' },
+            subject: 'Stoneware Mug is back in stock',
+            body: 'Good news',
+        }
+
+        await channel.send(message)
+        await channel.send(message)
+
+        const lines = (await readFile(outboxFile, 'utf8')).trim().split('\n')
+        expect(lines).toHaveLength(2)
+        expect(JSON.parse(lines[0])).toMatchObject(message)
+    })
+})
@@ -0,0 +1,66 @@
+import { createServerFn } from '@tanstack/react-start'
+
+import type { SubscribeProductAlertInput } from './product-alert-utils'
+
+// --- Input Types for Server Functions ---
+
+interface GetMyProductAlertsInput {
+    productId: string
+}
+
+interface UnsubscribeProductAlertInput {
+    alertId: string
+}
+
+// --- Server Functions ---
+
+/**
+ * Get the current customer's back-in-stock and price-drop alerts for a product
+ */
+export const getMyProductAlertsFn = createServerFn({ method: "GET" })
+    .inputValidator((data: GetMyProductAlertsInput) => data)
+    .handler(async ({ data }) => {
+        const { getAuthSession } = await import('./auth-utils')
+        const { getUserProductAlerts, toSerializable } = await import('./product-alert-utils')
+
+        const session = await getAuthSession()
+        if (!session?.user || session.user.isAnonymous) {
+            return { signedIn: false, alerts: [] }
+        }
+
+        const alerts = await getUserProductAlerts(session.user.id, data.productId)
+        return { signedIn: true, alerts: alerts.map(toSerializable) }
+    })
+
+/**
+ * Ask to be told when a product is back in stock or its price drops (Any signed-in customer)
+ */
+export const subscribeProductAlertFn = createServerFn({ method: "POST" })
+    .inputValidator((data: SubscribeProductAlertInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { subscribeProductAlert, toSerializable } = await import('./product-alert-utils')
+
+        const user = await requireAuth()
+        const alert = await subscribeProductAlert(user, data)
+
+        return { alert: toSerializable(alert), success: true }
+    })
+
+/**
+ * Cancel one of the current customer's alerts (Any signed-in customer)
+ */
+export const unsubscribeProductAlertFn = createServerFn({ method: "POST" })
+    .inputValidator((data: UnsubscribeProductAlertInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { unsubscribeProductAlert } = await import('./product-alert-utils')
+
+        const user = await requireAuth()
+        const removed = await unsubscribeProductAlert(user.id, data.alertId)
+        if (!removed) {
+            throw new Error('Alert not found')
+        }
+
+        return { success: true }
+    })
@@ -0,0 +1,18 @@
+import type { ProductRejectionReason } from './product-utils'
+
+// --- Product Review Rules ---
+// Kept free of database imports so the review queue and the supplier's product list can share them
+
+export const PRODUCT_REJECTION_REASONS: Record<ProductRejectionReason, string> = {
+    poor_photos: 'Photos do not show the product clearly',
+    incomplete_description: 'Description is missing details buyers need',
+    pricing: 'Price looks wrong',
+    not_handmade: 'Product does not appear to be handmade',
+    prohibited_item: 'Product is not allowed on Makerskind',
+    other: 'Other (see note)'
+}
+
+export const MAX_REVIEW_NOTE_LENGTH = 1000
+
+// Products a supplier can send (back) to the review queue
+export const RESUBMITTABLE_STATUSES = ['draft', 'rejected', 'changes_requested'] as const
@@ -0,0 +1,181 @@
+import type { ObjectId, WithId } from 'mongodb'
+import { getProductCollection, type Product, type ProductRejectionReason, type ProductReview, type UpdateProductInput } from './product-utils'
+import { MAX_REVIEW_NOTE_LENGTH, PRODUCT_REJECTION_REASONS, RESUBMITTABLE_STATUSES } from './product-review-state'
+import { invalidateProductSearchIndex } from './search'
+
+// --- Product Review Types ---
+
+export type ProductReviewDecision = 'approve' | 'reject' | 'request_changes'
+
+export interface ReviewProductInput {
+    decision: ProductReviewDecision
+    reasons?: ProductRejectionReason[]   // Required to reject
+    note?: string                        // Required to request changes
+}
+
+const DECISION_STATUS = {
+    approve: 'active',
+    reject: 'rejected',
+    request_changes: 'changes_requested'
+} as const
+
+const DECISION_RECORDED = {
+    approve: 'approved',
+    reject: 'rejected',
+    request_changes: 'changes_requested'
+} as const
+
+// --- Utility Functions ---
+
+/**
+ * Whether an update changes what customers see of a product: its name, description or images
+ */
+export function changesListingContent(product: Product, input: UpdateProductInput): boolean {
+    const sameImages = (current: string[], next: string[] | undefined) =>
+        next === undefined || (next.length === current.length && next.every((url, i) => url === current[i]))
+
+    return (input.name !== undefined && input.name !== product.name)
+        || (input.description !== undefined && input.description !== product.description)
+        || !sameImages(product.images.original, input.images)
+        || !sameImages(product.images.enhanced, input.enhancedImages)
+}
+
+/**
+ * Get the products waiting for review, longest waiting first
+ */
+export async function getReviewQueue(limit = 100): Promise<WithId<Product>[]> {
+    const collection = await getProductCollection()
+    return await collection
+        .find({ status: 'pending_review' })
+        .sort({ submittedForReviewAt: 1, createdAt: 1 })
+        .limit(limit)
+        .toArray()
+}
+
+/**
+ * Approve, reject or ask for changes to a product waiting for review
+ * The decision is kept on the product so the supplier can see it
+ */
+export async function reviewProduct(
+    productId: string,
+    input: ReviewProductInput,
+    reviewerId: string
+): Promise<WithId<Product> | null> {
+    const { ObjectId } = await import('mongodb')
+
+    if (!(input.decision in DECISION_STATUS)) {
+        throw new Error('Invalid review decision')
+    }
+
+    const reasons = [...new Set(input.reasons ?? [])]
+    if (reasons.some(reason => !(reason in PRODUCT_REJECTION_REASONS))) {
+        throw new Error('Invalid rejection reason')
+    }
+    if (input.decision === 'reject' && reasons.length === 0) {
+        throw new Error('Choose at least one reason for rejecting')
+    }
+
+    const note = input.note?.trim() || undefined
+    if (input.decision === 'request_changes' && !note) {
+        throw new Error('Describe the changes you need')
+    }
+    if (note && note.length > MAX_REVIEW_NOTE_LENGTH) {
+        throw new Error(`Review notes must be ${MAX_REVIEW_NOTE_LENGTH} characters or fewer`)
+    }
+
+    let objectId: ObjectId
+    try {
+        objectId = new ObjectId(productId)
+    } catch {
+        return null
+    }
+
+    const review: ProductReview = {
+        decision: DECISION_RECORDED[input.decision],
+        reasons: input.decision === 'approve' ? [] : reasons,
+        ...(note && { note }),
+        reviewerId,
+        reviewedAt: new Date()
+    }
+
+    const collection = await getProductCollection()
+    const updated = await collection.findOneAndUpdate(
+        { _id: objectId, status: 'pending_review' },
+        {
+            $set: { status: DECISION_STATUS[input.decision], updatedAt: review.reviewedAt },
+            $push: { reviews: review }
+        },
+        { returnDocument: 'after' }
+    )
+
+    if (!updated) {
+        const exists = await collection.findOne({ _id: objectId })
+        if (exists) {
+            throw new Error('Product is not awaiting review')
+        }
+        return null
+    }
+
+    invalidateProductSearchIndex()
+    return updated
+}
+
+/**
+ * Send a draft, rejected or changes-requested product to the review queue
+ */
+export async function resubmitProduct(productId: string): Promise<WithId<Product> | null> {
+    const { ObjectId } = await import('mongodb')
+
+    let objectId: ObjectId
+    try {
+        objectId = new ObjectId(productId)
+    } catch {
+        return null
+    }
+
+    const now = new Date()
+    const collection = await getProductCollection()
+    const updated = await collection.findOneAndUpdate(
+        { _id: objectId, status: { $in: [...RESUBMITTABLE_STATUSES] } },
+        { $set: { status: 'pending_review', submittedForReviewAt: now, updatedAt: now } },
+        { returnDocument: 'after' }
+    )
+
+    if (!updated) {
+        const exists = await collection.findOne({ _id: objectId })
+        if (exists) {
+            throw new Error('Only draft, rejected or changes-requested products can be submitted for review')
+        }
+        return null
+    }
+
+    return updated
+}
+
+/**
+ * Send a live product back to the review queue after its listing content changed
+ * Does nothing unless the product is active
+ */
+export async function returnToReview(productId: string): Promise<WithId<Product> | null> {
+    const { ObjectId } = await import('mongodb')
+
+    let objectId: ObjectId
+    try {
+        objectId = new ObjectId(productId)
+    } catch {
+        return null
+    }
+
+    const now = new Date()
+    const collection = await getProductCollection()
+    const updated = await collection.findOneAndUpdate(
+        { _id: objectId, status: 'active' },
+        { $set: { status: 'pending_review', submittedForReviewAt: now, updatedAt: now } },
+        { returnDocument: 'after' }
+    )
+
+    if (updated) {
+        invalidateProductSearchIndex()
+    }
+    return updated
+}
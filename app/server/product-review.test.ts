@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ObjectId } from 'mongodb'
+
+// --- Mock Imports for Testing ---
+
+// Mock for MongoDB collection
+const mockProductCollection = {
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn(() => mockProductCollection),
+}
+
+const mockClientPromise = Promise.resolve({
+    db: () => mockDb,
+})
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+const productId = new ObjectId().toHexString()
+
+function makeProduct(overrides: Record<string, unknown> = {}) {
+    return {
+        _id: new ObjectId(productId),
+        supplierId: 'supplier-1',
+        name: 'Stoneware Mug',
+        description: 'Wheel-thrown mug',
+        pricing: { cost: 10, selling: 25 },
+        inventory: { onHand: 5, reserved: 0, reorderThreshold: 2 },
+        images: { original: ['https://example.com/a.jpg'], enhanced: [] },
+        status: 'pending_review',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides,
+    }
+}
+
+// --- Unit Tests ---
+
+describe('changesListingContent', () => {
+    it('should detect changes to the name, description and images only', async () => {
+        const { changesListingContent } = await import('./product-review-utils')
+        const product = makeProduct({ status: 'active' }) as never
+
+        expect(changesListingContent(product, { name: 'Stoneware Mug' })).toBe(false)
+        expect(changesListingContent(product, { sellingPrice: 30 })).toBe(false)
+        expect(changesListingContent(product, { name: 'Large Stoneware Mug' })).toBe(true)
+        expect(changesListingContent(product, { description: 'Hand-built mug' })).toBe(true)
+        expect(changesListingContent(product, { images: ['https://example.com/b.jpg'] })).toBe(true)
+        expect(changesListingContent(product, { enhancedImages: ['https://example.com/c.jpg'] })).toBe(true)
+    })
+})
+
+describe('reviewProduct', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should approve a pending product and record the decision', async () => {
+        const { reviewProduct } = await import('./product-review-utils')
+        mockProductCollection.findOneAndUpdate.mockResolvedValue(makeProduct({ status: 'active' }))
+
+        const result = await reviewProduct(productId, { decision: 'approve' }, 'reviewer-1')
+
+        expect(result?.status).toBe('active')
+        const [filter, update] = mockProductCollection.findOneAndUpdate.mock.calls[0]
+        expect(filter).toEqual({ _id: new ObjectId(productId), status: 'pending_review' })
+        expect(update.$set.status).toBe('active')
+        expect(update.$push.reviews).toMatchObject({ decision: 'approved', reasons: [], reviewerId: 'reviewer-1' })
+    })
+
+    it('should store the reasons and note when rejecting', async () => {
+        const { reviewProduct } = await import('./product-review-utils')
+        mockProductCollection.findOneAndUpdate.mockResolvedValue(makeProduct({ status: 'rejected' }))
+
+        await reviewProduct(productId, {
+            decision: 'reject',
+            reasons: ['poor_photos', 'poor_photos', 'pricing'],
+            note: '  Photos are blurry  ',
+        }, 'reviewer-1')
+
+        const [, update] = mockProductCollection.findOneAndUpdate.mock.calls[0]
+        expect(update.$set.status).toBe('rejected')
+        expect(update.$push.reviews).toMatchObject({
+            decision: 'rejected',
+            reasons: ['poor_photos', 'pricing'],
+            note: 'Photos are blurry',
+        })
+    })
+
+    it('should require reasons to reject and a note to request changes', async () => {
+        const { reviewProduct } = await import('./product-review-utils')
+
+        await expect(reviewProduct(productId, { decision: 'reject' }, 'reviewer-1'))
+            .rejects.toThrow('Choose at least one reason for rejecting')
+        await expect(reviewProduct(productId, { decision: 'request_changes', note: '   ' }, 'reviewer-1'))
+            .rejects.toThrow('Describe the changes you need')
+        await expect(reviewProduct(productId, { decision: 'reject', reasons: ['unknown' as never] }, 'reviewer-1'))
+            .rejects.toThrow('Invalid rejection reason')
+        expect(mockProductCollection.findOneAndUpdate).not.toHaveBeenCalled()
+    })
+
+    it('should refuse products that are not awaiting review', async () => {
+        const { reviewProduct } = await import('./product-review-utils')
+        mockProductCollection.findOneAndUpdate.mockResolvedValue(null)
+        mockProductCollection.findOne.mockResolvedValue(makeProduct({ status: 'active' }))
+
+        await expect(reviewProduct(productId, { decision: 'approve' }, 'reviewer-1'))
+            .rejects.toThrow('Product is not awaiting review')
+    })
+})
+
+describe('resubmitProduct', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should return a product with requested changes to the queue', async () => {
+        const { resubmitProduct } = await import('./product-review-utils')
+        mockProductCollection.findOneAndUpdate.mockResolvedValue(makeProduct())
+
+        const result = await resubmitProduct(productId)
+
+        expect(result?.status).toBe('pending_review')
+        const [filter, update] = mockProductCollection.findOneAndUpdate.mock.calls[0]
+        expect(filter.status).toEqual({ $in: ['draft', 'rejected', 'changes_requested'] })
+        expect(update.$set.submittedForReviewAt).toBeInstanceOf(Date)
+    })
+
+    it('should refuse products that are live or already queued', async () => {
+        const { resubmitProduct } = await import('./product-review-utils')
+        mockProductCollection.findOneAndUpdate.mockResolvedValue(null)
+        mockProductCollection.findOne.mockResolvedValue(makeProduct({ status: 'active' }))
+
+        await expect(resubmitProduct(productId))
+            .rejects.toThrow('Only draft, rejected or changes-requested products can be submitted for review')
+    })
+
+    it('should return null for unknown products', async () => {
+        const { resubmitProduct } = await import('./product-review-utils')
+
+        expect(await resubmitProduct('not-an-id')).toBeNull()
+    })
+})
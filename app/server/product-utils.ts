@@ -1,5 +1,22 @@
 import clientPromise from './db/mongo'
 import type { ObjectId, Collection, Db, WithId } from 'mongodb'
+import { recordMovements, type NewInventoryMovement } from './inventory-utils'
+import { getCategoryById, getCategorySubtreeIds } from './category-utils'
+import {
+    decodeCursor,
+    keysetFilter,
+    readOrder,
+    toCursorPage,
+    type CursorOptions,
+    type CursorPageInfo,
+    type CursorSort
+} from './cursor'
+import type { StatusActor } from './order-utils'
+import { describeVariant, validateVariants } from './product-variants'
+import { getProductSearchIndex, invalidateProductSearchIndex } from './search'
+import type { ProductHighlight } from './search/product-index'
+import { tokenize } from './search/text'
+import { getUserNames } from './user-utils'
 
 // --- Product Types ---
 
@@ -10,6 +27,20 @@ export interface ProductPricing {
 
 export interface ProductInventory {
     onHand: number
+    reserved?: number           // Held by checkout reservations; absent until first reserved
+    reorderThreshold?: number   // Supplier is alerted once onHand falls to it; defaults when unset
+}
+
+// low_stock is at or below the reorder threshold, out_of_stock is nothing on hand
+export type StockLevel = 'in_stock' | 'low_stock' | 'out_of_stock'
+
+// Stock levels exposed to clients; available is what can still be bought
+export interface ProductInventoryLevels {
+    onHand: number
+    reserved: number
+    available: number
+    reorderThreshold: number
+    stockLevel: StockLevel
 }
 
 export interface ProductImages {
@@ -17,17 +48,68 @@ export interface ProductImages {
     enhanced: string[]   // AI-enhanced versions of images
 }
 
-export type ProductStatus = 'active' | 'draft' | 'archived' | 'pending_review' | 'rejected'
+// Suppliers submit products for review (pending_review); reviewers set them live, reject them,
+// or ask for changes, after which the supplier resubmits
+export type ProductStatus = 'active' | 'draft' | 'archived' | 'pending_review' | 'rejected' | 'changes_requested'
+
+export type ProductRejectionReason =
+    | 'poor_photos'
+    | 'incomplete_description'
+    | 'pricing'
+    | 'not_handmade'
+    | 'prohibited_item'
+    | 'other'
+
+// A reviewer's decision on a product, kept on the product so the supplier can see why
+export interface ProductReview {
+    decision: 'approved' | 'rejected' | 'changes_requested'
+    reasons: ProductRejectionReason[]
+    note?: string
+    reviewerId: string
+    reviewedAt: Date
+}
+
+export interface ProductReviewSerializable extends Omit<ProductReview, 'reviewedAt'> {
+    reviewedAt: string
+}
+
+// An axis a product comes in, e.g. Glaze with Celadon, Tenmoku and Shino
+export interface ProductOption {
+    name: string
+    values: string[]
+}
+
+// One purchasable combination of option values with its own prices, stock and images
+export interface ProductVariant {
+    id: string                        // Stable reference used by carts, orders and the ledger
+    sku: string
+    options: Record<string, string>   // Option name -> value, in option order
+    pricing: ProductPricing
+    inventory: ProductInventory
+    images: string[]                  // Shown instead of the product images when chosen
+}
+
+// Customers' star ratings, kept up to date from the published reviews
+export interface ProductRating {
+    average: number                   // 1-5, to one decimal place
+    count: number
+}
 
 export interface Product {
     _id?: ObjectId
     supplierId: string
     name: string
     description: string
-    pricing: ProductPricing
-    inventory: ProductInventory
+    categoryId?: string               // Uncategorised when unset
+    pricing: ProductPricing           // With variants: the lowest variant prices
+    inventory: ProductInventory       // With variants: the variants' stock added up
+    options?: ProductOption[]
+    variants?: ProductVariant[]       // When set, customers buy one of these rather than the product
     images: ProductImages
     status: ProductStatus
+    reviews?: ProductReview[]         // Review decisions, oldest first
+    submittedForReviewAt?: Date       // When the product last entered the review queue
+    rating?: ProductRating            // Absent until a customer review is published
     createdAt: Date
     updatedAt: Date
 }
@@ -38,6 +120,7 @@ export interface ProductPublic {
     supplierId: string
     name: string
     description: string
+    categoryId?: string
     pricing: { selling: number }
     inventory: ProductInventory
     images: ProductImages
@@ -49,15 +132,34 @@ export interface ProductPublic {
 // --- Serializable Types for Server Functions ---
 // These types use string IDs instead of ObjectId for safe serialization
 
+export interface ProductVariantSerializable {
+    id: string
+    sku: string
+    options: Record<string, string>
+    pricing: ProductPricing
+    inventory: ProductInventoryLevels
+    images: string[]
+}
+
+export interface ProductVariantPublicSerializable extends Omit<ProductVariantSerializable, 'pricing'> {
+    pricing: { selling: number }
+}
+
 export interface ProductSerializable {
     _id: string
     supplierId: string
     name: string
     description: string
+    categoryId?: string
     pricing: ProductPricing
-    inventory: ProductInventory
+    inventory: ProductInventoryLevels
+    options?: ProductOption[]
+    variants?: ProductVariantSerializable[]
     images: ProductImages
     status: ProductStatus
+    review?: ProductReviewSerializable   // The latest review decision
+    submittedForReviewAt?: string
+    rating?: ProductRating
     createdAt: string
     updatedAt: string
 }
@@ -67,21 +169,41 @@ export interface ProductPublicSerializable {
     supplierId: string
     name: string
     description: string
+    categoryId?: string
     pricing: { selling: number }
-    inventory: ProductInventory
+    inventory: ProductInventoryLevels
+    options?: ProductOption[]
+    variants?: ProductVariantPublicSerializable[]
     images: ProductImages
     status: ProductStatus
+    rating?: ProductRating
     createdAt: string
     updatedAt: string
 }
 
+// Input type for a product variant; prices and quantity mirror the product fields
+export interface ProductVariantInput {
+    id?: string              // Existing variant being edited; new variants are given one
+    sku: string
+    options: Record<string, string>
+    costPrice: number
+    sellingPrice: number
+    quantity: number
+    images?: string[]
+}
+
 // Input type for creating a new product
+// With variants, the product's prices and quantity are worked out from them
 export interface CreateProductInput {
     name: string
     description: string
+    categoryId?: string
     costPrice: number
     sellingPrice: number
     quantity: number
+    reorderThreshold?: number
+    options?: ProductOption[]
+    variants?: ProductVariantInput[]
     images?: string[]
     status?: ProductStatus
 }
@@ -90,21 +212,58 @@ export interface CreateProductInput {
 export interface UpdateProductInput {
     name?: string
     description?: string
+    categoryId?: string | null         // null removes the product from its category
     costPrice?: number
     sellingPrice?: number
     quantity?: number
+    variantId?: string       // With quantity, sets the stock of this variant only
+    reorderThreshold?: number
+    options?: ProductOption[]
+    variants?: ProductVariantInput[]   // Replaces the variants; sent together with options
     images?: string[]
     enhancedImages?: string[]
     status?: ProductStatus
 }
 
-// Pagination options
-export interface ProductListOptions {
+// Orders a product listing can be sorted in; relevance only applies to searches
+export type ProductSort = 'relevance' | 'newest' | 'price_asc' | 'price_desc' | 'best_selling' | 'name'
+
+// Pagination options; set pagination to 'cursor' to page with cursors instead of page numbers
+export interface ProductListOptions extends CursorOptions {
     page?: number
     limit?: number
     status?: ProductStatus
     supplierId?: string
+    categoryId?: string      // Includes products in its subcategories
     search?: string
+    sort?: ProductSort       // Defaults to relevance when searching, newest otherwise
+    minPrice?: number        // Selling price; the lowest variant price for products with variants
+    maxPrice?: number
+    inStock?: boolean        // Only products with stock available to buy
+    stockLevel?: StockLevel
+    facets?: boolean         // Also count the matching products by price, supplier, category and stock
+}
+
+// Number of matching products sharing a value, e.g. a supplier or category ID
+export interface FacetCount {
+    value: string
+    label?: string
+    count: number
+}
+
+// Products priced from min up to, but not including, max; the top band has no max
+export interface PriceBandFacet {
+    min: number
+    max: number | null
+    count: number
+}
+
+export interface ProductFacets {
+    priceBands: PriceBandFacet[]
+    suppliers: FacetCount[]
+    categories: FacetCount[]  // Products directly in each category; add up subcategories with the category tree
+    inStock: number
+    total: number             // All matching products, for listings paged with cursors
 }
 
 // Paginated response
@@ -114,8 +273,24 @@ export interface PaginatedProducts<T> {
     page: number
     limit: number
     totalPages: number
+    highlights?: Record<string, ProductHighlight>  // Matched words of searched products, by product ID
+    facets?: ProductFacets
 }
 
+// Cursor-paginated response; pages are not counted, so there are no totals
+export interface CursorPaginatedProducts<T> extends CursorPageInfo {
+    products: T[]
+    limit: number
+    highlights?: Record<string, ProductHighlight>
+    facets?: ProductFacets
+}
+
+// Lower bounds of the price bands counted in facets
+export const PRICE_BANDS = [0, 25, 50, 100, 250]
+
+// Reorder threshold for products that have not set their own
+export const DEFAULT_REORDER_THRESHOLD = 5
+
 // --- Database Access ---
 
 let _db: Db | null = null
@@ -135,6 +310,226 @@ export async function getProductCollection(): Promise<Collection<Product>> {
 
 // --- Utility Functions ---
 
+/**
+ * Work out the stock levels of a product, never reporting less than nothing available
+ */
+export function getInventoryLevels(inventory: ProductInventory): ProductInventoryLevels {
+    const reserved = inventory.reserved || 0
+    const reorderThreshold = inventory.reorderThreshold ?? DEFAULT_REORDER_THRESHOLD
+    return {
+        onHand: inventory.onHand,
+        reserved,
+        available: Math.max(0, inventory.onHand - reserved),
+        reorderThreshold,
+        stockLevel: getStockLevel(inventory.onHand, reorderThreshold)
+    }
+}
+
+/**
+ * Classify stock on hand against a product's reorder threshold
+ */
+export function getStockLevel(onHand: number, reorderThreshold: number): StockLevel {
+    if (onHand <= 0) {
+        return 'out_of_stock'
+    }
+    return onHand <= reorderThreshold ? 'low_stock' : 'in_stock'
+}
+
+/**
+ * Aggregation expression for stock on hand being at or below the reorder threshold
+ */
+function atOrBelowThreshold() {
+    return {
+        $lte: ['$inventory.onHand', { $ifNull: ['$inventory.reorderThreshold', DEFAULT_REORDER_THRESHOLD] }]
+    }
+}
+
+/**
+ * Query condition matching products at the given stock level, mirroring getStockLevel
+ */
+export function stockLevelFilter(level: StockLevel) {
+    switch (level) {
+        case 'out_of_stock':
+            return { 'inventory.onHand': { $lte: 0 } }
+        case 'low_stock':
+            return { 'inventory.onHand': { $gt: 0 }, $expr: atOrBelowThreshold() }
+        case 'in_stock':
+            return { $expr: { $not: [atOrBelowThreshold()] } }
+    }
+}
+
+/**
+ * Query condition matching products with stock not held by checkouts, mirroring getInventoryLevels
+ */
+export function availableFilter() {
+    return { $expr: { $gt: ['$inventory.onHand', { $ifNull: ['$inventory.reserved', 0] }] } }
+}
+
+/**
+ * Stock levels of a variant, judged against its product's reorder threshold
+ */
+function getVariantInventoryLevels(variant: ProductVariant, product: Product): ProductInventoryLevels {
+    return getInventoryLevels({ ...variant.inventory, reorderThreshold: product.inventory.reorderThreshold })
+}
+
+/**
+ * $inc fields changing a product's stock counters, and those of one of its variants when given
+ * Variant products keep their totals in step, so product-level stock always adds up
+ * Use with variantArrayFilters for the same variant
+ */
+export function stockIncrements(
+    variantId: string | undefined,
+    changes: { onHand?: number; reserved?: number }
+): Record<string, number> {
+    const increments: Record<string, number> = {}
+    for (const [field, amount] of Object.entries(changes)) {
+        if (amount === undefined) continue
+        increments[`inventory.${field}`] = amount
+        if (variantId) {
+            increments[`variants.$[variant].inventory.${field}`] = amount
+        }
+    }
+    return increments
+}
+
+/**
+ * Array filters selecting the variant targeted by stockIncrements
+ */
+export function variantArrayFilters(variantId: string | undefined) {
+    return variantId ? [{ 'variant.id': variantId }] : undefined
+}
+
+/**
+ * Work out what a cart or order line buys: the product itself, or the chosen variant
+ * Throws when a variant product is bought without choosing one, or the variant is gone
+ */
+export function resolveVariant(
+    product: Product,
+    variantId?: string
+): { variant?: ProductVariant; pricing: ProductPricing; inventory: ProductInventory } {
+    if (!product.variants?.length) {
+        if (variantId) {
+            throw new Error(`${product.name} does not come in options`)
+        }
+        return { pricing: product.pricing, inventory: product.inventory }
+    }
+    
+    if (!variantId) {
+        throw new Error(`Choose an option for ${product.name}`)
+    }
+    
+    const variant = product.variants.find(v => v.id === variantId)
+    if (!variant) {
+        throw new Error(`${product.name} is no longer available in that option`)
+    }
+    
+    return { variant, pricing: variant.pricing, inventory: variant.inventory }
+}
+
+/**
+ * Whether an update changes the stock on hand of a product or its variants
+ * Adding or removing variants counts, since it moves stock between them
+ */
+export function changesStock(product: Product, input: UpdateProductInput): boolean {
+    const previous = product.variants || []
+    
+    if (input.variants?.length) {
+        return input.variants.length !== previous.length || input.variants.some(variant =>
+            variant.quantity !== previous.find(v => v.id === variant.id)?.inventory.onHand)
+    }
+    if (input.variants && previous.length > 0) {
+        return true
+    }
+    if (input.quantity === undefined) {
+        return false
+    }
+    
+    const current = input.variantId
+        ? previous.find(v => v.id === input.variantId)?.inventory.onHand
+        : product.inventory.onHand
+    return input.quantity !== current
+}
+
+/**
+ * Whether an update changes the cost or selling price of a product or any of its variants
+ */
+export function changesPricing(product: Product, input: UpdateProductInput): boolean {
+    if (input.variants?.length) {
+        const previous = product.variants || []
+        return input.variants.some(variant => {
+            const existing = previous.find(v => v.id === variant.id)
+            return variant.costPrice !== existing?.pricing.cost || variant.sellingPrice !== existing?.pricing.selling
+        })
+    }
+    
+    return (input.costPrice !== undefined && input.costPrice !== product.pricing.cost)
+        || (input.sellingPrice !== undefined && input.sellingPrice !== product.pricing.selling)
+}
+
+/**
+ * Product-level prices and stock of a variant product: the lowest prices and the stock added up
+ */
+function summarizeVariants(variants: ProductVariant[]): { pricing: ProductPricing; onHand: number; reserved: number } {
+    return {
+        pricing: {
+            cost: Math.min(...variants.map(v => v.pricing.cost)),
+            selling: Math.min(...variants.map(v => v.pricing.selling))
+        },
+        onHand: variants.reduce((sum, v) => sum + v.inventory.onHand, 0),
+        reserved: variants.reduce((sum, v) => sum + (v.inventory.reserved || 0), 0)
+    }
+}
+
+/**
+ * Build variants from input, keeping the stock checkouts hold on variants that stay
+ * Variants with held stock cannot be removed until the checkouts finish
+ */
+async function buildVariants(
+    options: ProductOption[],
+    inputs: ProductVariantInput[],
+    previous: ProductVariant[] = []
+): Promise<ProductVariant[]> {
+    const { ObjectId } = await import('mongodb')
+    
+    const error = validateVariants(options, inputs)
+    if (error) {
+        throw new Error(error)
+    }
+    
+    const previousById = new Map(previous.map(variant => [variant.id, variant]))
+    const keptIds = new Set(inputs.map(input => input.id))
+    
+    for (const variant of previous) {
+        if (!keptIds.has(variant.id) && (variant.inventory.reserved || 0) > 0) {
+            throw new Error(`${describeVariant(variant.options)} is being checked out and cannot be removed yet`)
+        }
+    }
+    
+    return inputs.map(input => {
+        const existing = input.id ? previousById.get(input.id) : undefined
+        if (input.id && !existing) {
+            throw new Error('Variant not found')
+        }
+        
+        const reserved = existing?.inventory.reserved || 0
+        return {
+            id: existing?.id ?? new ObjectId().toHexString(),
+            sku: input.sku.trim(),
+            // Stored in option order so labels read the same way everywhere
+            options: Object.fromEntries(options.map(option => [option.name, input.options[option.name]])),
+            pricing: {
+                cost: input.costPrice,
+                selling: input.sellingPrice
+            },
+            inventory: {
+                onHand: input.quantity,
+                ...(reserved > 0 && { reserved })
+            },
+            images: input.images ?? existing?.images ?? []
+        }
+    })
+}
+
 /**
  * Convert a MongoDB product document to a serializable format
  * This converts ObjectId to string and Date to ISO string for safe transport
@@ -145,15 +540,28 @@ export function toSerializable(product: WithId<Product>): ProductSerializable {
         supplierId: product.supplierId,
         name: product.name,
         description: product.description,
+        categoryId: product.categoryId,
         pricing: product.pricing,
-        inventory: product.inventory,
+        inventory: getInventoryLevels(product.inventory),
+        options: product.options,
+        variants: product.variants?.map(variant => ({
+            ...variant,
+            inventory: getVariantInventoryLevels(variant, product)
+        })),
         images: product.images,
         status: product.status,
+        review: reviewToSerializable(product.reviews?.[product.reviews.length - 1]),
+        submittedForReviewAt: product.submittedForReviewAt?.toISOString(),
+        rating: product.rating,
         createdAt: product.createdAt.toISOString(),
         updatedAt: product.updatedAt.toISOString()
     }
 }
 
+function reviewToSerializable(review: ProductReview | undefined): ProductReviewSerializable | undefined {
+    return review && { ...review, reviewedAt: review.reviewedAt.toISOString() }
+}
+
 /**
  * Strip the cost field from a product for non-admin responses
  * and convert to serializable format
@@ -164,10 +572,18 @@ export function stripCostField(product: WithId<Product>): ProductPublicSerializa
         supplierId: product.supplierId,
         name: product.name,
         description: product.description,
+        categoryId: product.categoryId,
         pricing: { selling: product.pricing.selling },
-        inventory: product.inventory,
+        inventory: getInventoryLevels(product.inventory),
+        options: product.options,
+        variants: product.variants?.map(variant => ({
+            ...variant,
+            pricing: { selling: variant.pricing.selling },
+            inventory: getVariantInventoryLevels(variant, product)
+        })),
         images: product.images,
         status: product.status,
+        rating: product.rating,
         createdAt: product.createdAt.toISOString(),
         updatedAt: product.updatedAt.toISOString()
     }
@@ -175,35 +591,88 @@ export function stripCostField(product: WithId<Product>): ProductPublicSerializa
 
 /**
  * Create a new product
+ * The initial stock is recorded as a restock in the inventory ledger, per variant when it has them
  */
 export async function createProduct(
     supplierId: string,
-    input: CreateProductInput
+    input: CreateProductInput,
+    actor: StatusActor = { id: supplierId, role: 'supplier' }
 ): Promise<WithId<Product>> {
-    const collection = await getProductCollection()
+    if (input.categoryId) {
+        await assertCategoryExists(input.categoryId)
+    }
+    
+    const variants = input.variants?.length
+        ? await buildVariants(input.options || [], input.variants)
+        : undefined
+    const summary = variants && summarizeVariants(variants)
+    
+    const client = await clientPromise
+    const session = client.startSession()
     
     const product: Product = {
         supplierId,
         name: input.name,
         description: input.description,
-        pricing: {
+        ...(input.categoryId && { categoryId: input.categoryId }),
+        pricing: summary ? summary.pricing : {
             cost: input.costPrice,
             selling: input.sellingPrice
         },
         inventory: {
-            onHand: input.quantity
+            onHand: summary ? summary.onHand : input.quantity,
+            ...(input.reorderThreshold !== undefined && { reorderThreshold: input.reorderThreshold })
         },
+        ...(variants && { options: input.options, variants }),
         images: {
             original: input.images || [],
             enhanced: []
         },
         status: input.status || 'draft',
+        ...(input.status === 'pending_review' && { submittedForReviewAt: new Date() }),
         createdAt: new Date(),
         updatedAt: new Date()
     }
     
-    const result = await collection.insertOne(product)
-    return { ...product, _id: result.insertedId }
+    try {
+        let created: WithId<Product> | null = null
+        
+        await session.withTransaction(async () => {
+            const db = client.db()
+            const result = await db.collection<Product>('products').insertOne(product, { session })
+            created = { ...product, _id: result.insertedId }
+            
+            const productId = result.insertedId.toHexString()
+            const movements: NewInventoryMovement[] = variants
+                ? variants.map(variant => ({
+                    productId,
+                    variantId: variant.id,
+                    type: 'restock',
+                    delta: variant.inventory.onHand
+                }))
+                : [{ productId, type: 'restock', delta: input.quantity }]
+            
+            await recordMovements(db, movements, actor, session)
+        })
+        
+        if (!created) {
+            throw new Error('Failed to create product')
+        }
+        
+        invalidateProductSearchIndex()
+        return created
+    } finally {
+        await session.endSession()
+    }
+}
+
+/**
+ * Check a category exists before products are assigned to it
+ */
+async function assertCategoryExists(categoryId: string): Promise<void> {
+    if (!await getCategoryById(categoryId)) {
+        throw new Error('Category not found')
+    }
 }
 
 /**
@@ -237,20 +706,72 @@ export async function getSupplierProductCount(supplierId: string): Promise<numbe
     return await collection.countDocuments({ supplierId })
 }
 
+/**
+ * Get products at or below their reorder threshold, including ones out of stock
+ * Emptiest first; without a supplier ID every supplier's products are included
+ */
+export async function getLowStockProducts(supplierId?: string, limit: number = 50): Promise<WithId<Product>[]> {
+    const collection = await getProductCollection()
+    
+    const filter: Record<string, unknown> = {
+        status: { $ne: 'archived' },
+        $expr: atOrBelowThreshold()
+    }
+    if (supplierId) {
+        filter.supplierId = supplierId
+    }
+    
+    return await collection
+        .find(filter)
+        .sort({ 'inventory.onHand': 1 })
+        .limit(limit)
+        .toArray()
+}
+
+// Sort orders for listings read straight from the products collection;
+// _id breaks ties so pages never overlap
+const SORT_ORDERS: Record<Exclude<ProductSort, 'relevance' | 'best_selling'>, CursorSort> = {
+    newest: { createdAt: -1, _id: -1 },
+    price_asc: { 'pricing.selling': 1, _id: 1 },
+    price_desc: { 'pricing.selling': -1, _id: -1 },
+    name: { name: 1, _id: 1 }
+}
+
+const BEST_SELLING_ORDER: CursorSort = { unitsSold: -1, createdAt: -1, _id: -1 }
+
+// Search hits are ranked in memory, by score and then ID
+const RELEVANCE_ORDER: CursorSort = { score: -1, id: -1 }
+
 /**
  * Get paginated list of products with optional filters
+ * Searches use the product search index, which tolerates typos and unfinished words,
+ * and are ranked by relevance unless another sort is chosen
+ * Cursor pages work with every sort and skip counting the matching products
  */
+export async function getProductList(
+    options: ProductListOptions & { pagination: 'cursor' }
+): Promise<CursorPaginatedProducts<WithId<Product>>>
+export async function getProductList(
+    options?: ProductListOptions & { pagination?: 'offset' }
+): Promise<PaginatedProducts<WithId<Product>>>
+export async function getProductList(
+    options?: ProductListOptions
+): Promise<PaginatedProducts<WithId<Product>> | CursorPaginatedProducts<WithId<Product>>>
 export async function getProductList(
     options: ProductListOptions = {}
-): Promise<PaginatedProducts<WithId<Product>>> {
+): Promise<PaginatedProducts<WithId<Product>> | CursorPaginatedProducts<WithId<Product>>> {
     const collection = await getProductCollection()
     
     const page = Math.max(1, options.page || 1)
     const limit = Math.min(100, Math.max(1, options.limit || 20))
     const skip = (page - 1) * limit
+    const isCursorPage = options.pagination === 'cursor'
+    const direction = options.direction || 'next'
     
     // Build query filter
     const filter: Record<string, unknown> = {}
+    // Conditions that cannot share the top level of the filter, such as several $expr
+    const conditions: Record<string, unknown>[] = []
     
     if (options.status) {
         filter.status = options.status
@@ -260,40 +781,276 @@ export async function getProductList(
         filter.supplierId = options.supplierId
     }
     
-    if (options.search) {
-        filter.$or = [
-            { name: { $regex: options.search, $options: 'i' } },
-            { description: { $regex: options.search, $options: 'i' } }
-        ]
+    if (options.categoryId) {
+        filter.categoryId = { $in: await getCategorySubtreeIds(options.categoryId) }
+    }
+    
+    if (options.minPrice !== undefined || options.maxPrice !== undefined) {
+        filter['pricing.selling'] = {
+            ...(options.minPrice !== undefined && { $gte: options.minPrice }),
+            ...(options.maxPrice !== undefined && { $lte: options.maxPrice })
+        }
+    }
+    
+    if (options.inStock) {
+        conditions.push(availableFilter())
+    }
+    
+    if (options.stockLevel) {
+        conditions.push(stockLevelFilter(options.stockLevel))
+    }
+    
+    if (conditions.length > 0) {
+        filter.$and = conditions
+    }
+    
+    // Queries of only punctuation or stop words search for nothing, so list everything
+    const isSearch = !!options.search && tokenize(options.search).length > 0
+    const sort = options.sort && options.sort !== 'relevance'
+        ? options.sort
+        : isSearch ? 'relevance' : 'newest'
+    
+    const { ObjectId } = await import('mongodb')
+    const hits = isSearch ? (await getProductSearchIndex()).search(options.search!) : []
+    
+    if (isSearch) {
+        filter._id = { $in: hits.map(hit => new ObjectId(hit.id)) }
+    }
+    
+    let products: WithId<Product>[]
+    let total = 0
+    let cursors: CursorPageInfo = { nextCursor: null, prevCursor: null }
+    
+    if (sort === 'relevance') {
+        // The index ranks; the database applies the other filters
+        const matching = await collection.find(filter, { projection: { _id: 1 } }).toArray()
+        const matchingIds = new Set(matching.map(product => product._id.toHexString()))
+        const ranked = hits
+            .filter(hit => matchingIds.has(hit.id))
+            .sort((a, b) => b.score - a.score || (a.id < b.id ? 1 : -1))
+        
+        let pageHits = ranked.slice(skip, skip + limit)
+        
+        if (isCursorPage) {
+            let rows = direction === 'next' ? ranked : [...ranked].reverse()
+            if (options.cursor) {
+                const [score, id] = decodeCursor(RELEVANCE_ORDER, options.cursor) as [number, string]
+                const isAfter = (hit: { score: number; id: string }) =>
+                    hit.score < score || (hit.score === score && hit.id < id)
+                const isBefore = (hit: { score: number; id: string }) =>
+                    hit.score > score || (hit.score === score && hit.id > id)
+                rows = rows.filter(direction === 'next' ? isAfter : isBefore)
+            }
+            const cursorPage = toCursorPage(rows.slice(0, limit + 1), RELEVANCE_ORDER, { ...options, limit })
+            pageHits = cursorPage.items
+            cursors = cursorPage
+        }
+        
+        const pageProducts = await collection
+            .find({ _id: { $in: pageHits.map(hit => new ObjectId(hit.id)) } })
+            .toArray()
+        const byId = new Map(pageProducts.map(product => [product._id.toHexString(), product]))
+        
+        products = pageHits.flatMap(hit => byId.get(hit.id) ?? [])
+        total = ranked.length
+    } else {
+        const order = sort === 'best_selling' ? BEST_SELLING_ORDER : SORT_ORDERS[sort]
+        
+        // Read a slice of the listing, optionally starting past a cursor
+        const read = async (keyset: Record<string, unknown> | null, readSort: CursorSort, from: number, count: number) => {
+            if (sort !== 'best_selling') {
+                return await collection
+                    .find(keyset ? { $and: [filter, keyset] } : filter)
+                    .sort(readSort)
+                    .collation({ locale: 'en' })
+                    .skip(from)
+                    .limit(count)
+                    .toArray()
+            }
+            return await collection.aggregate<WithId<Product>>([
+                { $match: filter },
+                ...unitsSoldStages(),
+                ...(keyset ? [{ $match: keyset }] : []),
+                { $sort: readSort },
+                { $skip: from },
+                { $limit: count }
+            ]).toArray()
+        }
+        
+        if (isCursorPage) {
+            const keyset = options.cursor ? keysetFilter(order, options.cursor, direction) : null
+            const rows = await read(keyset, readOrder(order, direction), 0, limit + 1)
+            const cursorPage = toCursorPage(rows, order, { ...options, limit })
+            products = cursorPage.items
+            cursors = cursorPage
+        } else {
+            [products, total] = await Promise.all([
+                read(null, order, skip, limit),
+                collection.countDocuments(filter)
+            ])
+        }
+        
+        if (sort === 'best_selling') {
+            // Units sold only placed products in order; they are not part of the product
+            products = products.map(({ unitsSold: _unitsSold, ...product }: WithId<Product> & { unitsSold?: number }) => product)
+        }
+    }
+    
+    const highlights = new Map(hits.map(hit => [hit.id, hit.highlight]))
+    const extras = {
+        ...(isSearch && {
+            highlights: Object.fromEntries(products.map(product => {
+                const id = product._id.toHexString()
+                return [id, highlights.get(id)!]
+            }))
+        }),
+        ...(options.facets && { facets: await getProductFacets(filter) })
     }
     
-    const [products, total] = await Promise.all([
-        collection
-            .find(filter)
-            .sort({ createdAt: -1 })
-            .skip(skip)
-            .limit(limit)
-            .toArray(),
-        collection.countDocuments(filter)
-    ])
+    if (isCursorPage) {
+        return { products, limit, ...cursors, ...extras }
+    }
     
     return {
         products,
         total,
         page,
         limit,
-        totalPages: Math.ceil(total / limit)
+        totalPages: Math.ceil(total / limit),
+        ...extras
+    }
+}
+
+/**
+ * Aggregation stages adding the units of each product sold by orders that were not cancelled
+ */
+function unitsSoldStages() {
+    return [
+        { $addFields: { productKey: { $toString: '$_id' } } },
+        {
+            $lookup: {
+                from: 'orders',
+                localField: 'productKey',
+                foreignField: 'items.productId',
+                pipeline: [
+                    { $match: { status: { $ne: 'cancelled' } } },
+                    { $project: { items: 1 } }
+                ],
+                as: 'orders'
+            }
+        },
+        {
+            $addFields: {
+                unitsSold: {
+                    $sum: {
+                        $map: {
+                            input: '$orders',
+                            as: 'order',
+                            in: {
+                                $sum: {
+                                    $map: {
+                                        input: {
+                                            $filter: {
+                                                input: '$$order.items',
+                                                as: 'item',
+                                                cond: { $eq: ['$$item.productId', '$productKey'] }
+                                            }
+                                        },
+                                        as: 'item',
+                                        in: '$$item.quantity'
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        },
+        { $project: { productKey: 0, orders: 0 } }
+    ]
+}
+
+/**
+ * Count the products matching a filter by price band, supplier, category and availability
+ */
+async function getProductFacets(filter: Record<string, unknown>): Promise<ProductFacets> {
+    const collection = await getProductCollection()
+    
+    const [result] = await collection.aggregate<{
+        priceBands: Array<{ _id: number | 'top'; count: number }>
+        suppliers: Array<{ _id: string; count: number }>
+        categories: Array<{ _id: string; count: number }>
+        inStock: Array<{ count: number }>
+        total: Array<{ count: number }>
+    }>([
+        { $match: filter },
+        {
+            $facet: {
+                priceBands: [
+                    {
+                        $bucket: {
+                            groupBy: '$pricing.selling',
+                            boundaries: PRICE_BANDS,
+                            default: 'top',
+                            output: { count: { $sum: 1 } }
+                        }
+                    }
+                ],
+                suppliers: [
+                    { $group: { _id: '$supplierId', count: { $sum: 1 } } },
+                    { $sort: { count: -1 } },
+                    { $limit: 20 }
+                ],
+                categories: [
+                    { $match: { categoryId: { $exists: true } } },
+                    { $group: { _id: '$categoryId', count: { $sum: 1 } } }
+                ],
+                inStock: [
+                    { $match: availableFilter() },
+                    { $count: 'count' }
+                ],
+                total: [
+                    { $count: 'count' }
+                ]
+            }
+        }
+    ]).toArray()
+    
+    const supplierNames = await getUserNames(result.suppliers.map(supplier => supplier._id))
+    
+    return {
+        priceBands: result.priceBands.map(band => {
+            // The top band also catches anything the boundaries miss
+            const index = band._id === 'top' ? PRICE_BANDS.length - 1 : PRICE_BANDS.indexOf(band._id)
+            return {
+                min: PRICE_BANDS[index],
+                max: band._id === 'top' ? null : PRICE_BANDS[index + 1],
+                count: band.count
+            }
+        }),
+        suppliers: result.suppliers.map(supplier => ({
+            value: supplier._id,
+            label: supplierNames.get(supplier._id),
+            count: supplier.count
+        })),
+        categories: result.categories.map(category => ({ value: category._id, count: category.count })),
+        inStock: result.inStock[0]?.count ?? 0,
+        total: result.total[0]?.count ?? 0
     }
 }
 
 /**
  * Update a product by ID
+ * Setting the quantity records the difference as an adjustment in the inventory ledger
+ * Products with variants take prices and stock through their variants: either the full
+ * list in variants, or a quantity for the one named by variantId
+ * Customers with alerts on the product are told once it is back in stock or cheaper
  */
 export async function updateProduct(
     productId: string,
-    input: UpdateProductInput
+    input: UpdateProductInput,
+    actor: StatusActor
 ): Promise<WithId<Product> | null> {
-    const collection = await getProductCollection()
     const { ObjectId } = await import('mongodb')
     
     let objectId: ObjectId
@@ -316,6 +1073,11 @@ export async function updateProduct(
         updateFields.description = input.description
     }
     
+    if (input.categoryId) {
+        await assertCategoryExists(input.categoryId)
+        updateFields.categoryId = input.categoryId
+    }
+    
     if (input.costPrice !== undefined) {
         updateFields['pricing.cost'] = input.costPrice
     }
@@ -328,6 +1090,10 @@ export async function updateProduct(
         updateFields['inventory.onHand'] = input.quantity
     }
     
+    if (input.reorderThreshold !== undefined) {
+        updateFields['inventory.reorderThreshold'] = input.reorderThreshold
+    }
+    
     if (input.images !== undefined) {
         updateFields['images.original'] = input.images
     }
@@ -338,14 +1104,161 @@ export async function updateProduct(
     
     if (input.status !== undefined) {
         updateFields.status = input.status
+        if (input.status === 'pending_review') {
+            updateFields.submittedForReviewAt = new Date()
+        }
     }
     
-    await collection.updateOne(
-        { _id: objectId },
-        { $set: updateFields }
-    )
+    const changesVariants = input.variants !== undefined || input.variantId !== undefined
     
-    return await collection.findOne({ _id: objectId })
+    const client = await clientPromise
+    const session = client.startSession()
+    let before: WithId<Product> | null = null
+    
+    try {
+        await session.withTransaction(async () => {
+            const db = client.db()
+            const products = db.collection<Product>('products')
+            
+            const update: Record<string, Record<string, unknown>> = { $set: updateFields }
+            const movements: NewInventoryMovement[] = []
+            let arrayFilters: Array<Record<string, string>> | undefined
+            
+            if (changesVariants) {
+                const current = await products.findOne({ _id: objectId }, { session })
+                if (!current) {
+                    return
+                }
+                
+                if (input.variants !== undefined) {
+                    movements.push(...await replaceVariants(current, productId, input, update))
+                } else if (input.quantity !== undefined) {
+                    const variant = current.variants?.find(v => v.id === input.variantId)
+                    if (!variant) {
+                        throw new Error('Variant not found')
+                    }
+                    
+                    const delta = input.quantity - variant.inventory.onHand
+                    delete updateFields['inventory.onHand']
+                    updateFields['variants.$[variant].inventory.onHand'] = input.quantity
+                    update.$inc = { 'inventory.onHand': delta }
+                    arrayFilters = variantArrayFilters(variant.id)
+                    movements.push({ productId, variantId: variant.id, type: 'adjustment', delta })
+                }
+            }
+            
+            if (input.categoryId === null) {
+                update.$unset = { ...update.$unset, categoryId: '' }
+            }
+            
+            const previous = await products.findOneAndUpdate(
+                { _id: objectId },
+                update,
+                { returnDocument: 'before', session, arrayFilters }
+            )
+            before = previous
+            
+            if (previous && !changesVariants && previous.variants?.length) {
+                if (input.quantity !== undefined || input.costPrice !== undefined || input.sellingPrice !== undefined) {
+                    throw new Error('Set prices and stock on each variant of this product')
+                }
+            }
+            
+            if (previous && !changesVariants && input.quantity !== undefined) {
+                movements.push({
+                    productId,
+                    type: 'adjustment',
+                    delta: input.quantity - previous.inventory.onHand
+                })
+            }
+            
+            await recordMovements(db, movements, actor, session)
+        })
+    } finally {
+        await session.endSession()
+    }
+    
+    invalidateProductSearchIndex()
+    
+    const collection = await getProductCollection()
+    const updated = await collection.findOne({ _id: objectId })
+    
+    // Tell customers waiting for a restock or a lower price; a failed delivery must not fail the update
+    if (before && updated) {
+        try {
+            const { dispatchProductAlerts } = await import('./product-alert-utils')
+            await dispatchProductAlerts(before, updated)
+        } catch (error) {
+            console.error('Failed to dispatch product alerts:', error)
+        }
+    }
+    
+    return updated
+}
+
+/**
+ * Add the changes replacing a product's variants to an update, returning the stock movements
+ * An empty list removes the options and variants, leaving the product with their total stock
+ */
+async function replaceVariants(
+    current: Product,
+    productId: string,
+    input: UpdateProductInput,
+    update: Record<string, Record<string, unknown>>
+): Promise<NewInventoryMovement[]> {
+    const previous = current.variants || []
+    const inputs = input.variants || []
+    
+    if (inputs.length === 0) {
+        if (previous.some(variant => (variant.inventory.reserved || 0) > 0)) {
+            throw new Error('This product is being checked out and its options cannot be removed yet')
+        }
+        update.$unset = { options: '', variants: '' }
+        return input.quantity !== undefined
+            ? [{ productId, type: 'adjustment', delta: input.quantity - current.inventory.onHand }]
+            : []
+    }
+    
+    if (previous.length === 0 && (current.inventory.reserved || 0) > 0) {
+        throw new Error('This product is being checked out and cannot be given options yet')
+    }
+    
+    const variants = await buildVariants(input.options ?? current.options ?? [], inputs, previous)
+    const summary = summarizeVariants(variants)
+    
+    // Variant prices and stock replace whatever was sent for the product itself
+    delete update.$set['pricing.cost']
+    delete update.$set['pricing.selling']
+    Object.assign(update.$set, {
+        options: input.options ?? current.options,
+        variants,
+        pricing: summary.pricing,
+        'inventory.onHand': summary.onHand,
+        'inventory.reserved': summary.reserved
+    })
+    
+    const movements: NewInventoryMovement[] = []
+    
+    // Stock the product held before it had variants now lives on them
+    if (previous.length === 0) {
+        movements.push({ productId, type: 'adjustment', delta: -current.inventory.onHand })
+    }
+    
+    const previousById = new Map(previous.map(variant => [variant.id, variant]))
+    for (const variant of variants) {
+        movements.push({
+            productId,
+            variantId: variant.id,
+            type: 'adjustment',
+            delta: variant.inventory.onHand - (previousById.get(variant.id)?.inventory.onHand || 0)
+        })
+        previousById.delete(variant.id)
+    }
+    for (const removed of previousById.values()) {
+        movements.push({ productId, variantId: removed.id, type: 'adjustment', delta: -removed.inventory.onHand })
+    }
+    
+    return movements
 }
 
 /**
@@ -357,6 +1270,7 @@ export async function deleteProduct(productId: string): Promise<boolean> {
     
     try {
         const result = await collection.deleteOne({ _id: new ObjectId(productId) })
+        invalidateProductSearchIndex()
         return result.deletedCount > 0
     } catch {
         return false
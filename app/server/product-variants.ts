@@ -0,0 +1,103 @@
+import type { ProductOption } from './product-utils'
+
+// Product variant rules shared by the server and the UI, with no database access
+// so client components can import them
+
+export const MAX_PRODUCT_OPTIONS = 3
+
+/**
+ * Key identifying what a cart or order line buys: a product, or one variant of it
+ */
+export function getLineKey(productId: string, variantId?: string): string {
+    return variantId ? `${productId}:${variantId}` : productId
+}
+
+/**
+ * Human-readable label for a variant's option values, e.g. "Glaze: Celadon / Size: Large"
+ */
+export function describeVariant(options: Record<string, string>): string {
+    return Object.entries(options)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join(' / ')
+}
+
+/**
+ * Every combination of option values, in option order
+ */
+export function combineOptions(options: ProductOption[]): Record<string, string>[] {
+    return options.reduce<Record<string, string>[]>(
+        (combinations, option) => combinations.flatMap(combination =>
+            option.values.map(value => ({ ...combination, [option.name]: value }))
+        ),
+        [{}]
+    )
+}
+
+/**
+ * Find the variant matching a selection of option values
+ */
+export function findVariant<T extends { options: Record<string, string> }>(
+    variants: T[],
+    selection: Record<string, string>
+): T | undefined {
+    return variants.find(variant =>
+        Object.entries(variant.options).every(([name, value]) => selection[name] === value)
+    )
+}
+
+/**
+ * Check that options and variants fit together
+ * Returns a message describing the first problem, or null when they are valid
+ */
+export function validateVariants(
+    options: ProductOption[],
+    variants: Array<{ sku: string; options: Record<string, string> }>
+): string | null {
+    if (options.length === 0 || options.length > MAX_PRODUCT_OPTIONS) {
+        return `Products can have between 1 and ${MAX_PRODUCT_OPTIONS} options`
+    }
+
+    const names = options.map(option => option.name.trim())
+    if (names.some(name => !name) || new Set(names).size !== names.length) {
+        return 'Every option needs a unique name'
+    }
+
+    for (const option of options) {
+        const values = option.values.map(value => value.trim())
+        if (values.length === 0 || values.some(value => !value) || new Set(values).size !== values.length) {
+            return `Option ${option.name} needs unique, non-empty values`
+        }
+    }
+
+    if (variants.length === 0) {
+        return 'Add at least one variant'
+    }
+
+    const skus = new Set<string>()
+    const combinations = new Set<string>()
+
+    for (const variant of variants) {
+        const sku = variant.sku.trim()
+        if (!sku || skus.has(sku)) {
+            return 'Every variant needs a unique SKU'
+        }
+        skus.add(sku)
+
+        if (Object.keys(variant.options).length !== options.length) {
+            return `Variant ${sku} must choose a value for every option`
+        }
+        for (const option of options) {
+            if (!option.values.includes(variant.options[option.name])) {
+                return `Variant ${sku} must choose a value for every option`
+            }
+        }
+
+        const combination = options.map(option => variant.options[option.name]).join('\u0000')
+        if (combinations.has(combination)) {
+            return `More than one variant is ${describeVariant(variant.options)}`
+        }
+        combinations.add(combination)
+    }
+
+    return null
+}
@@ -16,17 +16,27 @@ const mockProductCollection = {
         })),
     })),
     insertOne: vi.fn(),
+    insertMany: vi.fn(),
     updateOne: vi.fn(),
     deleteOne: vi.fn(),
     countDocuments: vi.fn(),
+    aggregate: vi.fn(),
 }
 
 const mockDb = {
     collection: vi.fn(() => mockProductCollection),
 }
 
+const mockSession = {
+    withTransaction: vi.fn(async (callback: () => Promise<void>) => {
+        await callback()
+    }),
+    endSession: vi.fn(),
+}
+
 const mockClientPromise = Promise.resolve({
     db: () => mockDb,
+    startSession: () => mockSession,
 })
 
 // Mock mongo client
@@ -159,6 +169,47 @@ describe('Product Utility Functions', () => {
             expect(publicProduct.images.original).toHaveLength(2)
             expect(publicProduct.status).toBe('draft')
         })
+
+        it('should expose reserved and available stock', async () => {
+            const { stripCostField } = await import('./product-utils')
+            
+            const product = {
+                _id: new ObjectId(),
+                supplierId: 'supplier-123',
+                name: 'Test Product',
+                description: 'Test Description',
+                pricing: { cost: 25, selling: 50 },
+                inventory: { onHand: 10, reserved: 4 },
+                images: { original: [], enhanced: [] },
+                status: 'active' as const,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            }
+            
+            expect(stripCostField(product).inventory).toEqual({
+                onHand: 10,
+                reserved: 4,
+                available: 6,
+                reorderThreshold: 5,
+                stockLevel: 'in_stock',
+            })
+            
+            // Stock lowered below what is held never shows as negative
+            product.inventory = { onHand: 2, reserved: 4 }
+            expect(stripCostField(product).inventory.available).toBe(0)
+        })
+
+        it('should classify stock against the reorder threshold', async () => {
+            const { getInventoryLevels } = await import('./product-utils')
+            
+            expect(getInventoryLevels({ onHand: 6 }).stockLevel).toBe('in_stock')
+            expect(getInventoryLevels({ onHand: 5 }).stockLevel).toBe('low_stock')
+            expect(getInventoryLevels({ onHand: 0 }).stockLevel).toBe('out_of_stock')
+            expect(getInventoryLevels({ onHand: 12, reorderThreshold: 12 })).toMatchObject({
+                reorderThreshold: 12,
+                stockLevel: 'low_stock',
+            })
+        })
     })
 
     describe('createProduct', () => {
@@ -221,6 +272,120 @@ describe('Product Utility Functions', () => {
             expect(result.images.original).toEqual(['original.jpg'])
             expect(result.images.enhanced).toEqual([])
         })
+
+        it('should take prices and stock from variants and restock each one', async () => {
+            const insertedId = new ObjectId()
+            mockProductCollection.insertOne.mockResolvedValueOnce({ insertedId })
+            
+            const { createProduct } = await import('./product-utils')
+            
+            const result = await createProduct('supplier-123', {
+                name: 'Glazed Mug',
+                description: 'Product description',
+                costPrice: 0,
+                sellingPrice: 0,
+                quantity: 0,
+                options: [{ name: 'Glaze', values: ['Celadon', 'Tenmoku'] }],
+                variants: [
+                    { sku: 'MUG-CEL', options: { Glaze: 'Celadon' }, costPrice: 10, sellingPrice: 28, quantity: 4 },
+                    { sku: 'MUG-TEN', options: { Glaze: 'Tenmoku' }, costPrice: 12, sellingPrice: 32, quantity: 6 },
+                ],
+            })
+            
+            expect(result.pricing).toEqual({ cost: 10, selling: 28 })
+            expect(result.inventory.onHand).toBe(10)
+            expect(result.variants).toHaveLength(2)
+            expect(result.variants![0].id).toEqual(expect.any(String))
+            
+            const [movements] = mockProductCollection.insertMany.mock.calls[0]
+            expect(movements).toEqual([
+                expect.objectContaining({ variantId: result.variants![0].id, type: 'restock', delta: 4 }),
+                expect.objectContaining({ variantId: result.variants![1].id, type: 'restock', delta: 6 }),
+            ])
+        })
+
+        it('should reject variants that do not match the options', async () => {
+            const { createProduct } = await import('./product-utils')
+            
+            await expect(createProduct('supplier-123', {
+                name: 'Glazed Mug',
+                description: 'Product description',
+                costPrice: 0,
+                sellingPrice: 0,
+                quantity: 0,
+                options: [{ name: 'Glaze', values: ['Celadon'] }],
+                variants: [
+                    { sku: 'MUG-1', options: { Glaze: 'Celadon' }, costPrice: 10, sellingPrice: 28, quantity: 4 },
+                    { sku: 'MUG-2', options: { Glaze: 'Celadon' }, costPrice: 10, sellingPrice: 28, quantity: 2 },
+                ],
+            })).rejects.toThrow('More than one variant is Glaze: Celadon')
+            
+            expect(mockProductCollection.insertOne).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('resolveVariant', () => {
+        const product = {
+            name: 'Glazed Mug',
+            pricing: { cost: 10, selling: 28 },
+            inventory: { onHand: 4 },
+            variants: [{
+                id: 'var-1',
+                sku: 'MUG-CEL',
+                options: { Glaze: 'Celadon' },
+                pricing: { cost: 10, selling: 28 },
+                inventory: { onHand: 4 },
+                images: [],
+            }],
+        } as any
+
+        it('should use the chosen variant', async () => {
+            const { resolveVariant } = await import('./product-utils')
+            
+            expect(resolveVariant(product, 'var-1').variant?.sku).toBe('MUG-CEL')
+        })
+
+        it('should require an option for products with variants', async () => {
+            const { resolveVariant } = await import('./product-utils')
+            
+            expect(() => resolveVariant(product)).toThrow('Choose an option for Glazed Mug')
+            expect(() => resolveVariant(product, 'var-2')).toThrow('Glazed Mug is no longer available in that option')
+        })
+    })
+
+    describe('changesStock and changesPricing', () => {
+        const product = {
+            name: 'Glazed Mug',
+            pricing: { cost: 10, selling: 28 },
+            inventory: { onHand: 4 },
+            variants: [{
+                id: 'var-1',
+                sku: 'MUG-CEL',
+                options: { Glaze: 'Celadon' },
+                pricing: { cost: 10, selling: 28 },
+                inventory: { onHand: 4 },
+                images: [],
+            }],
+        } as any
+        const variant = { id: 'var-1', sku: 'MUG-CEL', options: { Glaze: 'Celadon' }, costPrice: 10, sellingPrice: 28, quantity: 4 }
+        
+        it('should ignore listing edits that resend the same stock and prices', async () => {
+            const { changesStock, changesPricing } = await import('./product-utils')
+            const update = { name: 'Celadon Mug', variants: [variant] }
+            
+            expect(changesStock(product, update)).toBe(false)
+            expect(changesPricing(product, update)).toBe(false)
+        })
+        
+        it('should spot stock and price changes on variants', async () => {
+            const { changesStock, changesPricing } = await import('./product-utils')
+            
+            expect(changesStock(product, { quantity: 9, variantId: 'var-1' })).toBe(true)
+            expect(changesStock(product, { variants: [{ ...variant, quantity: 5 }] })).toBe(true)
+            expect(changesStock(product, { variants: [variant, { ...variant, id: undefined, sku: 'MUG-BLU', quantity: 0 }] })).toBe(true)
+            expect(changesPricing(product, { variants: [{ ...variant, sellingPrice: 30 }] })).toBe(true)
+            expect(changesPricing(product, { costPrice: 10 })).toBe(false)
+        })
     })
 
     describe('getProductById', () => {
@@ -513,6 +678,139 @@ describe('Product Status Filtering', () => {
     })
 })
 
+describe('Product List Sorting and Filters', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+    
+    const mockCursor = () => {
+        const cursor = {
+            sort: vi.fn().mockReturnThis(),
+            collation: vi.fn().mockReturnThis(),
+            skip: vi.fn().mockReturnThis(),
+            limit: vi.fn().mockReturnThis(),
+            toArray: vi.fn().mockResolvedValue([]),
+        }
+        mockProductCollection.find.mockReturnValueOnce(cursor as any)
+        mockProductCollection.countDocuments.mockResolvedValue(0)
+        return cursor
+    }
+    
+    it('should sort by price with the ID breaking ties', async () => {
+        const { getProductList } = await import('./product-utils')
+        const cursor = mockCursor()
+        
+        await getProductList({ sort: 'price_desc' })
+        
+        expect(cursor.sort).toHaveBeenCalledWith({ 'pricing.selling': -1, _id: -1 })
+    })
+    
+    it('should default to newest first without a search', async () => {
+        const { getProductList } = await import('./product-utils')
+        const cursor = mockCursor()
+        
+        await getProductList({ sort: 'relevance' })
+        
+        expect(cursor.sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 })
+    })
+    
+    it('should filter by price range and available stock', async () => {
+        const { getProductList } = await import('./product-utils')
+        mockCursor()
+        
+        await getProductList({ status: 'active', minPrice: 20, maxPrice: 80, inStock: true })
+        
+        expect(mockProductCollection.find).toHaveBeenCalledWith({
+            status: 'active',
+            'pricing.selling': { $gte: 20, $lte: 80 },
+            $and: [
+                { $expr: { $gt: ['$inventory.onHand', { $ifNull: ['$inventory.reserved', 0] }] } }
+            ]
+        })
+    })
+    
+    it('should rank best sellers by units sold in orders that were not cancelled', async () => {
+        const { getProductList } = await import('./product-utils')
+        mockProductCollection.aggregate.mockReturnValue({ toArray: vi.fn().mockResolvedValue([]) })
+        mockProductCollection.countDocuments.mockResolvedValue(0)
+        
+        await getProductList({ sort: 'best_selling', page: 2, limit: 10 })
+        
+        const [pipeline] = mockProductCollection.aggregate.mock.calls[0]
+        const lookup = pipeline.find((stage: any) => stage.$lookup)
+        expect(lookup.$lookup).toMatchObject({
+            from: 'orders',
+            foreignField: 'items.productId',
+            pipeline: [{ $match: { status: { $ne: 'cancelled' } } }, { $project: { items: 1 } }]
+        })
+        expect(pipeline).toContainEqual({ $sort: { unitsSold: -1, createdAt: -1, _id: -1 } })
+        expect(pipeline).toContainEqual({ $skip: 10 })
+        expect(pipeline).toContainEqual({ $limit: 10 })
+    })
+    
+    it('should page with cursors without counting the listing', async () => {
+        const { getProductList } = await import('./product-utils')
+        const { ObjectId } = await import('mongodb')
+        const cursor = mockCursor()
+        const products = [3, 2, 1].map(day => ({
+            _id: new ObjectId(),
+            name: `Product ${day}`,
+            createdAt: new Date(2024, 0, day)
+        }))
+        cursor.toArray.mockResolvedValue(products)
+        
+        const result = await getProductList({ pagination: 'cursor', limit: 2 })
+        
+        expect(result.products.map(product => product.name)).toEqual(['Product 3', 'Product 2'])
+        expect(result.nextCursor).toEqual(expect.any(String))
+        expect(result.prevCursor).toBeNull()
+        expect(result).not.toHaveProperty('total')
+        expect(cursor.limit).toHaveBeenCalledWith(3)
+        expect(mockProductCollection.countDocuments).not.toHaveBeenCalled()
+    })
+    
+    it('should read the page after a cursor', async () => {
+        const { getProductList } = await import('./product-utils')
+        const { encodeCursor } = await import('./cursor')
+        const { ObjectId } = await import('mongodb')
+        const last = { _id: new ObjectId(), createdAt: new Date(2024, 0, 2) }
+        const cursor = mockCursor()
+        cursor.toArray.mockResolvedValue([{ _id: new ObjectId(), createdAt: new Date(2024, 0, 1) }])
+        
+        const result = await getProductList({
+            pagination: 'cursor',
+            status: 'active',
+            cursor: encodeCursor({ createdAt: -1, _id: -1 }, last)
+        })
+        
+        expect(mockProductCollection.find).toHaveBeenCalledWith({
+            $and: [
+                { status: 'active' },
+                {
+                    $or: [
+                        { createdAt: { $lt: last.createdAt } },
+                        { createdAt: last.createdAt, _id: { $lt: last._id } }
+                    ]
+                }
+            ]
+        })
+        expect(result.prevCursor).toEqual(expect.any(String))
+        expect(result.nextCursor).toBeNull()
+    })
+    
+    it('should reject a cursor made for another sort order', async () => {
+        const { getProductList } = await import('./product-utils')
+        const { encodeCursor } = await import('./cursor')
+        mockCursor()
+        
+        const cursor = encodeCursor({ createdAt: -1, _id: -1 }, { createdAt: new Date(), _id: 'product-1' })
+        
+        await expect(getProductList({ pagination: 'cursor', sort: 'name', cursor }))
+            .rejects.toThrow('Invalid pagination cursor')
+    })
+})
+
 describe('Image Association Utility Functions', () => {
     beforeEach(() => {
         vi.clearAllMocks()
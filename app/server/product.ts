@@ -5,17 +5,28 @@ import type {
     UpdateProductInput,
     ImageType,
     ImageAssociationMode,
-    ProductStatus
+    ProductStatus,
+    ProductSort,
+    StockLevel
 } from './product-utils'
+import type { CursorOptions } from './cursor'
+import type { ReviewProductInput } from './product-review-utils'
 
 // --- Input Types for Server Functions ---
 
-interface GetProductsInput {
-    page?: number
+interface GetProductsInput extends CursorOptions {
+    page?: number            // Ignored when paging with cursors
     limit?: number
     status?: ProductStatus
     supplierId?: string
+    category?: string        // Category slug; includes its subcategories
     search?: string
+    sort?: ProductSort
+    minPrice?: number
+    maxPrice?: number
+    inStock?: boolean
+    stockLevel?: StockLevel  // Admin only
+    facets?: boolean         // Include facet counts for refining the listing
 }
 
 interface GetProductByIdInput {
@@ -48,6 +59,14 @@ interface UploadImageInput {
     content: string
 }
 
+interface ReviewProductServerInput extends ReviewProductInput {
+    productId: string
+}
+
+interface ResubmitProductInput {
+    productId: string
+}
+
 // --- Server Functions ---
 
 /**
@@ -57,11 +76,11 @@ interface UploadImageInput {
 export const uploadProductImageFn = createServerFn({ method: "POST" })
     .inputValidator((data: UploadImageInput) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
+        const { requirePermission } = await import('./auth-utils')
         const { bucket } = await import('./firebase/admin')
         
-        // Only suppliers and admins can upload
-        await requireRole(['supplier', 'admin'])
+        // Only users who can edit products can upload their images
+        await requirePermission('product:update')
         
         const buffer = Buffer.from(data.content, 'base64')
         // Sanitize filename
@@ -88,24 +107,29 @@ export const uploadProductImageFn = createServerFn({ method: "POST" })
 export const createProductFn = createServerFn({ method: "POST" })
     .inputValidator((data: CreateProductInput) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
+        const { requirePermission, actorRole } = await import('./auth-utils')
+        const { can } = await import('../utils/rbac')
         const { createProduct, stripCostField, toSerializable } = await import('./product-utils')
+        const { notifyReviewRequested } = await import('./notification-utils')
         
-        // Only suppliers and admins can create products
-        const user = await requireRole(['supplier', 'admin'])
+        const user = await requirePermission('product:create')
 
-        // Enforce review workflow for non-admins
-        if (user.role !== 'admin') {
-            // Suppliers cannot create active products directly
-            if (data.status === 'active') {
-                data.status = 'pending_review'
-            }
+        // Enforce review workflow: only users who can activate products may create them live
+        if (!can(user, 'product:activate') && data.status === 'active') {
+            data.status = 'pending_review'
         }
         
-        const product = await createProduct(user.id, data)
+        const product = await createProduct(user.id, data, {
+            id: user.id,
+            role: actorRole(user)
+        })
         
-        // Admin sees full product (serialized), others see filtered (already serializable)
-        if (user.role === 'admin') {
+        if (product.status === 'pending_review') {
+            await notifyReviewRequested(product)
+        }
+        
+        // Users who can see costs get the full product (serialized), others see filtered
+        if (can(user, 'pricing:viewCost')) {
             return { product: toSerializable(product), success: true }
         }
         
@@ -120,32 +144,63 @@ export const getProductsFn = createServerFn({ method: "GET" })
     .inputValidator((data: GetProductsInput) => data)
     .handler(async ({ data }) => {
         const { getAuthSession } = await import('./auth-utils')
+        const { can } = await import('../utils/rbac')
         const { getProductList, stripCostField, toSerializable } = await import('./product-utils')
+        const { getMakerSummaries } = await import('./supplier-utils')
         
         const session = await getAuthSession()
-        const isAdmin = session?.user?.role === 'admin'
+        const canViewUnpublished = can(session?.user, 'product:viewUnpublished')
+        const canViewCost = can(session?.user, 'pricing:viewCost')
+        
+        let categoryId: string | undefined
+        if (data.category) {
+            const { getCategoryBySlug } = await import('./category-utils')
+            const category = await getCategoryBySlug(data.category)
+            if (!category) {
+                const limit = data.limit || 20
+                return data.pagination === 'cursor'
+                    ? { products: [], limit, nextCursor: null, prevCursor: null, makers: {} }
+                    : { products: [], total: 0, page: 1, limit, totalPages: 0, makers: {} }
+            }
+            categoryId = category._id.toHexString()
+        }
         
         const result = await getProductList({
             page: data.page,
             limit: data.limit,
+            pagination: data.pagination,
+            cursor: data.cursor,
+            direction: data.direction,
             // Security: Public API defaults to ONLY active products if not specified
-            // And NON-ADMINS can ONLY see active products
-            status: isAdmin ? (data.status || 'active') : 'active',
+            // And only catalogue staff can see products that are not live
+            status: canViewUnpublished ? (data.status || 'active') : 'active',
             supplierId: data.supplierId,
-            search: data.search
+            categoryId,
+            search: data.search,
+            sort: data.sort,
+            minPrice: data.minPrice,
+            maxPrice: data.maxPrice,
+            inStock: data.inStock,
+            stockLevel: canViewUnpublished ? data.stockLevel : undefined,
+            facets: data.facets
         })
         
-        // Strip cost field for non-admin users, serialize for admin
-        if (!isAdmin) {
+        // Who made each product, for the maker links on product cards
+        const makers = Object.fromEntries(await getMakerSummaries(result.products.map(product => product.supplierId)))
+        
+        // Strip cost field unless the user can see costs
+        if (!canViewCost) {
             return {
                 ...result,
-                products: result.products.map(stripCostField)
+                products: result.products.map(stripCostField),
+                makers
             }
         }
         
         return {
             ...result,
-            products: result.products.map(toSerializable)
+            products: result.products.map(toSerializable),
+            makers
         }
     })
 
@@ -157,7 +212,9 @@ export const getProductByIdFn = createServerFn({ method: "GET" })
     .inputValidator((data: GetProductByIdInput) => data)
     .handler(async ({ data }) => {
         const { getAuthSession } = await import('./auth-utils')
+        const { can } = await import('../utils/rbac')
         const { getProductById, stripCostField, toSerializable } = await import('./product-utils')
+        const { getMakerSummaries } = await import('./supplier-utils')
         
         const product = await getProductById(data.productId)
         
@@ -166,14 +223,16 @@ export const getProductByIdFn = createServerFn({ method: "GET" })
         }
         
         const session = await getAuthSession()
-        const isAdmin = session?.user?.role === 'admin'
         
-        // Strip cost field for non-admin users, serialize for admin
-        if (!isAdmin) {
-            return { product: stripCostField(product) }
+        const makers = await getMakerSummaries([product.supplierId])
+        const maker = makers.get(product.supplierId) ?? null
+        
+        // Strip cost field unless the user can see costs
+        if (!can(session?.user, 'pricing:viewCost')) {
+            return { product: stripCostField(product), maker }
         }
         
-        return { product: toSerializable(product) }
+        return { product: toSerializable(product), maker }
     })
 
 /**
@@ -182,11 +241,14 @@ export const getProductByIdFn = createServerFn({ method: "GET" })
 export const updateProductFn = createServerFn({ method: "POST" })
     .inputValidator((data: UpdateProductServerInput) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
-        const { getProductById, updateProduct, isProductOwner, stripCostField, toSerializable } = await import('./product-utils')
+        const { requirePermission, assertPermission, actorRole } = await import('./auth-utils')
+        const { can } = await import('../utils/rbac')
+        const { getProductById, updateProduct, changesStock, changesPricing, stripCostField, toSerializable } = await import('./product-utils')
+        const { recordAuditEvent, diffSnapshots, productPriceSnapshot } = await import('./audit-utils')
+        const { changesListingContent } = await import('./product-review-utils')
+        const { notifyReviewRequested } = await import('./notification-utils')
         
-        // Only suppliers and admins can update products
-        const user = await requireRole(['supplier', 'admin'])
+        const user = await requirePermission('product:update')
         
         const { productId, ...updateData } = data
         
@@ -196,27 +258,67 @@ export const updateProductFn = createServerFn({ method: "POST" })
             throw new Error('Product not found')
         }
         
-        // Check authorization: admin can update any, supplier only their own
-        if (user.role !== 'admin') {
-            const isOwner = await isProductOwner(productId, user.id)
-            if (!isOwner) {
-                throw new Error('Access denied: You can only modify your own products')
-            }
+        // Suppliers can only update their own products
+        assertPermission(user, 'product:update', { ownerId: existingProduct.supplierId },
+            'Access denied: You can only modify your own products')
+        
+        // Editing a listing does not extend to its stock and prices, e.g. for catalogue reviewers
+        if (changesStock(existingProduct, updateData)) {
+            assertPermission(user, 'inventory:adjust', { ownerId: existingProduct.supplierId },
+                'Access denied: You cannot change the stock of this product')
+        }
+        if (changesPricing(existingProduct, updateData)) {
+            assertPermission(user, 'pricing:update', { ownerId: existingProduct.supplierId },
+                'Access denied: You cannot change the prices of this product')
+        }
 
-            // Suppliers cannot set status to active directly
-            if (updateData.status === 'active') {
-                throw new Error('Permission denied: Only admins can activate products. Please set status to "pending_review" for approval.')
-            }
+        // Products go live through review
+        if (updateData.status === 'active' && !can(user, 'product:activate')) {
+            throw new Error('Permission denied: Only admins can activate products. Please set status to "pending_review" for approval.')
+        }
+        
+        // Live products go back through review when a supplier changes what customers see
+        if (existingProduct.status === 'active' && !can(user, 'product:activate')
+            && changesListingContent(existingProduct, updateData)) {
+            updateData.status = 'pending_review'
         }
         
-        const updatedProduct = await updateProduct(productId, updateData)
+        const updatedProduct = await updateProduct(productId, updateData, {
+            id: user.id,
+            role: actorRole(user)
+        })
         
         if (!updatedProduct) {
             throw new Error('Failed to update product')
         }
         
-        // Admin sees full product (serialized), others see filtered (already serializable)
-        if (user.role === 'admin') {
+        // Status and price changes are kept in the audit log
+        if (updatedProduct.status !== existingProduct.status) {
+            await recordAuditEvent({
+                actor: user,
+                action: 'product.status_changed',
+                targetType: 'product',
+                targetId: productId,
+                changes: [{ field: 'status', before: existingProduct.status, after: updatedProduct.status }]
+            })
+            
+            if (updatedProduct.status === 'pending_review') {
+                await notifyReviewRequested(updatedProduct)
+            }
+        }
+        const priceChanges = diffSnapshots(productPriceSnapshot(existingProduct), productPriceSnapshot(updatedProduct))
+        if (priceChanges.length > 0) {
+            await recordAuditEvent({
+                actor: user,
+                action: 'product.price_changed',
+                targetType: 'product',
+                targetId: productId,
+                changes: priceChanges
+            })
+        }
+        
+        // Users who can see costs get the full product (serialized), others see filtered
+        if (can(user, 'pricing:viewCost')) {
             return { product: toSerializable(updatedProduct), success: true }
         }
         
@@ -229,11 +331,11 @@ export const updateProductFn = createServerFn({ method: "POST" })
 export const deleteProductFn = createServerFn({ method: "POST" })
     .inputValidator((data: DeleteProductInput) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
-        const { getProductById, deleteProduct, isProductOwner } = await import('./product-utils')
+        const { requirePermission, assertPermission } = await import('./auth-utils')
+        const { getProductById, deleteProduct } = await import('./product-utils')
+        const { recordAuditEvent, diffSnapshots } = await import('./audit-utils')
         
-        // Only suppliers and admins can delete products
-        const user = await requireRole(['supplier', 'admin'])
+        const user = await requirePermission('product:delete')
         
         // Check if product exists
         const existingProduct = await getProductById(data.productId)
@@ -241,13 +343,9 @@ export const deleteProductFn = createServerFn({ method: "POST" })
             throw new Error('Product not found')
         }
         
-        // Check authorization: admin can delete any, supplier only their own
-        if (user.role !== 'admin') {
-            const isOwner = await isProductOwner(data.productId, user.id)
-            if (!isOwner) {
-                throw new Error('Access denied: You can only delete your own products')
-            }
-        }
+        // Suppliers can only delete their own products
+        assertPermission(user, 'product:delete', { ownerId: existingProduct.supplierId },
+            'Access denied: You can only delete your own products')
         
         const deleted = await deleteProduct(data.productId)
         
@@ -255,6 +353,20 @@ export const deleteProductFn = createServerFn({ method: "POST" })
             throw new Error('Failed to delete product')
         }
         
+        // Keep enough of the product in the audit log to tell what was removed
+        await recordAuditEvent({
+            actor: user,
+            action: 'product.deleted',
+            targetType: 'product',
+            targetId: data.productId,
+            changes: diffSnapshots({
+                name: existingProduct.name,
+                supplierId: existingProduct.supplierId,
+                status: existingProduct.status,
+                'pricing.selling': existingProduct.pricing.selling
+            }, {})
+        })
+        
         return { success: true, message: 'Product deleted successfully' }
     })
 
@@ -262,13 +374,13 @@ export const deleteProductFn = createServerFn({ method: "POST" })
  * Get products for the current supplier (Supplier only)
  */
 export const getMyProductsFn = createServerFn({ method: "GET" })
-    .inputValidator((data: Omit<GetProductsInput, 'supplierId'>) => data)
+    .inputValidator((data: Omit<GetProductsInput, 'supplierId' | keyof CursorOptions>) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
+        const { requirePermission } = await import('./auth-utils')
         const { getProductList, toSerializable } = await import('./product-utils')
         
         // Only suppliers can access their own products list
-        const user = await requireRole(['supplier'])
+        const user = await requirePermission('supplier:portal')
         
         const result = await getProductList({
             page: data.page,
@@ -293,18 +405,18 @@ export const getMyProductsFn = createServerFn({ method: "GET" })
 export const associateImageFn = createServerFn({ method: "POST" })
     .inputValidator((data: AssociateImageInput) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
+        const { requirePermission, assertPermission } = await import('./auth-utils')
+        const { can } = await import('../utils/rbac')
         const { 
             getProductById, 
             associateImages, 
-            isProductOwner, 
             validateFirebaseStorageUrl,
-            stripCostField, 
-            toSerializable 
+            stripCostField
         } = await import('./product-utils')
+        const { returnToReview } = await import('./product-review-utils')
+        const { recordAuditEvent } = await import('./audit-utils')
         
-        // Only suppliers and admins can associate images
-        const user = await requireRole(['supplier', 'admin'])
+        const user = await requirePermission('product:update')
         
         const { productId, imageUrls, imageType, mode } = data
         
@@ -320,13 +432,9 @@ export const associateImageFn = createServerFn({ method: "POST" })
             throw new Error('Product not found')
         }
         
-        // Check authorization: admin can update any, supplier only their own
-        if (user.role !== 'admin') {
-            const isOwner = await isProductOwner(productId, user.id)
-            if (!isOwner) {
-                throw new Error('Access denied: You can only modify your own products')
-            }
-        }
+        // Suppliers can only update their own products
+        assertPermission(user, 'product:update', { ownerId: existingProduct.supplierId },
+            'Access denied: You can only modify your own products')
         
         const updatedProduct = await associateImages(productId, {
             imageUrls,
@@ -338,6 +446,21 @@ export const associateImageFn = createServerFn({ method: "POST" })
             throw new Error('Failed to associate images with product')
         }
         
+        // New photos on a live product go back through review
+        if (updatedProduct.status === 'active' && !can(user, 'product:activate')) {
+            const returned = await returnToReview(productId)
+            if (returned) {
+                await recordAuditEvent({
+                    actor: user,
+                    action: 'product.status_changed',
+                    targetType: 'product',
+                    targetId: productId,
+                    changes: [{ field: 'status', before: 'active', after: returned.status }]
+                })
+                return { product: stripCostField(returned), success: true }
+            }
+        }
+        
         return { product: stripCostField(updatedProduct), success: true }
     })
 
@@ -357,19 +480,20 @@ interface RefineImageInput {
 export const refineImageFn = createServerFn({ method: "POST" })
     .inputValidator((data: RefineImageInput) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
+        const { requirePermission, assertPermission } = await import('./auth-utils')
+        const { can } = await import('../utils/rbac')
         const { 
             getProductById, 
             associateImages, 
-            isProductOwner, 
             validateFirebaseStorageUrl,
             stripCostField, 
             toSerializable 
         } = await import('./product-utils')
         const { enhanceProductImage } = await import('./gemini/image-enhancement')
+        const { returnToReview } = await import('./product-review-utils')
+        const { recordAuditEvent } = await import('./audit-utils')
         
-        // Only suppliers and admins can refine images
-        const user = await requireRole(['supplier', 'admin'])
+        const user = await requirePermission('product:update')
         
         const { productId, originalImageUrl, prompt } = data
         
@@ -384,19 +508,15 @@ export const refineImageFn = createServerFn({ method: "POST" })
             throw new Error('Product not found')
         }
         
-        // Check authorization: admin can update any, supplier only their own
-        if (user.role !== 'admin') {
-            const isOwner = await isProductOwner(productId, user.id)
-            if (!isOwner) {
-                throw new Error('Access denied: You can only refine images for your own products')
-            }
-        }
+        // Suppliers can only refine images for their own products
+        assertPermission(user, 'product:update', { ownerId: existingProduct.supplierId },
+            'Access denied: You can only refine images for your own products')
         
         // Enhance the image using Gemini AI, with optional prompt
         const enhancedImageUrl = await enhanceProductImage(productId, originalImageUrl, prompt)
         
         // Associate the enhanced image with the product
-        const updatedProduct = await associateImages(productId, {
+        let updatedProduct = await associateImages(productId, {
             imageUrls: [enhancedImageUrl],
             imageType: 'enhanced',
             mode: 'append'
@@ -406,8 +526,23 @@ export const refineImageFn = createServerFn({ method: "POST" })
             throw new Error('Failed to update product with enhanced image')
         }
         
-        // Admin sees full product (serialized), others see filtered
-        if (user.role === 'admin') {
+        // New photos on a live product go back through review
+        if (updatedProduct.status === 'active' && !can(user, 'product:activate')) {
+            const returned = await returnToReview(productId)
+            if (returned) {
+                await recordAuditEvent({
+                    actor: user,
+                    action: 'product.status_changed',
+                    targetType: 'product',
+                    targetId: productId,
+                    changes: [{ field: 'status', before: 'active', after: returned.status }]
+                })
+                updatedProduct = returned
+            }
+        }
+        
+        // Users who can see costs get the full product (serialized), others see filtered
+        if (can(user, 'pricing:viewCost')) {
             return { 
                 product: toSerializable(updatedProduct), 
                 enhancedImageUrl,
@@ -422,3 +557,110 @@ export const refineImageFn = createServerFn({ method: "POST" })
         }
     })
 
+/**
+ * Get the products waiting for review, longest waiting first (Catalogue reviewers)
+ */
+export const getReviewQueueFn = createServerFn({ method: "GET" })
+    .handler(async () => {
+        const { requirePermission } = await import('./auth-utils')
+        const { can } = await import('../utils/rbac')
+        const { stripCostField, toSerializable } = await import('./product-utils')
+        const { getReviewQueue } = await import('./product-review-utils')
+        const { getMakerSummaries } = await import('./supplier-utils')
+        
+        const user = await requirePermission('product:activate')
+        
+        const products = await getReviewQueue()
+        const makers = Object.fromEntries(await getMakerSummaries(products.map(product => product.supplierId)))
+        
+        // Reviewers without cost access still need the review history
+        const canViewCost = can(user, 'pricing:viewCost')
+        return {
+            products: products.map(product => {
+                const serialized = toSerializable(product)
+                return canViewCost ? serialized : {
+                    ...stripCostField(product),
+                    review: serialized.review,
+                    submittedForReviewAt: serialized.submittedForReviewAt
+                }
+            }),
+            makers
+        }
+    })
+
+/**
+ * Approve, reject or request changes to a product waiting for review (Catalogue reviewers)
+ * Rejections need at least one reason; change requests need a note for the supplier
+ */
+export const reviewProductFn = createServerFn({ method: "POST" })
+    .inputValidator((data: ReviewProductServerInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { reviewProduct } = await import('./product-review-utils')
+        const { recordAuditEvent } = await import('./audit-utils')
+        const { sendProductReviewedEmail } = await import('./email-utils')
+        const { notifyProductReviewed } = await import('./notification-utils')
+        
+        const user = await requirePermission('product:activate')
+        
+        const { productId, ...review } = data
+        const product = await reviewProduct(productId, review, user.id)
+        
+        if (!product) {
+            throw new Error('Product not found')
+        }
+        
+        await recordAuditEvent({
+            actor: user,
+            action: 'product.status_changed',
+            targetType: 'product',
+            targetId: productId,
+            changes: [{ field: 'status', before: 'pending_review', after: product.status }]
+        })
+        
+        await sendProductReviewedEmail(product)
+        await notifyProductReviewed(product)
+        
+        return { status: product.status, success: true }
+    })
+
+/**
+ * Send a draft, rejected or changes-requested product for review (Supplier can submit own)
+ */
+export const resubmitProductFn = createServerFn({ method: "POST" })
+    .inputValidator((data: ResubmitProductInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission, assertPermission } = await import('./auth-utils')
+        const { getProductById } = await import('./product-utils')
+        const { resubmitProduct } = await import('./product-review-utils')
+        const { recordAuditEvent } = await import('./audit-utils')
+        const { notifyReviewRequested } = await import('./notification-utils')
+        
+        const user = await requirePermission('product:update')
+        
+        const existingProduct = await getProductById(data.productId)
+        if (!existingProduct) {
+            throw new Error('Product not found')
+        }
+        
+        // Suppliers can only submit their own products
+        assertPermission(user, 'product:update', { ownerId: existingProduct.supplierId },
+            'Access denied: You can only modify your own products')
+        
+        const product = await resubmitProduct(data.productId)
+        if (!product) {
+            throw new Error('Product not found')
+        }
+        
+        await recordAuditEvent({
+            actor: user,
+            action: 'product.status_changed',
+            targetType: 'product',
+            targetId: data.productId,
+            changes: [{ field: 'status', before: existingProduct.status, after: product.status }]
+        })
+        
+        await notifyReviewRequested(product)
+        
+        return { status: product.status, success: true }
+    })
@@ -0,0 +1,350 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, ClientSession, Collection, Db, WithId } from 'mongodb'
+import { resolveVariant, stockIncrements, variantArrayFilters, type Product } from './product-utils'
+import { getLineKey } from './product-variants'
+
+// --- Reservation Types ---
+
+export interface ReservationItem {
+    productId: string
+    variantId?: string       // Held on this variant as well as the product
+    quantity: number
+}
+
+// Stock held for a cart while its owner checks out. Each held quantity is also
+// counted in the product's inventory.reserved so availability stays a single read
+export interface Reservation {
+    _id?: ObjectId
+    userId: string           // Owner of the cart being checked out
+    items: ReservationItem[]
+    expiresAt: Date
+    createdAt: Date
+    updatedAt: Date
+}
+
+// --- Serializable Types ---
+
+export interface ReservationSerializable {
+    _id: string
+    items: ReservationItem[]
+    expiresAt: string
+}
+
+// How long checkout holds stock before it goes back on sale
+export const RESERVATION_TTL_MS = 15 * 60 * 1000
+
+// How often the sweeper puts stock from lapsed holds back on sale
+export const HOLD_SWEEP_INTERVAL_MS = 60 * 1000
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getReservationCollection(): Promise<Collection<Reservation>> {
+    const db = await getDb()
+    return db.collection<Reservation>('reservations')
+}
+
+// --- Utility Functions ---
+
+/**
+ * Convert a MongoDB reservation document to a serializable format
+ */
+export function toSerializable(reservation: WithId<Reservation>): ReservationSerializable {
+    return {
+        _id: reservation._id.toHexString(),
+        items: reservation.items,
+        expiresAt: reservation.expiresAt.toISOString()
+    }
+}
+
+/**
+ * Query condition matching products with at least the given stock available,
+ * where available = onHand - reserved. Products never reserved have no counter yet
+ * With a variant ID, the stock of that variant is checked instead
+ */
+export function availableAtLeast(quantity: number, variantId?: string) {
+    const available = (inventory: string) => ({
+        $subtract: [`${inventory}.onHand`, { $ifNull: [`${inventory}.reserved`, 0] }]
+    })
+
+    if (!variantId) {
+        return { $expr: { $gte: [available('$inventory'), quantity] } }
+    }
+
+    return {
+        $expr: {
+            $anyElementTrue: [{
+                $map: {
+                    input: { $ifNull: ['$variants', []] },
+                    as: 'variant',
+                    in: {
+                        $and: [
+                            { $eq: ['$$variant.id', variantId] },
+                            { $gte: [available('$$variant.inventory'), quantity] }
+                        ]
+                    }
+                }
+            }]
+        }
+    }
+}
+
+/**
+ * Merge repeated lines into one per product, or per variant for products with variants
+ */
+function mergeItems(items: ReservationItem[]): ReservationItem[] {
+    const merged = new Map<string, ReservationItem>()
+    for (const item of items) {
+        const key = getLineKey(item.productId, item.variantId)
+        const existing = merged.get(key)
+        merged.set(key, { ...item, quantity: (existing?.quantity || 0) + item.quantity })
+    }
+    return [...merged.values()]
+}
+
+/**
+ * Give held quantities back to the products, within the caller's transaction
+ */
+async function releaseHeldStock(db: Db, items: ReservationItem[], session: ClientSession): Promise<void> {
+    if (items.length === 0) {
+        return
+    }
+
+    const { ObjectId } = await import('mongodb')
+    const now = new Date()
+
+    await db.collection('products').bulkWrite(
+        items.map(item => ({
+            updateOne: {
+                filter: { _id: new ObjectId(item.productId) },
+                update: {
+                    $inc: stockIncrements(item.variantId, { reserved: -item.quantity }),
+                    $set: { updatedAt: now }
+                },
+                arrayFilters: variantArrayFilters(item.variantId)
+            }
+        })),
+        { session }
+    )
+}
+
+/**
+ * Hold stock for the items a customer is checking out
+ * Replaces the customer's previous reservation, and fails without holding
+ * anything if any item does not have enough available stock
+ */
+export async function reserveItems(userId: string, items: ReservationItem[]): Promise<WithId<Reservation>> {
+    const { ObjectId } = await import('mongodb')
+
+    const reservedItems = mergeItems(items)
+    if (reservedItems.length === 0) {
+        throw new Error('Nothing to reserve')
+    }
+    if (reservedItems.some(item => !Number.isInteger(item.quantity) || item.quantity < 1)) {
+        throw new Error('Invalid quantity')
+    }
+
+    const client = await clientPromise
+    const session = client.startSession()
+
+    try {
+        let reservation: WithId<Reservation> | null = null
+
+        await session.withTransaction(async () => {
+            const db = client.db()
+            const productCollection = db.collection<Product>('products')
+            const reservationCollection = db.collection<Reservation>('reservations')
+
+            const previous = await reservationCollection.findOneAndDelete({ userId }, { session })
+            if (previous) {
+                await releaseHeldStock(db, previous.items, session)
+            }
+
+            for (const item of reservedItems) {
+                const productId = new ObjectId(item.productId)
+
+                const result = await productCollection.updateOne(
+                    { _id: productId, status: 'active', ...availableAtLeast(item.quantity, item.variantId) },
+                    {
+                        $inc: stockIncrements(item.variantId, { reserved: item.quantity }),
+                        $set: { updatedAt: new Date() }
+                    },
+                    { session, arrayFilters: variantArrayFilters(item.variantId) }
+                )
+
+                if (result.matchedCount === 0) {
+                    const product = await productCollection.findOne({ _id: productId }, { session })
+                    if (!product) {
+                        throw new Error(`Product ${item.productId} not found`)
+                    }
+                    // Explains a missing or discontinued option before blaming the stock
+                    resolveVariant(product, item.variantId)
+                    throw new Error(`Insufficient stock for product: ${product.name}`)
+                }
+            }
+
+            const now = new Date()
+            const doc: Reservation = {
+                userId,
+                items: reservedItems,
+                expiresAt: new Date(now.getTime() + RESERVATION_TTL_MS),
+                createdAt: now,
+                updatedAt: now
+            }
+            const result = await reservationCollection.insertOne(doc, { session })
+            reservation = { ...doc, _id: result.insertedId }
+        })
+
+        if (!reservation) {
+            throw new Error('Failed to reserve stock')
+        }
+
+        return reservation
+    } finally {
+        await session.endSession()
+    }
+}
+
+/**
+ * Use up a customer's reservation for an order, within the caller's transaction
+ * Returns how much of each ordered line was held, keyed by getLineKey, so the order can
+ * take it from the reserved count; holds the order does not need are released
+ */
+export async function consumeReservation(
+    db: Db,
+    userId: string,
+    orderItems: ReservationItem[],
+    session: ClientSession
+): Promise<Map<string, number>> {
+    const held = new Map<string, number>()
+
+    const reservation = await db.collection<Reservation>('reservations').findOneAndDelete({ userId }, { session })
+    if (!reservation) {
+        return held
+    }
+
+    const ordered = new Map(mergeItems(orderItems).map(item => [getLineKey(item.productId, item.variantId), item.quantity]))
+    const unused: ReservationItem[] = []
+
+    for (const item of reservation.items) {
+        const key = getLineKey(item.productId, item.variantId)
+        const used = Math.min(item.quantity, ordered.get(key) || 0)
+        if (used > 0) {
+            held.set(key, used)
+        }
+        if (item.quantity > used) {
+            unused.push({ ...item, quantity: item.quantity - used })
+        }
+    }
+
+    await releaseHeldStock(db, unused, session)
+
+    return held
+}
+
+/**
+ * Sweep reservations past their expiry and put the held stock back on sale
+ * Each reservation is released in its own transaction, so one that is being
+ * consumed by an order at the same time is only ever released once
+ */
+export async function releaseExpiredReservations(now: Date = new Date()): Promise<number> {
+    const collection = await getReservationCollection()
+    const expired = await collection.find({ expiresAt: { $lt: now } }).toArray()
+
+    const client = await clientPromise
+    const session = client.startSession()
+    let released = 0
+
+    try {
+        for (const reservation of expired) {
+            let deleted = false
+
+            await session.withTransaction(async () => {
+                const db = client.db()
+                const result = await db.collection<Reservation>('reservations').deleteOne(
+                    { _id: reservation._id, expiresAt: { $lt: now } },
+                    { session }
+                )
+                deleted = result.deletedCount === 1
+                if (deleted) {
+                    await releaseHeldStock(db, reservation.items, session)
+                }
+            })
+
+            if (deleted) {
+                released++
+            }
+        }
+    } finally {
+        await session.endSession()
+    }
+
+    return released
+}
+
+// --- Sweeper ---
+
+let _sweeper: ReturnType<typeof setInterval> | null = null
+let _sweeping = false
+
+/**
+ * Release every expired hold on stock: checkout reservations and orders whose
+ * payment was not completed in time
+ */
+export async function releaseExpiredHolds(now: Date = new Date()): Promise<{ reservations: number; payments: number }> {
+    const { releaseExpiredPayments } = await import('./payment-utils')
+
+    const reservations = await releaseExpiredReservations(now)
+    const payments = await releaseExpiredPayments(now)
+
+    return { reservations, payments }
+}
+
+/**
+ * Release expired holds now and then every intervalMs, so stock held by abandoned
+ * checkouts goes back on sale even when nobody else checks out. Started once per
+ * server process; a sweep still running when the next is due is not overlapped
+ */
+export function startHoldSweeper(intervalMs: number = HOLD_SWEEP_INTERVAL_MS): void {
+    if (_sweeper) {
+        return
+    }
+
+    const sweep = async () => {
+        if (_sweeping) {
+            return
+        }
+        _sweeping = true
+        try {
+            await releaseExpiredHolds()
+        } catch (error) {
+            console.error('Failed to release expired holds:', error)
+        } finally {
+            _sweeping = false
+        }
+    }
+
+    _sweeper = setInterval(sweep, intervalMs)
+    // Never keeps the process alive on its own
+    _sweeper.unref()
+    void sweep()
+}
+
+/**
+ * Stop the sweeper started by startHoldSweeper
+ */
+export function stopHoldSweeper(): void {
+    if (_sweeper) {
+        clearInterval(_sweeper)
+        _sweeper = null
+    }
+}
@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// --- Mock Imports for Testing ---
+
+// Mock for MongoDB collections
+const mockReservationCollection = {
+    find: vi.fn(),
+    findOneAndDelete: vi.fn(),
+    insertOne: vi.fn(),
+    deleteOne: vi.fn(),
+}
+
+const mockProductCollection = {
+    findOne: vi.fn(),
+    updateOne: vi.fn(),
+    bulkWrite: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'products') return mockProductCollection
+        return mockReservationCollection
+    }),
+}
+
+const mockSession = {
+    withTransaction: vi.fn(async (callback: () => Promise<void>) => {
+        await callback()
+    }),
+    endSession: vi.fn(),
+}
+
+const mockClient = {
+    db: () => mockDb,
+    startSession: () => mockSession,
+}
+
+const mockClientPromise = Promise.resolve(mockClient)
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Payment holds are swept through a mocked payment module
+const mockReleaseExpiredPayments = vi.fn()
+
+vi.mock('./payment-utils', () => ({
+    releaseExpiredPayments: mockReleaseExpiredPayments,
+}))
+
+// Mock ObjectId
+vi.mock('mongodb', () => ({
+    ObjectId: class MockObjectId {
+        private id: string
+        constructor(id?: string) {
+            this.id = id || Math.random().toString(36).substring(7)
+        }
+        toHexString() {
+            return this.id
+        }
+        toString() {
+            return this.id
+        }
+    },
+}))
+
+// --- Unit Tests ---
+
+describe('reserveItems', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+        mockReservationCollection.findOneAndDelete.mockReset()
+        mockProductCollection.updateOne.mockReset()
+    })
+
+    it('should hold available stock and record the reservation', async () => {
+        mockReservationCollection.findOneAndDelete.mockResolvedValueOnce(null)
+        mockProductCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockReservationCollection.insertOne.mockResolvedValueOnce({ insertedId: 'reservation-1' })
+
+        const { reserveItems, RESERVATION_TTL_MS } = await import('./reservation-utils')
+        const before = Date.now()
+        const reservation = await reserveItems('user-123', [
+            { productId: 'prod-1', quantity: 1 },
+            { productId: 'prod-1', quantity: 1 },
+            { productId: 'prod-2', quantity: 3 },
+        ])
+
+        // Repeated products are held as one line
+        expect(reservation.items).toEqual([
+            { productId: 'prod-1', quantity: 2 },
+            { productId: 'prod-2', quantity: 3 },
+        ])
+        expect(reservation.expiresAt.getTime()).toBeGreaterThanOrEqual(before + RESERVATION_TTL_MS)
+
+        const [filter, update] = mockProductCollection.updateOne.mock.calls[0]
+        expect(filter.status).toBe('active')
+        expect(filter.$expr).toEqual({
+            $gte: [{ $subtract: ['$inventory.onHand', { $ifNull: ['$inventory.reserved', 0] }] }, 2]
+        })
+        expect(update.$inc).toEqual({ 'inventory.reserved': 2 })
+        expect(mockProductCollection.bulkWrite).not.toHaveBeenCalled()
+    })
+
+    it('should release the previous reservation before holding again', async () => {
+        mockReservationCollection.findOneAndDelete.mockResolvedValueOnce({
+            userId: 'user-123',
+            items: [{ productId: 'prod-1', quantity: 4 }],
+        })
+        mockProductCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockReservationCollection.insertOne.mockResolvedValueOnce({ insertedId: 'reservation-2' })
+
+        const { reserveItems } = await import('./reservation-utils')
+        await reserveItems('user-123', [{ productId: 'prod-1', quantity: 1 }])
+
+        const [ops] = mockProductCollection.bulkWrite.mock.calls[0]
+        expect(ops[0].updateOne.update.$inc).toEqual({ 'inventory.reserved': -4 })
+    })
+
+    it('should fail when not enough stock is available', async () => {
+        mockReservationCollection.findOneAndDelete.mockResolvedValueOnce(null)
+        mockProductCollection.updateOne.mockResolvedValueOnce({ matchedCount: 0 })
+        mockProductCollection.findOne.mockResolvedValueOnce({ name: 'Vase' })
+
+        const { reserveItems } = await import('./reservation-utils')
+
+        await expect(reserveItems('user-123', [{ productId: 'prod-1', quantity: 5 }]))
+            .rejects.toThrow('Insufficient stock for product: Vase')
+        expect(mockReservationCollection.insertOne).not.toHaveBeenCalled()
+    })
+
+    it('should reject invalid quantities', async () => {
+        const { reserveItems } = await import('./reservation-utils')
+
+        await expect(reserveItems('user-123', [{ productId: 'prod-1', quantity: 0 }]))
+            .rejects.toThrow('Invalid quantity')
+    })
+})
+
+describe('consumeReservation', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+        mockReservationCollection.findOneAndDelete.mockReset()
+    })
+
+    it('should hand over held stock and release what the order does not use', async () => {
+        mockReservationCollection.findOneAndDelete.mockResolvedValueOnce({
+            userId: 'user-123',
+            items: [
+                { productId: 'prod-1', quantity: 3 },
+                { productId: 'prod-2', quantity: 1 },
+            ],
+        })
+
+        const { consumeReservation } = await import('./reservation-utils')
+        const held = await consumeReservation(mockDb as any, 'user-123', [
+            { productId: 'prod-1', quantity: 2 },
+            { productId: 'prod-3', quantity: 1 },
+        ], mockSession as any)
+
+        expect([...held.entries()]).toEqual([['prod-1', 2]])
+
+        const [ops] = mockProductCollection.bulkWrite.mock.calls[0]
+        expect(ops).toHaveLength(2)
+        expect(ops[0].updateOne.update.$inc).toEqual({ 'inventory.reserved': -1 })
+        expect(ops[1].updateOne.update.$inc).toEqual({ 'inventory.reserved': -1 })
+    })
+
+    it('should hold nothing without a reservation', async () => {
+        mockReservationCollection.findOneAndDelete.mockResolvedValueOnce(null)
+
+        const { consumeReservation } = await import('./reservation-utils')
+        const held = await consumeReservation(mockDb as any, 'user-123', [
+            { productId: 'prod-1', quantity: 2 },
+        ], mockSession as any)
+
+        expect(held.size).toBe(0)
+        expect(mockProductCollection.bulkWrite).not.toHaveBeenCalled()
+    })
+})
+
+describe('releaseExpiredReservations', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should put expired holds back on sale once', async () => {
+        const now = new Date()
+        mockReservationCollection.find.mockReturnValueOnce({
+            toArray: vi.fn().mockResolvedValueOnce([
+                { _id: 'reservation-1', items: [{ productId: 'prod-1', quantity: 2 }] },
+                { _id: 'reservation-2', items: [{ productId: 'prod-2', quantity: 1 }] },
+            ])
+        })
+        // The second reservation was consumed by an order in the meantime
+        mockReservationCollection.deleteOne
+            .mockResolvedValueOnce({ deletedCount: 1 })
+            .mockResolvedValueOnce({ deletedCount: 0 })
+
+        const { releaseExpiredReservations } = await import('./reservation-utils')
+
+        await expect(releaseExpiredReservations(now)).resolves.toBe(1)
+        expect(mockReservationCollection.find).toHaveBeenCalledWith({ expiresAt: { $lt: now } })
+        expect(mockProductCollection.bulkWrite).toHaveBeenCalledTimes(1)
+
+        const [ops] = mockProductCollection.bulkWrite.mock.calls[0]
+        expect(ops[0].updateOne.update.$inc).toEqual({ 'inventory.reserved': -2 })
+    })
+})
+
+describe('startHoldSweeper', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+        vi.useFakeTimers()
+        mockReservationCollection.find.mockReturnValue({
+            toArray: vi.fn().mockResolvedValue([]),
+        })
+        mockReleaseExpiredPayments.mockResolvedValue(0)
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('should release expired reservations and payments on every tick', async () => {
+        const { startHoldSweeper, stopHoldSweeper } = await import('./reservation-utils')
+
+        startHoldSweeper(60_000)
+        startHoldSweeper(60_000) // A second start is ignored
+        await vi.advanceTimersByTimeAsync(0)
+        expect(mockReleaseExpiredPayments).toHaveBeenCalledTimes(1)
+
+        await vi.advanceTimersByTimeAsync(120_000)
+        expect(mockReleaseExpiredPayments).toHaveBeenCalledTimes(3)
+        expect(mockReservationCollection.find).toHaveBeenCalledTimes(3)
+
+        stopHoldSweeper()
+        await vi.advanceTimersByTimeAsync(60_000)
+        expect(mockReleaseExpiredPayments).toHaveBeenCalledTimes(3)
+    })
+
+    it('should keep sweeping after a sweep fails', async () => {
+        const { startHoldSweeper, stopHoldSweeper } = await import('./reservation-utils')
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+        mockReleaseExpiredPayments.mockRejectedValueOnce(new Error('Database unavailable'))
+
+        startHoldSweeper(60_000)
+        await vi.advanceTimersByTimeAsync(60_000)
+
+        expect(console.error).toHaveBeenCalledWith('Failed to release expired holds:', expect.any(Error))
+        expect(mockReleaseExpiredPayments).toHaveBeenCalledTimes(2)
+        stopHoldSweeper()
+    })
+})
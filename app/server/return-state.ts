@@ -0,0 +1,15 @@
+import type { ReturnStatus } from './return-utils'
+
+// --- Return State Machine ---
+// Kept free of database imports so the UI can share these rules
+
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+    requested: ['approved', 'rejected'],
+    approved: ['received'],
+    received: ['refunded'],
+    refund_pending: ['refunded'],   // Retry a refund the provider did not complete
+    rejected: [],
+    refunded: []
+}
+
+export const MAX_RETURN_PHOTOS = 5
@@ -0,0 +1,430 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, ClientSession, Collection, Db, WithId } from 'mongodb'
+import { recordMovements } from './inventory-utils'
+import { getOrderShipments, type Order, type StatusActor, type StatusActorRole } from './order-utils'
+import { stockIncrements, variantArrayFilters } from './product-utils'
+import { getLineKey } from './product-variants'
+import { MAX_RETURN_PHOTOS, RETURN_STATUS_TRANSITIONS } from './return-state'
+
+// --- Return Types ---
+
+// requested -> approved -> received -> refund_pending -> refunded, or requested -> rejected
+// A refund stays pending until the payment provider confirms it, so a failed refund can be retried
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refund_pending' | 'refunded'
+
+export interface ReturnItem {
+    productId: string
+    productName: string
+    variantId?: string
+    variantLabel?: string
+    quantity: number
+    unitPrice: number      // Selling price paid, used for the refund amount
+}
+
+export interface ReturnHistoryEntry {
+    actorId: string
+    actorRole: StatusActorRole
+    previousStatus: ReturnStatus | null
+    nextStatus: ReturnStatus
+    note?: string
+    createdAt: Date
+}
+
+// A return covers items from a single supplier, mirroring order shipments
+export interface ReturnRequest {
+    _id?: ObjectId
+    orderId: string
+    userId: string
+    supplierId: string
+    items: ReturnItem[]
+    reason: string
+    photos: string[]
+    status: ReturnStatus
+    refundAmount: number
+    restocked: boolean
+    history: ReturnHistoryEntry[]
+    createdAt: Date
+    updatedAt: Date
+}
+
+// --- Serializable Types ---
+
+export interface ReturnHistoryEntrySerializable extends Omit<ReturnHistoryEntry, 'createdAt'> {
+    createdAt: string
+}
+
+export interface ReturnRequestSerializable extends Omit<ReturnRequest, '_id' | 'history' | 'createdAt' | 'updatedAt'> {
+    _id: string
+    history: ReturnHistoryEntrySerializable[]
+    createdAt: string
+    updatedAt: string
+}
+
+// --- Input Types ---
+
+export interface CreateReturnInput {
+    orderId: string
+    items: Array<{
+        productId: string
+        variantId?: string
+        quantity: number
+    }>
+    reason: string
+    photos?: string[]
+}
+
+export interface UpdateReturnStatusInput {
+    status: ReturnStatus
+    restock?: boolean   // Only used when receiving: put the returned items back in stock
+}
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getReturnCollection(): Promise<Collection<ReturnRequest>> {
+    const db = await getDb()
+    return db.collection<ReturnRequest>('returns')
+}
+
+// --- Utility Functions ---
+
+/**
+ * Convert a MongoDB return document to a serializable format
+ */
+export function toSerializable(returnRequest: WithId<ReturnRequest>): ReturnRequestSerializable {
+    return {
+        ...returnRequest,
+        _id: returnRequest._id.toHexString(),
+        history: returnRequest.history.map(entry => ({
+            ...entry,
+            createdAt: entry.createdAt.toISOString()
+        })),
+        createdAt: returnRequest.createdAt.toISOString(),
+        updatedAt: returnRequest.updatedAt.toISOString()
+    }
+}
+
+/**
+ * Sum the quantity already under return per order line, keyed by getLineKey
+ * Rejected returns do not count towards the returned quantity
+ */
+async function getReturnedQuantities(db: Db, orderId: string, session: ClientSession): Promise<Map<string, number>> {
+    const existing = await db.collection<ReturnRequest>('returns')
+        .find({ orderId, status: { $ne: 'rejected' } }, { session })
+        .toArray()
+
+    const quantities = new Map<string, number>()
+    for (const returnRequest of existing) {
+        for (const item of returnRequest.items) {
+            const key = getLineKey(item.productId, item.variantId)
+            quantities.set(key, (quantities.get(key) || 0) + item.quantity)
+        }
+    }
+    return quantities
+}
+
+/**
+ * Open return requests for delivered items of an order
+ * Items are validated against the order and any earlier returns, then split
+ * into one return per supplier so each supplier handles their own items.
+ * The check and the insert share a transaction that also writes the order, so
+ * two requests at once cannot both return the same units
+ */
+export async function createReturns(
+    order: WithId<Order>,
+    userId: string,
+    input: CreateReturnInput
+): Promise<WithId<ReturnRequest>[]> {
+    if (!input.items || input.items.length === 0) {
+        throw new Error('Select at least one item to return')
+    }
+
+    const reason = input.reason?.trim()
+    if (!reason) {
+        throw new Error('A reason is required for returns')
+    }
+
+    const photos = input.photos || []
+    if (photos.length > MAX_RETURN_PHOTOS) {
+        throw new Error(`A return can include at most ${MAX_RETURN_PHOTOS} photos`)
+    }
+
+    const deliveredSuppliers = new Set(
+        getOrderShipments(order)
+            .filter(shipment => shipment.status === 'delivered')
+            .map(shipment => shipment.supplierId)
+    )
+    const orderId = order._id.toHexString()
+    const client = await clientPromise
+    const session = client.startSession()
+    let created: WithId<ReturnRequest>[] = []
+
+    try {
+        await session.withTransaction(async () => {
+            const db = client.db()
+            const now = new Date()
+
+            // Concurrent returns for this order both write it, so one conflicts and is
+            // retried, and then sees what the other returned
+            await db.collection<Order>('orders').updateOne({ _id: order._id }, { $set: { updatedAt: now } }, { session })
+
+            const returnedQuantities = await getReturnedQuantities(db, orderId, session)
+
+            // Group the requested items by supplier
+            const itemsBySupplier = new Map<string, ReturnItem[]>()
+
+            for (const requested of input.items) {
+                const key = getLineKey(requested.productId, requested.variantId)
+                const orderItem = order.items.find(item => getLineKey(item.productId, item.variantId) === key)
+                if (!orderItem) {
+                    throw new Error(`Product ${requested.productId} is not part of this order`)
+                }
+
+                if (!deliveredSuppliers.has(orderItem.supplierId)) {
+                    throw new Error(`${orderItem.productName} has not been delivered yet`)
+                }
+
+                const available = orderItem.quantity - (returnedQuantities.get(key) || 0)
+                if (!Number.isInteger(requested.quantity) || requested.quantity < 1 || requested.quantity > available) {
+                    throw new Error(`Invalid return quantity for ${orderItem.productName}`)
+                }
+                returnedQuantities.set(key, orderItem.quantity - available + requested.quantity)
+
+                const supplierItems = itemsBySupplier.get(orderItem.supplierId) || []
+                supplierItems.push({
+                    productId: orderItem.productId,
+                    productName: orderItem.productName,
+                    ...(orderItem.variantId && {
+                        variantId: orderItem.variantId,
+                        variantLabel: orderItem.variantLabel
+                    }),
+                    quantity: requested.quantity,
+                    unitPrice: orderItem.unitPrice
+                })
+                itemsBySupplier.set(orderItem.supplierId, supplierItems)
+            }
+
+            const returns: ReturnRequest[] = [...itemsBySupplier.entries()].map(([supplierId, items]) => ({
+                orderId,
+                userId,
+                supplierId,
+                items,
+                reason,
+                photos,
+                status: 'requested',
+                refundAmount: items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0),
+                restocked: false,
+                history: [{
+                    actorId: userId,
+                    actorRole: 'customer',
+                    previousStatus: null,
+                    nextStatus: 'requested',
+                    createdAt: now
+                }],
+                createdAt: now,
+                updatedAt: now
+            }))
+
+            const result = await db.collection<ReturnRequest>('returns').insertMany(returns, { session })
+
+            created = returns.map((returnRequest, index) => ({
+                ...returnRequest,
+                _id: result.insertedIds[index]
+            }))
+        })
+    } finally {
+        await session.endSession()
+    }
+
+    return created
+}
+
+/**
+ * Get a return request by ID
+ */
+export async function getReturnById(returnId: string): Promise<WithId<ReturnRequest> | null> {
+    const collection = await getReturnCollection()
+    const { ObjectId } = await import('mongodb')
+
+    try {
+        return await collection.findOne({ _id: new ObjectId(returnId) })
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Get return requests matching a filter, newest first
+ */
+export async function getReturns(
+    filter: { userId?: string; supplierId?: string; orderId?: string; status?: ReturnStatus }
+): Promise<WithId<ReturnRequest>[]> {
+    const collection = await getReturnCollection()
+
+    const query: Record<string, unknown> = {}
+    if (filter.userId) query.userId = filter.userId
+    if (filter.supplierId) query.supplierId = filter.supplierId
+    if (filter.orderId) query.orderId = filter.orderId
+    if (filter.status) query.status = filter.status
+
+    return await collection.find(query).sort({ createdAt: -1 }).toArray()
+}
+
+/**
+ * Move a return request to its next status
+ * Receiving can restock the returned items; the stock update and the status
+ * change happen in one transaction so a return is never restocked twice.
+ * Refunding pays the refund amount back to the customer's payment: the return
+ * waits in refund_pending until the provider has refunded it, and is only then
+ * marked refunded. If the provider fails, refunding again retries it
+ */
+export async function updateReturnStatus(
+    returnId: string,
+    input: UpdateReturnStatusInput,
+    actor: StatusActor
+): Promise<WithId<ReturnRequest> | null> {
+    const { ObjectId } = await import('mongodb')
+
+    let objectId: ObjectId
+    try {
+        objectId = new ObjectId(returnId)
+    } catch {
+        return null
+    }
+
+    const client = await clientPromise
+    const session = client.startSession()
+
+    let refund: { orderId: string; amount: number } | undefined
+
+    try {
+        let found = false
+
+        await session.withTransaction(async () => {
+            const db = client.db()
+            const collection = db.collection<ReturnRequest>('returns')
+
+            const returnRequest = await collection.findOne({ _id: objectId }, { session })
+            found = !!returnRequest
+            if (!returnRequest) {
+                return
+            }
+
+            if (!RETURN_STATUS_TRANSITIONS[returnRequest.status].includes(input.status)) {
+                throw new Error(`Invalid return status transition from ${returnRequest.status} to ${input.status}`)
+            }
+
+            if (input.status === 'refunded') {
+                refund = { orderId: returnRequest.orderId, amount: returnRequest.refundAmount }
+            }
+
+            // A retried refund is already pending; the note goes on the refunded entry
+            if (returnRequest.status === 'refund_pending') {
+                return
+            }
+
+            const nextStatus = input.status === 'refunded' ? 'refund_pending' : input.status
+            const restock = input.status === 'received' && !!input.restock
+            const now = new Date()
+
+            const result = await collection.updateOne(
+                { _id: objectId, status: returnRequest.status },
+                {
+                    $set: {
+                        status: nextStatus,
+                        updatedAt: now,
+                        ...(restock && { restocked: true })
+                    },
+                    $push: {
+                        history: {
+                            actorId: actor.id,
+                            actorRole: actor.role,
+                            previousStatus: returnRequest.status,
+                            nextStatus,
+                            ...(actor.note && !refund && { note: actor.note }),
+                            createdAt: now
+                        }
+                    }
+                },
+                { session }
+            )
+
+            if (result.matchedCount === 0) {
+                throw new Error('Return was modified concurrently. Please try again.')
+            }
+
+            if (restock) {
+                await db.collection('products').bulkWrite(
+                    returnRequest.items.map(item => ({
+                        updateOne: {
+                            filter: { _id: new ObjectId(item.productId) },
+                            update: {
+                                $inc: stockIncrements(item.variantId, { onHand: item.quantity }),
+                                $set: { updatedAt: now }
+                            },
+                            arrayFilters: variantArrayFilters(item.variantId)
+                        }
+                    })),
+                    { session }
+                )
+
+                await recordMovements(db, returnRequest.items.map(item => ({
+                    productId: item.productId,
+                    variantId: item.variantId,
+                    type: 'return' as const,
+                    delta: item.quantity,
+                    orderId: returnRequest.orderId,
+                    returnId
+                })), actor, session)
+            }
+        })
+
+        if (!found) {
+            return null
+        }
+    } finally {
+        await session.endSession()
+    }
+
+    const collection = await getReturnCollection()
+
+    if (refund) {
+        // Throws when the provider fails or no money was moved, leaving the return pending
+        if (refund.amount > 0) {
+            const { refundOrderPayment } = await import('./payment-utils')
+            const refunded = await refundOrderPayment(refund.orderId, refund.amount)
+            if (refunded === 0) {
+                throw new Error('No refund could be issued on the order payment')
+            }
+        }
+
+        const now = new Date()
+        await collection.updateOne(
+            { _id: objectId, status: 'refund_pending' },
+            {
+                $set: { status: 'refunded', updatedAt: now },
+                $push: {
+                    history: {
+                        actorId: actor.id,
+                        actorRole: actor.role,
+                        previousStatus: 'refund_pending',
+                        nextStatus: 'refunded',
+                        ...(actor.note && { note: actor.note }),
+                        createdAt: now
+                    }
+                }
+            }
+        )
+    }
+
+    return await collection.findOne({ _id: objectId })
+}
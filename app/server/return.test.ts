@@ -0,0 +1,344 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// --- Mock Imports for Testing ---
+
+// Mock for MongoDB collections
+const mockReturnCollection = {
+    findOne: vi.fn(),
+    find: vi.fn(),
+    insertMany: vi.fn(),
+    updateOne: vi.fn(),
+}
+
+const mockProductCollection = {
+    bulkWrite: vi.fn(),
+}
+
+const mockMovementCollection = {
+    insertMany: vi.fn(),
+}
+
+const mockOrderCollection = {
+    updateOne: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'products') return mockProductCollection
+        if (name === 'inventory_movements') return mockMovementCollection
+        if (name === 'orders') return mockOrderCollection
+        return mockReturnCollection
+    }),
+}
+
+const mockSession = {
+    withTransaction: vi.fn(async (callback: () => Promise<void>) => {
+        await callback()
+    }),
+    endSession: vi.fn(),
+}
+
+const mockClient = {
+    db: () => mockDb,
+    startSession: () => mockSession,
+}
+
+const mockClientPromise = Promise.resolve(mockClient)
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Mock ObjectId
+vi.mock('mongodb', () => ({
+    ObjectId: class MockObjectId {
+        private id: string
+        constructor(id?: string) {
+            this.id = id || Math.random().toString(36).substring(7)
+        }
+        toHexString() {
+            return this.id
+        }
+        toString() {
+            return this.id
+        }
+    },
+}))
+
+// Refunds go to a mocked payment module rather than the configured provider
+const mockRefundOrderPayment = vi.fn()
+
+vi.mock('./payment-utils', () => ({
+    refundOrderPayment: mockRefundOrderPayment,
+}))
+
+// --- Helpers ---
+
+const items = [
+    { productId: 'prod-1', productName: 'Vase', quantity: 2, unitPrice: 20, costPrice: 10, supplierId: 'supplier-1' },
+    { productId: 'prod-2', productName: 'Bowl', quantity: 1, unitPrice: 15, costPrice: 8, supplierId: 'supplier-2' },
+]
+
+async function makeOrder(shipmentStatuses: Record<string, 'pending' | 'shipped' | 'delivered'>) {
+    const { ObjectId } = await import('mongodb')
+    const now = new Date()
+    return {
+        _id: new ObjectId('order-123'),
+        userId: 'user-123',
+        items,
+        shipments: Object.entries(shipmentStatuses).map(([supplierId, status]) => ({
+            supplierId,
+            status,
+            createdAt: now,
+            updatedAt: now,
+        })),
+        shippingAddress: { street: '123 Main St', city: 'Portland', zip: '97201', country: 'USA' },
+        totals: { subtotal: 55, shipping: 0, total: 55 },
+        status: 'delivered' as const,
+        createdAt: now,
+        updatedAt: now,
+    }
+}
+
+function mockExistingReturns(returns: unknown[]) {
+    mockReturnCollection.find.mockReturnValueOnce({
+        toArray: vi.fn().mockResolvedValueOnce(returns),
+    })
+}
+
+// --- Unit Tests ---
+
+describe('createReturns', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should split a return into one request per supplier', async () => {
+        const order = await makeOrder({ 'supplier-1': 'delivered', 'supplier-2': 'delivered' })
+        mockExistingReturns([])
+        mockReturnCollection.insertMany.mockResolvedValueOnce({ insertedIds: { 0: 'return-1', 1: 'return-2' } })
+
+        const { createReturns } = await import('./return-utils')
+        const returns = await createReturns(order, 'user-123', {
+            orderId: 'order-123',
+            items: [
+                { productId: 'prod-1', quantity: 1 },
+                { productId: 'prod-2', quantity: 1 },
+            ],
+            reason: 'Arrived broken',
+        })
+
+        expect(returns).toHaveLength(2)
+        expect(returns[0]).toMatchObject({ supplierId: 'supplier-1', status: 'requested', refundAmount: 20 })
+        expect(returns[1]).toMatchObject({ supplierId: 'supplier-2', status: 'requested', refundAmount: 15 })
+    })
+
+    it('should check and insert in a transaction that writes the order', async () => {
+        const order = await makeOrder({ 'supplier-1': 'delivered' })
+        mockExistingReturns([])
+        mockReturnCollection.insertMany.mockResolvedValueOnce({ insertedIds: { 0: 'return-1' } })
+
+        const { createReturns } = await import('./return-utils')
+        await createReturns(order, 'user-123', {
+            orderId: 'order-123',
+            items: [{ productId: 'prod-1', quantity: 1 }],
+            reason: 'Arrived broken',
+        })
+
+        expect(mockSession.withTransaction).toHaveBeenCalledTimes(1)
+        expect(mockOrderCollection.updateOne).toHaveBeenCalledWith(
+            { _id: order._id },
+            { $set: { updatedAt: expect.any(Date) } },
+            { session: mockSession }
+        )
+        expect(mockReturnCollection.insertMany).toHaveBeenCalledWith(expect.any(Array), { session: mockSession })
+        expect(mockSession.endSession).toHaveBeenCalled()
+    })
+
+    it('should reject items that have not been delivered', async () => {
+        const order = await makeOrder({ 'supplier-1': 'shipped', 'supplier-2': 'delivered' })
+        mockExistingReturns([])
+
+        const { createReturns } = await import('./return-utils')
+
+        await expect(createReturns(order, 'user-123', {
+            orderId: 'order-123',
+            items: [{ productId: 'prod-1', quantity: 1 }],
+            reason: 'Changed my mind',
+        })).rejects.toThrow('Vase has not been delivered yet')
+    })
+
+    it('should not return more than was ordered across requests', async () => {
+        const order = await makeOrder({ 'supplier-1': 'delivered', 'supplier-2': 'delivered' })
+        mockExistingReturns([{ items: [{ productId: 'prod-1', quantity: 1 }] }])
+
+        const { createReturns } = await import('./return-utils')
+
+        await expect(createReturns(order, 'user-123', {
+            orderId: 'order-123',
+            items: [{ productId: 'prod-1', quantity: 2 }],
+            reason: 'Arrived broken',
+        })).rejects.toThrow('Invalid return quantity for Vase')
+        expect(mockReturnCollection.find).toHaveBeenCalledWith(
+            { orderId: 'order-123', status: { $ne: 'rejected' } },
+            { session: mockSession }
+        )
+    })
+
+    it('should require a reason', async () => {
+        const order = await makeOrder({ 'supplier-1': 'delivered' })
+
+        const { createReturns } = await import('./return-utils')
+
+        await expect(createReturns(order, 'user-123', {
+            orderId: 'order-123',
+            items: [{ productId: 'prod-1', quantity: 1 }],
+            reason: '  ',
+        })).rejects.toThrow('A reason is required for returns')
+    })
+})
+
+describe('updateReturnStatus', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    const makeReturn = async (status: string) => {
+        const { ObjectId } = await import('mongodb')
+        return {
+            _id: new ObjectId('return-1'),
+            orderId: 'order-123',
+            userId: 'user-123',
+            supplierId: 'supplier-1',
+            items: [{ productId: 'prod-1', productName: 'Vase', quantity: 2, unitPrice: 20 }],
+            reason: 'Arrived broken',
+            photos: [],
+            status,
+            refundAmount: 40,
+            restocked: false,
+            history: [],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        }
+    }
+
+    const supplier = { id: 'supplier-1', role: 'supplier' as const }
+
+    it('should reject invalid transitions', async () => {
+        mockReturnCollection.findOne.mockResolvedValueOnce(await makeReturn('requested'))
+
+        const { updateReturnStatus } = await import('./return-utils')
+
+        await expect(updateReturnStatus('return-1', { status: 'refunded' }, supplier))
+            .rejects.toThrow('Invalid return status transition from requested to refunded')
+        expect(mockReturnCollection.updateOne).not.toHaveBeenCalled()
+    })
+
+    it('should restock items when received with restock', async () => {
+        const returnRequest = await makeReturn('approved')
+        mockReturnCollection.findOne.mockResolvedValueOnce(returnRequest).mockResolvedValueOnce(returnRequest)
+        mockReturnCollection.updateOne.mockResolvedValueOnce({ matchedCount: 1 })
+
+        const { updateReturnStatus } = await import('./return-utils')
+        await updateReturnStatus('return-1', { status: 'received', restock: true }, supplier)
+
+        const [ops] = mockProductCollection.bulkWrite.mock.calls[0]
+        expect(ops[0].updateOne.update.$inc).toEqual({ 'inventory.onHand': 2 })
+
+        const [movements] = mockMovementCollection.insertMany.mock.calls[0]
+        expect(movements).toEqual([expect.objectContaining({
+            productId: 'prod-1',
+            type: 'return',
+            delta: 2,
+            orderId: 'order-123',
+            returnId: 'return-1',
+        })])
+
+        const [filter, update] = mockReturnCollection.updateOne.mock.calls[0]
+        expect(filter.status).toBe('approved')
+        expect(update.$set).toMatchObject({ status: 'received', restocked: true })
+        expect(update.$push.history).toMatchObject({ actorId: 'supplier-1', previousStatus: 'approved', nextStatus: 'received' })
+    })
+
+    it('should not restock when receiving without restock', async () => {
+        const returnRequest = await makeReturn('approved')
+        mockReturnCollection.findOne.mockResolvedValueOnce(returnRequest).mockResolvedValueOnce(returnRequest)
+        mockReturnCollection.updateOne.mockResolvedValueOnce({ matchedCount: 1 })
+
+        const { updateReturnStatus } = await import('./return-utils')
+        await updateReturnStatus('return-1', { status: 'received' }, supplier)
+
+        expect(mockProductCollection.bulkWrite).not.toHaveBeenCalled()
+    })
+
+    it('should mark a return refunded once the provider has refunded it', async () => {
+        const returnRequest = await makeReturn('received')
+        mockReturnCollection.findOne.mockResolvedValueOnce(returnRequest).mockResolvedValueOnce(returnRequest)
+        mockReturnCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockRefundOrderPayment.mockResolvedValueOnce(40)
+
+        const { updateReturnStatus } = await import('./return-utils')
+        await updateReturnStatus('return-1', { status: 'refunded' }, { ...supplier, note: 'Sorry about that' })
+
+        expect(mockRefundOrderPayment).toHaveBeenCalledWith('order-123', 40)
+
+        const [pendingFilter, pendingUpdate] = mockReturnCollection.updateOne.mock.calls[0]
+        expect(pendingFilter.status).toBe('received')
+        expect(pendingUpdate.$set.status).toBe('refund_pending')
+        expect(pendingUpdate.$push.history.note).toBeUndefined()
+
+        const [refundedFilter, refundedUpdate] = mockReturnCollection.updateOne.mock.calls[1]
+        expect(refundedFilter.status).toBe('refund_pending')
+        expect(refundedUpdate.$set.status).toBe('refunded')
+        expect(refundedUpdate.$push.history).toMatchObject({
+            previousStatus: 'refund_pending',
+            nextStatus: 'refunded',
+            note: 'Sorry about that',
+        })
+    })
+
+    it('should leave the return pending when the provider refund fails', async () => {
+        mockReturnCollection.findOne.mockResolvedValueOnce(await makeReturn('received'))
+        mockReturnCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockRefundOrderPayment.mockRejectedValueOnce(new Error('Provider unavailable'))
+
+        const { updateReturnStatus } = await import('./return-utils')
+
+        await expect(updateReturnStatus('return-1', { status: 'refunded' }, supplier))
+            .rejects.toThrow('Provider unavailable')
+        expect(mockReturnCollection.updateOne).toHaveBeenCalledTimes(1)
+        expect(mockReturnCollection.updateOne.mock.calls[0][1].$set.status).toBe('refund_pending')
+    })
+
+    it('should leave the return pending when no refund was issued', async () => {
+        mockReturnCollection.findOne.mockResolvedValueOnce(await makeReturn('received'))
+        mockReturnCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockRefundOrderPayment.mockResolvedValueOnce(0)
+
+        const { updateReturnStatus } = await import('./return-utils')
+
+        await expect(updateReturnStatus('return-1', { status: 'refunded' }, supplier))
+            .rejects.toThrow('No refund could be issued on the order payment')
+        expect(mockReturnCollection.updateOne).toHaveBeenCalledTimes(1)
+        expect(mockReturnCollection.updateOne.mock.calls[0][1].$set.status).toBe('refund_pending')
+    })
+
+    it('should retry the refund of a pending return', async () => {
+        const returnRequest = await makeReturn('refund_pending')
+        mockReturnCollection.findOne.mockResolvedValueOnce(returnRequest).mockResolvedValueOnce(returnRequest)
+        mockReturnCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockRefundOrderPayment.mockResolvedValueOnce(40)
+
+        const { updateReturnStatus } = await import('./return-utils')
+        await updateReturnStatus('return-1', { status: 'refunded' }, supplier)
+
+        expect(mockRefundOrderPayment).toHaveBeenCalledWith('order-123', 40)
+        expect(mockReturnCollection.updateOne).toHaveBeenCalledTimes(1)
+        const [filter, update] = mockReturnCollection.updateOne.mock.calls[0]
+        expect(filter.status).toBe('refund_pending')
+        expect(update.$set.status).toBe('refunded')
+    })
+})
@@ -0,0 +1,178 @@
+import { createServerFn } from '@tanstack/react-start'
+
+import type {
+    CreateReturnInput,
+    ReturnStatus
+} from './return-utils'
+
+// --- Input Types for Server Functions ---
+
+interface UploadReturnPhotoInput {
+    filename: string
+    contentType: string
+    content: string
+}
+
+interface GetOrderReturnsInput {
+    orderId: string
+}
+
+interface UpdateReturnStatusFnInput {
+    returnId: string
+    status: ReturnStatus
+    note?: string
+    restock?: boolean
+}
+
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024
+
+// --- Server Functions ---
+
+/**
+ * Upload a photo for a return request (Any signed-in customer)
+ * Photos are stored per user so a return can only reference the customer's own uploads
+ */
+export const uploadReturnPhotoFn = createServerFn({ method: "POST" })
+    .inputValidator((data: UploadReturnPhotoInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { bucket } = await import('./firebase/admin')
+
+        const user = await requireAuth()
+
+        if (!data.contentType.startsWith('image/')) {
+            throw new Error('Only images can be uploaded')
+        }
+
+        const buffer = Buffer.from(data.content, 'base64')
+        if (buffer.length > MAX_PHOTO_BYTES) {
+            throw new Error('Photos must be 5MB or smaller')
+        }
+
+        // Sanitize filename
+        const safeFilename = data.filename.replace(/[^a-zA-Z0-9.-]/g, '_')
+        const path = `returns/uploads/${user.id}/${Date.now()}_${safeFilename}`
+        const file = bucket.file(path)
+
+        await file.save(buffer, {
+            metadata: {
+                contentType: data.contentType,
+            },
+        })
+
+        await file.makePublic()
+        const publicUrl = `https://storage.googleapis.com/${bucket.name}/${path}`
+
+        return { url: publicUrl, success: true }
+    })
+
+/**
+ * Open a return request for delivered items (Order owner only)
+ */
+export const createReturnFn = createServerFn({ method: "POST" })
+    .inputValidator((data: CreateReturnInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { bucket } = await import('./firebase/admin')
+        const { getOrderById } = await import('./order-utils')
+        const { createReturns, toSerializable } = await import('./return-utils')
+
+        const user = await requireAuth()
+
+        const order = await getOrderById(data.orderId)
+        if (!order || order.userId !== user.id) {
+            throw new Error('Order not found')
+        }
+
+        // Only accept photos uploaded by this customer through uploadReturnPhotoFn
+        const photoPrefix = `https://storage.googleapis.com/${bucket.name}/returns/uploads/${user.id}/`
+        if ((data.photos || []).some(url => !url.startsWith(photoPrefix))) {
+            throw new Error('Invalid return photo')
+        }
+
+        const returns = await createReturns(order, user.id, data)
+
+        return {
+            returns: returns.map(toSerializable),
+            success: true
+        }
+    })
+
+/**
+ * Get the current customer's return requests
+ */
+export const getMyReturnsFn = createServerFn({ method: "GET" })
+    .handler(async () => {
+        const { requireAuth } = await import('./auth-utils')
+        const { getReturns, toSerializable } = await import('./return-utils')
+
+        const user = await requireAuth()
+
+        const returns = await getReturns({ userId: user.id })
+
+        return { returns: returns.map(toSerializable) }
+    })
+
+/**
+ * Get the return requests for an order (Supplier/Admin only)
+ * Suppliers only see returns for their own items
+ */
+export const getOrderReturnsFn = createServerFn({ method: "GET" })
+    .inputValidator((data: GetOrderReturnsInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { can } = await import('../utils/rbac')
+        const { getReturns, toSerializable } = await import('./return-utils')
+
+        const user = await requirePermission('return:manage')
+
+        // Without access to every order's returns, only the user's own items are listed
+        const returns = await getReturns({
+            orderId: data.orderId,
+            supplierId: can(user, 'order:viewAll') ? undefined : user.id
+        })
+
+        return { returns: returns.map(toSerializable) }
+    })
+
+/**
+ * Approve, reject, receive or refund a return (Supplier/Admin only)
+ * Suppliers can only act on returns for their own items
+ */
+export const updateReturnStatusFn = createServerFn({ method: "POST" })
+    .inputValidator((data: UpdateReturnStatusFnInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission, assertPermission, actorRole } = await import('./auth-utils')
+        const { getReturnById, updateReturnStatus, toSerializable } = await import('./return-utils')
+
+        const user = await requirePermission('return:manage')
+
+        const returnRequest = await getReturnById(data.returnId)
+        if (!returnRequest) {
+            throw new Error('Return not found')
+        }
+
+        const resource = { ownerId: returnRequest.supplierId }
+        assertPermission(user, 'return:manage', resource, 'Access denied')
+        if (data.status === 'refunded') {
+            assertPermission(user, 'order:refund', resource, 'Access denied')
+        }
+
+        const updated = await updateReturnStatus(data.returnId, {
+            status: data.status,
+            restock: data.restock
+        }, {
+            id: user.id,
+            role: actorRole(user),
+            note: data.note?.trim() || undefined
+        })
+
+        if (!updated) {
+            throw new Error('Failed to update return status')
+        }
+
+        return {
+            returnRequest: toSerializable(updated),
+            success: true
+        }
+    })
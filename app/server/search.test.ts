@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ObjectId } from 'mongodb'
+
+// --- Mock Imports for Testing ---
+
+// Mock for MongoDB collections
+const mockProductCollection = {
+    find: vi.fn(),
+    aggregate: vi.fn(),
+    countDocuments: vi.fn(),
+}
+
+const mockCategoryCollection = {
+    find: vi.fn(),
+}
+
+const mockUserCollection = {
+    find: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'categories') return mockCategoryCollection
+        if (name === 'user') return mockUserCollection
+        return mockProductCollection
+    }),
+}
+
+const mockClient = {
+    db: () => mockDb,
+}
+
+const mockClientPromise = Promise.resolve(mockClient)
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Helper to make a find() cursor resolve to the given documents
+function cursor(documents: unknown[]) {
+    return {
+        sort: vi.fn().mockReturnThis(),
+        collation: vi.fn().mockReturnThis(),
+        skip: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        toArray: vi.fn().mockResolvedValue(documents),
+    }
+}
+
+const documents = [
+    {
+        id: 'bowl',
+        name: 'Walnut Salad Bowl',
+        description: 'A wide bowl turned from a single piece of walnut, finished with food-safe oil.',
+        category: 'Kitchen',
+        variants: ''
+    },
+    {
+        id: 'mug',
+        name: 'Ceramic Mug',
+        description: 'Wheel-thrown stoneware mug with a celadon glaze. Holds a generous cup of tea.',
+        category: 'Home Kitchen',
+        variants: 'MUG-BLUE Glaze: Blue'
+    },
+    {
+        id: 'blanket',
+        name: 'Wool Throw Blanket',
+        description: 'Handwoven from undyed wool, ideal for a reading chair. Pairs well with a ceramic mug.',
+        category: 'Textiles',
+        variants: ''
+    },
+]
+
+// --- Unit Tests ---
+
+describe('search text', () => {
+    it('should tokenize text into normalized terms without punctuation or stop words', async () => {
+        const { tokenize } = await import('./search/text')
+
+        expect(tokenize('The Café (Blue) Mug')).toEqual(['cafe', 'blue', 'mug'])
+        expect(tokenize('((')).toEqual([])
+    })
+
+    it('should count transposed letters as a single edit', async () => {
+        const { editDistance } = await import('./search/text')
+
+        expect(editDistance('ceramic', 'cermaic', 2)).toBe(1)
+        expect(editDistance('walnut', 'walnot', 2)).toBe(1)
+        expect(editDistance('mug', 'blanket', 2)).toBe(3)
+    })
+
+    it('should highlight matched words and cut snippets around the first match', async () => {
+        const { highlight, snippet } = await import('./search/text')
+
+        expect(highlight('Ceramic Mug', new Set(['mug']))).toEqual([
+            { text: 'Ceramic ', match: false },
+            { text: 'Mug', match: true },
+        ])
+
+        const text = `${'Lorem ipsum dolor sit amet. '.repeat(10)}Finished with a celadon glaze.`
+        const excerpt = snippet(text, new Set(['celadon']), 60)!
+        expect(excerpt[0]).toEqual({ text: '…', match: false })
+        expect(excerpt.some(segment => segment.match && segment.text === 'celadon')).toBe(true)
+        expect(snippet(text, new Set(['walnut']))).toBeNull()
+    })
+})
+
+describe('createProductSearchIndex', () => {
+    it('should rank name matches above description matches', async () => {
+        const { createProductSearchIndex } = await import('./search/product-index')
+        const index = createProductSearchIndex(documents)
+
+        expect(index.search('ceramic mug').map(hit => hit.id)).toEqual(['mug', 'blanket'])
+    })
+
+    it('should require every query term to match', async () => {
+        const { createProductSearchIndex } = await import('./search/product-index')
+        const index = createProductSearchIndex(documents)
+
+        expect(index.search('walnut mug')).toEqual([])
+    })
+
+    it('should match unfinished words and typos', async () => {
+        const { createProductSearchIndex } = await import('./search/product-index')
+        const index = createProductSearchIndex(documents)
+
+        expect(index.search('blan').map(hit => hit.id)).toEqual(['blanket'])
+        expect(index.search('walnot').map(hit => hit.id)).toEqual(['bowl'])
+        expect(index.search('ceramci').map(hit => hit.id)).toContain('mug')
+    })
+
+    it('should search category names and variant options', async () => {
+        const { createProductSearchIndex } = await import('./search/product-index')
+        const index = createProductSearchIndex(documents)
+
+        expect(index.search('textiles').map(hit => hit.id)).toEqual(['blanket'])
+        expect(index.search('mug-blue').map(hit => hit.id)).toEqual(['mug'])
+    })
+
+    it('should return highlights for the name and a description snippet', async () => {
+        const { createProductSearchIndex } = await import('./search/product-index')
+        const index = createProductSearchIndex(documents)
+
+        const [hit] = index.search('celadon')
+        expect(hit.id).toBe('mug')
+        expect(hit.highlight.name).toEqual([{ text: 'Ceramic Mug', match: false }])
+        expect(hit.highlight.snippet).toContainEqual({ text: 'celadon', match: true })
+    })
+})
+
+describe('getProductList - Search', () => {
+    const bowlId = new ObjectId()
+    const mugId = new ObjectId()
+    const products = [
+        { _id: bowlId, name: 'Walnut Salad Bowl', description: 'Turned walnut', supplierId: 'supplier-1', status: 'active' },
+        { _id: mugId, name: 'Ceramic Mug', description: 'Pairs well with a walnut bowl', supplierId: 'supplier-1', status: 'active' },
+    ]
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+        mockCategoryCollection.find.mockReturnValue(cursor([]))
+    })
+
+    it('should order results by relevance and return highlights', async () => {
+        const { getProductList } = await import('./product-utils')
+        mockProductCollection.find
+            .mockReturnValueOnce(cursor(products))                          // Index build
+            .mockReturnValueOnce(cursor([{ _id: mugId }, { _id: bowlId }]))  // Filtered matches
+            .mockReturnValueOnce(cursor([products[1], products[0]]))        // Page documents
+
+        const result = await getProductList({ search: 'walnut (bowl', status: 'active' })
+
+        expect(result.products.map(product => product.name)).toEqual(['Walnut Salad Bowl', 'Ceramic Mug'])
+        expect(result.total).toBe(2)
+        expect(result.highlights?.[bowlId.toHexString()].name[0]).toEqual({ text: 'Walnut', match: true })
+
+        const [filter] = mockProductCollection.find.mock.calls[1]
+        expect(filter.status).toBe('active')
+        expect(filter._id.$in).toHaveLength(2)
+        expect(JSON.stringify(filter)).not.toContain('$regex')
+    })
+
+    it('should page through ranked results with cursors', async () => {
+        const { getProductList } = await import('./product-utils')
+        const matches = [{ _id: mugId }, { _id: bowlId }]
+        mockProductCollection.find
+            .mockReturnValueOnce(cursor(products))      // Index build
+            .mockReturnValueOnce(cursor(matches))       // Filtered matches
+            .mockReturnValueOnce(cursor([products[0]])) // First page
+            .mockReturnValueOnce(cursor(matches))
+            .mockReturnValueOnce(cursor([products[1]])) // Second page
+
+        const first = await getProductList({ search: 'walnut bowl', pagination: 'cursor', limit: 1 })
+        expect(first.products.map(product => product.name)).toEqual(['Walnut Salad Bowl'])
+        expect(first.nextCursor).toEqual(expect.any(String))
+
+        const second = await getProductList({ search: 'walnut bowl', pagination: 'cursor', limit: 1, cursor: first.nextCursor! })
+        expect(second.products.map(product => product.name)).toEqual(['Ceramic Mug'])
+        expect(second.nextCursor).toBeNull()
+        expect(second.prevCursor).toEqual(expect.any(String))
+
+        const [pageFilter] = mockProductCollection.find.mock.calls[4]
+        expect(pageFilter._id.$in.map((id: ObjectId) => id.toHexString())).toEqual([mugId.toHexString()])
+    })
+
+    it('should list everything when the query has no searchable words', async () => {
+        const { getProductList } = await import('./product-utils')
+        mockProductCollection.find.mockReturnValue(cursor(products))
+        mockProductCollection.countDocuments.mockResolvedValue(2)
+
+        const result = await getProductList({ search: '((' })
+
+        expect(result.total).toBe(2)
+        expect(result.highlights).toBeUndefined()
+        expect(mockProductCollection.find).toHaveBeenCalledWith({})
+    })
+
+    it('should count facets with supplier names', async () => {
+        const { getProductList } = await import('./product-utils')
+        const supplierId = new ObjectId()
+        mockProductCollection.find.mockReturnValue(cursor(products))
+        mockProductCollection.countDocuments.mockResolvedValue(2)
+        mockProductCollection.aggregate.mockReturnValue({
+            toArray: vi.fn().mockResolvedValue([{
+                priceBands: [{ _id: 25, count: 1 }, { _id: 'top', count: 1 }],
+                suppliers: [{ _id: supplierId.toHexString(), count: 2 }],
+                categories: [{ _id: 'cat-1', count: 2 }],
+                inStock: [{ count: 1 }],
+                total: [{ count: 2 }],
+            }]),
+        })
+        mockUserCollection.find.mockReturnValue(cursor([{ _id: supplierId, name: 'Oak & Ash Studio' }]))
+
+        const result = await getProductList({ facets: true })
+
+        expect(result.facets).toEqual({
+            priceBands: [
+                { min: 25, max: 50, count: 1 },
+                { min: 250, max: null, count: 1 },
+            ],
+            suppliers: [{ value: supplierId.toHexString(), label: 'Oak & Ash Studio', count: 2 }],
+            categories: [{ value: 'cat-1', count: 2 }],
+            inStock: 1,
+            total: 2,
+        })
+    })
+})
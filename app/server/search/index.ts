@@ -0,0 +1,83 @@
+import clientPromise from '../db/mongo'
+import { getCategoryTrail } from '../category-tree'
+import { describeVariant } from '../product-variants'
+import { createProductSearchIndex, type ProductSearchDocument, type ProductSearchIndex } from './product-index'
+
+// Rebuild at least this often, so changes made by other server instances show up
+const INDEX_TTL_MS = 60 * 1000
+
+// Lazy-initialized product search index, rebuilt from the database when stale
+let _index: ProductSearchIndex | null = null
+let _builtAt = 0
+let _building: Promise<ProductSearchIndex> | null = null
+// Bumped on every invalidation, so a rebuild that raced with a change is not trusted
+let _version = 0
+
+/**
+ * Load every product's searchable text from the database
+ */
+async function loadDocuments(): Promise<ProductSearchDocument[]> {
+    const client = await clientPromise
+    const db = client.db()
+
+    const [products, categories] = await Promise.all([
+        db.collection('products')
+            .find({}, { projection: { name: 1, description: 1, categoryId: 1, variants: 1 } })
+            .toArray(),
+        db.collection('categories')
+            .find({}, { projection: { name: 1, parentId: 1 } })
+            .toArray()
+    ])
+
+    const nodes = categories.map(category => ({
+        _id: category._id.toHexString(),
+        parentId: category.parentId as string | null,
+        name: category.name as string
+    }))
+
+    return products.map(product => ({
+        id: product._id.toHexString(),
+        name: product.name || '',
+        description: product.description || '',
+        category: product.categoryId
+            ? getCategoryTrail(nodes, product.categoryId).map(category => category.name).join(' ')
+            : '',
+        variants: (product.variants || [])
+            .map((variant: { sku: string; options: Record<string, string> }) =>
+                `${variant.sku} ${describeVariant(variant.options)}`
+            )
+            .join(' ')
+    }))
+}
+
+/**
+ * Get the product search index, building it first if it is missing or stale
+ */
+export async function getProductSearchIndex(): Promise<ProductSearchIndex> {
+    if (_index && Date.now() - _builtAt < INDEX_TTL_MS) {
+        return _index
+    }
+
+    // Concurrent searches share one rebuild
+    if (!_building) {
+        const version = _version
+        _building = loadDocuments()
+            .then(documents => {
+                _index = createProductSearchIndex(documents)
+                _builtAt = version === _version ? Date.now() : 0
+                return _index
+            })
+            .finally(() => {
+                _building = null
+            })
+    }
+    return await _building
+}
+
+/**
+ * Mark the index stale after products or categories change, so the next search rebuilds it
+ */
+export function invalidateProductSearchIndex(): void {
+    _version++
+    _builtAt = 0
+}
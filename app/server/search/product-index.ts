@@ -0,0 +1,156 @@
+import { allowedTypos, editDistance, highlight, snippet, tokenize, type HighlightSegment } from './text'
+
+// --- Search Types ---
+
+// Searchable text of a product
+export interface ProductSearchDocument {
+    id: string
+    name: string
+    description: string
+    category: string         // Names of the product's category and its ancestors
+    variants: string         // Variant SKUs and option values
+}
+
+type SearchField = Exclude<keyof ProductSearchDocument, 'id'>
+
+// How much a match in each field counts towards relevance
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    name: 4,
+    category: 2,
+    variants: 2,
+    description: 1
+}
+
+// How much weaker looser matches count than a whole word
+const PREFIX_MATCH = 0.8
+const TYPO_MATCH = 0.5
+
+export interface ProductHighlight {
+    name: HighlightSegment[]
+    snippet: HighlightSegment[] | null   // Excerpt of the description, when it matched
+}
+
+export interface ProductSearchHit {
+    id: string
+    score: number
+    highlight: ProductHighlight
+}
+
+/**
+ * An in-memory inverted index over product text
+ * Every query term must match a document, whole, as the start of a word, or with a
+ * typo or two, for the document to be returned
+ */
+export interface ProductSearchIndex {
+    readonly size: number
+    // Hits ordered by relevance, best first
+    search(query: string): ProductSearchHit[]
+}
+
+/**
+ * Build a search index over the given products
+ */
+export function createProductSearchIndex(documents: ProductSearchDocument[]): ProductSearchIndex {
+    // term -> document id -> weighted number of occurrences
+    const postings = new Map<string, Map<string, number>>()
+    const byId = new Map(documents.map(document => [document.id, document]))
+
+    for (const document of documents) {
+        for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+            for (const term of tokenize(document[field])) {
+                let posting = postings.get(term)
+                if (!posting) {
+                    posting = new Map()
+                    postings.set(term, posting)
+                }
+                posting.set(document.id, (posting.get(document.id) || 0) + FIELD_WEIGHTS[field])
+            }
+        }
+    }
+
+    /**
+     * Index terms a query term matches, with how closely each matches
+     */
+    const expand = (queryTerm: string, isLast: boolean): Map<string, number> => {
+        const matches = new Map<string, number>()
+        const maxTypos = allowedTypos(queryTerm.length)
+
+        for (const term of postings.keys()) {
+            if (term === queryTerm) {
+                matches.set(term, 1)
+            } else if (term.startsWith(queryTerm) && (isLast || queryTerm.length >= 3)) {
+                // The last word is usually still being typed, so any prefix of it counts
+                matches.set(term, PREFIX_MATCH)
+            } else if (maxTypos > 0) {
+                const distance = editDistance(queryTerm, term, maxTypos)
+                if (distance <= maxTypos) {
+                    matches.set(term, TYPO_MATCH / distance)
+                }
+            }
+        }
+        return matches
+    }
+
+    return {
+        get size() {
+            return documents.length
+        },
+
+        search(query: string): ProductSearchHit[] {
+            const queryTerms = [...new Set(tokenize(query))]
+            if (queryTerms.length === 0) {
+                return []
+            }
+
+            let scores: Map<string, number> | null = null
+            const matchedTerms = new Map<string, Set<string>>()
+
+            for (const [index, queryTerm] of queryTerms.entries()) {
+                const termScores = new Map<string, number>()
+
+                for (const [term, closeness] of expand(queryTerm, index === queryTerms.length - 1)) {
+                    const posting = postings.get(term)!
+                    // Rarer terms tell products apart better
+                    const rarity = Math.log(1 + documents.length / posting.size)
+                    for (const [id, weight] of posting) {
+                        if (scores && !scores.has(id)) continue
+                        const score = closeness * weight * rarity
+                        termScores.set(id, Math.max(termScores.get(id) || 0, score))
+
+                        let terms = matchedTerms.get(id)
+                        if (!terms) {
+                            terms = new Set()
+                            matchedTerms.set(id, terms)
+                        }
+                        terms.add(term)
+                    }
+                }
+
+                // Documents must match every query term
+                const previous: Map<string, number> | null = scores
+                scores = new Map()
+                for (const [id, score] of termScores) {
+                    scores.set(id, (previous?.get(id) || 0) + score)
+                }
+                if (scores.size === 0) {
+                    return []
+                }
+            }
+
+            return [...scores!.entries()]
+                .sort(([, a], [, b]) => b - a)
+                .map(([id, score]) => {
+                    const document = byId.get(id)!
+                    const terms = matchedTerms.get(id)!
+                    return {
+                        id,
+                        score,
+                        highlight: {
+                            name: highlight(document.name, terms),
+                            snippet: snippet(document.description, terms)
+                        }
+                    }
+                })
+        }
+    }
+}
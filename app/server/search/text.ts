@@ -0,0 +1,133 @@
+// Text handling shared by the search index and result highlighting
+
+// A run of text in a highlighted result; matched runs are shown emphasised
+export interface HighlightSegment {
+    text: string
+    match: boolean
+}
+
+// Words too common to tell products apart
+const STOP_WORDS = new Set(['a', 'an', 'and', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'with'])
+
+/**
+ * Lowercase a word and strip its accents, so "Café" and "cafe" match
+ */
+export function normalizeWord(word: string): string {
+    return word
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+}
+
+/**
+ * Split text into normalized search terms, dropping stop words
+ * Any punctuation separates terms, so queries like "mug (blue" are safe
+ */
+export function tokenize(text: string): string[] {
+    return normalizeWord(text)
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(term => term && !STOP_WORDS.has(term))
+}
+
+/**
+ * Number of typos tolerated in a query term of the given length
+ */
+export function allowedTypos(length: number): number {
+    if (length >= 8) return 2
+    if (length >= 4) return 1
+    return 0
+}
+
+/**
+ * Edit distance between two terms, counting a swap of neighbouring letters as one edit
+ * Gives up and returns max + 1 once the distance is known to exceed max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) {
+        return max + 1
+    }
+
+    // Three rows of the dynamic programming table: two rows back, previous and current
+    let before = new Array<number>(b.length + 1).fill(0)
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+    let current = new Array<number>(b.length + 1).fill(0)
+
+    for (let i = 1; i <= a.length; i++) {
+        current[0] = i
+        let rowMin = current[0]
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], before[j - 2] + 1)
+            }
+            rowMin = Math.min(rowMin, current[j])
+        }
+        if (rowMin > max) {
+            return max + 1
+        }
+        [before, previous, current] = [previous, current, before]
+    }
+
+    return previous[b.length]
+}
+
+/**
+ * Split text into segments, marking the words whose terms were matched
+ */
+export function highlight(text: string, matchedTerms: Set<string>): HighlightSegment[] {
+    const segments: HighlightSegment[] = []
+    // Words and the separators between them, in order
+    for (const part of text.split(/([^\p{L}\p{N}]+)/u)) {
+        if (!part) continue
+        const match = matchedTerms.has(normalizeWord(part))
+        const last = segments[segments.length - 1]
+        if (last && last.match === match) {
+            last.text += part
+        } else {
+            segments.push({ text: part, match })
+        }
+    }
+    return segments
+}
+
+/**
+ * Highlighted excerpt of long text around its first matched word
+ * Returns null when no word in the text was matched
+ */
+export function snippet(text: string, matchedTerms: Set<string>, length: number = 160): HighlightSegment[] | null {
+    const words = text.split(/([^\p{L}\p{N}]+)/u)
+    let offset = 0
+    let firstMatch = -1
+    for (const word of words) {
+        if (word && matchedTerms.has(normalizeWord(word))) {
+            firstMatch = offset
+            break
+        }
+        offset += word.length
+    }
+    if (firstMatch === -1) {
+        return null
+    }
+
+    // Start a little before the match, on a word boundary
+    let start = Math.max(0, firstMatch - Math.floor(length / 4))
+    if (start > 0) {
+        const space = text.indexOf(' ', start)
+        start = space !== -1 && space < firstMatch ? space + 1 : firstMatch
+    }
+    let end = Math.min(text.length, start + length)
+    if (end < text.length) {
+        const space = text.lastIndexOf(' ', end)
+        end = space > firstMatch ? space : end
+    }
+
+    const segments = highlight(text.slice(start, end), matchedTerms)
+    if (start > 0) {
+        segments.unshift({ text: '…', match: false })
+    }
+    if (end < text.length) {
+        segments.push({ text: '…', match: false })
+    }
+    return segments
+}
@@ -0,0 +1,27 @@
+import type { RejectionReason } from './supplier-application-utils'
+
+// --- Supplier Application Rules ---
+// Kept free of database imports so the application form and review queue can share them
+
+export const REJECTION_REASONS: Record<RejectionReason, string> = {
+    incomplete_details: 'Business details are incomplete',
+    photo_quality: 'Sample photos do not show the work clearly',
+    not_handmade: 'Products do not appear to be handmade',
+    prohibited_items: 'Products are not allowed on Makerskind',
+    duplicate: 'Duplicate of another shop',
+    other: 'Other (see note)'
+}
+
+export const MAX_SAMPLE_PHOTOS = 6
+
+// Longest text accepted for each application field
+export const APPLICATION_LIMITS = {
+    businessName: 80,
+    craft: 80,
+    location: 80,
+    description: 2000,
+    website: 200,
+    accountHolder: 120,
+    country: 60,
+    reviewNote: 1000
+} as const
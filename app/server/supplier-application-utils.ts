@@ -0,0 +1,317 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, Collection, Db, WithId } from 'mongodb'
+import type { UserRole } from '../utils/auth'
+import { APPLICATION_LIMITS, MAX_SAMPLE_PHOTOS, REJECTION_REASONS } from './supplier-application-state'
+import { createSupplierProfile } from './supplier-utils'
+
+// --- Supplier Application Types ---
+
+// pending -> approved, or pending -> rejected; rejected applicants may apply again
+export type SupplierApplicationStatus = 'pending' | 'approved' | 'rejected'
+
+export type RejectionReason =
+    | 'incomplete_details'
+    | 'photo_quality'
+    | 'not_handmade'
+    | 'prohibited_items'
+    | 'duplicate'
+    | 'other'
+
+// Placeholder until supplier payouts exist: no bank details are collected yet
+export interface PayoutDetails {
+    accountHolder: string
+    country: string
+}
+
+// A customer's request to sell on Makerskind, reviewed by an admin
+export interface SupplierApplication {
+    _id?: ObjectId
+    userId: string           // BetterAuth user ID of the applicant
+    applicantName: string
+    applicantEmail: string
+    businessName: string
+    craft: string            // What they make, e.g. "Ceramics"
+    description: string
+    location: string
+    website?: string
+    samplePhotos: string[]
+    payout: PayoutDetails
+    status: SupplierApplicationStatus
+    rejectionReasons: RejectionReason[]
+    reviewNote?: string      // Shown to the applicant alongside the rejection reasons
+    reviewedBy?: string
+    reviewedAt?: Date
+    createdAt: Date
+    updatedAt: Date
+}
+
+// --- Serializable Types ---
+
+export interface SupplierApplicationSerializable extends Omit<SupplierApplication, '_id' | 'reviewedAt' | 'createdAt' | 'updatedAt'> {
+    _id: string
+    reviewedAt?: string
+    createdAt: string
+    updatedAt: string
+}
+
+// --- Input Types ---
+
+export interface SubmitSupplierApplicationInput {
+    businessName: string
+    craft: string
+    description: string
+    location: string
+    website?: string
+    samplePhotos: string[]
+    payout: PayoutDetails
+}
+
+export interface ReviewSupplierApplicationInput {
+    decision: 'approve' | 'reject'
+    reasons?: RejectionReason[]
+    note?: string
+}
+
+// Who is applying, as known from their session
+export interface Applicant {
+    id: string
+    name: string | null
+    email: string
+    role: UserRole
+    isAnonymous?: boolean
+}
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getSupplierApplicationCollection(): Promise<Collection<SupplierApplication>> {
+    const db = await getDb()
+    return db.collection<SupplierApplication>('supplier_applications')
+}
+
+// --- Utility Functions ---
+
+/**
+ * Convert a MongoDB supplier application document to a serializable format
+ */
+export function toSerializable(application: WithId<SupplierApplication>): SupplierApplicationSerializable {
+    return {
+        ...application,
+        _id: application._id.toHexString(),
+        reviewedAt: application.reviewedAt?.toISOString(),
+        createdAt: application.createdAt.toISOString(),
+        updatedAt: application.updatedAt.toISOString()
+    }
+}
+
+/**
+ * Trim an application text field and check it fits
+ */
+function cleanText(field: keyof typeof APPLICATION_LIMITS, value: string | undefined, label: string, required = true): string {
+    const text = (value || '').trim()
+    if (required && !text) {
+        throw new Error(`${label} is required`)
+    }
+    if (text.length > APPLICATION_LIMITS[field]) {
+        throw new Error(`${label} must be ${APPLICATION_LIMITS[field]} characters or fewer`)
+    }
+    return text
+}
+
+/**
+ * Get a user's most recent application, if they have made one
+ */
+export async function getLatestApplication(userId: string): Promise<WithId<SupplierApplication> | null> {
+    const collection = await getSupplierApplicationCollection()
+    return await collection.findOne({ userId }, { sort: { createdAt: -1 } })
+}
+
+/**
+ * Get applications for the admin review queue, oldest first
+ */
+export async function getSupplierApplications(
+    options: { status?: SupplierApplicationStatus } = {}
+): Promise<WithId<SupplierApplication>[]> {
+    const collection = await getSupplierApplicationCollection()
+    const filter = options.status ? { status: options.status } : {}
+    return await collection.find(filter).sort({ createdAt: 1 }).toArray()
+}
+
+/**
+ * Apply to become a supplier
+ * Only signed-in customers can apply, and only one application can be under review at a time
+ */
+export async function submitSupplierApplication(
+    applicant: Applicant,
+    input: SubmitSupplierApplicationInput
+): Promise<WithId<SupplierApplication>> {
+    const collection = await getSupplierApplicationCollection()
+
+    if (applicant.isAnonymous) {
+        throw new Error('Create an account before applying')
+    }
+    if (applicant.role === 'supplier') {
+        throw new Error('Your account can already sell on Makerskind')
+    }
+    if (applicant.role !== 'user') {
+        throw new Error('Staff accounts cannot apply to sell')
+    }
+
+    const businessName = cleanText('businessName', input.businessName, 'Business name')
+    const craft = cleanText('craft', input.craft, 'Craft')
+    const description = cleanText('description', input.description, 'Description')
+    const location = cleanText('location', input.location, 'Location')
+    const website = cleanText('website', input.website, 'Website', false)
+    if (website && !/^https?:\/\/\S+$/.test(website)) {
+        throw new Error('Website must be a full http(s) address')
+    }
+
+    const payout = {
+        accountHolder: cleanText('accountHolder', input.payout?.accountHolder, 'Account holder'),
+        country: cleanText('country', input.payout?.country, 'Payout country')
+    }
+
+    const samplePhotos = input.samplePhotos || []
+    if (samplePhotos.length === 0) {
+        throw new Error('Add at least one photo of your work')
+    }
+    if (samplePhotos.length > MAX_SAMPLE_PHOTOS) {
+        throw new Error(`An application can include at most ${MAX_SAMPLE_PHOTOS} photos`)
+    }
+
+    const pending = await collection.findOne({ userId: applicant.id, status: 'pending' })
+    if (pending) {
+        throw new Error('You already have an application under review')
+    }
+
+    const now = new Date()
+    const application: SupplierApplication = {
+        userId: applicant.id,
+        applicantName: applicant.name || '',
+        applicantEmail: applicant.email,
+        businessName,
+        craft,
+        description,
+        location,
+        ...(website && { website }),
+        samplePhotos,
+        payout,
+        status: 'pending',
+        rejectionReasons: [],
+        createdAt: now,
+        updatedAt: now
+    }
+
+    const result = await collection.insertOne(application)
+    return { ...application, _id: result.insertedId }
+}
+
+/**
+ * Approve or reject a pending application
+ * Approving promotes the applicant to a supplier and creates their storefront profile
+ * in the same transaction, so an approved application always has a supplier behind it
+ */
+export async function reviewSupplierApplication(
+    applicationId: string,
+    input: ReviewSupplierApplicationInput,
+    reviewerId: string
+): Promise<WithId<SupplierApplication> | null> {
+    const { ObjectId } = await import('mongodb')
+
+    let objectId: ObjectId
+    try {
+        objectId = new ObjectId(applicationId)
+    } catch {
+        return null
+    }
+
+    const reasons = [...new Set(input.reasons || [])]
+    if (reasons.some(reason => !(reason in REJECTION_REASONS))) {
+        throw new Error('Invalid rejection reason')
+    }
+    if (input.decision === 'reject' && reasons.length === 0) {
+        throw new Error('Choose at least one reason for rejecting')
+    }
+    const note = cleanText('reviewNote', input.note, 'Note', false)
+
+    const client = await clientPromise
+    const session = client.startSession()
+
+    try {
+        let found = false
+
+        await session.withTransaction(async () => {
+            const db = client.db()
+            const collection = db.collection<SupplierApplication>('supplier_applications')
+
+            const application = await collection.findOne({ _id: objectId }, { session })
+            found = !!application
+            if (!application) {
+                return
+            }
+
+            if (application.status !== 'pending') {
+                throw new Error('Application has already been reviewed')
+            }
+
+            const now = new Date()
+            const status = input.decision === 'approve' ? 'approved' : 'rejected'
+
+            const result = await collection.updateOne(
+                { _id: objectId, status: 'pending' },
+                {
+                    $set: {
+                        status,
+                        rejectionReasons: status === 'rejected' ? reasons : [],
+                        reviewedBy: reviewerId,
+                        reviewedAt: now,
+                        updatedAt: now,
+                        ...(note && { reviewNote: note })
+                    }
+                },
+                { session }
+            )
+
+            if (result.matchedCount === 0) {
+                throw new Error('Application was modified concurrently. Please try again.')
+            }
+
+            if (status === 'approved') {
+                // Only customers are promoted; admins keep their role
+                // BetterAuth's Mongo adapter stores the user ID as the document _id
+                const promoted = await db.collection('user').updateOne(
+                    { _id: new ObjectId(application.userId), role: 'user' },
+                    { $set: { role: 'supplier', updatedAt: now } },
+                    { session }
+                )
+                if (promoted.matchedCount === 0) {
+                    throw new Error('Applicant account can no longer be made a supplier')
+                }
+
+                await createSupplierProfile(db, application.userId, {
+                    displayName: application.businessName,
+                    location: application.location,
+                    story: application.description
+                }, session)
+            }
+        })
+
+        if (!found) {
+            return null
+        }
+    } finally {
+        await session.endSession()
+    }
+
+    const collection = await getSupplierApplicationCollection()
+    return await collection.findOne({ _id: objectId })
+}
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// --- Mock Imports for Testing ---
+
+// Mock for MongoDB collections
+const mockApplicationCollection = {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    insertOne: vi.fn(),
+    updateOne: vi.fn(),
+}
+
+const mockUserCollection = {
+    updateOne: vi.fn(),
+}
+
+const mockProfileCollection = {
+    updateOne: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'user') return mockUserCollection
+        if (name === 'supplier_profiles') return mockProfileCollection
+        return mockApplicationCollection
+    }),
+}
+
+const mockSession = {
+    withTransaction: vi.fn(async (callback: () => Promise<void>) => {
+        await callback()
+    }),
+    endSession: vi.fn(),
+}
+
+const mockClient = {
+    db: () => mockDb,
+    startSession: () => mockSession,
+}
+
+const mockClientPromise = Promise.resolve(mockClient)
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Mock ObjectId
+vi.mock('mongodb', () => ({
+    ObjectId: class MockObjectId {
+        private id: string
+        constructor(id?: string) {
+            this.id = id || Math.random().toString(36).substring(7)
+        }
+        toHexString() {
+            return this.id
+        }
+        toString() {
+            return this.id
+        }
+    },
+}))
+
+const applicant = {
+    id: 'customer-1',
+    name: 'Jo Potter',
+    email: 'jo@example.com',
+    role: 'user' as const,
+}
+
+const validInput = {
+    businessName: '  Jo Potter Ceramics ',
+    craft: 'Ceramics',
+    description: 'Wheel-thrown stoneware fired in a wood kiln',
+    location: 'Bristol',
+    samplePhotos: ['https://storage.googleapis.com/bucket/supplier-applications/customer-1/1_mug.jpg'],
+    payout: { accountHolder: 'Jo Potter', country: 'United Kingdom' },
+}
+
+const pendingApplication = {
+    _id: { toHexString: () => 'application-1' },
+    userId: 'customer-1',
+    applicantName: 'Jo Potter',
+    applicantEmail: 'jo@example.com',
+    businessName: 'Jo Potter Ceramics',
+    craft: 'Ceramics',
+    description: 'Wheel-thrown stoneware',
+    location: 'Bristol',
+    samplePhotos: [],
+    payout: { accountHolder: 'Jo Potter', country: 'United Kingdom' },
+    status: 'pending',
+    rejectionReasons: [],
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+}
+
+// --- Unit Tests ---
+
+describe('submitSupplierApplication', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should store a pending application with trimmed details', async () => {
+        const { submitSupplierApplication } = await import('./supplier-application-utils')
+        mockApplicationCollection.findOne.mockResolvedValue(null)
+        mockApplicationCollection.insertOne.mockResolvedValue({ insertedId: 'application-1' })
+
+        const application = await submitSupplierApplication(applicant, validInput)
+
+        const [stored] = mockApplicationCollection.insertOne.mock.calls[0]
+        expect(stored).toMatchObject({
+            userId: 'customer-1',
+            applicantEmail: 'jo@example.com',
+            businessName: 'Jo Potter Ceramics',
+            status: 'pending',
+            rejectionReasons: [],
+        })
+        expect(stored).not.toHaveProperty('website')
+        expect(application._id).toBe('application-1')
+    })
+
+    it('should refuse a second application while one is under review', async () => {
+        const { submitSupplierApplication } = await import('./supplier-application-utils')
+        mockApplicationCollection.findOne.mockResolvedValue(pendingApplication)
+
+        await expect(submitSupplierApplication(applicant, validInput))
+            .rejects.toThrow('You already have an application under review')
+        expect(mockApplicationCollection.findOne).toHaveBeenCalledWith({ userId: 'customer-1', status: 'pending' })
+        expect(mockApplicationCollection.insertOne).not.toHaveBeenCalled()
+    })
+
+    it('should refuse suppliers, guests and applications without photos', async () => {
+        const { submitSupplierApplication } = await import('./supplier-application-utils')
+
+        await expect(submitSupplierApplication({ ...applicant, role: 'supplier' }, validInput))
+            .rejects.toThrow('Your account can already sell on Makerskind')
+        await expect(submitSupplierApplication({ ...applicant, isAnonymous: true }, validInput))
+            .rejects.toThrow('Create an account before applying')
+        await expect(submitSupplierApplication(applicant, { ...validInput, samplePhotos: [] }))
+            .rejects.toThrow('Add at least one photo of your work')
+        await expect(submitSupplierApplication(applicant, { ...validInput, website: 'example.com' }))
+            .rejects.toThrow('Website must be a full http(s) address')
+        expect(mockApplicationCollection.insertOne).not.toHaveBeenCalled()
+    })
+})
+
+describe('reviewSupplierApplication', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should promote the applicant and create their profile on approval', async () => {
+        const { reviewSupplierApplication } = await import('./supplier-application-utils')
+        mockApplicationCollection.findOne.mockResolvedValue(pendingApplication)
+        mockApplicationCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockUserCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+
+        await reviewSupplierApplication('application-1', { decision: 'approve' }, 'admin-1')
+
+        const [, update] = mockApplicationCollection.updateOne.mock.calls[0]
+        expect(update.$set).toMatchObject({ status: 'approved', reviewedBy: 'admin-1', rejectionReasons: [] })
+        const [userFilter] = mockUserCollection.updateOne.mock.calls[0]
+        expect(userFilter._id.toHexString()).toBe('customer-1')
+        expect(userFilter.role).toBe('user')
+        expect(mockUserCollection.updateOne.mock.calls[0][1].$set.role).toBe('supplier')
+
+        const [filter, profileUpdate, options] = mockProfileCollection.updateOne.mock.calls[0]
+        expect(filter).toEqual({ supplierId: 'customer-1' })
+        expect(profileUpdate.$setOnInsert).toMatchObject({
+            displayName: 'Jo Potter Ceramics',
+            location: 'Bristol',
+            story: 'Wheel-thrown stoneware',
+        })
+        expect(options).toMatchObject({ upsert: true })
+    })
+
+    it('should find the applicant as the auth adapter stores them', async () => {
+        const { reviewSupplierApplication } = await import('./supplier-application-utils')
+        const { ObjectId } = await import('mongodb')
+        // Users are stored under _id, with no id field
+        const storedUser: Record<string, any> = { _id: new ObjectId('customer-1'), email: 'jo@example.com', role: 'user' }
+        mockApplicationCollection.findOne.mockResolvedValue(pendingApplication)
+        mockApplicationCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockUserCollection.updateOne.mockImplementation(async (filter: Record<string, any>, update: Record<string, any>) => {
+            const matches = Object.entries(filter).every(([key, value]) =>
+                key === '_id' ? value?.toHexString() === storedUser._id.toHexString() : storedUser[key] === value
+            )
+            if (matches) Object.assign(storedUser, update.$set)
+            return { matchedCount: matches ? 1 : 0 }
+        })
+
+        await reviewSupplierApplication('application-1', { decision: 'approve' }, 'admin-1')
+
+        expect(storedUser.role).toBe('supplier')
+        expect(storedUser).not.toHaveProperty('id')
+    })
+
+    it('should record the reasons on rejection without changing the user', async () => {
+        const { reviewSupplierApplication } = await import('./supplier-application-utils')
+        mockApplicationCollection.findOne.mockResolvedValue(pendingApplication)
+        mockApplicationCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+
+        await reviewSupplierApplication('application-1', {
+            decision: 'reject',
+            reasons: ['photo_quality', 'photo_quality'],
+            note: ' Please show the finished pieces ',
+        }, 'admin-1')
+
+        const [, update] = mockApplicationCollection.updateOne.mock.calls[0]
+        expect(update.$set).toMatchObject({
+            status: 'rejected',
+            rejectionReasons: ['photo_quality'],
+            reviewNote: 'Please show the finished pieces',
+        })
+        expect(mockUserCollection.updateOne).not.toHaveBeenCalled()
+        expect(mockProfileCollection.updateOne).not.toHaveBeenCalled()
+    })
+
+    it('should require a reason to reject and refuse to review twice', async () => {
+        const { reviewSupplierApplication } = await import('./supplier-application-utils')
+
+        await expect(reviewSupplierApplication('application-1', { decision: 'reject' }, 'admin-1'))
+            .rejects.toThrow('Choose at least one reason for rejecting')
+
+        mockApplicationCollection.findOne.mockResolvedValue({ ...pendingApplication, status: 'approved' })
+        await expect(reviewSupplierApplication('application-1', { decision: 'approve' }, 'admin-1'))
+            .rejects.toThrow('Application has already been reviewed')
+        expect(mockApplicationCollection.updateOne).not.toHaveBeenCalled()
+    })
+
+    it('should roll back when the applicant is no longer a customer', async () => {
+        const { reviewSupplierApplication } = await import('./supplier-application-utils')
+        mockApplicationCollection.findOne.mockResolvedValue(pendingApplication)
+        mockApplicationCollection.updateOne.mockResolvedValue({ matchedCount: 1 })
+        mockUserCollection.updateOne.mockResolvedValue({ matchedCount: 0 })
+
+        await expect(reviewSupplierApplication('application-1', { decision: 'approve' }, 'admin-1'))
+            .rejects.toThrow('Applicant account can no longer be made a supplier')
+        expect(mockProfileCollection.updateOne).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,143 @@
+import { createServerFn } from '@tanstack/react-start'
+
+import type {
+    ReviewSupplierApplicationInput,
+    SubmitSupplierApplicationInput,
+    SupplierApplicationStatus
+} from './supplier-application-utils'
+
+// --- Input Types for Server Functions ---
+
+interface UploadSamplePhotoInput {
+    filename: string
+    contentType: string
+    content: string
+}
+
+interface GetSupplierApplicationsInput {
+    status?: SupplierApplicationStatus
+}
+
+interface ReviewSupplierApplicationFnInput extends ReviewSupplierApplicationInput {
+    applicationId: string
+}
+
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024
+
+// --- Server Functions ---
+
+/**
+ * Upload a sample photo for a supplier application (Any signed-in customer)
+ * Photos are stored per user so an application can only reference the applicant's own uploads
+ */
+export const uploadSamplePhotoFn = createServerFn({ method: "POST" })
+    .inputValidator((data: UploadSamplePhotoInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { bucket } = await import('./firebase/admin')
+
+        const user = await requireAuth()
+
+        if (!data.contentType.startsWith('image/')) {
+            throw new Error('Only images can be uploaded')
+        }
+
+        const buffer = Buffer.from(data.content, 'base64')
+        if (buffer.length > MAX_PHOTO_BYTES) {
+            throw new Error('Photos must be 5MB or smaller')
+        }
+
+        // Sanitize filename
+        const safeFilename = data.filename.replace(/[^a-zA-Z0-9.-]/g, '_')
+        const path = `supplier-applications/${user.id}/${Date.now()}_${safeFilename}`
+        const file = bucket.file(path)
+
+        await file.save(buffer, {
+            metadata: {
+                contentType: data.contentType,
+            },
+        })
+
+        await file.makePublic()
+        const publicUrl = `https://storage.googleapis.com/${bucket.name}/${path}`
+
+        return { url: publicUrl, success: true }
+    })
+
+/**
+ * Apply to become a supplier (Any signed-in customer)
+ */
+export const submitSupplierApplicationFn = createServerFn({ method: "POST" })
+    .inputValidator((data: SubmitSupplierApplicationInput) => data)
+    .handler(async ({ data }) => {
+        const { requireAuth } = await import('./auth-utils')
+        const { bucket } = await import('./firebase/admin')
+        const { submitSupplierApplication, toSerializable } = await import('./supplier-application-utils')
+
+        const user = await requireAuth()
+
+        // Only accept photos uploaded by this customer through uploadSamplePhotoFn
+        const photoPrefix = `https://storage.googleapis.com/${bucket.name}/supplier-applications/${user.id}/`
+        if ((data.samplePhotos || []).some(url => !url.startsWith(photoPrefix))) {
+            throw new Error('Invalid sample photo')
+        }
+
+        const application = await submitSupplierApplication(user, data)
+
+        return { application: toSerializable(application), success: true }
+    })
+
+/**
+ * Get the current user's most recent supplier application
+ */
+export const getMySupplierApplicationFn = createServerFn({ method: "GET" })
+    .handler(async () => {
+        const { requireAuth } = await import('./auth-utils')
+        const { getLatestApplication, toSerializable } = await import('./supplier-application-utils')
+
+        const user = await requireAuth()
+
+        const application = await getLatestApplication(user.id)
+
+        return {
+            application: application ? toSerializable(application) : null,
+            role: user.role,
+            isAnonymous: !!user.isAnonymous
+        }
+    })
+
+/**
+ * Get supplier applications for review (Admin/Catalogue reviewer only)
+ */
+export const getSupplierApplicationsFn = createServerFn({ method: "GET" })
+    .inputValidator((data: GetSupplierApplicationsInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { getSupplierApplications, toSerializable } = await import('./supplier-application-utils')
+
+        await requirePermission('supplierApplication:review')
+
+        const applications = await getSupplierApplications({ status: data.status })
+
+        return { applications: applications.map(toSerializable) }
+    })
+
+/**
+ * Approve or reject a supplier application (Admin/Catalogue reviewer only)
+ */
+export const reviewSupplierApplicationFn = createServerFn({ method: "POST" })
+    .inputValidator((data: ReviewSupplierApplicationFnInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { reviewSupplierApplication, toSerializable } = await import('./supplier-application-utils')
+
+        const user = await requirePermission('supplierApplication:review')
+        const { applicationId, ...review } = data
+
+        const application = await reviewSupplierApplication(applicationId, review, user.id)
+        if (!application) {
+            throw new Error('Application not found')
+        }
+
+        return { application: toSerializable(application), success: true }
+    })
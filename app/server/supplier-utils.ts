@@ -0,0 +1,264 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, ClientSession, Collection, Db } from 'mongodb'
+import { getUserCollection, getUserNames, toUserObjectId } from './user-utils'
+
+// --- Supplier Types ---
+
+// A maker's public storefront profile, one per supplier account
+export interface SupplierProfile {
+    _id?: ObjectId
+    supplierId: string       // BetterAuth user ID of the supplier
+    displayName: string
+    bio: string              // Short introduction shown on maker cards
+    location: string
+    logoUrl: string | null
+    bannerUrl: string | null
+    story: string            // Longer "about the maker" text for the storefront
+    createdAt: Date
+    updatedAt: Date
+}
+
+// --- Serializable Types ---
+
+export interface SupplierProfileSerializable {
+    supplierId: string
+    displayName: string
+    bio: string
+    location: string
+    logoUrl: string | null
+    bannerUrl: string | null
+    story: string
+    createdAt: string
+    updatedAt: string
+}
+
+// What product listings show about the maker of each product
+export interface MakerSummary {
+    supplierId: string
+    displayName: string
+    location: string
+    logoUrl: string | null
+}
+
+// --- Input Types ---
+
+export interface UpdateSupplierProfileInput {
+    displayName?: string
+    bio?: string
+    location?: string
+    logoUrl?: string | null
+    bannerUrl?: string | null
+    story?: string
+}
+
+// Longest text accepted for each profile field
+const PROFILE_LIMITS = {
+    displayName: 80,
+    bio: 280,
+    location: 80,
+    story: 5000
+} as const
+
+// --- Database Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getSupplierProfileCollection(): Promise<Collection<SupplierProfile>> {
+    const db = await getDb()
+    return db.collection<SupplierProfile>('supplier_profiles')
+}
+
+// --- Utility Functions ---
+
+/**
+ * Convert a supplier profile to a serializable format
+ */
+export function toSerializable(profile: SupplierProfile): SupplierProfileSerializable {
+    return {
+        supplierId: profile.supplierId,
+        displayName: profile.displayName,
+        bio: profile.bio,
+        location: profile.location,
+        logoUrl: profile.logoUrl,
+        bannerUrl: profile.bannerUrl,
+        story: profile.story,
+        createdAt: profile.createdAt.toISOString(),
+        updatedAt: profile.updatedAt.toISOString()
+    }
+}
+
+/**
+ * Profile of a supplier that has not filled theirs in yet, named after their account
+ */
+function defaultProfile(supplierId: string, name: string): SupplierProfile {
+    const createdAt = new Date()
+    return {
+        supplierId,
+        displayName: name,
+        bio: '',
+        location: '',
+        logoUrl: null,
+        bannerUrl: null,
+        story: '',
+        createdAt,
+        updatedAt: createdAt
+    }
+}
+
+/**
+ * Get a supplier's profile
+ * Suppliers without a saved profile get a default one; returns null for anyone who is not a supplier
+ */
+export async function getSupplierProfile(supplierId: string): Promise<SupplierProfile | null> {
+    const collection = await getSupplierProfileCollection()
+
+    const profile = await collection.findOne({ supplierId })
+    if (profile) {
+        return profile
+    }
+
+    const _id = await toUserObjectId(supplierId)
+    if (!_id) {
+        return null
+    }
+
+    const users = await getUserCollection()
+    const user = await users.findOne({ _id, role: 'supplier' })
+    if (!user) {
+        return null
+    }
+
+    return defaultProfile(supplierId, user.name || 'Maker')
+}
+
+/**
+ * Get the makers of a set of products, keyed by supplier ID
+ * Suppliers without a saved profile are shown by their account name
+ */
+export async function getMakerSummaries(supplierIds: string[]): Promise<Map<string, MakerSummary>> {
+    const ids = [...new Set(supplierIds)]
+    if (ids.length === 0) {
+        return new Map()
+    }
+
+    const collection = await getSupplierProfileCollection()
+    const profiles = await collection
+        .find({ supplierId: { $in: ids } }, { projection: { supplierId: 1, displayName: 1, location: 1, logoUrl: 1 } })
+        .toArray()
+
+    const makers = new Map<string, MakerSummary>(profiles.map(profile => [profile.supplierId, {
+        supplierId: profile.supplierId,
+        displayName: profile.displayName,
+        location: profile.location,
+        logoUrl: profile.logoUrl
+    }]))
+
+    const missing = ids.filter(id => !makers.has(id))
+    if (missing.length > 0) {
+        const names = await getUserNames(missing)
+        for (const [supplierId, name] of names) {
+            makers.set(supplierId, { supplierId, displayName: name, location: '', logoUrl: null })
+        }
+    }
+
+    return makers
+}
+
+/**
+ * Trim a profile text field and check it fits
+ */
+function cleanText(field: keyof typeof PROFILE_LIMITS, value: string, label: string): string {
+    const text = value.trim()
+    if (text.length > PROFILE_LIMITS[field]) {
+        throw new Error(`${label} must be ${PROFILE_LIMITS[field]} characters or fewer`)
+    }
+    return text
+}
+
+/**
+ * Create or update a supplier's profile
+ */
+export async function updateSupplierProfile(
+    supplierId: string,
+    input: UpdateSupplierProfileInput
+): Promise<SupplierProfile> {
+    const collection = await getSupplierProfileCollection()
+    const current = await getSupplierProfile(supplierId)
+    if (!current) {
+        throw new Error('Supplier not found')
+    }
+
+    const update: Partial<SupplierProfile> = { updatedAt: new Date() }
+
+    if (input.displayName !== undefined) {
+        update.displayName = cleanText('displayName', input.displayName, 'Display name')
+        if (!update.displayName) {
+            throw new Error('Display name is required')
+        }
+    }
+    if (input.bio !== undefined) {
+        update.bio = cleanText('bio', input.bio, 'Bio')
+    }
+    if (input.location !== undefined) {
+        update.location = cleanText('location', input.location, 'Location')
+    }
+    if (input.story !== undefined) {
+        update.story = cleanText('story', input.story, 'Story')
+    }
+    if (input.logoUrl !== undefined) {
+        update.logoUrl = input.logoUrl
+    }
+    if (input.bannerUrl !== undefined) {
+        update.bannerUrl = input.bannerUrl
+    }
+
+    // The first save stores the defaults for anything not given
+    const { _id, supplierId: _supplierId, updatedAt: _updatedAt, ...defaults } = current
+    const insertDefaults = Object.fromEntries(
+        Object.entries(defaults).filter(([key]) => !(key in update))
+    )
+
+    const result = await collection.findOneAndUpdate(
+        { supplierId },
+        { $set: update, $setOnInsert: insertDefaults },
+        { upsert: true, returnDocument: 'after' }
+    )
+
+    if (!result) {
+        throw new Error('Failed to save supplier profile')
+    }
+    return result
+}
+
+/**
+ * Create a newly approved supplier's profile from their application, within the
+ * caller's transaction. A profile the supplier already has is left as it is
+ */
+export async function createSupplierProfile(
+    db: Db,
+    supplierId: string,
+    details: Pick<SupplierProfile, 'displayName' | 'location' | 'story'>,
+    session: ClientSession
+): Promise<void> {
+    const { supplierId: _supplierId, ...profile } = defaultProfile(supplierId, details.displayName)
+
+    await db.collection<SupplierProfile>('supplier_profiles').updateOne(
+        { supplierId },
+        {
+            $setOnInsert: {
+                ...profile,
+                location: details.location.slice(0, PROFILE_LIMITS.location),
+                story: details.story.slice(0, PROFILE_LIMITS.story)
+            }
+        },
+        { upsert: true, session }
+    )
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ObjectId } from 'mongodb'
+
+// --- Mock Imports for Testing ---
+
+// Mock for MongoDB collections
+const mockProfileCollection = {
+    find: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+}
+
+const mockUserCollection = {
+    find: vi.fn(),
+    findOne: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'user') return mockUserCollection
+        return mockProfileCollection
+    }),
+}
+
+const mockClient = {
+    db: () => mockDb,
+}
+
+const mockClientPromise = Promise.resolve(mockClient)
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+// Helper to make a find() cursor resolve to the given documents
+function cursor(documents: unknown[]) {
+    return {
+        toArray: vi.fn().mockResolvedValue(documents),
+    }
+}
+
+const savedProfile = {
+    supplierId: 'supplier-1',
+    displayName: 'Oak & Ash Studio',
+    bio: 'Turned bowls and boards',
+    location: 'Bristol',
+    logoUrl: 'https://example.com/logo.png',
+    bannerUrl: null,
+    story: '',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+}
+
+// A supplier account without a saved profile, as BetterAuth's Mongo adapter stores it
+const joPotter = { _id: new ObjectId(), name: 'Jo Potter', role: 'supplier' }
+const joPotterId = joPotter._id.toHexString()
+
+// --- Unit Tests ---
+
+describe('getSupplierProfile', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should return the saved profile', async () => {
+        const { getSupplierProfile } = await import('./supplier-utils')
+        mockProfileCollection.findOne.mockResolvedValue(savedProfile)
+
+        const profile = await getSupplierProfile('supplier-1')
+
+        expect(profile?.displayName).toBe('Oak & Ash Studio')
+        expect(mockUserCollection.findOne).not.toHaveBeenCalled()
+    })
+
+    it('should name suppliers without a profile after their account', async () => {
+        const { getSupplierProfile } = await import('./supplier-utils')
+        mockProfileCollection.findOne.mockResolvedValue(null)
+        mockUserCollection.findOne.mockResolvedValue(joPotter)
+
+        const profile = await getSupplierProfile(joPotterId)
+
+        expect(profile).toMatchObject({ supplierId: joPotterId, displayName: 'Jo Potter', bio: '', logoUrl: null })
+        expect(mockUserCollection.findOne).toHaveBeenCalledWith({ _id: joPotter._id, role: 'supplier' })
+    })
+
+    it('should return null for users who are not suppliers', async () => {
+        const { getSupplierProfile } = await import('./supplier-utils')
+        mockProfileCollection.findOne.mockResolvedValue(null)
+        mockUserCollection.findOne.mockResolvedValue(null)
+
+        expect(await getSupplierProfile(new ObjectId().toHexString())).toBeNull()
+    })
+
+    it('should return null for IDs the auth adapter could not have issued', async () => {
+        const { getSupplierProfile } = await import('./supplier-utils')
+        mockProfileCollection.findOne.mockResolvedValue(null)
+
+        expect(await getSupplierProfile('not-a-user-id')).toBeNull()
+        expect(mockUserCollection.findOne).not.toHaveBeenCalled()
+    })
+})
+
+describe('getMakerSummaries', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should fall back to account names for suppliers without a profile', async () => {
+        const { getMakerSummaries } = await import('./supplier-utils')
+        mockProfileCollection.find.mockReturnValue(cursor([savedProfile]))
+        mockUserCollection.find.mockReturnValue(cursor([joPotter]))
+
+        const makers = await getMakerSummaries(['supplier-1', joPotterId, 'supplier-1'])
+
+        expect(makers.get('supplier-1')).toEqual({
+            supplierId: 'supplier-1',
+            displayName: 'Oak & Ash Studio',
+            location: 'Bristol',
+            logoUrl: 'https://example.com/logo.png',
+        })
+        expect(makers.get(joPotterId)?.displayName).toBe('Jo Potter')
+        expect(mockUserCollection.find.mock.calls[0][0]).toEqual({ _id: { $in: [joPotter._id] } })
+    })
+
+    it('should not query for an empty list', async () => {
+        const { getMakerSummaries } = await import('./supplier-utils')
+
+        expect((await getMakerSummaries([])).size).toBe(0)
+        expect(mockProfileCollection.find).not.toHaveBeenCalled()
+    })
+})
+
+describe('updateSupplierProfile', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.resetModules()
+    })
+
+    it('should create the profile on first save, keeping defaults for fields not given', async () => {
+        const { updateSupplierProfile } = await import('./supplier-utils')
+        mockProfileCollection.findOne.mockResolvedValue(null)
+        mockUserCollection.findOne.mockResolvedValue(joPotter)
+        mockProfileCollection.findOneAndUpdate.mockImplementation(async (_filter, update) => ({
+            supplierId: joPotterId,
+            ...update.$setOnInsert,
+            ...update.$set,
+        }))
+
+        const profile = await updateSupplierProfile(joPotterId, { bio: '  Wheel-thrown stoneware  ' })
+
+        const [filter, update, options] = mockProfileCollection.findOneAndUpdate.mock.calls[0]
+        expect(filter).toEqual({ supplierId: joPotterId })
+        expect(update.$set.bio).toBe('Wheel-thrown stoneware')
+        expect(update.$setOnInsert).toMatchObject({ displayName: 'Jo Potter', story: '' })
+        expect(update.$setOnInsert).not.toHaveProperty('bio')
+        expect(update.$setOnInsert).not.toHaveProperty('supplierId')
+        expect(options).toMatchObject({ upsert: true })
+        expect(profile.displayName).toBe('Jo Potter')
+    })
+
+    it('should reject a blank display name or text that is too long', async () => {
+        const { updateSupplierProfile } = await import('./supplier-utils')
+        mockProfileCollection.findOne.mockResolvedValue(savedProfile)
+
+        await expect(updateSupplierProfile('supplier-1', { displayName: '   ' }))
+            .rejects.toThrow('Display name is required')
+        await expect(updateSupplierProfile('supplier-1', { bio: 'x'.repeat(281) }))
+            .rejects.toThrow('Bio must be 280 characters or fewer')
+        expect(mockProfileCollection.findOneAndUpdate).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to create profiles for users who are not suppliers', async () => {
+        const { updateSupplierProfile } = await import('./supplier-utils')
+        mockProfileCollection.findOne.mockResolvedValue(null)
+        mockUserCollection.findOne.mockResolvedValue(null)
+
+        await expect(updateSupplierProfile('customer-1', { displayName: 'Shop' }))
+            .rejects.toThrow('Supplier not found')
+    })
+})
@@ -1,50 +1,191 @@
 import { createServerFn } from '@tanstack/react-start'
 
+import type { UpdateSupplierProfileInput } from './supplier-utils'
+
+// --- Input Types for Server Functions ---
+
+interface UploadSupplierImageInput {
+    kind: 'logo' | 'banner'
+    filename: string
+    contentType: string
+    content: string
+}
+
+interface GetMakerInput {
+    supplierId: string
+    page?: number
+}
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+
+// --- Server Functions ---
+
 /**
  * Get statistics for the logged-in supplier
  */
 export const getSupplierStatsFn = createServerFn({ method: "GET" })
     .handler(async () => {
-        const { requireRole } = await import('./auth-utils')
-        const { getSupplierProductCount } = await import('./product-utils')
+        const { requirePermission } = await import('./auth-utils')
+        const { getSupplierProductCount, getLowStockProducts, stripCostField } = await import('./product-utils')
         const { getSupplierTotalSales } = await import('./order-utils')
         
         // Only suppliers can see their own dashboard stats
-        const user = await requireRole(['supplier'])
+        const user = await requirePermission('supplier:portal')
         
-        const [totalItems, totalSales] = await Promise.all([
+        const [totalItems, totalSales, lowStock] = await Promise.all([
             getSupplierProductCount(user.id),
-            getSupplierTotalSales(user.id)
+            getSupplierTotalSales(user.id),
+            getLowStockProducts(user.id)
         ])
         
         return {
             totalItems,
-            totalSales
+            totalSales,
+            // Products at or below their reorder threshold, emptiest first
+            lowStock: lowStock.map(stripCostField)
         }
     })
 
 /**
- * Update product stock (Supplier only)
+ * Update product stock, or the stock of one variant (Supplier only)
  */
 export const updateProductStockFn = createServerFn({ method: "POST" })
-    .inputValidator((data: { productId: string; quantity: number }) => data)
+    .inputValidator((data: { productId: string; quantity: number; variantId?: string }) => data)
     .handler(async ({ data }) => {
-        const { requireRole } = await import('./auth-utils')
-        const { isProductOwner, updateProduct } = await import('./product-utils')
+        const { requirePermission, assertPermission, actorRole } = await import('./auth-utils')
+        const { getProductById, updateProduct } = await import('./product-utils')
+        const { recordAuditEvent, diffSnapshots, productStockSnapshot } = await import('./audit-utils')
         
-        const user = await requireRole(['supplier'])
-        const { productId, quantity } = data
+        const user = await requirePermission('inventory:adjust')
+        const { productId, quantity, variantId } = data
 
-        const isOwner = await isProductOwner(productId, user.id)
-        if (!isOwner) {
-            throw new Error('Access denied: You can only modify your own products')
+        const product = await getProductById(productId)
+        if (!product) {
+            throw new Error('Product not found')
         }
 
-        const updatedProduct = await updateProduct(productId, { quantity })
+        assertPermission(user, 'inventory:adjust', { ownerId: product.supplierId },
+            'Access denied: You can only modify your own products')
+
+        const updatedProduct = await updateProduct(productId, { quantity, variantId }, { id: user.id, role: actorRole(user) })
 
         if (!updatedProduct) {
             throw new Error('Failed to update product stock')
         }
 
+        await recordAuditEvent({
+            actor: user,
+            action: 'product.stock_changed',
+            targetType: 'product',
+            targetId: productId,
+            changes: diffSnapshots(productStockSnapshot(product), productStockSnapshot(updatedProduct))
+        })
+
         return { success: true }
     })
+
+/**
+ * Get the current supplier's storefront profile (Supplier only)
+ */
+export const getMySupplierProfileFn = createServerFn({ method: "GET" })
+    .handler(async () => {
+        const { requirePermission } = await import('./auth-utils')
+        const { getSupplierProfile, toSerializable } = await import('./supplier-utils')
+        
+        const user = await requirePermission('supplier:portal')
+        
+        const profile = await getSupplierProfile(user.id)
+        if (!profile) {
+            throw new Error('Supplier not found')
+        }
+        
+        return { profile: toSerializable(profile) }
+    })
+
+/**
+ * Upload a logo or banner for the current supplier's storefront (Supplier only)
+ */
+export const uploadSupplierImageFn = createServerFn({ method: "POST" })
+    .inputValidator((data: UploadSupplierImageInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { bucket } = await import('./firebase/admin')
+        
+        const user = await requirePermission('supplier:portal')
+        
+        if (!data.contentType.startsWith('image/')) {
+            throw new Error('Only images can be uploaded')
+        }
+        
+        const buffer = Buffer.from(data.content, 'base64')
+        if (buffer.length > MAX_IMAGE_BYTES) {
+            throw new Error('Images must be 5MB or smaller')
+        }
+        
+        // Sanitize filename
+        const safeFilename = data.filename.replace(/[^a-zA-Z0-9.-]/g, '_')
+        const path = `suppliers/${user.id}/${data.kind}_${Date.now()}_${safeFilename}`
+        const file = bucket.file(path)
+        
+        await file.save(buffer, {
+            metadata: {
+                contentType: data.contentType,
+            },
+        })
+        
+        await file.makePublic()
+        const publicUrl = `https://storage.googleapis.com/${bucket.name}/${path}`
+        
+        return { url: publicUrl, success: true }
+    })
+
+/**
+ * Update the current supplier's storefront profile (Supplier only)
+ */
+export const updateMySupplierProfileFn = createServerFn({ method: "POST" })
+    .inputValidator((data: UpdateSupplierProfileInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { bucket } = await import('./firebase/admin')
+        const { updateSupplierProfile, toSerializable } = await import('./supplier-utils')
+        
+        const user = await requirePermission('supplier:portal')
+        
+        // Only accept images uploaded by this supplier through uploadSupplierImageFn
+        const imagePrefix = `https://storage.googleapis.com/${bucket.name}/suppliers/${user.id}/`
+        if ([data.logoUrl, data.bannerUrl].some(url => url && !url.startsWith(imagePrefix))) {
+            throw new Error('Invalid storefront image')
+        }
+        
+        const profile = await updateSupplierProfile(user.id, data)
+        
+        return { profile: toSerializable(profile), success: true }
+    })
+
+/**
+ * Get a maker's public storefront: their profile and active products (Public)
+ */
+export const getMakerFn = createServerFn({ method: "GET" })
+    .inputValidator((data: GetMakerInput) => data)
+    .handler(async ({ data }) => {
+        const { getSupplierProfile, toSerializable } = await import('./supplier-utils')
+        const { getProductList, stripCostField } = await import('./product-utils')
+        
+        const profile = await getSupplierProfile(data.supplierId)
+        if (!profile) {
+            throw new Error('Maker not found')
+        }
+        
+        const result = await getProductList({
+            supplierId: data.supplierId,
+            status: 'active',
+            page: data.page,
+            limit: 12
+        })
+        
+        return {
+            maker: toSerializable(profile),
+            ...result,
+            products: result.products.map(stripCostField)
+        }
+    })
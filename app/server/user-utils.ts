@@ -1,6 +1,8 @@
 import clientPromise from './db/mongo'
-import type { Db, Collection } from 'mongodb'
-import type { ShippingAddress } from '../utils/auth'
+import type { ObjectId, Db, Collection, WithId } from 'mongodb'
+import type { ShippingAddress, UserRole } from '../utils/auth'
+import { ROLE_PERMISSIONS, type Permission } from '../utils/rbac'
+import { keysetFilter, NEWEST_FIRST, readOrder, toCursorPage, type CursorOptions, type CursorPageInfo } from './cursor'
 
 // --- Types ---
 
@@ -14,6 +16,51 @@ export interface UserProfile {
     createdAt: Date
 }
 
+// A user account as the admin console sees it
+export interface UserAccountSerializable {
+    id: string
+    name: string | null
+    email: string
+    role: UserRole
+    emailVerified: boolean
+    banned: boolean
+    banReason: string | null
+    createdAt: string
+}
+
+export type AccountActionType = 'role_changed' | 'suspended' | 'reinstated' | 'sessions_revoked'
+
+// Something an admin did to a user account, kept so every change can be traced
+export interface AccountAction {
+    _id?: ObjectId
+    userId: string           // The account acted on
+    actorId: string          // The admin who acted
+    type: AccountActionType
+    previousRole?: UserRole
+    nextRole?: UserRole
+    reason?: string
+    createdAt: Date
+}
+
+export interface AccountActionSerializable extends Omit<AccountAction, '_id' | 'createdAt'> {
+    _id: string
+    createdAt: string
+}
+
+export interface UserListOptions extends Omit<CursorOptions, 'pagination'> {
+    search?: string          // Matches name or email
+    role?: UserRole
+    banned?: boolean
+    limit?: number
+}
+
+export interface CursorPaginatedUsers<T> extends CursorPageInfo {
+    users: T[]
+    limit: number
+}
+
+export const USER_ROLES: UserRole[] = ['user', 'supplier', 'support', 'catalogue_reviewer', 'admin']
+
 // --- Database Access ---
 
 let _db: Db | null = null
@@ -31,8 +78,31 @@ export async function getUserCollection(): Promise<Collection> {
     return db.collection('user')
 }
 
+export async function getAccountActionCollection(): Promise<Collection<AccountAction>> {
+    const db = await getDb()
+    return db.collection<AccountAction>('account_actions')
+}
+
 // --- Utility Functions ---
 
+/**
+ * The document _id of a user
+ * BetterAuth's Mongo adapter stores the user ID as _id, so user documents have no id field.
+ * Returns null for an ID the adapter could not have issued
+ */
+export async function toUserObjectId(userId: string): Promise<ObjectId | null> {
+    const { ObjectId } = await import('mongodb')
+    return ObjectId.isValid(userId) ? new ObjectId(userId) : null
+}
+
+/**
+ * The document _ids of a set of users, leaving out IDs the adapter could not have issued
+ */
+export async function toUserObjectIds(userIds: string[]): Promise<ObjectId[]> {
+    const { ObjectId } = await import('mongodb')
+    return [...new Set(userIds)].filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id))
+}
+
 /**
  * Update user's shipping address
  * Stores as JSON string to match BetterAuth schema
@@ -88,3 +158,215 @@ export function parseShippingAddress(addressStr: string | null | undefined): Shi
         return null
     }
 }
+
+/**
+ * Get display names for a set of users, keyed by user ID
+ * Users that do not exist are left out
+ */
+export async function getUserNames(userIds: string[]): Promise<Map<string, string>> {
+    const collection = await getUserCollection()
+    
+    const users = await collection
+        .find({ _id: { $in: await toUserObjectIds(userIds) } }, { projection: { name: 1 } })
+        .toArray()
+    
+    return new Map(users.map(user => [user._id.toHexString(), user.name as string]))
+}
+
+/**
+ * Get where to email a set of registered users, keyed by user ID
+ * Guests are left out since their addresses are placeholders
+ */
+export async function getUserContacts(userIds: string[]): Promise<Map<string, { email: string; name: string }>> {
+    const collection = await getUserCollection()
+    
+    const users = await collection
+        .find({ _id: { $in: await toUserObjectIds(userIds) }, isAnonymous: { $ne: true } }, { projection: { email: 1, name: 1 } })
+        .toArray()
+    
+    return new Map(users.map(user => [user._id.toHexString(), { email: user.email as string, name: user.name as string }]))
+}
+
+/**
+ * Get the IDs of everyone whose role grants a permission, e.g. all catalogue reviewers
+ * Suspended accounts are left out
+ */
+export async function getUserIdsWithPermission(permission: Permission): Promise<string[]> {
+    const collection = await getUserCollection()
+    const roles = USER_ROLES.filter(role => ROLE_PERMISSIONS[role][permission])
+    
+    const users = await collection
+        .find({ role: { $in: roles }, banned: { $ne: true } }, { projection: { _id: 1 } })
+        .toArray()
+    
+    return users.map(user => user._id.toHexString())
+}
+
+// --- Admin User Management ---
+
+/**
+ * Convert a BetterAuth user document to what the admin console shows
+ */
+export function toAccountSerializable(user: Record<string, any>): UserAccountSerializable {
+    return {
+        id: user._id.toHexString(),
+        name: user.name ?? null,
+        email: user.email,
+        role: user.role || 'user',
+        emailVerified: !!user.emailVerified,
+        banned: !!user.banned,
+        banReason: user.banReason ?? null,
+        createdAt: new Date(user.createdAt).toISOString()
+    }
+}
+
+/**
+ * Convert an account action to a serializable format
+ */
+export function accountActionToSerializable(action: WithId<AccountAction>): AccountActionSerializable {
+    return {
+        ...action,
+        _id: action._id.toHexString(),
+        createdAt: action.createdAt.toISOString()
+    }
+}
+
+/**
+ * Search registered users, newest first, paged with cursors
+ * Guest accounts are left out
+ */
+export async function searchUsers(options: UserListOptions = {}): Promise<CursorPaginatedUsers<Record<string, any>>> {
+    const collection = await getUserCollection()
+    
+    const limit = Math.min(100, Math.max(1, options.limit || 20))
+    const direction = options.direction || 'next'
+    
+    const filter: Record<string, unknown> = { isAnonymous: { $ne: true } }
+    if (options.role) {
+        filter.role = options.role === 'user' ? { $in: ['user', null] } : options.role
+    }
+    if (options.banned !== undefined) {
+        filter.banned = options.banned ? true : { $ne: true }
+    }
+    const search = options.search?.trim()
+    if (search) {
+        const pattern = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i')
+        filter.$or = [{ name: pattern }, { email: pattern }]
+    }
+    
+    const rows = await collection
+        .find(options.cursor ? { $and: [filter, keysetFilter(NEWEST_FIRST, options.cursor, direction)] } : filter)
+        .sort(readOrder(NEWEST_FIRST, direction))
+        .limit(limit + 1)
+        .toArray()
+    
+    const { items, ...cursors } = toCursorPage(rows, NEWEST_FIRST, { ...options, limit })
+    return { users: items, limit, ...cursors }
+}
+
+/**
+ * Get a registered user by ID
+ */
+export async function getUserAccount(userId: string): Promise<Record<string, any> | null> {
+    const _id = await toUserObjectId(userId)
+    if (!_id) {
+        return null
+    }
+    
+    const collection = await getUserCollection()
+    return await collection.findOne({ _id })
+}
+
+/**
+ * Record something an admin did to a user account
+ */
+export async function recordAccountAction(action: Omit<AccountAction, '_id' | 'createdAt'>): Promise<void> {
+    const collection = await getAccountActionCollection()
+    await collection.insertOne({ ...action, createdAt: new Date() })
+}
+
+/**
+ * Get what admins have done to a user account, most recent first
+ */
+export async function getAccountActions(userId: string, limit = 50): Promise<WithId<AccountAction>[]> {
+    const collection = await getAccountActionCollection()
+    return await collection.find({ userId }).sort({ createdAt: -1 }).limit(limit).toArray()
+}
+
+/**
+ * Change a user's role (Admin only)
+ * Admins cannot change their own role, so the console always keeps at least one admin
+ */
+export async function changeUserRole(userId: string, role: UserRole, actorId: string): Promise<Record<string, any>> {
+    if (!USER_ROLES.includes(role)) {
+        throw new Error('Invalid role')
+    }
+    if (userId === actorId) {
+        throw new Error('You cannot change your own role')
+    }
+    
+    const _id = await toUserObjectId(userId)
+    const collection = await getUserCollection()
+    const user = _id && await collection.findOne({ _id, isAnonymous: { $ne: true } })
+    if (!user) {
+        throw new Error('User not found')
+    }
+    
+    const previousRole: UserRole = user.role || 'user'
+    if (previousRole === role) {
+        return user
+    }
+    
+    const updated = await collection.findOneAndUpdate(
+        { _id: user._id },
+        { $set: { role, updatedAt: new Date() } },
+        { returnDocument: 'after' }
+    )
+    if (!updated) {
+        throw new Error('User not found')
+    }
+    
+    await recordAccountAction({ userId, actorId, type: 'role_changed', previousRole, nextRole: role })
+    
+    return updated
+}
+
+/**
+ * Suspend or reinstate a user (Admin only)
+ * Suspended users cannot sign in; their existing sessions are revoked by the caller
+ */
+export async function setUserSuspended(
+    userId: string,
+    suspended: boolean,
+    actorId: string,
+    reason?: string
+): Promise<Record<string, any>> {
+    if (userId === actorId) {
+        throw new Error('You cannot suspend your own account')
+    }
+    
+    const banReason = reason?.trim() || null
+    if (suspended && !banReason) {
+        throw new Error('A reason is required to suspend an account')
+    }
+    
+    const _id = await toUserObjectId(userId)
+    const collection = await getUserCollection()
+    const updated = _id && await collection.findOneAndUpdate(
+        { _id, isAnonymous: { $ne: true } },
+        { $set: { banned: suspended, banReason: suspended ? banReason : null, updatedAt: new Date() } },
+        { returnDocument: 'after' }
+    )
+    if (!updated) {
+        throw new Error('User not found')
+    }
+    
+    await recordAccountAction({
+        userId,
+        actorId,
+        type: suspended ? 'suspended' : 'reinstated',
+        ...(banReason && { reason: banReason })
+    })
+    
+    return updated
+}
@@ -1,12 +1,26 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { updateUserAddress, getUserProfile } from './user-utils'
+import { ObjectId } from 'mongodb'
+import {
+    updateUserAddress,
+    getUserProfile,
+    searchUsers,
+    getUserAccount,
+    changeUserRole,
+    setUserSuspended,
+    toAccountSerializable,
+    getUserNames
+} from './user-utils'
 import { getUserProfileFn, updateUserAddressFn } from './user'
 
 // Mock dependencies
 const { mockCollection } = vi.hoisted(() => {
     return {
         mockCollection: {
-            updateOne: vi.fn()
+            updateOne: vi.fn(),
+            find: vi.fn(),
+            findOne: vi.fn(),
+            findOneAndUpdate: vi.fn(),
+            insertOne: vi.fn()
         }
     }
 })
@@ -96,6 +110,130 @@ describe('User Utilities', () => {
     })
 })
 
+describe('Admin User Management', () => {
+    // Shaped as BetterAuth's Mongo adapter stores users: the ID is the _id, with no id field
+    const userId = new ObjectId()
+    const storedUser = {
+        _id: userId,
+        name: 'Jo Potter',
+        email: 'jo@example.com',
+        role: 'user',
+        emailVerified: true,
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01')
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    describe('getUserAccount', () => {
+        it('should look the user up by their document _id', async () => {
+            mockCollection.findOne.mockResolvedValue(storedUser)
+
+            const user = await getUserAccount(userId.toHexString())
+
+            expect(user).toBe(storedUser)
+            expect(mockCollection.findOne).toHaveBeenCalledWith({ _id: userId })
+        })
+
+        it('should not find IDs that are not ObjectIds', async () => {
+            expect(await getUserAccount('user-123')).toBeNull()
+            expect(mockCollection.findOne).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('toAccountSerializable', () => {
+        it('should use the document _id as the account ID', () => {
+            expect(toAccountSerializable(storedUser)).toMatchObject({
+                id: userId.toHexString(),
+                role: 'user',
+                banned: false,
+                createdAt: '2024-01-01T00:00:00.000Z'
+            })
+        })
+    })
+
+    describe('getUserNames', () => {
+        it('should key names by the document _id and skip IDs that are not ObjectIds', async () => {
+            mockCollection.find.mockReturnValue({ toArray: vi.fn().mockResolvedValue([storedUser]) })
+
+            const names = await getUserNames([userId.toHexString(), 'system', userId.toHexString()])
+
+            expect(names.get(userId.toHexString())).toBe('Jo Potter')
+            expect(mockCollection.find).toHaveBeenCalledWith({ _id: { $in: [userId] } }, { projection: { name: 1 } })
+        })
+    })
+
+    describe('searchUsers', () => {
+        it('should match name or email and leave out guests', async () => {
+            const toArray = vi.fn().mockResolvedValue([])
+            const limit = vi.fn().mockReturnValue({ toArray })
+            const sort = vi.fn().mockReturnValue({ limit })
+            mockCollection.find.mockReturnValue({ sort })
+
+            await searchUsers({ search: 'jo+', role: 'user', banned: true, limit: 20 })
+
+            const [filter] = mockCollection.find.mock.calls[0]
+            expect(filter.isAnonymous).toEqual({ $ne: true })
+            expect(filter.role).toEqual({ $in: ['user', null] })
+            expect(filter.banned).toBe(true)
+            expect(filter.$or[0].name.test('JO+ Potter')).toBe(true)
+            expect(filter.$or[1].email.test('joe@example.com')).toBe(false)
+            expect(sort).toHaveBeenCalledWith({ createdAt: -1, _id: -1 })
+            expect(limit).toHaveBeenCalledWith(21)
+        })
+    })
+
+    describe('changeUserRole', () => {
+        it('should change the role and record who changed it', async () => {
+            mockCollection.findOne.mockResolvedValue(storedUser)
+            mockCollection.findOneAndUpdate.mockResolvedValue({ ...storedUser, role: 'supplier' })
+
+            await changeUserRole(userId.toHexString(), 'supplier', 'admin-1')
+
+            expect(mockCollection.findOne).toHaveBeenCalledWith({ _id: userId, isAnonymous: { $ne: true } })
+            expect(mockCollection.findOneAndUpdate).toHaveBeenCalledWith(
+                { _id: userId },
+                { $set: { role: 'supplier', updatedAt: expect.any(Date) } },
+                { returnDocument: 'after' }
+            )
+            expect(mockCollection.insertOne).toHaveBeenCalledWith(expect.objectContaining({
+                userId: userId.toHexString(),
+                actorId: 'admin-1',
+                type: 'role_changed',
+                previousRole: 'user',
+                nextRole: 'supplier'
+            }))
+        })
+
+        it('should not let admins change their own role', async () => {
+            await expect(changeUserRole('admin-1', 'user', 'admin-1'))
+                .rejects.toThrow('You cannot change your own role')
+            expect(mockCollection.findOneAndUpdate).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('setUserSuspended', () => {
+        it('should require a reason to suspend', async () => {
+            await expect(setUserSuspended('user-123', true, 'admin-1', '  '))
+                .rejects.toThrow('A reason is required to suspend an account')
+            expect(mockCollection.findOneAndUpdate).not.toHaveBeenCalled()
+        })
+
+        it('should clear the reason when reinstating', async () => {
+            mockCollection.findOneAndUpdate.mockResolvedValue({ ...storedUser, banned: false })
+
+            await setUserSuspended(userId.toHexString(), false, 'admin-1')
+
+            const [filter, update] = mockCollection.findOneAndUpdate.mock.calls[0]
+            expect(filter).toEqual({ _id: userId, isAnonymous: { $ne: true } })
+            expect(update.$set).toMatchObject({ banned: false, banReason: null })
+            expect(mockCollection.insertOne).toHaveBeenCalledWith(expect.objectContaining({ type: 'reinstated' }))
+        })
+    })
+})
+
 describe('User Server Functions (Smoke Test)', () => {
     it('should export server functions', () => {
         expect(getUserProfileFn).toBeDefined()
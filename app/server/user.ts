@@ -1,6 +1,7 @@
 import { createServerFn } from '@tanstack/react-start'
 
-import type { ShippingAddress } from '../utils/auth'
+import type { ShippingAddress, UserRole } from '../utils/auth'
+import type { UserListOptions } from './user-utils'
 
 // --- Input Types ---
 
@@ -8,6 +9,21 @@ interface UpdateAddressInput {
     address: ShippingAddress
 }
 
+interface UserIdInput {
+    userId: string
+}
+
+interface ChangeUserRoleInput {
+    userId: string
+    role: UserRole
+}
+
+interface SetUserSuspendedInput {
+    userId: string
+    suspended: boolean
+    reason?: string
+}
+
 // --- Server Functions ---
 
 /**
@@ -52,3 +68,161 @@ export const updateUserAddressFn = createServerFn({ method: "POST" })
         
         return { success: true }
     })
+
+/**
+ * Search registered users (Admin/Support only)
+ */
+export const getUsersFn = createServerFn({ method: "GET" })
+    .inputValidator((data: UserListOptions) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { searchUsers, toAccountSerializable } = await import('./user-utils')
+        
+        await requirePermission('user:view')
+        
+        const result = await searchUsers(data)
+        
+        return {
+            ...result,
+            users: result.users.map(toAccountSerializable)
+        }
+    })
+
+/**
+ * Get a user with their recent orders, cart and account history (Admin/Support only)
+ */
+export const getUserDetailsFn = createServerFn({ method: "GET" })
+    .inputValidator((data: UserIdInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const {
+            getUserAccount,
+            getAccountActions,
+            getUserNames,
+            toAccountSerializable,
+            accountActionToSerializable
+        } = await import('./user-utils')
+        const { getOrdersByUser, toSerializable } = await import('./order-utils')
+        const { getCartCollection, getCartItemDetails } = await import('./cart-utils')
+        
+        await requirePermission('user:view')
+        
+        const user = await getUserAccount(data.userId)
+        if (!user) {
+            throw new Error('User not found')
+        }
+        
+        // Looked up directly so viewing a user does not create an empty cart for them
+        const carts = await getCartCollection()
+        const [orders, cart, actions] = await Promise.all([
+            getOrdersByUser(data.userId, { pagination: 'cursor', limit: 10 }),
+            carts.findOne({ userId: data.userId }),
+            getAccountActions(data.userId)
+        ])
+        
+        const [cartItems, actorNames] = await Promise.all([
+            getCartItemDetails(cart?.items ?? []),
+            getUserNames([...new Set(actions.map(action => action.actorId))])
+        ])
+        
+        return {
+            user: toAccountSerializable(user),
+            orders: orders.orders.map(toSerializable),
+            hasMoreOrders: !!orders.nextCursor,
+            cart: cartItems,
+            actions: actions.map(action => ({
+                ...accountActionToSerializable(action),
+                actorName: actorNames.get(action.actorId) ?? null
+            }))
+        }
+    })
+
+/**
+ * Change a user's role (Admin only)
+ */
+export const changeUserRoleFn = createServerFn({ method: "POST" })
+    .inputValidator((data: ChangeUserRoleInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { getUserAccount, changeUserRole, toAccountSerializable } = await import('./user-utils')
+        const { recordAuditEvent } = await import('./audit-utils')
+        
+        const admin = await requirePermission('user:manage')
+        
+        const previousRole = (await getUserAccount(data.userId))?.role || 'user'
+        const user = await changeUserRole(data.userId, data.role, admin.id)
+        
+        if (user.role !== previousRole) {
+            await recordAuditEvent({
+                actor: admin,
+                action: 'user.role_changed',
+                targetType: 'user',
+                targetId: data.userId,
+                changes: [{ field: 'role', before: previousRole, after: user.role }]
+            })
+        }
+        
+        return { user: toAccountSerializable(user), success: true }
+    })
+
+/**
+ * Suspend a user and sign them out everywhere, or reinstate them (Admin only)
+ */
+export const setUserSuspendedFn = createServerFn({ method: "POST" })
+    .inputValidator((data: SetUserSuspendedInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { auth } = await import('./auth-config')
+        const { getUserAccount, setUserSuspended, toAccountSerializable } = await import('./user-utils')
+        const { recordAuditEvent, diffSnapshots } = await import('./audit-utils')
+        
+        const admin = await requirePermission('user:manage')
+        
+        const previous = await getUserAccount(data.userId)
+        const user = await setUserSuspended(data.userId, data.suspended, admin.id, data.reason)
+        if (data.suspended) {
+            await auth.api.revokeUserSessions(data.userId)
+        }
+        
+        const changes = diffSnapshots({
+            banned: previous?.banned === true,
+            banReason: previous?.banReason ?? null
+        }, {
+            banned: user.banned === true,
+            banReason: user.banReason ?? null
+        })
+        if (changes.length > 0) {
+            await recordAuditEvent({
+                actor: admin,
+                action: data.suspended ? 'user.suspended' : 'user.reinstated',
+                targetType: 'user',
+                targetId: data.userId,
+                changes
+            })
+        }
+        
+        return { user: toAccountSerializable(user), success: true }
+    })
+
+/**
+ * Sign a user out of every device (Admin only)
+ */
+export const revokeUserSessionsFn = createServerFn({ method: "POST" })
+    .inputValidator((data: UserIdInput) => data)
+    .handler(async ({ data }) => {
+        const { requirePermission } = await import('./auth-utils')
+        const { auth } = await import('./auth-config')
+        const { getUserAccount, recordAccountAction } = await import('./user-utils')
+        
+        const admin = await requirePermission('user:manage')
+        
+        const user = await getUserAccount(data.userId)
+        if (!user) {
+            throw new Error('User not found')
+        }
+        
+        await auth.api.revokeUserSessions(data.userId)
+        await recordAccountAction({ userId: data.userId, actorId: admin.id, type: 'sessions_revoked' })
+        
+        return { success: true }
+    })
@@ -0,0 +1,237 @@
+import clientPromise from './db/mongo'
+import type { ObjectId, Collection, Db } from 'mongodb'
+import type { Product } from './product-utils'
+import { getInventoryLevels } from './product-utils'
+import { describeVariant } from './product-variants'
+
+// --- Wishlist Types ---
+
+export interface WishlistItem {
+    productId: string
+    variantId?: string       // Set when a particular variant was saved, e.g. from the cart
+    addedAt: Date
+}
+
+export interface Wishlist {
+    _id?: ObjectId
+    userId: string
+    items: WishlistItem[]    // Oldest first
+    createdAt: Date
+    updatedAt: Date
+}
+
+// Wishlist entry enriched with the product data the storefront needs to render it
+export interface WishlistItemDetails {
+    productId: string
+    variantId?: string
+    variantLabel?: string
+    name: string
+    price: number
+    image?: string
+    inStock: boolean
+    needsVariant: boolean    // A variant product saved without a variant; options are chosen on the product page
+    addedAt: string
+}
+
+// --- Wishlist Collection Access ---
+
+let _db: Db | null = null
+
+async function getDb(): Promise<Db> {
+    if (!_db) {
+        const client = await clientPromise
+        _db = client.db()
+    }
+    return _db
+}
+
+export async function getWishlistCollection(): Promise<Collection<Wishlist>> {
+    const db = await getDb()
+    return db.collection<Wishlist>('wishlists')
+}
+
+// --- Wishlist Utility Functions ---
+
+/**
+ * Whether a wishlist item is the entry for a product, or for one variant of it
+ */
+function isSameItem(item: WishlistItem, productId: string, variantId?: string): boolean {
+    return item.productId === productId && item.variantId === variantId
+}
+
+/**
+ * Get a user's wishlist, creating one if it doesn't exist
+ */
+export async function getUserWishlist(userId: string): Promise<Wishlist> {
+    const collection = await getWishlistCollection()
+
+    let wishlist = await collection.findOne({ userId })
+
+    if (!wishlist) {
+        const newWishlist: Wishlist = {
+            userId,
+            items: [],
+            createdAt: new Date(),
+            updatedAt: new Date()
+        }
+        await collection.insertOne(newWishlist)
+        wishlist = await collection.findOne({ userId })
+    }
+
+    return wishlist!
+}
+
+/**
+ * Save a product, or one variant of it, to a user's wishlist
+ * Saving something already on the wishlist leaves it where it is
+ */
+export async function addItemToWishlist(
+    userId: string,
+    productId: string,
+    variantId?: string
+): Promise<Wishlist> {
+    const collection = await getWishlistCollection()
+    const wishlist = await getUserWishlist(userId)
+
+    if (!wishlist.items.some(item => isSameItem(item, productId, variantId))) {
+        await collection.updateOne(
+            { userId },
+            {
+                $push: {
+                    items: {
+                        productId,
+                        ...(variantId && { variantId }),
+                        addedAt: new Date()
+                    }
+                },
+                $set: { updatedAt: new Date() }
+            }
+        )
+    }
+
+    return (await collection.findOne({ userId }))!
+}
+
+/**
+ * Remove a product, or one variant of it, from a user's wishlist
+ */
+export async function removeItemFromWishlist(
+    userId: string,
+    productId: string,
+    variantId?: string
+): Promise<Wishlist> {
+    const collection = await getWishlistCollection()
+    const wishlist = await getUserWishlist(userId)
+
+    await collection.updateOne(
+        { userId },
+        {
+            $set: {
+                items: wishlist.items.filter(item => !isSameItem(item, productId, variantId)),
+                updatedAt: new Date()
+            }
+        }
+    )
+
+    return (await collection.findOne({ userId }))!
+}
+
+/**
+ * Delete a user's wishlist entirely
+ */
+export async function deleteUserWishlist(userId: string): Promise<void> {
+    const collection = await getWishlistCollection()
+    await collection.deleteOne({ userId })
+}
+
+/**
+ * Resolve wishlist items against the product catalogue, most recently saved first
+ * Items whose product or variant no longer exists or is not active are dropped
+ */
+export async function getWishlistItemDetails(items: WishlistItem[]): Promise<WishlistItemDetails[]> {
+    if (items.length === 0) {
+        return []
+    }
+
+    const { ObjectId } = await import('mongodb')
+    const db = await getDb()
+
+    const productIds = items
+        .filter(item => ObjectId.isValid(item.productId))
+        .map(item => new ObjectId(item.productId))
+
+    const products = await db.collection<Product>('products').find(
+        { _id: { $in: productIds }, status: 'active' },
+        { projection: { name: 1, 'pricing.selling': 1, inventory: 1, images: 1, variants: 1 } }
+    ).toArray()
+
+    const productMap = new Map(
+        products.map(p => [p._id.toHexString(), p])
+    )
+
+    return [...items].reverse().flatMap(item => {
+        const product = productMap.get(item.productId)
+        if (!product) {
+            return []
+        }
+
+        const variant = item.variantId ? product.variants?.find(v => v.id === item.variantId) : undefined
+        if (item.variantId && !variant) {
+            return []
+        }
+
+        return [{
+            productId: item.productId,
+            ...(variant && {
+                variantId: variant.id,
+                variantLabel: describeVariant(variant.options)
+            }),
+            name: product.name,
+            price: variant ? variant.pricing.selling : product.pricing.selling,
+            image: variant?.images[0] || product.images?.enhanced?.[0] || product.images?.original?.[0],
+            inStock: getInventoryLevels((variant ?? product).inventory).available > 0,
+            needsVariant: !variant && !!product.variants?.length,
+            addedAt: item.addedAt.toISOString()
+        }]
+    })
+}
+
+/**
+ * Merge a guest user's wishlist into a registered user's wishlist
+ * Called when an anonymous user links their account
+ */
+export async function mergeGuestWishlist(
+    anonymousUserId: string,
+    newUserId: string
+): Promise<void> {
+    const collection = await getWishlistCollection()
+
+    const guestWishlist = await collection.findOne({ userId: anonymousUserId })
+
+    if (!guestWishlist || guestWishlist.items.length === 0) {
+        // No guest wishlist to merge
+        return
+    }
+
+    const newUserWishlist = await getUserWishlist(newUserId)
+
+    // Items saved on both keep the registered user's entry
+    const items = [
+        ...newUserWishlist.items,
+        ...guestWishlist.items.filter(guestItem =>
+            !newUserWishlist.items.some(item => isSameItem(item, guestItem.productId, guestItem.variantId))
+        )
+    ]
+
+    await collection.updateOne(
+        { userId: newUserId },
+        {
+            $set: {
+                items,
+                updatedAt: new Date()
+            }
+        }
+    )
+
+    await deleteUserWishlist(anonymousUserId)
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ObjectId } from 'mongodb'
+
+// --- Mock Imports for Testing ---
+
+// Mocks for MongoDB collections
+const mockWishlistCollection = {
+    findOne: vi.fn(),
+    insertOne: vi.fn(),
+    updateOne: vi.fn(),
+    deleteOne: vi.fn(),
+}
+
+const mockProductCollection = {
+    find: vi.fn(),
+}
+
+const mockDb = {
+    collection: vi.fn((name: string) => {
+        if (name === 'products') return mockProductCollection
+        return mockWishlistCollection
+    }),
+}
+
+const mockClientPromise = Promise.resolve({
+    db: () => mockDb,
+})
+
+// Mock mongo client
+vi.mock('./db/mongo', () => ({
+    default: mockClientPromise,
+}))
+
+function wishlistOf(userId: string, items: { productId: string; variantId?: string }[]) {
+    return {
+        userId,
+        items: items.map(item => ({ ...item, addedAt: new Date('2026-01-01') })),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    }
+}
+
+// --- Unit Tests ---
+
+describe('addItemToWishlist', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should save a product that is not on the wishlist yet', async () => {
+        const { addItemToWishlist } = await import('./wishlist-utils')
+        mockWishlistCollection.findOne.mockResolvedValue(wishlistOf('user-1', []))
+
+        await addItemToWishlist('user-1', 'prod-1', 'var-1')
+
+        const [filter, update] = mockWishlistCollection.updateOne.mock.calls[0]
+        expect(filter).toEqual({ userId: 'user-1' })
+        expect(update.$push.items).toMatchObject({ productId: 'prod-1', variantId: 'var-1' })
+    })
+
+    it('should not save the same item twice', async () => {
+        const { addItemToWishlist } = await import('./wishlist-utils')
+        mockWishlistCollection.findOne.mockResolvedValue(wishlistOf('user-1', [{ productId: 'prod-1' }]))
+
+        await addItemToWishlist('user-1', 'prod-1')
+
+        expect(mockWishlistCollection.updateOne).not.toHaveBeenCalled()
+    })
+})
+
+describe('removeItemFromWishlist', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should only remove the matching variant', async () => {
+        const { removeItemFromWishlist } = await import('./wishlist-utils')
+        mockWishlistCollection.findOne.mockResolvedValue(wishlistOf('user-1', [
+            { productId: 'prod-1', variantId: 'var-1' },
+            { productId: 'prod-1', variantId: 'var-2' },
+        ]))
+
+        await removeItemFromWishlist('user-1', 'prod-1', 'var-1')
+
+        const [, update] = mockWishlistCollection.updateOne.mock.calls[0]
+        expect(update.$set.items).toEqual([expect.objectContaining({ productId: 'prod-1', variantId: 'var-2' })])
+    })
+})
+
+describe('getWishlistItemDetails', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should list the newest first, drop unavailable products and flag variant choices', async () => {
+        const { getWishlistItemDetails } = await import('./wishlist-utils')
+        const mug = new ObjectId()
+        const vase = new ObjectId()
+        const removed = new ObjectId()
+        mockProductCollection.find.mockReturnValue({
+            toArray: vi.fn().mockResolvedValue([
+                {
+                    _id: mug,
+                    name: 'Mug',
+                    pricing: { selling: 20 },
+                    inventory: { onHand: 3, reserved: 3 },
+                    images: { original: ['mug.jpg'], enhanced: [] },
+                },
+                {
+                    _id: vase,
+                    name: 'Vase',
+                    pricing: { selling: 40 },
+                    inventory: { onHand: 5 },
+                    images: { original: [], enhanced: [] },
+                    variants: [{
+                        id: 'blue',
+                        options: { Colour: 'Blue' },
+                        pricing: { selling: 45 },
+                        inventory: { onHand: 2 },
+                        images: ['blue.jpg'],
+                    }],
+                },
+            ]),
+        })
+
+        const details = await getWishlistItemDetails(wishlistOf('user-1', [
+            { productId: mug.toHexString() },
+            { productId: removed.toHexString() },
+            { productId: vase.toHexString() },
+            { productId: vase.toHexString(), variantId: 'blue' },
+        ]).items)
+
+        expect(details).toEqual([
+            expect.objectContaining({ productId: vase.toHexString(), variantId: 'blue', price: 45, image: 'blue.jpg', inStock: true, needsVariant: false }),
+            expect.objectContaining({ productId: vase.toHexString(), price: 40, needsVariant: true }),
+            expect.objectContaining({ productId: mug.toHexString(), inStock: false, needsVariant: false }),
+        ])
+    })
+})
+
+describe('mergeGuestWishlist', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it('should add the guest items the user has not saved and delete the guest wishlist', async () => {
+        const { mergeGuestWishlist } = await import('./wishlist-utils')
+        mockWishlistCollection.findOne.mockImplementation(async ({ userId }: { userId: string }) =>
+            userId === 'guest-1'
+                ? wishlistOf('guest-1', [{ productId: 'prod-1' }, { productId: 'prod-2' }])
+                : wishlistOf('user-1', [{ productId: 'prod-1' }])
+        )
+
+        await mergeGuestWishlist('guest-1', 'user-1')
+
+        const [filter, update] = mockWishlistCollection.updateOne.mock.calls[0]
+        expect(filter).toEqual({ userId: 'user-1' })
+        expect(update.$set.items.map((item: { productId: string }) => item.productId)).toEqual(['prod-1', 'prod-2'])
+        expect(mockWishlistCollection.deleteOne).toHaveBeenCalledWith({ userId: 'guest-1' })
+    })
+
+    it('should do nothing without a guest wishlist', async () => {
+        const { mergeGuestWishlist } = await import('./wishlist-utils')
+        mockWishlistCollection.findOne.mockResolvedValue(null)
+
+        await mergeGuestWishlist('guest-1', 'user-1')
+
+        expect(mockWishlistCollection.updateOne).not.toHaveBeenCalled()
+        expect(mockWishlistCollection.deleteOne).not.toHaveBeenCalled()
+    })
+})
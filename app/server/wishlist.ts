@@ -0,0 +1,90 @@
+import { createServerFn } from '@tanstack/react-start'
+
+// --- Wishlist Types ---
+
+interface WishlistItemInput {
+    productId: string
+    variantId?: string
+}
+
+// --- Server Functions ---
+
+/**
+ * Get the current user's wishlist
+ * Unlike the cart this never signs a visitor in; there is nothing saved until they add something
+ */
+export const getWishlist = createServerFn({ method: "GET" })
+    .handler(async () => {
+        const { getAuthSession } = await import('./auth-utils')
+        const { getUserWishlist, getWishlistItemDetails } = await import('./wishlist-utils')
+
+        const session = await getAuthSession()
+
+        if (!session?.user) {
+            return { items: [], userId: null, isAnonymous: true }
+        }
+
+        const wishlist = await getUserWishlist(session.user.id)
+        return {
+            items: await getWishlistItemDetails(wishlist.items),
+            userId: session.user.id,
+            isAnonymous: session.user.isAnonymous ?? false
+        }
+    })
+
+/**
+ * Save a product to the wishlist, signing guests in anonymously like the cart does
+ */
+export const addToWishlist = createServerFn({ method: "POST" })
+    .inputValidator((data: WishlistItemInput) => data)
+    .handler(async ({ data }) => {
+        const { getOrCreateSession } = await import('./auth-utils')
+        const { getProductById } = await import('./product-utils')
+        const { addItemToWishlist, getWishlistItemDetails } = await import('./wishlist-utils')
+
+        const user = await getOrCreateSession()
+
+        const product = await getProductById(data.productId)
+        if (!product || product.status !== 'active') {
+            throw new Error('Product not found')
+        }
+        if (data.variantId && !product.variants?.some(variant => variant.id === data.variantId)) {
+            throw new Error('Variant not found')
+        }
+
+        const wishlist = await addItemToWishlist(user.id, data.productId, data.variantId)
+
+        return {
+            items: await getWishlistItemDetails(wishlist.items),
+            userId: user.id,
+            isAnonymous: user.isAnonymous ?? false
+        }
+    })
+
+/**
+ * Remove a product from the wishlist
+ */
+export const removeFromWishlist = createServerFn({ method: "POST" })
+    .inputValidator((data: WishlistItemInput) => data)
+    .handler(async ({ data }) => {
+        const { getAuthSession } = await import('./auth-utils')
+        const { removeItemFromWishlist, getWishlistItemDetails } = await import('./wishlist-utils')
+
+        const session = await getAuthSession()
+
+        if (!session?.user) {
+            throw new Error('Authentication required')
+        }
+
+        const wishlist = await removeItemFromWishlist(
+            session.user.id,
+            data.productId,
+            data.variantId
+        )
+
+        return {
+            items: await getWishlistItemDetails(wishlist.items),
+            userId: session.user.id,
+            isAnonymous: session.user.isAnonymous ?? false
+        }
+    })
@@ -1,6 +1,7 @@
 
 // Export user role type for use across the application
-export type UserRole = "user" | "admin" | "supplier";
+// support and catalogue_reviewer are staff roles with part of admin's permissions (see utils/rbac)
+export type UserRole = "user" | "admin" | "supplier" | "support" | "catalogue_reviewer";
 
 // ShippingAddress interface for type-safe address handling
 export interface ShippingAddress {
@@ -19,6 +20,7 @@ export interface ExtendedUser {
     shippingAddress: string | null;
     emailVerified: boolean;
     isAnonymous?: boolean;
+    banned?: boolean;
     createdAt: Date;
     updatedAt: Date;
 }
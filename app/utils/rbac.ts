@@ -1,7 +1,9 @@
 /**
- * RBAC (Role-Based Access Control) Client Utilities
+ * RBAC (Role-Based Access Control) Utilities
  * 
- * Helper functions for checking user roles on the client.
+ * The permission policy shared by the server and the client: the server
+ * enforces it through requirePermission, the UI uses can() to hide what a
+ * user is not allowed to do.
  */
 
 import type { UserRole, ShippingAddress } from './auth'
@@ -19,6 +21,121 @@ export interface AuthenticatedUser {
     updatedAt: Date;
 }
 
+// --- Permissions ---
+
+export type Permission =
+    | 'admin:console'               // Open the admin console
+    | 'supplier:portal'             // Sell: supplier dashboard, own product list, orders and storefront
+    | 'product:create'
+    | 'product:update'
+    | 'product:delete'
+    | 'product:activate'            // Set products live after review
+    | 'product:viewUnpublished'     // See drafts, products in review and archived products in listings
+    | 'pricing:viewCost'
+    | 'pricing:update'              // Change cost and selling prices
+    | 'inventory:viewHistory'
+    | 'inventory:adjust'
+    | 'inventory:reconcile'
+    | 'category:manage'
+    | 'order:viewAll'
+    | 'order:updateStatus'
+    | 'order:override'              // Force order and shipment statuses outside the normal flow
+    | 'order:refund'
+    | 'shipment:update'
+    | 'return:manage'
+    | 'supplierApplication:review'
+    | 'user:view'
+    | 'user:manage'
+    | 'audit:view'
+    | 'review:reply'                // Answer customer reviews publicly
+    | 'review:moderate'             // Hide abusive customer reviews
+
+// 'any' grants the permission on every resource, 'own' only on resources the user owns
+export type PermissionScope = 'any' | 'own'
+
+// Something a permission can be checked against, owned by a single user
+export interface OwnedResource {
+    ownerId: string
+}
+
+const ALL_PERMISSIONS: Permission[] = [
+    'admin:console', 'product:create', 'product:update', 'product:delete', 'product:activate',
+    'product:viewUnpublished', 'pricing:viewCost', 'pricing:update', 'inventory:viewHistory', 'inventory:adjust',
+    'inventory:reconcile', 'category:manage', 'order:viewAll', 'order:updateStatus', 'order:override',
+    'order:refund', 'shipment:update', 'return:manage', 'supplierApplication:review', 'user:view', 'user:manage',
+    'audit:view', 'review:reply', 'review:moderate'
+]
+
+/**
+ * What each role may do. Support agents and catalogue reviewers are staff roles
+ * that get the part of admin they need; admins get everything except selling
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Partial<Record<Permission, PermissionScope>>> = {
+    user: {},
+    supplier: {
+        'supplier:portal': 'own',
+        'product:create': 'own',
+        'product:update': 'own',
+        'product:delete': 'own',
+        'pricing:update': 'own',
+        'inventory:viewHistory': 'own',
+        'inventory:adjust': 'own',
+        'shipment:update': 'own',
+        'return:manage': 'own',
+        'order:refund': 'own',
+        'review:reply': 'own'
+    },
+    support: {
+        'admin:console': 'any',
+        'order:viewAll': 'any',
+        'order:updateStatus': 'any',
+        'shipment:update': 'any',
+        'return:manage': 'any',
+        'order:refund': 'any',
+        'user:view': 'any',
+        'review:moderate': 'any'
+    },
+    catalogue_reviewer: {
+        'admin:console': 'any',
+        'product:update': 'any',
+        'product:activate': 'any',
+        'product:viewUnpublished': 'any',
+        'inventory:viewHistory': 'any',
+        'category:manage': 'any',
+        'supplierApplication:review': 'any',
+        'review:moderate': 'any'
+    },
+    admin: Object.fromEntries(ALL_PERMISSIONS.map(permission => [permission, 'any']))
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    user: 'Customer',
+    supplier: 'Supplier',
+    support: 'Support agent',
+    catalogue_reviewer: 'Catalogue reviewer',
+    admin: 'Admin'
+}
+
+/**
+ * Check whether a user may do something
+ * Without a resource this answers whether they may do it at all, e.g. to show a
+ * button; with one, permissions scoped to 'own' also require the user to own it
+ */
+export function can(
+    user: Pick<AuthenticatedUser, 'id' | 'role'> | null | undefined,
+    permission: Permission,
+    resource?: OwnedResource
+): boolean {
+    if (!user) return false
+    
+    const scope = ROLE_PERMISSIONS[user.role]?.[permission]
+    if (!scope) return false
+    
+    return scope === 'any' || !resource || resource.ownerId === user.id
+}
+
+// --- Role Checks ---
+
 /**
  * Check if user has admin role
  */
@@ -0,0 +1,147 @@
+import { MongoClient, type ObjectId } from 'mongodb'
+import { config } from 'dotenv'
+import path from 'path'
+
+// Load environment variables from .env file
+config({ path: path.resolve(process.cwd(), '.env') })
+
+const MONGODB_URI = process.env.MONGODB_URI
+
+if (!MONGODB_URI) {
+    console.error('Missing MONGODB_URI in .env')
+    process.exit(1)
+}
+
+// One-off: products created before the inventory ledger existed have stock but no
+// movements, so reconciliation reports every one of them. This writes an opening
+// adjustment per product (per variant for products with variants) for the stock
+// the ledger does not account for, so the ledger adds up to onHand again.
+//
+// Run with --dry-run first to see what would be written. Products that already
+// have an opening balance are skipped, so running it again changes nothing and
+// real discrepancies found later are still reported.
+
+const OPENING_NOTE = 'Opening balance'
+const dryRun = process.argv.includes('--dry-run')
+
+interface ProductStock {
+    _id: ObjectId
+    name: string
+    inventory: { onHand: number }
+    variants?: Array<{ id: string; inventory: { onHand: number } }>
+    createdAt?: Date
+}
+
+interface OpeningMovement {
+    productId: string
+    variantId?: string
+    type: 'adjustment'
+    delta: number
+    actorId: string
+    actorRole: 'system'
+    note: string
+    createdAt: Date
+}
+
+async function backfill() {
+    console.log('Connecting to MongoDB...')
+    const client = new MongoClient(MONGODB_URI!)
+
+    try {
+        await client.connect()
+        const db = client.db()
+        const productIds = await db.collection<ProductStock>('products')
+            .find({}, { projection: { _id: 1 } })
+            .map(product => product._id)
+            .toArray()
+
+        console.log(`Checking ${productIds.length} products${dryRun ? ' (dry run)' : ''}...`)
+        let backfilled = 0
+        let skipped = 0
+
+        for (const productId of productIds) {
+            const session = client.startSession()
+            // Set inside the transaction, which may run more than once
+            let outcome: 'backfilled' | 'skipped' | null = null
+            try {
+                // Read the stock and the ledger together so a sale meanwhile cannot skew the opening balance
+                await session.withTransaction(async () => {
+                    const products = db.collection<ProductStock>('products')
+                    const movements = db.collection<OpeningMovement>('inventory_movements')
+                    const id = productId.toHexString()
+
+                    const product = await products.findOne({ _id: productId }, { session })
+                    if (!product) {
+                        return
+                    }
+
+                    if (await movements.findOne({ productId: id, note: OPENING_NOTE }, { session })) {
+                        outcome = 'skipped'
+                        return
+                    }
+
+                    const ledger = await movements.aggregate<{ _id: string | null; total: number }>([
+                        { $match: { productId: id } },
+                        { $group: { _id: { $ifNull: ['$variantId', null] }, total: { $sum: '$delta' } } }
+                    ], { session }).toArray()
+                    const ledgerByVariant = new Map(ledger.map(entry => [entry._id, entry.total]))
+                    let ledgerOnHand = ledger.reduce((sum, entry) => sum + entry.total, 0)
+
+                    const openings: Array<{ variantId?: string; delta: number }> = []
+                    for (const variant of product.variants || []) {
+                        const delta = variant.inventory.onHand - (ledgerByVariant.get(variant.id) || 0)
+                        if (delta !== 0) {
+                            openings.push({ variantId: variant.id, delta })
+                            ledgerOnHand += delta
+                        }
+                    }
+
+                    // Whatever the variants do not explain is booked against the product itself
+                    const remainder = product.inventory.onHand - ledgerOnHand
+                    if (remainder !== 0) {
+                        openings.push({ delta: remainder })
+                    }
+
+                    if (openings.length === 0) {
+                        return
+                    }
+
+                    console.log(`${product.name} (${id}): ${openings.map(opening =>
+                        `${opening.variantId ? `variant ${opening.variantId}` : 'product'} ${opening.delta > 0 ? '+' : ''}${opening.delta}`
+                    ).join(', ')}`)
+                    outcome = 'backfilled'
+
+                    if (dryRun) {
+                        return
+                    }
+
+                    // Dated when the product was created so the opening balance comes first in its history
+                    await movements.insertMany(openings.map(opening => ({
+                        productId: id,
+                        ...(opening.variantId && { variantId: opening.variantId }),
+                        type: 'adjustment' as const,
+                        delta: opening.delta,
+                        actorId: 'system',
+                        actorRole: 'system' as const,
+                        note: OPENING_NOTE,
+                        createdAt: product.createdAt || new Date()
+                    })), { session })
+                })
+            } finally {
+                await session.endSession()
+            }
+
+            if (outcome === 'backfilled') backfilled++
+            if (outcome === 'skipped') skipped++
+        }
+
+        console.log(`${dryRun ? 'Would backfill' : 'Backfilled'} ${backfilled} products; ${skipped} already had an opening balance.`)
+    } catch (error) {
+        console.error('Error backfilling the inventory ledger:', error)
+        process.exitCode = 1
+    } finally {
+        await client.close()
+    }
+}
+
+backfill()
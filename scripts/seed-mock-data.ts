@@ -71,6 +71,43 @@ const mockProducts = [
     }
 ]
 
+// Storefront profiles for the mock suppliers, so their maker pages have something to show
+const mockSupplierProfiles = [
+    {
+        supplierId: "mock_supplier_1",
+        displayName: "Riverbend Weavers",
+        bio: "A family workshop weaving bamboo and rattan homeware.",
+        location: "Chiang Mai, Thailand",
+        logoUrl: null,
+        bannerUrl: null,
+        story: "Three generations of our family have woven baskets on the banks of the Ping river. We harvest our bamboo by hand and finish every piece with natural oils.",
+        createdAt: new Date(),
+        updatedAt: new Date()
+    },
+    {
+        supplierId: "mock_supplier_2",
+        displayName: "Ember & Clay",
+        bio: "Small-batch ceramics and hand-poured candles.",
+        location: "Asheville, North Carolina",
+        logoUrl: null,
+        bannerUrl: null,
+        story: "What started as a pottery class turned into a studio. Every vase is thrown on the wheel and every candle is poured by hand in small batches.",
+        createdAt: new Date(),
+        updatedAt: new Date()
+    },
+    {
+        supplierId: "mock_supplier_3",
+        displayName: "Teak Hollow Carvers",
+        bio: "Hand-carved wooden figures from reclaimed teak.",
+        location: "Jaipur, India",
+        logoUrl: null,
+        bannerUrl: null,
+        story: "Our carvers learned their craft from their parents. We only use reclaimed wood, so no two figures share the same grain.",
+        createdAt: new Date(),
+        updatedAt: new Date()
+    }
+]
+
 async function seed() {
     console.log('Connecting to MongoDB...')
     const client = new MongoClient(MONGODB_URI!)
@@ -82,11 +119,31 @@ async function seed() {
 
         console.log('Clearing existing products...')
         await collection.deleteMany({})
+        await db.collection('inventory_movements').deleteMany({})
 
         console.log(`Seeding ${mockProducts.length} products...`)
         const result = await collection.insertMany(mockProducts)
 
         console.log(`Successfully seeded ${result.insertedCount} products.`)
+
+        await db.collection('supplier_profiles').deleteMany({
+            supplierId: { $in: mockSupplierProfiles.map(profile => profile.supplierId) }
+        })
+        await db.collection('supplier_profiles').insertMany(mockSupplierProfiles)
+        console.log(`Seeded ${mockSupplierProfiles.length} supplier profiles.`)
+
+        // Opening stock goes into the inventory ledger so reconciliation starts balanced
+        await db.collection('inventory_movements').insertMany(
+            mockProducts.map((product, index) => ({
+                productId: result.insertedIds[index].toHexString(),
+                type: 'restock',
+                delta: product.inventory.onHand,
+                actorId: 'system',
+                actorRole: 'system',
+                note: 'Seed data',
+                createdAt: new Date()
+            }))
+        )
         
         // Log inserted IDs for verification/testing routes
         const firstId = Object.values(result.insertedIds)[0]
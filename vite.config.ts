@@ -14,7 +14,10 @@ const config = defineConfig({
   },
   plugins: [
     devtools(),
-    nitro(),
+    nitro({
+      // Releases expired stock reservations and payment holds on a timer
+      plugins: ['./app/server/plugins/hold-sweeper.ts'],
+    }),
     // this is the plugin that enables path aliases
     viteTsConfigPaths({
       projects: ['./tsconfig.json'],